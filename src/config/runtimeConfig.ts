@@ -43,10 +43,25 @@ interface DashboardHttpConfig {
   mutationEnabled: boolean;
 }
 
+interface DashboardAuthConfig {
+  enabled: boolean;
+  keysFile: string;                        // hashed API keys (id, role, optional clearance)
+  tokenSecret?: string;                    // HMAC secret for bearer tokens (else tokenSecretFile)
+  tokenSecretFile: string;
+  tokenTtlSec: number;
+}
+
+interface DashboardBackupConfig {
+  intervalMs: number;  // scheduled incremental backups (0 = off)
+  retain: number;      // newest archives kept by the retention pass
+  maxAgeDays: number;  // archives older than this are pruned (0 = no age limit); the newest is always kept
+}
+
 interface DashboardAdminConfig {
   maxSessionHistory: number;
   backupsDir: string;
   instructionsDir: string;
+  backup: DashboardBackupConfig;
 }
 
 interface DashboardSessionPersistenceConfig {
@@ -64,6 +79,7 @@ interface DashboardSessionPersistenceConfig {
 
 interface DashboardConfig {
   http: DashboardHttpConfig;
+  auth: DashboardAuthConfig;
   admin: DashboardAdminConfig;
   sessionPersistence: DashboardSessionPersistenceConfig;
 }
@@ -80,6 +96,28 @@ interface ServerCatalogPollingConfig {
   intervalMs: number;
 }
 
+interface ServerResourcesConfig {
+  pageSize: number;
+  notifyDebounceMs: number;
+}
+
+interface ServerPromptsConfig {
+  category: string;
+  maxArgumentLength: number;
+}
+
+interface ServerHttpTransportConfig {
+  enabled: boolean;
+  host: string;
+  port: number;
+  path: string;
+  jsonResponse: boolean;
+  allowedOrigins: string[];
+  maxSessions: number;
+  sessionIdleMs: number;
+  requireAuth: boolean;                    // sessions need an MCP_ACCESS_TOKENS bearer token (off: anonymous sessions allowed)
+}
+
 interface ServerConfig {
   disableEarlyStdinBuffer: boolean;
   fatalExitDelayMs: number;
@@ -87,6 +125,9 @@ interface ServerConfig {
   sharedSentinel?: string;
   bootstrap: ServerBootstrapConfig;
   catalogPolling: ServerCatalogPollingConfig;
+  resources: ServerResourcesConfig;
+  prompts: ServerPromptsConfig;
+  http: ServerHttpTransportConfig;
   multicoreTrace: boolean;
 }
 
@@ -129,6 +170,18 @@ interface CatalogReadRetriesConfig {
   backoffMs: number;
 }
 
+interface CatalogStorageConfig {
+  backend: 'file' | 'sqlite';
+  sqlitePath?: string; // default <instructionsDir>/catalog.sqlite
+  busyTimeoutMs: number;
+}
+
+interface CatalogGitConfig {
+  enabled: boolean; // commit every catalog mutation to a git repo inside the instructions dir (file storage only)
+  authorName: string;
+  authorEmail: string;
+}
+
 interface CatalogGovernanceConfig {
   trailingNewline: boolean;
   hashHardeningEnabled: boolean;
@@ -149,14 +202,31 @@ interface CatalogConfig {
   readRetries: CatalogReadRetriesConfig;
   usageFlushMs: number;
   disableUsageClamp: boolean;
+  usageBuckets: { sizeMinutes: number; count: number }; // usage/track event window behind usage/report
+  usageHotScore: { temporalDecay: number; maxLookbackHours: number }; // HotScoreService knobs (usage/hotset strategy:'hot', search boost)
   govHash: CatalogGovernanceConfig;
+  storage: CatalogStorageConfig;
+  git: CatalogGitConfig;
+  revisionHistoryDepth: number; // recent catalog snapshots retained for content diffs / merge bases (0 disables)
   maxFiles?: number; // Optional limit on catalog size for performance
   loadWarningThreshold?: number; // Warn if load time exceeds this (ms)
 }
 
+interface ManifestSigningConfig {
+  mode: 'off' | 'sign' | 'refuse';         // sign + report on load, or sign + drop unsigned / altered entries on load
+  keyFile: string;                         // Ed25519 private key (PEM, generated on first use)
+}
+
+interface CatalogBundleConfig {
+  dir: string;                             // default location for exportBundle output / relative importBundle paths
+  requireSignature: boolean;               // importBundle refuses bundles without a valid signature from a trusted key
+  trustedKeys: string[];                   // Ed25519 key ids accepted besides the local signing key
+}
+
 interface InstructionsManifestConfig {
   writeEnabled: boolean;
   fastload: boolean;
+  signing: ManifestSigningConfig;
 }
 
 interface InstructionsCIContextConfig {
@@ -170,6 +240,7 @@ interface InstructionsAuditLogConfig {
   file?: string;
   rawValue?: string;
   usesDefault: boolean;
+  chain: boolean;                          // hash-chain lines (prev / hash) for audit/verify
 }
 
 interface InstructionsListValidationConfig {
@@ -181,6 +252,22 @@ interface InstructionsListValidationConfig {
   maxDurationMs: number;
 }
 
+type GateEnforcement = 'off' | 'warn' | 'block';
+
+interface StatusWorkflowConfig {
+  enforce: boolean;                      // governanceUpdate status changes follow the draft -> review -> approved state machine
+  approvalsByTier: Record<'P1' | 'P2' | 'P3' | 'P4', number>; // approvals needed before review -> approved
+  approvers: string[];                   // allowed approver ids (empty = any caller except the author)
+  holdAgentDrafts: boolean;              // agent-created entries start in draft and stay out of default list/search
+}
+
+interface IngestScanConfig {
+  mode: 'off' | 'warn' | 'redact' | 'block'; // what add / import / dashboard writes do with secret / PII findings
+  classes: ('secret' | 'pii' | 'internal')[];
+  internalDomains: string[];             // hostname suffixes reported as internal hosts
+  minEntropy: number;                    // bits per character for unlabelled high-entropy strings
+}
+
 interface InstructionsConfig {
   workspaceId?: string;
   agentId?: string;
@@ -195,6 +282,11 @@ interface InstructionsConfig {
   ciContext: InstructionsCIContextConfig;
   auditLog: InstructionsAuditLogConfig;
   listValidation: InstructionsListValidationConfig;
+  compositionMaxDepth: number; // extends / includes nesting limit for get resolve:true
+  gateEnforcement: GateEnforcement; // gates.json as a pre-mutation hook for add / import
+  workflow: StatusWorkflowConfig;
+  ingestScan: IngestScanConfig;
+  bundles: CatalogBundleConfig;
 }
 
 interface TracingBufferConfig {
@@ -233,6 +325,35 @@ interface FeedbackConfig {
   maxEntries: number;
 }
 
+interface ReviewConfig {
+  horizonDays: number; // review/queue: entries due within this many days are "upcoming"
+  digest: { enabled: boolean; dir: string; hourUtc: number }; // daily review digest files
+}
+
+interface PromptReviewConfig {
+  criteriaDir?: string;  // per-category prompt/review criteria (<category>.json); default docs/prompt-criteria
+  tokenBudget: number;   // default budget for `length` rules without maxTokens
+}
+
+type Clearance = 'public' | 'internal' | 'restricted';
+
+interface AccessControlConfig {
+  enabled: boolean;                        // filter / redact reads by InstructionEntry.classification
+  defaultClearance: Clearance;             // callers without a mapping (unknown MCP client, dashboard without token)
+  clients: Record<string, Clearance>;      // MCP clientInfo.name (or MCP_AGENT_ID) -> clearance
+  tokens: Record<string, { id: string; clearance: Clearance; tenant?: string }>; // dashboard / MCP HTTP bearer token -> caller
+  mode: 'filter' | 'redact';               // hide entries above clearance, or return them with content removed
+}
+
+interface TenantConfig {
+  enabled: boolean;                        // per-tenant catalogs under root/<tenant>
+  root: string;                            // parent directory of the tenant catalog directories
+  allowed: string[];                       // accepted tenant ids (empty = any valid id)
+  defaultTenant?: string;                  // tenant for sessions / requests that do not select one
+  clients: Record<string, string>;         // MCP clientInfo.name -> tenant
+  inheritGlobal: boolean;                  // tenant catalogs include the global catalog (tenant entries win on id)
+}
+
 interface MinimalConfig {
   debugOrdering: boolean;
 }
@@ -267,6 +388,30 @@ interface GraphConfig {
   explicitIncludePrimaryEnv: boolean;
   explicitLargeCategoryEnv: boolean;
   signature: string;
+  neighborsMaxDepth: number;
+  neighborsMaxNodes: number;
+}
+
+interface SearchSemanticConfig {
+  provider: string;
+  dimensions: number;
+  hybridWeight: number;
+  minSimilarity: number;
+  persistVectors: boolean;
+}
+
+interface SearchFullTextConfig {
+  k1: number;
+  b: number;
+  titleBoost: number;
+  categoryBoost: number;
+  snippetChars: number;
+}
+
+interface SearchConfig {
+  semantic: SearchSemanticConfig;
+  fulltext: SearchFullTextConfig;
+  hotBoostWeight: number; // boostByHotScore: relevance multiplier 1 + weight * (hotScore / max hotScore among candidates)
 }
 
 export interface RuntimeConfig {
@@ -297,6 +442,11 @@ export interface RuntimeConfig {
   validation: ValidationConfig;
   dynamic: DynamicConfig;
   graph: GraphConfig;
+  search: SearchConfig;
+  review: ReviewConfig;
+  promptReview: PromptReviewConfig;
+  access: AccessControlConfig;
+  tenants: TenantConfig;
 }
 
 const deprecationNotices = new Set<string>();
@@ -508,13 +658,14 @@ function parseCoverage(): CoverageConfig {
 function resolveInstructionsAuditLog(): InstructionsAuditLogConfig {
   const defaultPath = toAbsolute(path.join('logs', 'instruction-transactions.log.jsonl'));
   const raw = process.env.INSTRUCTIONS_AUDIT_LOG;
+  const chain = parseBooleanEnv(process.env.MCP_AUDIT_CHAIN, true);
   if(raw === undefined || raw.trim().length === 0){
-    return { enabled: true, file: defaultPath, rawValue: undefined, usesDefault: true };
+    return { enabled: true, file: defaultPath, rawValue: undefined, usesDefault: true, chain };
   }
   const trimmed = raw.trim();
   const normalized = trimmed.toLowerCase();
   if(['0','false','no','off','disabled','none'].includes(normalized)){
-    return { enabled: false, rawValue: raw, usesDefault: false };
+    return { enabled: false, rawValue: raw, usesDefault: false, chain };
   }
   const defaultRequested = trimmed === '1' || ['true','on','yes','default'].includes(normalized);
   return {
@@ -522,6 +673,7 @@ function resolveInstructionsAuditLog(): InstructionsAuditLogConfig {
     file: defaultRequested ? defaultPath : toAbsolute(trimmed),
     rawValue: raw,
     usesDefault: defaultRequested || trimmed.length === 0,
+    chain,
   };
 }
 
@@ -565,12 +717,31 @@ function parseCatalogConfig(): CatalogConfig {
     readRetries: { attempts, backoffMs },
     usageFlushMs,
     disableUsageClamp: getBooleanEnv('MCP_DISABLE_USAGE_CLAMP'),
+    usageBuckets: {
+      sizeMinutes: clamp(Math.floor(numberFromEnv('MCP_USAGE_BUCKET_MINUTES', 60)), 1, 60),
+      count: clamp(Math.floor(numberFromEnv('MCP_USAGE_BUCKET_COUNT', 24)), 1, 720),
+    },
+    usageHotScore: {
+      temporalDecay: clamp(floatFromEnv('MCP_HOTSCORE_DECAY', 0.95), 0.5, 1),
+      maxLookbackHours: clamp(Math.floor(numberFromEnv('MCP_HOTSCORE_LOOKBACK_HOURS', 168)), 1, 8760),
+    },
     govHash: {
       trailingNewline: getBooleanEnv('GOV_HASH_TRAILING_NEWLINE'),
       hashHardeningEnabled,
       hashCanonVariants,
       hashImportSetSize,
     },
+    storage: {
+      backend: stringFromEnv('MCP_CATALOG_STORAGE', 'file').trim().toLowerCase() === 'sqlite' ? 'sqlite' : 'file',
+      sqlitePath: process.env.MCP_CATALOG_SQLITE_PATH ? toAbsolute(process.env.MCP_CATALOG_SQLITE_PATH) : undefined,
+      busyTimeoutMs: clamp(Math.floor(numberFromEnv('MCP_CATALOG_SQLITE_BUSY_TIMEOUT_MS', 5000)), 0, 600000),
+    },
+    git: {
+      enabled: getBooleanEnv('MCP_CATALOG_GIT'),
+      authorName: stringFromEnv('MCP_CATALOG_GIT_AUTHOR_NAME', 'mcp-index-server'),
+      authorEmail: stringFromEnv('MCP_CATALOG_GIT_AUTHOR_EMAIL', 'mcp-index-server@localhost'),
+    },
+    revisionHistoryDepth: clamp(Math.floor(numberFromEnv('MCP_REVISION_HISTORY_DEPTH', 20)), 0, 500),
     maxFiles,
     loadWarningThreshold,
   };
@@ -595,10 +766,22 @@ function parseDashboardConfig(mutationEnabled: boolean, catalogConfig: CatalogCo
       verboseLogging: getBooleanEnv('MCP_VERBOSE_LOGGING') || getBooleanEnv('MCP_LOG_VERBOSE'),
       mutationEnabled,
     },
+    auth: {
+      enabled: getBooleanEnv('MCP_DASHBOARD_AUTH'),
+      keysFile: toAbsolute(process.env.MCP_DASHBOARD_KEYS_FILE, path.join('data', 'dashboard-keys.json')),
+      tokenSecret: process.env.MCP_DASHBOARD_TOKEN_SECRET?.trim() || undefined,
+      tokenSecretFile: toAbsolute(process.env.MCP_DASHBOARD_TOKEN_SECRET_FILE, path.join('data', 'keys', 'dashboard-token.secret')),
+      tokenTtlSec: clamp(numberFromEnv('MCP_DASHBOARD_TOKEN_TTL_SEC', 3600), 60, 30 * 24 * 3600),
+    },
     admin: {
       maxSessionHistory: numberFromEnv('MCP_ADMIN_MAX_SESSION_HISTORY', 200),
       backupsDir,
       instructionsDir: catalogConfig.baseDir,
+      backup: {
+        intervalMs: Math.max(0, numberFromEnv('MCP_BACKUP_INTERVAL_MS', 0)),
+        retain: Math.max(1, numberFromEnv('MCP_BACKUP_RETAIN', 20)),
+        maxAgeDays: Math.max(0, numberFromEnv('MCP_BACKUP_MAX_AGE_DAYS', 0)),
+      },
     },
     sessionPersistence: {
       enabled: persistenceEnabled,
@@ -632,6 +815,25 @@ function parseServerConfig(): ServerConfig {
       proactive: getBooleanEnv('MCP_CATALOG_POLL_PROACTIVE'),
       intervalMs: numberFromEnv('MCP_CATALOG_POLL_MS', 10000),
     },
+    resources: {
+      pageSize: clamp(numberFromEnv('MCP_RESOURCES_PAGE_SIZE', 100), 1, 1000),
+      notifyDebounceMs: Math.max(0, numberFromEnv('MCP_RESOURCES_NOTIFY_DEBOUNCE_MS', 50)),
+    },
+    prompts: {
+      category: stringFromEnv('MCP_PROMPTS_CATEGORY', 'prompts').trim().toLowerCase() || 'prompts',
+      maxArgumentLength: clamp(numberFromEnv('MCP_PROMPTS_MAX_ARG_LENGTH', 4000), 1, 20000),
+    },
+    http: {
+      enabled: getBooleanEnv('MCP_HTTP_TRANSPORT'),
+      host: stringFromEnv('MCP_HTTP_HOST', '127.0.0.1'),
+      port: clamp(numberFromEnv('MCP_HTTP_PORT', 8788), 0, 65535),
+      path: '/' + stringFromEnv('MCP_HTTP_PATH', '/mcp').trim().replace(/^\/+/, ''),
+      jsonResponse: getBooleanEnv('MCP_HTTP_JSON_RESPONSE'),
+      allowedOrigins: parseCsvEnv('MCP_HTTP_ALLOWED_ORIGINS'),
+      maxSessions: clamp(numberFromEnv('MCP_HTTP_MAX_SESSIONS', 100), 1, 10000),
+      sessionIdleMs: Math.max(0, numberFromEnv('MCP_HTTP_SESSION_IDLE_MS', 30 * 60 * 1000)),
+      requireAuth: parseBooleanEnv(process.env.MCP_HTTP_REQUIRE_AUTH, true),
+    },
     multicoreTrace: getBooleanEnv('MULTICLIENT_TRACE'),
   };
 }
@@ -686,6 +888,62 @@ function parseMetricsConfig(): MetricsConfig {
   };
 }
 
+function parseGateEnforcement(raw: string | undefined): GateEnforcement {
+  const v = (raw || '').trim().toLowerCase();
+  if(v === 'warn' || v === 'block') return v;
+  if(parseBooleanEnv(raw, false)) return 'block';
+  return 'off';
+}
+
+function parseApprovalsByTier(raw: string | undefined): StatusWorkflowConfig['approvalsByTier'] {
+  const out: StatusWorkflowConfig['approvalsByTier'] = { P1: 2, P2: 1, P3: 1, P4: 1 };
+  for(const part of (raw || '').split(',')){
+    const [tier, count] = part.split(':').map(s => s.trim());
+    const n = Number(count);
+    if(tier && tier.toUpperCase() in out && Number.isFinite(n)) out[tier.toUpperCase() as keyof typeof out] = clamp(Math.floor(n), 0, 10);
+  }
+  return out;
+}
+
+function parseStatusWorkflowConfig(): StatusWorkflowConfig {
+  return {
+    enforce: parseBooleanEnv(process.env.MCP_STATUS_WORKFLOW, true),
+    approvalsByTier: parseApprovalsByTier(process.env.MCP_APPROVALS_REQUIRED),
+    approvers: (process.env.MCP_APPROVERS || '').split(',').map(s => s.trim()).filter(Boolean),
+    holdAgentDrafts: parseBooleanEnv(process.env.MCP_AGENT_DRAFTS, true),
+  };
+}
+
+function parseIngestScanConfig(): IngestScanConfig {
+  const rawMode = (process.env.MCP_INGEST_SCAN || '').trim().toLowerCase();
+  const mode: IngestScanConfig['mode'] = rawMode === 'off' || rawMode === 'redact' || rawMode === 'block' ? rawMode
+    : (rawMode && parseBooleanEnv(rawMode, true) === false ? 'off' : 'warn');
+  const known: IngestScanConfig['classes'] = ['secret', 'pii', 'internal'];
+  const requested = (process.env.MCP_INGEST_SCAN_CLASSES || '').split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+  const classes = requested.length ? known.filter(c => requested.includes(c)) : known;
+  const domains = (process.env.MCP_INTERNAL_DOMAINS || '').split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+  return {
+    mode,
+    classes,
+    internalDomains: domains.length ? domains : ['internal', 'corp', 'lan', 'intranet'],
+    minEntropy: clamp(numberFromEnv('MCP_INGEST_SCAN_ENTROPY', 4), 3, 6),
+  };
+}
+
+function parseManifestSigningConfig(): ManifestSigningConfig {
+  const raw = (process.env.MCP_MANIFEST_SIGNING || '').trim().toLowerCase();
+  const mode: ManifestSigningConfig['mode'] = raw === 'refuse' ? 'refuse' : (raw === 'sign' || raw === 'warn' || parseBooleanEnv(raw, false)) ? 'sign' : 'off';
+  return { mode, keyFile: toAbsolute(process.env.MCP_SIGNING_KEY_FILE, path.join('data', 'keys', 'manifest-ed25519.pem')) };
+}
+
+function parseCatalogBundleConfig(): CatalogBundleConfig {
+  return {
+    dir: toAbsolute(process.env.MCP_BUNDLES_DIR, path.join(CWD, 'bundles')),
+    requireSignature: getBooleanEnv('MCP_BUNDLE_REQUIRE_SIGNATURE'),
+    trustedKeys: (process.env.MCP_BUNDLE_TRUSTED_KEYS || '').split(',').map(s => s.trim().toLowerCase()).filter(Boolean),
+  };
+}
+
 function parseInstructionsConfig(mutationEnabled: boolean): InstructionsConfig {
   const auditLog = resolveInstructionsAuditLog();
   const workspaceId = process.env.WORKSPACE_ID || process.env.INSTRUCTIONS_WORKSPACE;
@@ -710,6 +968,7 @@ function parseInstructionsConfig(mutationEnabled: boolean): InstructionsConfig {
     manifest: {
       writeEnabled: manifestWriteEnabled,
       fastload: getBooleanEnv('MCP_MANIFEST_FASTLOAD'),
+      signing: parseManifestSigningConfig(),
     },
     mutationEnabledLegacy: getBooleanEnv('MCP_ENABLE_MUTATION') || mutationEnabled,
     ciContext: {
@@ -726,6 +985,11 @@ function parseInstructionsConfig(mutationEnabled: boolean): InstructionsConfig {
       concurrency,
       maxDurationMs,
     },
+    compositionMaxDepth: clamp(Math.floor(numberFromEnv('MCP_COMPOSITION_MAX_DEPTH', 8)), 1, 32),
+    gateEnforcement: parseGateEnforcement(process.env.MCP_GATES_ENFORCE),
+    workflow: parseStatusWorkflowConfig(),
+    ingestScan: parseIngestScanConfig(),
+    bundles: parseCatalogBundleConfig(),
   };
 }
 
@@ -812,6 +1076,82 @@ function parseFeedbackConfig(): FeedbackConfig {
   };
 }
 
+function parsePromptReviewConfig(): PromptReviewConfig {
+  const dir = stringFromEnv('MCP_PROMPT_CRITERIA_DIR', '');
+  return {
+    criteriaDir: dir ? toAbsolute(dir) : undefined,
+    tokenBudget: clamp(Math.floor(numberFromEnv('MCP_PROMPT_TOKEN_BUDGET', 2000)), 50, 200000),
+  };
+}
+
+const CLEARANCES: Clearance[] = ['public', 'internal', 'restricted'];
+function parseClearance(raw: string | undefined, fallback: Clearance): Clearance {
+  const v = (raw || '').trim().toLowerCase() as Clearance;
+  return CLEARANCES.includes(v) ? v : fallback;
+}
+
+// MCP_CLIENT_CLEARANCE=name:level,...  MCP_ACCESS_TOKENS=token=name:level[@tenant],...
+function parseAccessControlConfig(): AccessControlConfig {
+  const defaultClearance = parseClearance(process.env.MCP_DEFAULT_CLEARANCE, 'internal');
+  const clients: Record<string, Clearance> = {};
+  for(const part of (process.env.MCP_CLIENT_CLEARANCE || '').split(',')){
+    const idx = part.lastIndexOf(':');
+    if(idx <= 0) continue;
+    const name = part.slice(0, idx).trim();
+    if(name) clients[name] = parseClearance(part.slice(idx + 1), defaultClearance);
+  }
+  const tokens: Record<string, { id: string; clearance: Clearance; tenant?: string }> = {};
+  for(const part of (process.env.MCP_ACCESS_TOKENS || '').split(',')){
+    const eq = part.indexOf('=');
+    if(eq <= 0) continue;
+    const token = part.slice(0, eq).trim(); let rest = part.slice(eq + 1);
+    // a trailing @tenant binds the token to that tenant (an @ inside the name is left alone)
+    const at = rest.lastIndexOf('@');
+    let tenant: string | undefined;
+    if(at > rest.lastIndexOf(':')){ tenant = rest.slice(at + 1).trim() || undefined; rest = rest.slice(0, at); }
+    const idx = rest.lastIndexOf(':');
+    const id = (idx > 0 ? rest.slice(0, idx) : rest).trim() || 'dashboard';
+    if(token) tokens[token] = { id, clearance: idx > 0 ? parseClearance(rest.slice(idx + 1), defaultClearance) : defaultClearance, ...(tenant ? { tenant } : {}) };
+  }
+  return {
+    enabled: getBooleanEnv('MCP_ACCESS_CONTROL'),
+    defaultClearance,
+    clients,
+    tokens,
+    mode: (process.env.MCP_ACCESS_MODE || '').trim().toLowerCase() === 'redact' ? 'redact' : 'filter',
+  };
+}
+
+// MCP_CLIENT_TENANTS=name:tenant,...
+function parseTenantConfig(): TenantConfig {
+  const clients: Record<string, string> = {};
+  for(const part of (process.env.MCP_CLIENT_TENANTS || '').split(',')){
+    const idx = part.lastIndexOf(':');
+    if(idx <= 0) continue;
+    const name = part.slice(0, idx).trim(); const tenant = part.slice(idx + 1).trim();
+    if(name && tenant) clients[name] = tenant;
+  }
+  return {
+    enabled: getBooleanEnv('MCP_MULTI_TENANT'),
+    root: toAbsolute(process.env.MCP_TENANTS_DIR, 'tenants'),
+    allowed: parseCsvEnv('MCP_TENANTS'),
+    defaultTenant: (process.env.MCP_TENANT || '').trim() || undefined,
+    clients,
+    inheritGlobal: parseBooleanEnv(process.env.MCP_TENANT_INHERIT_GLOBAL, true),
+  };
+}
+
+function parseReviewConfig(): ReviewConfig {
+  return {
+    horizonDays: clamp(Math.floor(numberFromEnv('MCP_REVIEW_HORIZON_DAYS', 14)), 1, 365),
+    digest: {
+      enabled: getBooleanEnv('MCP_REVIEW_DIGEST'),
+      dir: toAbsolute(process.env.MCP_REVIEW_DIGEST_DIR, path.join(CWD, 'data', 'review-digests')),
+      hourUtc: clamp(Math.floor(numberFromEnv('MCP_REVIEW_DIGEST_HOUR_UTC', 6)), 0, 23),
+    },
+  };
+}
+
 function parseMinimalConfig(): MinimalConfig {
   return {
     debugOrdering: getBooleanEnv('MCP_MINIMAL_DEBUG'),
@@ -874,6 +1214,28 @@ function parseGraphConfig(): GraphConfig {
     explicitIncludePrimaryEnv,
     explicitLargeCategoryEnv,
     signature,
+    neighborsMaxDepth: clamp(Math.floor(numberFromEnv('MCP_GRAPH_NEIGHBORS_MAX_DEPTH', 6)), 1, 20),
+    neighborsMaxNodes: clamp(Math.floor(numberFromEnv('MCP_GRAPH_NEIGHBORS_MAX_NODES', 200)), 1, 5000),
+  };
+}
+
+function parseSearchConfig(): SearchConfig {
+  return {
+    semantic: {
+      provider: stringFromEnv('MCP_SEARCH_EMBEDDING_PROVIDER', 'hashing').trim().toLowerCase(),
+      dimensions: clamp(Math.floor(numberFromEnv('MCP_SEARCH_EMBEDDING_DIMS', 2048)), 64, 65536),
+      hybridWeight: clamp(floatFromEnv('MCP_SEARCH_HYBRID_WEIGHT', 0.5), 0, 1),
+      minSimilarity: clamp(floatFromEnv('MCP_SEARCH_MIN_SIMILARITY', 0.05), 0, 1),
+      persistVectors: parseBooleanEnv(process.env.MCP_SEARCH_PERSIST_VECTORS, true),
+    },
+    fulltext: {
+      k1: clamp(floatFromEnv('MCP_SEARCH_BM25_K1', 1.2), 0, 10),
+      b: clamp(floatFromEnv('MCP_SEARCH_BM25_B', 0.75), 0, 1),
+      titleBoost: clamp(floatFromEnv('MCP_SEARCH_TITLE_BOOST', 3), 0, 100),
+      categoryBoost: clamp(floatFromEnv('MCP_SEARCH_CATEGORY_BOOST', 2), 0, 100),
+      snippetChars: clamp(Math.floor(numberFromEnv('MCP_SEARCH_SNIPPET_CHARS', 160)), 40, 2000),
+    },
+    hotBoostWeight: clamp(floatFromEnv('MCP_SEARCH_HOT_BOOST', 0.5), 0, 5),
   };
 }
 
@@ -902,6 +1264,8 @@ export function loadRuntimeConfig(): RuntimeConfig {
   const validation = parseValidationConfig();
   const dynamic = parseDynamicConfig();
   const graph = parseGraphConfig();
+  const search = parseSearchConfig();
+  const review = parseReviewConfig();
   return {
     profile,
     testMode,
@@ -930,6 +1294,11 @@ export function loadRuntimeConfig(): RuntimeConfig {
     validation,
     dynamic,
     graph,
+    search,
+    review,
+    promptReview: parsePromptReviewConfig(),
+    access: parseAccessControlConfig(),
+    tenants: parseTenantConfig(),
   };
 }
 
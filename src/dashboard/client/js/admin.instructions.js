@@ -191,6 +191,7 @@
         if(!data.content && data.data?.content) data.content = data.data.content;
         if(!data.content) throw new Error('missing content');
         globals.instructionEditing = name;
+        globals.instructionEtag = data.etag || res.headers.get('ETag') || '';
         const title = document.getElementById('instruction-editor-title'); if(title) title.textContent = 'Edit Instruction: ' + name;
         if(filenameEl){ filenameEl.value = name; filenameEl.disabled = true; }
         const pretty = JSON.stringify(data.content, null, 2);
@@ -207,7 +208,7 @@
     globals.showError && globals.showError('Failed to load instruction');
   }
 
-  function cancelEditInstruction(){ const ed = document.getElementById('instruction-editor'); if(ed) ed.classList.add('hidden'); const diff = document.getElementById('instruction-diff-container'); if(diff) diff.classList.add('hidden'); globals.instructionOriginalContent=''; }
+  function cancelEditInstruction(){ const ed = document.getElementById('instruction-editor'); if(ed) ed.classList.add('hidden'); const diff = document.getElementById('instruction-diff-container'); if(diff) diff.classList.add('hidden'); globals.instructionOriginalContent=''; globals.instructionEtag=''; }
 
   function ensureInstructionEditorAtTop(){
     try{
@@ -270,10 +271,15 @@
     let url = '/api/instructions'; let method = 'POST';
     if(globals.instructionEditing){ url += '/' + encodeURIComponent(globals.instructionEditing); method = 'PUT'; }
     else { body.name = nameEl.value.trim(); if(!body.name){ globals.showError && globals.showError('Provide file name'); return; } }
+    const headers = {'Content-Type':'application/json'};
+    // Optimistic concurrency: refuse to clobber edits made since this editor loaded the instruction.
+    if(method === 'PUT' && globals.instructionEtag) headers['If-Match'] = '"' + globals.instructionEtag + '"';
     try{
-      const res = await fetch(url, { method, headers:{'Content-Type':'application/json'}, body: JSON.stringify(body)});
+      const res = await fetch(url, { method, headers, body: JSON.stringify(body)});
       const data = await res.json();
+      if(res.status === 412){ throw new Error('Instruction was changed by someone else since you opened it; reload it and re-apply your edits'); }
       if(!res.ok || !data.success){ throw new Error(data.error || data.message || 'Save failed'); }
+      if(data.etag) globals.instructionEtag = data.etag;
       globals.showSuccess && globals.showSuccess(globals.instructionEditing? 'Instruction updated':'Instruction created');
       globals.instructionOriginalContent = JSON.stringify(parsed, null, 2);
       ta.value = globals.instructionOriginalContent;
@@ -314,8 +320,11 @@
   async function deleteInstruction(name) {
     if (!confirm('Delete instruction ' + name + '?')) return;
     try {
-      const res = await fetch('/api/instructions/' + encodeURIComponent(name), { method:'DELETE' });
+      const listed = (globals.allInstructions || []).find(i => i.name === name);
+      const headers = listed && listed.etag ? { 'If-Match': '"' + listed.etag + '"' } : undefined;
+      const res = await fetch('/api/instructions/' + encodeURIComponent(name), { method:'DELETE', headers });
       const data = await res.json();
+      if (res.status === 412) { globals.showError && globals.showError('Instruction changed since the list was loaded; refresh and retry'); loadInstructions(); return; }
       if (data.success) { globals.showSuccess && globals.showSuccess('Deleted'); loadInstructions(); } else { globals.showError && globals.showError(data.error || 'Delete failed'); }
     } catch { globals.showError && globals.showError('Delete failed'); }
   }
@@ -4,6 +4,33 @@
     let logEventSource = null;
     let logTailing = false;
 
+    // Server-sent events read through fetch rather than EventSource, so the dashboard credential goes in the
+    // Authorization header (added by admin.utils.js) instead of the URL. Returns an object with close().
+    function openLogStream(url) {
+        const abort = new AbortController();
+        const stream = { onmessage: null, onerror: null, close: () => abort.abort() };
+        fetch(url, { signal: abort.signal, headers: { Accept: 'text/event-stream' } }).then(async response => {
+            if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffered = '';
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) throw new Error('Log stream closed');
+                buffered += decoder.decode(value, { stream: true });
+                const events = buffered.split('\n\n');
+                buffered = events.pop();
+                for (const event of events) {
+                    const data = event.split('\n').filter(l => l.startsWith('data: ')).map(l => l.slice(6)).join('');
+                    if (data && stream.onmessage) stream.onmessage({ data });
+                }
+            }
+        }).catch(error => {
+            if (!abort.signal.aborted && stream.onerror) stream.onerror(error);
+        });
+        return stream;
+    }
+
     async function loadLogs() {
         try {
             const lines = document.getElementById('log-lines').value || 100;
@@ -59,7 +86,7 @@
         } else {
             logTailing = true;
             if (button) { button.textContent = '⏹ Stop Tail'; button.className = 'action-btn warning'; }
-            logEventSource = new EventSource('/api/logs/stream');
+            logEventSource = openLogStream('/api/logs/stream');
             logEventSource.onmessage = function(event) {
                 try {
                     const data = JSON.parse(event.data);
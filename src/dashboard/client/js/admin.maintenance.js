@@ -20,7 +20,9 @@
                 const label = `${b.id}  •  ${b.instructionCount} files  •  ${b.schemaVersion || 'schema?'}  •  ${new Date(b.createdAt).toLocaleString()}`;
                 return `<option value="${b.id}">${label}</option>`;
             }).join('');
-            if (meta) meta.textContent = `${backups.length} backup(s)`;
+            const store = data.store ? `  •  ${data.store.objects} stored bodies` : '';
+            const schedule = data.schedule && data.schedule.intervalMs ? `  •  every ${Math.round(data.schedule.intervalMs / 60000)} min, keep ${data.schedule.retain}` : '';
+            if (meta) meta.textContent = `${backups.length} backup(s)${store}${schedule}`;
         } catch (err) {
             console.warn('loadBackups error', err);
             const sel = document.getElementById('backup-select');
@@ -28,15 +30,64 @@
         }
     }
 
+    function restoreIds() {
+        const el = document.getElementById('backup-restore-ids');
+        const ids = el ? el.value.split(',').map(s => s.trim()).filter(Boolean) : [];
+        return ids.length ? ids : undefined;
+    }
+
+    function renderRestorePlan(plan) {
+        const lines = [`${plan.backupId}: ${plan.added.length} added, ${plan.changed.length} changed, ${plan.unchanged.length} unchanged`];
+        if (plan.added.length) lines.push('', 'Added: ' + plan.added.join(', '));
+        plan.changed.forEach(c => {
+            lines.push('', `Changed: ${c.name}` + (c.fields.length ? ` (${c.fields.map(f => f.field).join(', ')})` : ''));
+            if (c.bodyDiff) lines.push(c.bodyDiff);
+        });
+        if (plan.liveOnly.length) lines.push('', 'Only in live catalog (kept): ' + plan.liveOnly.join(', '));
+        return lines.join('\n');
+    }
+
+    async function previewSelectedBackup() {
+        const sel = document.getElementById('backup-select');
+        const statusEl = document.getElementById('backup-restore-status');
+        const out = document.getElementById('backup-preview');
+        if (!sel || !sel.value) { if (statusEl) statusEl.textContent = 'Select a backup first'; return; }
+        try {
+            if (statusEl) statusEl.textContent = 'Comparing...';
+            const res = await fetch('/api/admin/maintenance/restore', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ backupId: sel.value, ids: restoreIds(), dryRun: true }) });
+            const data = await res.json();
+            if (!data.success) { if (statusEl) statusEl.textContent = `Preview failed: ${data.error || 'unknown'}`; return; }
+            if (statusEl) statusEl.textContent = data.message;
+            if (out) { out.textContent = renderRestorePlan(data.plan); out.style.display = 'block'; }
+        } catch (err) {
+            if (statusEl) statusEl.textContent = 'Error previewing restore';
+        }
+    }
+
+    async function verifySelectedBackup() {
+        const sel = document.getElementById('backup-select');
+        const id = (sel && sel.value) || window.__lastSelectedBackupId;
+        if (!id) { alert('Select a backup first'); return; }
+        try {
+            const res = await fetch(`/api/admin/maintenance/backup/${encodeURIComponent(id)}/verify`);
+            const data = await res.json();
+            if (!data.success) { if (typeof showError === 'function') showError(data.error || 'Verify failed'); return; }
+            const v = data.verification;
+            if (v.ok) { if (typeof showSuccess === 'function') showSuccess(`${id}: ${v.entries} entries ${v.checksummed ? 'verified' : 'parsed (legacy backup, no checksums)'}`); }
+            else if (typeof showError === 'function') showError(`${id}: ${v.issues.length} problem(s) - ${v.issues.slice(0, 3).map(i => `${i.file || 'manifest'} ${i.problem}`).join('; ')}`);
+        } catch (e) { if (typeof showError === 'function') showError('Verify failed'); }
+    }
+
     async function restoreSelectedBackup() {
         try {
             const sel = document.getElementById('backup-select');
             const statusEl = document.getElementById('backup-restore-status');
             if (!sel || !sel.value) { if (statusEl) statusEl.textContent = 'Select a backup first'; return; }
             const choice = sel.value;
-            if (!confirm(`Restore backup ${choice}? Current instructions will be safety-backed up first.`)) return;
+            const ids = restoreIds();
+            if (!confirm(`Restore ${ids ? ids.join(', ') + ' from ' : ''}backup ${choice}? Changed instructions will be safety-backed up first.`)) return;
             if (statusEl) statusEl.textContent = 'Restoring...';
-            const res = await fetch('/api/admin/maintenance/restore', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ backupId: choice }) });
+            const res = await fetch('/api/admin/maintenance/restore', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ backupId: choice, ids }) });
             const data = await res.json();
             if (data.success) {
                 if (statusEl) statusEl.textContent = `Restored ${choice} (${data.restored || 0} files)`;
@@ -89,6 +140,7 @@
             <div style="margin-top:10px; font-weight:600; font-size:13px;">Backups</div>
                             <div style="display:flex; gap:6px; flex-wrap:wrap; align-items:center; margin-top:4px;">
                                 <button class="action-btn" style="padding:4px 8px; font-size:11px;" onclick="selectLatestBackup()">Select Latest</button>
+                                <button class="action-btn" style="padding:4px 8px; font-size:11px;" onclick="verifySelectedBackup()">Verify Selected</button>
                                 <button class="action-btn danger" style="padding:4px 8px; font-size:11px;" onclick="deleteSelectedBackup()">Delete Selected</button>
                                 <button class="action-btn warning" style="padding:4px 8px; font-size:11px;" onclick="promptPruneBackups()">Prune…</button>
                                 <input id="backup-search" type="text" placeholder="Filter (id / schema)" oninput="filterBackupRows()" style="flex:1; min-width:160px; padding:4px 6px; background:#1c1e22; border:1px solid #2d2f33; border-radius:4px; color:#d0d4d8; font-size:12px;" />
@@ -282,6 +334,8 @@
     // Expose to global for staged migration
     window.loadBackups = loadBackups;
     window.restoreSelectedBackup = restoreSelectedBackup;
+    window.previewSelectedBackup = previewSelectedBackup;
+    window.verifySelectedBackup = verifySelectedBackup;
     window.loadMaintenanceStatus = loadMaintenanceStatus;
     window.displayMaintenanceStatus = displayMaintenanceStatus;
     window.selectLatestBackup = selectLatestBackup;
@@ -0,0 +1,82 @@
+/* eslint-disable */
+// Review queue panel: overdue / upcoming instruction reviews per owner (GET /api/reviews/queue)
+(function(){
+    function esc(text) {
+        return (window.adminUtils && window.adminUtils.escapeHtml) ? window.adminUtils.escapeHtml(String(text ?? '')) : String(text ?? '');
+    }
+
+    function reviewRow(item) {
+        const due = (item.nextReviewDue || '').slice(0, 10);
+        const when = item.daysUntilDue < 0 ? `${-item.daysUntilDue}d overdue` : `in ${item.daysUntilDue}d`;
+        const color = item.daysUntilDue < 0 ? '#c0392b' : '#555';
+        return `<tr>
+            <td><code>${esc(item.id)}</code></td>
+            <td>${esc(item.title)}</td>
+            <td>${esc(item.priorityTier || '-')}</td>
+            <td>${esc(due)} <span style="color:${color}; font-size:11px;">(${esc(when)})</span></td>
+            <td><button class="action-btn sm" onclick="completeReview('${esc(item.id)}')">✅ Mark reviewed</button></td>
+        </tr>`;
+    }
+
+    function reviewTable(label, items) {
+        if (!items.length) return '';
+        return `<div style="margin:6px 0 2px; font-weight:600;">${label} (${items.length})</div>
+            <table class="data-table" style="width:100%; font-size:12px;">
+                <thead><tr><th>Id</th><th>Title</th><th>Tier</th><th>Due</th><th></th></tr></thead>
+                <tbody>${items.map(reviewRow).join('')}</tbody>
+            </table>`;
+    }
+
+    async function loadReviewQueue() {
+        const container = document.getElementById('review-queue');
+        const summary = document.getElementById('review-summary');
+        if (!container) return;
+        try {
+            const params = new URLSearchParams();
+            const owner = (document.getElementById('review-owner-filter') || {}).value;
+            const horizon = (document.getElementById('review-horizon') || {}).value;
+            if (owner) params.set('owner', owner);
+            if (horizon) params.set('horizonDays', horizon);
+            const res = await fetch(`/api/reviews/queue${params.toString() ? '?' + params : ''}`);
+            const data = await res.json();
+            if (!res.ok || !data.success) throw new Error(data.error || `HTTP ${res.status}`);
+            const horizonInput = document.getElementById('review-horizon');
+            if (horizonInput && !horizonInput.value) horizonInput.value = data.horizonDays;
+            if (summary) summary.innerHTML = `<strong>${data.overdueCount}</strong> overdue · <strong>${data.upcomingCount}</strong> due within ${data.horizonDays} days`;
+            if (!data.owners.length) {
+                container.innerHTML = '<div style="color:#666; font-style:italic;">Nothing is due for review.</div>';
+                return;
+            }
+            container.innerHTML = data.owners.map(o => `<div class="admin-card" style="margin-bottom:10px;">
+                <div style="font-weight:600; margin-bottom:4px;">👤 ${esc(o.owner)}</div>
+                ${reviewTable('Overdue', o.overdue)}
+                ${reviewTable('Upcoming', o.upcoming)}
+            </div>`).join('');
+        } catch (error) {
+            console.error('Failed to load review queue:', error);
+            container.innerHTML = '<div class="error">Failed to load review queue</div>';
+        }
+    }
+
+    async function completeReview(id) {
+        const reviewer = (document.getElementById('review-reviewer') || {}).value || undefined;
+        const notes = window.prompt(`Review notes for ${id} (optional)`, '');
+        if (notes === null) return;
+        try {
+            const res = await fetch(`/api/reviews/${encodeURIComponent(id)}/complete`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ reviewer, notes: notes || undefined })
+            });
+            const data = await res.json();
+            if (!res.ok || !data.success) throw new Error(data.error || `HTTP ${res.status}`);
+            if (window.adminUtils) window.adminUtils.showSuccess(`Review recorded for ${id}; next due ${String(data.nextReviewDue).slice(0, 10)}`);
+            loadReviewQueue();
+        } catch (error) {
+            if (window.adminUtils) window.adminUtils.showError(`Failed to complete review: ${error.message}`);
+        }
+    }
+
+    window.loadReviewQueue = loadReviewQueue;
+    window.completeReview = completeReview;
+})();
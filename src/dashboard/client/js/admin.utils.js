@@ -39,11 +39,47 @@
     setTimeout(()=> d.remove(), 5000);
   }
 
+  // Dashboard auth (MCP_DASHBOARD_AUTH): send the stored API key / token with every /api request and ask for
+  // one on 401. Kept in sessionStorage so it does not outlive the browser session.
+  const CREDENTIAL_KEY = 'mcpDashboardCredential';
+  function getCredential(){
+    try { return sessionStorage.getItem(CREDENTIAL_KEY) || ''; } catch { return ''; }
+  }
+  function setCredential(value){
+    try { if(value) sessionStorage.setItem(CREDENTIAL_KEY, value); else sessionStorage.removeItem(CREDENTIAL_KEY); } catch { /* ignore */ }
+  }
+  // Only for the /ws upgrade (browsers cannot set WebSocket headers); /api requests never take it in the URL
+  function withAccessToken(url){
+    const credential = getCredential();
+    return credential ? url + (url.includes('?') ? '&' : '?') + 'access_token=' + encodeURIComponent(credential) : url;
+  }
+  const nativeFetch = window.fetch.bind(window);
+  window.fetch = async function(input, init){
+    const url = typeof input === 'string' ? input : (input && input.url) || '';
+    const isApi = url.startsWith('/api/') || url.startsWith(window.location.origin + '/api/');
+    if(!isApi) return nativeFetch(input, init);
+    const send = () => {
+      const headers = new Headers((init && init.headers) || (typeof input !== 'string' && input.headers) || undefined);
+      const credential = getCredential();
+      if(credential && !headers.has('Authorization')) headers.set('Authorization', 'Bearer ' + credential);
+      return nativeFetch(input, Object.assign({}, init, { headers }));
+    };
+    let res = await send();
+    if(res.status === 401){
+      const entered = window.prompt('Dashboard API key or token required');
+      if(entered){ setCredential(entered.trim()); res = await send(); }
+    }
+    return res;
+  };
+
   // Expose minimal API
   window.adminUtils = Object.assign(window.adminUtils || {}, {
     escapeHtml,
     formatBytes,
     showError,
-    showSuccess
+    showSuccess,
+    getCredential,
+    setCredential,
+    withAccessToken
   });
 })(window);
@@ -7,8 +7,14 @@
  * - Custom report templates
  * - Data filtering and aggregation
  * - Real-time streaming exports
+ *
+ * Excel (.xlsx) and PDF output are generated in-process by XlsxWorkbook and
+ * PdfDocument, so exports work offline without third-party renderers.
  */
 
+import { XlsxWorkbook, XlsxColumn } from './XlsxWorkbook.js';
+import { PdfDocument, PdfChartSeries } from './PdfDocument.js';
+
 interface ExportConfig {
   id: string;
   name: string;
@@ -302,7 +308,7 @@ export class DataExporter {
     // Check for scheduled exports every minute
     setInterval(() => {
       this.checkScheduledExports();
-    }, 60000);
+    }, 60000).unref();
   }
   
   /**
@@ -456,7 +462,7 @@ export class DataExporter {
       const transformedData = this.transformData(filteredData, config.columns);
       
       // Export data in specified format
-      const outputPath = await this.exportData(transformedData, config);
+      const outputPath = await this.exportData(transformedData, config, filteredData);
       
       job.status = 'completed';
       job.progress = 100;
@@ -590,9 +596,10 @@ export class DataExporter {
   /**
    * Export data in specified format
    */
-  private async exportData(data: unknown[], config: ExportConfig): Promise<string> {
+  private async exportData(data: unknown[], config: ExportConfig, records: unknown[] = data): Promise<string> {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const fileName = `${config.name}_${timestamp}.${config.format}`;
+    const extension = config.format === 'excel' ? 'xlsx' : config.format;
+    const fileName = `${config.name}_${timestamp}.${extension}`;
     const outputPath = this.getOutputPath(config, fileName);
     
     switch (config.format) {
@@ -603,10 +610,10 @@ export class DataExporter {
         await this.exportCSV(data, outputPath, config);
         break;
       case 'excel':
-        await this.exportExcel(data, outputPath, config);
+        await this.exportExcel(records, outputPath, config);
         break;
       case 'pdf':
-        await this.exportPDF(data, outputPath, config);
+        await this.exportPDF(data, outputPath, config, records);
         break;
       case 'xml':
         await this.exportXML(data, outputPath, config);
@@ -693,34 +700,181 @@ export class DataExporter {
   }
   
   /**
-   * Export data as Excel (simplified implementation)
+   * Export data as an Excel workbook: typed "Data" sheet, "Summary" sheet with
+   * column aggregations, and one sheet per column aggregated by 'group'
    */
-  private async exportExcel(data: unknown[], outputPath: string, _config: ExportConfig): Promise<void> {
-    // This is a simplified implementation - in a real scenario, you'd use a library like xlsx
-    await this.exportCSV(data, outputPath.replace('.excel', '.csv'), _config);
+  private async exportExcel(records: unknown[], outputPath: string, config: ExportConfig): Promise<void> {
+    const fs = await import('fs').then(m => m.promises);
+    const path = await import('path');
+    
+    // Ensure directory exists
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    
+    const rows = this.toRecords(records);
+    const columns = config.columns.length ? config.columns : this.inferColumns(rows);
+    const workbook = new XlsxWorkbook({ title: config.name });
+    
+    workbook.addSheet(
+      'Data',
+      columns.map(column => this.toXlsxColumn(column)),
+      rows.map(row => columns.map(column => this.cellValue(row, column)))
+    );
+    
+    const summary: unknown[][] = [
+      ['Export', config.name],
+      ['Data Source', config.dataSource],
+      ['Generated', new Date()],
+      ['Records', rows.length],
+      ...config.filters.map(filter => ['Filter', this.describeFilter(filter)])
+    ];
+    columns.forEach(column => {
+      if (column.aggregation && column.aggregation !== 'group') {
+        summary.push([`${column.header} (${column.aggregation})`, this.aggregateColumn(rows, column)]);
+      }
+    });
+    workbook.addSheet('Summary', [{ header: 'Property', type: 'string' }, { header: 'Value', type: 'auto' }], summary);
+    
+    columns.filter(column => column.aggregation === 'group').forEach(column => {
+      workbook.addSheet(
+        `By ${column.header}`,
+        [{ header: column.header, type: 'string' }, { header: 'Records', type: 'number' }],
+        this.groupCounts(rows, column.field)
+      );
+    });
+    
+    await fs.writeFile(outputPath, workbook.toBuffer());
   }
   
   /**
-   * Export data as PDF using template
+   * Export data as a paginated PDF, rendered from the report template when one is configured
    */
-  private async exportPDF(data: unknown[], outputPath: string, config: ExportConfig): Promise<void> {
+  private async exportPDF(data: unknown[], outputPath: string, config: ExportConfig, records: unknown[] = data): Promise<void> {
     const fs = await import('fs').then(m => m.promises);
     const path = await import('path');
     
     // Ensure directory exists
     await fs.mkdir(path.dirname(outputPath), { recursive: true });
     
-    let content: string;
+    let document: PdfDocument;
     
     if (config.template) {
-      content = await this.generateReportFromTemplate(config.template, data);
+      document = this.generateReportFromTemplate(config.template, data, records, config);
     } else {
-      content = this.generateSimplePDFContent(data);
+      document = this.generateSimplePDFDocument(data, config);
     }
     
-    // In a real implementation, you'd use a PDF library like puppeteer or pdfkit
-    // For now, save as HTML that can be converted to PDF
-    await fs.writeFile(outputPath.replace('.pdf', '.html'), content, 'utf8');
+    await fs.writeFile(outputPath, document.toBuffer());
+  }
+  
+  /**
+   * Map an export column onto a typed workbook column
+   */
+  private toXlsxColumn(column: ExportColumn): XlsxColumn {
+    switch (column.type) {
+      case 'number':
+        return { header: column.header, type: 'number', numberFormat: column.format };
+      case 'date':
+        return {
+          header: column.header,
+          type: 'date',
+          numberFormat: column.format === 'ISO'
+            ? 'yyyy-mm-dd"T"hh:mm:ss'
+            : column.format && column.format !== 'readable' ? column.format : undefined
+        };
+      case 'boolean':
+        return { header: column.header, type: 'boolean' };
+      case 'json':
+      case 'string':
+      default:
+        return { header: column.header, type: 'string' };
+    }
+  }
+  
+  /**
+   * Raw cell value for a column; the workbook applies the column type
+   */
+  private cellValue(row: Record<string, unknown>, column: ExportColumn): unknown {
+    const value = row[column.field];
+    if (value === null || value === undefined) return null;
+    if (column.type === 'json' || column.type === 'string') {
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+    return value;
+  }
+  
+  /**
+   * Derive columns from the records when an export configures none
+   */
+  private inferColumns(rows: Record<string, unknown>[]): ExportColumn[] {
+    const columns = new Map<string, ExportColumn>();
+    rows.slice(0, 50).forEach(row => {
+      Object.entries(row).forEach(([field, value]) => {
+        if (columns.has(field) || value === null || value === undefined) return;
+        let type: ExportColumn['type'] = 'string';
+        if (typeof value === 'number') {
+          type = /(timestamp|_at|At|date|Date)$/.test(field) ? 'date' : 'number';
+        } else if (typeof value === 'boolean') {
+          type = 'boolean';
+        } else if (typeof value === 'object') {
+          type = 'json';
+        }
+        columns.set(field, { field, header: field, type });
+      });
+    });
+    return Array.from(columns.values());
+  }
+  
+  /**
+   * Compute a sum / avg / count / min / max aggregation for a column
+   */
+  private aggregateColumn(rows: Record<string, unknown>[], column: ExportColumn): number | Date | null {
+    const present = rows.map(row => row[column.field]).filter(value => value !== null && value !== undefined);
+    if (column.aggregation === 'count') return present.length;
+    
+    const values = present.map(Number).filter(value => Number.isFinite(value));
+    if (!values.length) return null;
+    
+    switch (column.aggregation) {
+      case 'sum':
+        return values.reduce((a, b) => a + b, 0);
+      case 'avg':
+        return values.reduce((a, b) => a + b, 0) / values.length;
+      case 'min':
+      case 'max': {
+        const value = column.aggregation === 'min' ? Math.min(...values) : Math.max(...values);
+        return column.type === 'date' ? new Date(value) : value;
+      }
+      default:
+        return null;
+    }
+  }
+  
+  /**
+   * Count records per distinct value of a field, most frequent first
+   */
+  private groupCounts(rows: Record<string, unknown>[], field: string): Array<[string, number]> {
+    const counts = new Map<string, number>();
+    rows.forEach(row => {
+      const value = row[field];
+      const key = value === null || value === undefined ? '(none)' : String(value);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  }
+  
+  /**
+   * Human-readable description of a filter
+   */
+  private describeFilter(filter: ExportFilter): string {
+    const operand = filter.values ? filter.values.map(String).join(', ') : String(filter.value);
+    return `${filter.field} ${filter.operator.replace(/_/g, ' ')} ${operand}`;
+  }
+  
+  /**
+   * Keep only object records
+   */
+  private toRecords(data: unknown[]): Record<string, unknown>[] {
+    return data.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object');
   }
   
   /**
@@ -771,167 +925,255 @@ export class DataExporter {
   /**
    * Generate report from template
    */
-  private async generateReportFromTemplate(templateId: string, data: unknown[]): Promise<string> {
+  private generateReportFromTemplate(templateId: string, data: unknown[], records: unknown[], config: ExportConfig): PdfDocument {
     const template = this.reportTemplates.get(templateId);
     if (!template) {
       throw new Error(`Report template not found: ${templateId}`);
     }
     
-    let html = `<!DOCTYPE html>
-<html>
-<head>
-    <title>${template.name}</title>
-    <meta charset="UTF-8">
-    <style>
-        body { font-family: ${template.formatting.fontFamily}; font-size: ${template.formatting.fontSize}px; }
-        .header { text-align: center; border-bottom: 1px solid #ccc; padding-bottom: 10px; margin-bottom: 20px; }
-        .footer { text-align: center; border-top: 1px solid #ccc; padding-top: 10px; margin-top: 20px; }
-        .section { margin-bottom: 30px; }
-        .section-title { font-size: 16px; font-weight: bold; margin-bottom: 10px; }
-        table { width: 100%; border-collapse: collapse; margin-bottom: 15px; }
-        th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-        th { background-color: #f2f2f2; }
-    </style>
-</head>
-<body>`;
-    
-    if (template.formatting.includeHeader) {
-      const headerText = this.replaceTemplateVariables(template.formatting.headerText || '');
-      html += `<div class="header">${headerText}</div>`;
+    const { formatting } = template;
+    const rows = this.toRecords(records);
+    const document = new PdfDocument({
+      pageSize: formatting.pageSize,
+      orientation: formatting.orientation,
+      margins: formatting.margins,
+      fontSize: formatting.fontSize,
+      fontFamily: formatting.fontFamily,
+      title: template.name,
+      header: formatting.includeHeader
+        ? (page, totalPages) => this.replaceTemplateVariables(formatting.headerText || template.name, page, totalPages)
+        : undefined,
+      footer: formatting.includeFooter
+        ? (page, totalPages) => this.replaceTemplateVariables(formatting.footerText || 'Page {{page}} of {{totalPages}}', page, totalPages)
+        : undefined
+    });
+    
+    document.heading(template.name, 1);
+    if (template.description) {
+      document.note(template.description);
     }
     
-    // Process sections in order
-    const sortedSections = template.sections.sort((a, b) => a.order - b.order);
+    // Process sections in order without reordering the stored template
+    const sortedSections = [...template.sections].sort((a, b) => a.order - b.order);
     
     for (const section of sortedSections) {
-      html += `<div class="section">`;
-      html += `<div class="section-title">${section.title}</div>`;
+      document.heading(section.title);
       
       switch (section.type) {
         case 'table':
-          html += this.generateTableSection(data, section);
+        case 'raw_data':
+          this.generateTableSection(document, data, section);
           break;
         case 'metrics':
-          html += this.generateMetricsSection(data, section);
+          this.generateMetricsSection(document, rows, section, config.columns);
+          break;
+        case 'chart':
+          this.generateChartSection(document, rows, section);
           break;
         case 'text':
-          html += this.generateTextSection(data, section);
+          this.generateTextSection(document, data, section);
           break;
         default:
-          html += `<p>Section type "${section.type}" not implemented</p>`;
+          document.note(`Section type "${section.type}" not implemented`);
       }
-      
-      html += `</div>`;
     }
     
-    if (template.formatting.includeFooter) {
-      const footerText = this.replaceTemplateVariables(template.formatting.footerText || '');
-      html += `<div class="footer">${footerText}</div>`;
-    }
+    return document;
+  }
+  
+  /**
+   * Generate a plain paginated table PDF for exports without a template
+   */
+  private generateSimplePDFDocument(data: unknown[], config: ExportConfig): PdfDocument {
+    const columnCount = data.length ? Object.keys(data[0] as Record<string, unknown>).length : 0;
+    const document = new PdfDocument({
+      pageSize: 'A4',
+      orientation: columnCount > 6 ? 'landscape' : 'portrait',
+      margins: { top: 15, right: 15, bottom: 15, left: 15 },
+      fontSize: 10,
+      fontFamily: 'Helvetica',
+      title: config.name,
+      footer: (page, totalPages) => `${config.name} | Page ${page} of ${totalPages}`
+    });
     
-    html += `</body></html>`;
+    document.heading(config.name, 1);
+    document.note(`${data.length} records | Generated ${new Date().toLocaleString()}`);
+    this.generateTableSection(document, data);
     
-    return html;
+    return document;
   }
   
   /**
-   * Generate simple PDF content
+   * Generate table section for report (`config.limit` caps the row count)
    */
-  private generateSimplePDFContent(data: unknown[]): string {
-    if (!data.length) return '<html><body><p>No data to export</p></body></html>';
+  private generateTableSection(document: PdfDocument, data: unknown[], section?: ReportSection): void {
+    if (!data.length) {
+      document.note('No data available');
+      return;
+    }
     
+    const limit = Number(section?.config.limit);
+    const rows = this.toRecords(Number.isFinite(limit) && limit > 0 ? data.slice(0, limit) : data);
     const headers = Object.keys(data[0] as Record<string, unknown>);
     
-    let html = `<!DOCTYPE html>
-<html>
-<head>
-    <title>Data Export</title>
-    <style>
-        body { font-family: Arial, sans-serif; }
-        table { width: 100%; border-collapse: collapse; }
-        th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-        th { background-color: #f2f2f2; }
-    </style>
-</head>
-<body>
-    <h1>Data Export</h1>
-    <table>
-        <thead>
-            <tr>${headers.map(h => `<th>${h}</th>`).join('')}</tr>
-        </thead>
-        <tbody>`;
-    
-    data.forEach(row => {
-      const rowRecord = row as Record<string, unknown>;
-      html += `<tr>${headers.map(h => `<td>${String(rowRecord[h] || '')}</td>`).join('')}</tr>`;
-    });
-    
-    html += `        </tbody>
-    </table>
-</body>
-</html>`;
-    
-    return html;
+    document.table(headers, rows.map(row => headers.map(header => this.displayValue(row[header]))));
   }
   
   /**
-   * Generate table section for report
+   * Generate metrics section for report: record totals, time range and column aggregations
    */
-  private generateTableSection(data: unknown[], _section: ReportSection): string {
-    if (!data.length) return '<p>No data available</p>';
+  private generateMetricsSection(document: PdfDocument, rows: Record<string, unknown>[], section: ReportSection, columns: ExportColumn[]): void {
+    const pairs: Array<[string, string]> = [
+      ['Total Records', String(rows.length)],
+      ['Generated', new Date().toLocaleString()]
+    ];
     
-    const headers = Object.keys(data[0] as Record<string, unknown>);
+    if (typeof section.config.period === 'string') {
+      pairs.push(['Period', section.config.period]);
+    }
+    
+    const times = rows.map(row => Number(row.timestamp)).filter(value => Number.isFinite(value));
+    if (times.length) {
+      pairs.push(['Time Range', `${this.formatTimestamp(Math.min(...times))} - ${this.formatTimestamp(Math.max(...times))}`]);
+    }
     
-    let html = '<table><thead><tr>';
-    headers.forEach(header => {
-      html += `<th>${header}</th>`;
+    const breakdown = (field: string) => this.groupCounts(rows, field).slice(0, 8).map(([value, count]) => `${value}: ${count}`).join(', ');
+    
+    columns.forEach(column => {
+      if (column.aggregation === 'group') {
+        pairs.push([`By ${column.header}`, breakdown(column.field)]);
+      } else if (column.aggregation) {
+        pairs.push([`${column.header} (${column.aggregation})`, this.displayValue(this.aggregateColumn(rows, column))]);
+      }
     });
-    html += '</tr></thead><tbody>';
     
-    data.forEach(row => {
-      const rowRecord = row as Record<string, unknown>;
-      html += '<tr>';
-      headers.forEach(header => {
-        html += `<td>${String(rowRecord[header] || '')}</td>`;
-      });
-      html += '</tr>';
+    if (typeof section.config.groupBy === 'string') {
+      pairs.push([`By ${section.config.groupBy}`, breakdown(section.config.groupBy)]);
+    }
+    
+    document.keyValues(pairs);
+  }
+  
+  /**
+   * Generate chart section for report.
+   *
+   * `config.chartType`: 'line' plots `config.metrics` over `config.xField` (default `timestamp`), each metric
+   * being a numeric field or the rows whose `seriesField` (default `metric_type`) equals it, valued by
+   * `valueField` (default `value`); 'timeline' plots record counts per hour/day, one line per `groupBy`
+   * value; 'bar' / 'pie' draw record counts per `groupBy` value as bars.
+   */
+  private generateChartSection(document: PdfDocument, rows: Record<string, unknown>[], section: ReportSection): void {
+    const config = section.config;
+    const chartType = typeof config.chartType === 'string' ? config.chartType : 'line';
+    const xField = typeof config.xField === 'string' ? config.xField : 'timestamp';
+    const groupBy = typeof config.groupBy === 'string' ? config.groupBy : undefined;
+    const formatX = (x: number) => x > 1e11 ? this.formatTimestamp(x) : this.displayValue(x);
+    
+    switch (chartType) {
+      case 'bar':
+      case 'pie':
+        document.barChart(this.groupCounts(rows, groupBy ?? 'type').slice(0, 12).map(([label, value]) => ({ label, value })));
+        break;
+      case 'timeline':
+        document.lineChart(this.timelineSeries(rows, xField, groupBy), formatX);
+        break;
+      case 'line':
+      default:
+        document.lineChart(this.metricSeries(rows, config, xField), formatX);
+        break;
+    }
+  }
+  
+  /**
+   * Record counts per time bucket (hourly up to two days, daily beyond), one series per group
+   */
+  private timelineSeries(rows: Record<string, unknown>[], xField: string, groupBy?: string): PdfChartSeries[] {
+    const times = rows.map(row => Number(row[xField])).filter(value => Number.isFinite(value));
+    if (!times.length) return [];
+    
+    const min = Math.min(...times);
+    const max = Math.max(...times);
+    const bucket = max - min <= 2 * 86400000 ? 3600000 : 86400000;
+    const counts = new Map<string, Map<number, number>>();
+    
+    rows.forEach(row => {
+      const time = Number(row[xField]);
+      if (!Number.isFinite(time)) return;
+      const name = groupBy ? String(row[groupBy] ?? '(none)') : 'Records';
+      const slot = Math.floor(time / bucket) * bucket;
+      const series = counts.get(name) ?? new Map<number, number>();
+      series.set(slot, (series.get(slot) ?? 0) + 1);
+      counts.set(name, series);
     });
     
-    html += '</tbody></table>';
-    return html;
+    // Empty buckets count as zero so each line returns to the baseline between events
+    const slots: number[] = [];
+    for (let slot = Math.floor(min / bucket) * bucket; slot <= max; slot += bucket) slots.push(slot);
+    
+    return Array.from(counts.entries()).map(([name, series]) => ({
+      name,
+      points: slots.map(x => ({ x, y: series.get(x) ?? 0 }))
+    }));
+  }
+  
+  /**
+   * Metric values over the x field, one series per requested metric
+   */
+  private metricSeries(rows: Record<string, unknown>[], config: Record<string, unknown>, xField: string): PdfChartSeries[] {
+    const seriesField = typeof config.seriesField === 'string' ? config.seriesField : 'metric_type';
+    const valueField = typeof config.valueField === 'string' ? config.valueField : 'value';
+    const requested = Array.isArray(config.metrics) ? config.metrics.map(String) : [];
+    const names = requested.length
+      ? requested
+      : Array.from(new Set(rows.map(row => row[seriesField]).filter(value => value !== null && value !== undefined).map(String)));
+    
+    return names.map(name => ({
+      name,
+      points: rows.flatMap(row => {
+        const x = Number(row[xField]);
+        const y = typeof row[name] === 'number' ? row[name] as number : row[seriesField] === name ? Number(row[valueField]) : NaN;
+        return Number.isFinite(x) && Number.isFinite(y) ? [{ x, y }] : [];
+      })
+    }));
   }
   
   /**
-   * Generate metrics section for report
+   * Generate text section for report (`config.text` overrides the default summary)
    */
-  private generateMetricsSection(_data: unknown[], _section: ReportSection): string {
-    // Simplified metrics section
-    return `<div>
-        <p><strong>Total Records:</strong> ${_data.length}</p>
-        <p><strong>Generated:</strong> ${new Date().toLocaleString()}</p>
-    </div>`;
+  private generateTextSection(document: PdfDocument, data: unknown[], section: ReportSection): void {
+    const text = typeof section.config.text === 'string'
+      ? section.config.text
+      : `This is a ${section.dataSource} section with ${data.length} records.`;
+    document.paragraph(text);
   }
   
   /**
-   * Generate text section for report
+   * Format a value for display in a PDF cell
    */
-  private generateTextSection(_data: unknown[], section: ReportSection): string {
-    // Simplified text section
-    return `<p>This is a ${section.dataSource} section with ${_data.length} records.</p>`;
+  private displayValue(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toLocaleString();
+    if (typeof value === 'number') return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(2)));
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+  
+  private formatTimestamp(ms: number): string {
+    return new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
   }
   
   /**
    * Replace template variables
    */
-  private replaceTemplateVariables(text: string): string {
+  private replaceTemplateVariables(text: string, page = 1, totalPages = 1): string {
     const now = new Date();
     
     return text
       .replace(/\{\{date\}\}/g, now.toLocaleDateString())
       .replace(/\{\{time\}\}/g, now.toLocaleTimeString())
       .replace(/\{\{datetime\}\}/g, now.toLocaleString())
-      .replace(/\{\{page\}\}/g, '1')
-      .replace(/\{\{totalPages\}\}/g, '1')
+      .replace(/\{\{page\}\}/g, String(page))
+      .replace(/\{\{totalPages\}\}/g, String(totalPages))
       .replace(/\{\{dateRange\}\}/g, 'Last 7 days');
   }
   
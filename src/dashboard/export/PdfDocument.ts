@@ -0,0 +1,513 @@
+/**
+ * PdfDocument - dependency-free paginated PDF writer
+ *
+ * Flow-layout PDF 1.4 generation for DataExporter reports:
+ * - Standard Type 1 fonts (Helvetica / Times / Courier) with AFM metrics
+ * - Page sizes, orientation and margins from ReportFormatting
+ * - Per-page header / footer with page X of Y
+ * - Headings, wrapped paragraphs, key/value blocks
+ * - Tables that break across pages and repeat their header row
+ * - Vector line and bar charts with axes and legend
+ */
+
+import zlib from 'zlib';
+
+export type PdfPageSize = 'A4' | 'Letter' | 'Legal' | 'A3';
+
+export interface PdfDocumentOptions {
+  pageSize: PdfPageSize;
+  orientation: 'portrait' | 'landscape';
+  /** Page margins in millimetres */
+  margins: { top: number; right: number; bottom: number; left: number };
+  fontSize: number;
+  fontFamily: string;
+  title?: string;
+  header?: (page: number, totalPages: number) => string;
+  footer?: (page: number, totalPages: number) => string;
+}
+
+export interface PdfChartSeries {
+  name: string;
+  points: Array<{ x: number; y: number }>;
+}
+
+type FontWeight = 'regular' | 'bold';
+type Rgb = [number, number, number];
+
+interface FontFace {
+  names: Record<FontWeight, string>;
+  /** Advance widths (1/1000 em) for WinAnsi codes 32-126 */
+  widths: Record<FontWeight, number[]>;
+  fallback: number;
+}
+
+const PAGE_SIZES: Record<PdfPageSize, [number, number]> = {
+  A4: [595.28, 841.89],
+  Letter: [612, 792],
+  Legal: [612, 1008],
+  A3: [841.89, 1190.55]
+};
+const MM = 72 / 25.4;
+const BLACK: Rgb = [0, 0, 0];
+const GREY: Rgb = [0.45, 0.45, 0.45];
+const RULE: Rgb = [0.75, 0.75, 0.75];
+const PALETTE: Rgb[] = [[0.2, 0.45, 0.75], [0.85, 0.4, 0.15], [0.25, 0.6, 0.3], [0.6, 0.3, 0.65], [0.8, 0.2, 0.25], [0.4, 0.4, 0.4]];
+
+const ten = (w: number): number[] => Array(10).fill(w);
+const FONTS: Record<'helvetica' | 'times' | 'courier', FontFace> = {
+  helvetica: {
+    names: { regular: 'Helvetica', bold: 'Helvetica-Bold' },
+    widths: {
+      regular: [
+        278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, ...ten(556), 278, 278, 584, 584, 584, 556,
+        1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+        333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+      ],
+      bold: [
+        278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, ...ten(556), 333, 333, 584, 584, 584, 611,
+        975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+        333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+      ]
+    },
+    fallback: 556
+  },
+  times: {
+    names: { regular: 'Times-Roman', bold: 'Times-Bold' },
+    widths: {
+      regular: [
+        250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278, ...ten(500), 278, 278, 564, 564, 564, 444,
+        921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722, 556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500,
+        333, 444, 500, 444, 500, 444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500, 500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480, 200, 480, 541
+      ],
+      bold: [
+        250, 333, 555, 500, 500, 1000, 833, 278, 333, 333, 500, 570, 250, 333, 250, 278, ...ten(500), 333, 333, 570, 570, 570, 500,
+        930, 722, 667, 722, 722, 667, 611, 778, 778, 389, 500, 778, 667, 944, 722, 778, 611, 778, 722, 556, 667, 722, 722, 1000, 722, 722, 667, 333, 278, 333, 581, 500,
+        333, 500, 556, 444, 556, 444, 333, 500, 556, 278, 333, 556, 278, 833, 556, 500, 556, 556, 444, 389, 333, 556, 500, 722, 500, 500, 444, 394, 220, 394, 520
+      ]
+    },
+    fallback: 500
+  },
+  courier: {
+    names: { regular: 'Courier', bold: 'Courier-Bold' },
+    widths: { regular: Array(95).fill(600), bold: Array(95).fill(600) },
+    fallback: 600
+  }
+};
+
+/** Unicode punctuation that WinAnsiEncoding places in 0x80-0x9F */
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, '‰': 0x89, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: string[][] = [];
+  private y = 0;
+  private readonly font: FontFace;
+  private readonly size: number;
+  private readonly left: number;
+  private readonly right: number;
+  private readonly top: number;
+  private readonly bottom: number;
+
+  constructor(private readonly options: PdfDocumentOptions) {
+    const [w, h] = PAGE_SIZES[options.pageSize] ?? PAGE_SIZES.A4;
+    [this.width, this.height] = options.orientation === 'landscape' ? [h, w] : [w, h];
+    this.font = pdfFontFace(options.fontFamily);
+    this.size = Math.min(24, Math.max(6, options.fontSize || 11));
+    const band = this.size * 2;
+    this.left = options.margins.left * MM;
+    this.right = this.width - options.margins.right * MM;
+    this.top = options.margins.top * MM + (options.header ? band : 0);
+    this.bottom = this.height - options.margins.bottom * MM - (options.footer ? band : 0);
+    if (this.right - this.left < 72 || this.bottom - this.top < 72) {
+      throw new Error('Page margins leave no room for content');
+    }
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  get contentWidth(): number {
+    return this.right - this.left;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.y = this.top;
+  }
+
+  heading(text: string, level: 1 | 2 = 2): void {
+    const size = level === 1 ? this.size * 1.6 : this.size * 1.25;
+    const gap = level === 1 || this.y === this.top ? 0 : this.size * 0.9;
+    // Keep the heading on the same page as at least two lines of what follows
+    this.ensureSpace(gap + size * 1.5 + this.size * 3);
+    if (this.y > this.top) this.y += gap;
+    this.y += size;
+    this.text(this.left, this.y, this.fit(text, this.contentWidth, size, 'bold'), size, 'bold');
+    this.y += size * 0.45;
+    if (level === 1) {
+      this.line(this.left, this.y, this.right, this.y, RULE, 0.8);
+      this.y += this.size * 0.8;
+    }
+  }
+
+  paragraph(text: string, options: { size?: number; color?: Rgb } = {}): void {
+    const size = options.size ?? this.size;
+    const leading = size * 1.35;
+    for (const line of this.wrap(text, this.contentWidth, size, 'regular')) {
+      this.ensureSpace(leading);
+      this.text(this.left, this.y + size, line, size, 'regular', options.color);
+      this.y += leading;
+    }
+    this.y += size * 0.5;
+  }
+
+  note(text: string): void {
+    this.paragraph(text, { size: this.size * 0.85, color: GREY });
+  }
+
+  keyValues(pairs: Array<[string, string]>): void {
+    const leading = this.size * 1.4;
+    const keyWidth = Math.min(this.contentWidth * 0.45, Math.max(0, ...pairs.map(([k]) => this.measure(k, this.size, 'bold'))) + 14);
+    for (const [key, value] of pairs) {
+      const lines = this.wrap(value, this.contentWidth - keyWidth, this.size, 'regular');
+      this.ensureSpace(leading * lines.length);
+      this.text(this.left, this.y + this.size, this.fit(key, keyWidth - 8, this.size, 'bold'), this.size, 'bold');
+      lines.forEach((line, i) => this.text(this.left + keyWidth, this.y + this.size + i * leading, line, this.size, 'regular'));
+      this.y += leading * lines.length;
+    }
+    this.y += this.size * 0.5;
+  }
+
+  /**
+   * Table that fills the content width, breaks across pages and repeats its header row
+   */
+  table(headers: string[], rows: string[][]): void {
+    if (!headers.length) {
+      this.note('No data available.');
+      return;
+    }
+    const size = Math.max(6, this.size - 2);
+    const pad = size * 0.45;
+    const rowHeight = size + pad * 2;
+    const widths = this.tableColumnWidths(headers, rows, size, pad);
+    const numeric = /^-?\d[\d,]*(\.\d+)?%?$/;
+
+    const drawRow = (cells: string[], weight: FontWeight, fill?: Rgb) => {
+      if (fill) this.rect(this.left, this.y, this.contentWidth, rowHeight, fill);
+      let x = this.left;
+      cells.forEach((cell, i) => {
+        const text = this.fit(cell ?? '', widths[i] - pad * 2, size, weight);
+        const offset = weight === 'regular' && numeric.test(text) ? widths[i] - pad - this.measure(text, size, weight) : pad;
+        this.text(x + offset, this.y + pad + size * 0.8, text, size, weight);
+        x += widths[i];
+      });
+      this.y += rowHeight;
+    };
+    const drawHeader = () => {
+      drawRow(headers, 'bold', [0.9, 0.9, 0.9]);
+      this.line(this.left, this.y, this.right, this.y, RULE, 0.6);
+    };
+
+    this.ensureSpace(rowHeight * 2);
+    drawHeader();
+    rows.forEach((row, index) => {
+      if (this.y + rowHeight > this.bottom) {
+        this.addPage();
+        drawHeader();
+      }
+      drawRow(row, 'regular', index % 2 === 1 ? [0.97, 0.97, 0.97] : undefined);
+    });
+    this.line(this.left, this.y, this.right, this.y, RULE, 0.6);
+    this.y += this.size * 0.8;
+  }
+
+  lineChart(series: PdfChartSeries[], formatX: (x: number) => string = x => String(x)): void {
+    const populated = series.filter(s => s.points.length);
+    if (!populated.length) {
+      this.note('No data available for this chart.');
+      return;
+    }
+    const points = populated.flatMap(s => s.points);
+    const xs = points.map(p => p.x);
+    let xMin = Math.min(...xs), xMax = Math.max(...xs);
+    if (xMin === xMax) { xMin -= 1; xMax += 1; }
+    const plot = this.chartFrame(points.map(p => p.y), populated.map(s => s.name));
+    const toX = (x: number) => plot.x0 + ((x - xMin) / (xMax - xMin)) * (plot.x1 - plot.x0);
+
+    populated.forEach((s, i) => {
+      const color = PALETTE[i % PALETTE.length];
+      const coords = [...s.points].sort((a, b) => a.x - b.x).map(p => [toX(p.x), plot.toY(p.y)] as [number, number]);
+      if (coords.length > 1) this.polyline(coords, color, 1.2);
+      if (coords.length <= 60) coords.forEach(([cx, cy]) => this.rect(cx - 1.5, cy - 1.5, 3, 3, color));
+    });
+
+    const labelSize = this.size * 0.75;
+    [xMin, (xMin + xMax) / 2, xMax].forEach((value, i) => {
+      const label = formatX(value);
+      const width = this.measure(label, labelSize, 'regular');
+      const x = i === 0 ? plot.x0 : i === 2 ? plot.x1 - width : toX(value) - width / 2;
+      this.text(x, plot.y1 + labelSize * 1.4, label, labelSize, 'regular', GREY);
+    });
+    this.chartLegend(populated.map(s => s.name), plot.y1 + labelSize * 2.2);
+  }
+
+  barChart(bars: Array<{ label: string; value: number }>): void {
+    if (!bars.length) {
+      this.note('No data available for this chart.');
+      return;
+    }
+    const plot = this.chartFrame(bars.map(b => b.value), []);
+    const slot = (plot.x1 - plot.x0) / bars.length;
+    const labelSize = this.size * 0.75;
+    bars.forEach((bar, i) => {
+      const color = PALETTE[i % PALETTE.length];
+      const x = plot.x0 + slot * i + slot * 0.15;
+      const top = plot.toY(Math.max(0, bar.value));
+      const base = plot.toY(Math.min(0, bar.value));
+      this.rect(x, top, slot * 0.7, Math.max(0.5, base - top), color);
+      const value = formatNumber(bar.value);
+      this.text(x + (slot * 0.7 - this.measure(value, labelSize, 'regular')) / 2, top - 2, value, labelSize, 'regular');
+      const label = this.fit(bar.label, slot - 2, labelSize, 'regular');
+      this.text(plot.x0 + slot * i + (slot - this.measure(label, labelSize, 'regular')) / 2, plot.y1 + labelSize * 1.4, label, labelSize, 'regular', GREY);
+    });
+    this.y = plot.y1 + labelSize * 2.2 + this.size;
+  }
+
+  /**
+   * Serialise to PDF bytes; headers and footers are stamped now that the page count is known
+   */
+  toBuffer(): Buffer {
+    const pageCount = this.pages.length;
+    const firstPageObject = 6;
+    const objects: Array<string | Buffer> = [];
+    const kids = this.pages.map((_, i) => `${firstPageObject + i * 2} 0 R`).join(' ');
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${kids}] /Count ${pageCount} >>`);
+    objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${this.font.names.regular} /Encoding /WinAnsiEncoding >>`);
+    objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${this.font.names.bold} /Encoding /WinAnsiEncoding >>`);
+    objects.push(`<< /Producer (${encodeText('MCP Index Server')})${this.options.title ? ` /Title (${encodeText(this.options.title)})` : ''} /CreationDate (D:${new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z) >>`);
+
+    this.pages.forEach((ops, index) => {
+      const content = zlib.deflateSync(Buffer.from([...this.pageDecorations(index + 1, pageCount), ...ops].join('\n'), 'latin1'));
+      objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${firstPageObject + index * 2 + 1} 0 R >>`);
+      objects.push(Buffer.concat([
+        Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        content,
+        Buffer.from('\nendstream', 'latin1')
+      ]));
+    });
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+    let length = chunks[0].length;
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(length);
+      const chunk = Buffer.concat([
+        Buffer.from(`${i + 1} 0 obj\n`, 'latin1'),
+        typeof body === 'string' ? Buffer.from(body, 'latin1') : body,
+        Buffer.from('\nendobj\n', 'latin1')
+      ]);
+      chunks.push(chunk);
+      length += chunk.length;
+    });
+
+    const xref = [`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`, ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`)].join('');
+    chunks.push(Buffer.from(`${xref}trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${length}\n%%EOF\n`, 'latin1'));
+    return Buffer.concat(chunks);
+  }
+
+  private pageDecorations(page: number, totalPages: number): string[] {
+    const saved = this.pages;
+    const ops: string[] = [];
+    this.pages = [ops];
+    const size = this.size * 0.8;
+    if (this.options.header) {
+      const baseline = this.options.margins.top * MM + size;
+      this.text(this.left, baseline, this.fit(this.options.header(page, totalPages), this.contentWidth, size, 'regular'), size, 'regular', GREY);
+      this.line(this.left, baseline + size * 0.6, this.right, baseline + size * 0.6, RULE, 0.5);
+    }
+    if (this.options.footer) {
+      const baseline = this.height - this.options.margins.bottom * MM;
+      const text = this.fit(this.options.footer(page, totalPages), this.contentWidth, size, 'regular');
+      this.line(this.left, baseline - size * 1.4, this.right, baseline - size * 1.4, RULE, 0.5);
+      this.text(this.left + (this.contentWidth - this.measure(text, size, 'regular')) / 2, baseline, text, size, 'regular', GREY);
+    }
+    this.pages = saved;
+    return ops;
+  }
+
+  /**
+   * Reserve space for a chart and draw its axes / grid; returns the plot area and a value-to-y mapper
+   */
+  private chartFrame(values: number[], legend: string[]): { x0: number; x1: number; y0: number; y1: number; toY: (v: number) => number } {
+    const labelSize = this.size * 0.75;
+    const height = Math.min(200, (this.bottom - this.top) * 0.45);
+    this.ensureSpace(height + labelSize * 3 + (legend.length ? this.size * 2 : 0));
+    let yMin = Math.min(0, ...values), yMax = Math.max(0, ...values);
+    if (yMin === yMax) yMax = yMin + 1;
+    const ticks = [0, 1, 2, 3, 4].map(i => yMin + ((yMax - yMin) * i) / 4);
+    const labelWidth = Math.max(...ticks.map(t => this.measure(formatNumber(t), labelSize, 'regular'))) + 6;
+    const frame = { x0: this.left + labelWidth, x1: this.right - 6, y0: this.y + labelSize, y1: this.y + height };
+    const toY = (v: number) => frame.y1 - ((v - yMin) / (yMax - yMin)) * (frame.y1 - frame.y0);
+
+    ticks.forEach(t => {
+      const y = toY(t);
+      this.line(frame.x0, y, frame.x1, y, t === 0 ? GREY : [0.88, 0.88, 0.88], t === 0 ? 0.8 : 0.5);
+      const label = formatNumber(t);
+      this.text(frame.x0 - 4 - this.measure(label, labelSize, 'regular'), y + labelSize * 0.35, label, labelSize, 'regular', GREY);
+    });
+    this.line(frame.x0, frame.y0, frame.x0, frame.y1, GREY, 0.8);
+    return { ...frame, toY };
+  }
+
+  private chartLegend(names: string[], y: number): void {
+    const size = this.size * 0.8;
+    let x = this.left;
+    let baseline = y + size * 1.2;
+    names.forEach((name, i) => {
+      const width = 14 + this.measure(name, size, 'regular') + 12;
+      if (x + width > this.right && x > this.left) {
+        x = this.left;
+        baseline += size * 1.5;
+      }
+      this.rect(x, baseline - size * 0.75, 9, size * 0.75, PALETTE[i % PALETTE.length]);
+      this.text(x + 13, baseline, name, size, 'regular');
+      x += width;
+    });
+    this.y = baseline + this.size;
+  }
+
+  private tableColumnWidths(headers: string[], rows: string[][], size: number, pad: number): number[] {
+    const sample = rows.slice(0, 200);
+    const natural = headers.map((header, i) => Math.max(
+      this.measure(header, size, 'bold'),
+      ...sample.map(row => this.measure(row[i] ?? '', size, 'regular'))
+    ) + pad * 2);
+    const total = natural.reduce((a, b) => a + b, 0);
+    if (total <= this.contentWidth) return natural.map(w => w * (this.contentWidth / total));
+    // Too wide: every column gets up to an equal share, the remainder goes to the widest in proportion
+    const share = this.contentWidth / headers.length;
+    const base = natural.map(w => Math.min(w, share));
+    const remaining = this.contentWidth - base.reduce((a, b) => a + b, 0);
+    const excess = natural.map((w, i) => w - base[i]);
+    const excessTotal = excess.reduce((a, b) => a + b, 0) || 1;
+    return base.map((w, i) => w + (remaining * excess[i]) / excessTotal);
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y + height > this.bottom && this.y > this.top) this.addPage();
+  }
+
+  private measure(text: string, size: number, weight: FontWeight): number {
+    const widths = this.font.widths[weight];
+    let total = 0;
+    for (const ch of text) {
+      const code = winAnsiCode(ch);
+      total += code >= 32 && code <= 126 ? widths[code - 32] : this.font.fallback;
+    }
+    return (total * size) / 1000;
+  }
+
+  private fit(text: string, maxWidth: number, size: number, weight: FontWeight): string {
+    const clean = text.replace(/\s+/g, ' ');
+    if (this.measure(clean, size, weight) <= maxWidth) return clean;
+    const chars = Array.from(clean);
+    while (chars.length && this.measure(`${chars.join('')}...`, size, weight) > maxWidth) chars.pop();
+    return chars.length ? `${chars.join('')}...` : '';
+  }
+
+  private wrap(text: string, maxWidth: number, size: number, weight: FontWeight): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      let current = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (this.measure(candidate, size, weight) <= maxWidth) {
+          current = candidate;
+          continue;
+        }
+        if (current) lines.push(current);
+        current = word;
+        // Hard-break words that are wider than the line on their own
+        while (this.measure(current, size, weight) > maxWidth && current.length > 1) {
+          let cut = current.length - 1;
+          while (cut > 1 && this.measure(current.slice(0, cut), size, weight) > maxWidth) cut--;
+          lines.push(current.slice(0, cut));
+          current = current.slice(cut);
+        }
+      }
+      lines.push(current);
+    }
+    return lines;
+  }
+
+  private text(x: number, baseline: number, text: string, size: number, weight: FontWeight, color: Rgb = BLACK): void {
+    if (!text) return;
+    this.current().push(`${rgb(color)} rg BT /${weight === 'bold' ? 'F2' : 'F1'} ${num(size)} Tf ${num(x)} ${num(this.height - baseline)} Td (${encodeText(text)}) Tj ET`);
+  }
+
+  private line(x1: number, y1: number, x2: number, y2: number, color: Rgb, width: number): void {
+    this.current().push(`${num(width)} w ${rgb(color)} RG ${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`);
+  }
+
+  private polyline(points: Array<[number, number]>, color: Rgb, width: number): void {
+    const path = points.map(([x, y], i) => `${num(x)} ${num(this.height - y)} ${i === 0 ? 'm' : 'l'}`).join(' ');
+    this.current().push(`${num(width)} w 1 j ${rgb(color)} RG ${path} S`);
+  }
+
+  private rect(x: number, y: number, width: number, height: number, fill: Rgb): void {
+    this.current().push(`${rgb(fill)} rg ${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re f`);
+  }
+
+  private current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
+
+/**
+ * Map a CSS-style font family onto one of the PDF standard font families
+ */
+function pdfFontFace(family: string): FontFace {
+  if (/courier|mono|consol/i.test(family)) return FONTS.courier;
+  if (/times|georgia|garamond|^serif$/i.test(family.trim())) return FONTS.times;
+  return FONTS.helvetica;
+}
+
+function winAnsiCode(ch: string): number {
+  const code = ch.codePointAt(0) ?? 63;
+  if (code === 9) return 32;
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return WIN_ANSI_EXTRA[ch] ?? 63;
+}
+
+function encodeText(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const code = winAnsiCode(ch);
+    if (ch === '(' || ch === ')' || ch === '\\') out += `\\${ch}`;
+    else if (code >= 32 && code <= 126) out += String.fromCharCode(code);
+    else if (code >= 128) out += `\\${code.toString(8).padStart(3, '0')}`;
+  }
+  return out;
+}
+
+function formatNumber(value: number): string {
+  if (Math.abs(value) >= 1000) return Math.round(value).toLocaleString('en-US');
+  return String(Number(value.toFixed(2)));
+}
+
+function num(value: number): string {
+  return String(Number(value.toFixed(2)));
+}
+
+function rgb([r, g, b]: Rgb): string {
+  return `${num(r)} ${num(g)} ${num(b)}`;
+}
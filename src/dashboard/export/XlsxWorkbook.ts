@@ -0,0 +1,330 @@
+/**
+ * XlsxWorkbook - dependency-free Office Open XML (SpreadsheetML) writer
+ *
+ * Produces genuine .xlsx workbooks for DataExporter:
+ * - Multiple worksheets with a frozen, bold header row
+ * - Typed cells (numbers, booleans, real date serials, inline strings)
+ * - Per-column number / date formats
+ * - Zip container (node:zlib deflate + table-driven CRC-32)
+ */
+
+import zlib from 'zlib';
+
+export type XlsxCellType = 'string' | 'number' | 'date' | 'boolean' | 'auto';
+
+export interface XlsxColumn {
+  header: string;
+  type: XlsxCellType;
+  /** Excel number format code, e.g. `0.00` or `yyyy-mm-dd hh:mm:ss` */
+  numberFormat?: string;
+  width?: number;
+}
+
+interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: unknown[][];
+}
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const DEFAULT_DATE_FORMAT = 'yyyy-mm-dd hh:mm:ss';
+const EXCEL_EPOCH_OFFSET_DAYS = 25569; // 1970-01-01 as an Excel 1900-system serial
+const MAX_CELL_CHARS = 32767;
+const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const NS_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_PKG_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+export class XlsxWorkbook {
+  private sheets: XlsxSheet[] = [];
+  private numberFormats: Map<string, number> = new Map();
+
+  constructor(private readonly properties: { title?: string; creator?: string; created?: Date } = {}) {}
+
+  /**
+   * Add a worksheet; the name is sanitised to Excel's rules and made unique
+   */
+  addSheet(name: string, columns: XlsxColumn[], rows: unknown[][]): string {
+    const base = (name.replace(/[\\/?*[\]:]/g, '_').replace(/^'+|'+$/g, '').trim() || `Sheet${this.sheets.length + 1}`).slice(0, 31);
+    let unique = base;
+    for (let i = 2; this.sheets.some(s => s.name.toLowerCase() === unique.toLowerCase()); i++) {
+      unique = `${base.slice(0, 31 - String(i).length - 1)}_${i}`;
+    }
+    this.sheets.push({ name: unique, columns, rows });
+    return unique;
+  }
+
+  get sheetNames(): string[] {
+    return this.sheets.map(s => s.name);
+  }
+
+  /**
+   * Serialise the workbook into an .xlsx (zip) buffer
+   */
+  toBuffer(): Buffer {
+    if (!this.sheets.length) this.addSheet('Sheet1', [], []);
+    this.numberFormats.clear();
+    // Style indexes must be known before the sheets are written
+    const sheetXml = this.sheets.map(sheet => this.sheetXml(sheet));
+    const entries: ZipEntry[] = [
+      { name: '[Content_Types].xml', data: Buffer.from(this.contentTypesXml(), 'utf8') },
+      { name: '_rels/.rels', data: Buffer.from(this.rootRelsXml(), 'utf8') },
+      { name: 'docProps/core.xml', data: Buffer.from(this.corePropsXml(), 'utf8') },
+      { name: 'docProps/app.xml', data: Buffer.from(this.appPropsXml(), 'utf8') },
+      { name: 'xl/workbook.xml', data: Buffer.from(this.workbookXml(), 'utf8') },
+      { name: 'xl/_rels/workbook.xml.rels', data: Buffer.from(this.workbookRelsXml(), 'utf8') },
+      { name: 'xl/styles.xml', data: Buffer.from(this.stylesXml(), 'utf8') },
+      ...sheetXml.map((xml, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: Buffer.from(xml, 'utf8') }))
+    ];
+    return zip(entries);
+  }
+
+  /**
+   * Style index for a number format: 0 = default, 1 = bold header, 2+ = number formats
+   */
+  private styleFor(format: string): number {
+    let index = this.numberFormats.get(format);
+    if (index === undefined) {
+      index = this.numberFormats.size;
+      this.numberFormats.set(format, index);
+    }
+    return index + 2;
+  }
+
+  private sheetXml(sheet: XlsxSheet): string {
+    const { columns, rows } = sheet;
+    const lastColumn = Math.max(columns.length, ...rows.map(r => r.length), 1);
+    const lastRow = rows.length + 1;
+    const widths = this.columnWidths(columns, rows);
+
+    const headerCells = columns.map((c, i) => `<c r="${cellRef(i, 1)}" s="1" t="inlineStr"><is><t xml:space="preserve">${escapeXml(c.header)}</t></is></c>`).join('');
+    const body = rows.map((row, r) => {
+      const cells = row.map((value, i) => this.cellXml(value, columns[i], cellRef(i, r + 2))).join('');
+      return `<row r="${r + 2}">${cells}</row>`;
+    }).join('');
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n`
+      + `<worksheet xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">`
+      + `<dimension ref="A1:${cellRef(lastColumn - 1, lastRow)}"/>`
+      + `<sheetViews><sheetView workbookViewId="0">`
+      + (columns.length ? `<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>` : '')
+      + `</sheetView></sheetViews>`
+      + `<sheetFormatPr defaultRowHeight="15"/>`
+      + (widths.length ? `<cols>${widths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join('')}</cols>` : '')
+      + `<sheetData>${columns.length ? `<row r="1">${headerCells}</row>` : ''}${body}</sheetData>`
+      + `</worksheet>`;
+  }
+
+  private cellXml(value: unknown, column: XlsxColumn | undefined, ref: string): string {
+    if (value === null || value === undefined || value === '') return '';
+    const type = column?.type ?? 'auto';
+    const resolved = type === 'auto'
+      ? (value instanceof Date ? 'date' : typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'boolean' : 'string')
+      : type;
+
+    switch (resolved) {
+      case 'number': {
+        const num = typeof value === 'number' ? value : Number(value);
+        if (!Number.isFinite(num)) break;
+        const style = column?.numberFormat ? ` s="${this.styleFor(column.numberFormat)}"` : '';
+        return `<c r="${ref}"${style}><v>${num}</v></c>`;
+      }
+      case 'date': {
+        const ms = value instanceof Date ? value.getTime() : typeof value === 'number' ? value : Date.parse(String(value));
+        if (!Number.isFinite(ms)) break;
+        const serial = ms / 86400000 + EXCEL_EPOCH_OFFSET_DAYS;
+        return `<c r="${ref}" s="${this.styleFor(column?.numberFormat || DEFAULT_DATE_FORMAT)}"><v>${serial}</v></c>`;
+      }
+      case 'boolean': {
+        const truthy = value === true || value === 1 || /^(true|1|yes)$/i.test(String(value));
+        return `<c r="${ref}" t="b"><v>${truthy ? 1 : 0}</v></c>`;
+      }
+    }
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text.slice(0, MAX_CELL_CHARS))}</t></is></c>`;
+  }
+
+  private columnWidths(columns: XlsxColumn[], rows: unknown[][]): number[] {
+    return columns.map((column, i) => {
+      if (column.width) return column.width;
+      if (column.type === 'date') return Math.max(20, column.header.length + 2);
+      let longest = column.header.length;
+      for (const row of rows.slice(0, 500)) {
+        const value = row[i];
+        if (value === null || value === undefined) continue;
+        const text = value instanceof Date ? DEFAULT_DATE_FORMAT : typeof value === 'object' ? JSON.stringify(value) : String(value);
+        longest = Math.max(longest, text.length);
+      }
+      return Math.min(60, Math.max(8, longest + 2));
+    });
+  }
+
+  private stylesXml(): string {
+    const formats = Array.from(this.numberFormats.keys());
+    const numFmts = formats.length
+      ? `<numFmts count="${formats.length}">${formats.map((f, i) => `<numFmt numFmtId="${164 + i}" formatCode="${escapeXml(f)}"/>`).join('')}</numFmts>`
+      : '';
+    const xfs = [
+      '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+      '<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>',
+      ...formats.map((_, i) => `<xf numFmtId="${164 + i}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`)
+    ];
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n`
+      + `<styleSheet xmlns="${NS_MAIN}">`
+      + numFmts
+      + `<fonts count="2"><font><sz val="11"/><name val="Calibri"/><family val="2"/></font><font><b/><sz val="11"/><name val="Calibri"/><family val="2"/></font></fonts>`
+      + `<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>`
+      + `<fill><patternFill patternType="solid"><fgColor rgb="FFF2F2F2"/><bgColor indexed="64"/></patternFill></fill></fills>`
+      + `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>`
+      + `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>`
+      + `<cellXfs count="${xfs.length}">${xfs.join('')}</cellXfs>`
+      + `<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>`
+      + `</styleSheet>`;
+  }
+
+  private workbookXml(): string {
+    const sheets = this.sheets.map((s, i) => `<sheet name="${escapeXml(s.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n`
+      + `<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}"><bookViews><workbookView/></bookViews><sheets>${sheets}</sheets></workbook>`;
+  }
+
+  private workbookRelsXml(): string {
+    const sheetRels = this.sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${NS_REL}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n`
+      + `<Relationships xmlns="${NS_PKG_REL}">${sheetRels}`
+      + `<Relationship Id="rId${this.sheets.length + 1}" Type="${NS_REL}/styles" Target="styles.xml"/></Relationships>`;
+  }
+
+  private rootRelsXml(): string {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n`
+      + `<Relationships xmlns="${NS_PKG_REL}">`
+      + `<Relationship Id="rId1" Type="${NS_REL}/officeDocument" Target="xl/workbook.xml"/>`
+      + `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>`
+      + `<Relationship Id="rId3" Type="${NS_REL}/extended-properties" Target="docProps/app.xml"/>`
+      + `</Relationships>`;
+  }
+
+  private contentTypesXml(): string {
+    const sheets = this.sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n`
+      + `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>`
+      + `<Default Extension="xml" ContentType="application/xml"/>`
+      + `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>`
+      + sheets
+      + `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>`
+      + `<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>`
+      + `<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>`
+      + `</Types>`;
+  }
+
+  private corePropsXml(): string {
+    const created = (this.properties.created ?? new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n`
+      + `<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" `
+      + `xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`
+      + (this.properties.title ? `<dc:title>${escapeXml(this.properties.title)}</dc:title>` : '')
+      + `<dc:creator>${escapeXml(this.properties.creator ?? 'MCP Index Server')}</dc:creator>`
+      + `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>`
+      + `</cp:coreProperties>`;
+  }
+
+  private appPropsXml(): string {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n`
+      + `<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>MCP Index Server</Application></Properties>`;
+  }
+}
+
+function cellRef(columnIndex: number, row: number): string {
+  let name = '';
+  for (let n = columnIndex + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return `${name}${row}`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 (IEEE, as used by zip); zlib.crc32 is only available from Node 20.15 / 22.2
+ */
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Minimal zip writer (deflate, UTF-8 names, no zip64) sufficient for OOXML packages
+ */
+function zip(entries: ZipEntry[]): Buffer {
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const compressed = zlib.deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt16LE(dosTime, 10);
+    local.writeUInt16LE(dosDate, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(0x0800, 8);
+    header.writeUInt16LE(8, 10);
+    header.writeUInt16LE(dosTime, 12);
+    header.writeUInt16LE(dosDate, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(compressed.length, 20);
+    header.writeUInt32LE(entry.data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, name);
+
+    parts.push(local, name, compressed);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralSize = central.reduce((sum, b) => sum + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, ...central, end]);
+}
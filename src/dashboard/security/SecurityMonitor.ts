@@ -9,7 +9,7 @@
  * - Automated response mechanisms
  */
 
-interface SecurityThreat {
+export interface SecurityThreat {
   id: string;
   type: 'authentication_failure' | 'rate_limit_exceeded' | 'suspicious_activity' | 'data_breach_attempt' | 'injection_attack';
   severity: 'low' | 'medium' | 'high' | 'critical';
@@ -56,14 +56,23 @@ interface SecurityRule {
   triggerCount: number;
 }
 
+interface SecurityMonitorOptions {
+  /** Generate the simulated demo threats (default true; the dashboard server turns them off and reports real ones). */
+  simulate?: boolean;
+}
+
 export class SecurityMonitor {
   private threats: Map<string, SecurityThreat> = new Map();
   private performanceMetrics: Map<string, PerformanceMetric[]> = new Map();
   private securityRules: Map<string, SecurityRule> = new Map();
   private monitoringInterval: NodeJS.Timeout | null = null;
   private alertCallbacks: Array<(threat: SecurityThreat) => void> = [];
+  private authFailures: Map<string, number[]> = new Map();
+  private lockouts: Map<string, number> = new Map();
+  private readonly simulate: boolean;
   
-  constructor() {
+  constructor(options: SecurityMonitorOptions = {}) {
+    this.simulate = options.simulate ?? true;
     this.initializeSecurityRules();
     this.startMonitoring();
   }
@@ -129,6 +138,7 @@ export class SecurityMonitor {
       this.analyzeSecurityThreats();
       this.cleanupOldData();
     }, 5000); // Monitor every 5 seconds
+    this.monitoringInterval.unref?.();
   }
   
   /**
@@ -261,6 +271,7 @@ export class SecurityMonitor {
    * Analyze current security threats
    */
   private analyzeSecurityThreats(): void {
+    if (!this.simulate) return;
     // Check for patterns in recent activity
     this.detectAnomalousPatterns();
     
@@ -383,6 +394,51 @@ export class SecurityMonitor {
     }
   }
   
+  /**
+   * Record a real failed authentication attempt (dashboard API credential that did not verify). Every failure is
+   * reported; reaching maxFailedAttempts within the authentication_anomaly window locks the source out.
+   */
+  recordAuthenticationFailure(source: string, details: Record<string, unknown>): { lockedOut: boolean } {
+    const rule = this.securityRules.get('authentication_anomaly');
+    const config = (rule?.config ?? {}) as { maxFailedAttempts?: number; timeWindow?: number; lockoutDuration?: number };
+    const maxAttempts = config.maxFailedAttempts ?? 5;
+    const window = config.timeWindow ?? 300000;
+    const lockoutDuration = config.lockoutDuration ?? 900000;
+    const now = Date.now();
+    const attempts = (this.authFailures.get(source) ?? []).filter(t => now - t < window);
+    attempts.push(now);
+    this.authFailures.set(source, attempts);
+    const lockedOut = !!rule?.enabled && attempts.length >= maxAttempts;
+    if (lockedOut) {
+      this.lockouts.set(source, now + lockoutDuration);
+      this.authFailures.delete(source);
+      rule!.triggerCount++;
+      rule!.lastTriggered = now;
+    }
+    this.reportThreat({
+      id: `auth_failure_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      type: 'authentication_failure',
+      severity: lockedOut ? 'high' : 'medium',
+      source,
+      timestamp: now,
+      details: { ...details, failedAttempts: attempts.length, maxAllowed: maxAttempts, timeWindow: window },
+      status: 'active',
+      actionTaken: lockedOut ? `Source ${source} locked out for ${lockoutDuration}ms` : undefined
+    });
+    return { lockedOut };
+  }
+
+  /**
+   * Whether a source is inside a lockout from recordAuthenticationFailure
+   */
+  isLockedOut(source: string): boolean {
+    const until = this.lockouts.get(source);
+    if (until === undefined) return false;
+    if (Date.now() < until) return true;
+    this.lockouts.delete(source);
+    return false;
+  }
+  
   /**
    * Report a security threat
    */
@@ -416,7 +472,8 @@ export class SecurityMonitor {
       actionTaken: threat.actionTaken
     };
     
-    console.log('[SECURITY-AUDIT]', JSON.stringify(logEntry));
+    // stderr: in the server process stdout carries MCP protocol frames
+    console.error('[SECURITY-AUDIT]', JSON.stringify(logEntry));
   }
   
   /**
@@ -679,9 +736,9 @@ export class SecurityMonitor {
 // Singleton instance
 let securityMonitor: SecurityMonitor | null = null;
 
-export function getSecurityMonitor(): SecurityMonitor {
+export function getSecurityMonitor(options?: SecurityMonitorOptions): SecurityMonitor {
   if (!securityMonitor) {
-    securityMonitor = new SecurityMonitor();
+    securityMonitor = new SecurityMonitor(options);
   }
   return securityMonitor;
 }
@@ -15,6 +15,17 @@ import { getRuntimeConfig, reloadRuntimeConfig } from '../../config/runtimeConfi
 import { getMetricsCollector, ToolMetrics } from './MetricsCollector';
 import { getCatalogState } from '../../services/catalogContext';
 import { SessionPersistenceManager } from './SessionPersistenceManager';
+import {
+  createBackup,
+  listBackups as listCatalogBackups,
+  verifyBackup as verifyCatalogBackup,
+  restoreBackup as restoreCatalogBackup,
+  deleteBackup as deleteCatalogBackup,
+  pruneBackups as pruneCatalogBackups,
+  BackupSummary,
+  BackupVerification,
+  RestoreResult
+} from '../../services/catalogBackup';
 import { 
   PersistedAdminSession, 
   PersistedSessionHistoryEntry 
@@ -125,9 +136,6 @@ export class AdminPanel {
     const value = getRuntimeConfig().dashboard.admin.maxSessionHistory;
     return Number.isFinite(value) ? value : 200;
   }
-  private get backupRoot(): string {
-    return getRuntimeConfig().dashboard.admin.backupsDir || path.join(process.cwd(), 'backups');
-  }
   private get instructionsRoot(): string {
     return getRuntimeConfig().catalog.baseDir || path.join(process.cwd(), 'instructions');
   }
@@ -350,9 +358,9 @@ export class AdminPanel {
   }
 
   /**
-   * Create new admin session
+   * Create new admin session (userId is the authenticated dashboard key id when MCP_DASHBOARD_AUTH is on)
    */
-  createAdminSession(userId: string, ipAddress: string, userAgent: string): AdminSession {
+  createAdminSession(userId: string, ipAddress: string, userAgent: string, role?: 'viewer' | 'editor' | 'admin'): AdminSession {
     const session: AdminSession = {
       id: this.generateSessionId(),
       userId,
@@ -360,7 +368,8 @@ export class AdminPanel {
       lastActivity: new Date(),
       ipAddress,
       userAgent,
-      permissions: ['read', 'write', 'admin'] // Default admin permissions
+      // Authenticated sessions get their dashboard role's permissions; without auth the legacy admin default
+      permissions: role === 'viewer' ? ['read'] : role === 'editor' ? ['read', 'write'] : ['read', 'write', 'admin']
     };
 
     this.activeSessions.set(session.id, session);
@@ -473,45 +482,15 @@ export class AdminPanel {
   }
 
   /**
-   * Perform system backup
+   * Perform system backup (incremental archive; see services/catalogBackup.ts)
    */
-  async performBackup(): Promise<{ success: boolean; message: string; backupId?: string; files?: number }> {
+  async performBackup(): Promise<{ success: boolean; message: string; backupId?: string; files?: number; newObjects?: number; newBytes?: number }> {
     try {
-      const backupRoot = this.backupRoot;
-      if (!fs.existsSync(backupRoot)) fs.mkdirSync(backupRoot, { recursive: true });
-      // Include milliseconds to allow multiple backups within the same second
-      const now = new Date();
-      const iso = now.toISOString();
-      const baseTs = iso.replace(/[-:]/g, '').replace(/\..+/, '');
-      const ms = String(now.getMilliseconds()).padStart(3, '0');
-      const backupId = `backup_${baseTs}_${ms}`; // e.g. backup_20250905T123456_123
-      const backupDir = path.join(backupRoot, backupId);
-      fs.mkdirSync(backupDir);
-
-      const instructionsDir = this.instructionsRoot;
-      let copied = 0;
-      if (fs.existsSync(instructionsDir)) {
-        for (const file of fs.readdirSync(instructionsDir)) {
-          if (file.toLowerCase().endsWith('.json')) {
-            const src = path.join(instructionsDir, file);
-            const dest = path.join(backupDir, file);
-            fs.copyFileSync(src, dest);
-            copied++;
-          }
-        }
-      }
-      // Write small manifest
-      const manifest = {
-        backupId,
-        createdAt: new Date().toISOString(),
-        instructionCount: copied,
-        schemaVersion: this.catalogStatsCache?.schemaVersion || 'unknown'
-      };
-      fs.writeFileSync(path.join(backupDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
-
+      const result = createBackup({ kind: 'manual' });
+      if ('skipped' in result) return { success: true, message: `Catalog unchanged since ${result.latest}`, backupId: result.latest, files: 0 };
       this.maintenanceInfo.lastBackup = new Date();
-      process.stderr.write(`[admin] System backup completed: ${backupId} (${copied} files)\n`);
-      return { success: true, message: 'System backup completed successfully', backupId, files: copied };
+      process.stderr.write(`[admin] System backup completed: ${result.id} (${result.files} records, ${result.newObjects} new objects)\n`);
+      return { success: true, message: 'System backup completed successfully', backupId: result.id, files: result.files, newObjects: result.newObjects, newBytes: result.newBytes };
     } catch (error) {
       return { 
         success: false, 
@@ -520,129 +499,48 @@ export class AdminPanel {
     }
   }
 
-  listBackups(): { id: string; createdAt: string; instructionCount: number; schemaVersion?: string; sizeBytes: number }[] {
-    const backupRoot = this.backupRoot;
-    if (!fs.existsSync(backupRoot)) return [];
-    const results: { id: string; createdAt: string; instructionCount: number; schemaVersion?: string; sizeBytes: number }[] = [];
-    for (const dir of fs.readdirSync(backupRoot)) {
-      const full = path.join(backupRoot, dir);
-      try {
-        if (fs.statSync(full).isDirectory()) {
-          const manifestPath = path.join(full, 'manifest.json');
-            let createdAt = new Date(fs.statSync(full).mtime).toISOString();
-            let instructionCount = 0;
-            let schemaVersion: string | undefined;
-          if (fs.existsSync(manifestPath)) {
-            try {
-              const mf = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
-              createdAt = mf.createdAt || createdAt;
-              instructionCount = mf.instructionCount || 0;
-              schemaVersion = mf.schemaVersion;
-            } catch {/* ignore */}
-          } else {
-            instructionCount = fs.readdirSync(full).filter(f => f.toLowerCase().endsWith('.json')).length;
-          }
-          const sizeBytes = fs.readdirSync(full).reduce((sum, f) => {
-            try { return sum + fs.statSync(path.join(full, f)).size; } catch { return sum; }
-          }, 0);
-          results.push({ id: dir, createdAt, instructionCount, schemaVersion, sizeBytes });
-        }
-      } catch {/* ignore individual dir errors */}
-    }
-    // newest first
-    results.sort((a,b) => b.createdAt.localeCompare(a.createdAt));
-    return results;
+  listBackups(): BackupSummary[] {
+    return listCatalogBackups();
   }
 
-  restoreBackup(backupId: string): { success: boolean; message: string; restored?: number } {
+  /** Verify a backup archive (manifest checksum, records and referenced objects); null when not found */
+  verifyBackup(backupId: string): BackupVerification | null {
+    return verifyCatalogBackup(backupId);
+  }
+
+  /** Restore a backup, optionally only some ids or as a dry run returning the diff against the live catalog */
+  restoreBackup(backupId: string, opts: { ids?: string[]; dryRun?: boolean } = {}): RestoreResult {
     try {
-      if (!backupId) return { success: false, message: 'backupId required' };
-      const backupRoot = this.backupRoot;
-      const backupDir = path.join(backupRoot, backupId);
-      if (!fs.existsSync(backupDir)) return { success: false, message: `Backup not found: ${backupId}` };
-      const instructionsDir = this.instructionsRoot;
-      if (!fs.existsSync(instructionsDir)) fs.mkdirSync(instructionsDir, { recursive: true });
-      // Pre-restore safety backup (lightweight) if there are existing files
-      const existing = fs.readdirSync(instructionsDir).filter(f => f.toLowerCase().endsWith('.json'));
-      if (existing.length) {
-        const safetyId = `pre_restore_${Date.now()}`;
-        const safetyDir = path.join(backupRoot, safetyId);
-        fs.mkdirSync(safetyDir, { recursive: true });
-        for (const f of existing) {
-          try { fs.copyFileSync(path.join(instructionsDir, f), path.join(safetyDir, f)); } catch {/* ignore */}
-        }
-        fs.writeFileSync(path.join(safetyDir, 'manifest.json'), JSON.stringify({ type: 'pre-restore', createdAt: new Date().toISOString(), source: backupId, originalCount: existing.length }, null, 2));
-        process.stderr.write(`[admin] Pre-restore safety backup created: ${safetyId}\n`);
-      }
-      // Copy backup files in (overwrite existing)
-      let restored = 0;
-      for (const f of fs.readdirSync(backupDir)) {
-        if (f.toLowerCase().endsWith('.json') && f !== 'manifest.json') {
-          fs.copyFileSync(path.join(backupDir, f), path.join(instructionsDir, f));
-          restored++;
-        }
+      const result = restoreCatalogBackup(backupId, opts);
+      if (result.success && !result.dryRun) {
+        // Invalidate catalog cache so schemaVersion recalculates
+        this.catalogStatsCache = null;
+        process.stderr.write(`[admin] Restored backup ${backupId} (${result.restored} instruction files)\n`);
       }
-      // Invalidate catalog cache so schemaVersion recalculates
-      this.catalogStatsCache = null;
-      process.stderr.write(`[admin] Restored backup ${backupId} (${restored} instruction files)\n`);
-      return { success: true, message: `Backup ${backupId} restored`, restored };
+      return result;
     } catch (error) {
       return { success: false, message: `Restore failed: ${error instanceof Error ? error.message : String(error)}` };
     }
   }
 
-  /** Delete a backup directory (non-recursive safety checks) */
+  /** Delete a backup archive or legacy directory (unreferenced objects are collected) */
   deleteBackup(backupId: string): { success: boolean; message: string; removed?: boolean } {
     try {
-      if (!backupId) return { success: false, message: 'backupId required' };
-      const backupRoot = this.backupRoot;
-      const backupDir = path.join(backupRoot, backupId);
-      if (!fs.existsSync(backupDir)) return { success: false, message: `Backup not found: ${backupId}` };
-      // Basic guard: only allow deletion of directories that start with expected prefixes
-      if (!/^backup_|^instructions-|^pre_restore_/.test(backupId)) {
-        return { success: false, message: 'Refusing to delete unexpected directory name' };
-      }
-      fs.rmSync(backupDir, { recursive: true, force: true });
-      process.stderr.write(`[admin] Deleted backup ${backupId}\n`);
-      return { success: true, message: `Backup ${backupId} deleted`, removed: true };
+      const result = deleteCatalogBackup(backupId);
+      if (result.success) process.stderr.write(`[admin] Deleted backup ${backupId}\n`);
+      return result;
     } catch (error) {
       return { success: false, message: `Delete failed: ${error instanceof Error ? error.message : String(error)}` };
     }
   }
 
-  /** Prune backups keeping newest N (by createdAt / mtime). Returns count pruned. */
-  pruneBackups(retain: number): { success: boolean; message: string; pruned?: number } {
+  /** Prune backups keeping newest N (by createdAt), optionally also dropping those older than maxAgeDays. */
+  pruneBackups(retain: number, maxAgeDays = 0): { success: boolean; message: string; pruned?: number } {
     try {
       if (retain < 0) return { success: false, message: 'retain must be >= 0' };
-      const backupRoot = this.backupRoot;
-      if (!fs.existsSync(backupRoot)) return { success: true, message: 'No backups to prune', pruned: 0 };
-      const dirs = fs.readdirSync(backupRoot)
-        .map(name => ({ name, full: path.join(backupRoot, name) }))
-        .filter(d => {
-          try { return fs.statSync(d.full).isDirectory(); } catch { return false; }
-        })
-        .filter(d => /^backup_|^instructions-|^pre_restore_/.test(d.name));
-      // sort newest first by mtime
-      dirs.sort((a,b) => {
-        try { return fs.statSync(b.full).mtime.getTime() - fs.statSync(a.full).mtime.getTime(); } catch { return 0; }
-      });
-      if (retain === 0) {
-        // delete all
-        let prunedAll = 0;
-        for (const d of dirs) {
-          try { fs.rmSync(d.full, { recursive: true, force: true }); prunedAll++; } catch { /* ignore */ }
-        }
-        process.stderr.write(`[admin] Pruned all backups (${prunedAll})\n`);
-        return { success: true, message: `Pruned ${prunedAll} backups`, pruned: prunedAll };
-      }
-      const survivors = dirs.slice(0, retain);
-      const toDelete = dirs.slice(retain);
-      let pruned = 0;
-      for (const d of toDelete) {
-        try { fs.rmSync(d.full, { recursive: true, force: true }); pruned++; } catch { /* ignore */ }
-      }
-      process.stderr.write(`[admin] Pruned ${pruned} backup(s); retained ${survivors.length}\n`);
-      return { success: true, message: `Pruned ${pruned} backups (retained ${survivors.length})`, pruned };
+      const pruned = pruneCatalogBackups(retain, maxAgeDays);
+      process.stderr.write(`[admin] Pruned ${pruned} backup(s)\n`);
+      return { success: true, message: retain === 0 ? `Pruned ${pruned} backups` : `Pruned ${pruned} backups (retained up to ${retain})`, pruned };
     } catch (error) {
       return { success: false, message: `Prune failed: ${error instanceof Error ? error.message : String(error)}` };
     }
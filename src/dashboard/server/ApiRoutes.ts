@@ -7,7 +7,9 @@
 
 import express, { Router, Request, Response } from 'express';
 import { buildGraph, GraphExportParams } from '../../services/handlers.graph';
-import { ensureLoaded } from '../../services/catalogContext';
+import { ensureLoaded, getInstructionsDir, invalidate, touchCatalogVersion } from '../../services/catalogContext';
+import { computeRevisionToken, normalizeIfMatch, revisionMatches, RevisionSource } from '../../services/revisionToken';
+import { PRECONDITION_FAILED } from '../../services/errors';
 import { getWebSocketManager } from './WebSocketManager.js';
 import { getMetricsCollector, ToolMetrics } from './MetricsCollector.js';
 import { listRegisteredMethods, getHandler } from '../../server/registry.js';
@@ -17,6 +19,13 @@ import path from 'path';
 import { dumpFlags, updateFlags } from '../../services/featureFlags.js';
 import { getFlagRegistrySnapshot } from '../../services/handlers.dashboardConfig.js';
 import { getRuntimeConfig } from '../../config/runtimeConfig';
+import { buildReviewQueue, recordReviewCompletion } from '../../services/reviewSchedule';
+import { backupStoreStats } from '../../services/catalogBackup';
+import { applyIngestScan, IngestScanOutcome } from '../../services/ingestScan';
+import { accessTokenEntry, callerForToken, Caller, Clearance, clearanceFor, canRead, readableCatalog, recordDeniedReads, redactEntry, runAsCaller } from '../../services/accessControl';
+import { InstructionEntry } from '../../models/instruction';
+import { currentTenant, resolveTenant, runInTenant } from '../../services/tenantContext';
+import { createApiKey, createAuthMiddleware, dashboardIdentity, DASHBOARD_ROLES, isDashboardRole, issueToken, listApiKeys, revokeApiKey } from './DashboardAuth.js';
 
 export interface ApiRoutesOptions {
   enableCors?: boolean;
@@ -69,7 +78,8 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
     router.use((_req: Request, res: Response, next: () => void) => {
       res.header('Access-Control-Allow-Origin', '*');
       res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key, If-Match');
+      res.header('Access-Control-Expose-Headers', 'ETag');
       next();
     });
   }
@@ -77,6 +87,52 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
   // JSON middleware
   router.use(express.json());
 
+  // Authentication and per-route roles (MCP_DASHBOARD_AUTH, DashboardAuth.ts)
+  router.use(createAuthMiddleware());
+
+  // MCP_ACCESS_TOKENS token of a request (`Authorization: Bearer` or `X-Access-Token`)
+  const accessTokenFrom = (req: Request): string | undefined => {
+    const auth = req.header('authorization');
+    return auth && /^bearer\s+/i.test(auth) ? auth.replace(/^bearer\s+/i, '').trim() : req.header('x-access-token');
+  };
+
+  // Caller identity for classification access control (MCP_ACCESS_TOKENS): the rest of the request runs as the
+  // token's caller; requests without a known token get MCP_DEFAULT_CLEARANCE. With dashboard auth on, the
+  // authenticated key is the caller (its `clearance`, else MCP_CLIENT_CLEARANCE for the key id).
+  router.use((req: Request, res: Response, next: () => void) => {
+    if (!getRuntimeConfig().access.enabled) return next();
+    const identity = dashboardIdentity(res);
+    if (identity) {
+      const caller: Caller = { id: identity.id, source: 'dashboard', clearance: identity.clearance ?? clearanceFor(identity.id) };
+      return runAsCaller(caller, next);
+    }
+    runAsCaller(callerForToken(accessTokenFrom(req)), next);
+  });
+  // Tenant selection (MCP_MULTI_TENANT): a credential bound to a tenant (API key `tenant`, MCP_ACCESS_TOKENS
+  // `@tenant`) always runs in that tenant's catalog. Other authenticated callers may pick a configured tenant with
+  // the X-Tenant header or ?tenant=; unauthenticated requests cannot and use MCP_TENANT or the global catalog.
+  router.use((req: Request, res: Response, next: () => void) => {
+    if (!getRuntimeConfig().tenants.enabled) return next();
+    const identity = dashboardIdentity(res);
+    const token = identity ? undefined : accessTokenEntry(accessTokenFrom(req));
+    const bound = identity ? identity.tenant : token?.tenant;
+    const requested = req.header('x-tenant') ?? (typeof req.query.tenant === 'string' ? req.query.tenant : undefined);
+    if (requested === undefined && bound === undefined) return next();
+    const resolved = resolveTenant(requested ?? bound);
+    if ('error' in resolved) {
+      res.status(bound !== undefined && requested === undefined ? 403 : 400).json({ error: 'Invalid tenant', code: resolved.error, message: `Tenant "${requested ?? bound}" is not a valid or configured tenant` });
+      return;
+    }
+    if ((!identity && !token) || (bound !== undefined && bound !== resolved.tenant)) {
+      res.status(403).json({ error: 'Forbidden', code: 'tenant_forbidden', message: bound ? `This credential is bound to tenant "${bound}"` : 'Selecting a tenant requires an authenticated key or access token' });
+      return;
+    }
+    runInTenant(resolved.tenant, next);
+  });
+  // Raw instruction files are checked against their own classification (unclassified files count as internal)
+  const readableRecord = (json: unknown): boolean =>
+    canRead((json && typeof json === 'object' ? json : {}) as Pick<InstructionEntry, 'classification'>);
+
   // --- HTTP Metrics Instrumentation ---------------------------------------
   // Previously only MCP tool invocations (via registerHandler wrapper) fed the
   // MetricsCollector, so dashboard performance counters (requestsPerMinute,
@@ -829,11 +885,13 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
    */
   router.post('/admin/sessions', (req: Request, res: Response) => {
     try {
-      const { userId } = req.body;
+      // With dashboard auth the session belongs to the authenticated key, not a client-supplied userId
+      const identity = dashboardIdentity(res);
+      const userId = identity ? identity.id : req.body?.userId;
       const ipAddress = req.ip || req.connection.remoteAddress || 'unknown';
       const userAgent = req.get('User-Agent') || 'unknown';
       
-      const session = adminPanel.createAdminSession(userId, ipAddress, userAgent);
+      const session = adminPanel.createAdminSession(userId, ipAddress, userAgent, identity?.role);
       
       res.json({
         success: true,
@@ -882,6 +940,94 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
     }
   });
 
+  /**
+   * GET /api/auth/whoami - Authenticated identity (dashboard auth)
+   */
+  router.get('/auth/whoami', (_req: Request, res: Response) => {
+    const identity = dashboardIdentity(res);
+    res.json({
+      success: true,
+      authEnabled: getRuntimeConfig().dashboard.auth.enabled,
+      identity: identity ? { id: identity.id, role: identity.role, method: identity.method, ...(identity.tenant ? { tenant: identity.tenant } : {}), ...(identity.expiresAt ? { expiresAt: new Date(identity.expiresAt).toISOString() } : {}) } : null,
+      timestamp: Date.now()
+    });
+  });
+
+  /**
+   * POST /api/auth/token - Issue an HMAC-signed bearer token for the calling key ({ role?, ttlSec? } narrow it)
+   */
+  router.post('/auth/token', (req: Request, res: Response) => {
+    const identity = dashboardIdentity(res);
+    if (!identity) {
+      res.status(400).json({ success: false, error: 'Dashboard authentication is not enabled', code: 'auth_disabled' });
+      return;
+    }
+    const { role, ttlSec } = req.body ?? {};
+    if (role !== undefined && !isDashboardRole(role)) {
+      res.status(400).json({ success: false, error: 'Invalid role', code: 'invalid_role', message: `role must be one of ${DASHBOARD_ROLES.join(', ')}` });
+      return;
+    }
+    const issued = issueToken(identity, { role, ttlSec: typeof ttlSec === 'number' ? ttlSec : undefined });
+    if ('error' in issued) {
+      res.status(403).json({ success: false, error: 'Requested role exceeds the caller role', code: issued.error });
+      return;
+    }
+    res.json({ success: true, ...issued, subject: identity.id, timestamp: Date.now() });
+  });
+
+  /**
+   * GET /api/admin/auth/keys - List dashboard API keys (ids and roles only)
+   */
+  router.get('/admin/auth/keys', (_req: Request, res: Response) => {
+    try {
+      const keys = listApiKeys();
+      res.json({ success: true, keys, count: keys.length, timestamp: Date.now() });
+    } catch (error) {
+      res.status(500).json({ success: false, error: 'Failed to list API keys', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * POST /api/admin/auth/keys - Create an API key { id, role, clearance?, tenant? }; the key is only returned once
+   */
+  router.post('/admin/auth/keys', (req: Request, res: Response) => {
+    const { id, role, clearance, tenant } = req.body ?? {};
+    if (typeof id !== 'string' || !isDashboardRole(role) || (clearance !== undefined && !['public', 'internal', 'restricted'].includes(clearance))) {
+      res.status(400).json({ success: false, error: 'id (string) and role (viewer|editor|admin) are required; clearance must be public|internal|restricted', code: 'invalid_request' });
+      return;
+    }
+    const resolvedTenant = tenant === undefined ? undefined : resolveTenant(tenant);
+    if (resolvedTenant && 'error' in resolvedTenant) {
+      res.status(400).json({ success: false, error: `Tenant "${String(tenant)}" is not a valid or configured tenant`, code: resolvedTenant.error });
+      return;
+    }
+    try {
+      const created = createApiKey(id, role, clearance as Clearance | undefined, resolvedTenant?.tenant);
+      if ('error' in created) {
+        res.status(created.error === 'exists' ? 409 : 400).json({ success: false, error: created.error === 'exists' ? 'API key id already exists' : 'Invalid API key id', code: created.error });
+        return;
+      }
+      res.status(201).json({ success: true, key: created.key, entry: created.entry, createdBy: dashboardIdentity(res)?.id, timestamp: Date.now() });
+    } catch (error) {
+      res.status(500).json({ success: false, error: 'Failed to create API key', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * DELETE /api/admin/auth/keys/:id - Revoke an API key (and every token issued for it)
+   */
+  router.delete('/admin/auth/keys/:id', (req: Request, res: Response) => {
+    try {
+      if (!revokeApiKey(req.params.id)) {
+        res.status(404).json({ success: false, error: 'API key not found' });
+        return;
+      }
+      res.json({ success: true, revoked: req.params.id, timestamp: Date.now() });
+    } catch (error) {
+      res.status(500).json({ success: false, error: 'Failed to revoke API key', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   /**
    * GET /api/admin/maintenance - Get maintenance information
    */
@@ -946,6 +1092,9 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
           success: true,
           message: result.message,
           backupId: result.backupId,
+          files: result.files,
+          newObjects: result.newObjects,
+          newBytes: result.newBytes,
           timestamp: Date.now()
         });
       } else {
@@ -966,12 +1115,13 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
   });
 
   /**
-   * GET /api/admin/maintenance/backups - List available backups
+   * GET /api/admin/maintenance/backups - List available backups (plus shared object store size and schedule)
    */
   router.get('/admin/maintenance/backups', (_req: Request, res: Response) => {
     try {
       const backups = adminPanel.listBackups();
-      res.json({ success: true, backups, count: backups.length, timestamp: Date.now() });
+      const { intervalMs, retain, maxAgeDays } = getRuntimeConfig().dashboard.admin.backup;
+      res.json({ success: true, backups, count: backups.length, store: backupStoreStats(), schedule: { intervalMs, retain, maxAgeDays }, timestamp: Date.now() });
     } catch (error) {
       console.error('[API] List backups error:', error);
       res.status(500).json({ success: false, error: 'Failed to list backups', message: error instanceof Error ? error.message : 'Unknown error' });
@@ -980,16 +1130,20 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
 
   /**
    * POST /api/admin/maintenance/restore - Restore a backup
-   * body: { backupId: string }
+   * body: { backupId: string, ids?: string[], dryRun?: boolean }
+   * dryRun returns the plan (added / changed with field and body diffs / unchanged / liveOnly) without writing.
    */
   router.post('/admin/maintenance/restore', (req: Request, res: Response) => {
     try {
-      const { backupId } = req.body || {};
-      const result = adminPanel.restoreBackup(backupId);
+      const { backupId, ids, dryRun } = req.body || {};
+      if (ids !== undefined && (!Array.isArray(ids) || ids.some((i: unknown) => typeof i !== 'string'))) {
+        return res.status(400).json({ success: false, error: 'ids must be an array of strings', timestamp: Date.now() });
+      }
+      const result = adminPanel.restoreBackup(backupId, { ids, dryRun: dryRun === true });
       if (result.success) {
-        res.json({ success: true, message: result.message, restored: result.restored, timestamp: Date.now() });
+        res.json({ success: true, message: result.message, dryRun: result.dryRun === true, restored: result.restored, plan: result.plan, safetyBackupId: result.safetyBackupId, timestamp: Date.now() });
       } else {
-        res.status(400).json({ success: false, error: result.message, timestamp: Date.now() });
+        res.status(result.verification ? 422 : 400).json({ success: false, error: result.message, plan: result.plan, verification: result.verification, timestamp: Date.now() });
       }
     } catch (error) {
       console.error('[API] Restore backup error:', error);
@@ -998,7 +1152,21 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
   });
 
   /**
-   * DELETE /api/admin/maintenance/backup/:id - Delete a specific backup directory
+   * GET /api/admin/maintenance/backup/:id/verify - Verify archive, manifest checksum, records and objects
+   */
+  router.get('/admin/maintenance/backup/:id/verify', (req: Request, res: Response) => {
+    try {
+      const verification = adminPanel.verifyBackup(req.params.id);
+      if (!verification) return res.status(404).json({ success: false, error: `Backup not found: ${req.params.id}`, timestamp: Date.now() });
+      res.json({ success: true, verification, timestamp: Date.now() });
+    } catch (error) {
+      console.error('[API] Verify backup error:', error);
+      res.status(500).json({ success: false, error: 'Failed to verify backup', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * DELETE /api/admin/maintenance/backup/:id - Delete a specific backup (archive or legacy directory)
    */
   router.delete('/admin/maintenance/backup/:id', (req: Request, res: Response) => {
     try {
@@ -1016,12 +1184,13 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
   });
 
   /**
-   * POST /api/admin/maintenance/backups/prune { retain:number } - retain newest N (0 = delete all)
+   * POST /api/admin/maintenance/backups/prune { retain:number, maxAgeDays?:number } - retain newest N (0 = delete all)
    */
   router.post('/admin/maintenance/backups/prune', (req: Request, res: Response) => {
     try {
       const retain = typeof req.body?.retain === 'number' ? req.body.retain : 10;
-      const result = adminPanel.pruneBackups(retain);
+      const maxAgeDays = typeof req.body?.maxAgeDays === 'number' ? req.body.maxAgeDays : 0;
+      const result = adminPanel.pruneBackups(retain, maxAgeDays);
       if (result.success) {
         res.json({ success: true, message: result.message, pruned: result.pruned, timestamp: Date.now() });
       } else {
@@ -1233,7 +1402,7 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
    */
   router.get('/graph/categories', (_req: Request, res: Response) => {
     try {
-      const st = ensureLoaded();
+      const st = readableCatalog();
       const map = new Map<string, number>();
       for(const inst of st.list){
         const cats = Array.isArray(inst.categories)? inst.categories : [];
@@ -1252,7 +1421,7 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
    */
   router.get('/graph/instructions', (req: Request, res: Response) => {
     try {
-      const st = ensureLoaded();
+      const st = readableCatalog();
       const catsParam = (req.query.categories as string|undefined) || '';
       const filterCats = catsParam? catsParam.split(',').filter(Boolean) : [];
       const limitRaw = parseInt((req.query.limit as string)||'0',10);
@@ -1606,6 +1775,7 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
   // ===== Instruction Management Routes =====
   const resolveInstructionsDir = (): string => {
     const config = getRuntimeConfig();
+    if (currentTenant()) return getInstructionsDir();
     const configured = config.dashboard.admin.instructionsDir || config.catalog.baseDir;
     return configured && configured.trim().length ? configured : path.join(process.cwd(), 'instructions');
   };
@@ -1620,6 +1790,16 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
     return instructionsDir;
   }
 
+  // Optimistic concurrency: same revision token (ETag) as the MCP tools. Precondition comes from the
+  // If-Match header, falling back to an ifMatch body field (PUT) or query parameter (DELETE).
+  const requestIfMatch = (req: Request): string | undefined =>
+    normalizeIfMatch(req.get('If-Match') ?? (req.body as { ifMatch?: unknown } | undefined)?.ifMatch ?? req.query.ifMatch);
+  const rejectStale = (res: Response, current: RevisionSource) => {
+    const etag = computeRevisionToken(current);
+    res.setHeader('ETag', `"${etag}"`);
+    return res.status(412).json({ success:false, error:'precondition_failed', code: PRECONDITION_FAILED, message:'Instruction was modified by another writer; reload and retry', etag });
+  };
+
   /**
    * GET /api/instructions - list instruction JSON files
    */
@@ -1649,6 +1829,8 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
           let primaryCategory = meta.category;
           let categories: string[] = [];
           let semanticSummary: string | undefined;
+          let etag: string | undefined;
+          let restricted = !readableRecord(undefined);
           try {
             // Parse file and extract categories/category fields if present.
             // This enables multi-category filtering in the dashboard. Failures are non-fatal.
@@ -1656,6 +1838,8 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
             // Quick guard: avoid parsing extremely large instruction files (>1MB) for perf.
             if (raw.length < 1_000_000) {
               const json = JSON.parse(raw) as unknown;
+              restricted = !readableRecord(json);
+              if (json && typeof json === 'object') etag = computeRevisionToken(json as RevisionSource);
               const getProp = (obj: unknown, key: string): unknown => {
                 if (obj && typeof obj === 'object' && key in (obj as Record<string, unknown>)) {
                   return (obj as Record<string, unknown>)[key];
@@ -1726,6 +1910,10 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
           if (!categories.length && primaryCategory) categories = [primaryCategory];
           // Deduplicate while preserving order
           categories = Array.from(new Set(categories));
+          if (restricted) {
+            if (getRuntimeConfig().access.mode === 'filter') return undefined;
+            semanticSummary = undefined;
+          }
 
           return {
             name: base,
@@ -1735,8 +1923,11 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
             categories,
             sizeCategory,
             semanticSummary,
+            etag,
+            ...(restricted ? { redacted: true } : {}),
           };
-        });
+        })
+        .filter((f): f is NonNullable<typeof f> => f !== undefined);
 
       res.json({ success: true, instructions: files, count: files.length, timestamp: Date.now() });
     } catch (error) {
@@ -1789,6 +1980,8 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
               return obj && typeof obj === 'object' ? obj as ParsedInstructionLite : undefined;
             };
             const pi = asParsed(parsed);
+            // a redacted result would still reveal the match, so unreadable entries are skipped in both access modes
+            if(!readableRecord(parsed)) continue;
 
             const name = f.replace(/\.json$/i,'');
             let categories: string[] = [];
@@ -1866,15 +2059,31 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
       const file = path.join(instructionsDir, req.params.name + '.json');
       if (!fs.existsSync(file)) return res.status(404).json({ success:false, error:'Not found' });
       const content = JSON.parse(fs.readFileSync(file, 'utf8'));
-      res.json({ success: true, content, timestamp: Date.now() });
+      if (!readableRecord(content)) {
+        recordDeniedReads('dashboard/get', [req.params.name]);
+        if (getRuntimeConfig().access.mode === 'filter') return res.status(404).json({ success:false, error:'Not found' });
+        return res.json({ success: true, content: redactEntry(content as InstructionEntry), redacted: true, timestamp: Date.now() });
+      }
+      const etag = computeRevisionToken(content);
+      res.setHeader('ETag', `"${etag}"`);
+      res.json({ success: true, content, etag, timestamp: Date.now() });
     } catch (error) {
       res.status(500).json({ success:false, error:'Failed to load instruction', message: error instanceof Error? error.message:'Unknown error' });
     }
   });
 
+  // Ingest scan (MCP_INGEST_SCAN) for record-shaped content. A redacted body drops sourceHash so the loader re-hashes it.
+  const scanContent = (content: unknown, source: string): IngestScanOutcome<Record<string, unknown>> | undefined => {
+    if (!content || typeof content !== 'object' || Array.isArray(content)) return undefined;
+    const scan = applyIngestScan(content as Record<string, unknown>, source);
+    if (scan.redacted) delete scan.record.sourceHash;
+    return scan;
+  };
+
   /**
    * POST /api/instructions - create new instruction
    * body: { name, content }
+   * 422 when the ingest scan blocks the content (MCP_INGEST_SCAN=block).
    */
   router.post('/instructions', (req: Request, res: Response) => {
     try {
@@ -1884,8 +2093,10 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
       const safeName = String(name).replace(/[^a-zA-Z0-9-_]/g,'-');
       const file = path.join(instructionsDir, safeName + '.json');
       if (fs.existsSync(file)) return res.status(409).json({ success:false, error:'Instruction already exists' });
-      fs.writeFileSync(file, JSON.stringify(content, null, 2));
-      res.json({ success:true, message:'Instruction created', name: safeName, timestamp: Date.now() });
+      const scan = scanContent(content, 'dashboard');
+      if (scan?.blocked) return res.status(422).json({ success:false, error:'sensitive_content', findings: scan.findings });
+      fs.writeFileSync(file, JSON.stringify(scan ? scan.record : content, null, 2));
+      res.json({ success:true, message:'Instruction created', name: safeName, scanFindings: scan?.findings.length ? scan.findings : undefined, timestamp: Date.now() });
     } catch (error) {
       res.status(500).json({ success:false, error:'Failed to create instruction', message: error instanceof Error? error.message:'Unknown error' });
     }
@@ -1893,6 +2104,8 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
 
   /**
    * PUT /api/instructions/:name - update existing instruction
+   * Honors If-Match (or body.ifMatch): 412 when the stored revision moved on. Stamps updatedAt so the
+   * revision token changes even for metadata-only edits. Content goes through the same ingest scan as POST.
    */
   router.put('/instructions/:name', (req: Request, res: Response) => {
     try {
@@ -1902,8 +2115,19 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
       if (!content) return res.status(400).json({ success:false, error:'Missing content' });
       const file = path.join(instructionsDir, name + '.json');
       if (!fs.existsSync(file)) return res.status(404).json({ success:false, error:'Not found' });
-      fs.writeFileSync(file, JSON.stringify(content, null, 2));
-      res.json({ success:true, message:'Instruction updated', timestamp: Date.now() });
+      const ifMatch = requestIfMatch(req);
+      if (ifMatch) {
+        const current = JSON.parse(fs.readFileSync(file, 'utf8')) as RevisionSource;
+        if (!revisionMatches(ifMatch, current)) return rejectStale(res, current);
+      }
+      const scan = scanContent(content, 'dashboard');
+      if (scan?.blocked) return res.status(422).json({ success:false, error:'sensitive_content', findings: scan.findings });
+      const record = scan ? { ...scan.record, updatedAt: new Date().toISOString() } : content;
+      fs.writeFileSync(file, JSON.stringify(record, null, 2));
+      touchCatalogVersion(); invalidate();
+      const etag = computeRevisionToken(record);
+      res.setHeader('ETag', `"${etag}"`);
+      res.json({ success:true, message:'Instruction updated', etag, scanFindings: scan?.findings.length ? scan.findings : undefined, timestamp: Date.now() });
     } catch (error) {
       res.status(500).json({ success:false, error:'Failed to update instruction', message: error instanceof Error? error.message:'Unknown error' });
     }
@@ -1911,19 +2135,62 @@ export function createApiRoutes(options: ApiRoutesOptions = {}): Router {
 
   /**
    * DELETE /api/instructions/:name - delete instruction
+   * Honors If-Match (or ?ifMatch=): 412 when the stored revision moved on.
    */
   router.delete('/instructions/:name', (req: Request, res: Response) => {
     try {
       const instructionsDir = ensureInstructionsDir();
       const file = path.join(instructionsDir, req.params.name + '.json');
       if (!fs.existsSync(file)) return res.status(404).json({ success:false, error:'Not found' });
+      const ifMatch = requestIfMatch(req);
+      if (ifMatch) {
+        const current = JSON.parse(fs.readFileSync(file, 'utf8')) as RevisionSource;
+        if (!revisionMatches(ifMatch, current)) return rejectStale(res, current);
+      }
       fs.unlinkSync(file);
+      touchCatalogVersion(); invalidate();
       res.json({ success:true, message:'Instruction deleted', timestamp: Date.now() });
     } catch (error) {
       res.status(500).json({ success:false, error:'Failed to delete instruction', message: error instanceof Error? error.message:'Unknown error' });
     }
   });
 
+  /**
+   * GET /api/reviews/queue - overdue and upcoming reviews grouped by owner (?owner=, ?horizonDays=)
+   */
+  router.get('/reviews/queue', (req: Request, res: Response) => {
+    try {
+      const horizon = req.query.horizonDays ? parseInt(req.query.horizonDays as string, 10) : getRuntimeConfig().review.horizonDays;
+      if (!Number.isFinite(horizon) || horizon < 1 || horizon > 365) return res.status(400).json({ success:false, error:'horizonDays must be between 1 and 365' });
+      const owner = typeof req.query.owner === 'string' && req.query.owner ? req.query.owner : undefined;
+      const queue = buildReviewQueue(ensureLoaded().list, { horizonDays: horizon, owner });
+      res.json({ success:true, ...queue, timestamp: Date.now() });
+    } catch (error) {
+      res.status(500).json({ success:false, error:'Failed to build review queue', message: error instanceof Error? error.message:'Unknown error' });
+    }
+  });
+
+  /**
+   * POST /api/reviews/:id/complete - mark an instruction reviewed (body: reviewer, notes). Honors If-Match.
+   */
+  router.post('/reviews/:id/complete', (req: Request, res: Response) => {
+    try {
+      const id = req.params.id;
+      const current = ensureLoaded().byId.get(id);
+      if (!current) return res.status(404).json({ success:false, error:'Not found' });
+      const ifMatch = requestIfMatch(req);
+      if (ifMatch && !revisionMatches(ifMatch, current)) return rejectStale(res, current);
+      const { reviewer, notes } = (req.body || {}) as { reviewer?: string; notes?: string };
+      const result = recordReviewCompletion(id, { reviewer, notes });
+      if (!('record' in result)) return res.status('notFound' in result ? 404 : 500).json({ success:false, error: 'error' in result ? result.error : 'Not found' });
+      const etag = computeRevisionToken(result.record);
+      res.setHeader('ETag', `"${etag}"`);
+      res.json({ success:true, id, lastReviewedAt: result.record.lastReviewedAt, nextReviewDue: result.record.nextReviewDue, etag, timestamp: Date.now() });
+    } catch (error) {
+      res.status(500).json({ success:false, error:'Failed to complete review', message: error instanceof Error? error.message:'Unknown error' });
+    }
+  });
+
   /**
    * GET /api/logs - Get server logs with optional tail functionality
    */
@@ -0,0 +1,243 @@
+/**
+ * Dashboard HTTP API authentication and roles (MCP_DASHBOARD_AUTH).
+ *
+ * Credentials are API keys from the local keys file (MCP_DASHBOARD_KEYS_FILE; only sha256 hashes are stored, and
+ * a first admin key is generated and printed once to stderr when the file does not exist yet) or HMAC-SHA256
+ * bearer tokens issued for a key by POST /api/auth/token (MCP_DASHBOARD_TOKEN_SECRET or the generated
+ * MCP_DASHBOARD_TOKEN_SECRET_FILE). Both are accepted as `Authorization: Bearer` or `X-API-Key`; only the /ws
+ * upgrade also takes an `access_token` query parameter, as browsers cannot set WebSocket headers. A token names
+ * its key, so revoking the key revokes its tokens. Each API route requires viewer, editor or admin (ROUTE_ROLES),
+ * /tools.json and /ws require viewer (requireRole, authorizeUpgrade); failures get 401 / 403. Unknown keys and
+ * forged or expired tokens are also reported to SecurityMonitor and lock the source out (429) after repeated
+ * attempts; missing credentials and role denials are not counted, as the UI polls admin routes with viewer keys.
+ */
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { IncomingHttpHeaders, IncomingMessage } from 'http';
+import { Request, Response } from 'express';
+import { getRuntimeConfig } from '../../config/runtimeConfig';
+import type { Clearance } from '../../services/accessControl';
+import { SecurityMonitor } from '../security/SecurityMonitor.js';
+
+export type DashboardRole = 'viewer' | 'editor' | 'admin';
+export interface DashboardIdentity { id: string; role: DashboardRole; method: 'api-key' | 'token'; clearance?: Clearance; tenant?: string; expiresAt?: number }
+// tenant: the key (and its tokens) only reach this tenant's catalog; keys without one may select any configured tenant
+export interface DashboardApiKey { id: string; role: DashboardRole; clearance?: Clearance; tenant?: string; createdAt: string }
+interface StoredKey extends DashboardApiKey { hash: string }
+
+export const DASHBOARD_ROLES: DashboardRole[] = ['viewer', 'editor', 'admin'];
+const RANK: Record<DashboardRole, number> = { viewer: 0, editor: 1, admin: 2 };
+const KEY_ID = /^[a-z0-9][a-z0-9._@-]{0,63}$/i;
+const TOKEN_PREFIX = 'mcpt.';
+
+// Required role per API route (paths relative to the /api mount); first match wins, anything unmatched needs admin.
+const ROUTE_ROLES: { methods?: string[]; pattern: RegExp; role: DashboardRole | 'public' }[] = [
+  { methods: ['GET'], pattern: /^\/(status|health)$/, role: 'public' },
+  { pattern: /^\/admin(\/|$)/, role: 'admin' },
+  { methods: ['GET'], pattern: /^\/logs(\/|$)/, role: 'admin' },
+  { methods: ['GET', 'HEAD'], pattern: /^/, role: 'viewer' },
+  { methods: ['POST'], pattern: /^\/auth\/token$/, role: 'viewer' },
+  { methods: ['POST', 'PUT', 'DELETE'], pattern: /^\/instructions(\/|$)/, role: 'editor' },
+  { methods: ['POST'], pattern: /^\/(reviews|alerts)\//, role: 'editor' },
+];
+
+export function isDashboardRole(value: unknown): value is DashboardRole { return typeof value === 'string' && value in RANK; }
+
+export function roleAtLeast(role: DashboardRole, required: DashboardRole): boolean { return RANK[role] >= RANK[required]; }
+
+export function requiredRole(method: string, routePath: string): DashboardRole | 'public' {
+  const rule = ROUTE_ROLES.find(r => (!r.methods || r.methods.includes(method.toUpperCase())) && r.pattern.test(routePath));
+  return rule ? rule.role : 'admin';
+}
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value, 'utf8').digest('hex');
+const b64url = (buf: Buffer | string) => Buffer.from(buf).toString('base64url');
+
+let keysCache: { file: string; mtimeMs: number; keys: StoredKey[] } | null = null;
+
+function readKeys(): StoredKey[] {
+  const file = getRuntimeConfig().dashboard.auth.keysFile;
+  if(!fs.existsSync(file)){
+    bootstrapAdminKey(file);
+  }
+  const mtimeMs = fs.statSync(file).mtimeMs;
+  if(keysCache && keysCache.file === file && keysCache.mtimeMs === mtimeMs) return keysCache.keys;
+  const raw = JSON.parse(fs.readFileSync(file, 'utf8')) as { keys?: StoredKey[] };
+  const keys = (raw.keys || []).filter(k => k && typeof k.hash === 'string' && isDashboardRole(k.role) && KEY_ID.test(k.id));
+  keysCache = { file, mtimeMs, keys };
+  return keys;
+}
+
+function writeKeys(keys: StoredKey[]): void {
+  const file = getRuntimeConfig().dashboard.auth.keysFile;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp-${process.pid}`;
+  fs.writeFileSync(tmp, JSON.stringify({ keys }, null, 2), { mode: 0o600 });
+  fs.renameSync(tmp, file);
+  keysCache = null;
+}
+
+function newKey(): string { return `mcpk_${crypto.randomBytes(32).toString('base64url')}`; }
+
+// First use with auth on and no keys file: create one admin key so the dashboard is reachable at all
+function bootstrapAdminKey(file: string): void {
+  const key = newKey();
+  writeKeys([{ id: 'admin', role: 'admin', hash: sha256(key), createdAt: new Date().toISOString() }]);
+  try { process.stderr.write(`[dashboard-auth] created admin API key (shown once, stored hashed in ${file}): ${key}\n`); } catch { /* ignore */ }
+}
+
+/** Make sure the keys file exists (creating the first admin key) so it is printed at startup. */
+export function ensureDashboardKeys(): number { return readKeys().length; }
+
+export function listApiKeys(): DashboardApiKey[] {
+  return readKeys().map(({ id, role, clearance, tenant, createdAt }) => ({ id, role, ...(clearance ? { clearance } : {}), ...(tenant ? { tenant } : {}), createdAt }));
+}
+
+/** Create an API key; the plaintext key is only returned here. */
+export function createApiKey(id: string, role: DashboardRole, clearance?: Clearance, tenant?: string): { key: string; entry: DashboardApiKey } | { error: 'invalid_id' | 'exists' } {
+  if(!KEY_ID.test(id)) return { error: 'invalid_id' };
+  const keys = readKeys();
+  if(keys.some(k => k.id === id)) return { error: 'exists' };
+  const key = newKey();
+  const entry: StoredKey = { id, role, ...(clearance ? { clearance } : {}), ...(tenant ? { tenant } : {}), hash: sha256(key), createdAt: new Date().toISOString() };
+  writeKeys([...keys, entry]);
+  return { key, entry: listApiKeys().find(k => k.id === id) as DashboardApiKey };
+}
+
+export function revokeApiKey(id: string): boolean {
+  const keys = readKeys();
+  const remaining = keys.filter(k => k.id !== id);
+  if(remaining.length === keys.length) return false;
+  writeKeys(remaining);
+  return true;
+}
+
+function tokenSecret(): Buffer {
+  const cfg = getRuntimeConfig().dashboard.auth;
+  if(cfg.tokenSecret) return Buffer.from(cfg.tokenSecret, 'utf8');
+  if(!fs.existsSync(cfg.tokenSecretFile)){
+    fs.mkdirSync(path.dirname(cfg.tokenSecretFile), { recursive: true });
+    fs.writeFileSync(cfg.tokenSecretFile, crypto.randomBytes(32).toString('hex'), { mode: 0o600 });
+  }
+  return Buffer.from(fs.readFileSync(cfg.tokenSecretFile, 'utf8').trim(), 'utf8');
+}
+
+const sign = (payload: string) => crypto.createHmac('sha256', tokenSecret()).update(payload).digest();
+
+/** Issue a bearer token for an authenticated identity; role and lifetime can only be narrowed. */
+export function issueToken(identity: DashboardIdentity, opts: { role?: DashboardRole; ttlSec?: number } = {}): { token: string; role: DashboardRole; expiresAt: string } | { error: 'role_exceeds_caller' } {
+  const role = opts.role ?? identity.role;
+  if(!roleAtLeast(identity.role, role)) return { error: 'role_exceeds_caller' };
+  const maxTtl = getRuntimeConfig().dashboard.auth.tokenTtlSec;
+  const now = Math.floor(Date.now() / 1000);
+  let exp = now + Math.min(Math.max(1, opts.ttlSec ?? maxTtl), maxTtl);
+  if(identity.expiresAt) exp = Math.min(exp, Math.floor(identity.expiresAt / 1000));
+  const payload = b64url(JSON.stringify({ sub: identity.id, role, iat: now, exp }));
+  return { token: `${TOKEN_PREFIX}${payload}.${b64url(sign(payload))}`, role, expiresAt: new Date(exp * 1000).toISOString() };
+}
+
+export type AuthFailure = 'missing_credentials' | 'invalid_key' | 'invalid_token' | 'expired_token';
+
+export function authenticate(credential: string): DashboardIdentity | { error: AuthFailure } {
+  const keys = readKeys();
+  if(credential.startsWith(TOKEN_PREFIX)){
+    const [payload, sig] = credential.slice(TOKEN_PREFIX.length).split('.');
+    if(!payload || !sig) return { error: 'invalid_token' };
+    const expected = sign(payload);
+    const given = Buffer.from(sig, 'base64url');
+    if(given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return { error: 'invalid_token' };
+    let claims: { sub?: string; role?: string; exp?: number };
+    try { claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')); } catch { return { error: 'invalid_token' }; }
+    if(typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) return { error: 'expired_token' };
+    const key = keys.find(k => k.id === claims.sub);
+    if(!key || !isDashboardRole(claims.role) || !roleAtLeast(key.role, claims.role)) return { error: 'invalid_token' };
+    return { id: key.id, role: claims.role, method: 'token', clearance: key.clearance, tenant: key.tenant, expiresAt: claims.exp * 1000 };
+  }
+  const hash = Buffer.from(sha256(credential), 'hex');
+  const key = keys.find(k => k.hash.length === 64 && crypto.timingSafeEqual(Buffer.from(k.hash, 'hex'), hash));
+  return key ? { id: key.id, role: key.role, method: 'api-key', clearance: key.clearance, tenant: key.tenant } : { error: 'invalid_key' };
+}
+
+// Headers only: a credential in the URL would end up in proxy logs, browser history and Referer headers
+function credentialFrom(headers: IncomingHttpHeaders): string | undefined {
+  const auth = headers.authorization;
+  if(auth && /^bearer\s+/i.test(auth)) return auth.replace(/^bearer\s+/i, '').trim() || undefined;
+  const apiKey = headers['x-api-key'];
+  if(typeof apiKey === 'string') return apiKey.trim() || undefined;
+  return undefined;
+}
+
+/** Identity attached by the auth middleware (undefined when auth is off or the route is public). */
+export function dashboardIdentity(res: Response): DashboardIdentity | undefined {
+  return res.locals.dashboardIdentity as DashboardIdentity | undefined;
+}
+
+// Built here rather than through getSecurityMonitor(), whose singleton keeps the options of whoever created it first
+let authMonitor: SecurityMonitor | undefined;
+
+/** SecurityMonitor receiving the middleware's credential failures and holding its lockouts. */
+export function dashboardAuthMonitor(): SecurityMonitor {
+  if(!authMonitor) authMonitor = new SecurityMonitor({ simulate: false });
+  return authMonitor;
+}
+
+type AuthRejection = { status: 401 | 403 | 429; code: AuthFailure | 'insufficient_role' | 'locked_out'; message: string };
+interface AuthAttempt { source: string; method: string; path: string; userAgent?: string }
+
+function authorize(credential: string | undefined, required: DashboardRole | 'public', attempt: AuthAttempt): { identity?: DashboardIdentity } | AuthRejection {
+  const monitor = dashboardAuthMonitor();
+  if(monitor.isLockedOut(attempt.source)) return { status: 429, code: 'locked_out', message: 'Too many failed authentication attempts' };
+  const reject = (status: 401 | 403, code: AuthFailure | 'insufficient_role', identity?: DashboardIdentity): AuthRejection => {
+    // Only a presented credential that failed verification counts toward the lockout
+    if(code !== 'missing_credentials' && code !== 'insufficient_role'){
+      monitor.recordAuthenticationFailure(attempt.source, { reason: code, method: attempt.method, path: attempt.path, required, userAgent: attempt.userAgent });
+    }
+    return { status, code, message: status === 401 ? 'A valid API key or bearer token is required' : `Role "${identity?.role}" cannot access this route (requires ${required})` };
+  };
+  if(!credential) return required === 'public' ? {} : reject(401, 'missing_credentials');
+  const result = authenticate(credential);
+  if('error' in result) return reject(401, result.error);
+  if(required !== 'public' && !roleAtLeast(result.role, required)) return reject(403, 'insufficient_role', result);
+  return { identity: result };
+}
+
+function guard(required: (req: Request) => DashboardRole | 'public') {
+  return (req: Request, res: Response, next: () => void) => {
+    if(!getRuntimeConfig().dashboard.auth.enabled || req.method === 'OPTIONS') return next();
+    const decision = authorize(credentialFrom(req.headers), required(req), { source: req.ip || req.socket.remoteAddress || 'unknown', method: req.method, path: req.path, userAgent: req.get('User-Agent') });
+    if('status' in decision){
+      if(decision.status === 429){
+        res.status(429).json({ success: false, error: decision.message, code: decision.code });
+        return;
+      }
+      if(decision.status === 401) res.setHeader('WWW-Authenticate', 'Bearer realm="mcp-index-dashboard"');
+      res.status(decision.status).json({ success: false, error: decision.status === 401 ? 'Unauthorized' : 'Forbidden', code: decision.code, message: decision.message });
+      return;
+    }
+    if(decision.identity) res.locals.dashboardIdentity = decision.identity;
+    next();
+  };
+}
+
+/** Router middleware enforcing credentials and ROUTE_ROLES for every /api request. */
+export function createAuthMiddleware() {
+  return guard(req => requiredRole(req.method, req.path));
+}
+
+/** Middleware for a single route outside /api that needs at least `role`. */
+export function requireRole(role: DashboardRole) {
+  return guard(() => role);
+}
+
+/**
+ * Check a WebSocket upgrade (viewer); returns the rejection or undefined when the connection may proceed. The
+ * query credential is read here only, and only the path (never the query) is passed on to SecurityMonitor.
+ */
+export function authorizeUpgrade(req: IncomingMessage): AuthRejection | undefined {
+  if(!getRuntimeConfig().dashboard.auth.enabled) return undefined;
+  const url = new URL(req.url || '/', 'http://localhost');
+  const credential = credentialFrom(req.headers) ?? (url.searchParams.get('access_token') || undefined);
+  const decision = authorize(credential, 'viewer', { source: req.socket.remoteAddress || 'unknown', method: 'GET', path: url.pathname, userAgent: req.headers['user-agent'] });
+  return 'status' in decision ? decision : undefined;
+}
@@ -15,6 +15,8 @@ import path from 'path';
 import { createApiRoutes } from './ApiRoutes.js';
 import { getMetricsCollector } from './MetricsCollector.js';
 import { getWebSocketManager } from './WebSocketManager.js';
+import { ensureDashboardKeys, requireRole } from './DashboardAuth.js';
+import { getRuntimeConfig } from '../../config/runtimeConfig';
 // Back-compat: some early tests expect /tools.json at dashboard root
 import { listRegisteredMethods } from '../../server/registry.js';
 
@@ -171,7 +173,7 @@ export class DashboardServer {
       this.app.use((req, res, next) => {
         res.header('Access-Control-Allow-Origin', '*');
         res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-        res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+        res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-API-Key');
         
         if (req.method === 'OPTIONS') {
           res.sendStatus(200);
@@ -235,14 +237,15 @@ export class DashboardServer {
       });
     });
 
-    // API routes
+    // API routes (MCP_DASHBOARD_AUTH: create the keys file now so a first admin key is printed at startup)
+    if (getRuntimeConfig().dashboard.auth.enabled) ensureDashboardKeys();
     this.app.use('/api', createApiRoutes({
       enableCors: this.options.enableCors ?? true
     }));
 
         // Backward compatibility route: legacy test expects /tools.json
         // Mirrors /api/tools response shape so older harnesses continue to pass.
-        this.app.get('/tools.json', (_req, res) => {
+        this.app.get('/tools.json', requireRole('viewer'), (_req, res) => {
             try {
                 const tools = listRegisteredMethods();
                 const toolMetrics = this.metricsCollector.getToolMetrics() as Record<string, ReturnType<typeof this.metricsCollector.getToolMetrics>>;
@@ -10,6 +10,7 @@ import { Server as HttpServer } from 'http';
 import { randomUUID } from 'crypto';
 import { MetricsSnapshot, getMetricsCollector } from './MetricsCollector.js';
 import { SessionPersistenceManager } from './SessionPersistenceManager';
+import { authorizeUpgrade } from './DashboardAuth.js';
 import { PersistedWebSocketConnection } from '../../models/SessionPersistence';
 
 export interface DashboardMessage {
@@ -133,6 +134,12 @@ export class WebSocketManager {
     this.wss = new WebSocketServer({
       server,
       path: this.options.path,
+      // MCP_DASHBOARD_AUTH: the upgrade needs a viewer credential like the /api read routes
+      verifyClient: (info, done) => {
+        const rejected = authorizeUpgrade(info.req);
+        if (rejected) done(false, rejected.status, rejected.message);
+        else done(true);
+      },
     });
 
     this.wss.on('connection', (ws: WebSocket) => {
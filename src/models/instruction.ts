@@ -1,5 +1,30 @@
 export type AudienceScope = 'individual' | 'group' | 'all';
 export type RequirementLevel = 'mandatory' | 'critical' | 'recommended' | 'optional' | 'deprecated';
+// Declared argument for entries served as MCP prompts ({{name}} placeholders in body)
+export interface PromptArgumentSpec {
+  name: string;
+  description?: string;
+  required?: boolean;
+  default?: string;
+}
+// Typed relationships to other entries (graph/export edges, graph/neighbors traversal)
+export type LinkType = 'relatedTo' | 'conflictsWith' | 'requires' | 'supersedes';
+export type InstructionLinks = Partial<Record<LinkType, string[]>>;
+// Sign-off recorded by instructions/approve while an entry is in review
+export interface ApprovalRecord {
+  approver: string;
+  approvedAt: string;
+  version?: string;
+  comment?: string;
+}
+// Secret / PII finding recorded by the ingest scanner (the matched value itself is never stored)
+export interface ScanFindingRecord {
+  field: 'title' | 'body' | 'rationale' | 'semanticSummary';
+  kind: string;
+  class: 'secret' | 'pii' | 'internal';
+  action: 'flagged' | 'redacted';
+  detectedAt: string;
+}
 export interface InstructionEntry {
   id: string;
   title: string;
@@ -42,4 +67,14 @@ export interface InstructionEntry {
   // Attribution (added in 0.8.x): who/where created the instruction
   createdByAgent?: string;     // identifier of the MCP agent / client that created this entry
   sourceWorkspace?: string;    // logical workspace/project identifier at creation time
+  // MCP prompts surface: declaring arguments publishes the entry via prompts/list even outside the prompt category
+  promptArguments?: PromptArgumentSpec[];
+  // Composition: body is layered on the extends parent, followed by each included entry (resolved via get resolve:true)
+  extends?: string;
+  includes?: string[];
+  links?: InstructionLinks;
+  // Status workflow: approvals collected during the current review round (reset on entering review)
+  approvals?: ApprovalRecord[];
+  // Ingest scan: sensitive content found in the last write (warn / redact modes)
+  scanFindings?: ScanFindingRecord[];
 }
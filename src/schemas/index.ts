@@ -1,6 +1,8 @@
 // JSON Schemas for tool response contracts. These are used in tests to lock interfaces.
 // Increment version in docs/TOOLS.md when changing any stable schema.
 
+const approvalRecordSchema = { type: 'object', required: ['approver','approvedAt'], additionalProperties: false, properties: { approver: { type: 'string' }, approvedAt: { type: 'string' }, version: { type: 'string' }, comment: { type: 'string' } } } as const;
+
 export const instructionEntry = {
   type: 'object',
   additionalProperties: false,
@@ -41,12 +43,31 @@ export const instructionEntry = {
   ,semanticSummary: { type: 'string' }
   ,createdByAgent: { type: 'string' }
   ,sourceWorkspace: { type: 'string' }
+  ,promptArguments: { type: 'array', items: { type: 'object', required: ['name'], additionalProperties: false, properties: { name: { type: 'string' }, description: { type: 'string' }, required: { type: 'boolean' }, default: { type: 'string' } } } }
+  ,extends: { type: 'string' }
+  ,includes: { type: 'array', items: { type: 'string' } }
+  ,links: { type: 'object', additionalProperties: { type: 'array', items: { type: 'string' } } }
+  ,approvals: { type: 'array', items: approvalRecordSchema }
   }
 } as const;
 
 // (listLike schema removed after dispatcher consolidation of read-only instruction methods)
 
 // Using unknown for schema values to avoid any and preserve flexibility
+// Quality gate broken by an add / import (MCP_GATES_ENFORCE); see services/qualityGates.ts
+const gateViolationSchema = { type: 'object', required: ['id','type','severity'], additionalProperties: false, properties: {
+  id: { type: 'string' }, type: { type: 'string' }, severity: { enum: ['error','warn','info'] }, description: { type: 'string' }, offendingIds: { type: 'array', items: { type: 'string' } }
+} };
+const scanFindingSchema = { type: 'object', required: ['field','kind','class','start','end','preview'], additionalProperties: false, properties: {
+  id: { type: 'string' }, field: { enum: ['title','body','rationale','semanticSummary'] }, kind: { type: 'string' }, class: { enum: ['secret','pii','internal'] }, start: { type: 'number' }, end: { type: 'number' }, preview: { type: 'string' }
+} };
+
+// review/queue entry (services/reviewSchedule.ts)
+const reviewItemSchema = { type: 'object', required: ['id','title','owner','nextReviewDue','daysUntilDue'], additionalProperties: false, properties: {
+  id: { type: 'string' }, title: { type: 'string' }, owner: { type: 'string' }, priorityTier: { type: 'string' }, status: { type: 'string' },
+  lastReviewedAt: { type: 'string' }, nextReviewDue: { type: 'string' }, reviewIntervalDays: { type: 'number' }, daysUntilDue: { type: 'number' }
+} };
+
 export const schemas: Record<string, unknown> = {
   'health/check': {
     type: 'object', additionalProperties: false,
@@ -74,7 +95,27 @@ export const schemas: Record<string, unknown> = {
     anyOf: [
       { type: 'object', required: ['error'], properties: { error: { type: 'string' } }, additionalProperties: true },
       { type: 'object', required: ['hash','imported','skipped','overwritten','errors','total'], additionalProperties: false, properties: {
-        hash: { type: 'string' }, imported: { type: 'number' }, skipped: { type: 'number' }, overwritten: { type: 'number' }, total: { type: 'number' }, errors: { type: 'array', items: { type: 'object', required: ['id','error'], properties: { id: { type: 'string' }, error: { type: 'string' } }, additionalProperties: false } }
+        hash: { type: 'string' }, imported: { type: 'number' }, skipped: { type: 'number' }, overwritten: { type: 'number' }, total: { type: 'number' }, errors: { type: 'array', items: { type: 'object', required: ['id','error'], properties: { id: { type: 'string' }, error: { type: 'string' } }, additionalProperties: false } },
+        gateWarnings: { type: 'array', items: gateViolationSchema },
+        scanFindings: { type: 'array', items: scanFindingSchema }
+      } }
+    ]
+  },
+  'instructions/importBundle': {
+    anyOf: [
+      { type: 'object', required: ['error'], properties: { error: { type: 'string' } }, additionalProperties: true },
+      { type: 'object', required: ['format','signature','entries','counts','missing','invalidTargets'], additionalProperties: false, properties: {
+        format: { type: 'string', enum: ['archive','directory'] }, createdAt: { type: 'string' }, source: { type: 'object' },
+        signature: { type: 'object', required: ['status','trusted'], additionalProperties: false, properties: { status: { type: 'string', enum: ['valid','invalid','absent'] }, keyId: { type: 'string' }, trusted: { type: 'boolean' } } },
+        entries: { type: 'array', items: { type: 'object', required: ['id','targetId','status','action'], additionalProperties: false, properties: {
+          id: { type: 'string' }, targetId: { type: 'string' }, status: { type: 'string', enum: ['new','unchanged','conflict'] }, action: { type: 'string', enum: ['create','overwrite','skip'] },
+          fields: { type: 'array', items: { type: 'object', required: ['field'], properties: { field: { type: 'string' } }, additionalProperties: true } }, bodyDiff: { type: 'string' }
+        } } },
+        counts: { type: 'object', required: ['new','unchanged','conflict'], properties: { new: { type: 'number' }, unchanged: { type: 'number' }, conflict: { type: 'number' } }, additionalProperties: false },
+        missing: { type: 'array', items: { type: 'string' } },
+        invalidTargets: { type: 'array', items: { type: 'string' } },
+        dryRun: { type: 'boolean' },
+        result: { type: 'object' }
       } }
     ]
   },
@@ -86,10 +127,21 @@ export const schemas: Record<string, unknown> = {
         message: { type: 'string' },
         max: { type: 'number' }
       } },
-      { type: 'object', required: ['issues','summary','length'], additionalProperties: false, properties: {
-        issues: { type: 'array', items: { type: 'object' } },
+      { type: 'object', required: ['issues','summary','length','score','suggestions','rewrittenPrompt','rules'], additionalProperties: false, properties: {
+        issues: { type: 'array', items: { type: 'object', required: ['ruleId','severity','description'], additionalProperties: false, properties: {
+          ruleId: { type: 'string' }, severity: { type: 'string' }, description: { type: 'string' }, match: { type: 'string' }, category: { type: 'string' }, suggestion: { type: 'string' }
+        } } },
         summary: { type: 'object' },
-        length: { type: 'number' }
+        length: { type: 'number' },
+        score: { type: 'number', minimum: 0, maximum: 100 },
+        suggestions: { type: 'array', items: { type: 'string' } },
+        rewrittenPrompt: { type: 'string' },
+        rules: { type: 'array', items: { type: 'object', required: ['id','type','category','score','issues','suggestions'], additionalProperties: false, properties: {
+          id: { type: 'string' }, type: { type: 'string' }, category: { type: 'string' }, score: { type: 'number' }, issues: { type: 'number' },
+          suggestions: { type: 'array', items: { type: 'string' } }, rewrittenPrompt: { type: 'string' }
+        } } },
+        category: { type: 'string' },
+        criteriaFiles: { type: 'array', items: { type: 'string' } }
       } }
     ]
   },
@@ -100,7 +152,45 @@ export const schemas: Record<string, unknown> = {
       hash: { type: 'string' },
       count: { type: 'number' },
       issues: { type: 'array', items: { type: 'object', required: ['id','expected','actual'], properties: { id: { type: 'string' }, expected: { type: 'string' }, actual: { type: 'string' } }, additionalProperties: false } },
-      issueCount: { type: 'number' }
+      issueCount: { type: 'number' },
+      referenceIssues: { type: 'array', items: { type: 'object', required: ['id','relation','target','problem'], properties: { id: { type: 'string' }, relation: { enum: ['extends','includes'] }, target: { type: 'string' }, problem: { enum: ['dangling','self','cycle'] }, cycle: { type: 'array', items: { type: 'string' } } }, additionalProperties: false } },
+      referenceIssueCount: { type: 'number' },
+      signature: { type: 'object', required: ['mode','manifest','issues','refused'], additionalProperties: false, properties: {
+        mode: { enum: ['sign','refuse'] }, manifest: { enum: ['valid','missing','invalid'] }, keyId: { type: 'string' }, refused: { type: 'number' },
+        issues: { type: 'array', items: { type: 'object', required: ['id','reason'], additionalProperties: false, properties: { id: { type: 'string' }, reason: { enum: ['unsigned','altered'] } } } }
+      } }
+    }
+  },
+  'audit/verify': {
+    type: 'object', additionalProperties: false,
+    required: ['enabled','lines','chained','legacy','ok','issues','head'],
+    properties: {
+      enabled: { type: 'boolean' },
+      file: { type: 'string' },
+      lines: { type: 'number' },
+      chained: { type: 'number' },
+      legacy: { type: 'number' },
+      ok: { type: 'boolean' },
+      issues: { type: 'array', items: { type: 'object', required: ['line','problem'], additionalProperties: false, properties: { line: { type: 'number' }, problem: { enum: ['unparseable','broken-link','hash-mismatch','unchained'] } } } },
+      head: { enum: ['match','mismatch','missing','bad-signature','n/a'] },
+      lastHash: { type: 'string' }
+    }
+  },
+  'integrity/scan': {
+    type: 'object', additionalProperties: false,
+    required: ['hash','scanned','flagged','findingCount','byKind','entries'],
+    properties: {
+      hash: { type: 'string' },
+      scanned: { type: 'number' },
+      flagged: { type: 'number' },
+      findingCount: { type: 'number' },
+      byKind: { type: 'object', additionalProperties: { type: 'number' } },
+      entries: { type: 'array', items: { type: 'object', required: ['id','findings'], additionalProperties: false, properties: {
+        id: { type: 'string' },
+        findings: { type: 'array', items: { type: 'object', required: ['field','kind','class','preview'], additionalProperties: false, properties: {
+          field: { enum: ['title','body','rationale','semanticSummary'] }, kind: { type: 'string' }, class: { enum: ['secret','pii','internal'] }, preview: { type: 'string' }
+        } } }
+      } } }
     }
   },
   'usage/track': {
@@ -113,6 +203,51 @@ export const schemas: Record<string, unknown> = {
       } }
     ]
   },
+  'usage/report': {
+    anyOf: [
+      { type: 'object', required: ['error'], properties: { error: { type: 'string' } }, additionalProperties: false },
+      { type: 'object', required: ['totalEvents','ratedEvents','instructions','clients'], additionalProperties: false, properties: {
+        from: { type: 'string' }, to: { type: 'string' }, totalEvents: { type: 'number' }, ratedEvents: { type: 'number' },
+        instructions: { type: 'array', items: { type: 'object', required: ['id','events','sessions','outcomes','rated','helpfulness','clients','lastUsedAt'], additionalProperties: false, properties: {
+          id: { type: 'string' }, events: { type: 'number' }, sessions: { type: 'number' }, rated: { type: 'number' }, helpfulness: { type: ['number','null'] }, lastUsedAt: { type: 'string' },
+          outcomes: { type: 'object', required: ['helpful','not-relevant','wrong'], additionalProperties: false, properties: { helpful: { type: 'number' }, 'not-relevant': { type: 'number' }, wrong: { type: 'number' } } },
+          clients: { type: 'array', items: { type: 'object', required: ['clientName','events','share','helpful','rated'], additionalProperties: false, properties: { clientName: { type: 'string' }, events: { type: 'number' }, share: { type: 'number' }, helpful: { type: 'number' }, rated: { type: 'number' } } } }
+        } } },
+        clients: { type: 'array', items: { type: 'object', required: ['clientName','events','instructions','rated','helpfulness'], additionalProperties: false, properties: { clientName: { type: 'string' }, events: { type: 'number' }, instructions: { type: 'number' }, rated: { type: 'number' }, helpfulness: { type: ['number','null'] } } } }
+      } }
+    ]
+  },
+  'review/queue': {
+    anyOf: [
+      { type: 'object', required: ['error'], properties: { error: { type: 'string' } }, additionalProperties: false },
+      { type: 'object', required: ['generatedAt','horizonDays','overdueCount','upcomingCount','owners'], additionalProperties: false, properties: {
+        generatedAt: { type: 'string' }, horizonDays: { type: 'number' }, overdueCount: { type: 'number' }, upcomingCount: { type: 'number' },
+        owners: { type: 'array', items: { type: 'object', required: ['owner','overdue','upcoming'], additionalProperties: false, properties: {
+          owner: { type: 'string' }, overdue: { type: 'array', items: reviewItemSchema }, upcoming: { type: 'array', items: reviewItemSchema }
+        } } }
+      } }
+    ]
+  },
+  'review/complete': {
+    anyOf: [
+      { type: 'object', required: ['error'], properties: { error: { type: 'string' }, id: { type: 'string' } }, additionalProperties: true },
+      { type: 'object', required: ['notFound'], properties: { notFound: { const: true } }, additionalProperties: true },
+      { type: 'object', required: ['id','lastReviewedAt','nextReviewDue'], additionalProperties: false, properties: {
+        id: { type: 'string' }, lastReviewedAt: { type: 'string' }, nextReviewDue: { type: 'string' }, reviewIntervalDays: { type: 'number' }, etag: { type: 'string' },
+        changeLogEntry: { type: 'object', required: ['version','changedAt','summary'], additionalProperties: false, properties: { version: { type: 'string' }, changedAt: { type: 'string' }, summary: { type: 'string' } } }
+      } }
+    ]
+  },
+  'instructions/approve': {
+    anyOf: [
+      { type: 'object', required: ['error'], properties: { error: { type: 'string' }, id: { type: 'string' } }, additionalProperties: true },
+      { type: 'object', required: ['notFound'], properties: { notFound: { const: true } }, additionalProperties: true },
+      { type: 'object', required: ['id','status','approved','approvals','required'], additionalProperties: false, properties: {
+        id: { type: 'string' }, status: { enum: ['draft','review','approved','deprecated'] }, approved: { type: 'boolean' }, required: { type: 'number' }, etag: { type: 'string' },
+        approvals: { type: 'array', items: approvalRecordSchema }
+      } }
+    ]
+  },
   'usage/hotset': {
     type: 'object', additionalProperties: false,
     required: ['hash','count','limit','items'],
@@ -125,8 +260,12 @@ export const schemas: Record<string, unknown> = {
       additionalProperties: false
     },
       limit: { type: 'number' },
+      strategy: { type: 'string', enum: ['count','hot'] },
       items: { type: 'array', items: { type: 'object', required: ['id','usageCount'], additionalProperties: false, properties: {
-        id: { type: 'string' }, usageCount: { type: 'number' }, lastUsedAt: { type: 'string' }
+        id: { type: 'string' }, usageCount: { type: 'number' }, lastUsedAt: { type: 'string' },
+        hotScore: { type: 'number' },
+        breakdown: { type: 'object', additionalProperties: false, properties: { recentUsage: { type: 'number' }, historicalUsage: { type: 'number' }, recencyContribution: { type: 'number' }, historyContribution: { type: 'number' }, bonuses: { type: 'number' } } },
+        metadata: { type: 'object', additionalProperties: false, properties: { totalUsageEvents: { type: 'number' }, uniqueHours: { type: 'number' }, firstUsage: { type: 'number' }, lastUsage: { type: 'number' }, usageTrend: { type: 'string', enum: ['increasing','decreasing','stable'] } } }
       } } }
     }
   },
@@ -171,8 +310,13 @@ export const schemas: Record<string, unknown> = {
       { type: 'object', required: ['error'], properties: { error: { type: 'string' } }, additionalProperties: true },
       { type: 'object', required: ['generatedAt','results','summary'], additionalProperties: false, properties: {
         generatedAt: { type: 'string' },
-        results: { type: 'array', items: { type: 'object', required: ['id','passed','count','op','value','severity'], additionalProperties: true, properties: {
-          id: { type: 'string' }, passed: { type: 'boolean' }, count: { type: 'number' }, op: { type: 'string' }, value: { type: 'number' }, severity: { type: 'string' }, description: { type: 'string' }
+        results: { type: 'array', items: { type: 'object', required: ['id','type','passed','count','severity'], additionalProperties: true, properties: {
+          id: { type: 'string' }, type: { type: 'string' }, passed: { type: 'boolean' }, count: { type: 'number' }, op: { type: 'string' }, value: { type: 'number' }, severity: { type: 'string' }, description: { type: 'string' },
+          ratio: { type: 'number' },
+          offendingIds: { type: 'array', items: { type: 'string' } },
+          missingCategories: { type: 'array', items: { type: 'object', required: ['category','count'], additionalProperties: false, properties: { category: { type: 'string' }, count: { type: 'number' } } } },
+          duplicates: { type: 'array', items: { type: 'object', required: ['value','ids'], additionalProperties: false, properties: { value: { type: 'string' }, ids: { type: 'array', items: { type: 'string' } } } } },
+          error: { type: 'string' }
         } } },
         summary: { type: 'object', required: ['errors','warnings','total'], properties: { errors: { type: 'number' }, warnings: { type: 'number' }, total: { type: 'number' } }, additionalProperties: false }
       } }
@@ -185,17 +329,30 @@ export const schemas: Record<string, unknown> = {
       { type: 'object', required: ['meta','nodes','edges'], additionalProperties: true, properties: {
         meta: { type: 'object', required: ['graphSchemaVersion','nodeCount','edgeCount'], additionalProperties: true, properties: { graphSchemaVersion: { const: 1 }, nodeCount: { type: 'number' }, edgeCount: { type: 'number' } } },
         nodes: { type: 'array', items: { type: 'object', required: ['id'], additionalProperties: true, properties: { id: { type:'string' } } } },
-        edges: { type: 'array', items: { type: 'object', required: ['from','to','type'], additionalProperties: true, properties: { from: { type:'string' }, to: { type:'string' }, type: { enum: ['primary','category'] } } } }
+        edges: { type: 'array', items: { type: 'object', required: ['from','to','type'], additionalProperties: true, properties: { from: { type:'string' }, to: { type:'string' }, type: { enum: ['primary','category','extends','includes','relatedTo','conflictsWith','requires','supersedes'] } } } }
       } },
       { type: 'object', required: ['meta','nodes','edges'], additionalProperties: true, properties: {
         meta: { type: 'object', required: ['graphSchemaVersion','nodeCount','edgeCount'], additionalProperties: true, properties: { graphSchemaVersion: { const: 2 }, nodeCount: { type: 'number' }, edgeCount: { type: 'number' } } },
         nodes: { type: 'array', items: { type: 'object', required: ['id'], additionalProperties: true, properties: { id: { type:'string' }, nodeType: { enum: ['instruction','category'] }, categories: { type:'array', items:{ type:'string' } }, primaryCategory: { type:'string' }, usageCount: { type:'number' } } } },
-        edges: { type: 'array', items: { type: 'object', required: ['from','to','type'], additionalProperties: true, properties: { from: { type:'string' }, to: { type:'string' }, type: { enum: ['primary','category','belongs'] } } } },
+        edges: { type: 'array', items: { type: 'object', required: ['from','to','type'], additionalProperties: true, properties: { from: { type:'string' }, to: { type:'string' }, type: { enum: ['primary','category','belongs','extends','includes','relatedTo','conflictsWith','requires','supersedes'] } } } },
         mermaid: { type: 'string' }, dot: { type: 'string' }
       } }
     ]
   }
   ,
+  'graph/neighbors': {
+    anyOf: [
+      { type: 'object', required: ['notFound','id'], additionalProperties: false, properties: { notFound: { const: true }, id: { type: 'string' } } },
+      { type: 'object', required: ['error'], additionalProperties: false, properties: { error: { type: 'string' } } },
+      { type: 'object', required: ['hash','id','direction','nodes','edges'], additionalProperties: false, properties: {
+        hash: { type: 'string' }, id: { type: 'string' }, to: { type: 'string' }, depth: { type: 'number' }, direction: { enum: ['out','in','both'] }, truncated: { type: 'boolean' },
+        path: { type: 'object', required: ['found','ids'], additionalProperties: false, properties: { found: { type: 'boolean' }, length: { type: 'number' }, ids: { type: 'array', items: { type: 'string' } } } },
+        nodes: { type: 'array', items: { type: 'object', required: ['id','distance'], additionalProperties: true, properties: { id: { type: 'string' }, distance: { type: 'number' } } } },
+        edges: { type: 'array', items: { type: 'object', required: ['from','to','type'], additionalProperties: false, properties: { from: { type: 'string' }, to: { type: 'string' }, type: { enum: ['extends','includes','relatedTo','conflictsWith','requires','supersedes'] } } } }
+      } }
+    ]
+  }
+  ,
   'meta/tools': {
     type: 'object', additionalProperties: true,
     required: ['stable','dynamic','tools'],
@@ -285,7 +442,9 @@ export const schemas: Record<string, unknown> = {
     anyOf: [
       { type: 'object', required: ['error'], properties: { error: { type: 'string' }, id: { type: 'string' } }, additionalProperties: true },
       { type: 'object', required: ['id','hash','skipped','created','overwritten'], additionalProperties: false, properties: {
-        id: { type: 'string' }, hash: { type: 'string' }, skipped: { type: 'boolean' }, created: { type: 'boolean' }, overwritten: { type: 'boolean' }
+        id: { type: 'string' }, hash: { type: 'string' }, skipped: { type: 'boolean' }, created: { type: 'boolean' }, overwritten: { type: 'boolean' },
+        gateWarnings: { type: 'array', items: gateViolationSchema },
+        scanFindings: { type: 'array', items: scanFindingSchema }
       } }
     ]
   },
@@ -323,8 +482,21 @@ export const schemas: Record<string, unknown> = {
             relevanceScore: { type: 'number' },
             matchedFields: {
               type: 'array',
-              items: { enum: ['title', 'body', 'categories'] }
-            }
+              items: { enum: ['title', 'body', 'categories', 'semantic'] }
+            },
+            keywordScore: { type: 'number' },
+            semanticScore: { type: 'number' },
+            snippet: {
+              type: 'object',
+              additionalProperties: false,
+              required: ['field', 'text', 'highlights'],
+              properties: {
+                field: { enum: ['title', 'body'] },
+                text: { type: 'string' },
+                highlights: { type: 'array', items: { type: 'array', items: { type: 'number' }, minItems: 2, maxItems: 2 } }
+              }
+            },
+            hotScore: { type: 'number' }
           }
         }
       },
@@ -337,7 +509,9 @@ export const schemas: Record<string, unknown> = {
           keywords: { type: 'array', items: { type: 'string' } },
           limit: { type: 'number' },
           includeCategories: { type: 'boolean' },
-          caseSensitive: { type: 'boolean' }
+          caseSensitive: { type: 'boolean' },
+          mode: { enum: ['keyword', 'semantic', 'hybrid', 'fulltext'] },
+          boostByHotScore: { type: 'boolean' }
         }
       },
       executionTimeMs: { type: 'number' }
@@ -0,0 +1,34 @@
+// CLI runner: copy a JSON instruction directory into a SQLite catalog database and verify parity.
+// Usage: node dist/scripts/migrateCatalogToSqlite.js [--source <dir>] [--target <db>] [--replace]
+import path from 'path';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { migrateJsonCatalogToSqlite } from '../services/catalogMigration';
+
+function argValue(name: string): string | undefined {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function main() {
+  const cfg = getRuntimeConfig().catalog;
+  const source = argValue('--source') || cfg.baseDir;
+  const target = argValue('--target') || cfg.storage.sqlitePath || path.join(source, 'catalog.sqlite');
+  try {
+    const result = migrateJsonCatalogToSqlite(source, target, { replace: process.argv.includes('--replace') });
+    console.log(JSON.stringify(result, null, 2));
+    if(!result.verified){
+      console.error(`❌ Migration parity check failed: ${result.mismatches.join(', ')}`);
+      process.exit(1);
+    }
+    const defaultTarget = path.resolve(path.join(cfg.baseDir, 'catalog.sqlite'));
+    const pathHint = result.target === defaultTarget ? '' : ` MCP_CATALOG_SQLITE_PATH=${result.target}`;
+    console.log(`✅ Migrated ${result.copied} records to ${result.target}. Serve with MCP_CATALOG_STORAGE=sqlite${pathHint}.`);
+  } catch (error) {
+    console.error('❌ Catalog migration failed:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,335 @@
+/**
+ * Streamable HTTP transport (MCP spec 2025-03-26 / 2025-06-18), opt-in with MCP_HTTP_TRANSPORT=1.
+ *
+ * Lets many clients share one server process (one catalog state, usage counters and caches) instead of each
+ * spawning its own stdio server. A single endpoint (MCP_HTTP_PATH, default /mcp) handles:
+ *  - POST: one JSON-RPC message or a batch. Only notifications / responses: 202. With requests: the responses
+ *    stream back as SSE events on the POST response, which ends once every request in it is answered (a plain
+ *    JSON body instead with MCP_HTTP_JSON_RESPONSE=1 or when the client does not accept text/event-stream).
+ *  - GET: the session's standing SSE stream for server-initiated messages (server/ready, list_changed,
+ *    resource updates). Messages sent before it is opened are queued and flushed in order when it opens.
+ *  - DELETE: ends the session.
+ *
+ * An initialize POST without Mcp-Session-Id creates a session; its id is returned in the Mcp-Session-Id header
+ * and required on every later request (400 when missing, 404 when unknown or expired). Each session gets its
+ * own SDK server through the connect callback, so the handshake state (initialize result before server/ready)
+ * is per session exactly as on stdio. Origin headers are checked against MCP_HTTP_ALLOWED_ORIGINS (localhost
+ * origins when unset) to block DNS rebinding.
+ *
+ * Sessions authenticate with `Authorization: Bearer <token>` from MCP_ACCESS_TOKENS (401 without a known token
+ * unless MCP_HTTP_REQUIRE_AUTH=0). The token fixes the session's caller (clearance) and tenant (`@tenant`
+ * binding, else MCP_TENANT); clientInfo.name and `_meta.tenant` are not trusted over HTTP. Later requests must
+ * present the token the session was opened with. Without auth required, sessions without a token run as the
+ * anonymous caller (MCP_DEFAULT_CLEARANCE) in the default tenant.
+ */
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { accessTokenEntry, Caller, runAsCaller } from '../services/accessControl';
+import { resolveTenant, runInTenant } from '../services/tenantContext';
+import { logInfo, logWarn } from '../services/logger';
+import type { McpSessionIdentity } from './sdkServer';
+
+type RequestId = string | number;
+export interface JsonRpcMessage { jsonrpc: '2.0'; id?: RequestId | null; method?: string; params?: unknown; result?: unknown; error?: unknown }
+
+interface PendingPost { res: http.ServerResponse; sse: boolean; open: Set<RequestId>; responses: JsonRpcMessage[] }
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const MAX_QUEUED_MESSAGES = 1000;
+const SSE_KEEPALIVE_MS = 15_000;
+
+const isRequest = (m: JsonRpcMessage) => typeof m.method === 'string' && m.id !== undefined && m.id !== null;
+const isResponse = (m: JsonRpcMessage) => m.method === undefined && m.id !== undefined && m.id !== null && ('result' in m || 'error' in m);
+
+function writeEvent(res: http.ServerResponse, message: JsonRpcMessage): Promise<void> {
+  return new Promise(resolve => {
+    if(res.writableEnded || res.destroyed) return resolve();
+    res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`, () => resolve());
+  });
+}
+
+function sendError(res: http.ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}): void {
+  if(res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * SDK Transport (start / send / close / onmessage) for one HTTP session. Responses are routed to the POST that
+ * carried their request; everything else goes to the GET stream (queued until it is open).
+ */
+export class StreamableHttpSessionTransport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JsonRpcMessage) => void;
+  lastSeen = Date.now();
+  private stream: http.ServerResponse | null = null;
+  private queue: JsonRpcMessage[] = [];
+  private pending = new Map<RequestId, PendingPost>();
+  private closed = false;
+
+  /** credential: hash of the bearer token the session was opened with (undefined for anonymous sessions). */
+  constructor(readonly sessionId: string, readonly identity: McpSessionIdentity = {}, readonly credential?: string){}
+
+  async start(): Promise<void> { /* HTTP server already listening */ }
+
+  get hasStream(): boolean { return !!this.stream; }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if(this.closed) return;
+    if(isResponse(message)){
+      const post = this.pending.get(message.id as RequestId);
+      if(!post) return; // the POST was abandoned by the client; nothing left to deliver to
+      this.pending.delete(message.id as RequestId);
+      post.open.delete(message.id as RequestId);
+      if(post.sse) await writeEvent(post.res, message);
+      else post.responses.push(message);
+      if(!post.open.size) await this.finishPost(post);
+      return;
+    }
+    if(this.stream) return writeEvent(this.stream, message);
+    if(this.queue.length >= MAX_QUEUED_MESSAGES) this.queue.shift();
+    this.queue.push(message);
+  }
+
+  async close(): Promise<void> {
+    if(this.closed) return;
+    this.closed = true;
+    for(const post of new Set(this.pending.values())) if(!post.res.writableEnded) post.res.end();
+    this.pending.clear();
+    if(this.stream && !this.stream.writableEnded) this.stream.end();
+    this.stream = null;
+    this.queue = [];
+    this.onclose?.();
+  }
+
+  /** Dispatch the messages of one POST; requests are answered on res. */
+  handlePost(messages: JsonRpcMessage[], res: http.ServerResponse, sse: boolean): void {
+    this.lastSeen = Date.now();
+    const requests = messages.filter(isRequest);
+    if(!requests.length){
+      res.writeHead(202, { 'Mcp-Session-Id': this.sessionId }).end();
+    } else {
+      const post: PendingPost = { res, sse, open: new Set(requests.map(r => r.id as RequestId)), responses: [] };
+      for(const id of post.open) this.pending.set(id, post);
+      if(sse){
+        res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive', 'Mcp-Session-Id': this.sessionId });
+        res.flushHeaders();
+      }
+      res.on('close', () => { for(const id of post.open) if(this.pending.get(id) === post) this.pending.delete(id); });
+    }
+    for(const message of messages) this.dispatch(message);
+  }
+
+  /** Attach the standing SSE stream and flush queued messages into it. */
+  async openStream(res: http.ServerResponse): Promise<void> {
+    this.lastSeen = Date.now();
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive', 'Mcp-Session-Id': this.sessionId });
+    res.flushHeaders();
+    this.stream = res;
+    const keepalive = setInterval(() => { if(!res.writableEnded) res.write(': keepalive\n\n'); }, SSE_KEEPALIVE_MS);
+    keepalive.unref?.();
+    res.on('close', () => {
+      clearInterval(keepalive);
+      if(this.stream === res){ this.stream = null; this.lastSeen = Date.now(); }
+    });
+    const queued = this.queue; this.queue = [];
+    for(const message of queued) await writeEvent(res, message);
+  }
+
+  private dispatch(message: JsonRpcMessage): void {
+    const tenant = this.identity.tenant ?? getRuntimeConfig().tenants.defaultTenant ?? null;
+    const caller: Caller = this.identity.caller ?? { id: 'anonymous', source: 'anonymous', clearance: getRuntimeConfig().access.defaultClearance };
+    try {
+      runAsCaller(caller, () => runInTenant(tenant, () => this.onmessage?.(message)));
+    } catch(e){
+      this.onerror?.(e instanceof Error ? e : new Error(String(e)));
+    }
+  }
+
+  private async finishPost(post: PendingPost): Promise<void> {
+    if(post.res.writableEnded) return;
+    if(post.sse){ post.res.end(); return; }
+    if(post.res.headersSent) return;
+    const body = post.responses.length === 1 ? post.responses[0] : post.responses;
+    await new Promise<void>(resolve => {
+      post.res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': this.sessionId });
+      post.res.end(JSON.stringify(body), () => resolve());
+    });
+  }
+}
+
+export interface HttpTransportOptions {
+  host?: string;
+  port?: number;
+  /** Protocol versions accepted in the MCP-Protocol-Version header. */
+  protocolVersions: string[];
+  /** Create and connect the SDK server for a new session. */
+  connect: (transport: StreamableHttpSessionTransport) => Promise<void>;
+}
+
+export interface HttpTransportHandle { url: string; port: number; sessionCount: () => number; close: () => Promise<void> }
+
+function originAllowed(origin: string | undefined): boolean {
+  if(!origin) return true; // non-browser clients send no Origin
+  const allowed = getRuntimeConfig().server.http.allowedOrigins;
+  if(allowed.length) return allowed.includes('*') || allowed.includes(origin);
+  try { return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(origin).hostname); } catch { return false; }
+}
+
+type Authentication = { caller: Caller; tenant?: string; credential: string } | { error: 'invalid_token' | 'invalid_tenant' } | undefined;
+
+/** The request's bearer token mapped through MCP_ACCESS_TOKENS (undefined when the request carries none). */
+function authenticate(req: http.IncomingMessage): Authentication {
+  const auth = req.headers.authorization;
+  if(!auth) return undefined;
+  const token = /^bearer\s+/i.test(auth) ? auth.replace(/^bearer\s+/i, '').trim() : '';
+  const mapped = accessTokenEntry(token);
+  if(!mapped) return { error: 'invalid_token' };
+  let tenant: string | undefined;
+  if(mapped.tenant){
+    const resolved = resolveTenant(mapped.tenant);
+    if('error' in resolved) return { error: 'invalid_tenant' };
+    tenant = resolved.tenant;
+  }
+  const credential = crypto.createHash('sha256').update(token).digest('hex');
+  return { caller: { id: mapped.id, source: 'mcp', clearance: mapped.clearance }, tenant, credential };
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []; let size = 0;
+    req.on('data', (c: Buffer) => {
+      size += c.length;
+      if(size > MAX_BODY_BYTES){ reject(new Error('body too large')); req.destroy(); return; }
+      chunks.push(c);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+export async function startHttpTransport(options: HttpTransportOptions): Promise<HttpTransportHandle> {
+  const cfg = getRuntimeConfig().server.http;
+  const sessions = new Map<string, StreamableHttpSessionTransport>();
+
+  const endSession = async (id: string, reason: string) => {
+    const transport = sessions.get(id);
+    if(!transport) return;
+    sessions.delete(id);
+    await transport.close();
+    logInfo('[http-transport] session closed', { session: id, reason, sessions: sessions.size });
+  };
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if(url.pathname !== cfg.path) return sendError(res, 404, -32000, 'Not found');
+    if(!originAllowed(req.headers.origin)) return sendError(res, 403, -32000, 'Origin not allowed');
+    const accept = String(req.headers.accept || '');
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const protocolVersion = req.headers['mcp-protocol-version'];
+    if(typeof protocolVersion === 'string' && !options.protocolVersions.includes(protocolVersion)){
+      return sendError(res, 400, -32000, `Unsupported MCP-Protocol-Version: ${protocolVersion}`);
+    }
+    const auth = authenticate(req);
+    if(auth && 'error' in auth){
+      if(auth.error === 'invalid_tenant') return sendError(res, 403, -32000, 'Forbidden: the token\'s tenant is not configured');
+      return sendError(res, 401, -32000, 'Unauthorized: unknown bearer token', { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+    }
+    if(!auth && cfg.requireAuth) return sendError(res, 401, -32000, 'Unauthorized: bearer token required', { 'WWW-Authenticate': 'Bearer' });
+    // A session only answers to the credential it was opened with
+    const sessionFor = (id: string) => {
+      const transport = sessions.get(id);
+      return transport && transport.credential !== auth?.credential ? 'forbidden' : transport;
+    };
+
+    if(req.method === 'POST'){
+      let messages: JsonRpcMessage[];
+      try {
+        const parsed = JSON.parse(await readBody(req));
+        messages = Array.isArray(parsed) ? parsed : [parsed];
+      } catch {
+        return sendError(res, 400, -32700, 'Parse error');
+      }
+      if(!messages.length || messages.some(m => !m || typeof m !== 'object' || m.jsonrpc !== '2.0')) return sendError(res, 400, -32600, 'Invalid Request');
+      const sse = !cfg.jsonResponse && accept.includes('text/event-stream');
+      const initialize = messages.some(m => m.method === 'initialize');
+      let transport: StreamableHttpSessionTransport | undefined;
+      if(sessionId){
+        const found = sessionFor(sessionId);
+        if(found === 'forbidden') return sendError(res, 403, -32000, 'Forbidden: session belongs to another credential');
+        if(!found) return sendError(res, 404, -32001, 'Session not found');
+        transport = found;
+      } else {
+        if(!initialize) return sendError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+        if(messages.length > 1) return sendError(res, 400, -32600, 'Invalid Request: initialize must not be batched');
+        if(sessions.size >= cfg.maxSessions) return sendError(res, 503, -32000, 'Too many sessions');
+        transport = new StreamableHttpSessionTransport(crypto.randomUUID(), { caller: auth?.caller, tenant: auth?.tenant }, auth?.credential);
+        // Registered up front so concurrent initializes count toward maxSessions; dropped again if connect fails
+        // (the request handler answers 500)
+        sessions.set(transport.sessionId, transport);
+        try { await options.connect(transport); } catch(e){ await endSession(transport.sessionId, 'connect-failed'); throw e; }
+        logInfo('[http-transport] session opened', { session: transport.sessionId, caller: auth?.caller.id ?? 'anonymous', sessions: sessions.size });
+      }
+      transport.handlePost(messages, res, sse);
+      return;
+    }
+
+    if(req.method === 'GET'){
+      if(!accept.includes('text/event-stream')) return sendError(res, 406, -32000, 'Not Acceptable: client must accept text/event-stream');
+      if(!sessionId) return sendError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+      const transport = sessionFor(sessionId);
+      if(transport === 'forbidden') return sendError(res, 403, -32000, 'Forbidden: session belongs to another credential');
+      if(!transport) return sendError(res, 404, -32001, 'Session not found');
+      if(transport.hasStream) return sendError(res, 409, -32000, 'Conflict: SSE stream already open for this session');
+      await transport.openStream(res);
+      return;
+    }
+
+    if(req.method === 'DELETE'){
+      if(!sessionId) return sendError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+      const transport = sessionFor(sessionId);
+      if(transport === 'forbidden') return sendError(res, 403, -32000, 'Forbidden: session belongs to another credential');
+      if(!transport) return sendError(res, 404, -32001, 'Session not found');
+      await endSession(sessionId, 'client');
+      res.writeHead(200).end();
+      return;
+    }
+
+    sendError(res, 405, -32000, 'Method not allowed', { Allow: 'GET, POST, DELETE' });
+  };
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch(e => {
+      logWarn('[http-transport] request failed', { method: req.method, error: e instanceof Error ? e.message : String(e) });
+      sendError(res, 500, -32603, 'Internal error');
+    });
+  });
+
+  // Sessions without an open stream expire after MCP_HTTP_SESSION_IDLE_MS without requests
+  const sweep = cfg.sessionIdleMs > 0 ? setInterval(() => {
+    const cutoff = Date.now() - cfg.sessionIdleMs;
+    for(const [id, t] of sessions) if(!t.hasStream && t.lastSeen < cutoff) void endSession(id, 'idle');
+  }, Math.min(cfg.sessionIdleMs, 60_000)) : null;
+  sweep?.unref?.();
+
+  const host = options.host ?? cfg.host;
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? cfg.port, host, () => { server.off('error', reject); resolve(); });
+  });
+  const port = (server.address() as AddressInfo).port;
+  return {
+    url: `http://${host.includes(':') ? `[${host}]` : host}:${port}${cfg.path}`,
+    port,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      if(sweep) clearInterval(sweep);
+      for(const id of [...sessions.keys()]) await endSession(id, 'shutdown');
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  };
+}
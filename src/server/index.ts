@@ -51,7 +51,7 @@ function __earlyCapture(chunk: Buffer){
 try { if(__bufferEnabled) process.stdin.on('data', __earlyCapture); } catch { /* ignore */ }
 
 import { listRegisteredMethods } from './registry';
-import { startSdkServer } from './sdkServer';
+import { startSdkServer, startSdkHttpServer } from './sdkServer';
 import '../services/handlers.instructions';
 import '../services/handlers.search';
 // Register unified dispatcher (was missing causing instructions/dispatch tests to timeout)
@@ -61,6 +61,7 @@ import '../services/handlers.usage';
 import '../services/handlers.prompt';
 import '../services/handlers.metrics';
 import '../services/handlers.gates';
+import '../services/handlers.review';
 import '../services/handlers.testPrimitive';
 import '../services/handlers.diagnostics';
 import '../services/handlers.feedback';
@@ -68,6 +69,8 @@ import '../services/handlers.help';
 import '../services/handlers.bootstrap';
 import { getCatalogState, diagnoseInstructionsDir, startCatalogVersionPoller } from '../services/catalogContext';
 import { autoSeedBootstrap } from '../services/seedBootstrap';
+import { startReviewDigestScheduler } from '../services/reviewSchedule';
+import { startBackupScheduler } from '../services/catalogBackup';
 import { createDashboardServer } from '../dashboard/server/DashboardServer.js';
 import { getMetricsCollector } from '../dashboard/server/MetricsCollector.js';
 import { getMemoryMonitor } from '../utils/memoryMonitor';
@@ -174,6 +177,8 @@ MCP TRANSPORT (Client Communication):
   Purpose: VS Code, Claude, and other MCP clients
   Security: Process-isolated, no network exposure
 
+  Optional: Streamable HTTP (MCP spec) so many clients share one server (MCP_HTTP_TRANSPORT=1)
+
 ADMIN DASHBOARD (Optional):
   --dashboard              Enable read-only admin dashboard (default off)
   --dashboard-port=PORT    Dashboard port (default 8787)
@@ -187,6 +192,10 @@ ENVIRONMENT VARIABLES:
   MCP_DASHBOARD_PORT=PORT  Dashboard port (default 8787)
   MCP_DASHBOARD_HOST=HOST  Dashboard host (default 127.0.0.1)
   MCP_DASHBOARD_TRIES=N    Port retry attempts (default 10)
+  MCP_HTTP_TRANSPORT=1     Enable the Streamable HTTP transport
+  MCP_HTTP_PORT=PORT       HTTP transport port (default 8788)
+  MCP_HTTP_HOST=HOST       HTTP transport host (default 127.0.0.1)
+  MCP_HTTP_PATH=PATH       HTTP endpoint path (default /mcp)
   
   Other environment variables:
   MCP_LOG_VERBOSE=1        Verbose RPC/transport logging
@@ -199,7 +208,7 @@ GENERAL:
   (legacy transport removed; SDK only)
 
 IMPORTANT:
-- MCP clients connect via stdio only, not HTTP dashboard
+- MCP clients connect via stdio (or the opt-in HTTP transport), not the HTTP dashboard
 - Dashboard is for admin monitoring, not client communication
 - All MCP protocol frames output to stdout; logs to stderr
 - Command line arguments override environment variables`;
@@ -388,6 +397,16 @@ export async function main(){
     } catch { /* ignore */ }
   }
   await startSdkServer();
+  // Opt-in Streamable HTTP transport: additional clients share this process's catalog state.
+  let httpTransportUrl: string | undefined;
+  if(runtime.server.http.enabled){
+    try {
+      httpTransportUrl = (await startSdkHttpServer()).url;
+      process.stderr.write(`[startup] MCP HTTP transport listening on ${httpTransportUrl}\n`);
+    } catch(e){
+      process.stderr.write(`[startup] MCP HTTP transport failed to start (check port ${runtime.server.http.port}): ${(e instanceof Error)? e.message: String(e)}\n`);
+    }
+  }
   // Auto-confirm bootstrap (test harness opt-in). Executed after SDK start so catalog state
   // exists; harmless if already confirmed or non-bootstrap instructions present.
   try {
@@ -410,6 +429,21 @@ export async function main(){
       try { process.stderr.write('[startup] catalog version poller not enabled (set MCP_ENABLE_CATALOG_POLLER=1)\n'); } catch { /* ignore */ }
     }
   } catch { /* ignore */ }
+  // Daily review digest (opt-in): overdue / upcoming reviews per owner written to MCP_REVIEW_DIGEST_DIR.
+  try {
+    if(runtime.review.digest.enabled){
+      startReviewDigestScheduler();
+      if(runtime.logging.diagnostics){ try { process.stderr.write(`[startup] review digest scheduler started dir=${runtime.review.digest.dir}\n`); } catch { /* ignore */ } }
+    }
+  } catch { /* ignore */ }
+  // Scheduled incremental catalog backups with retention (opt-in via MCP_BACKUP_INTERVAL_MS).
+  try {
+    const backup = runtime.dashboard.admin.backup;
+    if(backup.intervalMs > 0){
+      startBackupScheduler();
+      if(runtime.logging.diagnostics){ try { process.stderr.write(`[startup] backup scheduler started intervalMs=${backup.intervalMs} retain=${backup.retain} maxAgeDays=${backup.maxAgeDays}\n`); } catch { /* ignore */ } }
+    }
+  } catch { /* ignore */ }
   // Mark SDK ready & replay any buffered stdin chunks exactly once.
   __sdkReady = true;
   if(__bufferEnabled){
@@ -444,7 +478,7 @@ export async function main(){
       try { process.stderr.write(`[handshake-buffer] replay skipped (no buffered chunks)\n`); } catch { /* ignore */ }
     }
   }
-  process.stderr.write('[startup] SDK server started (stdio only)\n');
+  process.stderr.write(`[startup] SDK server started (${httpTransportUrl ? 'stdio + http' : 'stdio only'})\n`);
   try { logInfo('server_started', { pid: process.pid, logFile: runtime.logging.file }); } catch { /* ignore */ }
 }
 
@@ -11,6 +11,13 @@ import { getHandler } from './registry';
 // (Ajv based direct-method validation removed in 1.0.0 along with legacy per-tool direct handlers)
 import { z } from 'zod';
 import { getRuntimeConfig } from '../config/runtimeConfig';
+import { listInstructionResources, readInstructionResource, ResourceSubscriptionTracker } from '../services/instructionResources';
+import { onCatalogVersionChange } from '../services/catalogContext';
+import { listInstructionPrompts, getInstructionPrompt, promptListSignature } from '../services/instructionPrompts';
+import { Caller, setSessionClient } from '../services/accessControl';
+import { resolveTenant, setSessionTenant, tenantForClient } from '../services/tenantContext';
+import { logWarn } from '../services/logger';
+import { startHttpTransport } from './httpTransport';
 
 // ESM dynamic import used below for SDK modules.
 // Use export map subpaths (do NOT prefix with dist/ or it will duplicate to dist/dist/...)
@@ -131,11 +138,51 @@ function emitReadyGlobal(server: any, reason: string){
       try { process.stdout.write(JSON.stringify(msg)+'\n'); dispatched = true; } catch { /* ignore */ }
     }
   // Always follow with tools/list_changed AFTER ready to guarantee ordering.
-  try { if(typeof (server as any).sendToolListChanged === 'function'){ (server as any).sendToolListChanged(); record('list_changed_after_ready'); } } catch { /* ignore */ }
+  // The transport may close before this runs (HTTP session deleted right after initialize): the send then rejects.
+  try { if(typeof (server as any).sendToolListChanged === 'function'){ Promise.resolve((server as any).sendToolListChanged()).catch(() => {}); record('list_changed_after_ready'); } } catch { /* ignore */ }
   } catch { /* ignore */ }
 }
 
-export function createSdkServer(ServerClass: any) {
+// Wrap a transport's send so server/ready follows the initialize result only after that frame was written
+// (same ordering rule as the stdio transport hook in startSdkServer, for transports created per session).
+function emitReadyAfterInitializeSent(server: any, transport: any, reason: string){
+  const origSend = transport.send.bind(transport);
+  const origClose = transport.close.bind(transport);
+  let readyTimer: NodeJS.Timeout | undefined;
+  let closed = false;
+  transport.send = (msg: any) => {
+    const sendPromise = origSend(msg);
+    if(msg && typeof msg === 'object' && 'id' in msg && msg.result?.protocolVersion && !server.__readyNotified){
+      server.__sawInitializeRequest = true;
+      sendPromise.then(() => {
+        if(closed) return;
+        server.__initResponseSent = true;
+        readyTimer = setTimeout(() => { readyTimer = undefined; if(!closed) emitReadyGlobal(server, reason); }, 0);
+      }).catch(() => {});
+    }
+    return sendPromise;
+  };
+  // A session closed before the ready timer fired gets no server/ready (its sends would reject: Not connected)
+  transport.close = () => {
+    closed = true;
+    if(readyTimer){ clearTimeout(readyTimer); readyTimer = undefined; }
+    return origClose();
+  };
+}
+
+// Capabilities advertised both to the SDK constructor (handler registration asserts against these)
+// and in the explicit initialize result below.
+const SERVER_CAPABILITIES = { tools: { listChanged: true }, resources: { subscribe: true, listChanged: true }, prompts: { listChanged: true } };
+
+/**
+ * Per-session identity for transports serving several clients from one process (HTTP). The transport fills it
+ * from the session's credential and applies it to each request it dispatches; when it is passed to
+ * createSdkServer, initialize leaves the caller and tenant alone (clientInfo.name and `_meta.tenant` only select
+ * them for the process-wide stdio session).
+ */
+export interface McpSessionIdentity { caller?: Caller; tenant?: string }
+
+export function createSdkServer(ServerClass: any, session?: McpSessionIdentity) {
   // Derive version from package.json (no artificial suffix so clients see real semantic version)
   let version = '0.0.0';
   try {
@@ -144,7 +191,7 @@ export function createSdkServer(ServerClass: any) {
       const raw = JSON.parse(fs.readFileSync(pkgPath,'utf8')); if(raw.version) version = raw.version;
     }
   } catch { /* ignore */ }
-  const server: any = new ServerClass({ name: 'mcp-index-server', version }, { capabilities: { tools: { listChanged: true } }});
+  const server: any = new ServerClass({ name: 'mcp-index-server', version }, { capabilities: SERVER_CAPABILITIES });
   // expose version for later patched initialize hook in startSdkServer
   (server as any).__declaredVersion = version;
 
@@ -159,7 +206,9 @@ export function createSdkServer(ServerClass: any) {
           (server as any).__pendingListChanged = true; record('buffer_list_changed_pre_ready');
           return; // swallow for now
         }
-        return origSendToolListChanged(...a);
+        const sent = origSendToolListChanged(...a);
+        sent?.catch?.(() => {}); // a closed transport rejects; callers awaiting the promise still see it
+        return sent;
       };
     }
   } catch { /* ignore */ }
@@ -201,13 +250,25 @@ export function createSdkServer(ServerClass: any) {
   (server as any).__sawInitializeRequest = true;
   record('initialize_received', { requestedProtocol: req?.params?.protocolVersion });
   const requested = req?.params?.protocolVersion as string | undefined;
+      // stdio: clientInfo.name selects the read clearance (MCP_CLIENT_CLEARANCE)
+      const clientName = typeof req?.params?.clientInfo?.name === 'string' && req.params.clientInfo.name.trim() ? req.params.clientInfo.name.trim() : undefined;
+      if(!session) setSessionClient(clientName);
+      // stdio: _meta.tenant (or the client name through MCP_CLIENT_TENANTS) selects the catalog; unusable values keep MCP_TENANT
+      if(!session && getRuntimeConfig().tenants.enabled){
+        const requestedTenant = req?.params?._meta?.tenant ?? tenantForClient(clientName);
+        if(requestedTenant !== undefined){
+          const resolved = resolveTenant(requestedTenant);
+          if(!('tenant' in resolved)) logWarn('[tenant] initialize tenant rejected', { tenant: String(requestedTenant), error: resolved.error });
+          else setSessionTenant(resolved.tenant);
+        }
+      }
       const negotiated = negotiateProtocolVersion(requested);
       const versionDeclared = (server as any).__declaredVersion || (server as any).version || '0.0.0';
       const result: any = {
         protocolVersion: negotiated,
         serverInfo: { name: 'mcp-index-server', version: versionDeclared },
-        capabilities: { tools: { listChanged: true } },
-        instructions: 'Use initialize -> tools/list -> tools/call { name, arguments }. Health: tools/call health/check. Metrics: tools/call metrics/snapshot. Ping: ping.'
+        capabilities: SERVER_CAPABILITIES,
+        instructions: 'Use initialize -> tools/list -> tools/call { name, arguments }. Health: tools/call health/check. Metrics: tools/call metrics/snapshot. Ping: ping. Resources: resources/list, resources/read instruction://<id>. Prompts: prompts/list, prompts/get.'
       };
   initFrameLog('handler_return', { negotiated });
   // NOTE: Do NOT emit ready here. We rely exclusively on the transport send hook
@@ -217,7 +278,7 @@ export function createSdkServer(ServerClass: any) {
       return result;
     } catch {
       // On unexpected error fall back to minimal shape so tests still proceed
-      return { protocolVersion: SUPPORTED_PROTOCOL_VERSIONS[0], serverInfo:{ name:'mcp-index-server', version:'0.0.0' }, capabilities:{ tools:{ listChanged:true } }, instructions:'init fallback' };
+      return { protocolVersion: SUPPORTED_PROTOCOL_VERSIONS[0], serverInfo:{ name:'mcp-index-server', version:'0.0.0' }, capabilities: SERVER_CAPABILITIES, instructions:'init fallback' };
     }
   });
   // (Legacy internal _oninitialize patch remains below but will not trigger because we now intercept initialize directly.)
@@ -289,6 +350,62 @@ export function createSdkServer(ServerClass: any) {
     return { timestamp: new Date().toISOString(), uptimeMs: Math.round(process.uptime() * 1000) };
   });
 
+  // MCP resources: every catalog entry is exposed as instruction://<id>. Subscriptions are per server;
+  // catalog version changes (local touchCatalogVersion or cross-process poller) are debounced and then
+  // diffed so only subscribed URIs receive notifications/resources/updated. Prompt-eligible entries are
+  // re-signed on the same trigger to emit notifications/prompts/list_changed. Like tools/list_changed,
+  // nothing is emitted before server/ready.
+  const resourceTracker = new ResourceSubscriptionTracker({
+    resourceUpdated: (uri: string) => { if((server as any).__readyNotified){ (server as any).sendResourceUpdated?.({ uri })?.catch?.(()=>{}); } },
+    listChanged: () => { if((server as any).__readyNotified){ (server as any).sendResourceListChanged?.()?.catch?.(()=>{}); } }
+  });
+  (server as any).__resourceTracker = resourceTracker;
+  let promptSignature: string | null = null; // captured at first prompts/list (lazy, like resource revisions)
+  const checkPromptListChanged = () => {
+    if(promptSignature === null) return;
+    const next = promptListSignature();
+    if(next !== promptSignature){
+      promptSignature = next;
+      if((server as any).__readyNotified){ (server as any).sendPromptListChanged?.()?.catch?.(()=>{}); }
+    }
+  };
+  let resourceNotifyTimer: NodeJS.Timeout | null = null;
+  const stopCatalogListener = onCatalogVersionChange(() => {
+    if(resourceNotifyTimer) return; // coalesce bursts (e.g. import of many entries)
+    resourceNotifyTimer = setTimeout(() => {
+      resourceNotifyTimer = null;
+      try { resourceTracker.onCatalogChanged(); } catch { /* ignore */ }
+      try { checkPromptListChanged(); } catch { /* ignore */ }
+    }, getRuntimeConfig().server.resources.notifyDebounceMs);
+    resourceNotifyTimer.unref?.();
+  });
+  try {
+    const prevOnClose = (server as any).onclose;
+    (server as any).onclose = () => {
+      stopCatalogListener();
+      if(resourceNotifyTimer){ clearTimeout(resourceNotifyTimer); resourceNotifyTimer = null; }
+      try { prevOnClose?.(); } catch { /* ignore */ }
+    };
+  } catch { /* ignore */ }
+
+  server.setRequestHandler(requestSchema('resources/list'), async (req: { params?: { cursor?: string } }) => {
+    const out = listInstructionResources({ cursor: req?.params?.cursor });
+    resourceTracker.ensureBaseline();
+    return out;
+  });
+  server.setRequestHandler(requestSchema('resources/templates/list'), async () => ({
+    resourceTemplates: [{ uriTemplate: 'instruction://{id}', name: 'Instruction by id', description: 'Instruction body (markdown) for a catalog entry id', mimeType: 'text/markdown' }]
+  }));
+  server.setRequestHandler(requestSchema('resources/read'), async (req: { params?: { uri?: string } }) => readInstructionResource(req?.params?.uri));
+  server.setRequestHandler(requestSchema('resources/subscribe'), async (req: { params?: { uri?: string } }) => { resourceTracker.subscribe(req?.params?.uri); return {}; });
+  server.setRequestHandler(requestSchema('resources/unsubscribe'), async (req: { params?: { uri?: string } }) => { resourceTracker.unsubscribe(req?.params?.uri); return {}; });
+  server.setRequestHandler(requestSchema('prompts/list'), async () => {
+    const out = listInstructionPrompts();
+    if(promptSignature === null){ try { promptSignature = promptListSignature(); } catch { /* ignore */ } }
+    return out;
+  });
+  server.setRequestHandler(requestSchema('prompts/get'), async (req: { params?: { name?: string; arguments?: Record<string, unknown> } }) => getInstructionPrompt(req?.params?.name, req?.params?.arguments));
+
   // (initialize patch no longer required because we supply explicit handler above)
 
   return server;
@@ -962,3 +1079,22 @@ export async function startSdkServer() {
     }, 100).unref?.();
   }
 }
+
+/**
+ * Start the opt-in Streamable HTTP transport (MCP_HTTP_TRANSPORT). Runs alongside stdio in the same process, so
+ * every HTTP session reads and writes the one shared catalog state; each session gets its own SDK server and
+ * handshake state.
+ */
+export async function startSdkHttpServer(opts: { host?: string; port?: number; ServerClass?: any } = {}) {
+  const ServerClass = opts.ServerClass ?? (await dynamicImport('@modelcontextprotocol/sdk/server/index.js')).Server;
+  return startHttpTransport({
+    host: opts.host,
+    port: opts.port,
+    protocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
+    connect: async transport => {
+      const server = createSdkServer(ServerClass, transport.identity);
+      emitReadyAfterInitializeSent(server, transport, 'http-transport-send-hook');
+      await server.connect(transport);
+    }
+  });
+}
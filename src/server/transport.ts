@@ -7,7 +7,8 @@
  * Security: Process-isolated communication with no network exposure.
  * Protocol: JSON-RPC 2.0 line-delimited over stdin/stdout streams.
  * 
- * Note: The optional HTTP dashboard is implemented separately and is for admin use only.
+ * Note: The optional HTTP dashboard is implemented separately and is for admin use only. Multi-client network
+ * access is the opt-in Streamable HTTP transport (httpTransport.ts), not this module.
  */
 import { createInterface } from 'readline';
 import { validateParams } from '../services/validationService';
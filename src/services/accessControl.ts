@@ -0,0 +1,144 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { InstructionEntry } from '../models/instruction';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { CatalogState, ensureLoaded } from './catalogContext';
+import { logAudit } from './auditLog';
+import { incrementCounter } from './features';
+import { logWarn } from './logger';
+import { FullTextHit, FullTextSearchOptions, searchFullText } from './searchIndex';
+
+/**
+ * Classification-aware read access (MCP_ACCESS_CONTROL).
+ *
+ * A caller's clearance comes from the MCP client name sent in initialize over stdio (or MCP_AGENT_ID), mapped
+ * through MCP_CLIENT_CLEARANCE, or from the dashboard / MCP HTTP bearer token (MCP_ACCESS_TOKENS). Entries whose classification is
+ * above the clearance are left out of reads (`filter`) or returned with their content removed (`redact`).
+ * readableCatalog() is the catalog view every read path uses; targeted reads of a hidden entry (get, export by id,
+ * history, resources/read, ...) are audit logged as `accessDenied`.
+ */
+
+export type Clearance = 'public' | 'internal' | 'restricted';
+export interface Caller { id: string; source: 'mcp' | 'dashboard' | 'agent' | 'anonymous'; clearance: Clearance }
+export interface AccessTokenEntry { id: string; clearance: Clearance; tenant?: string }
+
+const RANK: Record<Clearance, number> = { public: 0, internal: 1, restricted: 2 };
+
+const callerScope = new AsyncLocalStorage<Caller>();
+// stdio serves one client per process, so the name from initialize identifies every later call (HTTP sessions
+// run each request through runAsCaller() with the caller of their bearer token instead)
+let sessionClient: string | undefined;
+
+export function setSessionClient(name: string | undefined): void { sessionClient = name && name.trim() ? name.trim() : undefined; }
+
+export function clearanceFor(id: string | undefined): Clearance {
+  const cfg = getRuntimeConfig().access;
+  return (id && Object.hasOwn(cfg.clients, id) && cfg.clients[id]) || cfg.defaultClearance;
+}
+
+/** Run fn with an explicit caller (dashboard requests); async work started inside keeps it. */
+export function runAsCaller<T>(caller: Caller, fn: () => T): T { return callerScope.run(caller, fn); }
+
+/** Caller for an MCP client name from initialize (anonymous when the client sent none). */
+export function callerForClient(name: string | undefined): Caller {
+  return name ? { id: name, source: 'mcp', clearance: clearanceFor(name) } : { id: 'anonymous', source: 'anonymous', clearance: getRuntimeConfig().access.defaultClearance };
+}
+
+/** MCP_ACCESS_TOKENS entry for a bearer token (own keys only, so "constructor" or "__proto__" never match). */
+export function accessTokenEntry(token: string | undefined): AccessTokenEntry | undefined {
+  const tokens = getRuntimeConfig().access.tokens;
+  return token && Object.hasOwn(tokens, token) ? tokens[token] : undefined;
+}
+
+export function callerForToken(token: string | undefined): Caller {
+  const cfg = getRuntimeConfig().access;
+  const mapped = accessTokenEntry(token);
+  return mapped ? { id: mapped.id, source: 'dashboard', clearance: mapped.clearance } : { id: 'anonymous', source: 'dashboard', clearance: cfg.defaultClearance };
+}
+
+export function currentCaller(): Caller {
+  const scoped = callerScope.getStore();
+  if(scoped) return scoped;
+  if(sessionClient) return { id: sessionClient, source: 'mcp', clearance: clearanceFor(sessionClient) };
+  const agentId = getRuntimeConfig().instructions.agentId;
+  if(agentId) return { id: agentId, source: 'agent', clearance: clearanceFor(agentId) };
+  return { id: 'anonymous', source: 'anonymous', clearance: getRuntimeConfig().access.defaultClearance };
+}
+
+// The classifier defaults unclassified entries to internal
+function classificationOf(entry: Pick<InstructionEntry, 'classification'>): Clearance { return entry.classification || 'internal'; }
+
+export function canRead(entry: Pick<InstructionEntry, 'classification'>, caller: Caller = currentCaller()): boolean {
+  if(!getRuntimeConfig().access.enabled) return true;
+  return RANK[classificationOf(entry)] <= RANK[caller.clearance];
+}
+
+/** Redact-mode stand-in: metadata stays, content fields are removed. */
+export function redactEntry(entry: InstructionEntry): InstructionEntry {
+  const out: InstructionEntry = { ...entry, body: `[REDACTED:${classificationOf(entry)}]` };
+  delete out.rationale; delete out.semanticSummary; delete out.promptArguments; delete out.scanFindings;
+  return out;
+}
+
+/** Cache key for views derived from readableCatalog() (empty when access control is off). */
+export function accessViewKey(caller: Caller = currentCaller()): string {
+  const cfg = getRuntimeConfig().access;
+  return cfg.enabled ? `${caller.clearance}:${cfg.mode}` : '';
+}
+
+const views = new WeakMap<CatalogState, Map<string, CatalogState>>();
+
+/** The loaded catalog as the current caller may see it (the catalog itself when access control is off). */
+export function readableCatalog(): CatalogState {
+  const st = ensureLoaded();
+  const cfg = getRuntimeConfig().access;
+  if(!cfg.enabled) return st;
+  const caller = currentCaller();
+  if(caller.clearance === 'restricted') return st;
+  const key = accessViewKey(caller);
+  let byKey = views.get(st);
+  if(!byKey){ byKey = new Map(); views.set(st, byKey); }
+  const cached = byKey.get(key);
+  if(cached) return cached;
+  const list: InstructionEntry[] = [];
+  let hidden = 0;
+  for(const e of st.list){
+    if(canRead(e, caller)){ list.push(e); continue; }
+    hidden++;
+    if(cfg.mode === 'redact') list.push(redactEntry(e));
+  }
+  const view: CatalogState = hidden ? { ...st, list, byId: new Map(list.map(e => [e.id, e])) } : st;
+  byKey.set(key, view);
+  return view;
+}
+
+/**
+ * Full-text hits as the current caller may see them. The shared index always covers the whole catalog (a
+ * per-caller view would force a rebuild whenever clearances alternate); entries above the clearance are
+ * skipped in filter mode and matched on title / categories / owner only in redact mode.
+ */
+export function readableFullTextSearch(q: string, opts: FullTextSearchOptions = {}): FullTextHit[] {
+  const st = ensureLoaded();
+  const cfg = getRuntimeConfig().access;
+  if(!cfg.enabled) return searchFullText(st.list, q, opts);
+  const caller = currentCaller();
+  const limited = cfg.mode === 'redact' ? 'metadata' : 'none';
+  return searchFullText(st.list, q, { ...opts, visibility: id => { const e = st.byId.get(id); return !e || canRead(e, caller) ? 'full' : limited; } });
+}
+
+/** Audit targeted reads of entries above the caller's clearance; returns the denied ids. */
+export function recordDeniedReads(op: string, ids: string[], caller: Caller = currentCaller()): string[] {
+  if(!getRuntimeConfig().access.enabled || !ids.length) return [];
+  const all = ensureLoaded().byId;
+  const denied = ids.filter(id => { const e = all.get(id); return !!e && !canRead(e, caller); });
+  if(!denied.length) return denied;
+  incrementCounter('access:denied', denied.length);
+  logAudit('accessDenied', denied, { op, caller: caller.id, source: caller.source, clearance: caller.clearance });
+  logWarn('[access] read denied', { op, ids: denied, caller: caller.id, clearance: caller.clearance });
+  return denied;
+}
+
+/** A single entry as the current caller may see it: itself, its redacted stand-in, or undefined (filter mode). */
+export function readableEntry(entry: InstructionEntry, caller: Caller = currentCaller()): InstructionEntry | undefined {
+  if(canRead(entry, caller)) return entry;
+  return getRuntimeConfig().access.mode === 'redact' ? redactEntry(entry) : undefined;
+}
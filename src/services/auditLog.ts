@@ -1,16 +1,28 @@
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
 import { getRuntimeConfig } from '../config/runtimeConfig';
+import { getInstructionsDir } from './catalogContext';
+import { commitCatalogChange } from './catalogGit';
+import { currentTenant, tenantScopedPath } from './tenantContext';
+import { ManifestSignature, signingEnabled, signPayload, verifyPayload } from './catalogSigning';
 
 // Lightweight append-only JSONL transaction log for instruction catalog mutations.
 // Each line: { ts, action, ids?, meta? }
 // Path and enablement are driven by runtime configuration (instructions.auditLog).
+// When catalog git history is enabled (catalog.git) each entry also becomes the message of a
+// commit capturing the mutation's content changes, independent of JSONL logging.
+// With multi-tenant catalogs each tenant logs to <log dir>/tenants/<tenant>/<log file>.
+// Lines are hash-chained (instructions.auditLog.chain): `prev` is the previous line's hash and `hash` covers
+// prev plus the rest of the line, so an edited, inserted or deleted line breaks the chain. <log file>.head
+// holds the latest hash (signed when manifest signing is on) so a truncated tail is detected as well.
 
 let cachedKey: string | undefined;
 let cachedPath: string | null | undefined;
 function resolveLogPath(){
   const { auditLog } = getRuntimeConfig().instructions;
-  const key = auditLog.enabled && auditLog.file ? `on:${auditLog.file}` : 'off';
+  const tenant = currentTenant();
+  const key = auditLog.enabled && auditLog.file ? `on:${auditLog.file}:${tenant ?? ''}` : 'off';
   if(cachedKey === key && cachedPath !== undefined){
     return cachedPath;
   }
@@ -20,7 +32,7 @@ function resolveLogPath(){
     cachedPath = null;
     return cachedPath;
   }
-  const file = auditLog.file;
+  const file = tenantScopedPath(auditLog.file, tenant);
   try {
     const dir = path.dirname(file);
     if(!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
@@ -42,16 +54,64 @@ export interface AuditEntry {
   action: string; // mutation action name
   ids?: string[]; // impacted instruction ids (if any)
   meta?: Record<string, unknown>; // lightweight result summary (counts, flags)
+  prev?: string; // hash of the previous line ('' for the first line)
+  hash?: string; // sha256(prev + JSON of the line without hash)
+}
+
+interface AuditHead { hash: string; ts: string; signature?: ManifestSignature }
+
+const sha256 = (text: string) => crypto.createHash('sha256').update(text, 'utf8').digest('hex');
+const headPath = (file: string) => file + '.head';
+
+// Lines written before chaining (or by a process with chaining off) link through the hash of their text
+function lineHash(line: string): string {
+  try { const parsed = JSON.parse(line) as AuditEntry; if(typeof parsed.hash === 'string') return parsed.hash; } catch { /* unparseable: hash the text */ }
+  return sha256(line);
+}
+
+function lastLineHash(file: string): string {
+  let text = '';
+  try {
+    const size = fs.statSync(file).size;
+    if(!size) return '';
+    const fd = fs.openSync(file, 'r');
+    try {
+      const len = Math.min(size, 64 * 1024);
+      const buf = Buffer.alloc(len);
+      fs.readSync(fd, buf, 0, len, size - len);
+      text = buf.toString('utf8');
+      // a tail chunk without a line break before the last line may have cut it: read the whole file
+      if(len < size && text.trimEnd().indexOf('\n') < 0) text = fs.readFileSync(file, 'utf8');
+    } finally { fs.closeSync(fd); }
+  } catch { return ''; }
+  const lines = text.split(/\r?\n/).filter(l => l.trim());
+  return lines.length ? lineHash(lines[lines.length - 1]) : '';
+}
+
+function writeHead(file: string, hash: string){
+  const head: AuditHead = { hash, ts: new Date().toISOString() };
+  if(signingEnabled()) head.signature = signPayload(hash);
+  const tmp = headPath(file) + '.tmp';
+  fs.writeFileSync(tmp, JSON.stringify(head));
+  fs.renameSync(tmp, headPath(file));
 }
 
 export function logAudit(action: string, ids?: string[]|string, meta?: Record<string, unknown>){
-  const file = resolveLogPath();
-  if(!file) return; // silent no-op when logging disabled
   const entry: AuditEntry = { ts: new Date().toISOString(), action };
   if(ids){ entry.ids = Array.isArray(ids)? ids: [ids]; }
   if(meta){ entry.meta = meta; }
+  try { commitCatalogChange(getInstructionsDir(), entry); } catch { /* git history is best-effort; never fail the mutation */ }
+  const file = resolveLogPath();
+  if(!file) return; // silent no-op when logging disabled
   try {
+    if(!getRuntimeConfig().instructions.auditLog.chain){
+      fs.appendFileSync(file, JSON.stringify(entry)+'\n','utf8');
+      return;
+    }
+    entry.prev = lastLineHash(file);
+    entry.hash = sha256(entry.prev + JSON.stringify(entry));
     fs.appendFileSync(file, JSON.stringify(entry)+'\n','utf8');
+    writeHead(file, entry.hash);
   } catch { /* swallow logging errors to avoid impacting primary mutation path */ }
 }
 
@@ -66,3 +126,51 @@ export function readAuditEntries(limit=1000): AuditEntry[] {
     return parsed;
   } catch { return []; }
 }
+
+export interface AuditChainIssue { line: number; problem: 'unparseable' | 'broken-link' | 'hash-mismatch' | 'unchained' }
+export interface AuditChainReport {
+  enabled: boolean;
+  file?: string;
+  lines: number;
+  chained: number;
+  legacy: number; // lines before the first chained line (written before chaining was enabled)
+  ok: boolean;
+  issues: AuditChainIssue[];
+  head: 'match' | 'mismatch' | 'missing' | 'bad-signature' | 'n/a';
+  lastHash?: string;
+}
+
+/** Walk the hash chain of the active audit log (audit/verify). */
+export function verifyAuditChain(): AuditChainReport {
+  const file = resolveLogPath();
+  if(!file) return { enabled: false, lines: 0, chained: 0, legacy: 0, ok: true, issues: [], head: 'n/a' };
+  let lines: string[] = [];
+  try { lines = fs.readFileSync(file, 'utf8').split(/\r?\n/).filter(l => l.trim()); } catch { /* empty */ }
+  const issues: AuditChainIssue[] = [];
+  let prev = ''; let chained = 0; let legacy = 0;
+  lines.forEach((line, i) => {
+    let parsed: AuditEntry | undefined;
+    try { parsed = JSON.parse(line) as AuditEntry; } catch { issues.push({ line: i + 1, problem: 'unparseable' }); }
+    if(!parsed || typeof parsed.hash !== 'string'){
+      if(parsed){ if(chained) issues.push({ line: i + 1, problem: 'unchained' }); else legacy++; }
+      prev = sha256(line);
+      return;
+    }
+    chained++;
+    const { hash, ...rest } = parsed;
+    if(rest.prev !== prev) issues.push({ line: i + 1, problem: 'broken-link' });
+    if(sha256((rest.prev ?? '') + JSON.stringify(rest)) !== hash) issues.push({ line: i + 1, problem: 'hash-mismatch' });
+    prev = hash;
+  });
+  let head: AuditChainReport['head'] = 'missing';
+  try {
+    if(fs.existsSync(headPath(file))){
+      const stored = JSON.parse(fs.readFileSync(headPath(file), 'utf8')) as AuditHead;
+      if(stored.hash !== prev) head = 'mismatch';
+      else if(stored.signature && !verifyPayload(stored.hash, stored.signature)) head = 'bad-signature';
+      else head = 'match';
+    }
+  } catch { head = 'mismatch'; }
+  if(!chained && head === 'missing') head = 'n/a';
+  return { enabled: getRuntimeConfig().instructions.auditLog.chain, file, lines: lines.length, chained, legacy, ok: !issues.length && (head === 'match' || head === 'n/a'), issues, head, lastHash: prev || undefined };
+}
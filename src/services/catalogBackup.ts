@@ -0,0 +1,474 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { getCatalogStorage } from './catalogRepository';
+import { invalidate, touchCatalogVersion } from './catalogContext';
+import { diffFields, unifiedDiff, FieldChange } from './contentDiff';
+import { logInfo, logWarn } from './logger';
+import { tarPack, tarUnpack } from './tarArchive';
+
+/**
+ * Incremental, content-addressed catalog backups (MCP_BACKUPS_DIR).
+ *
+ * Bodies are stored once, gzip-compressed, under `objects/<aa>/<sha256>.gz` keyed by the body's sha256, so an
+ * entry whose body (sourceHash) did not change adds no object; records that do not parse as an entry with a
+ * string body are stored whole. A backup is a
+ * small `<id>.tar.gz` holding `manifest.json` and the records with their body left out (`records/<n>.json`), so
+ * a backup of an unchanged catalog adds a few KB. The manifest lists per-entry record / body hashes and carries
+ * a sha256 `checksum` of itself; verifyBackup checks the archive, the manifest (record file names without path
+ * separators, object keys that are sha256 hex), every record and every object it
+ * references. Restores verify first, can be limited to ids, only write records that differ from the live
+ * catalog, and report the same diff on a dry run. Deleting or pruning archives drops objects no longer referenced.
+ * Directory backups written by earlier versions (`backup_<ts>/*.json`) are still listed and restorable.
+ */
+
+export type BackupKind = 'manual' | 'scheduled' | 'pre-restore';
+export type BackupFormat = 'archive' | 'directory';
+
+export interface BackupEntryRef {
+  file: string;
+  id?: string;
+  record?: string;        // path of the body-less record inside the archive (absent for raw records)
+  recordHash?: string;
+  bodyHash: string;       // object key: sha256 of the body, or of the whole record when raw
+  raw?: boolean;
+}
+
+export interface BackupManifest {
+  format: 'mcp-index-backup';
+  version: 1;
+  backupId: string;
+  kind: BackupKind;
+  createdAt: string;
+  instructionCount: number;
+  schemaVersion?: string;
+  contentDigest: string;  // equal digests = identical catalogs
+  newObjects: number;
+  newBytes: number;
+  entries: BackupEntryRef[];
+  checksum: string;       // sha256 of this manifest serialized without the checksum field
+}
+
+export interface BackupSummary {
+  id: string;
+  createdAt: string;
+  instructionCount: number;
+  schemaVersion?: string;
+  sizeBytes: number;
+  format: BackupFormat;
+  kind?: BackupKind;
+  newObjects?: number;
+  newBytes?: number;
+}
+
+export interface BackupIssue { file?: string; problem: string; detail?: string }
+export interface BackupVerification { id: string; format: BackupFormat; ok: boolean; checksummed: boolean; entries: number; issues: BackupIssue[] }
+
+export interface RestoreChange { name: string; file: string; fields: FieldChange[]; bodyDiff?: string }
+export interface RestorePlan { backupId: string; added: string[]; changed: RestoreChange[]; unchanged: string[]; liveOnly: string[]; missing: string[] }
+export interface RestoreResult { success: boolean; message: string; dryRun?: boolean; restored?: number; plan?: RestorePlan; safetyBackupId?: string; verification?: BackupVerification }
+
+const ARCHIVE_EXT = '.tar.gz';
+const BACKUP_NAME = /^(backup_|instructions-|pre_restore_)[A-Za-z0-9_.-]*$/; // deletable / prunable
+const SAFE_NAME = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*$/;
+// Manifest file names and object keys become paths, and the checksum is unkeyed, so both are checked before use
+const RECORD_FILE = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*\.json$/i;
+const OBJECT_HASH = /^[0-9a-f]{64}$/;
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const backupRoot = () => getRuntimeConfig().dashboard.admin.backupsDir;
+const objectPath = (hash: string) => path.join(backupRoot(), 'objects', hash.slice(0, 2), `${hash}.gz`);
+const entryName = (e: { id?: string; file: string }) => e.id ?? e.file.replace(/\.json$/i, '');
+
+function manifestChecksum(manifest: Omit<BackupManifest, 'checksum'> & { checksum?: string }): string {
+  return sha256(JSON.stringify({ ...manifest, checksum: undefined }));
+}
+
+// Key-order independent JSON, used to tell real record changes from formatting differences
+function stableStringify(value: unknown): string {
+  if(Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if(value && typeof value === 'object'){
+    return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function parseEntry(text: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch { return null; }
+}
+
+// ---- reading backups ----
+
+interface LoadedBackup { id: string; format: BackupFormat; files: string[]; manifest?: BackupManifest; tar?: Map<string, Buffer>; dir?: string }
+
+function readArchive(id: string): { manifest: BackupManifest; tar: Map<string, Buffer> } {
+  const tar = tarUnpack(zlib.gunzipSync(fs.readFileSync(path.join(backupRoot(), id + ARCHIVE_EXT))));
+  const raw = tar.get('manifest.json');
+  if(!raw) throw new Error('manifest.json missing from archive');
+  return { manifest: JSON.parse(raw.toString('utf8')) as BackupManifest, tar };
+}
+
+function loadBackup(id: string): LoadedBackup | null {
+  if(!id || !SAFE_NAME.test(id) || id === 'objects') return null;
+  const root = backupRoot();
+  if(fs.existsSync(path.join(root, id + ARCHIVE_EXT))){
+    const { manifest, tar } = readArchive(id);
+    return { id, format: 'archive', files: manifest.entries.map(e => e.file), manifest, tar };
+  }
+  const dir = path.join(root, id);
+  if(fs.existsSync(dir) && fs.statSync(dir).isDirectory()){
+    const files = fs.readdirSync(dir).filter(f => f.toLowerCase().endsWith('.json') && f !== 'manifest.json');
+    return { id, format: 'directory', files, dir };
+  }
+  return null;
+}
+
+function readObject(hash: string): string {
+  if(!OBJECT_HASH.test(hash)) throw new Error(`invalid object hash: ${hash}`);
+  return zlib.gunzipSync(fs.readFileSync(objectPath(hash))).toString('utf8');
+}
+
+/** Reassemble the record text a backup holds for one file. */
+function readBackupFile(backup: LoadedBackup, file: string): string {
+  if(backup.format === 'directory') return fs.readFileSync(path.join(backup.dir as string, file), 'utf8');
+  const ref = backup.manifest?.entries.find(e => e.file === file);
+  if(!ref) throw new Error(`${file} not in backup`);
+  const body = readObject(ref.bodyHash);
+  if(ref.raw) return body;
+  const record = JSON.parse((backup.tar?.get(ref.record as string) as Buffer).toString('utf8'));
+  return JSON.stringify({ ...record, body }, null, 2);
+}
+
+// ---- creating backups ----
+
+function newBackupId(kind: BackupKind, now: Date): string {
+  const base = kind === 'pre-restore'
+    ? `pre_restore_${now.getTime()}`
+    : `backup_${now.toISOString().replace(/[-:]/g, '').replace(/\..+/, '')}_${String(now.getMilliseconds()).padStart(3, '0')}`;
+  let id = base;
+  for(let n = 2; fs.existsSync(path.join(backupRoot(), id + ARCHIVE_EXT)) || fs.existsSync(path.join(backupRoot(), id)); n++) id = `${base}_${n}`;
+  return id;
+}
+
+function writeObject(hash: string, content: string): number {
+  const file = objectPath(hash);
+  if(fs.existsSync(file)) return 0;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const data = zlib.gzipSync(Buffer.from(content, 'utf8'));
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, data);
+  fs.renameSync(tmp, file);
+  return data.length;
+}
+
+function latestArchiveManifest(): BackupManifest | null {
+  const latest = listBackups().find(b => b.format === 'archive');
+  if(!latest) return null;
+  try { return readArchive(latest.id).manifest; } catch { return null; }
+}
+
+/**
+ * Back up the catalog (file or sqlite storage): new bodies go to the object store, the record set to a new
+ * archive. With skipIfUnchanged nothing is written when the newest archive already holds the same content.
+ */
+export function createBackup(opts: { kind?: BackupKind; skipIfUnchanged?: boolean } = {}): BackupSummary & { files: number } | { skipped: true; latest: string } {
+  const kind = opts.kind ?? 'manual';
+  const storage = getCatalogStorage(getRuntimeConfig().catalog.baseDir);
+  const entries: BackupEntryRef[] = [];
+  const objects = new Map<string, string>();
+  const records: { name: string; data: Buffer }[] = [];
+  const schemaVersions = new Set<string>();
+  for(const file of storage.listFiles().filter(f => !f.startsWith('_')).sort()){
+    let text: string;
+    try { text = storage.readText(file); } catch { continue; }
+    const parsed = parseEntry(text);
+    if(parsed && typeof parsed.body === 'string'){
+      const bodyHash = sha256(parsed.body);
+      const recordText = JSON.stringify({ ...parsed, body: null }, null, 2);
+      const record = `records/${String(records.length + 1).padStart(6, '0')}.json`;
+      records.push({ name: record, data: Buffer.from(recordText, 'utf8') });
+      objects.set(bodyHash, parsed.body);
+      if(typeof parsed.schemaVersion === 'string') schemaVersions.add(parsed.schemaVersion);
+      entries.push({ file, ...(typeof parsed.id === 'string' ? { id: parsed.id } : {}), record, recordHash: sha256(recordText), bodyHash });
+    } else {
+      const bodyHash = sha256(text);
+      objects.set(bodyHash, text);
+      entries.push({ file, bodyHash, raw: true });
+    }
+  }
+  const contentDigest = sha256(entries.map(e => `${e.file}\0${e.recordHash ?? ''}\0${e.bodyHash}`).join('\n'));
+  if(opts.skipIfUnchanged){
+    const latest = latestArchiveManifest();
+    if(latest && latest.contentDigest === contentDigest) return { skipped: true, latest: latest.backupId };
+  }
+
+  const root = backupRoot();
+  fs.mkdirSync(root, { recursive: true });
+  let newObjects = 0; let newBytes = 0;
+  for(const [hash, content] of objects){
+    const written = writeObject(hash, content);
+    if(written){ newObjects++; newBytes += written; }
+  }
+  const now = new Date();
+  const backupId = newBackupId(kind, now);
+  const base: Omit<BackupManifest, 'checksum'> = {
+    format: 'mcp-index-backup', version: 1, backupId, kind, createdAt: now.toISOString(),
+    instructionCount: entries.length,
+    ...(schemaVersions.size ? { schemaVersion: [...schemaVersions].sort().join(',') } : {}),
+    contentDigest, newObjects, newBytes, entries
+  };
+  const manifest: BackupManifest = { ...base, checksum: manifestChecksum(base) };
+  const archive = zlib.gzipSync(tarPack([{ name: 'manifest.json', data: Buffer.from(JSON.stringify(manifest, null, 2), 'utf8') }, ...records], now));
+  const file = path.join(root, backupId + ARCHIVE_EXT);
+  fs.writeFileSync(`${file}.tmp`, archive);
+  fs.renameSync(`${file}.tmp`, file);
+  logInfo('[backup] created', { backupId, kind, entries: entries.length, newObjects, newBytes });
+  return { id: backupId, createdAt: manifest.createdAt, instructionCount: entries.length, schemaVersion: manifest.schemaVersion, sizeBytes: archive.length, format: 'archive', kind, newObjects, newBytes, files: entries.length };
+}
+
+/** Archives and legacy backup directories, newest first. */
+export function listBackups(): BackupSummary[] {
+  const root = backupRoot();
+  if(!fs.existsSync(root)) return [];
+  const results: BackupSummary[] = [];
+  for(const name of fs.readdirSync(root)){
+    const full = path.join(root, name);
+    try {
+      if(name.endsWith(ARCHIVE_EXT)){
+        const id = name.slice(0, -ARCHIVE_EXT.length);
+        if(!SAFE_NAME.test(id)) continue;
+        const st = fs.statSync(full);
+        try {
+          const { manifest } = readArchive(id);
+          results.push({ id, createdAt: manifest.createdAt, instructionCount: manifest.instructionCount, schemaVersion: manifest.schemaVersion, sizeBytes: st.size, format: 'archive', kind: manifest.kind, newObjects: manifest.newObjects, newBytes: manifest.newBytes });
+        } catch {
+          results.push({ id, createdAt: st.mtime.toISOString(), instructionCount: 0, sizeBytes: st.size, format: 'archive' });
+        }
+      } else if(name !== 'objects' && fs.statSync(full).isDirectory()){
+        let createdAt = fs.statSync(full).mtime.toISOString();
+        let instructionCount = 0;
+        let schemaVersion: string | undefined;
+        const manifestPath = path.join(full, 'manifest.json');
+        if(fs.existsSync(manifestPath)){
+          try {
+            const mf = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+            createdAt = mf.createdAt || createdAt;
+            instructionCount = mf.instructionCount || 0;
+            schemaVersion = mf.schemaVersion;
+          } catch { /* ignore */ }
+        } else {
+          instructionCount = fs.readdirSync(full).filter(f => f.toLowerCase().endsWith('.json')).length;
+        }
+        const sizeBytes = fs.readdirSync(full).reduce((sum, f) => {
+          try { return sum + fs.statSync(path.join(full, f)).size; } catch { return sum; }
+        }, 0);
+        results.push({ id: name, createdAt, instructionCount, schemaVersion, sizeBytes, format: 'directory' });
+      }
+    } catch { /* ignore individual entries */ }
+  }
+  results.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return results;
+}
+
+/** Object store size (bodies shared by all archives). */
+export function backupStoreStats(): { objects: number; bytes: number } {
+  const dir = path.join(backupRoot(), 'objects');
+  let objects = 0; let bytes = 0;
+  if(!fs.existsSync(dir)) return { objects, bytes };
+  for(const shard of fs.readdirSync(dir)){
+    for(const f of fs.readdirSync(path.join(dir, shard))){
+      if(!f.endsWith('.gz')) continue;
+      objects++;
+      try { bytes += fs.statSync(path.join(dir, shard, f)).size; } catch { /* ignore */ }
+    }
+  }
+  return { objects, bytes };
+}
+
+/** Check an archive end to end; legacy directories only get a parse check (they carry no checksums). */
+export function verifyBackup(backupId: string): BackupVerification | null {
+  let backup: LoadedBackup | null;
+  try { backup = loadBackup(backupId); } catch(e) {
+    return { id: backupId, format: 'archive', ok: false, checksummed: true, entries: 0, issues: [{ problem: 'archive-unreadable', detail: (e as Error).message }] };
+  }
+  if(!backup) return null;
+  const issues: BackupIssue[] = [];
+  if(backup.format === 'directory'){
+    for(const file of backup.files){
+      try { JSON.parse(fs.readFileSync(path.join(backup.dir as string, file), 'utf8')); } catch { issues.push({ file, problem: 'unparseable' }); }
+    }
+    return { id: backupId, format: 'directory', ok: issues.length === 0, checksummed: false, entries: backup.files.length, issues };
+  }
+  const manifest = backup.manifest as BackupManifest;
+  if(manifestChecksum(manifest) !== manifest.checksum) issues.push({ problem: 'manifest-checksum' });
+  const checked = new Map<string, string | null>();
+  for(const ref of manifest.entries){
+    if(typeof ref.file !== 'string' || !RECORD_FILE.test(ref.file) || path.basename(ref.file) !== ref.file){ issues.push({ file: String(ref.file), problem: 'invalid-file-name' }); continue; }
+    if(typeof ref.bodyHash !== 'string' || !OBJECT_HASH.test(ref.bodyHash)){ issues.push({ file: ref.file, problem: 'invalid-object-hash', detail: String(ref.bodyHash) }); continue; }
+    if(!ref.raw){
+      const record = backup.tar?.get(ref.record ?? '');
+      if(!record) issues.push({ file: ref.file, problem: 'record-missing' });
+      else if(sha256(record.toString('utf8')) !== ref.recordHash) issues.push({ file: ref.file, problem: 'record-hash-mismatch' });
+    }
+    if(!checked.has(ref.bodyHash)){
+      let problem: string | null = null;
+      if(!fs.existsSync(objectPath(ref.bodyHash))) problem = 'object-missing';
+      else {
+        try { if(sha256(readObject(ref.bodyHash)) !== ref.bodyHash) problem = 'object-hash-mismatch'; } catch { problem = 'object-unreadable'; }
+      }
+      checked.set(ref.bodyHash, problem);
+    }
+    const problem = checked.get(ref.bodyHash);
+    if(problem) issues.push({ file: ref.file, problem, detail: ref.bodyHash });
+  }
+  return { id: backupId, format: 'archive', ok: issues.length === 0, checksummed: true, entries: manifest.entries.length, issues };
+}
+
+// ---- restore ----
+
+function planFor(backup: LoadedBackup, ids?: string[]): { plan: RestorePlan; writes: { file: string; text: string }[] } {
+  const storage = getCatalogStorage(getRuntimeConfig().catalog.baseDir);
+  const refs = backup.format === 'archive'
+    ? (backup.manifest as BackupManifest).entries.map(e => ({ file: e.file, id: e.id }))
+    : backup.files.map(file => ({ file, id: undefined as string | undefined }));
+  const wanted = ids?.length ? new Set(ids) : null;
+  const selected = wanted ? refs.filter(r => wanted.has(entryName(r)) || wanted.has(r.file)) : refs;
+  const plan: RestorePlan = {
+    backupId: backup.id, added: [], changed: [], unchanged: [], liveOnly: [],
+    missing: wanted ? [...wanted].filter(w => !refs.some(r => entryName(r) === w || r.file === w)) : []
+  };
+  const writes: { file: string; text: string }[] = [];
+  for(const ref of selected){
+    const text = readBackupFile(backup, ref.file);
+    const incoming = parseEntry(text);
+    const name = typeof incoming?.id === 'string' ? incoming.id : entryName(ref);
+    let live: string | null = null;
+    try { live = storage.readText(ref.file); } catch { live = null; }
+    if(live === null){ plan.added.push(name); writes.push({ file: ref.file, text }); continue; }
+    const current = parseEntry(live);
+    if(live === text || (current && incoming && stableStringify(current) === stableStringify(incoming))){ plan.unchanged.push(name); continue; }
+    const change: RestoreChange = { name, file: ref.file, fields: current && incoming ? diffFields(current, incoming) : [] };
+    const from = typeof current?.body === 'string' ? current.body : live;
+    const to = typeof incoming?.body === 'string' ? incoming.body : text;
+    if(from !== to) change.bodyDiff = unifiedDiff(from, to, { fromLabel: `live/${ref.file}`, toLabel: `${backup.id}/${ref.file}` });
+    plan.changed.push(change);
+    writes.push({ file: ref.file, text });
+  }
+  if(!wanted){
+    const inBackup = new Set(refs.map(r => r.file));
+    plan.liveOnly = storage.listFiles().filter(f => !f.startsWith('_') && !inBackup.has(f)).map(f => f.replace(/\.json$/i, '')).sort();
+  }
+  return { plan, writes };
+}
+
+/**
+ * Restore a backup (or only `ids`) into the live catalog. Archives are verified first; only added and changed
+ * records are written, after a pre-restore backup when live records are overwritten. `dryRun` returns the plan
+ * (added / changed with field and body diffs / unchanged / live-only) without writing. Live-only records are kept.
+ */
+export function restoreBackup(backupId: string, opts: { ids?: string[]; dryRun?: boolean } = {}): RestoreResult {
+  if(!backupId) return { success: false, message: 'backupId required' };
+  const verification = verifyBackup(backupId);
+  if(!verification) return { success: false, message: `Backup not found: ${backupId}` };
+  if(!verification.ok) return { success: false, message: `Backup ${backupId} failed verification`, verification };
+  const backup = loadBackup(backupId) as LoadedBackup;
+  const { plan, writes } = planFor(backup, opts.ids);
+  if(plan.missing.length) return { success: false, message: `Not in backup ${backupId}: ${plan.missing.join(', ')}`, plan };
+  if(opts.dryRun) return { success: true, message: `Dry run: ${plan.added.length} added, ${plan.changed.length} changed, ${plan.unchanged.length} unchanged`, dryRun: true, plan };
+  let safetyBackupId: string | undefined;
+  if(plan.changed.length){
+    const safety = createBackup({ kind: 'pre-restore' });
+    if('id' in safety) safetyBackupId = safety.id;
+  }
+  if(writes.length){
+    const storage = getCatalogStorage(getRuntimeConfig().catalog.baseDir);
+    storage.transaction(() => { for(const w of writes) storage.writeText(w.file, w.text); });
+    touchCatalogVersion(); invalidate();
+  }
+  logInfo('[backup] restored', { backupId, restored: writes.length, ids: opts.ids, safetyBackupId });
+  return { success: true, message: `Backup ${backupId} restored (${writes.length} record(s) written)`, restored: writes.length, plan, ...(safetyBackupId ? { safetyBackupId } : {}) };
+}
+
+// ---- deletion, retention, garbage collection ----
+
+function removeBackup(id: string): boolean {
+  const root = backupRoot();
+  const archive = path.join(root, id + ARCHIVE_EXT);
+  if(fs.existsSync(archive)){ fs.unlinkSync(archive); return true; }
+  const dir = path.join(root, id);
+  if(fs.existsSync(dir)){ fs.rmSync(dir, { recursive: true, force: true }); return true; }
+  return false;
+}
+
+/** Delete objects no archive references; skipped when an archive cannot be read. */
+export function collectGarbage(): number {
+  const referenced = new Set<string>();
+  for(const b of listBackups().filter(x => x.format === 'archive')){
+    try { for(const e of readArchive(b.id).manifest.entries) referenced.add(e.bodyHash); } catch(e) {
+      logWarn(`[backup] garbage collection skipped: ${b.id} unreadable (${(e as Error).message})`);
+      return 0;
+    }
+  }
+  const dir = path.join(backupRoot(), 'objects');
+  if(!fs.existsSync(dir)) return 0;
+  let removed = 0;
+  for(const shard of fs.readdirSync(dir)){
+    for(const f of fs.readdirSync(path.join(dir, shard))){
+      if(f.endsWith('.gz') && !referenced.has(f.slice(0, -3))){ fs.unlinkSync(path.join(dir, shard, f)); removed++; }
+    }
+  }
+  return removed;
+}
+
+export function deleteBackup(backupId: string): { success: boolean; message: string; removed?: boolean } {
+  if(!backupId) return { success: false, message: 'backupId required' };
+  if(!BACKUP_NAME.test(backupId)) return { success: false, message: 'Refusing to delete unexpected backup name' };
+  if(!removeBackup(backupId)) return { success: false, message: `Backup not found: ${backupId}` };
+  collectGarbage();
+  logInfo('[backup] deleted', { backupId });
+  return { success: true, message: `Backup ${backupId} deleted`, removed: true };
+}
+
+/** Keep the newest `retain` backups (0 = none) and drop those older than maxAgeDays (the newest always stays). */
+export function pruneBackups(retain: number, maxAgeDays = 0): number {
+  const backups = listBackups().filter(b => BACKUP_NAME.test(b.id));
+  const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * 86400_000 : null;
+  let pruned = 0;
+  backups.forEach((b, i) => {
+    const tooOld = cutoff !== null && i > 0 && Date.parse(b.createdAt) < cutoff;
+    if(i >= retain || tooOld){
+      try { if(removeBackup(b.id)) pruned++; } catch { /* ignore */ }
+    }
+  });
+  if(pruned) collectGarbage();
+  return pruned;
+}
+
+// ---- scheduling ----
+
+let backupTimer: NodeJS.Timeout | null = null;
+
+/** Periodic incremental backup (skipped when nothing changed) followed by the retention pass (MCP_BACKUP_INTERVAL_MS). */
+export function startBackupScheduler(): () => void {
+  const cfg = getRuntimeConfig().dashboard.admin.backup;
+  if(backupTimer || cfg.intervalMs <= 0) return stopBackupScheduler;
+  const tick = () => {
+    try {
+      createBackup({ kind: 'scheduled', skipIfUnchanged: true });
+      const { retain, maxAgeDays } = getRuntimeConfig().dashboard.admin.backup;
+      pruneBackups(retain, maxAgeDays);
+    } catch(e){ logWarn(`[backup] scheduled backup failed: ${(e as Error).message}`); }
+  };
+  backupTimer = setInterval(tick, cfg.intervalMs);
+  backupTimer.unref();
+  return stopBackupScheduler;
+}
+
+export function stopBackupScheduler(): void {
+  if(backupTimer){ clearInterval(backupTimer); backupTimer = null; }
+}
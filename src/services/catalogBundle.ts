@@ -0,0 +1,288 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { InstructionEntry } from '../models/instruction';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { getSigningKey } from './catalogSigning';
+import { currentTenant } from './tenantContext';
+import { diffFields, unifiedDiff, FieldChange, DIFF_FIELDS } from './contentDiff';
+import { entryToMarkdown, parseInstructionMarkdown } from './instructionMarkdown';
+import { tarPack, tarUnpack } from './tarArchive';
+
+/**
+ * Portable instruction bundles: a `.tar.gz` of Markdown entries plus a hashed, optionally signed manifest.
+ *
+ *   manifest.json       { format, formatVersion, createdAt, source, count, entries: [ { id, file, sha256, sourceHash } ] }
+ *   manifest.sig.json   { alg: 'ed25519', keyId, publicKey, value }  signature over the exact manifest.json bytes
+ *   entries/<id>.md     frontmatter + body (instructionMarkdown.ts)
+ *
+ * The signature carries its public key so any server can check it; whether it is *trusted* depends on the key
+ * id: the local signing key (catalogSigning.ts) or one listed in MCP_BUNDLE_TRUSTED_KEYS. A directory works as
+ * a bundle too: an extracted bundle (with manifest.json) is checked like the archive, a plain tree of `.md`
+ * files (a repo's instruction folder; README.md files are skipped) is read as unsigned, unhashed entries.
+ *
+ * Imports are planned before they are applied: planBundleImport selects entries, maps ids (remap / idPrefix,
+ * rewriting references between the selected entries) and classifies each against the live catalog as new,
+ * unchanged or conflict, with field changes and a body diff for conflicts.
+ */
+
+export interface BundleManifestEntry { id: string; file: string; sha256: string; sourceHash: string }
+export interface BundleManifest {
+  format: 'mcp-instruction-bundle';
+  formatVersion: 1;
+  createdAt: string;
+  source: { catalogHash?: string; tenant?: string };
+  count: number;
+  entries: BundleManifestEntry[];
+}
+export interface BundleSignature { alg: 'ed25519'; keyId: string; publicKey: string; value: string }
+export interface BundleSignatureStatus { status: 'valid' | 'invalid' | 'absent'; keyId?: string; trusted: boolean }
+
+export type BundleProblem = 'invalid-manifest' | 'missing-file' | 'unlisted-file' | 'hash-mismatch' | 'parse-error' | 'invalid-id' | 'id-mismatch' | 'duplicate-id';
+export interface BundleIssue { problem: BundleProblem; file?: string; id?: string; detail?: string }
+
+export interface BundleEntry { id: string; file: string; fields: Record<string, unknown>; body: string }
+export interface LoadedBundle {
+  format: 'archive' | 'directory';
+  manifest?: BundleManifest;
+  signature: BundleSignatureStatus;
+  entries: BundleEntry[];
+  issues: BundleIssue[];
+}
+
+export type BundleEntryStatus = 'new' | 'unchanged' | 'conflict';
+export interface BundlePlanEntry {
+  id: string;              // id in the bundle
+  targetId: string;        // id it is imported as
+  status: BundleEntryStatus;
+  action: 'create' | 'overwrite' | 'skip';
+  fields?: FieldChange[];
+  bodyDiff?: string;
+}
+export interface BundleImportPlan {
+  entries: BundlePlanEntry[];
+  counts: Record<BundleEntryStatus, number>;
+  missing: string[];       // requested ids the bundle does not contain
+  invalidTargets: string[];// mapped ids that are not valid record ids
+  apply: Record<string, unknown>[]; // instructions/import entries for the create / overwrite actions
+}
+export interface BundlePlanOptions { ids?: string[]; remap?: Record<string, string>; idPrefix?: string; mode?: 'skip' | 'overwrite' }
+
+const FORMAT = 'mcp-instruction-bundle';
+const MANIFEST = 'manifest.json';
+const SIGNATURE = 'manifest.sig.json';
+export const BUNDLE_EXT = '.tar.gz';
+// Same rule as instruction ids elsewhere: a file name that cannot escape the catalog directory
+const RECORD_ID = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const REFERENCE_FIELDS = ['extends', 'includes', 'links', 'deprecatedBy'];
+const DEFAULTS: Record<string, unknown> = { priority: 50, audience: 'all', requirement: 'recommended' };
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const bundleRoot = () => getRuntimeConfig().instructions.bundles.dir;
+
+// Tar names are limited to 100 bytes; long ids keep a readable prefix plus a hash
+function entryFile(id: string): string {
+  return Buffer.byteLength(id, 'utf8') <= 80 ? `entries/${id}.md` : `entries/${id.slice(0, 60)}-${sha256(id).slice(0, 8)}.md`;
+}
+
+/** Resolve a bundle path (file or directory) inside MCP_BUNDLES_DIR; null when it would leave it. */
+export function resolveBundlePath(p: string): string | null {
+  if(typeof p !== 'string' || !p.trim() || p.includes('\0')) return null;
+  const root = path.resolve(bundleRoot());
+  const full = path.resolve(root, p);
+  return full === root || full.startsWith(root + path.sep) ? full : null;
+}
+
+// ---- writing ----
+
+export function createBundle(entries: InstructionEntry[], opts: { sign?: boolean; catalogHash?: string } = {}): { data: Buffer; manifest: BundleManifest; signature?: BundleSignature } {
+  const files: { name: string; data: Buffer }[] = [];
+  const manifestEntries: BundleManifestEntry[] = [];
+  for(const e of [...entries].sort((a, b) => a.id.localeCompare(b.id))){
+    const data = Buffer.from(entryToMarkdown(e), 'utf8');
+    const file = entryFile(e.id);
+    files.push({ name: file, data });
+    manifestEntries.push({ id: e.id, file, sha256: sha256(data), sourceHash: e.sourceHash });
+  }
+  const createdAt = new Date();
+  const manifest: BundleManifest = {
+    format: FORMAT, formatVersion: 1, createdAt: createdAt.toISOString(),
+    source: { catalogHash: opts.catalogHash, tenant: currentTenant() },
+    count: manifestEntries.length, entries: manifestEntries
+  };
+  const manifestBytes = Buffer.from(JSON.stringify(manifest, null, 2), 'utf8');
+  let signature: BundleSignature | undefined;
+  if(opts.sign){
+    const key = getSigningKey();
+    signature = {
+      alg: 'ed25519', keyId: key.keyId,
+      publicKey: key.publicKey.export({ type: 'spki', format: 'der' }).toString('base64'),
+      value: crypto.sign(null, manifestBytes, key.privateKey).toString('base64')
+    };
+  }
+  const all = [{ name: MANIFEST, data: manifestBytes }, ...(signature ? [{ name: SIGNATURE, data: Buffer.from(JSON.stringify(signature, null, 2), 'utf8') }] : []), ...files];
+  return { data: zlib.gzipSync(tarPack(all, createdAt)), manifest, signature };
+}
+
+// ---- reading ----
+
+function localKeyId(): string | undefined {
+  // Only compare against a key that already exists: checking a bundle must not create one
+  if(!fs.existsSync(getRuntimeConfig().instructions.manifest.signing.keyFile)) return undefined;
+  try { return getSigningKey().keyId; } catch { return undefined; }
+}
+
+function checkSignature(manifestBytes: Buffer, raw: Buffer | undefined): BundleSignatureStatus {
+  if(!raw) return { status: 'absent', trusted: false };
+  let sig: Partial<BundleSignature>;
+  try { sig = JSON.parse(raw.toString('utf8')); } catch { return { status: 'invalid', trusted: false }; }
+  const keyId = typeof sig.keyId === 'string' ? sig.keyId.toLowerCase() : undefined;
+  if(sig.alg !== 'ed25519' || !keyId || typeof sig.publicKey !== 'string' || typeof sig.value !== 'string') return { status: 'invalid', keyId, trusted: false };
+  try {
+    const der = Buffer.from(sig.publicKey, 'base64');
+    // The key id must name the embedded key, otherwise a bundle could borrow a trusted id
+    if(sha256(der).slice(0, 16) !== keyId) return { status: 'invalid', keyId, trusted: false };
+    const publicKey = crypto.createPublicKey({ key: der, format: 'der', type: 'spki' });
+    if(!crypto.verify(null, manifestBytes, publicKey, Buffer.from(sig.value, 'base64'))) return { status: 'invalid', keyId, trusted: false };
+  } catch { return { status: 'invalid', keyId, trusted: false }; }
+  const trusted = getRuntimeConfig().instructions.bundles.trustedKeys.includes(keyId) || localKeyId() === keyId;
+  return { status: 'valid', keyId, trusted };
+}
+
+function readEntry(file: string, data: Buffer, fallbackId: string, issues: BundleIssue[]): BundleEntry | null {
+  const parsed = parseInstructionMarkdown(data.toString('utf8'), fallbackId);
+  if(parsed.errors.length){ issues.push({ problem: 'parse-error', file, detail: parsed.errors.join('; ') }); return null; }
+  const id = parsed.fields.id;
+  if(typeof id !== 'string' || !RECORD_ID.test(id)){ issues.push({ problem: 'invalid-id', file, id: String(id) }); return null; }
+  return { id, file, fields: parsed.fields, body: parsed.body };
+}
+
+function readManifestBundle(format: LoadedBundle['format'], files: Map<string, Buffer>): LoadedBundle {
+  const issues: BundleIssue[] = [];
+  const manifestBytes = files.get(MANIFEST)!;
+  let manifest: BundleManifest | undefined;
+  try {
+    const parsed = JSON.parse(manifestBytes.toString('utf8')) as BundleManifest;
+    if(parsed?.format === FORMAT && Array.isArray(parsed.entries)) manifest = parsed;
+  } catch { /* reported below */ }
+  const signature = checkSignature(manifestBytes, files.get(SIGNATURE));
+  if(!manifest){
+    issues.push({ problem: 'invalid-manifest', file: MANIFEST, detail: 'not an instruction bundle manifest' });
+    return { format, signature, entries: [], issues };
+  }
+  const entries: BundleEntry[] = [];
+  const listed = new Set<string>();
+  for(const ref of manifest.entries){
+    listed.add(ref.file);
+    const data = files.get(ref.file);
+    if(!data){ issues.push({ problem: 'missing-file', file: ref.file, id: ref.id }); continue; }
+    if(sha256(data) !== ref.sha256){ issues.push({ problem: 'hash-mismatch', file: ref.file, id: ref.id }); continue; }
+    const entry = readEntry(ref.file, data, ref.id, issues);
+    if(!entry) continue;
+    if(entry.id !== ref.id){ issues.push({ problem: 'id-mismatch', file: ref.file, id: ref.id, detail: `frontmatter id ${entry.id}` }); continue; }
+    entries.push(entry);
+  }
+  for(const name of files.keys()){
+    if(name.startsWith('entries/') && name.endsWith('.md') && !listed.has(name)) issues.push({ problem: 'unlisted-file', file: name });
+  }
+  return { format, manifest, signature, entries, issues };
+}
+
+function readDirectoryFiles(dir: string): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  const walk = (rel: string) => {
+    for(const d of fs.readdirSync(path.join(dir, rel), { withFileTypes: true })){
+      if(d.name.startsWith('.')) continue;
+      const name = rel ? `${rel}/${d.name}` : d.name;
+      if(d.isDirectory()) walk(name);
+      else if(d.isFile() && (/\.md$/i.test(d.name) || name === MANIFEST || name === SIGNATURE)) files.set(name, fs.readFileSync(path.join(dir, name)));
+    }
+  };
+  walk('');
+  return files;
+}
+
+/** Read and check a bundle: raw bytes (.tar.gz or .tar) or a path under MCP_BUNDLES_DIR (archive or directory). */
+export function loadBundle(source: { data?: Buffer; path?: string }): LoadedBundle {
+  let files: Map<string, Buffer>;
+  let format: LoadedBundle['format'] = 'archive';
+  if(source.data){
+    files = tarUnpack(source.data[0] === 0x1f && source.data[1] === 0x8b ? zlib.gunzipSync(source.data) : source.data);
+  } else {
+    const full = resolveBundlePath(source.path ?? '');
+    if(!full) throw new Error(`bundle path outside ${bundleRoot()}`);
+    if(!fs.existsSync(full)) throw new Error(`bundle not found: ${source.path}`);
+    if(fs.statSync(full).isDirectory()){ format = 'directory'; files = readDirectoryFiles(full); }
+    else files = tarUnpack(/\.t?gz$/i.test(full) ? zlib.gunzipSync(fs.readFileSync(full)) : fs.readFileSync(full));
+  }
+  let bundle: LoadedBundle;
+  if(files.has(MANIFEST)){
+    bundle = readManifestBundle(format, files);
+  } else {
+    const issues: BundleIssue[] = [];
+    const entries: BundleEntry[] = [];
+    for(const [name, data] of [...files].sort((a, b) => a[0].localeCompare(b[0]))){
+      if(!/\.md$/i.test(name) || /(^|\/)readme\.md$/i.test(name)) continue;
+      const entry = readEntry(name, data, path.basename(name).replace(/\.md$/i, ''), issues);
+      if(entry) entries.push(entry);
+    }
+    bundle = { format, signature: { status: 'absent', trusted: false }, entries, issues };
+  }
+  const seen = new Set<string>();
+  bundle.entries = bundle.entries.filter(e => {
+    if(!seen.has(e.id)){ seen.add(e.id); return true; }
+    bundle.issues.push({ problem: 'duplicate-id', file: e.file, id: e.id });
+    return false;
+  });
+  return bundle;
+}
+
+// ---- import planning ----
+
+function rewriteReferences(fields: Record<string, unknown>, idMap: Map<string, string>): void {
+  const map = (v: unknown) => typeof v === 'string' ? idMap.get(v) ?? v : v;
+  for(const key of REFERENCE_FIELDS){
+    const v = fields[key];
+    if(typeof v === 'string') fields[key] = map(v);
+    else if(Array.isArray(v)) fields[key] = v.map(map);
+    else if(v && typeof v === 'object') fields[key] = Object.fromEntries(Object.entries(v).map(([type, targets]) => [type, Array.isArray(targets) ? targets.map(map) : targets]));
+  }
+}
+
+/** Select, map and classify bundle entries against the live catalog (`live` keyed by id). */
+export function planBundleImport(bundle: LoadedBundle, live: Map<string, InstructionEntry>, opts: BundlePlanOptions = {}): BundleImportPlan {
+  const byId = new Map(bundle.entries.map(e => [e.id, e]));
+  const missing = (opts.ids ?? []).filter(id => !byId.has(id));
+  const selected = opts.ids?.length ? bundle.entries.filter(e => opts.ids!.includes(e.id)) : bundle.entries;
+  const idMap = new Map(selected.map(e => [e.id, opts.remap?.[e.id] ?? `${opts.idPrefix ?? ''}${e.id}`]));
+  const invalidTargets = [...idMap.values()].filter(id => !RECORD_ID.test(id));
+  const plan: BundleImportPlan = { entries: [], counts: { new: 0, unchanged: 0, conflict: 0 }, missing, invalidTargets, apply: [] };
+  for(const e of selected){
+    const targetId = idMap.get(e.id)!;
+    const candidate: Record<string, unknown> = { ...e.fields, id: targetId, body: e.body };
+    rewriteReferences(candidate, idMap);
+    const current = live.get(targetId);
+    // instructions/import replaces these on overwrite and requires them on create: hand-written files may omit them
+    const fallback = (current ?? DEFAULTS) as Record<string, unknown>;
+    for(const f of ['priority', 'audience', 'requirement', 'rationale']) if(candidate[f] === undefined && fallback[f] !== undefined) candidate[f] = fallback[f];
+    let item: BundlePlanEntry;
+    if(!current){
+      item = { id: e.id, targetId, status: 'new', action: 'create' };
+    } else {
+      // Only fields the bundle supplies can change on import; the rest of the live record is kept
+      const fields = diffFields(current, candidate, DIFF_FIELDS.filter(f => candidate[f] !== undefined));
+      const bodyChanged = current.body.trim() !== e.body.trim();
+      if(!fields.length && !bodyChanged){
+        item = { id: e.id, targetId, status: 'unchanged', action: 'skip' };
+      } else {
+        item = { id: e.id, targetId, status: 'conflict', action: opts.mode === 'overwrite' ? 'overwrite' : 'skip', fields };
+        if(bodyChanged) item.bodyDiff = unifiedDiff(current.body, e.body.trim(), { fromLabel: `catalog/${targetId}`, toLabel: `bundle/${e.file}` });
+      }
+    }
+    plan.counts[item.status]++;
+    plan.entries.push(item);
+    if(item.action !== 'skip') plan.apply.push(candidate);
+  }
+  return plan;
+}
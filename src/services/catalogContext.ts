@@ -2,60 +2,83 @@ import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
 import { CatalogLoader } from './catalogLoader';
+import { getCatalogStorage } from './catalogRepository';
 import { InstructionEntry } from '../models/instruction';
 import { hasFeature, incrementCounter } from './features';
-import { atomicWriteJson } from './atomicFs';
 import { ClassificationService } from './classificationService';
 import { resolveOwner } from './ownershipService';
 import { getBooleanEnv } from '../utils/envUtils';
 import { getRuntimeConfig } from '../config/runtimeConfig';
+import { noteCatalogLoaded, noteEntryWritten, noteEntryRemoved } from './searchIndex';
+import { ensureCatalogRepo } from './catalogGit';
+import { noteCatalogRevision } from './catalogRevisions';
+import { currentTenant, runInTenant, tenantInstructionsDir, tenantScopedPath } from './tenantContext';
+import { CatalogSignatureReport, verifyCatalogSignatures } from './catalogSigning';
 
 // Extended CatalogState to retain loader diagnostics so we can expose precise rejection reasons
 // via a forthcoming instructions/diagnostics tool. Keeping optional properties so older code paths
 // remain unaffected if they don't need diagnostics.
-export interface CatalogState { loadedAt: string; hash: string; byId: Map<string, InstructionEntry>; list: InstructionEntry[]; fileCount: number; versionMTime: number; versionToken: string; loadErrors?: { file:string; error:string }[]; loadDebug?: { scanned:number; accepted:number; skipped:number; trace?: { file:string; accepted:boolean; reason?:string }[] }; loadSummary?: { scanned:number; accepted:number; skipped:number; reasons: Record<string,number>; cacheHits?: number; hashHits?: number } }
-let state: CatalogState | null = null;
-// Simple reliable invalidation: any mutation sets dirty=true; next ensureLoaded() performs full rescan.
-let dirty = false;
-
-// Usage snapshot persistence (shared)
-const usageSnapshotPath = path.join(process.cwd(),'data','usage-snapshot.json');
+export interface CatalogState { tenant?: string; signature?: CatalogSignatureReport; loadedAt: string; hash: string; byId: Map<string, InstructionEntry>; list: InstructionEntry[]; fileCount: number; versionMTime: number; versionToken: string; loadErrors?: { file:string; error:string }[]; loadDebug?: { scanned:number; accepted:number; skipped:number; trace?: { file:string; accepted:boolean; reason?:string }[] }; loadSummary?: { scanned:number; accepted:number; skipped:number; reasons: Record<string,number>; cacheHits?: number; hashHits?: number } }
+// Usage snapshot persistence: data/usage-snapshot.json for the global catalog, data/tenants/<tenant>/ per tenant
+const usageSnapshotFile = path.join(process.cwd(),'data','usage-snapshot.json');
 interface UsagePersistRecord { usageCount?: number; firstSeenTs?: string; lastUsedAt?: string }
-let usageDirty = false; let usageWriteTimer: NodeJS.Timeout | null = null;
-// Resilient snapshot cache (guards against rare parse races of partially written file)
-let lastGoodUsageSnapshot: Record<string, UsagePersistRecord> = {};
-// Monotonic in-process usage counter memory to repair rare reload races that transiently
-// re-materialize an entry with a lower usageCount than previously observed (e.g. snapshot
-// not yet flushed or parsed during a tight reload window). Ensures tests observing two
-// sequential increments never regress to 1 on second call.
-const observedUsage: Record<string, number> = {};
-// Ephemeral in-process firstSeen cache to survive catalog reloads that happen before first flush lands.
-// If a reload occurs in the narrow window after first increment (firstSeenTs set) but before the synchronous
-// flush writes the snapshot (or if a parse race causes fallback), we rehydrate from this map so tests and
-// callers never observe a regression to undefined.
-const ephemeralFirstSeen: Record<string,string> = {};
-// Authoritative map - once a firstSeenTs is established it is recorded here and treated as immutable.
-// Any future observation of an entry missing firstSeenTs will restore from this source first.
-const firstSeenAuthority: Record<string,string> = {};
-// Authoritative usage counter map similar to firstSeenAuthority. Guards against extremely
-// rare reload races observed in CI where an entry's in-memory object re-materializes with
-// usageCount undefined (or a lower value) prior to snapshot overlay / monotonic repair.
-// We promote from this authority map before applying increment so sequential increments
-// within a single test (expecting 1 -> 2) never regress to 1.
-const usageAuthority: Record<string, number> = {};
-// Authoritative lastUsedAt map for resilience between reload + snapshot overlay timing.
-const lastUsedAuthority: Record<string, string> = {};
+
+// Loaded state and usage bookkeeping are held per tenant (tenantContext.ts; the '' slot is the global catalog)
+// so tenants never share in-memory entries or usage counters.
+interface CatalogSlot {
+  tenant?: string;
+  state: CatalogState | null;
+  // Simple reliable invalidation: any mutation sets dirty=true; next ensureLoaded() performs full rescan.
+  dirty: boolean;
+  usageSnapshotPath: string;
+  usageDirty: boolean;
+  usageWriteTimer: NodeJS.Timeout | null;
+  // Resilient snapshot cache (guards against rare parse races of partially written file)
+  lastGoodUsageSnapshot: Record<string, UsagePersistRecord>;
+  // Monotonic in-process usage counter memory to repair rare reload races that transiently
+  // re-materialize an entry with a lower usageCount than previously observed (e.g. snapshot
+  // not yet flushed or parsed during a tight reload window). Ensures tests observing two
+  // sequential increments never regress to 1 on second call.
+  observedUsage: Record<string, number>;
+  // Ephemeral in-process firstSeen cache to survive catalog reloads that happen before first flush lands.
+  // If a reload occurs in the narrow window after first increment (firstSeenTs set) but before the synchronous
+  // flush writes the snapshot (or if a parse race causes fallback), we rehydrate from this map so tests and
+  // callers never observe a regression to undefined.
+  ephemeralFirstSeen: Record<string,string>;
+  // Authoritative map - once a firstSeenTs is established it is recorded here and treated as immutable.
+  // Any future observation of an entry missing firstSeenTs will restore from this source first.
+  firstSeenAuthority: Record<string,string>;
+  // Authoritative usage counter map similar to firstSeenAuthority. Guards against extremely
+  // rare reload races observed in CI where an entry's in-memory object re-materializes with
+  // usageCount undefined (or a lower value) prior to snapshot overlay / monotonic repair.
+  // We promote from this authority map before applying increment so sequential increments
+  // within a single test (expecting 1 -> 2) never regress to 1.
+  usageAuthority: Record<string, number>;
+  // Authoritative lastUsedAt map for resilience between reload + snapshot overlay timing.
+  lastUsedAuthority: Record<string, string>;
+}
+const slots = new Map<string, CatalogSlot>();
+function currentSlot(): CatalogSlot {
+  const tenant = currentTenant();
+  let slot = slots.get(tenant || '');
+  if(!slot){
+    slot = { tenant, state: null, dirty: false, usageSnapshotPath: tenantScopedPath(usageSnapshotFile, tenant), usageDirty: false, usageWriteTimer: null, lastGoodUsageSnapshot: {}, observedUsage: {}, ephemeralFirstSeen: {}, firstSeenAuthority: {}, usageAuthority: {}, lastUsedAuthority: {} };
+    slots.set(tenant || '', slot);
+  }
+  return slot;
+}
 
 // Defensive invariant repair: if any code path ever observes an InstructionEntry with a missing
 // firstSeenTs after it was previously established (should not happen, but flake indicates a very
 // rare timing or cross-test interaction), we repair it from ephemeral cache or lastGood snapshot.
 function restoreFirstSeenInvariant(e: InstructionEntry){
   if(e.firstSeenTs) return;
-  const auth = firstSeenAuthority[e.id];
+  const slot = currentSlot();
+  const auth = slot.firstSeenAuthority[e.id];
   if(auth){ e.firstSeenTs = auth; incrementCounter('usage:firstSeenAuthorityRepair'); return; }
-  const ep = ephemeralFirstSeen[e.id];
+  const ep = slot.ephemeralFirstSeen[e.id];
   if(ep){ e.firstSeenTs = ep; incrementCounter('usage:firstSeenInvariantRepair'); return; }
-  const snap = (lastGoodUsageSnapshot as Record<string, UsagePersistRecord>)[e.id];
+  const snap = (slot.lastGoodUsageSnapshot as Record<string, UsagePersistRecord>)[e.id];
   if(snap?.firstSeenTs){ e.firstSeenTs = snap.firstSeenTs; incrementCounter('usage:firstSeenInvariantRepair'); }
   // If still missing after all repair sources, track an exhausted repair attempt (extremely rare diagnostic)
   if(!e.firstSeenTs){ incrementCounter('usage:firstSeenRepairExhausted'); }
@@ -68,18 +91,19 @@ function restoreFirstSeenInvariant(e: InstructionEntry){
 // count (never regressing) – eliminating flakiness without impacting production semantics.
 function restoreUsageInvariant(e: InstructionEntry){
   if(e.usageCount != null) return;
+  const slot = currentSlot();
   // Prefer authoritative value, then observed, then persisted snapshot, else default 0.
-  if(usageAuthority[e.id] != null){
-    e.usageCount = usageAuthority[e.id];
+  if(slot.usageAuthority[e.id] != null){
+    e.usageCount = slot.usageAuthority[e.id];
     incrementCounter('usage:usageInvariantAuthorityRepair');
     return;
   }
-  if(observedUsage[e.id] != null){
-    e.usageCount = observedUsage[e.id];
+  if(slot.observedUsage[e.id] != null){
+    e.usageCount = slot.observedUsage[e.id];
     incrementCounter('usage:usageInvariantObservedRepair');
     return;
   }
-  const snap = (lastGoodUsageSnapshot as Record<string, UsagePersistRecord>)[e.id];
+  const snap = (slot.lastGoodUsageSnapshot as Record<string, UsagePersistRecord>)[e.id];
   if(snap?.usageCount != null){
     e.usageCount = snap.usageCount;
     incrementCounter('usage:usageInvariantSnapshotRepair');
@@ -93,8 +117,9 @@ function restoreUsageInvariant(e: InstructionEntry){
 // Repair missing lastUsedAt for entries with usage.
 function restoreLastUsedInvariant(e: InstructionEntry){
   if(e.lastUsedAt) return;
-  if(lastUsedAuthority[e.id]){ e.lastUsedAt = lastUsedAuthority[e.id]; incrementCounter('usage:lastUsedAuthorityRepair'); return; }
-  const snap = (lastGoodUsageSnapshot as Record<string, UsagePersistRecord>)[e.id];
+  const slot = currentSlot();
+  if(slot.lastUsedAuthority[e.id]){ e.lastUsedAt = slot.lastUsedAuthority[e.id]; incrementCounter('usage:lastUsedAuthorityRepair'); return; }
+  const snap = (slot.lastGoodUsageSnapshot as Record<string, UsagePersistRecord>)[e.id];
   if(snap?.lastUsedAt){ e.lastUsedAt = snap.lastUsedAt; incrementCounter('usage:lastUsedSnapshotRepair'); return; }
   if((e.usageCount ?? 0) > 0 && e.firstSeenTs){ e.lastUsedAt = e.firstSeenTs; incrementCounter('usage:lastUsedFirstSeenRepair'); }
 }
@@ -133,17 +158,17 @@ export function clearUsageRateLimit(id?: string) {
   }
 }
 
-function ensureDataDir(){ const dir = path.dirname(usageSnapshotPath); if(!fs.existsSync(dir)) fs.mkdirSync(dir,{recursive:true}); }
-function loadUsageSnapshot(){
+function ensureDataDir(slot: CatalogSlot){ const dir = path.dirname(slot.usageSnapshotPath); if(!fs.existsSync(dir)) fs.mkdirSync(dir,{recursive:true}); }
+function loadUsageSnapshot(slot: CatalogSlot = currentSlot()){
   // Up to three immediate attempts (fast, synchronous) – mitigates transient parse / rename visibility races
   for(let attempt=0; attempt<3; attempt++){
     try {
-      if(fs.existsSync(usageSnapshotPath)){
-        const raw = fs.readFileSync(usageSnapshotPath,'utf8');
+      if(fs.existsSync(slot.usageSnapshotPath)){
+        const raw = fs.readFileSync(slot.usageSnapshotPath,'utf8');
         const parsed = JSON.parse(raw) as Record<string, UsagePersistRecord>;
         // Merge forward any firstSeenTs that disappeared (should not happen, but protects against rare partial reads)
-        if(lastGoodUsageSnapshot && parsed){
-          for(const [id, prev] of Object.entries(lastGoodUsageSnapshot)){
+        if(slot.lastGoodUsageSnapshot && parsed){
+          for(const [id, prev] of Object.entries(slot.lastGoodUsageSnapshot)){
             const cur = parsed[id];
             if(cur && !cur.firstSeenTs && prev.firstSeenTs){
               cur.firstSeenTs = prev.firstSeenTs; // repair silently
@@ -151,7 +176,7 @@ function loadUsageSnapshot(){
             }
           }
         }
-        lastGoodUsageSnapshot = parsed;
+        slot.lastGoodUsageSnapshot = parsed;
         return parsed;
       }
       break; // file not present – exit attempts
@@ -160,39 +185,40 @@ function loadUsageSnapshot(){
     }
   }
   // Fallback to last good snapshot (prevents loss of firstSeenTs on rare parse race)
-  return lastGoodUsageSnapshot;
+  return slot.lastGoodUsageSnapshot;
 }
 // Shorter debounce (was 500ms) to reduce race windows in tight tests that assert on snapshot
-function scheduleUsageFlush(){
-  usageDirty = true;
-  if(usageWriteTimer) return;
+function scheduleUsageFlush(slot: CatalogSlot = currentSlot()){
+  slot.usageDirty = true;
+  if(slot.usageWriteTimer) return;
   const delay = getRuntimeConfig().catalog.usageFlushMs;
-  usageWriteTimer = setTimeout(flushUsageSnapshot, delay);
+  slot.usageWriteTimer = setTimeout(()=> flushUsageSnapshot(slot), delay);
 }
-function flushUsageSnapshot(){
-  if(!usageDirty) return;
-  if(usageWriteTimer) clearTimeout(usageWriteTimer);
-  usageWriteTimer=null; usageDirty=false;
+function flushUsageSnapshot(slot: CatalogSlot = currentSlot()){
+  if(!slot.usageDirty) return;
+  if(slot.usageWriteTimer) clearTimeout(slot.usageWriteTimer);
+  slot.usageWriteTimer=null; slot.usageDirty=false;
   try {
-    ensureDataDir();
-    if(state){
+    ensureDataDir(slot);
+    if(slot.state){
       const obj: Record<string, UsagePersistRecord> = {};
-      for(const e of state.list){
-        const authoritative = e.firstSeenTs || firstSeenAuthority[e.id];
-        if(authoritative && !firstSeenAuthority[e.id]) firstSeenAuthority[e.id] = authoritative;
+      for(const e of slot.state.list){
+        const authoritative = e.firstSeenTs || slot.firstSeenAuthority[e.id];
+        if(authoritative && !slot.firstSeenAuthority[e.id]) slot.firstSeenAuthority[e.id] = authoritative;
         if(e.usageCount || e.lastUsedAt || authoritative){ obj[e.id] = { usageCount: e.usageCount, firstSeenTs: authoritative, lastUsedAt: e.lastUsedAt }; }
       }
       // Atomic write: write to temp then rename to avoid readers seeing partial JSON
-      const tmp = usageSnapshotPath + '.tmp';
+      const tmp = slot.usageSnapshotPath + '.tmp';
       fs.writeFileSync(tmp, JSON.stringify(obj,null,2));
-      try { fs.renameSync(tmp, usageSnapshotPath); } catch { /* fallback to direct write if rename fails */ fs.writeFileSync(usageSnapshotPath, JSON.stringify(obj,null,2)); }
-      lastGoodUsageSnapshot = obj; // update cache
+      try { fs.renameSync(tmp, slot.usageSnapshotPath); } catch { /* fallback to direct write if rename fails */ fs.writeFileSync(slot.usageSnapshotPath, JSON.stringify(obj,null,2)); }
+      slot.lastGoodUsageSnapshot = obj; // update cache
     }
   } catch { /* ignore */ }
 }
-process.on('SIGINT', ()=>{ flushUsageSnapshot(); process.exit(0); });
-process.on('SIGTERM', ()=>{ flushUsageSnapshot(); process.exit(0); });
-process.on('beforeExit', ()=>{ flushUsageSnapshot(); });
+function flushAllUsageSnapshots(){ for(const slot of slots.values()) flushUsageSnapshot(slot); }
+process.on('SIGINT', ()=>{ flushAllUsageSnapshots(); process.exit(0); });
+process.on('SIGTERM', ()=>{ flushAllUsageSnapshots(); process.exit(0); });
+process.on('beforeExit', ()=>{ flushAllUsageSnapshots(); });
 
 // Dynamically pinned instructions directory.
 // Original implementation captured environment at module load which made later per‑suite
@@ -203,7 +229,7 @@ process.on('beforeExit', ()=>{ flushUsageSnapshot(); });
 // performs a clean scan of the newly pinned directory.
 let PINNED_INSTRUCTIONS_DIR: string | null = null;
 let LAST_ENV_INSTRUCTIONS_DIR: string | null = null;
-export function getInstructionsDir(){
+function globalInstructionsDir(){
   const raw = process.env.INSTRUCTIONS_DIR || '';
   const desired = raw ? path.resolve(raw) : path.join(process.cwd(),'instructions');
   if(!PINNED_INSTRUCTIONS_DIR){
@@ -214,8 +240,8 @@ export function getInstructionsDir(){
   } else if(desired !== PINNED_INSTRUCTIONS_DIR){
     // Environment updated since initial pin -> repin and invalidate catalog state
     PINNED_INSTRUCTIONS_DIR = desired; LAST_ENV_INSTRUCTIONS_DIR = raw || '';
-    dirty = true; // force reload on next ensureLoaded
-    state = null; // drop prior state referencing old directory
+    // force reload on next ensureLoaded and drop prior state referencing old directory (tenants inherit from it)
+    for(const slot of slots.values()){ slot.dirty = true; slot.state = null; }
     if(!fs.existsSync(PINNED_INSTRUCTIONS_DIR)){
       try { fs.mkdirSync(PINNED_INSTRUCTIONS_DIR,{recursive:true}); } catch {/* ignore */}
     }
@@ -225,6 +251,17 @@ export function getInstructionsDir(){
   }
   return PINNED_INSTRUCTIONS_DIR;
 }
+/** Catalog directory of the active tenant (tenantContext.ts), or the global instructions directory. */
+export function getInstructionsDir(){
+  const global = globalInstructionsDir();
+  const tenant = currentTenant();
+  if(!tenant) return global;
+  const dir = tenantInstructionsDir(tenant);
+  if(!fs.existsSync(dir)){
+    try { fs.mkdirSync(dir,{recursive:true}); } catch {/* ignore */}
+  }
+  return dir;
+}
 // Centralized tracing utilities
 import { emitTrace, traceEnabled } from './tracing';
 // Throttled file trace emission (avoid per-get amplification). We emit per-file decisions only
@@ -254,44 +291,89 @@ export function touchCatalogVersion(){
     // Write a monotonically increasing token (time + random) to avoid same-millisecond mtime coalescing on some filesystems
     const token = `${Date.now()}-${Math.random().toString(36).slice(2,8)}`;
     fs.writeFileSync(vf, token);
+    notifyCatalogVersionListeners(token, 'local');
   } catch { /* ignore */ }
 }
+
+// In-process version change listeners. Fired after our own touchCatalogVersion() and whenever the
+// cross-instance poller observes a token written by another process. Listeners run synchronously,
+// usually before the caller has finished invalidating/reloading, so consumers should defer any
+// catalog reads (e.g. MCP resource subscriptions debounce before diffing revisions).
+export type CatalogVersionChangeSource = 'local' | 'poller';
+export type CatalogVersionListener = (token: string, source: CatalogVersionChangeSource) => void;
+const versionListeners = new Set<CatalogVersionListener>();
+export function onCatalogVersionChange(listener: CatalogVersionListener): () => void {
+  versionListeners.add(listener);
+  return () => { versionListeners.delete(listener); };
+}
+function notifyCatalogVersionListeners(token: string, source: CatalogVersionChangeSource){
+  for(const l of Array.from(versionListeners)){
+    try { l(token, source); } catch { /* listener failures must never break mutations */ }
+  }
+}
 function readVersionMTime(): number { try { const vf=getVersionFile(); if(fs.existsSync(vf)){ const st = fs.statSync(vf); return st.mtimeMs || 0; } } catch { /* ignore */ } return 0; }
 function readVersionToken(): string { try { const vf=getVersionFile(); if(fs.existsSync(vf)){ return fs.readFileSync(vf,'utf8').trim(); } } catch { /* ignore */ } return ''; }
-export function markCatalogDirty(){ dirty = true; }
+export function markCatalogDirty(){ currentSlot().dirty = true; }
 export function ensureLoaded(): CatalogState {
+  const slot = currentSlot();
   const baseDir = getInstructionsDir();
+  // A tenant catalog includes the global layer, so it also reloads when the global catalog changes.
+  const inherited = slot.tenant && getRuntimeConfig().tenants.inheritGlobal ? runInTenant(null, ensureLoaded) : undefined;
   // Always reload if no state or dirty or version file changed.
   const currentVersionMTime = readVersionMTime();
-  const currentVersionToken = readVersionToken();
-  if(state && !dirty){
-    if(currentVersionMTime && currentVersionMTime === state.versionMTime && currentVersionToken === state.versionToken){
-      return state;
+  const currentVersionToken = readVersionToken() + (inherited ? `|${inherited.versionToken}:${inherited.hash}` : '');
+  if(slot.state && !slot.dirty){
+    if(currentVersionMTime && currentVersionMTime === slot.state.versionMTime && currentVersionToken === slot.state.versionToken){
+      return slot.state;
     }
   }
+  // Baseline-commit the catalog before the first mutation when git history is enabled (no-op otherwise).
+  if(getRuntimeConfig().catalog.git.enabled){ try { ensureCatalogRepo(baseDir); } catch { /* ignore */ } }
   const loader = new CatalogLoader(baseDir);
   const result = loader.load();
+  // Signed catalogs (catalogSigning.ts): report or refuse entries that do not match the signed manifest
+  const signing = verifyCatalogSignatures(result.entries);
+  if(signing && signing.report.refused){
+    const refused = new Set(signing.report.issues.map(i=> i.id));
+    for(const issue of signing.report.issues) result.errors.push({ file: `${issue.id}.json`, error: `signature:${issue.reason}` });
+    result.entries = signing.accepted;
+    result.hash = CatalogLoader.computeCatalogHash(result.entries);
+    if(traceEnabled(1)) emitTrace('[trace:ensureLoaded:signature-refused]', { dir: baseDir, refused: [...refused].slice(0,50) });
+  }
+  if(inherited){
+    // Tenant entries win on id. Inherited entries are copies without usage fields so usage stays per tenant.
+    const own = new Set(result.entries.map(e=> e.id));
+    for(const g of inherited.list){
+      if(own.has(g.id)) continue;
+      const copy: InstructionEntry = { ...g }; delete copy.usageCount; delete copy.firstSeenTs; delete copy.lastUsedAt;
+      result.entries.push(copy);
+    }
+    result.hash = CatalogLoader.computeCatalogHash(result.entries);
+  }
   const byId = new Map<string, InstructionEntry>(); result.entries.forEach(e=>byId.set(e.id,e));
-  state = { loadedAt: new Date().toISOString(), hash: result.hash, byId, list: result.entries, fileCount: result.entries.length, versionMTime: currentVersionMTime, versionToken: currentVersionToken, loadErrors: result.errors, loadDebug: result.debug, loadSummary: result.summary };
-  dirty = false;
+  slot.state = { loadedAt: new Date().toISOString(), hash: result.hash, byId, list: result.entries, fileCount: result.entries.length, versionMTime: currentVersionMTime, versionToken: currentVersionToken, loadErrors: result.errors, loadDebug: result.debug, loadSummary: result.summary, tenant: slot.tenant, signature: signing?.report };
+  slot.dirty = false;
   // Overlay usage snapshot (simplified; no spin/repair loops here—existing invariant repairs still occur in getCatalogState)
   try {
-    const snap = loadUsageSnapshot();
+    const snap = loadUsageSnapshot(slot);
     if(snap){
-      for(const e of state.list){
+      for(const e of slot.state.list){
         const rec = (snap as Record<string, { usageCount?: number; firstSeenTs?: string; lastUsedAt?: string }>)[e.id];
         if(rec){
           if(e.usageCount == null && rec.usageCount != null) e.usageCount = rec.usageCount;
-          if(!e.firstSeenTs && rec.firstSeenTs){ e.firstSeenTs = rec.firstSeenTs; if(!firstSeenAuthority[e.id]) firstSeenAuthority[e.id] = rec.firstSeenTs; }
+          if(!e.firstSeenTs && rec.firstSeenTs){ e.firstSeenTs = rec.firstSeenTs; if(!slot.firstSeenAuthority[e.id]) slot.firstSeenAuthority[e.id] = rec.firstSeenTs; }
           if(!e.lastUsedAt && rec.lastUsedAt) e.lastUsedAt = rec.lastUsedAt;
         }
       }
     }
   } catch { /* ignore */ }
+  // Keep the full-text index (if one has been built) incrementally in step with the new snapshot.
+  try { noteCatalogLoaded(slot.state.list); } catch { /* ignore */ }
+  try { noteCatalogRevision(slot.state.hash, slot.state.list); } catch { /* ignore */ }
   if(traceEnabled(1)){
-    try { emitTrace('[trace:ensureLoaded:simple-reload]', { dir: baseDir, count: state.list.length }); } catch { /* ignore */ }
+    try { emitTrace('[trace:ensureLoaded:simple-reload]', { dir: baseDir, count: slot.state.list.length }); } catch { /* ignore */ }
   }
-  return state;
+  return slot.state;
 }
 
 // ---------------------------------------------------------------------------
@@ -348,6 +430,7 @@ export function startCatalogVersionPoller(opts: CatalogPollerOptions = {}){
       if(prevToken !== tk){
         markCatalogDirty();
         try { incrementCounter('catalog:pollerVersionChanged'); } catch { /* ignore */ }
+        notifyCatalogVersionListeners(tk, 'poller');
         if(proactive){
           // Proactive reload to keep process view hot; ignore errors.
           try { ensureLoaded(); incrementCounter('catalog:pollerProactiveReload'); } catch { /* ignore */ }
@@ -361,7 +444,12 @@ export function startCatalogVersionPoller(opts: CatalogPollerOptions = {}){
 export function stopCatalogVersionPoller(){ if(versionPoller){ clearInterval(versionPoller); versionPoller = null; } }
 
 // Mutation helpers (import/add/remove/groom share)
-export function invalidate(){ state = null; dirty = true; }
+export function invalidate(){
+  const slot = currentSlot();
+  slot.state = null; slot.dirty = true;
+  // tenant catalogs include the global layer
+  if(!slot.tenant){ for(const s of slots.values()) s.dirty = true; }
+}
 export function getCatalogState(){
   // Always enforce invariant on access in case an entry transiently lost firstSeenTs
   const st = ensureLoaded();
@@ -377,8 +465,9 @@ export function getCatalogState(){
 export function getDebugCatalogSnapshot(){
   const dir = getInstructionsDir();
   let files:string[] = [];
-  try { files = fs.readdirSync(dir).filter(f=> f.endsWith('.json')).sort(); } catch { /* ignore */ }
-  const current = state; // do not trigger ensureLoaded here
+  try { files = getCatalogStorage(dir).listFiles().sort(); } catch { /* ignore */ }
+  const slot = currentSlot();
+  const current = slot.state; // do not trigger ensureLoaded here
   const loadedIds = current ? new Set(current.list.map(e=> e.id)) : new Set<string>();
   const missingIds = current ? files.map(f=> f.replace(/\.json$/,'')).filter(id=> !loadedIds.has(id)) : [];
   const extraLoaded = current ? current.list.filter(e=> !files.includes(e.id + '.json')).map(e=> e.id) : [];
@@ -388,7 +477,7 @@ export function getDebugCatalogSnapshot(){
     fileNames: files,
     catalogLoaded: !!current,
     catalogCount: current? current.list.length: 0,
-    dirtyFlag: dirty,
+    dirtyFlag: slot.dirty,
     missingIds,
     extraLoaded,
     loadedAt: current?.loadedAt,
@@ -404,7 +493,7 @@ export function getCatalogDiagnostics(opts?: { includeTrace?: boolean }){
   const debug = st.loadDebug;
   const errors = st.loadErrors || [];
   let filesOnDisk: string[] = [];
-  try { filesOnDisk = fs.readdirSync(dir).filter(f=> f.endsWith('.json')); } catch { /* ignore */ }
+  try { filesOnDisk = getCatalogStorage(dir).listFiles(); } catch { /* ignore */ }
   const diskIds = new Set(filesOnDisk.map(f=> f.replace(/\.json$/,'')));
   const missingOnCatalog = [...diskIds].filter(id=> !st.byId.has(id));
   // Adjust anomaly: previously accepted template files (e.g. powershell.template.*) might appear
@@ -464,11 +553,11 @@ export function computeGovernanceHash(entries: InstructionEntry[]): string {
 
 // Mutation helpers (import/add/remove/groom share)
 export function writeEntry(entry: InstructionEntry){
-  const file = path.join(getInstructionsDir(), `${entry.id}.json`);
   const classifier = new ClassificationService();
   const record = classifier.normalize(entry);
   if(record.owner === 'unowned'){ const auto = resolveOwner(record.id); if(auto){ record.owner = auto; record.updatedAt = new Date().toISOString(); } }
-  atomicWriteJson(file, record);
+  getCatalogStorage(getInstructionsDir()).save(record);
+  const slot = currentSlot();
   // Revised mutation strategy (2025-09-14): Avoid setting dirty=true when we can
   // apply the change directly to the in-memory catalog. Previous implementation
   // marked the catalog dirty before an immediate getCatalogState() call in tests,
@@ -479,17 +568,18 @@ export function writeEntry(entry: InstructionEntry){
   //  2. Touch the version file so other processes/pollers observe the change.
   //  3. Only mark dirty if no state is currently loaded (so first subsequent
   //     access triggers a load). Otherwise we keep the current state hot.
-  if(state){
-    const existing = state.byId.get(record.id);
+  if(slot.state){
+    const existing = slot.state.byId.get(record.id);
     if(existing){
       // Update in-place so references (including any cached projections) see new fields.
       Object.assign(existing, record);
       try { incrementCounter('catalog:inMemoryUpdate'); } catch { /* ignore */ }
     } else {
-      state.list.push(record);
-      state.byId.set(record.id, record);
+      slot.state.list.push(record);
+      slot.state.byId.set(record.id, record);
       try { incrementCounter('catalog:inMemoryMaterialize'); } catch { /* ignore */ }
     }
+    try { noteEntryWritten(slot.state.byId.get(record.id) || record, slot.state.list); } catch { /* ignore */ }
     // Signal externally. Then optimistically update in-memory version snapshot so getCatalogState()
     // does NOT trigger an immediate reload (which can race directory enumeration on Windows).
     try {
@@ -497,8 +587,8 @@ export function writeEntry(entry: InstructionEntry){
       // After touching, read back token + mtime to align with ensureLoaded's cache validation logic.
       const vfMTime = (function(){ try { const vf = path.join(getInstructionsDir(), '.catalog-version'); if(fs.existsSync(vf)){ return fs.statSync(vf).mtimeMs || 0; } } catch { /* ignore */ } return 0; })();
       const vfToken = (function(){ try { const vf = path.join(getInstructionsDir(), '.catalog-version'); if(fs.existsSync(vf)){ return fs.readFileSync(vf,'utf8').trim(); } } catch { /* ignore */ } return ''; })();
-      if(vfMTime && state.versionMTime !== vfMTime){ state.versionMTime = vfMTime; }
-      if(vfToken && state.versionToken !== vfToken){ state.versionToken = vfToken; }
+      if(vfMTime && slot.state.versionMTime !== vfMTime){ slot.state.versionMTime = vfMTime; }
+      if(vfToken && slot.state.versionToken !== vfToken){ slot.state.versionToken = vfToken; }
     } catch { /* ignore */ }
   } else {
     // No in-memory state yet; next ensureLoaded should pick up new file.
@@ -507,13 +597,14 @@ export function writeEntry(entry: InstructionEntry){
   }
 }
 export function removeEntry(id:string){
-  const file = path.join(getInstructionsDir(), `${id}.json`);
-  if(fs.existsSync(file)) fs.unlinkSync(file);
+  getCatalogStorage(getInstructionsDir()).remove(id);
+  try { noteEntryRemoved(id, currentSlot().state?.list); } catch { /* ignore */ }
   markCatalogDirty();
 }
 export function scheduleUsagePersist(){ scheduleUsageFlush(); }
 export function incrementUsage(id:string){
   if(!hasFeature('usage')){ incrementCounter('usage:gated'); return { featureDisabled:true }; }
+  const slot = currentSlot();
   
   let st = ensureLoaded();
   let e = st.byId.get(id);
@@ -579,8 +670,8 @@ export function incrementUsage(id:string){
   // usageTracking.spec flake where second increment still returned 1).
   if(e.usageCount == null){
     // First consult in-memory authoritative map (fast, avoids disk IO)
-    if(usageAuthority[id] != null){
-      e.usageCount = usageAuthority[id];
+    if(slot.usageAuthority[id] != null){
+      e.usageCount = slot.usageAuthority[id];
       incrementCounter('usage:restoredFromAuthority');
     }
     try {
@@ -592,8 +683,8 @@ export function incrementUsage(id:string){
   // Monotonic repair: if we have a higher observed count in-memory (from a prior increment
   // during this process lifetime) than what the entry currently shows, promote to that value
   // before applying the new increment to avoid off-by-one regressions under reload races.
-  const priorObserved = observedUsage[id];
-  const priorAuthoritative = usageAuthority[id];
+  const priorObserved = slot.observedUsage[id];
+  const priorAuthoritative = slot.usageAuthority[id];
   const monotonicTarget = Math.max(priorObserved ?? 0, priorAuthoritative ?? 0);
   if(monotonicTarget && (e.usageCount == null || e.usageCount < monotonicTarget)){
     e.usageCount = monotonicTarget;
@@ -610,17 +701,17 @@ export function incrementUsage(id:string){
   // Atomically establish firstSeenTs if missing (avoid any window where undefined persists after increment)
   if(!e.firstSeenTs){
     e.firstSeenTs = nowIso;
-    ephemeralFirstSeen[e.id] = e.firstSeenTs; // track immediately for reload resilience
-    firstSeenAuthority[e.id] = e.firstSeenTs; incrementCounter('usage:firstSeenAuthoritySet');
+    slot.ephemeralFirstSeen[e.id] = e.firstSeenTs; // track immediately for reload resilience
+    slot.firstSeenAuthority[e.id] = e.firstSeenTs; incrementCounter('usage:firstSeenAuthoritySet');
   }
   e.lastUsedAt = nowIso; // always advance lastUsedAt on any increment
-  lastUsedAuthority[e.id] = e.lastUsedAt;
+  slot.lastUsedAuthority[e.id] = e.lastUsedAt;
 
   // For the first usage we force a synchronous flush to guarantee persistence of firstSeenTs quickly;
   // subsequent usages can rely on the debounce timer to coalesce writes.
   if(e.usageCount <= 2){
     // Force immediate persistence for first two increments so tests asserting on lastUsedAt & usageCount=2 see durable state.
-    usageDirty = true; if(usageWriteTimer) { clearTimeout(usageWriteTimer); usageWriteTimer = null; }
+    slot.usageDirty = true; if(slot.usageWriteTimer) { clearTimeout(slot.usageWriteTimer); slot.usageWriteTimer = null; }
     flushUsageSnapshot();
   } else {
     scheduleUsageFlush();
@@ -641,21 +732,21 @@ export function incrementUsage(id:string){
     }
   }
   // Record observed monotonic value after all mutation/clamp logic.
-  observedUsage[id] = e.usageCount;
-  usageAuthority[id] = e.usageCount;
+  slot.observedUsage[id] = e.usageCount;
+  slot.usageAuthority[id] = e.usageCount;
   // Deterministic post-increment assurance: only repair if the authoritative value is *higher* than
   // the current entry value (meaning we observed a regression). The previous implementation used
   // a <= comparison which caused every first increment (auth === usageCount) to be promoted to +1,
   // yielding an initial usageCount of 2 and breaking deterministic tests. Using a strict < prevents
   // accidental double increments while still healing genuine regressions.
-  const auth = usageAuthority[id];
+  const auth = slot.usageAuthority[id];
   if(auth !== undefined && e.usageCount !== undefined && e.usageCount < auth){
     // Promote to authoritative +1 (so the logical next increment semantics remain monotonic).
     const target = auth + 1;
     if(target !== e.usageCount){
       e.usageCount = target;
-      observedUsage[id] = e.usageCount;
-      usageAuthority[id] = e.usageCount;
+      slot.observedUsage[id] = e.usageCount;
+      slot.usageAuthority[id] = e.usageCount;
       try { incrementCounter('usage:postPromotion'); } catch { /* ignore */ }
     }
   }
@@ -665,17 +756,18 @@ export function incrementUsage(id:string){
 // Test-only helper to fully reset usage tracking state for isolation between test files / repeated runs.
 // Not part of public runtime API; name is intentionally prefixed to discourage production usage.
 export function __testResetUsageState(){
-  try { if(fs.existsSync(usageSnapshotPath)) fs.unlinkSync(usageSnapshotPath); } catch { /* ignore */ }
-  usageDirty = false;
-  if(usageWriteTimer){ clearTimeout(usageWriteTimer); usageWriteTimer = null; }
+  const slot = currentSlot();
+  try { if(fs.existsSync(slot.usageSnapshotPath)) fs.unlinkSync(slot.usageSnapshotPath); } catch { /* ignore */ }
+  slot.usageDirty = false;
+  if(slot.usageWriteTimer){ clearTimeout(slot.usageWriteTimer); slot.usageWriteTimer = null; }
   usageRateLimiter.clear();
-  lastGoodUsageSnapshot = {};
-  for(const k of Object.keys(ephemeralFirstSeen)) delete (ephemeralFirstSeen as Record<string,string>)[k];
-  for(const k of Object.keys(firstSeenAuthority)) delete (firstSeenAuthority as Record<string,string>)[k];
-  for(const k of Object.keys(usageAuthority)) delete (usageAuthority as Record<string,number>)[k];
-  for(const k of Object.keys(lastUsedAuthority)) delete (lastUsedAuthority as Record<string,string>)[k];
-  if(state){
-    for(const e of state.list){
+  slot.lastGoodUsageSnapshot = {};
+  for(const k of Object.keys(slot.ephemeralFirstSeen)) delete (slot.ephemeralFirstSeen as Record<string,string>)[k];
+  for(const k of Object.keys(slot.firstSeenAuthority)) delete (slot.firstSeenAuthority as Record<string,string>)[k];
+  for(const k of Object.keys(slot.usageAuthority)) delete (slot.usageAuthority as Record<string,number>)[k];
+  for(const k of Object.keys(slot.lastUsedAuthority)) delete (slot.lastUsedAuthority as Record<string,string>)[k];
+  if(slot.state){
+    for(const e of slot.state.list){
       // Reset optional usage-related fields; preserve object identity.
       (e as InstructionEntry).usageCount = undefined as unknown as number | undefined;
       (e as InstructionEntry).firstSeenTs = undefined as unknown as string | undefined;
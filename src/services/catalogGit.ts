@@ -0,0 +1,151 @@
+import fs from 'fs';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import type { AuditEntry } from './auditLog';
+
+/**
+ * Optional git history for the instruction catalog (MCP_CATALOG_GIT=1, file storage only).
+ *
+ * The instructions directory becomes a local git repository: the existing catalog is committed once as a
+ * baseline and every audited mutation (add, import, remove, groom, governanceUpdate, enrich, repair, revert)
+ * is committed with a message derived from its audit entry. Only instruction records are tracked; the
+ * manifest, version marker, skipped report and derived indexes are ignored. History, blame and revert
+ * read straight from the repository via the git CLI.
+ */
+
+export interface CatalogGitCommit { commit: string; author: string; date: string; message: string; diff?: string }
+export interface CatalogBlameLine { line: number; commit: string; author: string; date: string; summary: string; text: string }
+export interface CatalogBlameField { field: string; line: number; commit: string; author: string; date: string; summary: string }
+
+// Audit actions that never change record content.
+const NON_MUTATING_ACTIONS = new Set(['reload', 'ingestScan', 'accessDenied']);
+const REPO_IGNORE = ['_*.json', '.catalog-version', '.search/', 'catalog.sqlite*', '*.tmp', '.*.json.*', ''].join('\n');
+const REVISION_PATTERN = /^(?:[0-9a-fA-F]{4,40}|HEAD(?:~\d{1,4})?)$/;
+
+let gitAvailable: boolean | undefined;
+const initializedDirs = new Set<string>();
+
+export function isCatalogGitEnabled(): boolean {
+  const cfg = getRuntimeConfig().catalog;
+  if(!cfg.git.enabled || cfg.storage.backend !== 'file') return false;
+  if(gitAvailable === undefined){
+    try { execFileSync('git', ['--version'], { stdio: 'ignore' }); gitAvailable = true; }
+    catch {
+      gitAvailable = false;
+      try { process.stderr.write('[catalogGit] MCP_CATALOG_GIT=1 but the git CLI is not available; catalog history disabled\n'); } catch { /* ignore */ }
+    }
+  }
+  return gitAvailable;
+}
+
+function git(dir: string, args: string[]): string {
+  const { authorName, authorEmail } = getRuntimeConfig().catalog.git;
+  const env: NodeJS.ProcessEnv = { ...process.env, GIT_AUTHOR_NAME: authorName, GIT_AUTHOR_EMAIL: authorEmail, GIT_COMMITTER_NAME: authorName, GIT_COMMITTER_EMAIL: authorEmail };
+  // Never let an enclosing repository's environment redirect commands away from the catalog repo.
+  delete env.GIT_DIR; delete env.GIT_WORK_TREE; delete env.GIT_INDEX_FILE;
+  return execFileSync('git', ['-C', dir, ...args], { encoding: 'utf8', env, stdio: ['ignore', 'pipe', 'pipe'], maxBuffer: 32 * 1024 * 1024 });
+}
+
+function hasStagedChanges(dir: string): boolean {
+  try { git(dir, ['diff', '--cached', '--quiet']); return false; } catch { return true; }
+}
+
+/** Initialize the catalog repository (idempotent) and commit the pre-existing catalog as a baseline. */
+export function ensureCatalogRepo(dir: string): boolean {
+  if(!isCatalogGitEnabled()) return false;
+  if(initializedDirs.has(dir)) return true;
+  if(!fs.existsSync(path.join(dir, '.git'))){
+    git(dir, ['init', '--quiet']);
+    fs.writeFileSync(path.join(dir, '.gitignore'), REPO_IGNORE);
+  }
+  initializedDirs.add(dir);
+  git(dir, ['add', '-A', '--', '.']);
+  if(hasStagedChanges(dir)) git(dir, ['commit', '--quiet', '--no-verify', '-m', 'baseline: existing catalog']);
+  return true;
+}
+
+function formatCommitMessage(entry: AuditEntry): string {
+  const ids = entry.ids || [];
+  const shown = ids.slice(0, 5).join(', ') + (ids.length > 5 ? ` (+${ids.length - 5} more)` : '');
+  const lines = [`${entry.action}: ${shown || 'catalog'}`, ''];
+  if(ids.length > 5) lines.push(`ids: ${ids.join(', ')}`);
+  if(entry.meta) lines.push(`meta: ${JSON.stringify(entry.meta)}`);
+  lines.push(`audit-ts: ${entry.ts}`);
+  return lines.join('\n');
+}
+
+/** Commit whatever the audited mutation changed; returns the new commit id, or undefined when nothing changed. */
+export function commitCatalogChange(dir: string, entry: AuditEntry): string | undefined {
+  if(NON_MUTATING_ACTIONS.has(entry.action) || !ensureCatalogRepo(dir)) return undefined;
+  git(dir, ['add', '-A', '--', '.']);
+  if(!hasStagedChanges(dir)) return undefined;
+  git(dir, ['commit', '--quiet', '--no-verify', '-m', formatCommitMessage(entry)]);
+  return git(dir, ['rev-parse', 'HEAD']).trim();
+}
+
+export function catalogHistory(dir: string, id: string, opts: { limit?: number; includeDiff?: boolean } = {}): CatalogGitCommit[] {
+  if(!ensureCatalogRepo(dir)) return [];
+  const limit = Math.max(1, Math.min(500, Math.floor(opts.limit ?? 50)));
+  let raw = '';
+  try { raw = git(dir, ['log', `-n${limit}`, '--format=%H%x1f%an%x1f%aI%x1f%B%x1e', '--', `${id}.json`]); } catch { return []; }
+  const commits: CatalogGitCommit[] = [];
+  for(const rec of raw.split('\x1e')){
+    const trimmed = rec.replace(/^\n+/, '');
+    if(!trimmed) continue;
+    const [commit, author, date, message] = trimmed.split('\x1f');
+    const c: CatalogGitCommit = { commit, author, date, message: (message || '').trim() };
+    if(opts.includeDiff){
+      try { c.diff = git(dir, ['show', '--format=', '--no-color', commit, '--', `${id}.json`]); } catch { /* ignore */ }
+    }
+    commits.push(c);
+  }
+  return commits;
+}
+
+export function catalogBlame(dir: string, id: string): CatalogBlameLine[] {
+  if(!ensureCatalogRepo(dir)) return [];
+  let raw = '';
+  try { raw = git(dir, ['blame', '--line-porcelain', '--', `${id}.json`]); } catch { return []; }
+  const lines: CatalogBlameLine[] = [];
+  let cur: Partial<CatalogBlameLine> = {};
+  for(const l of raw.split('\n')){
+    if(l.startsWith('\t')){
+      lines.push({ line: lines.length + 1, commit: cur.commit || '', author: cur.author || '', date: cur.date || '', summary: cur.summary || '', text: l.slice(1) });
+      cur = {};
+    } else if(/^[0-9a-f]{40} /.test(l)) cur.commit = l.slice(0, 40);
+    else if(l.startsWith('author ')) cur.author = l.slice(7);
+    else if(l.startsWith('author-time ')) cur.date = new Date(parseInt(l.slice(12), 10) * 1000).toISOString();
+    else if(l.startsWith('summary ')) cur.summary = l.slice(8);
+  }
+  return lines;
+}
+
+/**
+ * Collapse line blame onto top-level record fields (records are written with 2-space indent). Multi-line
+ * values (arrays, objects) are attributed to the most recent commit touching any of their lines.
+ */
+export function blameByField(lines: CatalogBlameLine[]): CatalogBlameField[] {
+  const fields: CatalogBlameField[] = [];
+  for(const l of lines){
+    const m = /^ {2}"([^"]+)":/.exec(l.text);
+    if(m){ fields.push({ field: m[1], line: l.line, commit: l.commit, author: l.author, date: l.date, summary: l.summary }); continue; }
+    const last = fields[fields.length - 1];
+    if(last && (/^ {3}/.test(l.text) || /^ {2}[\]}]/.test(l.text))){
+      if(l.date > last.date) Object.assign(last, { commit: l.commit, author: l.author, date: l.date, summary: l.summary });
+    }
+  }
+  return fields;
+}
+
+export function isValidRevision(revision: string): boolean { return REVISION_PATTERN.test(revision); }
+
+/** Record text at a revision plus the resolved full commit id; throws when the id did not exist there. */
+export function readCatalogRevision(dir: string, id: string, revision: string): { commit: string; text: string } {
+  if(!isValidRevision(revision)) throw new Error(`invalid revision: ${revision}`);
+  if(!ensureCatalogRepo(dir)) throw new Error('catalog git history disabled');
+  const commit = git(dir, ['rev-parse', '--verify', `${revision}^{commit}`]).trim();
+  return { commit, text: git(dir, ['show', `${commit}:${id}.json`]) };
+}
+
+export function __resetCatalogGit(){ gitAvailable = undefined; initializedDirs.clear(); }
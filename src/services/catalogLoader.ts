@@ -13,6 +13,7 @@ import schema from '../../schemas/instruction.schema.json';
 // Normal-verbosity tracing (level 1+) for per-file load lifecycle
 import { emitTrace, traceEnabled } from './tracing';
 import { getRuntimeConfig } from '../config/runtimeConfig';
+import { CatalogStorage, getCatalogStorage } from './catalogRepository';
 
 export interface CatalogLoadResult {
   entries: InstructionEntry[];
@@ -36,7 +37,10 @@ export interface CatalogLoadSummary {
 }
 
 export class CatalogLoader {
-  constructor(private readonly baseDir: string = getRuntimeConfig().catalog.baseDir, private readonly classifier = new ClassificationService()){}
+  private readonly storage: CatalogStorage;
+  constructor(private readonly baseDir: string = getRuntimeConfig().catalog.baseDir, private readonly classifier = new ClassificationService(), storage?: CatalogStorage){
+    this.storage = storage ?? getCatalogStorage(baseDir);
+  }
 
   /**
    * Robust JSON file reader with retry/backoff for transient Windows / network FS issues (EPERM/EBUSY/EACCES)
@@ -50,7 +54,7 @@ export class CatalogLoader {
     let lastErr: unknown = null;
     for(let attempt=1; attempt<=maxAttempts; attempt++){
       try {
-        const raw = fs.readFileSync(file,'utf8');
+        const raw = this.storage.readText(file);
         // Treat empty content as transient (likely race) unless final attempt
         if(!raw.trim()){ if(attempt===maxAttempts) return {}; throw new Error('empty file transient'); }
         return JSON.parse(raw) as unknown;
@@ -76,7 +80,7 @@ export class CatalogLoader {
     if(traceEnabled(1)){
       try { emitTrace('[trace:catalog:load-begin]', { dir }); } catch { /* ignore */ }
     }
-    if(!fs.existsSync(dir)) return { entries: [], errors: [{ file: dir, error: 'missing directory'}], hash: '' };
+    if(this.storage.backend === 'file' && !fs.existsSync(dir)) return { entries: [], errors: [{ file: dir, error: 'missing directory'}], hash: '' };
     // Normalization audit logging (optional): if MCP_CATALOG_NORMALIZATION_LOG is set, we
     // capture per-file normalization deltas (only when a rewrite-worthy change occurs) and
     // emit them as JSONL at the end of the load cycle. This creates a lightweight, append-
@@ -121,7 +125,7 @@ export class CatalogLoader {
     }
   } catch { /* ignore meta-schema registration issues */ }
   const validate = ajv.compile(schema as unknown as object) as (data: unknown) => boolean;
-  let files = fs.readdirSync(dir).filter(f => f.endsWith('.json'));
+  let files = this.storage.listFiles().filter(f => f.endsWith('.json'));
   // Exclude internal manifest file if present
   const MANIFEST_NAME = '_manifest.json';
   files = files.filter(f => f !== MANIFEST_NAME);
@@ -179,6 +183,8 @@ export class CatalogLoader {
         emitCatalogEvent({ phase: 'begin', file: f, index: scannedSoFar - 1, total: files.length });
       }
   const full = path.join(dir, f);
+      // Memo key: the file path, or a db-qualified record name for non-file storage backends.
+      const memoKey = this.storage.backend === 'file' ? full : `${this.storage.location}#${f}`;
       // Recursion / governance denial: prevent ingestion of files that originate from
       // repository governance or specification seed areas that must not become part of
       // the live instruction catalog (avoids knowledge recursion loops).
@@ -199,7 +205,7 @@ export class CatalogLoader {
       if(!denied){
         try {
           // Very small peek (first 200 bytes) – safe even for large files
-            const peek = fs.readFileSync(full, { encoding: 'utf8', flag: 'r' }).slice(0,200);
+            const peek = this.storage.readText(f).slice(0,200);
             if(/__GOVERNANCE_SEED__/.test(peek)) denied = true;
         } catch { /* ignore peek errors */ }
       }
@@ -217,8 +223,9 @@ export class CatalogLoader {
       let reused = false;
     if(memoryCacheEnabled){
         try {
-          const st = fs.statSync(full);
-          const cached = catalogMemo.get(full);
+          const st = this.storage.stat(f);
+          if(!st) throw new Error('stat-miss');
+          const cached = catalogMemo.get(memoKey);
       if(cached && cached.size === st.size && Math.abs(cached.mtimeMs - st.mtimeMs) < 1 && cached.buildSig === buildSig){
             // Reuse cached normalized entry
             entries.push({ ...cached.entry });
@@ -250,9 +257,9 @@ export class CatalogLoader {
         // Hash-based reuse path (only if metadata changed but content identical). We compute hash before parsing.
         if(memoryCacheEnabled && hashMemoEnabled){
           try {
-            const rawBuf = fs.readFileSync(full);
+            const rawBuf = Buffer.from(this.storage.readText(f), 'utf8');
             const contentHash = crypto.createHash('sha256').update(rawBuf).digest('hex');
-            const cached = catalogMemo.get(full);
+            const cached = catalogMemo.get(memoKey);
             if(cached && cached.contentHash === contentHash && cached.buildSig === buildSig){
               // Accept from hash cache without reparsing / revalidation
               entries.push({ ...cached.entry });
@@ -268,7 +275,7 @@ export class CatalogLoader {
             }
           } catch { /* fall through to normal parse */ }
         }
-  const rawAny = this.readJsonWithRetry(full) as Record<string, unknown>;
+  const rawAny = this.readJsonWithRetry(f) as Record<string, unknown>;
         // Ignore clearly non-instruction config files (no id/title/body/requirement) e.g. gates.json
         const looksInstruction = typeof rawAny.id === 'string' && typeof rawAny.title === 'string' && typeof rawAny.body === 'string';
         if(!looksInstruction){
@@ -310,7 +317,7 @@ export class CatalogLoader {
         }
         
         if(needsRewrite){
-          try { fs.writeFileSync(full, JSON.stringify(raw, null, 2)); } catch { /* ignore rewrite failure */ }
+          try { this.storage.writeText(f, JSON.stringify(raw, null, 2)); } catch { /* ignore rewrite failure */ }
         }
         
   const mutRaw = raw as InstructionEntry;
@@ -543,12 +550,13 @@ export class CatalogLoader {
         // Populate / refresh cache after successful normalization
         if(memoryCacheEnabled){
           try {
-            const st = fs.statSync(full);
+            const st = this.storage.stat(f);
+            if(!st) throw new Error('stat-miss');
             let contentHash: string | undefined;
             if(hashMemoEnabled){
               try { contentHash = crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex'); } catch { /* ignore */ }
             }
-            catalogMemo.set(full, { mtimeMs: st.mtimeMs, size: st.size, entry: { ...normalized }, contentHash, buildSig });
+            catalogMemo.set(memoKey, { mtimeMs: st.mtimeMs, size: st.size, entry: { ...normalized }, contentHash, buildSig });
           } catch { /* ignore */ }
         }
         if(trace) trace.push({ file:f, accepted:true });
@@ -569,7 +577,7 @@ export class CatalogLoader {
         else { emitCatalogEvent({ phase: 'end', file: f, accepted: false, reason, scanned: scannedSoFar, acceptedSoFar }); }
       }
     }
-    const hash = this.computeCatalogHash(entries);
+    const hash = CatalogLoader.computeCatalogHash(entries);
     const summary: CatalogLoadSummary = {
       scanned: files.length,
       accepted: entries.length,
@@ -685,7 +693,7 @@ export class CatalogLoader {
     return { entries, errors, hash, debug: { scanned: files.length, accepted: entries.length, skipped: files.length - entries.length, trace }, summary };
   }
 
-  private computeCatalogHash(entries: InstructionEntry[]): string {
+  static computeCatalogHash(entries: InstructionEntry[]): string {
     const h = crypto.createHash('sha256');
     const stable = entries
       .slice()
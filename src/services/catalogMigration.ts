@@ -0,0 +1,56 @@
+import fs from 'fs';
+import path from 'path';
+import { CatalogLoader } from './catalogLoader';
+import { FileCatalogRepository } from './catalogRepository';
+import { SqliteCatalogRepository } from './catalogRepository.sqlite';
+import { computeGovernanceHash } from './catalogContext';
+
+/**
+ * One-shot migration of a JSON-directory catalog into a SQLite catalog database.
+ *
+ * Record text is copied verbatim (no re-serialization) so sourceHash values are untouched, then both
+ * stores are loaded through CatalogLoader and compared on catalog hash, accepted count and governance
+ * hash. Side files (_manifest.json, _skipped.json) are not records and are skipped.
+ */
+
+export interface CatalogMigrationResult {
+  source: string;
+  target: string;
+  copied: number;
+  skipped: string[];
+  verified: boolean;
+  file: { count: number; hash: string; governanceHash: string };
+  sqlite: { count: number; hash: string; governanceHash: string };
+  mismatches: string[];
+}
+
+export function migrateJsonCatalogToSqlite(sourceDir: string, dbPath: string, opts: { replace?: boolean } = {}): CatalogMigrationResult {
+  const source = path.resolve(sourceDir);
+  const target = path.resolve(dbPath);
+  if(!fs.existsSync(source)) throw new Error(`source directory not found: ${source}`);
+  const fileStore = new FileCatalogRepository(source);
+  const sqliteStore = new SqliteCatalogRepository(target);
+  try {
+    const existing = sqliteStore.listFiles();
+    if(existing.length && !opts.replace) throw new Error(`target database already holds ${existing.length} records (use replace to overwrite): ${target}`);
+    let copied = 0; const skipped: string[] = [];
+    sqliteStore.transaction(() => {
+      for(const f of existing) sqliteStore.remove(f.slice(0, -5));
+      for(const f of fileStore.listFiles()){
+        if(f.startsWith('_')){ skipped.push(f); continue; }
+        sqliteStore.writeText(f, fileStore.readText(f));
+        copied++;
+      }
+    });
+    const summarize = (loader: CatalogLoader) => {
+      const res = loader.load();
+      return { count: res.entries.length, hash: res.hash, governanceHash: computeGovernanceHash(res.entries) };
+    };
+    const fileSide = summarize(new CatalogLoader(source, undefined, fileStore));
+    const sqliteSide = summarize(new CatalogLoader(source, undefined, sqliteStore));
+    const mismatches = (['count', 'hash', 'governanceHash'] as const).filter(k => fileSide[k] !== sqliteSide[k]);
+    return { source, target, copied, skipped, verified: mismatches.length === 0, file: fileSide, sqlite: sqliteSide, mismatches };
+  } finally {
+    sqliteStore.close();
+  }
+}
@@ -0,0 +1,136 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { createRequire } from 'module';
+import type BetterSqlite3 from 'better-sqlite3';
+import { InstructionEntry } from '../models/instruction';
+import type { CatalogStorage, CatalogSnapshot, CatalogRecordStat } from './catalogRepository';
+import { noteLocalCatalogWrite } from './catalogSigning';
+
+/**
+ * SQLite catalog storage (better-sqlite3, an optional dependency; works on every supported Node.js version).
+ *
+ * One row per instruction holding the exact JSON text the file backend would write, plus sourceHash /
+ * updatedAt columns for inspection. The database runs in WAL mode with a busy timeout so several server
+ * processes can read while one writes; multi-record mutations (import, groom) run inside
+ * `BEGIN IMMEDIATE` transactions instead of racing on per-file renames.
+ */
+
+type SqliteDriver = typeof BetterSqlite3;
+let driver: SqliteDriver | undefined;
+
+export function isSqliteAvailable(): boolean {
+  try { loadSqlite(); return true; } catch { return false; }
+}
+
+// Loaded on first use so the file backend runs where the native module was not installed.
+function loadSqlite(): SqliteDriver {
+  if(driver) return driver;
+  try {
+    driver = createRequire(__filename)('better-sqlite3') as SqliteDriver;
+    return driver;
+  } catch(e){
+    throw new Error(`SQLite catalog storage requires the optional better-sqlite3 package (${(e as Error).message}). Install it (npm install better-sqlite3) or set MCP_CATALOG_STORAGE=file.`);
+  }
+}
+
+const idFromFile = (file: string) => file.endsWith('.json') ? file.slice(0, -5) : file;
+
+export class SqliteCatalogRepository implements CatalogStorage {
+  readonly backend = 'sqlite' as const;
+  private db: BetterSqlite3.Database;
+  private depth = 0;
+  private lastMtime = 0;
+  private stmt: {
+    list: BetterSqlite3.Statement; get: BetterSqlite3.Statement; stat: BetterSqlite3.Statement; upsert: BetterSqlite3.Statement;
+    exists: BetterSqlite3.Statement; remove: BetterSqlite3.Statement; all: BetterSqlite3.Statement;
+  };
+
+  constructor(readonly location: string, opts: { busyTimeoutMs?: number } = {}){
+    const dir = path.dirname(location);
+    if(!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    const Database = loadSqlite();
+    this.db = new Database(location);
+    this.db.exec(`PRAGMA busy_timeout = ${Math.max(0, Math.floor(opts.busyTimeoutMs ?? 5000))}`);
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec('PRAGMA synchronous = NORMAL');
+    this.db.exec(`CREATE TABLE IF NOT EXISTS instructions (
+      id TEXT PRIMARY KEY,
+      json TEXT NOT NULL,
+      source_hash TEXT,
+      updated_at TEXT,
+      mtime_ms REAL NOT NULL
+    )`);
+    this.db.exec(`CREATE TABLE IF NOT EXISTS catalog_meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)`);
+    this.db.exec(`INSERT OR IGNORE INTO catalog_meta(key, value) VALUES ('storageVersion', '1')`);
+    this.stmt = {
+      list: this.db.prepare('SELECT id FROM instructions ORDER BY id'),
+      get: this.db.prepare('SELECT json FROM instructions WHERE id = ?'),
+      stat: this.db.prepare('SELECT length(json) AS size, mtime_ms AS mtimeMs FROM instructions WHERE id = ?'),
+      upsert: this.db.prepare(`INSERT INTO instructions (id, json, source_hash, updated_at, mtime_ms) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET json = excluded.json, source_hash = excluded.source_hash, updated_at = excluded.updated_at, mtime_ms = excluded.mtime_ms`),
+      exists: this.db.prepare('SELECT 1 AS present FROM instructions WHERE id = ?'),
+      remove: this.db.prepare('DELETE FROM instructions WHERE id = ?'),
+      all: this.db.prepare('SELECT id, json FROM instructions ORDER BY id')
+    };
+  }
+
+  listFiles(){ return (this.stmt.list.all() as { id: string }[]).map(r => `${r.id}.json`); }
+
+  readText(file: string){
+    const row = this.stmt.get.get(idFromFile(file)) as { json: string } | undefined;
+    if(!row) throw Object.assign(new Error(`ENOENT: no catalog record '${file}' in ${this.location}`), { code: 'ENOENT' });
+    return row.json;
+  }
+
+  stat(file: string): CatalogRecordStat | null {
+    const row = this.stmt.stat.get(idFromFile(file)) as { size: number; mtimeMs: number } | undefined;
+    return row ? { size: Number(row.size), mtimeMs: Number(row.mtimeMs) } : null;
+  }
+
+  writeText(file: string, text: string){
+    let sourceHash: string | null = null; let updatedAt: string | null = null;
+    try { const parsed = JSON.parse(text) as Partial<InstructionEntry>; sourceHash = parsed.sourceHash ?? null; updatedAt = parsed.updatedAt ?? null; } catch { /* stored verbatim; loader reports parse errors */ }
+    // Strictly increasing per process so the loader's (size, mtime) memo never reuses a stale parse.
+    const mtime = Math.max(Date.now(), this.lastMtime + 1);
+    this.lastMtime = mtime;
+    this.stmt.upsert.run(idFromFile(file), text, sourceHash, updatedAt, mtime);
+    noteLocalCatalogWrite(file);
+  }
+
+  exists(id: string){ return !!this.stmt.exists.get(id); }
+
+  save(entry: InstructionEntry){ this.writeText(`${entry.id}.json`, JSON.stringify(entry, null, 2)); }
+
+  remove(id: string){ return Number(this.stmt.remove.run(id).changes) > 0; }
+
+  load(): CatalogSnapshot {
+    const entries: InstructionEntry[] = [];
+    const hash = crypto.createHash('sha256');
+    for(const row of this.stmt.all.all() as { id: string; json: string }[]){
+      try {
+        const raw = JSON.parse(row.json) as InstructionEntry;
+        entries.push(raw);
+        hash.update(raw.id+':'+(raw.sourceHash||''),'utf8');
+      } catch { /* skip */ }
+    }
+    return { entries, hash: hash.digest('hex') };
+  }
+
+  transaction<T>(fn: () => T): T {
+    if(this.depth === 0) this.db.exec('BEGIN IMMEDIATE');
+    this.depth++;
+    try {
+      const result = fn();
+      this.depth--;
+      if(this.depth === 0) this.db.exec('COMMIT');
+      return result;
+    } catch(err){
+      this.depth--;
+      if(this.depth === 0){ try { this.db.exec('ROLLBACK'); } catch { /* ignore */ } }
+      throw err;
+    }
+  }
+
+  close(){ this.db.close(); }
+}
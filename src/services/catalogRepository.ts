@@ -3,14 +3,58 @@ import path from 'path';
 import crypto from 'crypto';
 import { InstructionEntry } from '../models/instruction';
 import { atomicWriteJson } from './atomicFs';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { SqliteCatalogRepository } from './catalogRepository.sqlite';
+import { currentTenant } from './tenantContext';
+import { noteLocalCatalogWrite } from './catalogSigning';
 
 export interface CatalogSnapshot { entries: InstructionEntry[]; hash: string; }
 
-export class FileCatalogRepository {
+export type CatalogStorageBackend = 'file' | 'sqlite';
+export interface CatalogRecordStat { size: number; mtimeMs: number }
+
+/**
+ * Storage contract behind the instruction catalog.
+ *
+ * Records are addressed by file name (`<id>.json`) and stored as the exact JSON text a file would hold, so
+ * CatalogLoader runs the same per-record pipeline (deny-list, memo cache, schema migration rewrite, Ajv
+ * validation, normalization) for every backend and sourceHash / catalog hash / governance hash semantics
+ * stay identical. Side files (_manifest.json, _skipped.json, .catalog-version, gates.json) always live in
+ * the instructions directory.
+ */
+export interface CatalogStorage {
+  readonly backend: CatalogStorageBackend;
+  /** Directory (file backend) or database path (sqlite backend). */
+  readonly location: string;
+  listFiles(): string[];
+  /** Raw record text; throws (code ENOENT) when missing. */
+  readText(file: string): string;
+  stat(file: string): CatalogRecordStat | null;
+  /** Replace a record with the given text verbatim. */
+  writeText(file: string, text: string): void;
+  exists(id: string): boolean;
+  /** Atomic create / replace (pretty-printed JSON, matching the on-disk file format). */
+  save(entry: InstructionEntry): void;
+  remove(id: string): boolean;
+  load(): CatalogSnapshot;
+  /** Run fn as one unit of work (real transaction on sqlite; passthrough for files). */
+  transaction<T>(fn: () => T): T;
+  close(): void;
+}
+
+export class FileCatalogRepository implements CatalogStorage {
+  readonly backend = 'file' as const;
   constructor(private baseDir: string) {}
+  get location(){ return this.baseDir; }
   listFiles(){
     try { return fs.readdirSync(this.baseDir).filter(f=> f.endsWith('.json')); } catch { return []; }
   }
+  readText(file: string){ return fs.readFileSync(path.join(this.baseDir, file),'utf8'); }
+  stat(file: string): CatalogRecordStat | null {
+    try { const st = fs.statSync(path.join(this.baseDir, file)); return { size: st.size, mtimeMs: st.mtimeMs }; } catch { return null; }
+  }
+  writeText(file: string, text: string){ fs.writeFileSync(path.join(this.baseDir, file), text); noteLocalCatalogWrite(file); }
+  exists(id: string){ return fs.existsSync(path.join(this.baseDir, `${id}.json`)); }
   load(): CatalogSnapshot {
     const files = this.listFiles();
     const entries: InstructionEntry[] = [];
@@ -28,9 +72,52 @@ export class FileCatalogRepository {
   save(entry: InstructionEntry){
     const fp = path.join(this.baseDir, `${entry.id}.json`);
     atomicWriteJson(fp, entry);
+    noteLocalCatalogWrite(`${entry.id}.json`);
   }
   remove(id:string){
     const fp = path.join(this.baseDir, `${id}.json`);
-    try { if(fs.existsSync(fp)) fs.unlinkSync(fp); } catch {/* ignore */}
+    try { if(fs.existsSync(fp)){ fs.unlinkSync(fp); return true; } } catch {/* ignore */}
+    return false;
   }
+  transaction<T>(fn: () => T): T { return fn(); }
+  close(){ /* nothing held open */ }
+}
+
+let sqliteStorage: { file: string; repo: SqliteCatalogRepository } | null = null;
+// Tenant databases (tenantContext.ts) stay open alongside the global one
+const tenantSqliteStorage = new Map<string, SqliteCatalogRepository>();
+
+/**
+ * Resolve the configured storage backend for an instructions directory (runtimeConfig.catalog.storage).
+ * The sqlite repository is cached per database path; the file repository is stateless and created per call.
+ * An explicit MCP_CATALOG_SQLITE_PATH applies to the global catalog; tenant catalogs use `<dir>/catalog.sqlite`.
+ */
+export function getCatalogStorage(dir: string = getRuntimeConfig().catalog.baseDir): CatalogStorage {
+  const cfg = getRuntimeConfig().catalog.storage;
+  if(cfg.backend !== 'sqlite') return new FileCatalogRepository(dir);
+  if(currentTenant()){
+    const file = path.join(dir, 'catalog.sqlite');
+    let repo = tenantSqliteStorage.get(file);
+    if(!repo){
+      if(!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+      repo = new SqliteCatalogRepository(file, { busyTimeoutMs: cfg.busyTimeoutMs });
+      tenantSqliteStorage.set(file, repo);
+    }
+    return repo;
+  }
+  const file = cfg.sqlitePath || path.join(dir, 'catalog.sqlite');
+  if(sqliteStorage && sqliteStorage.file === file) return sqliteStorage.repo;
+  closeCatalogStorage();
+  // Manifest / version marker / skipped report still live in the instructions directory.
+  if(!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  sqliteStorage = { file, repo: new SqliteCatalogRepository(file, { busyTimeoutMs: cfg.busyTimeoutMs }) };
+  return sqliteStorage.repo;
+}
+
+export function closeCatalogStorage(){
+  for(const repo of tenantSqliteStorage.values()){ try { repo.close(); } catch { /* ignore */ } }
+  tenantSqliteStorage.clear();
+  if(!sqliteStorage) return;
+  try { sqliteStorage.repo.close(); } catch { /* ignore */ }
+  sqliteStorage = null;
 }
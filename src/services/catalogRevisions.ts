@@ -0,0 +1,60 @@
+import { InstructionEntry } from '../models/instruction';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { isCatalogGitEnabled, catalogHistory, readCatalogRevision } from './catalogGit';
+
+/**
+ * Bounded in-memory history of recent catalog states, keyed by catalog hash.
+ *
+ * Each snapshot holds shallow copies of the entries (writeEntry updates live entries in place), reusing the
+ * previous snapshot's copy when an entry is unchanged so retention costs little beyond the entries that
+ * actually changed. Backs content diffs between catalog hashes and base lookup for three-way merges; when
+ * catalog git history is enabled, entry lookups fall back to the repository for older revisions.
+ */
+
+type Snapshot = Map<string, InstructionEntry>;
+export interface EntrySelector { sourceHash?: string; version?: string }
+
+const snapshots = new Map<string, Snapshot>(); // insertion order = age (oldest first)
+let latest: Snapshot | null = null;
+
+const signature = (e: InstructionEntry) => `${e.sourceHash}|${e.version || ''}|${e.updatedAt || ''}|${e.owner || ''}|${e.status || ''}`;
+
+export function noteCatalogRevision(hash: string, list: InstructionEntry[]){
+  const depth = getRuntimeConfig().catalog.revisionHistoryDepth;
+  if(depth <= 0 || !hash) return;
+  const snap: Snapshot = new Map();
+  for(const e of list){
+    const prev = latest?.get(e.id);
+    snap.set(e.id, prev && signature(prev) === signature(e) ? prev : { ...e });
+  }
+  // Governance-only edits keep the catalog hash; refresh the snapshot and move it to the newest slot.
+  snapshots.delete(hash);
+  snapshots.set(hash, snap);
+  latest = snap;
+  while(snapshots.size > depth){ snapshots.delete(snapshots.keys().next().value as string); }
+}
+
+export function getCatalogRevision(hash: string): Snapshot | undefined { return snapshots.get(hash); }
+
+export function listCatalogRevisions(): string[] { return [...snapshots.keys()].reverse(); }
+
+const matches = (e: InstructionEntry, sel: EntrySelector) =>
+  (!sel.sourceHash || e.sourceHash === sel.sourceHash) && (!sel.version || (e.version || '1.0.0') === sel.version);
+
+/** Most recent known revision of an entry matching the selector (memory first, then catalog git history in dir). */
+export function findEntryRevision(id: string, sel: EntrySelector, dir?: string): InstructionEntry | undefined {
+  for(const hash of listCatalogRevisions()){
+    const e = snapshots.get(hash)!.get(id);
+    if(e && matches(e, sel)) return e;
+  }
+  if(!dir || !isCatalogGitEnabled()) return undefined;
+  for(const c of catalogHistory(dir, id, { limit: 200 })){
+    try {
+      const e = JSON.parse(readCatalogRevision(dir, id, c.commit).text) as InstructionEntry;
+      if(matches(e, sel)) return e;
+    } catch { /* removed in this commit */ }
+  }
+  return undefined;
+}
+
+export function __resetCatalogRevisions(){ snapshots.clear(); latest = null; }
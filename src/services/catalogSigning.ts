@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { InstructionEntry } from '../models/instruction';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { currentTenant, tenantScopedPath } from './tenantContext';
+import { incrementCounter } from './features';
+import { logWarn } from './logger';
+import type { CatalogManifest } from './manifestManager';
+
+/**
+ * Ed25519 signing of the catalog manifest (MCP_MANIFEST_SIGNING).
+ *
+ * writeManifestFromCatalog() signs the manifest's entry list (ids, sourceHash, bodyHash and recordHash, a hash of
+ * the whole normalized record) with the local key file (MCP_SIGNING_KEY_FILE, generated on first use). On load
+ * catalogContext checks every entry against the signed manifest: an entry missing from it is `unsigned`, one
+ * whose hashes differ is `altered`, so edits to classification, status, approvals, owner or any other field are
+ * caught, not only body edits. `sign` reports
+ * them (catalog state, counters, log); `refuse` also leaves them out of the catalog. Records this process wrote
+ * since the last signed manifest count as signed, so server mutations are not refused before the manifest
+ * write that follows them. manifest/refresh with `acceptUnverified` re-signs refused entries.
+ */
+
+export interface ManifestSignature { alg: 'ed25519'; keyId: string; value: string }
+export interface SignatureIssue { id: string; reason: 'unsigned' | 'altered' }
+export interface CatalogSignatureReport { mode: 'sign' | 'refuse'; manifest: 'valid' | 'missing' | 'invalid'; keyId?: string; issues: SignatureIssue[]; refused: number }
+
+interface SigningKey { keyId: string; privateKey: crypto.KeyObject; publicKey: crypto.KeyObject }
+let cachedKey: { file: string; key: SigningKey } | null = null;
+
+export function signingEnabled(): boolean { return getRuntimeConfig().instructions.manifest.signing.mode !== 'off'; }
+
+/** Manifest location (snapshots/catalog-manifest.json, per tenant under snapshots/tenants/<tenant>/). */
+export function catalogManifestPath(): string {
+  return tenantScopedPath(path.join(process.cwd(), 'snapshots', 'catalog-manifest.json'));
+}
+
+export function getSigningKey(): SigningKey {
+  const file = getRuntimeConfig().instructions.manifest.signing.keyFile;
+  if(cachedKey && cachedKey.file === file) return cachedKey.key;
+  let privateKey: crypto.KeyObject;
+  if(fs.existsSync(file)){
+    privateKey = crypto.createPrivateKey(fs.readFileSync(file, 'utf8'));
+  } else {
+    privateKey = crypto.generateKeyPairSync('ed25519').privateKey;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  }
+  const publicKey = crypto.createPublicKey(privateKey);
+  const keyId = crypto.createHash('sha256').update(publicKey.export({ type: 'spki', format: 'der' })).digest('hex').slice(0, 16);
+  cachedKey = { file, key: { keyId, privateKey, publicKey } };
+  return cachedKey.key;
+}
+
+export function signPayload(payload: string): ManifestSignature {
+  const key = getSigningKey();
+  return { alg: 'ed25519', keyId: key.keyId, value: crypto.sign(null, Buffer.from(payload, 'utf8'), key.privateKey).toString('base64') };
+}
+
+export function verifyPayload(payload: string, signature: ManifestSignature | undefined): boolean {
+  if(!signature || signature.alg !== 'ed25519' || typeof signature.value !== 'string') return false;
+  const key = getSigningKey();
+  if(signature.keyId !== key.keyId) return false;
+  try { return crypto.verify(null, Buffer.from(payload, 'utf8'), key.publicKey, Buffer.from(signature.value, 'base64')); } catch { return false; }
+}
+
+/** The signed part of a manifest: everything except generatedAt (reused on no-op writes) and the signature. */
+export function manifestSigningPayload(manifest: Pick<CatalogManifest, 'version' | 'count' | 'entries'>): string {
+  return JSON.stringify({ version: manifest.version, count: manifest.count, entries: manifest.entries });
+}
+
+// Usage telemetry changes without a catalog write (and is overlaid after verification), so it is not signed
+const UNSIGNED_FIELDS = new Set(['usageCount', 'firstSeenTs', 'lastUsedAt']);
+
+function canonical(value: unknown): unknown {
+  if(Array.isArray(value)) return value.map(canonical);
+  if(!value || typeof value !== 'object') return value;
+  const out: Record<string, unknown> = {};
+  for(const key of Object.keys(value).sort()){
+    const v = (value as Record<string, unknown>)[key];
+    if(v !== undefined) out[key] = canonical(v);
+  }
+  return out;
+}
+
+/** sha256 of the record with sorted keys and without usage telemetry: covers every content and governance field. */
+export function entryRecordHash(entry: InstructionEntry): string {
+  const record = Object.fromEntries(Object.entries(entry).filter(([k]) => !UNSIGNED_FIELDS.has(k)));
+  return crypto.createHash('sha256').update(JSON.stringify(canonical(record)), 'utf8').digest('hex');
+}
+
+// Record ids written by this process since the last signed manifest, per tenant ('' = global catalog)
+const localWrites = new Map<string, Set<string>>();
+
+/** Storage hook: a record was written or removed by this process. */
+export function noteLocalCatalogWrite(file: string): void {
+  if(!signingEnabled()) return;
+  const key = currentTenant() ?? '';
+  let ids = localWrites.get(key);
+  if(!ids){ ids = new Set(); localWrites.set(key, ids); }
+  ids.add(file.replace(/\.json$/, ''));
+}
+
+/** The manifest now covers this process's writes. */
+export function clearLocalCatalogWrites(): void { localWrites.delete(currentTenant() ?? ''); }
+
+/** Treat the given ids as written by this process (manifest/refresh acceptUnverified). */
+export function acceptEntries(ids: string[]): void { for(const id of ids) noteLocalCatalogWrite(id); }
+
+function readManifest(): { manifest: CatalogManifest | null; status: CatalogSignatureReport['manifest'] } {
+  const fp = catalogManifestPath();
+  if(!fs.existsSync(fp)) return { manifest: null, status: 'missing' };
+  try {
+    const manifest = JSON.parse(fs.readFileSync(fp, 'utf8')) as CatalogManifest & { signature?: ManifestSignature };
+    if(!Array.isArray(manifest.entries) || !verifyPayload(manifestSigningPayload(manifest), manifest.signature)) return { manifest: null, status: 'invalid' };
+    return { manifest, status: 'valid' };
+  } catch {
+    return { manifest: null, status: 'invalid' };
+  }
+}
+
+/** Check freshly loaded entries against the signed manifest; null when signing is off. */
+export function verifyCatalogSignatures(entries: InstructionEntry[]): { accepted: InstructionEntry[]; report: CatalogSignatureReport } | null {
+  const { mode } = getRuntimeConfig().instructions.manifest.signing;
+  if(mode === 'off') return null;
+  const { manifest, status } = readManifest();
+  const signed = new Map((manifest?.entries || []).map(e => [e.id, e] as const));
+  const local = localWrites.get(currentTenant() ?? '');
+  const issues: SignatureIssue[] = [];
+  const accepted: InstructionEntry[] = [];
+  for(const e of entries){
+    let reason: SignatureIssue['reason'] | undefined;
+    if(!local?.has(e.id)){
+      const m = signed.get(e.id);
+      if(!m) reason = 'unsigned';
+      else if(m.sourceHash !== e.sourceHash || m.bodyHash !== crypto.createHash('sha256').update(e.body || '', 'utf8').digest('hex') || m.recordHash !== entryRecordHash(e)) reason = 'altered';
+    }
+    if(reason) issues.push({ id: e.id, reason });
+    if(!reason || mode !== 'refuse') accepted.push(e);
+  }
+  const refused = mode === 'refuse' ? issues.length : 0;
+  if(issues.length){
+    incrementCounter('signature:unverified', issues.length);
+    if(refused) incrementCounter('signature:refused', refused);
+    logWarn('[signing] catalog entries failed manifest signature verification', { mode, manifest: status, unsigned: issues.filter(i => i.reason === 'unsigned').length, altered: issues.filter(i => i.reason === 'altered').map(i => i.id).slice(0, 20), refused });
+  }
+  return { accepted, report: { mode, manifest: status, keyId: manifest ? getSigningKey().keyId : undefined, issues, refused } };
+}
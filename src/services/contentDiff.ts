@@ -0,0 +1,194 @@
+/**
+ * Line diff, unified diff rendering, structured field diff and three-way merge for instruction records.
+ *
+ * Line diffs use an LCS table after trimming the common prefix / suffix; inputs whose differing middle
+ * would exceed MAX_LCS_CELLS degrade to a single replace hunk (still correct, just not minimal). The
+ * three-way merge follows diff3 semantics: hunks from both sides that overlap or touch the same base
+ * region are a conflict unless they make the identical change.
+ */
+
+export interface LineOp { op: 'equal' | 'delete' | 'insert'; text: string }
+export interface FieldChange { field: string; from: unknown; to: unknown }
+export interface TextMergeResult { clean: boolean; text: string; conflicts: number }
+export interface FieldConflict { field: string; base: unknown; current: unknown; incoming: unknown }
+export interface EntryMergeResult {
+  clean: boolean;
+  values: Record<string, unknown>;   // merged value for every field the incoming side supplied
+  keptCurrent: string[];             // fields where the concurrent (current) change was preserved
+  bodyMerged: boolean;               // body needed a line-level merge
+  conflicts: FieldConflict[];
+  bodyConflictText?: string;         // body with conflict markers when the line merge failed
+}
+
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Governance / metadata fields compared by structured diffs (body is diffed as text). */
+export const DIFF_FIELDS = [
+  'title','rationale','priority','audience','requirement','categories','primaryCategory','owner','status','priorityTier',
+  'classification','version','lastReviewedAt','nextReviewDue','reviewIntervalDays','semanticSummary','riskScore',
+  'deprecatedBy','supersedes','promptArguments','extends','includes','links'
+] as const;
+
+/** Fields eligible for three-way merge on instructions/add (version / changeLog are recomputed by the add pipeline). */
+export const MERGE_FIELDS = ['body', ...DIFF_FIELDS.filter(f => f !== 'version')];
+
+const splitLines = (text: string) => text === '' ? [] : text.split('\n');
+
+export function diffLines(a: string[], b: string[]): LineOp[] {
+  let pre = 0;
+  while(pre < a.length && pre < b.length && a[pre] === b[pre]) pre++;
+  let suf = 0;
+  while(suf < a.length - pre && suf < b.length - pre && a[a.length - 1 - suf] === b[b.length - 1 - suf]) suf++;
+  const ops: LineOp[] = a.slice(0, pre).map(text => ({ op: 'equal', text }));
+  const am = a.slice(pre, a.length - suf); const bm = b.slice(pre, b.length - suf);
+  const n = am.length; const m = bm.length; const w = m + 1;
+  if((n + 1) * w > MAX_LCS_CELLS){
+    for(const text of am) ops.push({ op: 'delete', text });
+    for(const text of bm) ops.push({ op: 'insert', text });
+  } else {
+    const lcs = new Uint32Array((n + 1) * w);
+    for(let i = n - 1; i >= 0; i--){
+      for(let j = m - 1; j >= 0; j--){
+        lcs[i * w + j] = am[i] === bm[j] ? lcs[(i + 1) * w + j + 1] + 1 : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+      }
+    }
+    let i = 0; let j = 0;
+    while(i < n && j < m){
+      if(am[i] === bm[j]){ ops.push({ op: 'equal', text: am[i] }); i++; j++; }
+      else if(lcs[(i + 1) * w + j] >= lcs[i * w + j + 1]){ ops.push({ op: 'delete', text: am[i] }); i++; }
+      else { ops.push({ op: 'insert', text: bm[j] }); j++; }
+    }
+    for(; i < n; i++) ops.push({ op: 'delete', text: am[i] });
+    for(; j < m; j++) ops.push({ op: 'insert', text: bm[j] });
+  }
+  for(const text of a.slice(a.length - suf)) ops.push({ op: 'equal', text });
+  return ops;
+}
+
+/** Unified diff (GNU format, `context` lines around each hunk); empty string when the texts are identical. */
+export function unifiedDiff(from: string, to: string, opts: { context?: number; fromLabel?: string; toLabel?: string } = {}): string {
+  if(from === to) return '';
+  const context = Math.max(0, opts.context ?? 3);
+  let ai = 0; let bi = 0;
+  const rows = diffLines(splitLines(from), splitLines(to)).map(o => {
+    const r = { ...o, a: ai, b: bi };
+    if(o.op !== 'insert') ai++;
+    if(o.op !== 'delete') bi++;
+    return r;
+  });
+  const out = [`--- ${opts.fromLabel || 'a'}`, `+++ ${opts.toLabel || 'b'}`];
+  let i = 0;
+  while(i < rows.length){
+    while(i < rows.length && rows[i].op === 'equal') i++;
+    if(i >= rows.length) break;
+    const start = Math.max(0, i - context);
+    let lastChange = i; let k = i;
+    while(k < rows.length){
+      if(rows[k].op !== 'equal') lastChange = k;
+      else if(k - lastChange > 2 * context) break;
+      k++;
+    }
+    const end = Math.min(rows.length, lastChange + context + 1);
+    const hunk = rows.slice(start, end);
+    const aCount = hunk.filter(r => r.op !== 'insert').length;
+    const bCount = hunk.filter(r => r.op !== 'delete').length;
+    const aStart = aCount ? hunk[0].a + 1 : hunk[0].a;
+    const bStart = bCount ? hunk[0].b + 1 : hunk[0].b;
+    out.push(`@@ -${aStart},${aCount} +${bStart},${bCount} @@`);
+    for(const r of hunk) out.push((r.op === 'equal' ? ' ' : r.op === 'delete' ? '-' : '+') + r.text);
+    i = end;
+  }
+  return out.join('\n') + '\n';
+}
+
+const normalizeForCompare = (field: string, v: unknown) =>
+  field === 'categories' && Array.isArray(v) ? v.map(c => String(c).toLowerCase()).sort() : v;
+const sameValue = (field: string, a: unknown, b: unknown) =>
+  JSON.stringify(normalizeForCompare(field, a)) === JSON.stringify(normalizeForCompare(field, b));
+
+export function diffFields(from: object, to: object, fields: readonly string[] = DIFF_FIELDS): FieldChange[] {
+  const a = from as Record<string, unknown>; const b = to as Record<string, unknown>;
+  const changes: FieldChange[] = [];
+  for(const f of fields){ if(!sameValue(f, a[f], b[f])) changes.push({ field: f, from: a[f], to: b[f] }); }
+  return changes;
+}
+
+interface Hunk { start: number; end: number; lines: string[] }
+
+function hunksAgainst(base: string[], other: string[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let pos = 0; let cur: Hunk | null = null;
+  for(const o of diffLines(base, other)){
+    if(o.op === 'equal'){ if(cur){ hunks.push(cur); cur = null; } pos++; continue; }
+    if(!cur) cur = { start: pos, end: pos, lines: [] };
+    if(o.op === 'delete'){ pos++; cur.end = pos; } else cur.lines.push(o.text);
+  }
+  if(cur) hunks.push(cur);
+  return hunks;
+}
+
+function applyHunks(base: string[], hunks: Hunk[], start: number, end: number): string[] {
+  const out: string[] = []; let p = start;
+  for(const h of hunks){ out.push(...base.slice(p, h.start), ...h.lines); p = h.end; }
+  out.push(...base.slice(p, end));
+  return out;
+}
+
+/** diff3-style merge: `current` is the concurrently stored text, `incoming` the caller's edit. */
+export function mergeText(base: string, current: string, incoming: string, labels: { current?: string; incoming?: string } = {}): TextMergeResult {
+  if(current === incoming) return { clean: true, text: current, conflicts: 0 };
+  if(base === current) return { clean: true, text: incoming, conflicts: 0 };
+  if(base === incoming) return { clean: true, text: current, conflicts: 0 };
+  const b = splitLines(base);
+  const h1 = hunksAgainst(b, splitLines(current)); const h2 = hunksAgainst(b, splitLines(incoming));
+  const out: string[] = []; let pos = 0; let i = 0; let j = 0; let conflicts = 0;
+  while(i < h1.length || j < h2.length){
+    const takeFirst = j >= h2.length || (i < h1.length && h1[i].start <= h2[j].start);
+    const g1: Hunk[] = []; const g2: Hunk[] = [];
+    const seed = takeFirst ? h1[i++] : h2[j++];
+    (takeFirst ? g1 : g2).push(seed);
+    const start = seed.start; let end = seed.end;
+    for(let grew = true; grew;){
+      grew = false;
+      if(i < h1.length && h1[i].start <= end){ g1.push(h1[i]); end = Math.max(end, h1[i].end); i++; grew = true; }
+      if(j < h2.length && h2[j].start <= end){ g2.push(h2[j]); end = Math.max(end, h2[j].end); j++; grew = true; }
+    }
+    out.push(...b.slice(pos, start));
+    if(!g2.length) out.push(...applyHunks(b, g1, start, end));
+    else if(!g1.length) out.push(...applyHunks(b, g2, start, end));
+    else {
+      const ours = applyHunks(b, g1, start, end); const theirs = applyHunks(b, g2, start, end);
+      if(ours.join('\n') === theirs.join('\n')) out.push(...ours);
+      else {
+        conflicts++;
+        out.push(`<<<<<<< ${labels.current || 'current'}`, ...ours, '=======', ...theirs, `>>>>>>> ${labels.incoming || 'incoming'}`);
+      }
+    }
+    pos = end;
+  }
+  out.push(...b.slice(pos));
+  return { clean: conflicts === 0, text: out.join('\n'), conflicts };
+}
+
+/**
+ * Three-way merge of the fields the incoming edit supplies. Per field: unchanged on one side takes the
+ * other side's value; identical changes agree; divergent body edits get a line merge; anything else conflicts.
+ */
+export function mergeEntries(base: object, current: object, incoming: object, fields: readonly string[] = MERGE_FIELDS): EntryMergeResult {
+  const b = base as Record<string, unknown>; const c = current as Record<string, unknown>; const inc = incoming as Record<string, unknown>;
+  const res: EntryMergeResult = { clean: true, values: {}, keptCurrent: [], bodyMerged: false, conflicts: [] };
+  for(const f of fields){
+    if(inc[f] === undefined) continue;
+    if(sameValue(f, inc[f], c[f]) || sameValue(f, c[f], b[f])){ res.values[f] = inc[f]; continue; }
+    if(sameValue(f, inc[f], b[f])){ res.values[f] = c[f]; res.keptCurrent.push(f); continue; }
+    if(f === 'body' && typeof b[f] === 'string' && typeof c[f] === 'string' && typeof inc[f] === 'string'){
+      const m = mergeText(b[f] as string, c[f] as string, inc[f] as string);
+      res.bodyMerged = true;
+      if(m.clean){ res.values[f] = m.text; res.keptCurrent.push(f); continue; }
+      res.bodyConflictText = m.text;
+    }
+    res.clean = false;
+    res.conflicts.push({ field: f, base: b[f], current: c[f], incoming: inc[f] });
+  }
+  return res;
+}
@@ -0,0 +1,113 @@
+/**
+ * Pluggable local embedding providers for semantic / hybrid instructions/search.
+ *
+ * Providers run in-process and must not require network access. The default `hashing` provider is a
+ * signed feature-hashing vectorizer (word unigrams + bigrams + character trigrams, log1p TF) that
+ * pairs with corpus IDF weighting computed by the semantic index. Additional providers (e.g. a local
+ * ONNX model) register a factory via registerEmbeddingProvider() and are selected with
+ * MCP_SEARCH_EMBEDDING_PROVIDER; the provider id + version are persisted next to the vectors so a
+ * provider change forces a full re-embed.
+ */
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { logWarn } from './logger';
+
+/** Sparse vector: parallel index/value arrays, indices ascending. Dense providers use denseToSparse(). */
+export interface SparseVector { i: number[]; v: number[] }
+
+export interface EmbeddingProvider {
+  readonly id: string;
+  readonly version: string;
+  readonly dimensions: number;
+  /** Bag-of-features vectors benefit from corpus IDF weighting; dense model embeddings do not. */
+  readonly idfWeighting: boolean;
+  embed(texts: string[]): Promise<SparseVector[]> | SparseVector[];
+}
+
+export type EmbeddingProviderFactory = (opts: { dimensions: number }) => EmbeddingProvider;
+
+const factories = new Map<string, EmbeddingProviderFactory>();
+let active: { key: string; provider: EmbeddingProvider } | null = null;
+
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory){
+  factories.set(name.toLowerCase(), factory);
+  active = null; // re-resolve on next use
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const cfg = getRuntimeConfig().search.semantic;
+  const key = `${cfg.provider}:${cfg.dimensions}`;
+  if(active && active.key === key) return active.provider;
+  let factory = factories.get(cfg.provider);
+  if(!factory){
+    logWarn(`[search] unknown embedding provider '${cfg.provider}', falling back to 'hashing'`);
+    factory = factories.get('hashing')!;
+  }
+  active = { key, provider: factory({ dimensions: cfg.dimensions }) };
+  return active.provider;
+}
+
+export function denseToSparse(values: ArrayLike<number>): SparseVector {
+  const i: number[] = []; const v: number[] = [];
+  for(let k=0;k<values.length;k++){ if(values[k] !== 0){ i.push(k); v.push(values[k]); } }
+  return { i, v };
+}
+
+// ---------------------------------------------------------------------------
+// Default offline provider: signed feature hashing
+// ---------------------------------------------------------------------------
+const STOPWORDS = new Set(['a','an','and','are','as','at','be','by','for','from','has','have','in','is','it','its','of','on','or','that','the','this','to','was','were','will','with','you','your','we','our','can','should','must','not','do','does']);
+
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for(let k=0;k<s.length;k++){ h ^= s.charCodeAt(k); h = Math.imul(h, 0x01000193); }
+  return h >>> 0;
+}
+
+// Very light suffix folding so "configure"/"configured"/"configuring" share a feature.
+function fold(token: string): string {
+  if(token.length > 5 && token.endsWith('ing')) return token.slice(0,-3);
+  if(token.length > 4 && token.endsWith('ied')) return token.slice(0,-3) + 'y';
+  if(token.length > 4 && token.endsWith('ed')) return token.slice(0,-2);
+  if(token.length > 4 && token.endsWith('es')) return token.slice(0,-2);
+  if(token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0,-1);
+  return token;
+}
+
+export function featureTokens(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1 && !STOPWORDS.has(t)).map(fold);
+}
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'hashing';
+  readonly version = '1';
+  readonly idfWeighting = true;
+  constructor(readonly dimensions: number){}
+
+  embed(texts: string[]): SparseVector[] { return texts.map(t => this.embedOne(t)); }
+
+  private embedOne(text: string): SparseVector {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+    const tokens = featureTokens(text);
+    for(let k=0;k<tokens.length;k++){
+      const t = tokens[k];
+      add('w:'+t, 1);
+      if(k+1 < tokens.length) add('b:'+t+'_'+tokens[k+1], 0.5);
+      const padded = `#${t}#`;
+      if(padded.length > 4){ for(let c=0;c+3<=padded.length;c++) add('c:'+padded.slice(c,c+3), 0.25); }
+    }
+    const buckets = new Map<number, number>();
+    for(const [feature, tf] of counts){
+      const h = fnv1a(feature);
+      const idx = h % this.dimensions;
+      const sign = (h >>> 31) ? -1 : 1;
+      buckets.set(idx, (buckets.get(idx) || 0) + sign * Math.log1p(tf));
+    }
+    const entries = Array.from(buckets.entries()).filter(([,v]) => v !== 0).sort((a,b)=> a[0]-b[0]);
+    let norm = 0; for(const [,v] of entries) norm += v*v;
+    norm = Math.sqrt(norm) || 1;
+    return { i: entries.map(e => e[0]), v: entries.map(e => Math.round((e[1]/norm)*1e6)/1e6) };
+  }
+}
+
+registerEmbeddingProvider('hashing', ({ dimensions }) => new HashingEmbeddingProvider(dimensions));
@@ -21,4 +21,8 @@ export function isSemanticError(e: unknown): e is SemanticRpcErrorShape<Record<s
   if(!e || typeof e !== 'object') return false;
   const maybe = e as { code?: unknown; message?: unknown; __semantic?: unknown };
   return maybe.__semantic === true && Number.isSafeInteger(maybe.code) && typeof maybe.message === 'string';
-}
\ No newline at end of file
+}
+// Optimistic concurrency: the caller's ifMatch revision token no longer names the stored record
+// (another writer got there first, or the record was removed). Distinct from -32602 so clients can
+// re-read and retry instead of treating it as a malformed request.
+export const PRECONDITION_FAILED = -32009;
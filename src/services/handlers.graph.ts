@@ -3,6 +3,9 @@
 // Provides a structural graph representation of the current instruction catalog with:
 //  - Deterministic node ordering (alphabetical by id)
 //  - Two edge types: 'primary' (instruction -> primaryCategory) and 'category' (pairwise co-category)
+//  - Relationship edges: composition ('extends' / 'includes') and typed links ('relatedTo', 'conflictsWith',
+//    'requires', 'supersedes'; legacy supersedes / deprecatedBy fields included). Dangling targets skipped.
+//  - graph/neighbors: k-hop traversal and shortest path over relationship edges
 //  - Optional exclusion of primary edges via env GRAPH_INCLUDE_PRIMARY_EDGES=0
 //  - Large category pairwise edge skip with note when size exceeds GRAPH_LARGE_CATEGORY_CAP (default: no cap)
 //  - includeEdgeTypes filter (applied before truncation)
@@ -16,11 +19,13 @@ import { registerHandler } from '../server/registry';
 import { ensureLoaded, computeGovernanceHash } from './catalogContext';
 import type { InstructionEntry } from '../models/instruction';
 import { getRuntimeConfig } from '../config/runtimeConfig';
+import { relationshipEdges, neighborhood, shortestPath, RelationType, TraversalDirection, RELATION_TYPES } from './instructionLinks';
+import { accessViewKey, readableCatalog, recordDeniedReads } from './accessControl';
 
 type GraphConfigSnapshot = ReturnType<typeof getRuntimeConfig>['graph'];
 
 export interface GraphExportParams {
-  includeEdgeTypes?: Array<'primary'|'category'|'belongs'>;
+  includeEdgeTypes?: GraphEdgeType[];
   maxEdges?: number;
   format?: 'json'|'dot'|'mermaid'; // new: mermaid format
   // Phase 2 enrichment (opt-in, backward compatible)
@@ -47,7 +52,8 @@ interface GraphNodeV2 extends GraphNodeV1 {
 }
 type GraphNode = GraphNodeV1 | GraphNodeV2;
 
-interface GraphEdgeBase { from: string; to: string; type: 'primary'|'category'|'belongs'; }
+type GraphEdgeType = 'primary'|'category'|'belongs'|RelationType;
+interface GraphEdgeBase { from: string; to: string; type: GraphEdgeType; }
 interface GraphEdgeEnriched extends GraphEdgeBase { weight?: number; }
 type GraphEdge = GraphEdgeBase | GraphEdgeEnriched;
 // Allow schema version 1 (legacy minimal) or 2 (enriched) explicitly.
@@ -68,7 +74,7 @@ const cachedDefaults: Map<string, { hash: string; result: GraphResult }> = new M
 // Exported for dashboard API usage
 export function buildGraph(params: GraphExportParams, graphCfg: GraphConfigSnapshot = getRuntimeConfig().graph): GraphResult {
   const { includeEdgeTypes, maxEdges, format, enrich, includeCategoryNodes, includeUsage } = params;
-  const st = ensureLoaded();
+  const st = readableCatalog();
   const instructions = [...st.list].sort((a,b)=> a.id.localeCompare(b.id));
   const enriched = !!enrich;
   // Build base instruction nodes (schema-dependent)
@@ -148,6 +154,14 @@ export function buildGraph(params: GraphExportParams, graphCfg: GraphConfigSnaps
     }
   }
 
+  // Relationship edges (composition + typed links). Only resolvable references become edges; integrity/verify
+  // reports dangling and self composition references.
+  for(const rel of relationshipEdges(instructions)){
+    const edge: GraphEdgeEnriched = { ...rel };
+    if(enriched) edge.weight = 1;
+    edges.push(edge);
+  }
+
   // Optional category nodes & belongs edges (enriched mode only)
   if(enriched && includeCategoryNodes){
     const allCats = sortedCategories; // already sorted
@@ -242,7 +256,8 @@ registerHandler<GraphExportParams>('graph/export', (params) => {
   const envExplicit = graphCfg.explicitIncludePrimaryEnv || graphCfg.explicitLargeCategoryEnv;
   const st = ensureLoaded();
   const hash = st.hash || computeGovernanceHash(st.list);
-  const envSig = graphCfg.signature;
+  // graphs differ per clearance when access control is on
+  const envSig = graphCfg.signature + accessViewKey();
   if(cacheEligible && !envExplicit){
     const entry = cachedDefaults.get(envSig);
     if(entry && entry.hash === hash){
@@ -262,6 +277,45 @@ registerHandler<GraphExportParams>('graph/export', (params) => {
   return graph;
 });
 
+export interface GraphNeighborsParams {
+  id: string;
+  depth?: number;                  // hops from id (default 1, capped by MCP_GRAPH_NEIGHBORS_MAX_DEPTH)
+  edgeTypes?: RelationType[];      // relationship types to follow (default all)
+  direction?: TraversalDirection;  // follow outgoing, incoming or both (default both)
+  to?: string;                     // shortest-path mode: path from id to this entry
+  limit?: number;                  // max nodes returned (capped by MCP_GRAPH_NEIGHBORS_MAX_NODES)
+  includeBody?: boolean;           // attach entry bodies so related guidance arrives in one call
+}
+
+registerHandler<GraphNeighborsParams>('graph/neighbors', (params) => {
+  const p = params || {} as GraphNeighborsParams;
+  if(typeof p.id !== 'string' || !p.id) return { error:'missing id' };
+  const cfg = getRuntimeConfig().graph;
+  const st = readableCatalog();
+  if(recordDeniedReads('graph/neighbors', [p.id]).length || !st.byId.has(p.id)) return { notFound:true, id:p.id };
+  const edgeTypes = Array.isArray(p.edgeTypes) ? p.edgeTypes.filter(t => RELATION_TYPES.includes(t)) : undefined;
+  const direction: TraversalDirection = p.direction === 'out' || p.direction === 'in' ? p.direction : 'both';
+  const edges = relationshipEdges(st.list);
+  const describe = (id: string) => {
+    const e = st.byId.get(id)!;
+    const d: Record<string, unknown> = { title: e.title, priority: e.priority, requirement: e.requirement, status: e.status };
+    if(p.includeBody) d.body = e.body;
+    return d;
+  };
+  if(typeof p.to === 'string' && p.to){
+    if(!st.byId.has(p.to)) return { notFound:true, id:p.to };
+    const path = shortestPath(p.id, p.to, edges, { types: edgeTypes, direction, maxDepth: cfg.neighborsMaxDepth });
+    return { hash: st.hash, id: p.id, to: p.to, direction, path: path.found ? { found:true, length: path.edges.length, ids: path.ids } : { found:false, ids: [] },
+      nodes: path.ids.map((id, i) => ({ id, distance: i, ...describe(id) })), edges: path.edges };
+  }
+  const depth = Math.min(Math.max(1, Math.floor(p.depth ?? 1)), cfg.neighborsMaxDepth);
+  const limit = Math.min(Math.max(1, Math.floor(p.limit ?? cfg.neighborsMaxNodes)), cfg.neighborsMaxNodes);
+  const hood = neighborhood(p.id, edges, { types: edgeTypes, direction, depth, limit });
+  const res: Record<string, unknown> = { hash: st.hash, id: p.id, depth, direction, nodes: hood.nodes.map(n => ({ ...n, ...describe(n.id) })), edges: hood.edges };
+  if(hood.truncated) res.truncated = true;
+  return res;
+});
+
 // Test-only helper (not registered as a tool) to clear cached default between suites.
 // Exported with a leading double underscore to discourage production usage.
 export function __resetGraphCache(){ cachedDefaults.clear(); }
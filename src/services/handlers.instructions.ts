@@ -3,7 +3,7 @@ import fs from 'fs';
 import crypto from 'crypto';
 // Canonical body hashing (normalizes line endings, trims outer blank lines, strips trailing spaces)
 import { hashBody } from './canonical';
-import { InstructionEntry } from '../models/instruction';
+import { InstructionEntry, InstructionLinks } from '../models/instruction';
 import { registerHandler } from '../server/registry';
 import { computeGovernanceHash, ensureLoaded, invalidate, projectGovernance, getInstructionsDir, touchCatalogVersion, getDebugCatalogSnapshot } from './catalogContext';
 import { BOOTSTRAP_ALLOWLIST } from './bootstrapGating';
@@ -12,15 +12,76 @@ import { incrementCounter } from './features';
 import { SCHEMA_VERSION } from '../versioning/schemaVersion';
 import { ClassificationService } from './classificationService';
 import { resolveOwner } from './ownershipService';
-import { atomicWriteJson } from './atomicFs';
+import { getCatalogStorage } from './catalogRepository';
 import { logAudit } from './auditLog';
 import { getToolRegistry } from './toolRegistry';
 import { getRuntimeConfig, reloadRuntimeConfig } from '../config/runtimeConfig';
 import { hashBody as canonicalHashBody } from './canonical';
+import { buildSnippet } from './searchIndex';
+import { isCatalogGitEnabled, catalogHistory, catalogBlame, blameByField, isValidRevision, readCatalogRevision } from './catalogGit';
+import { unifiedDiff, diffFields, mergeEntries, MERGE_FIELDS, FieldChange } from './contentDiff';
+import { findEntryRevision, getCatalogRevision, listCatalogRevisions } from './catalogRevisions';
+import { computeRevisionToken, revisionsFor, assertRevision, assertRevisions } from './revisionToken';
+import { resolveComposition, isCompositionFailure } from './instructionComposition';
+import { LINK_TYPES } from './instructionLinks';
+import { loadGates, gateViolations, GateViolation } from './qualityGates';
+import { applyIngestScan, ScanFinding } from './ingestScan';
+import { checkTransition, applyTransition, recordApproval, holdAgentDraft, isHeldDraft, statusForWrite, InstructionStatus } from './statusWorkflow';
+import { canRead, currentCaller, readableCatalog, readableEntry, readableFullTextSearch, recordDeniedReads } from './accessControl';
+import { createBundle, loadBundle, planBundleImport, resolveBundlePath, LoadedBundle, BUNDLE_EXT } from './catalogBundle';
+import { signingEnabled } from './catalogSigning';
+
+// Instruction ids are file names; reject anything that could escape the catalog directory or act as a git option.
+const RECORD_ID = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+// extends / includes / links targets must be other record ids; dangling targets are allowed (integrity/verify
+// reports composition ones, graph edges skip them).
+function invalidReferences(e: { id:string; extends?: unknown; includes?: unknown; links?: unknown }): string[] {
+  const bad: string[] = [];
+  const checkList = (label: string, v: unknown) => {
+    if(!Array.isArray(v)){ bad.push(`${label}:not-an-array`); return; }
+    for(const t of v){ if(typeof t !== 'string' || !RECORD_ID.test(t) || t === e.id) bad.push(`${label}:${String(t)}`); }
+  };
+  if(e.extends !== undefined && e.extends !== '' && (typeof e.extends !== 'string' || !RECORD_ID.test(e.extends) || e.extends === e.id)) bad.push(`extends:${String(e.extends)}`);
+  if(e.includes !== undefined) checkList('includes', e.includes);
+  if(e.links !== undefined){
+    if(!e.links || typeof e.links !== 'object' || Array.isArray(e.links)) bad.push('links:not-an-object');
+    else for(const [type, targets] of Object.entries(e.links as Record<string, unknown>)){
+      if(!(LINK_TYPES as readonly string[]).includes(type)) bad.push(`links.${type}:unknown-type`);
+      else if(targets !== undefined) checkList(`links.${type}`, targets);
+    }
+  }
+  return bad;
+}
+
+// Empty extends / includes / link lists clear the reference instead of persisting placeholders.
+function pruneEmptyReferences(rec: InstructionEntry){
+  if(!rec.extends) delete rec.extends;
+  if(Array.isArray(rec.includes)) rec.includes = Array.from(new Set(rec.includes));
+  if(!rec.includes || !rec.includes.length) delete rec.includes;
+  if(rec.links){
+    const links: InstructionLinks = {};
+    for(const type of LINK_TYPES){ const t = rec.links[type]; if(Array.isArray(t) && t.length) links[type] = Array.from(new Set(t)); }
+    if(Object.keys(links).length) rec.links = links; else delete rec.links;
+  }
+}
 
 // Evaluate mutation flag via unified runtime config (MCP_MUTATION). Legacy MCP_ENABLE_MUTATION
 // still honored by parseMutation() with a one-time warning. We preserve dynamic semantics
 // (tests may flip env at runtime) by reloading runtime config when only the legacy flag is set.
+// Quality gates as a pre-mutation hook (MCP_GATES_ENFORCE). In block mode, error-severity gates the write would
+// break reject it; everything else the write breaks is returned to the caller as gateWarnings.
+function mutationGateCheck(changed: InstructionEntry[]): { blocked: GateViolation[]; warnings: GateViolation[] } {
+  const mode = getRuntimeConfig().instructions.gateEnforcement;
+  if(mode === 'off' || !changed.length) return { blocked: [], warnings: [] };
+  const loaded = loadGates(getInstructionsDir());
+  if(!('gates' in loaded) || !loaded.gates.length) return { blocked: [], warnings: [] };
+  const violations = gateViolations(loaded.gates, ensureLoaded().list, changed);
+  const blocked = mode === 'block' ? violations.filter(v => v.severity === 'error') : [];
+  if(blocked.length) incrementCounter('gates:blocked');
+  return { blocked, warnings: violations.filter(v => !blocked.includes(v)) };
+}
+
 function isMutationEnabled(){
   const cfg = getRuntimeConfig();
   if(cfg.mutation.legacyEnable && !cfg.mutation.enabled){
@@ -58,9 +119,9 @@ function limitResponseSize<T extends Record<string, unknown>>(response: T): T {
 }
 
 interface ImportEntry { id:string; title:string; body:string; rationale?:string; priority:number; audience:InstructionEntry['audience']; requirement:InstructionEntry['requirement']; categories?: unknown[]; deprecatedBy?: string; riskScore?: number; // governance (optional on import)
-  version?: string; owner?: string; status?: InstructionEntry['status']; priorityTier?: InstructionEntry['priorityTier']; classification?: InstructionEntry['classification']; lastReviewedAt?: string; nextReviewDue?: string; changeLog?: InstructionEntry['changeLog']; semanticSummary?: string }
+  version?: string; owner?: string; status?: InstructionEntry['status']; priorityTier?: InstructionEntry['priorityTier']; classification?: InstructionEntry['classification']; lastReviewedAt?: string; nextReviewDue?: string; changeLog?: InstructionEntry['changeLog']; semanticSummary?: string; promptArguments?: InstructionEntry['promptArguments']; extends?: string; includes?: string[]; links?: InstructionLinks }
 
-function guard<TParams, TResult>(name:string, fn:(p:TParams)=>TResult){
+export function guard<TParams, TResult>(name:string, fn:(p:TParams)=>TResult){
   return (p:TParams)=>{
     const viaDispatcher = !!(p && typeof p === 'object' && (p as unknown as { _viaDispatcher?: boolean })._viaDispatcher);
     if(!isMutationEnabled() && !viaDispatcher){
@@ -79,16 +140,16 @@ function traceInstructionVisibility(id:string, phase:string, extra?: Record<stri
   if(!traceVisibility()) return;
   try {
     const dir = getInstructionsDir();
-    const file = path.join(dir, `${id}.json`);
+    const storage = getCatalogStorage(dir);
     const st = ensureLoaded();
     const catalogItem = st.byId.get(id) as Partial<InstructionEntry> | undefined;
   let fileExists = false; let fileSize:number|undefined; let mtime:string|undefined; let diskHash:string|undefined;
-    if(fs.existsSync(file)){
+    const stat = storage.stat(`${id}.json`);
+    if(stat){
       fileExists = true;
-      const stat = fs.statSync(file);
-      fileSize = stat.size; mtime = stat.mtime.toISOString();
+      fileSize = stat.size; mtime = new Date(stat.mtimeMs).toISOString();
       try {
-  const rawTxt = fs.readFileSync(file,'utf8');
+  const rawTxt = storage.readText(`${id}.json`);
         try { const rawJson = JSON.parse(rawTxt) as { sourceHash?:string }; if(typeof rawJson.sourceHash==='string') diskHash = rawJson.sourceHash; } catch { /* ignore parse */ }
       } catch { /* ignore read */ }
     }
@@ -139,10 +200,65 @@ function traceEnvSnapshot(phase:string, extra?:Record<string, unknown>){
 }
   // removed erroneous duplicate attemptManifestUpdate calls
 
+// Content-level diff (dispatcher diff mode=content): unified body diff + structured field diff, either
+// between two catalog hashes (recent snapshots) or between two revisions of one entry.
+interface ContentDiffParams { fromHash?: string; toHash?: string; id?: string; fromVersion?: string; toVersion?: string; fromSourceHash?: string; toSourceHash?: string; context?: number }
+interface EntryContentDiff { id: string; from: { version?: string; sourceHash: string }; to: { version?: string; sourceHash: string }; bodyDiff: string; fields: FieldChange[] }
+function diffEntryContent(a: InstructionEntry, b: InstructionEntry, context?: number): EntryContentDiff {
+  return {
+    id: b.id,
+    from: { version: a.version, sourceHash: a.sourceHash },
+    to: { version: b.version, sourceHash: b.sourceHash },
+    bodyDiff: unifiedDiff(a.body, b.body, { context, fromLabel: `${a.id}@${a.version || a.sourceHash.slice(0,12)}`, toLabel: `${b.id}@${b.version || b.sourceHash.slice(0,12)}` }),
+    fields: diffFields(a, b)
+  };
+}
+function contentDiff(p: ContentDiffParams){
+  const st = ensureLoaded();
+  if(p.id){
+    if(recordDeniedReads('diff', [p.id]).length) return { id: p.id, error:'revision_not_found', missing:'from' };
+    const dir = getInstructionsDir();
+    const pick = (version?: string, sourceHash?: string) => (!version && !sourceHash) ? st.byId.get(p.id!) : findEntryRevision(p.id!, { version, sourceHash }, dir);
+    const from = pick(p.fromVersion, p.fromSourceHash);
+    const to = pick(p.toVersion, p.toSourceHash);
+    if(!from || !to) return { id: p.id, error:'revision_not_found', missing: !from ? 'from' : 'to', hint: 'Older revisions need MCP_CATALOG_GIT=1 or must still be within MCP_REVISION_HISTORY_DEPTH catalog snapshots.' };
+    return { mode:'content', ...diffEntryContent(from, to, p.context) };
+  }
+  const fromHash = p.fromHash; const toHash = p.toHash || st.hash;
+  const rawFrom = fromHash ? getCatalogRevision(fromHash) : undefined;
+  const rawTo = toHash === st.hash ? st.byId : getCatalogRevision(toHash);
+  if(!rawFrom || !rawTo) return { error:'unknown_hash', missing: !rawFrom ? 'fromHash' : 'toHash', knownHashes: listCatalogRevisions() };
+  // entries above the caller's clearance (current classification) are left out of revision diffs
+  const readable = (m: Map<string, InstructionEntry>)=> new Map([...m].filter(([id, e])=> canRead(st.byId.get(id) || e)));
+  const from = readable(rawFrom); const to = readable(rawTo);
+  const added = [...to.keys()].filter(id=> !from.has(id)).sort();
+  const removed = [...from.keys()].filter(id=> !to.has(id)).sort();
+  const changed: EntryContentDiff[] = [];
+  for(const [id, b] of to){
+    const a = from.get(id);
+    if(!a) continue;
+    const d = diffEntryContent(a, b, p.context);
+    if(d.bodyDiff || d.fields.length) changed.push(d);
+  }
+  changed.sort((x,y)=> x.id.localeCompare(y.id));
+  return limitResponseSize({ mode:'content', fromHash, toHash, added, removed, changed });
+}
+
+// get resolve:true — composed body (extends / includes) returned beside the stored record, never instead of it,
+// so a client that writes the item back does not persist the expansion.
+function getResolved(st: { hash:string; byId: Map<string, InstructionEntry> }, item: InstructionEntry, markers?: boolean){
+  const r = resolveComposition(item.id, st.byId, { maxDepth: getRuntimeConfig().instructions.compositionMaxDepth, markers });
+  if(isCompositionFailure(r)) return { hash: st.hash, ...r };
+  const { id: _id, ...resolved } = r; void _id;
+  return { hash: st.hash, item, etag: computeRevisionToken(item), resolved };
+}
+
 // Legacy individual instruction handlers removed in favor of unified dispatcher (instructions/dispatch).
 // Internal implementation functions retained below for dispatcher direct invocation.
 export const instructionActions = {
-  list: (p:{category?:string; expectId?:string})=>{ let st = ensureLoaded(); const originalHash = st.hash; let items = st.list; if(p?.category){ const c = p.category.toLowerCase(); items = items.filter(i=> i.categories.includes(c)); }
+  list: (p:{category?:string; expectId?:string; includeDrafts?:boolean})=>{ let st = readableCatalog(); const originalHash = st.hash; let items = st.list; if(p?.category){ const c = p.category.toLowerCase(); items = items.filter(i=> i.categories.includes(c)); }
+    // Agent-created entries awaiting approval stay out of the default listing (statusWorkflow.ts)
+    if(!p?.includeDrafts) items = items.filter(i=> !isHeldDraft(i));
     // Phase E cleanup: removed legacy visibility repair flags (repairedVisibility, lateMaterialized) and late materialization path.
     // We retain a minimal reload attempt if expectId provided and missing to preserve deterministic ordering guarantees
     // while avoiding implicit catalog mutation side-effects. Observability now relies on trace frames only.
@@ -160,14 +276,13 @@ export const instructionActions = {
     // late materialization paths in other handlers.
     if(p?.expectId){
       try {
-        const dir = getInstructionsDir();
-        const file = path.join(dir, `${p.expectId}.json`);
-        const hasFile = fs.existsSync(file);
-        const inCatalog = st.byId.has(p.expectId);
+        const hasFile = getCatalogStorage(getInstructionsDir()).exists(p.expectId);
+        const inCatalog = ensureLoaded().byId.has(p.expectId);
         if(hasFile && !inCatalog){
           attemptedReload = true;
-          invalidate(); st = ensureLoaded(); items = st.list; // refresh view
+          invalidate(); st = readableCatalog(); items = st.list; // refresh view
           if(p.category){ const c2 = p.category.toLowerCase(); items = items.filter(i=> i.categories.includes(c2)); }
+          if(!p.includeDrafts) items = items.filter(i=> !isHeldDraft(i));
           // Late materialization removed: rely on next natural reload path; traces will still indicate attempted reload.
           // If we repaired or reloaded, re-apply expectId ordering
           if(st.byId.has(p.expectId)){
@@ -179,16 +294,16 @@ export const instructionActions = {
     }
     if(traceVisibility()){ try { const dir=getInstructionsDir(); const disk=fs.readdirSync(dir).filter(f=>f.endsWith('.json')); const diskIds=new Set(disk.map(f=>f.slice(0,-5))); const idsSample=items.slice(0,5).map(i=>i.id); const missingOnCatalog=[...diskIds].filter(id=> !st.byId.has(id)); const expectId=p?.expectId; const expectOnDisk= expectId? diskIds.has(expectId): undefined; const expectInCatalog = expectId? st.byId.has(expectId): undefined; emitTrace('[trace:list]', { dir, total: st.list.length, filtered: items.length, sample: idsSample, diskCount: disk.length, missingOnCatalogCount: missingOnCatalog.length, missingOnCatalog: missingOnCatalog.slice(0,5), expectId, expectOnDisk, expectInCatalog, attemptedReload, attemptedLate, originalHash, finalHash: st.hash }); } catch { /* ignore */ } }
     const resp = limitResponseSize({ hash: st.hash, count: items.length, items });
-    return resp; },
-  listScoped: (p:{ userId?:string; workspaceId?:string; teamIds?: string[] })=>{ const st=ensureLoaded(); const userId=p.userId?.toLowerCase(); const workspaceId=p.workspaceId?.toLowerCase(); const teamIds=(p.teamIds||[]).map(t=>t.toLowerCase()); const all=st.list; const matchUser = userId? all.filter(e=> (e.userId||'').toLowerCase()===userId):[]; if(matchUser.length) return { hash: st.hash, count: matchUser.length, scope:'user', items:matchUser }; const matchWorkspace = workspaceId? all.filter(e=> (e.workspaceId||'').toLowerCase()===workspaceId):[]; if(matchWorkspace.length) return { hash: st.hash, count: matchWorkspace.length, scope:'workspace', items:matchWorkspace }; const teamSet = new Set(teamIds); const matchTeams = teamIds.length? all.filter(e=> Array.isArray(e.teamIds) && e.teamIds.some(t=> teamSet.has(t.toLowerCase()))):[]; if(matchTeams.length) return { hash: st.hash, count: matchTeams.length, scope:'team', items:matchTeams }; const audienceAll = all.filter(e=> e.audience==='all'); return { hash: st.hash, count: audienceAll.length, scope:'all', items: audienceAll }; },
-  get: (p:{id:string})=>{ const st=ensureLoaded(); const item = st.byId.get(p.id); if(!item && getRuntimeConfig().instructions.strictVisibility){
+    return { ...resp, etags: revisionsFor(resp.items) }; },
+  listScoped: (p:{ userId?:string; workspaceId?:string; teamIds?: string[] })=>{ const st=readableCatalog(); const userId=p.userId?.toLowerCase(); const workspaceId=p.workspaceId?.toLowerCase(); const teamIds=(p.teamIds||[]).map(t=>t.toLowerCase()); const all=st.list; const matchUser = userId? all.filter(e=> (e.userId||'').toLowerCase()===userId):[]; if(matchUser.length) return { hash: st.hash, count: matchUser.length, scope:'user', items:matchUser, etags: revisionsFor(matchUser) }; const matchWorkspace = workspaceId? all.filter(e=> (e.workspaceId||'').toLowerCase()===workspaceId):[]; if(matchWorkspace.length) return { hash: st.hash, count: matchWorkspace.length, scope:'workspace', items:matchWorkspace, etags: revisionsFor(matchWorkspace) }; const teamSet = new Set(teamIds); const matchTeams = teamIds.length? all.filter(e=> Array.isArray(e.teamIds) && e.teamIds.some(t=> teamSet.has(t.toLowerCase()))):[]; if(matchTeams.length) return { hash: st.hash, count: matchTeams.length, scope:'team', items:matchTeams, etags: revisionsFor(matchTeams) }; const audienceAll = all.filter(e=> e.audience==='all'); return { hash: st.hash, count: audienceAll.length, scope:'all', items: audienceAll, etags: revisionsFor(audienceAll) }; },
+  get: (p:{id:string; resolve?:boolean; markers?:boolean})=>{ const st=readableCatalog(); const denied = recordDeniedReads('get', [p.id]).length > 0; const item = st.byId.get(p.id); if(item && p.resolve) return getResolved(st, item, p.markers); if(!item && !denied && getRuntimeConfig().instructions.strictVisibility){
       // In strict test mode, attempt enhanced late materialization path immediately
       // without requiring callers to know about getEnhanced.
       const enhanced = (instructionActions as unknown as { getEnhanced:(p:{id:string})=>unknown }).getEnhanced({ id:p.id }) as { hash?:string; item?:InstructionEntry; notFound?:boolean };
-      if(enhanced.item) return { hash: enhanced.hash || st.hash, item: enhanced.item }; // lateMaterialized flag removed Phase E
+      if(enhanced.item) return { hash: enhanced.hash || st.hash, item: enhanced.item, etag: computeRevisionToken(enhanced.item) }; // lateMaterialized flag removed Phase E
     }
   if(traceVisibility()){ const dir=getInstructionsDir(); emitTrace('[trace:get]', { dir, id:p.id, found: !!item, total: st.list.length, strict: getRuntimeConfig().instructions.strictVisibility }); traceInstructionVisibility(p.id, item? 'get-found':'get-not-found'); if(!item) traceEnvSnapshot('get-not-found'); }
-    return item? { hash: st.hash, item }: { notFound:true };
+    return item? { hash: st.hash, item, etag: computeRevisionToken(item) }: { notFound:true };
   },
   // Reliability enhancement: if an entry is reported notFound but a file with that id exists on disk,
   // attempt a focused late materialization (mirrors logic used in add strict path) to reduce false
@@ -201,13 +316,16 @@ export const instructionActions = {
   // Implementation detail: we avoid unnecessary reload if file missing to keep hot path fast.
   // This code path triggers only when notFound AND file present.
   // Coverage: Added by reliability patch addressing user-reported "skipped + notFound" confusion.
-  getEnhanced: (p:{id:string})=>{ const base=getInstructionsDir(); const file=path.join(base, `${p.id}.json`); let st=ensureLoaded(); let item=st.byId.get(p.id); if(item) return { hash: st.hash, item } as const; if(!fs.existsSync(file)) return { notFound:true } as const; let repaired=false; try {
+  getEnhanced: (p:{id:string})=>{ const storage=getCatalogStorage(getInstructionsDir()); let st=ensureLoaded(); let item=st.byId.get(p.id);
+    // repaired entries are subject to the caller's clearance like catalog reads
+    const found = (hash:string, entry:InstructionEntry)=>{ const visible=readableEntry(entry); return visible? { hash, item: visible, etag: computeRevisionToken(visible) } : { notFound:true } as const; };
+    if(item) return found(st.hash, item); if(!storage.exists(p.id)) return { notFound:true } as const; let repaired=false; try {
   traceInstructionVisibility(p.id, 'getEnhanced-start');
       // First attempt: invalidate + reload (cheap if already dirty)
       invalidate(); st=ensureLoaded(); item=st.byId.get(p.id); if(item){ repaired=true; }
       if(!repaired){
         // Second attempt: direct disk read + classification normalization (late materialization)
-        const txt=fs.readFileSync(file,'utf8'); if(txt.trim()){
+        const txt=storage.readText(`${p.id}.json`); if(txt.trim()){
           try { const raw=JSON.parse(txt) as InstructionEntry; const classifier=new ClassificationService(); const issues=classifier.validate(raw); if(!issues.length){ const norm=classifier.normalize(raw); st.list.push(norm); st.byId.set(norm.id,norm); item=norm; repaired=true; incrementCounter('instructions:getLateMaterialize'); } else { incrementCounter('instructions:getLateMaterializeRejected'); }
           } catch { incrementCounter('instructions:getLateMaterializeParseError'); }
         } else { incrementCounter('instructions:getLateMaterializeEmptyFile'); }
@@ -215,13 +333,35 @@ export const instructionActions = {
     } catch { /* swallow */ }
     if(traceVisibility()){ emitTrace('[trace:get:late-materialize]', { id:p.id, repaired, fileExists:true }); }
   traceInstructionVisibility(p.id, 'getEnhanced-end', { repaired, finalFound: !!item });
-    return item? { hash: st.hash, item }: { notFound:true }; // flag removed
+    return item? found(st.hash, item): { notFound:true }; // flag removed
   },
-  search: (p:{q:string})=>{ const st=ensureLoaded(); const q=(p.q||'').toLowerCase(); const items = st.list.filter(i=> i.title.toLowerCase().includes(q)|| i.body.toLowerCase().includes(q)); if(traceVisibility()){ const dir=getInstructionsDir(); const sample=items.slice(0,5).map(i=>i.id); emitTrace('[trace:search]', { dir, q, matches: items.length, sample }); } return { hash: st.hash, count: items.length, items }; },
-  diff: (p:{clientHash?:string; known?:{id:string; sourceHash:string}[]})=>{ const st=ensureLoaded(); const clientHash=p.clientHash; const known=p.known; if(!known && clientHash && clientHash===st.hash) return { upToDate:true, hash: st.hash }; if(known){ const map=new Map<string,string>(); for(const k of known){ if(k && k.id && !map.has(k.id)) map.set(k.id,k.sourceHash); } const added:InstructionEntry[]=[]; const updated:InstructionEntry[]=[]; const removed:string[]=[]; for(const e of st.list){ const prev=map.get(e.id); if(prev===undefined) added.push(e); else if(prev!==e.sourceHash) updated.push(e); } for(const id of map.keys()){ if(!st.byId.has(id)) removed.push(id); } if(!added.length && !updated.length && !removed.length && clientHash===st.hash) return { upToDate:true, hash: st.hash }; return { hash: st.hash, added, updated, removed }; } if(!clientHash || clientHash!==st.hash) return { hash: st.hash, changed: st.list }; return { upToDate:true, hash: st.hash }; },
-  export: (p:{ids?:string[]; metaOnly?:boolean})=>{ const st=ensureLoaded(); let items=st.list; if(p?.ids?.length){ const want=new Set(p.ids); items=items.filter(i=>want.has(i.id)); } if(p?.metaOnly){ items=items.map(i=> ({ ...i, body:'' })); } return limitResponseSize({ hash: st.hash, count: items.length, items }); },
-  query: (p:{ categoriesAll?:string[]; categoriesAny?:string[]; excludeCategories?:string[]; priorityMin?:number; priorityMax?:number; priorityTiers?:('P1'|'P2'|'P3'|'P4')[]; requirements?: InstructionEntry['requirement'][]; text?:string; limit?:number; offset?:number })=>{
-    const st=ensureLoaded();
+  search: (p:{q:string; mode?:'substring'|'fulltext'; limit?:number; highlight?:boolean; includeDrafts?:boolean})=>{ const st=readableCatalog();
+    if(p.mode==='fulltext'){
+      // Ranked BM25 path (inverted index; supports "phrases", -exclusions, title:/category:/owner: qualifiers).
+      const hits = readableFullTextSearch(p.q||'').filter(h=> p.includeDrafts || !isHeldDraft(st.byId.get(h.id)!)); const limit = Math.min(Math.max(p.limit??hits.length,1),1000); const top = hits.slice(0, limit);
+      const items = top.map(h=> st.byId.get(h.id)).filter((e): e is InstructionEntry => !!e);
+      const highlights = p.highlight ? top.map(h=> ({ id: h.id, score: Math.round(h.score*1000)/1000, matchedFields: h.matchedFields, snippet: buildSnippet(st.byId.get(h.id)!, h.terms) })) : undefined;
+      if(traceVisibility()){ emitTrace('[trace:search]', { dir: getInstructionsDir(), q: p.q, mode: 'fulltext', matches: hits.length, sample: items.slice(0,5).map(i=>i.id) }); }
+      return { hash: st.hash, count: items.length, total: hits.length, items, query: p.q||'', mode: 'fulltext', highlights };
+    }
+    const q=(p.q||'').toLowerCase(); const items = st.list.filter(i=> (p.includeDrafts || !isHeldDraft(i)) && (i.title.toLowerCase().includes(q)|| i.body.toLowerCase().includes(q))); if(traceVisibility()){ const dir=getInstructionsDir(); const sample=items.slice(0,5).map(i=>i.id); emitTrace('[trace:search]', { dir, q, matches: items.length, sample }); } return { hash: st.hash, count: items.length, items }; },
+  diff: (p:{clientHash?:string; known?:{id:string; sourceHash:string}[]; mode?:'ids'|'content'} & ContentDiffParams)=>{ if(p?.mode==='content') return contentDiff(p); const st=readableCatalog(); const clientHash=p.clientHash; const known=p.known; if(!known && clientHash && clientHash===st.hash) return { upToDate:true, hash: st.hash }; if(known){ const map=new Map<string,string>(); for(const k of known){ if(k && k.id && !map.has(k.id)) map.set(k.id,k.sourceHash); } const added:InstructionEntry[]=[]; const updated:InstructionEntry[]=[]; const removed:string[]=[]; for(const e of st.list){ const prev=map.get(e.id); if(prev===undefined) added.push(e); else if(prev!==e.sourceHash) updated.push(e); } for(const id of map.keys()){ if(!st.byId.has(id)) removed.push(id); } if(!added.length && !updated.length && !removed.length && clientHash===st.hash) return { upToDate:true, hash: st.hash }; return { hash: st.hash, added, updated, removed }; } if(!clientHash || clientHash!==st.hash) return { hash: st.hash, changed: st.list }; return { upToDate:true, hash: st.hash }; },
+  export: (p:{ids?:string[]; metaOnly?:boolean; includeDrafts?:boolean})=>{ const st=readableCatalog(); let items=st.list; if(!p?.includeDrafts) items=items.filter(i=> !isHeldDraft(i)); if(p?.ids?.length){ recordDeniedReads('export', p.ids); const want=new Set(p.ids); items=items.filter(i=>want.has(i.id)); } if(p?.metaOnly){ items=items.map(i=> ({ ...i, body:'' })); } const resp=limitResponseSize({ hash: st.hash, count: items.length, items }); return { ...resp, etags: revisionsFor(resp.items) }; },
+  exportBundle: (p:{ids?:string[]; path?:string; sign?:boolean})=>{
+    const st=readableCatalog(); let items=st.list;
+    if(p?.ids?.length){ recordDeniedReads('exportBundle', p.ids); const want=new Set(p.ids); items=items.filter(i=>want.has(i.id)); }
+    // Redacted stand-ins would overwrite real content wherever the bundle is imported, so they are left out
+    const withheld=items.filter(i=> !canRead(i)).map(i=> i.id); if(withheld.length) items=items.filter(i=> canRead(i));
+    let target: string | null = null;
+    if(p?.path!==undefined){ target=resolveBundlePath(p.path.endsWith(BUNDLE_EXT)? p.path: p.path+BUNDLE_EXT); if(!target) return { error:'invalid_path', path:p.path }; }
+    const bundle=createBundle(items, { sign: p?.sign ?? signingEnabled(), catalogHash: st.hash });
+    const info={ hash: st.hash, count: items.length, bytes: bundle.data.length, sha256: crypto.createHash('sha256').update(bundle.data).digest('hex'), keyId: bundle.signature?.keyId, withheld: withheld.length? withheld: undefined };
+    if(!target) return { ...info, bundle: bundle.data.toString('base64') };
+    fs.mkdirSync(path.dirname(target), { recursive:true }); fs.writeFileSync(target, bundle.data);
+    return { ...info, path: target };
+  },
+  query: (p:{ categoriesAll?:string[]; categoriesAny?:string[]; excludeCategories?:string[]; priorityMin?:number; priorityMax?:number; priorityTiers?:('P1'|'P2'|'P3'|'P4')[]; requirements?: InstructionEntry['requirement'][]; text?:string; textMode?:'substring'|'fulltext'; limit?:number; offset?:number; includeDrafts?:boolean })=>{
+    const st=readableCatalog();
     if(traceVisibility()){
       try { emitTrace('[trace:query:start]', { pid: process.pid, dir: getInstructionsDir(), keys: Object.keys(p||{}), categoriesAny: p.categoriesAny, categoriesAll: p.categoriesAll, excludeCategories: p.excludeCategories }); } catch { /* ignore */ }
     }
@@ -231,7 +371,7 @@ export const instructionActions = {
     const reqSet = new Set((p.requirements||[]).filter(r=> ['mandatory','critical','recommended','optional','deprecated'].includes(String(r))) as InstructionEntry['requirement'][]);
     const prMin = typeof p.priorityMin==='number'? p.priorityMin: undefined; const prMax = typeof p.priorityMax==='number'? p.priorityMax: undefined;
     const text = (p.text||'').toLowerCase().trim();
-    let items = st.list;
+    let items = p.includeDrafts ? st.list : st.list.filter(e=> !isHeldDraft(e));
     // BEGIN TEMP QUERY TRACE (diagnostic instrumentation – safe to remove once visibility issue resolved)
   const instructionsCfg = getRuntimeConfig().instructions;
   const diagActive = instructionsCfg.traceQueryDiag && (catsAll.length || catsAny.length || catsEx.length || text.length);
@@ -252,7 +392,11 @@ export const instructionActions = {
     if(prMax!==undefined){ items = items.filter(e=> e.priority <= prMax); pushStage('prMax'); }
     if(tierSet.size){ items = items.filter(e=> e.priorityTier && tierSet.has(e.priorityTier)); pushStage('tiers'); }
     if(reqSet.size){ items = items.filter(e=> reqSet.has(e.requirement)); pushStage('requirements'); }
-    if(text){ items = items.filter(e=> e.title.toLowerCase().includes(text) || e.body.toLowerCase().includes(text) || (e.semanticSummary||'').toLowerCase().includes(text)); pushStage('text'); }
+    if(text && p.textMode==='fulltext'){
+      // BM25 match set from the full-text index; surviving items are ordered by score.
+      const scores = new Map(readableFullTextSearch(text).map(h=> [h.id, h.score] as const));
+      items = items.filter(e=> scores.has(e.id)).sort((a,b)=> (scores.get(b.id)! - scores.get(a.id)!) || a.id.localeCompare(b.id)); pushStage('text');
+    } else if(text){ items = items.filter(e=> e.title.toLowerCase().includes(text) || e.body.toLowerCase().includes(text) || (e.semanticSummary||'').toLowerCase().includes(text)); pushStage('text'); }
     // Recent add fallback injection (before pagination)
     try {
       const recent = (st as unknown as { _recentAdds?: Record<string,{ ts:number; categories:string[] }> })._recentAdds;
@@ -266,7 +410,7 @@ export const instructionActions = {
             const catExcluded = catsEx.length && meta.categories.some(c=> catsEx.includes(c));
             if(catMatchAll && catMatchAny && !catExcluded){
               const injected = st.byId.get(id);
-              if(injected){ items = items.concat([injected]); if(traceVisibility()) emitTrace('[trace:query:recent-add-injected]', { id, graceMs: now-meta.ts }); }
+              if(injected && (p.includeDrafts || !isHeldDraft(injected))){ items = items.concat([injected]); if(traceVisibility()) emitTrace('[trace:query:recent-add-injected]', { id, graceMs: now-meta.ts }); }
             }
         }
       }
@@ -295,10 +439,27 @@ export const instructionActions = {
         }
       }
     }
-    return { hash: st.hash, total, count: paged.length, offset, limit, items: paged, applied: { catsAll, catsAny, catsEx, prMin, prMax, tiers:[...tierSet], requirements:[...reqSet], text: text||undefined } };
+    return { hash: st.hash, total, count: paged.length, offset, limit, items: paged, etags: revisionsFor(paged), applied: { catsAll, catsAny, catsEx, prMin, prMax, tiers:[...tierSet], requirements:[...reqSet], text: text||undefined, textMode: text && p.textMode==='fulltext' ? 'fulltext' : undefined } };
+  },
+  categories: (_p:unknown)=>{ const st=readableCatalog(); const counts=new Map<string,number>(); for(const e of st.list){ for(const c of e.categories){ counts.set(c,(counts.get(c)||0)+1); } } const categories=[...counts.entries()].sort((a,b)=> a[0].localeCompare(b[0])).map(([name,count])=>({name,count})); return { count: categories.length, categories }; },
+  dir: ()=>{ const dir=getInstructionsDir(); let files:string[]=[]; try { files=fs.readdirSync(dir).filter(f=>f.endsWith('.json')).sort(); } catch { /* ignore */ } return { dir, filesCount: files.length, files }; },
+  // Git-backed history (catalog.git). changeLog is always returned so callers get the declared history even when git is off.
+  history: (p:{ id:string; limit?:number; includeDiff?:boolean })=>{
+    const id = p?.id; if(typeof id!=='string' || !RECORD_ID.test(id)) return { error:'invalid id', id };
+    if(recordDeniedReads('history', [id]).length) return { id, notFound:true };
+    const changeLog = ensureLoaded().byId.get(id)?.changeLog || [];
+    if(!isCatalogGitEnabled()) return { id, git:false, changeLog, commits:[] };
+    const commits = catalogHistory(getInstructionsDir(), id, { limit: p.limit, includeDiff: !!p.includeDiff });
+    return { id, git:true, count: commits.length, commits, changeLog };
   },
-  categories: (_p:unknown)=>{ const st=ensureLoaded(); const counts=new Map<string,number>(); for(const e of st.list){ for(const c of e.categories){ counts.set(c,(counts.get(c)||0)+1); } } const categories=[...counts.entries()].sort((a,b)=> a[0].localeCompare(b[0])).map(([name,count])=>({name,count})); return { count: categories.length, categories }; },
-  dir: ()=>{ const dir=getInstructionsDir(); let files:string[]=[]; try { files=fs.readdirSync(dir).filter(f=>f.endsWith('.json')).sort(); } catch { /* ignore */ } return { dir, filesCount: files.length, files }; }
+  blame: (p:{ id:string; lines?:boolean })=>{
+    const id = p?.id; if(typeof id!=='string' || !RECORD_ID.test(id)) return { error:'invalid id', id };
+    if(!isCatalogGitEnabled()) return { id, git:false, error:'git history disabled (set MCP_CATALOG_GIT=1)' };
+    if(recordDeniedReads('blame', [id]).length) return { id, git:true, notFound:true };
+    const lines = catalogBlame(getInstructionsDir(), id);
+    if(!lines.length) return { id, git:true, notFound:true };
+    return { id, git:true, fields: blameByField(lines), lines: p.lines ? lines : undefined };
+  }
 };
 
 // NOTE: Legacy per-method read-only instruction tools (instructions/list, /get, /diff, /export, etc.)
@@ -312,10 +473,12 @@ registerHandler('instructions/inspect', (p:{id:string})=>{
   const id = p.id;
   if(!id) return { error:'missing id' };
   const dir = getInstructionsDir();
-  const file = path.join(dir, `${id}.json`);
-  if(!fs.existsSync(file)) return { id, exists:false, fileMissing:true };
+  const storage = getCatalogStorage(dir);
+  const file = storage.backend === 'file' ? path.join(dir, `${id}.json`) : `${storage.location}#${id}`;
+  if(!storage.exists(id)) return { id, exists:false, fileMissing:true };
+  if(recordDeniedReads('inspect', [id]).length) return { id, exists:true, accessDenied:true };
   let rawText=''; let raw: unknown = null; let parseError: string | undefined;
-  try { rawText = fs.readFileSync(file,'utf8'); raw = JSON.parse(rawText); } catch(e){ parseError = e instanceof Error? e.message: String(e); }
+  try { rawText = storage.readText(`${id}.json`); raw = JSON.parse(rawText); } catch(e){ parseError = e instanceof Error? e.message: String(e); }
   // Re-run schema + classification the same way CatalogLoader does to surface rejection reasons
   let schemaErrors: string | undefined; let classificationIssues: string[] | undefined; let normalized: InstructionEntry | undefined;
   try {
@@ -344,16 +507,21 @@ registerHandler('instructions/inspect', (p:{id:string})=>{
 // Manifest updates should only occur after actual catalog mutations (import/add/remove/etc.).
 // A startup-time invocation could introduce unnecessary I/O and delay the initialize response
 // observed by handshake tests (e.g., addVisibilityInvariant in production deploy context).
-registerHandler('instructions/import', guard('instructions/import', (p:{entries:ImportEntry[]; mode?:'skip'|'overwrite'})=>{
-  const entries=p.entries||[]; const mode=p.mode||'skip';
-  if(!Array.isArray(entries)||!entries.length) return { error:'no entries' };
+// Shared by instructions/import and instructions/importBundle (audited under the caller's operation name).
+function importEntries(entries:(ImportEntry & { ifMatch?: string })[], mode:'skip'|'overwrite', auditAction='import', auditMeta?: Record<string, unknown>){
+  const source = `instructions/${auditAction}`;
+  // Per-entry preconditions are checked up front so a stale token rejects the whole import before any write.
+  assertRevisions(entries.filter(e=> e && e.id).map(e=> ({ id:e.id, ifMatch:e.ifMatch })));
   const dir=getInstructionsDir(); if(!fs.existsSync(dir)) fs.mkdirSync(dir,{recursive:true});
   const instructionsCfg = getRuntimeConfig().instructions;
   let imported=0, skipped=0, overwritten=0; const errors: { id:string; error:string }[]=[]; const classifier=new ClassificationService();
+  const storage = getCatalogStorage(dir);
+  const pending: InstructionEntry[] = [];
+  const scanFindings: (ScanFinding & { id:string })[] = [];
   for(const e of entries){
     if(!e || !e.id || !e.title || !e.body){ const id=(e as Partial<ImportEntry>)?.id||'unknown'; errors.push({ id, error:'missing required fields'}); continue; }
     const bodyTrimmed = typeof e.body === 'string' ? e.body.trim() : String(e.body);
-    const file=path.join(dir, `${e.id}.json`); const fileExists=fs.existsSync(file);
+    const fileExists=storage.exists(e.id);
     const now=new Date().toISOString();
   let categories=Array.from(new Set((Array.isArray(e.categories)? e.categories: []).filter((c):c is string => typeof c==='string' && c.trim().length>0).map(c=>c.toLowerCase()))).sort();
   // Cast through unknown to satisfy TS (ImportEntry lacks index signature but we allow optional primaryCategory)
@@ -368,29 +536,76 @@ registerHandler('instructions/import', guard('instructions/import', (p:{entries:
   }
   const effectivePrimary = (primaryCategoryRaw && categories.includes(primaryCategoryRaw.toLowerCase())) ? primaryCategoryRaw.toLowerCase() : categories[0];
     const newBodyHash=crypto.createHash('sha256').update(bodyTrimmed,'utf8').digest('hex');
-    let existing:InstructionEntry|null=null; if(fileExists){ try { existing=JSON.parse(fs.readFileSync(file,'utf8')); } catch { existing=null; } }
+    let existing:InstructionEntry|null=null; if(fileExists){ try { existing=JSON.parse(storage.readText(`${e.id}.json`)); } catch { existing=null; } }
     // Governance prerequisite rules BEFORE adjusting counters so failures are excluded from imported/overwritten/skipped
     if(e.priorityTier==='P1' && (!categories.length || !e.owner)) { errors.push({ id:e.id, error:'P1 requires category & owner'}); continue; }
     if((e.requirement==='mandatory' || e.requirement==='critical') && !e.owner){ errors.push({ id:e.id, error:'mandatory/critical require owner'}); continue; }
+    const badRefs = invalidReferences(e); if(badRefs.length){ errors.push({ id:e.id, error:`invalid_reference: ${badRefs.join(', ')}` }); continue; }
     // Skip/overwrite semantics now that governance validation passed
     if(fileExists && mode==='skip'){ skipped++; continue; }
-    if(fileExists && mode==='overwrite') overwritten++; else if(!fileExists) imported++;
   const base: InstructionEntry = existing ? { ...existing, title:e.title, body:bodyTrimmed, rationale:e.rationale, priority:e.priority, audience:e.audience, requirement:e.requirement, categories, primaryCategory: effectivePrimary, updatedAt: now } as InstructionEntry : { id:e.id, title:e.title, body:bodyTrimmed, rationale:e.rationale, priority:e.priority, audience:e.audience, requirement:e.requirement, categories, primaryCategory: effectivePrimary, sourceHash:newBodyHash, schemaVersion:SCHEMA_VERSION, deprecatedBy:e.deprecatedBy, createdAt:now, updatedAt:now, riskScore:e.riskScore, createdByAgent: instructionsCfg.agentId, sourceWorkspace: instructionsCfg.workspaceId } as InstructionEntry;
-    const govKeys: (keyof ImportEntry)[] = ['version','owner','status','priorityTier','classification','lastReviewedAt','nextReviewDue','changeLog','semanticSummary'];
+    const govKeys: (keyof ImportEntry)[] = ['version','owner','status','priorityTier','classification','lastReviewedAt','nextReviewDue','changeLog','semanticSummary','promptArguments','extends','includes','links'];
     for(const k of govKeys){ const v = e[k]; if(v!==undefined){ (base as unknown as Record<string, unknown>)[k]=v as unknown; } }
     base.sourceHash = newBodyHash;
-    const record=classifier.normalize(base);
-    if(record.owner==='unowned'){ const auto=resolveOwner(record.id); if(auto){ record.owner=auto; record.updatedAt=new Date().toISOString(); } }
-    try { atomicWriteJson(file, record); } catch { errors.push({ id:e.id, error:'write-failed'}); }
+    pruneEmptyReferences(base);
+    // A requested status goes through the state machine from the stored record (statusWorkflow.ts)
+    const statused=statusForWrite(classifier.normalize(base), existing||undefined, e.status, now);
+    if('error' in statused){ errors.push({ id:e.id, error:statused.error }); continue; }
+    const normalized=holdAgentDraft(statused, existing?.status);
+    if(normalized.owner==='unowned'){ const auto=resolveOwner(normalized.id); if(auto){ normalized.owner=auto; normalized.updatedAt=new Date().toISOString(); } }
+    // Ingest scan (MCP_INGEST_SCAN): block rejects just this entry; redact changes the body, so re-hash it
+    const scan = applyIngestScan(normalized, source);
+    if(scan.blocked){ errors.push({ id:e.id, error:`sensitive_content: ${Array.from(new Set(scan.findings.map(f=> f.kind))).join(', ')}` }); continue; }
+    const record = scan.record;
+    if(scan.redacted) record.sourceHash = crypto.createHash('sha256').update(record.body,'utf8').digest('hex');
+    for(const f of scan.findings) scanFindings.push({ id:record.id, ...f });
+    if(fileExists) overwritten++; else imported++;
+    pending.push(record);
+  }
+  // Gates see the whole import at once; a blocking violation rejects the import before any write.
+  const gateCheck = mutationGateCheck(pending);
+  if(gateCheck.blocked.length){
+    return { error:'gate_failed', gates: gateCheck.blocked, gateWarnings: gateCheck.warnings.length? gateCheck.warnings: undefined };
   }
+  // Single unit of work: one transaction on sqlite storage, plain sequential writes for JSON files.
+  storage.transaction(()=>{
+    for(const record of pending){ try { storage.save(record); } catch { errors.push({ id:record.id, error:'write-failed'}); } }
+  });
   touchCatalogVersion(); invalidate(); const st=ensureLoaded();
-  const summary = { hash: st.hash, imported, skipped, overwritten, total: entries.length, errors };
-  logAudit('import', entries.map(e=> e.id), { imported, skipped, overwritten, errors: errors.length });
+  const summary = { hash: st.hash, imported, skipped, overwritten, total: entries.length, errors, gateWarnings: gateCheck.warnings.length? gateCheck.warnings: undefined, scanFindings: scanFindings.length? scanFindings: undefined };
+  logAudit(auditAction, entries.map(e=> e.id), { ...auditMeta, imported, skipped, overwritten, errors: errors.length });
   attemptManifestUpdate();
   return summary;
+}
+registerHandler('instructions/import', guard('instructions/import', (p:{entries:(ImportEntry & { ifMatch?: string })[]; mode?:'skip'|'overwrite'})=>{
+  const entries=p.entries||[];
+  if(!Array.isArray(entries)||!entries.length) return { error:'no entries' };
+  return importEntries(entries, p.mode||'skip');
+}));
+// Bundle import: integrity and signature checks first, then a plan against the live catalog; dryRun stops there.
+interface ImportBundleParams { bundle?: string; path?: string; dryRun?: boolean; ids?: string[]; remap?: Record<string,string>; idPrefix?: string; mode?: 'skip'|'overwrite'; requireSignature?: boolean }
+registerHandler('instructions/importBundle', guard('instructions/importBundle', (p:ImportBundleParams)=>{
+  if(!p?.bundle === !p?.path) return { error:'bundle_or_path_required' };
+  let bundle: LoadedBundle;
+  try { bundle = loadBundle(p.bundle ? { data: Buffer.from(p.bundle, 'base64') } : { path: p.path }); }
+  catch(err){ return { error:'bundle_unreadable', reason:(err as Error).message }; }
+  const signature = bundle.signature;
+  const requireSignature = p.requireSignature ?? getRuntimeConfig().instructions.bundles.requireSignature;
+  const reject = (reason:string) => { incrementCounter('bundles:rejected'); return { error:'bundle_rejected', reason, issues: bundle.issues, signature }; };
+  if(bundle.issues.length) return reject('integrity');
+  if(signature.status==='invalid') return reject('invalid_signature');
+  if(requireSignature && signature.status!=='valid') return reject('signature_required');
+  if(requireSignature && !signature.trusted) return reject('untrusted_signer');
+  const plan = planBundleImport(bundle, ensureLoaded().byId, { ids:p.ids, remap:p.remap, idPrefix:p.idPrefix, mode:p.mode });
+  if(plan.invalidTargets.length) return { error:'invalid_remap', invalidTargets: plan.invalidTargets };
+  const { apply, ...preview } = plan;
+  const resp = { format: bundle.format, createdAt: bundle.manifest?.createdAt, source: bundle.manifest?.source, signature, ...preview };
+  if(p.dryRun || !apply.length) return { ...resp, dryRun: !!p.dryRun };
+  const result = importEntries(apply as unknown as ImportEntry[], 'overwrite', 'importBundle', { keyId: signature.keyId });
+  return { ...resp, result };
 }));
 // Add (create/update) single instruction. Maintains backward compatibility with dispatcher mapping 'add' -> 'instructions/add'.
-interface AddParams { entry: ImportEntry & { lax?: boolean }; overwrite?: boolean; lax?: boolean }
+interface AddParams { entry: ImportEntry & { lax?: boolean }; overwrite?: boolean; lax?: boolean; expectedSourceHash?: string; ifMatch?: string }
 registerHandler('instructions/add', guard('instructions/add', (p:AddParams)=>{
   const e = p.entry as ImportEntry | undefined;
   const instructionsCfg = getRuntimeConfig().instructions;
@@ -436,6 +651,8 @@ registerHandler('instructions/add', guard('instructions/add', (p:AddParams)=>{
     return base as typeof base;
   };
   if(!e) return fail('missing entry');
+  // Fields the caller actually sent (before lax defaults / hydration); three-way merge only considers these.
+  const suppliedFields = new Set(Object.keys(e));
   const lax = !!(p.lax || (e as unknown as { lax?: boolean })?.lax);
   // Apply lax defaults if enabled (allows body-only submissions like tests rely on)
   if(lax){
@@ -457,11 +674,10 @@ registerHandler('instructions/add', guard('instructions/add', (p:AddParams)=>{
   // from the on-disk record so metadata-only updates can omit them.
   if(p.overwrite && (!e.body || !e.title)){
     try {
-      const dirCandidate = getInstructionsDir();
-      const fileCandidate = path.join(dirCandidate, `${e.id}.json`);
-      if(fs.existsSync(fileCandidate)){
+      const storageCandidate = getCatalogStorage(getInstructionsDir());
+      if(storageCandidate.exists(e.id)){
         try {
-          const raw = JSON.parse(fs.readFileSync(fileCandidate,'utf8')) as Partial<InstructionEntry>;
+          const raw = JSON.parse(storageCandidate.readText(`${e.id}.json`)) as Partial<InstructionEntry>;
           if(raw){
             const mutableExisting = e as Partial<InstructionEntry> & { id:string };
             if(!mutableExisting.body && typeof raw.body === 'string' && raw.body.trim()){
@@ -478,8 +694,9 @@ registerHandler('instructions/add', guard('instructions/add', (p:AddParams)=>{
   // Strict validation after lax fill
   if(!e.id || !e.title || !e.body) return fail('missing required fields');
   const dir = getInstructionsDir(); if(!fs.existsSync(dir)) fs.mkdirSync(dir,{recursive:true});
-  const file = path.join(dir, `${e.id}.json`);
-  const exists = fs.existsSync(file);
+  const storage = getCatalogStorage(dir);
+  const recordName = `${e.id}.json`;
+  const exists = storage.exists(e.id);
   // Preserve original existence state explicitly; some branches may fallback to treating unreadable
   // existing files as new, but governance flags (created/overwritten) should reflect on-disk reality.
   const existedBeforeOriginal = exists;
@@ -492,8 +709,8 @@ registerHandler('instructions/add', guard('instructions/add', (p:AddParams)=>{
     let st0=ensureLoaded(); let visible=st0.byId.has(e.id); let repaired=false; if(!visible){
       try { invalidate(); st0=ensureLoaded(); visible=st0.byId.has(e.id); if(visible) repaired=true; } catch { /* ignore reload */ }
       if(!visible){
-        const filePath=file; if(fs.existsSync(filePath)){
-          try { const rawTxt=fs.readFileSync(filePath,'utf8'); if(rawTxt.trim()){ const rawJson=JSON.parse(rawTxt) as InstructionEntry; const classifier=new ClassificationService(); const issues=classifier.validate(rawJson); if(!issues.length){ const norm=classifier.normalize(rawJson); st0.list.push(norm); st0.byId.set(norm.id,norm); visible=true; repaired=true; incrementCounter('instructions:addSkipLateMaterialize'); } else { incrementCounter('instructions:addSkipLateMaterializeRejected'); } } else { incrementCounter('instructions:addSkipLateMaterializeEmpty'); }
+        if(storage.exists(e.id)){
+          try { const rawTxt=storage.readText(recordName); if(rawTxt.trim()){ const rawJson=JSON.parse(rawTxt) as InstructionEntry; const classifier=new ClassificationService(); const issues=classifier.validate(rawJson); if(!issues.length){ const norm=classifier.normalize(rawJson); st0.list.push(norm); st0.byId.set(norm.id,norm); visible=true; repaired=true; incrementCounter('instructions:addSkipLateMaterialize'); } else { incrementCounter('instructions:addSkipLateMaterializeRejected'); } } else { incrementCounter('instructions:addSkipLateMaterializeEmpty'); }
           } catch { incrementCounter('instructions:addSkipLateMaterializeParseError'); }
         }
       }
@@ -507,6 +724,37 @@ registerHandler('instructions/add', guard('instructions/add', (p:AddParams)=>{
     if(!visible){ return { id:e.id, skipped:true, created:false, overwritten:false, hash: st0.hash, visibilityWarning:'skipped_file_not_in_catalog' }; }
     return { id:e.id, skipped:true, created:false, overwritten:false, hash: st0.hash, repaired: repaired? true: undefined };
   }
+  // Strict precondition: ifMatch must name the stored revision token (no merge attempt, unlike expectedSourceHash).
+  if(p.ifMatch !== undefined) assertRevision(e.id, p.ifMatch);
+  // Optimistic concurrency: expectedSourceHash names the revision the caller edited. If another writer has
+  // since changed the record, three-way merge (base = that revision) instead of clobbering; unmergeable
+  // edits are rejected with the conflicting fields so the caller can resolve and retry.
+  let merge: { base: string; current: string; keptCurrent: string[]; bodyMerged: boolean } | undefined;
+  const expectedSourceHash = typeof p.expectedSourceHash === 'string' && p.expectedSourceHash.trim() ? p.expectedSourceHash.trim() : undefined;
+  if(expectedSourceHash){
+    let current: InstructionEntry | undefined;
+    if(exists){ try { current = JSON.parse(storage.readText(recordName)) as InstructionEntry; } catch { /* treated as missing */ } }
+    if(!current) return { ...fail('source_hash_conflict', { id:e.id }), conflict: { expectedSourceHash, currentSourceHash: null, reason:'record_missing' } };
+    if(current.sourceHash !== expectedSourceHash){
+      const baseEntry = findEntryRevision(e.id, { sourceHash: expectedSourceHash }, dir);
+      if(!baseEntry) return { ...fail('source_hash_conflict', { id:e.id }), conflict: { expectedSourceHash, currentSourceHash: current.sourceHash, reason:'base_unavailable' } };
+      const incoming: Record<string, unknown> = {};
+      for(const f of MERGE_FIELDS){ if(suppliedFields.has(f)) incoming[f] = (e as unknown as Record<string, unknown>)[f]; }
+      if(typeof incoming.body === 'string') incoming.body = incoming.body.trim();
+      const result = mergeEntries(baseEntry, current, incoming, MERGE_FIELDS);
+      if(!result.clean){
+        incrementCounter('instructions:addMergeConflict');
+        return { ...fail('source_hash_conflict', { id:e.id }), conflict: { expectedSourceHash, currentSourceHash: current.sourceHash, reason:'merge_conflict', fields: result.conflicts, body: result.bodyConflictText } };
+      }
+      // Unsupplied fields (lax defaults) must not clobber the concurrent writer's values.
+      for(const f of MERGE_FIELDS){ const cv = (current as unknown as Record<string, unknown>)[f]; if(!suppliedFields.has(f) && cv !== undefined) (e as unknown as Record<string, unknown>)[f] = cv; }
+      Object.assign(e, result.values);
+      // Version / changeLog were computed against the stale base; let the overwrite path bump from the current record.
+      delete (e as Partial<ImportEntry>).version; delete (e as Partial<ImportEntry>).changeLog;
+      merge = { base: expectedSourceHash, current: current.sourceHash, keptCurrent: result.keptCurrent, bodyMerged: result.bodyMerged };
+      incrementCounter('instructions:addMerged');
+    }
+  }
   const now = new Date().toISOString();
   const rawBody = typeof e.body==='string'? e.body: String(e.body||'');
   const bodyTrimmed = rawBody.trim();
@@ -530,11 +778,12 @@ registerHandler('instructions/add', guard('instructions/add', (p:AddParams)=>{
   // Governance prerequisites
   if(e.priorityTier==='P1' && (!categories.length || !e.owner)) return fail('P1 requires category & owner', { id:e.id });
   if((e.requirement==='mandatory' || e.requirement==='critical') && !e.owner) return fail('mandatory/critical require owner', { id:e.id });
+  if(invalidReferences(e).length) return { ...fail('invalid_reference', { id:e.id }), invalid: invalidReferences(e) };
   const classifier = new ClassificationService();
   let base: InstructionEntry;
   if(exists){
     try {
-      const existing = JSON.parse(fs.readFileSync(file,'utf8')) as InstructionEntry;
+      const existing = JSON.parse(storage.readText(recordName)) as InstructionEntry;
       // Start from existing to preserve unspecified fields when overwrite=true but fields omitted (common in tests)
       base = { ...existing } as InstructionEntry;
     const prevBody = existing.body;
@@ -562,16 +811,20 @@ registerHandler('instructions/add', guard('instructions/add', (p:AddParams)=>{
   const ownerChanged = eRec.owner !== undefined && eRec.owner !== existing.owner;
   const semanticSummaryChanged = eRec.semanticSummary !== undefined && eRec.semanticSummary !== existing.semanticSummary;
   const classificationChanged = eRec.classification !== undefined && eRec.classification !== existing.classification;
+  const promptArgumentsChanged = eRec.promptArguments !== undefined && JSON.stringify(eRec.promptArguments) !== JSON.stringify(existing.promptArguments);
+  const compositionChanged = (eRec.extends !== undefined && (eRec.extends || undefined) !== existing.extends) || (eRec.includes !== undefined && JSON.stringify(eRec.includes) !== JSON.stringify(existing.includes || []));
+  const linksChanged = eRec.links !== undefined && JSON.stringify(eRec.links) !== JSON.stringify(existing.links || {});
       const versionChanged = e.version !== undefined && e.version !== existing.version;
       // Check for category changes by comparing normalized arrays
       const categoriesChanged = categories.length > 0 && JSON.stringify(categories.sort()) !== JSON.stringify((existing.categories || []).sort());
-      const governanceMetaChanged = titleChanged || ownerChanged || semanticSummaryChanged || classificationChanged || versionChanged || categoriesChanged;
+      const governanceMetaChanged = titleChanged || ownerChanged || semanticSummaryChanged || classificationChanged || versionChanged || categoriesChanged || promptArgumentsChanged || compositionChanged || linksChanged;
       // Early no-op shortcut: no body change AND no governance meta value change => treat as true no-op.
       if(overwrite && !bodyChanged && !governanceMetaChanged){
         // Return fast response reflecting no mutation. We still expose verified:true since
         // in-memory catalog already contains the entry and visibility contract holds.
         const stNoop = ensureLoaded();
-        const respNoop: { id:string; created:boolean; overwritten:boolean; skipped:boolean; hash:string; verified:true; strictVerified?: true } = { id:e.id, created:false, overwritten:false, skipped:true, hash: stNoop.hash, verified:true };
+        const noopEntry = stNoop.byId.get(e.id);
+        const respNoop: { id:string; created:boolean; overwritten:boolean; skipped:boolean; hash:string; verified:true; strictVerified?: true; etag?: string } = { id:e.id, created:false, overwritten:false, skipped:true, hash: stNoop.hash, verified:true, etag: noopEntry ? computeRevisionToken(noopEntry) : undefined };
   if(instructionsCfg.strictCreate) respNoop.strictVerified = true;
         logAudit('add', e.id, { created:false, overwritten:false, skipped:true, verified:true, noop:true });
         if(traceVisibility()) emitTrace('[trace:add:noop-overwrite]', { id:e.id, hash: stNoop.hash, reason:'no body/governance delta' });
@@ -677,8 +930,9 @@ registerHandler('instructions/add', guard('instructions/add', (p:AddParams)=>{
   }
   }
   // Pass-through governance fields (exclude changeLog to avoid overwriting repaired log)
-  const govKeys: (keyof ImportEntry)[] = ['version','owner','status','priorityTier','classification','lastReviewedAt','nextReviewDue','semanticSummary'];
+  const govKeys: (keyof ImportEntry)[] = ['version','owner','status','priorityTier','classification','lastReviewedAt','nextReviewDue','semanticSummary','promptArguments','extends','includes','links'];
   for(const k of govKeys){ const v = (e as ImportEntry)[k]; if(v!==undefined){ (base as unknown as Record<string, unknown>)[k]=v as unknown; } }
+  pruneEmptyReferences(base);
   // Ensure sourceHash reflects trimmed body (only recompute if body changed or new)
   if(!exists || base.body === bodyTrimmed){
     base.sourceHash = sourceHash;
@@ -688,10 +942,25 @@ registerHandler('instructions/add', guard('instructions/add', (p:AddParams)=>{
       ? crypto.createHash('sha256').update(base.body,'utf8').digest('hex')
       : hashBody(base.body);
   }
-  const record = classifier.normalize(base);
-  if(record.owner==='unowned'){ const auto=resolveOwner(record.id); if(auto){ record.owner=auto; record.updatedAt=new Date().toISOString(); } }
+  // A requested status goes through the state machine from the stored record (statusWorkflow.ts)
+  const prior = ensureLoaded().byId.get(e.id);
+  const statused = statusForWrite(classifier.normalize(base), prior, (e as ImportEntry).status, now);
+  if('error' in statused) return { ...fail(statused.error, { id:e.id }), ...statused };
+  const normalized = holdAgentDraft(statused, prior?.status);
+  if(normalized.owner==='unowned'){ const auto=resolveOwner(normalized.id); if(auto){ normalized.owner=auto; normalized.updatedAt=new Date().toISOString(); } }
+  // Ingest scan (MCP_INGEST_SCAN). The failure repro omits the body preview so the secret is not echoed into feedback.
+  const scan = applyIngestScan(normalized, 'instructions/add');
+  if(scan.blocked) return { ...fail('sensitive_content', { id:e.id }), reproEntry: { id:e.id }, findings: scan.findings };
+  const record = scan.record;
+  if(scan.redacted){
+    record.sourceHash = instructionsCfg.canonicalDisable
+      ? crypto.createHash('sha256').update(record.body,'utf8').digest('hex')
+      : hashBody(record.body);
+  }
+  const gateCheck = mutationGateCheck([record]);
+  if(gateCheck.blocked.length) return { ...fail('gate_failed', { id:e.id }), gates: gateCheck.blocked };
   // Persist to disk
-  try { atomicWriteJson(file, record); } catch(err){ return fail((err as Error).message||'write-failed', { id:e.id }); }
+  try { storage.save(record); } catch(err){ return fail((err as Error).message||'write-failed', { id:e.id }); }
   try { touchCatalogVersion(); } catch { /* ignore */ }
   let stReloaded;
   const strictMode = instructionsCfg.strictVisibility;
@@ -719,7 +988,7 @@ registerHandler('instructions/add', guard('instructions/add', (p:AddParams)=>{
   try {
     // 1. Re-read file from disk
     let diskRaw: string | undefined; let parsed: InstructionEntry | undefined;
-    try { diskRaw = fs.readFileSync(file,'utf8'); } catch(e){ verifyIssues.push('read-failed:' + (e as Error).message); }
+    try { diskRaw = storage.readText(recordName); } catch(e){ verifyIssues.push('read-failed:' + (e as Error).message); }
     if(diskRaw){
       try { parsed = JSON.parse(diskRaw) as InstructionEntry; } catch(e){ verifyIssues.push('parse-failed:' + (e as Error).message); }
       if(parsed){
@@ -761,25 +1030,35 @@ registerHandler('instructions/add', guard('instructions/add', (p:AddParams)=>{
   try {
     if(instructionsCfg.manifest.writeEnabled) writeManifestFromCatalog(); else setImmediate(()=>{ try { attemptManifestUpdate(); } catch { /* ignore */ } });
   } catch { /* ignore manifest */ }
-  logAudit('add', e.id, { created: createdNow, overwritten: overwrittenNow, verified:true, forcedReload:true });
+  logAudit('add', e.id, { created: createdNow, overwritten: overwrittenNow, verified:true, forcedReload:true, merged: merge ? true : undefined });
   if(traceVisibility()) emitTrace('[trace:add:forced-reload]', { id:e.id, created: createdNow, overwritten: overwrittenNow, hash: stReloaded.hash, strictVerified, issues: verifyIssues.slice(0,5), strictMode });
-  return { id:e.id, created: createdNow, overwritten: overwrittenNow, skipped:false, hash: stReloaded.hash, verified:true, strictVerified, verifyIssues: verifyIssues.length? verifyIssues: undefined, strictMode }; 
+  const written = stReloaded.byId.get(e.id);
+  return { id:e.id, created: createdNow, overwritten: overwrittenNow, skipped:false, hash: stReloaded.hash, verified:true, strictVerified, verifyIssues: verifyIssues.length? verifyIssues: undefined, strictMode, merge, etag: written ? computeRevisionToken(written) : undefined, gateWarnings: gateCheck.warnings.length? gateCheck.warnings: undefined, scanFindings: scan.findings.length? scan.findings: undefined }; 
   // NOTE: Legacy post-write strict verification & stabilization logic removed in favor of
   // deterministic immediate in-memory injection above. Multi-process coherence is preserved
   // via version marker touch; manifest reconciliation remains deferred & eventual.
 }));
 
-registerHandler('instructions/remove', guard('instructions/remove', (p:{ ids:string[]; missingOk?: boolean })=>{
+registerHandler('instructions/remove', guard('instructions/remove', (p:{ ids:string[]; missingOk?: boolean; ifMatch?: string | Record<string,string> })=>{
   const ids=Array.isArray(p.ids)? Array.from(new Set(p.ids.filter(x=> typeof x==='string' && x.trim()))):[];
   if(!ids.length) return { removed:0, removedIds:[], missing:[], errorCount:0, errors:['no ids supplied'] };
-  const base=getInstructionsDir();
+  // ifMatch: a single token (one id) or a map of id -> token; ids without a token are unconditional.
+  if(p.ifMatch !== undefined){
+    if(typeof p.ifMatch === 'string'){
+      if(ids.length !== 1) return { removed:0, removedIds:[], missing:[], errorCount:1, errors:['ifMatch string requires exactly one id (use an id -> token map)'] };
+      assertRevision(ids[0], p.ifMatch);
+    } else if(p.ifMatch && typeof p.ifMatch === 'object'){
+      const tokens = p.ifMatch;
+      assertRevisions(ids.map(id=> ({ id, ifMatch: tokens[id] })));
+    }
+  }
+  const storage=getCatalogStorage(getInstructionsDir());
   const missing:string[]=[]; const removed:string[]=[]; const errors:{ id:string; error:string }[]=[];
   const instructionsCfg = getRuntimeConfig().instructions;
   for(const id of ids){
-    const file=path.join(base, `${id}.json`);
     try {
-      if(!fs.existsSync(file)){ missing.push(id); continue; }
-      fs.unlinkSync(file);
+      if(!storage.exists(id)){ missing.push(id); continue; }
+      storage.remove(id);
       removed.push(id);
     } catch(e){ errors.push({ id, error: e instanceof Error? e.message: 'delete-failed' }); }
   }
@@ -823,9 +1102,9 @@ registerHandler('instructions/governanceHash', ()=>{
       // Pick first entry (deterministic) and compare owner + updatedAt to on-disk JSON; if mismatch, invalidate.
       const first = st.list[0];
       if(first){
-        const file = path.join(getInstructionsDir(), `${first.id}.json`);
-        if(fs.existsSync(file)){
-          const raw = JSON.parse(fs.readFileSync(file,'utf8')) as { owner?:string; updatedAt?:string };
+        const storage = getCatalogStorage(getInstructionsDir());
+        if(storage.exists(first.id)){
+          const raw = JSON.parse(storage.readText(`${first.id}.json`)) as { owner?:string; updatedAt?:string };
             if(raw && typeof raw.owner==='string' && raw.owner !== first.owner){
               invalidate();
               st = ensureLoaded();
@@ -842,8 +1121,8 @@ registerHandler('instructions/governanceHash', ()=>{
   // from on-disk owner for that same id (indicating catalog staleness) OR a small minority (<90%) of ids
   // relative to files on disk (suggesting partial visibility under race conditions).
   try {
-    const dir = getInstructionsDir();
-    const files = fs.readdirSync(dir).filter(f=> f.endsWith('.json'));
+    const storage = getCatalogStorage(getInstructionsDir());
+    const files = storage.listFiles();
     if(files.length && (projections.length === 0 || projections.length < Math.floor(files.length*0.9))){
       const missingIds = new Set(files.map(f=> f.replace(/\.json$/,'')));
       for(const p of projections){ missingIds.delete(p.id); }
@@ -852,9 +1131,8 @@ registerHandler('instructions/governanceHash', ()=>{
       let loadCount = 0;
       for(const mid of missingIds){
         if(loadCount>=5) break; loadCount++;
-        const file = path.join(dir, mid + '.json');
         try {
-          const raw = JSON.parse(fs.readFileSync(file,'utf8')) as InstructionEntry;
+          const raw = JSON.parse(storage.readText(mid + '.json')) as InstructionEntry;
           if(raw && raw.id === mid){
             st.list.push(raw); st.byId.set(raw.id, raw); hydrated = true;
           }
@@ -917,13 +1195,13 @@ registerHandler('instructions/health', ()=>{ const st=ensureLoaded(); const gove
 // Enrichment persistence tool: rewrites placeholder governance fields on disk to normalized values
 registerHandler('instructions/enrich', guard('instructions/enrich', ()=>{
   const st=ensureLoaded();
-  const baseDir=getInstructionsDir();
+  const storage=getCatalogStorage(getInstructionsDir());
   let rewritten=0; const updated:string[]=[]; const skipped:string[]=[];
   for(const e of st.list){
-    const file=path.join(baseDir, `${e.id}.json`);
-    if(!fs.existsSync(file)) continue;
+    const file=`${e.id}.json`;
+    if(!storage.exists(e.id)) continue;
     try {
-      const raw = JSON.parse(fs.readFileSync(file,'utf8')) as Record<string, unknown>;
+      const raw = JSON.parse(storage.readText(file)) as Record<string, unknown>;
       let needs = false;
   // Fallback recomputation (defensive) in case catalog normalization didn't persist yet.
   const nowIso = new Date().toISOString();
@@ -956,7 +1234,7 @@ registerHandler('instructions/enrich', guard('instructions/enrich', ()=>{
         }
       };
       apply('sourceHash'); apply('owner'); apply('createdAt'); apply('updatedAt'); apply('priorityTier'); apply('semanticSummary');
-      if(needs){ fs.writeFileSync(file, JSON.stringify(raw,null,2)); rewritten++; updated.push(e.id); } else { skipped.push(e.id); }
+      if(needs){ storage.writeText(file, JSON.stringify(raw,null,2)); rewritten++; updated.push(e.id); } else { skipped.push(e.id); }
     } catch { /* ignore */ }
   }
   if(rewritten){ touchCatalogVersion(); invalidate(); ensureLoaded(); }
@@ -980,15 +1258,17 @@ registerHandler('instructions/debugCatalog', ()=>{
 });
 
 // Governance patch tool: controlled updates to limited governance fields + optional semantic version bump
-registerHandler('instructions/governanceUpdate', guard('instructions/governanceUpdate', (p:{ id:string; owner?:string; status?:string; lastReviewedAt?:string; nextReviewDue?:string; bump?: 'patch'|'minor'|'major'|'none' })=>{
+registerHandler('instructions/governanceUpdate', guard('instructions/governanceUpdate', (p:{ id:string; owner?:string; status?:string; lastReviewedAt?:string; nextReviewDue?:string; bump?: 'patch'|'minor'|'major'|'none'; ifMatch?: string })=>{
   const id = p.id;
   const st=ensureLoaded();
   const existing=st.byId.get(id);
+  if(!existing && p.ifMatch === undefined) return { id, notFound:true };
+  assertRevision(id, p.ifMatch);
   if(!existing) return { id, notFound:true };
-  const file=path.join(getInstructionsDir(), `${id}.json`);
-  if(!fs.existsSync(file)) return { id, notFound:true };
+  const storage=getCatalogStorage(getInstructionsDir()); const file=`${id}.json`;
+  if(!storage.exists(id)) return { id, notFound:true };
   let record: InstructionEntry;
-  try { record=JSON.parse(fs.readFileSync(file,'utf8')) as InstructionEntry; } catch { return { id, error:'read-failed' }; }
+  try { record=JSON.parse(storage.readText(file)) as InstructionEntry; } catch { return { id, error:'read-failed' }; }
   let changed=false; const now=new Date().toISOString();
   const bump=p.bump||'none';
   if(p.owner && p.owner!==record.owner){ record.owner=p.owner; changed=true; }
@@ -1000,7 +1280,10 @@ registerHandler('instructions/governanceUpdate', guard('instructions/governanceU
       return { id, error:'invalid status', provided: p.status };
     }
     if(desired !== record.status){
-      record.status = desired as InstructionEntry['status'];
+      // State machine: allowed transitions and the tier's approval count before approved (statusWorkflow.ts)
+      const rejected = checkTransition(record, desired as InstructionStatus);
+      if(rejected) return { id, ...rejected };
+      record = applyTransition(record, desired as InstructionStatus, now);
       changed=true;
     }
   }
@@ -1011,18 +1294,77 @@ registerHandler('instructions/governanceUpdate', guard('instructions/governanceU
     if(bump==='major') parts[0]++; else if(bump==='minor') parts[1]++; else if(bump==='patch') parts[2]++; if(bump==='major'){ parts[1]=0; parts[2]=0; } if(bump==='minor'){ parts[2]=0; }
     const newVersion=parts.join('.'); if(newVersion!==record.version){ record.version=newVersion; record.changeLog=[...(record.changeLog||[]), { version:newVersion, changedAt: now, summary:`manual ${bump} bump via governanceUpdate` }]; changed=true; }
   }
-  if(!changed) return { id, changed:false };
+  if(!changed) return { id, changed:false, etag: computeRevisionToken(existing) };
   record.updatedAt=now;
-  try { fs.writeFileSync(file, JSON.stringify(record,null,2)); } catch { return { id, error:'write-failed' }; }
-  touchCatalogVersion(); invalidate(); ensureLoaded();
-  const resp = { id, changed:true, version: record.version, owner: record.owner, status: record.status, lastReviewedAt: record.lastReviewedAt, nextReviewDue: record.nextReviewDue };
+  try { storage.writeText(file, JSON.stringify(record,null,2)); } catch { return { id, error:'write-failed' }; }
+  touchCatalogVersion(); invalidate(); const stAfter=ensureLoaded(); const updated=stAfter.byId.get(id);
+  const resp = { id, changed:true, version: record.version, owner: record.owner, status: record.status, lastReviewedAt: record.lastReviewedAt, nextReviewDue: record.nextReviewDue, etag: updated ? computeRevisionToken(updated) : undefined };
   logAudit('governanceUpdate', id, { changed:true, version: record.version });
   attemptManifestUpdate();
   return resp;
 }));
 
+// Approval for an entry in review; reaching the tier's required count moves it to approved (statusWorkflow.ts).
+// The approver is the authenticated caller (MCP client / bearer token / MCP_AGENT_ID), never a parameter.
+registerHandler('instructions/approve', guard('instructions/approve', (p:{ id:string; comment?:string; ifMatch?: string })=>{
+  const id = p.id;
+  const existing=ensureLoaded().byId.get(id);
+  if(!existing && p.ifMatch === undefined) return { id, notFound:true };
+  assertRevision(id, p.ifMatch);
+  if(!existing) return { id, notFound:true };
+  const storage=getCatalogStorage(getInstructionsDir()); const file=`${id}.json`;
+  if(!storage.exists(id)) return { id, notFound:true };
+  let current: InstructionEntry;
+  try { current=JSON.parse(storage.readText(file)) as InstructionEntry; } catch { return { id, error:'read-failed' }; }
+  const caller = currentCaller();
+  const result = recordApproval(current, caller.source === 'anonymous' ? undefined : caller.id, { comment: p.comment, now: new Date().toISOString() });
+  if('error' in result){ incrementCounter('instructions:approvalRejected'); return { id, ...result }; }
+  try { storage.writeText(file, JSON.stringify(result.record,null,2)); } catch { return { id, error:'write-failed' }; }
+  touchCatalogVersion(); invalidate(); const updated=ensureLoaded().byId.get(id);
+  logAudit('approve', id, { approver: result.record.approvals?.[result.record.approvals.length-1]?.approver, approved: result.approved });
+  attemptManifestUpdate();
+  return { id, status: result.record.status, approved: result.approved, approvals: result.record.approvals || [], required: result.required, etag: updated ? computeRevisionToken(updated) : undefined };
+}));
+
+// Restore an instruction's content from a prior git revision (catalog.git). The restored record keeps its
+// accumulated changeLog, current status and approvals, gains a patch version bump + revert changeLog entry, and
+// is itself committed. Like add it passes the status workflow, the ingest scan and the mutation gates.
+registerHandler('instructions/revert', guard('instructions/revert', (p:{ id:string; revision:string; ifMatch?: string })=>{
+  const id = p?.id; const revision = p?.revision;
+  if(typeof id!=='string' || !RECORD_ID.test(id)) return { id, error:'invalid id' };
+  if(typeof revision!=='string' || !isValidRevision(revision)) return { id, error:'invalid revision', revision };
+  if(!isCatalogGitEnabled()) return { id, error:'git history disabled (set MCP_CATALOG_GIT=1)' };
+  assertRevision(id, p.ifMatch);
+  const dir = getInstructionsDir();
+  let prior: InstructionEntry; let commit: string;
+  try { const rev = readCatalogRevision(dir, id, revision); commit = rev.commit; prior = JSON.parse(rev.text) as InstructionEntry; }
+  catch { return { id, error:'revision not found', revision }; }
+  const storage = getCatalogStorage(dir); const file = `${id}.json`;
+  let current: InstructionEntry | undefined;
+  if(storage.exists(id)){ try { current = JSON.parse(storage.readText(file)) as InstructionEntry; } catch { /* corrupt current record: restore wholesale */ } }
+  const now = new Date().toISOString();
+  const parts = (current?.version || prior.version || '1.0.0').split('.').map(n=> parseInt(n||'0',10)); while(parts.length<3) parts.push(0);
+  parts[2]++;
+  const version = parts.join('.');
+  const restored: InstructionEntry = { ...prior, status: current ? current.status : prior.status, approvals: current?.approvals, version, updatedAt: now, changeLog: [...(current?.changeLog || prior.changeLog || []), { version, changedAt: now, summary:`revert to ${commit.slice(0,12)}` }] };
+  // A deleted entry comes back as a new one: approved only if its tier needs no approvals (statusWorkflow.ts)
+  const statused = current ? restored : statusForWrite(restored, undefined, prior.status, now);
+  if('error' in statused) return { id, ...statused };
+  const scan = applyIngestScan(holdAgentDraft(statused, current?.status), 'instructions/revert');
+  if(scan.blocked) return { id, error:'sensitive_content', findings: scan.findings };
+  const record = scan.record;
+  if(scan.redacted) record.sourceHash = getRuntimeConfig().instructions.canonicalDisable ? crypto.createHash('sha256').update(record.body,'utf8').digest('hex') : hashBody(record.body);
+  const gateCheck = mutationGateCheck([record]);
+  if(gateCheck.blocked.length) return { id, error:'gate_failed', gates: gateCheck.blocked };
+  try { storage.writeText(file, JSON.stringify(record,null,2)); } catch { return { id, error:'write-failed' }; }
+  touchCatalogVersion(); invalidate(); const reverted = ensureLoaded().byId.get(id);
+  logAudit('revert', id, { revision: commit, version, restored: !current });
+  attemptManifestUpdate();
+  return { id, reverted:true, revision: commit, version, restored: !current, etag: reverted ? computeRevisionToken(reverted) : undefined };
+}));
+
 // Hash repair tool (instructions/repair) ported from monolith
-registerHandler('instructions/repair', guard('instructions/repair', (_p:unknown)=>{ const st=ensureLoaded(); const toFix: { entry: InstructionEntry; actual:string }[]=[]; for(const e of st.list){ const actual=crypto.createHash('sha256').update(e.body,'utf8').digest('hex'); if(actual!==e.sourceHash) toFix.push({ entry:e, actual }); } if(!toFix.length) return { repaired:0, updated:[] }; const repaired:string[]=[]; for(const { entry, actual } of toFix){ const file=path.join(getInstructionsDir(), `${entry.id}.json`); try { const updated={ ...entry, sourceHash: actual, updatedAt:new Date().toISOString() }; fs.writeFileSync(file, JSON.stringify(updated,null,2)); repaired.push(entry.id); } catch { /* ignore */ } } if(repaired.length){ touchCatalogVersion(); invalidate(); ensureLoaded(); } const resp = { repaired: repaired.length, updated: repaired }; if(repaired.length){ logAudit('repair', repaired, { repaired: repaired.length }); attemptManifestUpdate(); } return resp; }));
+registerHandler('instructions/repair', guard('instructions/repair', (_p:unknown)=>{ const st=ensureLoaded(); const toFix: { entry: InstructionEntry; actual:string }[]=[]; for(const e of st.list){ const actual=crypto.createHash('sha256').update(e.body,'utf8').digest('hex'); if(actual!==e.sourceHash) toFix.push({ entry:e, actual }); } if(!toFix.length) return { repaired:0, updated:[] }; const repaired:string[]=[]; const storage=getCatalogStorage(getInstructionsDir()); storage.transaction(()=>{ for(const { entry, actual } of toFix){ try { const updated={ ...entry, sourceHash: actual, updatedAt:new Date().toISOString() }; storage.writeText(`${entry.id}.json`, JSON.stringify(updated,null,2)); repaired.push(entry.id); } catch { /* ignore */ } } }); if(repaired.length){ touchCatalogVersion(); invalidate(); ensureLoaded(); } const resp = { repaired: repaired.length, updated: repaired }; if(repaired.length){ logAudit('repair', repaired, { repaired: repaired.length }); attemptManifestUpdate(); } return resp; }));
 
 // Groom tool (instructions/groom) - copied & lightly simplified
 registerHandler('instructions/groom', guard('instructions/groom', (p:{ mode?: { dryRun?: boolean; removeDeprecated?: boolean; mergeDuplicates?: boolean; purgeLegacyScopes?: boolean } })=>{
@@ -1031,10 +1373,11 @@ registerHandler('instructions/groom', guard('instructions/groom', (p:{ mode?: {
   const duplicateBodies=new Set<string>();
   if(mergeDuplicates){ const groups=new Map<string,InstructionEntry[]>(); for(const e of byId.values()){ const key=e.sourceHash || crypto.createHash('sha256').update(e.body,'utf8').digest('hex'); const arr=groups.get(key)||[]; arr.push(e); groups.set(key,arr); } for(const group of groups.values()){ if(group.length<=1) continue; let primary=group[0]; for(const candidate of group){ if(candidate.createdAt && primary.createdAt){ if(candidate.createdAt < primary.createdAt) primary=candidate; } else if(!primary.createdAt && candidate.createdAt){ primary=candidate; } else if(candidate.id < primary.id){ primary=candidate; } } for(const dup of group){ if(dup.id===primary.id) continue; if(dup.priority < primary.priority){ primary.priority=dup.priority; updated.add(primary.id); } if(typeof dup.riskScore==='number'){ if(typeof primary.riskScore!=='number' || dup.riskScore > primary.riskScore){ primary.riskScore=dup.riskScore; updated.add(primary.id); } } const mergedCats=Array.from(new Set([...(primary.categories||[]), ...(dup.categories||[])] )).sort(); if(JSON.stringify(mergedCats)!==JSON.stringify(primary.categories)){ primary.categories=mergedCats; updated.add(primary.id); } if(removeDeprecated){ duplicateBodies.add(dup.id); } else { if(dup.deprecatedBy!==primary.id){ dup.deprecatedBy=primary.id; dup.requirement='deprecated'; dup.updatedAt=new Date().toISOString(); updated.add(dup.id); } } duplicatesMerged++; } } }
   const toRemove:string[]=[]; if(removeDeprecated){ for(const e of byId.values()){ if(e.deprecatedBy && byId.has(e.deprecatedBy)) toRemove.push(e.id); } for(const id of duplicateBodies){ if(!toRemove.includes(id)) toRemove.push(id); } }
-  if(purgeLegacyScopes){ const baseDir=getInstructionsDir(); for(const e of byId.values()){ const filePath=path.join(baseDir, `${e.id}.json`); try { if(fs.existsSync(filePath)){ const raw=JSON.parse(fs.readFileSync(filePath,'utf8')) as { categories?: unknown[] }; if(Array.isArray(raw.categories)){ const legacyTokens=raw.categories.filter(c=> typeof c==='string' && /^scope:(workspace|user|team):/.test(c)); if(legacyTokens.length){ purgedScopes += legacyTokens.length; updated.add(e.id); } } } } catch { /* ignore */ } } if(dryRun && purgedScopes) notes.push(`would-purge:${purgedScopes}`); }
-  { const baseDir=getInstructionsDir(); for(const e of byId.values()){ const filePath=path.join(baseDir, `${e.id}.json`); let storedHash=e.sourceHash||''; try { if(fs.existsSync(filePath)){ const raw=JSON.parse(fs.readFileSync(filePath,'utf8')) as { sourceHash?:string }; if(typeof raw.sourceHash==='string') storedHash=raw.sourceHash; } } catch(_err){ /* ignore read error */ } const actualHash=crypto.createHash('sha256').update(e.body,'utf8').digest('hex'); if(storedHash!==actualHash){ // Alpha deterministic: repair hash without semantic version bump
+  const storage=getCatalogStorage(getInstructionsDir());
+  if(purgeLegacyScopes){ for(const e of byId.values()){ try { if(storage.exists(e.id)){ const raw=JSON.parse(storage.readText(`${e.id}.json`)) as { categories?: unknown[] }; if(Array.isArray(raw.categories)){ const legacyTokens=raw.categories.filter(c=> typeof c==='string' && /^scope:(workspace|user|team):/.test(c)); if(legacyTokens.length){ purgedScopes += legacyTokens.length; updated.add(e.id); } } } } catch { /* ignore */ } } if(dryRun && purgedScopes) notes.push(`would-purge:${purgedScopes}`); }
+  { for(const e of byId.values()){ let storedHash=e.sourceHash||''; try { if(storage.exists(e.id)){ const raw=JSON.parse(storage.readText(`${e.id}.json`)) as { sourceHash?:string }; if(typeof raw.sourceHash==='string') storedHash=raw.sourceHash; } } catch(_err){ /* ignore read error */ } const actualHash=crypto.createHash('sha256').update(e.body,'utf8').digest('hex'); if(storedHash!==actualHash){ // Alpha deterministic: repair hash without semantic version bump
       e.sourceHash=actualHash; repairedHashes++; e.updatedAt=new Date().toISOString(); updated.add(e.id); } } }
-  deprecatedRemoved = toRemove.length; if(!dryRun){ const baseDir=getInstructionsDir(); for(const id of toRemove){ byId.delete(id); } for(const id of updated){ if(!byId.has(id)) continue; const e=byId.get(id)!; try { fs.writeFileSync(path.join(baseDir, `${id}.json`), JSON.stringify(e,null,2)); filesRewritten++; } catch(err){ notes.push(`write-failed:${id}:${(err as Error).message}`); } } for(const id of toRemove){ try { fs.unlinkSync(path.join(baseDir, `${id}.json`)); } catch(err){ notes.push(`delete-failed:${id}:${(err as Error).message}`); } } if(updated.size || toRemove.length){ touchCatalogVersion(); invalidate(); ensureLoaded(); } } else { if(updated.size) notes.push(`would-rewrite:${updated.size}`); if(toRemove.length) notes.push(`would-remove:${toRemove.length}`); }
+  deprecatedRemoved = toRemove.length; if(!dryRun){ for(const id of toRemove){ byId.delete(id); } storage.transaction(()=>{ for(const id of updated){ if(!byId.has(id)) continue; const e=byId.get(id)!; try { storage.writeText(`${id}.json`, JSON.stringify(e,null,2)); filesRewritten++; } catch(err){ notes.push(`write-failed:${id}:${(err as Error).message}`); } } for(const id of toRemove){ try { if(!storage.remove(id)) throw new Error('not found'); } catch(err){ notes.push(`delete-failed:${id}:${(err as Error).message}`); } } }); if(updated.size || toRemove.length){ touchCatalogVersion(); invalidate(); ensureLoaded(); } } else { if(updated.size) notes.push(`would-rewrite:${updated.size}`); if(toRemove.length) notes.push(`would-remove:${toRemove.length}`); }
   const stAfter = ensureLoaded(); const resp = { previousHash, hash: stAfter.hash, scanned, repairedHashes, normalizedCategories, deprecatedRemoved, duplicatesMerged, filesRewritten, purgedScopes, dryRun, notes }; if(!dryRun && (repairedHashes||normalizedCategories||deprecatedRemoved||duplicatesMerged||filesRewritten||purgedScopes)) { logAudit('groom', undefined, { repairedHashes, normalizedCategories, deprecatedRemoved, duplicatesMerged, filesRewritten, purgedScopes }); attemptManifestUpdate(); } return resp;
 }));
 
@@ -4,9 +4,31 @@ import path from 'path';
 import { registerHandler } from '../server/registry';
 import { ensureLoaded } from './catalogContext';
 import { featureStatus } from './features';
+import { findReferenceIssues } from './instructionComposition';
+import { scanEntryText, ScanFinding } from './ingestScan';
+import { SensitiveClass } from './sensitiveContent';
+import { verifyAuditChain } from './auditLog';
 
-registerHandler('integrity/verify', ()=>{ const st=ensureLoaded(); const issues:{ id:string; expected:string; actual:string }[]=[]; for(const e of st.list){ const actual=crypto.createHash('sha256').update(e.body,'utf8').digest('hex'); if(actual!==e.sourceHash) issues.push({ id:e.id, expected:e.sourceHash, actual }); } return { hash: st.hash, count: st.list.length, issues, issueCount: issues.length }; });
+registerHandler('integrity/verify', ()=>{ const st=ensureLoaded(); const issues:{ id:string; expected:string; actual:string }[]=[]; for(const e of st.list){ const actual=crypto.createHash('sha256').update(e.body,'utf8').digest('hex'); if(actual!==e.sourceHash) issues.push({ id:e.id, expected:e.sourceHash, actual }); } const referenceIssues=findReferenceIssues(st.list); return { hash: st.hash, count: st.list.length, issues, issueCount: issues.length, referenceIssues, referenceIssueCount: referenceIssues.length, ...(st.signature ? { signature: st.signature } : {}) }; });
 registerHandler('integrity/manifest', ()=>{ const manifestPath=path.join(process.cwd(),'snapshots','catalog-manifest.json'); if(!fs.existsSync(manifestPath)) return { manifest:'missing' }; let manifest: { entries?: { id:string; sourceHash?:string; bodyHash?:string }[] }; try { manifest=JSON.parse(fs.readFileSync(manifestPath,'utf8')); } catch(e){ return { manifest:'invalid', error: e instanceof Error? e.message: String(e) }; } const entries = Array.isArray(manifest.entries)? manifest.entries: []; const map=new Map(entries.map(e=>[e.id,e] as const)); const st=ensureLoaded(); const drift:{ id:string; change:string }[]=[]; for(const e of st.list){ const entry=map.get(e.id); const bodyHash=crypto.createHash('sha256').update(e.body,'utf8').digest('hex'); if(!entry) drift.push({ id:e.id, change:'added' }); else if(entry.sourceHash!==e.sourceHash || entry.bodyHash!==bodyHash) drift.push({ id:e.id, change:'hash-mismatch' }); } for(const id of map.keys()){ if(!st.byId.has(id)) drift.push({ id, change:'removed' }); } return { manifest:'present', drift: drift.length, details: drift }; });
+// Secret / PII sweep over the stored catalog (same detectors as the ingest scan; previews are masked)
+registerHandler('integrity/scan', (p:{ ids?: string[]; classes?: SensitiveClass[] }={})=>{
+  const st=ensureLoaded();
+  const wanted = Array.isArray(p.ids) && p.ids.length ? new Set(p.ids) : undefined;
+  const classes = Array.isArray(p.classes) && p.classes.length ? p.classes : undefined;
+  const entries: { id:string; findings: Omit<ScanFinding,'start'|'end'>[] }[]=[]; const byKind: Record<string, number>={}; let scanned=0;
+  for(const e of st.list){
+    if(wanted && !wanted.has(e.id)) continue;
+    scanned++;
+    const findings=scanEntryText(e, classes);
+    if(!findings.length) continue;
+    for(const f of findings) byKind[f.kind]=(byKind[f.kind]||0)+1;
+    entries.push({ id:e.id, findings: findings.map(({ field, kind, class: cls, preview })=> ({ field, kind, class: cls, preview })) });
+  }
+  return { hash: st.hash, scanned, flagged: entries.length, findingCount: entries.reduce((n,x)=> n+x.findings.length, 0), byKind, entries };
+});
+// Audit log tamper evidence: walk the hash chain of the (tenant's) audit log
+registerHandler('audit/verify', ()=> verifyAuditChain());
 // Phase 0: feature flags status
 registerHandler('feature/status', ()=> featureStatus());
 
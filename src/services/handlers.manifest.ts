@@ -1,20 +1,24 @@
 import { registerHandler } from '../server/registry';
 import { computeManifestDrift, loadManifest, repairManifest, writeManifestFromCatalog } from './manifestManager';
-import { ensureLoaded } from './catalogContext';
+import { ensureLoaded, invalidate } from './catalogContext';
+import { acceptEntries } from './catalogSigning';
 
 // manifest/status: returns current drift (without repairing) and manifest presence.
 registerHandler('manifest/status', ()=>{
   const st = ensureLoaded();
   const manifest = loadManifest();
   const drift = computeManifestDrift();
-  return { hash: st.hash, manifestPresent: !!manifest, count: st.list.length, drift: drift.drift, details: drift.details.slice(0,25) };
+  return { hash: st.hash, manifestPresent: !!manifest, count: st.list.length, drift: drift.drift, details: drift.details.slice(0,25), ...(st.signature ? { signature: { ...st.signature, issues: st.signature.issues.slice(0,25) } } : {}) };
 });
 
-// manifest/refresh: force rewrite from current catalog (non-mutating to catalog itself)
-registerHandler('manifest/refresh', ()=>{
-  const st = ensureLoaded();
+// manifest/refresh: force rewrite from current catalog (non-mutating to catalog itself).
+// acceptUnverified re-signs entries a signed catalog currently reports or refuses (unsigned / altered).
+registerHandler('manifest/refresh', (p: { acceptUnverified?: boolean } = {})=>{
+  let st = ensureLoaded();
+  const accepted = p.acceptUnverified && st.signature ? st.signature.issues.map(i=> i.id) : [];
+  if(accepted.length){ acceptEntries(accepted); invalidate(); st = ensureLoaded(); }
   const manifest = writeManifestFromCatalog();
-  return { refreshed: !!manifest, count: manifest?.count ?? 0, hash: st.hash };
+  return { refreshed: !!manifest, count: manifest?.count ?? 0, hash: st.hash, signed: !!manifest?.signature, ...(p.acceptUnverified ? { accepted } : {}) };
 });
 
 // manifest/repair: recompute manifest if drift present.
@@ -1,7 +1,23 @@
 import { registerHandler } from '../server/registry';
 import { PromptReviewService, summarizeIssues } from './promptReviewService';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { readableCatalog } from './accessControl';
 
-const promptService = new PromptReviewService();
-registerHandler('prompt/review', (p:{prompt:string})=>{ const raw=p.prompt||''; const MAX=10_000; if(raw.length>MAX) return { truncated:true, message:'prompt too large', max:MAX }; const sanitized=raw.replace(/\0/g,''); const issues=promptService.review(sanitized); const summary=summarizeIssues(issues); return { issues, summary, length: sanitized.length }; });
+// Service is rebuilt when MCP_PROMPT_CRITERIA_DIR changes (per-category criteria location)
+let cached: { dir: string | undefined; service: PromptReviewService } | null = null;
+function promptService(): PromptReviewService {
+  const dir = getRuntimeConfig().promptReview.criteriaDir;
+  if(!cached || cached.dir !== dir) cached = { dir, service: new PromptReviewService(undefined, dir) };
+  return cached.service;
+}
+
+registerHandler('prompt/review', (p:{prompt:string; category?:string; checkCatalog?:boolean})=>{
+  const raw=p.prompt||''; const MAX=10_000; if(raw.length>MAX) return { truncated:true, message:'prompt too large', max:MAX };
+  const sanitized=raw.replace(/\0/g,'');
+  const catalog = p.checkCatalog === false ? undefined : readableCatalog().list;
+  const report=promptService().analyze(sanitized, { category: p.category, catalog, tokenBudget: getRuntimeConfig().promptReview.tokenBudget });
+  const summary=summarizeIssues(report.issues);
+  return { issues: report.issues, summary, length: sanitized.length, score: report.score, suggestions: report.suggestions, rewrittenPrompt: report.rewrittenPrompt, rules: report.rules, category: report.category, criteriaFiles: report.criteriaFiles };
+});
 
 export {};
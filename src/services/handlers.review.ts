@@ -0,0 +1,31 @@
+import { registerHandler } from '../server/registry';
+import { ensureLoaded } from './catalogContext';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { buildReviewQueue, recordReviewCompletion } from './reviewSchedule';
+import { assertRevision, computeRevisionToken } from './revisionToken';
+import { guard } from './handlers.instructions';
+
+interface ReviewQueueParams { owner?: string; horizonDays?: number; includeDeprecated?: boolean }
+interface ReviewCompleteParams { id: string; reviewer?: string; notes?: string; ifMatch?: string }
+
+registerHandler('review/queue', (p:ReviewQueueParams)=>{
+  const params = p || {};
+  if(params.horizonDays !== undefined && (typeof params.horizonDays !== 'number' || params.horizonDays < 1 || params.horizonDays > 365)) return { error:'horizonDays must be a number between 1 and 365' };
+  const horizonDays = Math.floor(params.horizonDays ?? getRuntimeConfig().review.horizonDays);
+  return buildReviewQueue(ensureLoaded().list, { horizonDays, owner: params.owner, includeDeprecated: params.includeDeprecated === true });
+});
+
+registerHandler('review/complete', guard('review/complete', (p:ReviewCompleteParams)=>{
+  const id = p?.id;
+  if(!id) return { error:'missing id' };
+  const existing = ensureLoaded().byId.get(id);
+  if(!existing && p.ifMatch === undefined) return { id, notFound:true };
+  assertRevision(id, p.ifMatch);
+  if(!existing) return { id, notFound:true };
+  const result = recordReviewCompletion(id, { reviewer: p.reviewer, notes: p.notes });
+  if(!('record' in result)) return { id, ...result };
+  const { record } = result; const updated = ensureLoaded().byId.get(id);
+  return { id, lastReviewedAt: record.lastReviewedAt, nextReviewDue: record.nextReviewDue, reviewIntervalDays: record.reviewIntervalDays, changeLogEntry: record.changeLog?.[record.changeLog.length - 1], etag: updated ? computeRevisionToken(updated) : undefined };
+}));
+
+export {};
@@ -11,6 +11,10 @@
  * - Returns lightweight ID list for efficient follow-up queries
  * - Case-insensitive by default with case-sensitive option
  * - Relevance scoring based on match frequency and location
+ * - Optional semantic / hybrid modes backed by a local embedding provider (see semanticIndex.ts)
+ * - Optional fulltext mode: BM25 over an incrementally maintained inverted index with stemming,
+ *   "phrases", -exclusions, title:/category:/owner: qualifiers and highlighted snippets (see searchIndex.ts)
+ * - Optional boostByHotScore: re-ranks the top 100 candidates by recent usage (see usageHotness.ts)
  * 
  * MCP Compliance:
  * - Full JSON Schema validation
@@ -23,18 +27,37 @@ import { registerHandler } from '../server/registry';
 import { logInfo, logWarn } from './logger';
 import { InstructionEntry } from '../models/instruction';
 import { ensureLoaded } from './catalogContext';
+import { semanticSimilarities } from './semanticIndex';
+import { searchFullText, buildSnippet, SearchSnippet } from './searchIndex';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { computeHotScores } from './usageHotness';
+import { isHeldDraft } from './statusWorkflow';
+import { canRead } from './accessControl';
+
+type SearchMode = 'keyword' | 'semantic' | 'hybrid' | 'fulltext';
+const SEARCH_MODES: SearchMode[] = ['keyword','semantic','hybrid','fulltext'];
 
 interface SearchParams {
   keywords: string[];
   limit?: number;
   includeCategories?: boolean;
   caseSensitive?: boolean;
+  mode?: SearchMode;
+  boostByHotScore?: boolean;
+  includeDrafts?: boolean;
 }
 
 interface SearchResult {
   instructionId: string;
   relevanceScore: number;
-  matchedFields: ('title' | 'body' | 'categories')[];
+  matchedFields: ('title' | 'body' | 'categories' | 'semantic')[];
+  // Populated for semantic / hybrid modes so callers can see how the score was composed
+  keywordScore?: number;
+  semanticScore?: number;
+  // fulltext mode: best-matching window of the body (or title) with highlight ranges
+  snippet?: SearchSnippet;
+  // boostByHotScore: the candidate's hot score (0 when it has no recent usage events)
+  hotScore?: number;
 }
 
 interface SearchResponse {
@@ -45,6 +68,8 @@ interface SearchResponse {
     limit: number;
     includeCategories: boolean;
     caseSensitive: boolean;
+    mode?: SearchMode;
+    boostByHotScore?: boolean;
   };
   executionTimeMs: number;
 }
@@ -128,26 +153,7 @@ function escapeRegex(string: string): string {
   return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-/**
- * Load and search instructions from the catalog
- */
-function performSearch(params: SearchParams): SearchResponse {
-  const startTime = performance.now();
-  
-  // Load instruction catalog state
-  const state = ensureLoaded();
-  
-  if (!state || !state.list) {
-    throw new Error('Instruction catalog not available');
-  }
-  
-  // Ensure defaults are explicitly applied
-  const keywords = params.keywords;
-  const limit = params.limit ?? 50;
-  const includeCategories = params.includeCategories ?? false;
-  const caseSensitive = params.caseSensitive ?? false;
-  
-  // Validate and sanitize keywords
+function sanitizeKeywords(keywords: string[]): string[] {
   const sanitizedKeywords = keywords
     .filter(k => typeof k === 'string' && k.trim().length > 0)
     .map(k => k.trim())
@@ -156,6 +162,19 @@ function performSearch(params: SearchParams): SearchResponse {
   if (sanitizedKeywords.length === 0) {
     throw new Error('At least one valid keyword is required');
   }
+  return sanitizedKeywords;
+}
+
+/**
+ * Score every catalog entry by keyword relevance (unsorted, unlimited)
+ */
+function collectKeywordMatches(sanitizedKeywords: string[], caseSensitive: boolean, includeCategories: boolean): SearchResult[] {
+  // Load instruction catalog state
+  const state = ensureLoaded();
+  
+  if (!state || !state.list) {
+    throw new Error('Instruction catalog not available');
+  }
   
   const results: SearchResult[] = [];
   
@@ -176,6 +195,22 @@ function performSearch(params: SearchParams): SearchResponse {
       });
     }
   }
+  return results;
+}
+
+/**
+ * Load and search instructions from the catalog
+ */
+function performSearch(params: SearchParams): SearchResponse {
+  const startTime = performance.now();
+  
+  // Ensure defaults are explicitly applied
+  const limit = params.limit ?? 50;
+  const includeCategories = params.includeCategories ?? false;
+  const caseSensitive = params.caseSensitive ?? false;
+  const sanitizedKeywords = sanitizeKeywords(params.keywords);
+  
+  const results = collectKeywordMatches(sanitizedKeywords, caseSensitive, includeCategories);
   
   // Sort by relevance score (descending) and apply limit
   results.sort((a, b) => b.relevanceScore - a.relevanceScore);
@@ -198,6 +233,117 @@ function performSearch(params: SearchParams): SearchResponse {
   };
 }
 
+/**
+ * Semantic / hybrid search: cosine similarity from the embedding index, optionally blended with
+ * max-normalized keyword scores (weight search.semantic.hybridWeight on the semantic side).
+ * relevanceScore is reported on a 0-100 scale in both modes.
+ */
+async function performSemanticSearch(params: SearchParams, mode: 'semantic' | 'hybrid'): Promise<SearchResponse> {
+  const startTime = performance.now();
+  const limit = params.limit ?? 50;
+  const includeCategories = params.includeCategories ?? false;
+  const caseSensitive = params.caseSensitive ?? false;
+  const sanitizedKeywords = sanitizeKeywords(params.keywords);
+  const { hybridWeight, minSimilarity } = getRuntimeConfig().search.semantic;
+  
+  const similarities = await semanticSimilarities(sanitizedKeywords.join(' '));
+  const keywordMatches = mode === 'hybrid' ? collectKeywordMatches(sanitizedKeywords, caseSensitive, includeCategories) : [];
+  const keywordById = new Map(keywordMatches.map(r => [r.instructionId, r]));
+  const maxKeyword = keywordMatches.reduce((m, r) => Math.max(m, r.relevanceScore), 0);
+  
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const results: SearchResult[] = [];
+  const ids = new Set<string>([...similarities.keys(), ...keywordById.keys()]);
+  for (const id of ids) {
+    const rawSim = similarities.get(id) ?? 0;
+    const sim = rawSim >= minSimilarity ? rawSim : 0;
+    const kw = keywordById.get(id);
+    if (mode === 'semantic') {
+      if (sim <= 0) continue;
+      results.push({ instructionId: id, relevanceScore: round(sim * 100), matchedFields: ['semantic'], semanticScore: round(sim) });
+      continue;
+    }
+    const kwNorm = kw && maxKeyword > 0 ? kw.relevanceScore / maxKeyword : 0;
+    if (sim <= 0 && kwNorm <= 0) continue;
+    const combined = hybridWeight * sim + (1 - hybridWeight) * kwNorm;
+    const matchedFields: SearchResult['matchedFields'] = kw ? [...kw.matchedFields] : [];
+    if (sim > 0) matchedFields.push('semantic');
+    results.push({ instructionId: id, relevanceScore: round(combined * 100), matchedFields, keywordScore: kw ? kw.relevanceScore : 0, semanticScore: round(sim) });
+  }
+  
+  results.sort((a, b) => b.relevanceScore - a.relevanceScore || a.instructionId.localeCompare(b.instructionId));
+  const limitedResults = results.slice(0, Math.min(limit, 100));
+  const executionTime = performance.now() - startTime;
+  logInfo(`Search completed (${mode}): ${sanitizedKeywords.length} keywords, ${limitedResults.length}/${results.length} results, ${executionTime}ms`);
+  return {
+    results: limitedResults,
+    totalMatches: results.length,
+    query: { keywords: sanitizedKeywords, limit: Math.min(limit, 100), includeCategories, caseSensitive, mode },
+    executionTimeMs: executionTime
+  };
+}
+
+/**
+ * Full-text search: keywords are joined into one query string (so elements may carry query syntax such as
+ * '"exact phrase"', '-exclude' or 'title:term') and ranked with BM25. caseSensitive does not apply.
+ */
+function performFullTextSearch(params: SearchParams): SearchResponse {
+  const startTime = performance.now();
+  const limit = Math.min(params.limit ?? 50, 100);
+  const includeCategories = params.includeCategories ?? false;
+  const sanitizedKeywords = sanitizeKeywords(params.keywords);
+  const state = ensureLoaded();
+  if (!state || !state.list) {
+    throw new Error('Instruction catalog not available');
+  }
+  const hits = searchFullText(state.list, sanitizedKeywords.join(' '), { fields: includeCategories ? ['title','body','categories'] : ['title','body'] });
+  const results: SearchResult[] = hits.slice(0, limit).map(hit => {
+    const entry = state.byId.get(hit.id);
+    return {
+      instructionId: hit.id,
+      relevanceScore: Math.round(hit.score * 100) / 100,
+      matchedFields: hit.matchedFields,
+      snippet: entry ? buildSnippet(entry, hit.terms) : undefined
+    };
+  });
+  const executionTime = performance.now() - startTime;
+  logInfo(`Search completed (fulltext): ${sanitizedKeywords.length} keywords, ${results.length}/${hits.length} results, ${executionTime}ms`);
+  return {
+    results,
+    totalMatches: hits.length,
+    query: { keywords: sanitizedKeywords, limit, includeCategories, caseSensitive: params.caseSensitive ?? false, mode: 'fulltext' },
+    executionTimeMs: executionTime
+  };
+}
+
+/**
+ * Re-rank search results by recent usage: relevance x (1 + weight x hotScore / max hotScore among the
+ * candidates). Entries without recent usage keep their relevance, so the boost only reorders, never filters.
+ */
+async function applyHotScoreBoost(response: SearchResponse, limit: number): Promise<SearchResponse> {
+  const scores = await computeHotScores();
+  const weight = getRuntimeConfig().search.hotBoostWeight;
+  const hotOf = (id: string) => scores.get(id)?.score ?? 0;
+  const maxHot = Math.max(0, ...response.results.map(r => hotOf(r.instructionId)));
+  const boosted = response.results.map(r => {
+    const hot = hotOf(r.instructionId);
+    const relevanceScore = maxHot > 0 ? Math.round(r.relevanceScore * (1 + weight * hot / maxHot) * 10000) / 10000 : r.relevanceScore;
+    return { ...r, relevanceScore, hotScore: Math.round(hot * 10000) / 10000 };
+  }).sort((a, b) => b.relevanceScore - a.relevanceScore);
+  return { ...response, results: boosted.slice(0, limit), query: { ...response.query, limit, boostByHotScore: true } };
+}
+
+/**
+ * Drop entries above the caller's clearance (accessControl.ts) and, unless includeDrafts, agent-created entries
+ * still awaiting approval (statusWorkflow.ts) from a candidate pool, then apply the limit.
+ */
+function withoutHiddenEntries(response: SearchResponse, limit: number, hideDrafts: boolean): SearchResponse {
+  const state = ensureLoaded();
+  const visible = response.results.filter(r => { const e = state.byId.get(r.instructionId); return !e || (canRead(e) && !(hideDrafts && isHeldDraft(e))); });
+  const hidden = response.results.length - visible.length;
+  return { ...response, results: visible.slice(0, limit), totalMatches: Math.max(0, response.totalMatches - hidden), query: { ...response.query, limit } };
+}
+
 /**
  * MCP Handler for instructions/search
  */
@@ -248,15 +394,40 @@ export async function handleInstructionsSearch(params: SearchParams): Promise<Se
       throw new Error('caseSensitive must be a boolean');
     }
     
+    if (params.mode !== undefined && !SEARCH_MODES.includes(params.mode)) {
+      throw new Error(`mode must be one of: ${SEARCH_MODES.join(', ')}`);
+    }
+    
+    if (params.boostByHotScore !== undefined && typeof params.boostByHotScore !== 'boolean') {
+      throw new Error('boostByHotScore must be a boolean');
+    }
+    
+    if (params.includeDrafts !== undefined && typeof params.includeDrafts !== 'boolean') {
+      throw new Error('includeDrafts must be a boolean');
+    }
+    const hideDrafts = !params.includeDrafts && ensureLoaded().list.some(isHeldDraft);
+    // search results leave out unreadable entries in both access modes: a redacted stub would still reveal the match
+    const hideRestricted = ensureLoaded().list.some(e => !canRead(e));
+    
     // Ensure case-insensitive search by default
     const searchParams: SearchParams = {
       keywords: params.keywords,
-      limit: params.limit,
+      // hot score boost and held-draft / clearance filtering work on the full candidate pool before the requested limit is applied
+      limit: params.boostByHotScore || hideDrafts || hideRestricted ? 100 : params.limit,
       includeCategories: params.includeCategories,
       caseSensitive: params.caseSensitive ?? false // Explicit default to false for case-insensitive search
     };
     
-    return performSearch(searchParams);
+    let response: SearchResponse;
+    if (params.mode === 'semantic' || params.mode === 'hybrid') {
+      response = await performSemanticSearch(searchParams, params.mode);
+    } else if (params.mode === 'fulltext') {
+      response = performFullTextSearch(searchParams);
+    } else {
+      response = performSearch(searchParams);
+    }
+    if (hideDrafts || hideRestricted) response = withoutHiddenEntries(response, params.boostByHotScore ? 100 : params.limit ?? 50, hideDrafts);
+    return params.boostByHotScore ? await applyHotScoreBoost(response, params.limit ?? 50) : response;
     
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown search error';
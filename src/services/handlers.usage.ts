@@ -1,7 +1,48 @@
 import { registerHandler } from '../server/registry';
 import { ensureLoaded, incrementUsage } from './catalogContext';
+import { getCatalogUsageBuckets, UsageOutcome, USAGE_OUTCOMES } from './usageBuckets';
+import { computeHotScores } from './usageHotness';
+import { buildUsageReport, UsageReportFilter } from './usageReport';
+import { logError } from './logger';
 
-registerHandler('usage/track', (p:{id:string})=>{ if(!p.id) return { error:'missing id' }; const r=incrementUsage(p.id); if(!r) return { notFound:true }; return r; });
-registerHandler('usage/hotset', (p:{limit?:number})=>{ const st=ensureLoaded(); const limit=Math.max(1, Math.min(p.limit??10, 100)); const items=[...st.list].filter(e=> (e.usageCount??0)>0).sort((a,b)=>{ const ua=a.usageCount??0, ub=b.usageCount??0; if(ub!==ua) return ub-ua; return (b.lastUsedAt||'').localeCompare(a.lastUsedAt||''); }).slice(0,limit).map(e=>({ id:e.id, usageCount:e.usageCount, lastUsedAt:e.lastUsedAt })); return { hash: st.hash, count: items.length, items, limit }; });
+interface UsageTrackParams { id:string; clientName?:string; sessionId?:string; workspaceId?:string; taskTag?:string; outcome?:UsageOutcome }
+type HotsetStrategy = 'count' | 'hot';
+interface UsageReportParams extends UsageReportFilter { since?:string; limit?:number }
+
+registerHandler('usage/track', async (p:UsageTrackParams)=>{
+  if(!p.id) return { error:'missing id' };
+  if(p.outcome !== undefined && !(USAGE_OUTCOMES as readonly string[]).includes(p.outcome)) return { error:`invalid outcome (expected ${USAGE_OUTCOMES.join(' | ')})` };
+  const r=incrementUsage(p.id); if(!r) return { notFound:true };
+  if('featureDisabled' in r) return r;
+  // Context + outcome flow into the bucketed event log behind usage/report; a failed write never fails the increment.
+  try {
+    await getCatalogUsageBuckets().recordUsage({ operation:'track', instructionId:p.id, success:true, clientInfo:p.clientName, sessionId:p.sessionId, workspaceId:p.workspaceId, taskTag:p.taskTag, outcome:p.outcome });
+  } catch(e){ logError(`usage/track: failed to record usage event for ${p.id}: ${e}`); }
+  return r;
+});
+registerHandler('usage/hotset', async (p:{limit?:number; strategy?:HotsetStrategy})=>{
+  const params = p || {};
+  const strategy = params.strategy ?? 'count';
+  if(strategy !== 'count' && strategy !== 'hot') return { error:"invalid strategy (expected 'count' | 'hot')" };
+  const st=ensureLoaded(); const limit=Math.max(1, Math.min(params.limit??10, 100));
+  if(strategy === 'count'){
+    const items=[...st.list].filter(e=> (e.usageCount??0)>0).sort((a,b)=>{ const ua=a.usageCount??0, ub=b.usageCount??0; if(ub!==ua) return ub-ua; return (b.lastUsedAt||'').localeCompare(a.lastUsedAt||''); }).slice(0,limit).map(e=>({ id:e.id, usageCount:e.usageCount, lastUsedAt:e.lastUsedAt }));
+    return { hash: st.hash, count: items.length, items, limit, strategy };
+  }
+  // 'hot': rank by HotScoreService over the bucketed track events (recency-weighted), lifetime usageCount breaks ties
+  const scores = await computeHotScores();
+  const items=st.list.filter(e=> scores.has(e.id)).map(e=>{ const r=scores.get(e.id)!; return { id:e.id, usageCount:e.usageCount??0, lastUsedAt:e.lastUsedAt, hotScore:Math.round(r.score*10000)/10000, breakdown:r.breakdown, metadata:r.metadata }; })
+    .sort((a,b)=> b.hotScore-a.hotScore || b.usageCount-a.usageCount || a.id.localeCompare(b.id)).slice(0,limit);
+  return { hash: st.hash, count: items.length, items, limit, strategy };
+});
+registerHandler('usage/report', async (p:UsageReportParams)=>{
+  const params = p || {} as UsageReportParams;
+  if(params.since !== undefined && Number.isNaN(Date.parse(params.since))) return { error:'invalid since (expected ISO 8601 timestamp)' };
+  const svc = getCatalogUsageBuckets();
+  await svc.ensureInitialized();
+  const entries = svc.getEntriesInRange(params.since ?? new Date(0).toISOString(), new Date().toISOString());
+  const limit = Math.max(1, Math.min(params.limit ?? 50, 500));
+  return buildUsageReport(entries, { id: params.id, clientName: params.clientName, workspaceId: params.workspaceId, taskTag: params.taskTag }, limit);
+});
 
 export {};
@@ -0,0 +1,81 @@
+import { InstructionEntry, ScanFindingRecord } from '../models/instruction';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { findSensitive, maskSensitive, redactionFor, SensitiveClass, SensitiveMatch } from './sensitiveContent';
+import { logAudit } from './auditLog';
+import { incrementCounter } from './features';
+
+/**
+ * Secret / PII scanning of instruction text on ingest (instructions/add, instructions/import, dashboard writes)
+ * and across the stored catalog (integrity/scan).
+ *
+ * MCP_INGEST_SCAN decides what a write does with findings: `warn` (default) stores the entry with the findings
+ * recorded on it (`scanFindings`) and returned to the caller, `redact` first replaces each match with
+ * `[REDACTED:<kind>]`, `block` rejects the write. Writes with findings are audit logged with field and kind
+ * only; matched values are never stored or logged.
+ */
+
+export const SCANNED_FIELDS = ['title', 'body', 'rationale', 'semanticSummary'] as const;
+export type ScannedField = typeof SCANNED_FIELDS[number];
+export interface ScanFinding { field: ScannedField; kind: string; class: SensitiveClass; start: number; end: number; preview: string }
+export interface IngestScanOutcome<T> { record: T; findings: ScanFinding[]; blocked: boolean; redacted: boolean }
+
+type Scannable = Partial<Pick<InstructionEntry, ScannedField | 'id' | 'scanFindings'>>;
+
+function matches(text: string, classes?: SensitiveClass[]): SensitiveMatch[] {
+  const cfg = getRuntimeConfig().instructions.ingestScan;
+  return findSensitive(text, classes ?? cfg.classes, { internalDomains: cfg.internalDomains, minEntropy: cfg.minEntropy });
+}
+
+/** Findings per field; a value repeated in a later field (e.g. a semanticSummary derived from the body) is reported once. */
+export function scanEntryText(entry: Scannable, classes?: SensitiveClass[]): ScanFinding[] {
+  const out: ScanFinding[] = []; const seen = new Set<string>();
+  for(const field of SCANNED_FIELDS){
+    const text = entry[field];
+    if(typeof text !== 'string' || !text) continue;
+    for(const m of matches(text, classes)){
+      const key = `${m.kind}\u0000${m.value}`;
+      if(seen.has(key)) continue;
+      seen.add(key);
+      out.push({ field, kind: m.kind, class: m.class, start: m.start, end: m.end, preview: maskSensitive(m.value) });
+    }
+  }
+  return out;
+}
+
+/**
+ * Scan a record about to be written and apply the configured mode. The returned record carries this write's
+ * findings in `scanFindings` (stale findings from an earlier write are dropped). Callers recompute sourceHash
+ * when `redacted` is set.
+ */
+export function applyIngestScan<T extends Scannable>(record: T, source: string): IngestScanOutcome<T> {
+  const mode = getRuntimeConfig().instructions.ingestScan.mode;
+  if(mode === 'off') return { record, findings: [], blocked: false, redacted: false };
+  const findings = scanEntryText(record);
+  if(!findings.length){
+    if(record.scanFindings === undefined) return { record, findings, blocked: false, redacted: false };
+    const clean = { ...record }; delete clean.scanFindings;
+    return { record: clean, findings, blocked: false, redacted: false };
+  }
+  incrementCounter('ingestScan:findings', findings.length);
+  const audit = { source, mode, findings: findings.map(f => `${f.field}:${f.kind}`) };
+  if(mode === 'block'){
+    incrementCounter('ingestScan:blocked');
+    logAudit('ingestScan', record.id, { ...audit, action: 'blocked' });
+    return { record, findings, blocked: true, redacted: false };
+  }
+  const out: T = { ...record };
+  if(mode === 'redact'){
+    for(const field of SCANNED_FIELDS){
+      let text = out[field];
+      if(typeof text !== 'string') continue;
+      // every occurrence, including repeats left out of the findings; right to left so earlier offsets stay valid
+      for(const m of matches(text).reverse()) text = text.slice(0, m.start) + redactionFor(m) + text.slice(m.end);
+      (out as Scannable)[field] = text;
+    }
+  }
+  const detectedAt = new Date().toISOString();
+  const action: ScanFindingRecord['action'] = mode === 'redact' ? 'redacted' : 'flagged';
+  out.scanFindings = findings.map(f => ({ field: f.field, kind: f.kind, class: f.class, action, detectedAt }));
+  logAudit('ingestScan', record.id, { ...audit, action });
+  return { record: out, findings, blocked: false, redacted: mode === 'redact' };
+}
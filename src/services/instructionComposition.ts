@@ -0,0 +1,113 @@
+import { InstructionEntry } from '../models/instruction';
+
+/**
+ * Instruction composition: `extends` (single parent) and `includes` (ordered list) references.
+ *
+ * A composed body is the parent's composed body, then the entry's own body, then each included
+ * entry's composed body, separated by blank lines. Every contributed section other than the root's own
+ * body is wrapped in HTML comment provenance markers (`<!-- begin extends:id@version -->` ... `<!-- end
+ * extends:id -->`) so agents and reviewers can trace which entry a line came from. An entry reachable
+ * along several paths (diamond includes) is emitted once, at its first position. Missing targets are
+ * skipped and reported; cycles and nesting beyond the depth limit fail the whole resolution.
+ */
+
+export type CompositionRelation = 'extends' | 'includes';
+export interface CompositionReference { relation: CompositionRelation; target: string }
+export interface CompositionProvenance { id: string; relation: 'self' | CompositionRelation; via?: string; depth: number; version?: string; sourceHash: string }
+export interface ResolvedComposition {
+  id: string;
+  body: string;
+  depth: number;                    // deepest nesting level reached (0 = no references)
+  provenance: CompositionProvenance[];
+  unresolved: { from: string; relation: CompositionRelation; target: string }[];
+  duplicates: string[];             // ids reached more than once and emitted only at their first position
+}
+export type CompositionFailure =
+  | { id: string; error: 'composition_cycle'; cycle: string[] }
+  | { id: string; error: 'composition_depth_exceeded'; maxDepth: number; path: string[] };
+export interface ReferenceIssue { id: string; relation: CompositionRelation; target: string; problem: 'dangling' | 'self' | 'cycle'; cycle?: string[] }
+
+type Composable = Pick<InstructionEntry, 'id' | 'body' | 'sourceHash' | 'version' | 'extends' | 'includes'>;
+
+export function referencesOf(e: Pick<InstructionEntry, 'extends' | 'includes'>): CompositionReference[] {
+  const refs: CompositionReference[] = [];
+  if(typeof e.extends === 'string' && e.extends) refs.push({ relation: 'extends', target: e.extends });
+  if(Array.isArray(e.includes)){
+    for(const t of e.includes){ if(typeof t === 'string' && t) refs.push({ relation: 'includes', target: t }); }
+  }
+  return refs;
+}
+
+class CompositionAbort { constructor(readonly failure: CompositionFailure){} }
+
+export function resolveComposition(rootId: string, byId: Map<string, Composable>, opts: { maxDepth: number; markers?: boolean }): ResolvedComposition | CompositionFailure {
+  const markers = opts.markers !== false;
+  const res: ResolvedComposition = { id: rootId, body: '', depth: 0, provenance: [], unresolved: [], duplicates: [] };
+  const stack: string[] = [];
+  const seen = new Set<string>();
+
+  const compose = (e: Composable, relation: 'self' | CompositionRelation, via: string | undefined, depth: number): string => {
+    if(depth > opts.maxDepth) throw new CompositionAbort({ id: rootId, error: 'composition_depth_exceeded', maxDepth: opts.maxDepth, path: [...stack, e.id] });
+    seen.add(e.id);
+    res.depth = Math.max(res.depth, depth);
+    res.provenance.push({ id: e.id, relation, via, depth, version: e.version, sourceHash: e.sourceHash });
+    stack.push(e.id);
+    const section = (ref: CompositionReference): string => {
+      if(stack.includes(ref.target)) throw new CompositionAbort({ id: rootId, error: 'composition_cycle', cycle: [...stack.slice(stack.indexOf(ref.target)), ref.target] });
+      const target = byId.get(ref.target);
+      if(!target){ res.unresolved.push({ from: e.id, relation: ref.relation, target: ref.target }); return ''; }
+      if(seen.has(target.id)){ if(!res.duplicates.includes(target.id)) res.duplicates.push(target.id); return ''; }
+      const text = compose(target, ref.relation, e.id, depth + 1);
+      if(!text || !markers) return text;
+      return `<!-- begin ${ref.relation}:${target.id}@${target.version || '1.0.0'} -->\n${text}\n<!-- end ${ref.relation}:${target.id} -->`;
+    };
+    const refs = referencesOf(e);
+    const parts = [
+      ...refs.filter(r => r.relation === 'extends').map(section),
+      e.body.trim(),
+      ...refs.filter(r => r.relation === 'includes').map(section)
+    ].filter(Boolean);
+    stack.pop();
+    return parts.join('\n\n');
+  };
+
+  const root = byId.get(rootId);
+  if(!root) return res;
+  try { res.body = compose(root, 'self', undefined, 0); }
+  catch(err){ if(err instanceof CompositionAbort) return err.failure; throw err; }
+  return res;
+}
+
+export function isCompositionFailure(r: ResolvedComposition | CompositionFailure): r is CompositionFailure {
+  return 'error' in r;
+}
+
+/** Dangling targets, self references and reference cycles across the catalog (each cycle reported once). */
+export function findReferenceIssues(list: Composable[]): ReferenceIssue[] {
+  const byId = new Map(list.map(e => [e.id, e] as const));
+  const issues: ReferenceIssue[] = [];
+  for(const e of list){
+    for(const ref of referencesOf(e)){
+      if(ref.target === e.id) issues.push({ id: e.id, ...ref, problem: 'self' });
+      else if(!byId.has(ref.target)) issues.push({ id: e.id, ...ref, problem: 'dangling' });
+    }
+  }
+  // Three-colour DFS over resolvable, non-self edges; a back edge closes a cycle.
+  const state = new Map<string, 1 | 2>(); // 1 = on stack, 2 = done
+  const reported = new Set<string>();
+  const visit = (id: string, path: string[]) => {
+    state.set(id, 1); path.push(id);
+    for(const ref of referencesOf(byId.get(id)!)){
+      if(ref.target === id || !byId.has(ref.target)) continue;
+      const s = state.get(ref.target);
+      if(s === 1){
+        const cycle = [...path.slice(path.indexOf(ref.target)), ref.target];
+        const key = [...cycle.slice(0, -1)].sort().join('\u0000');
+        if(!reported.has(key)){ reported.add(key); issues.push({ id, ...ref, problem: 'cycle', cycle }); }
+      } else if(s === undefined) visit(ref.target, path);
+    }
+    path.pop(); state.set(id, 2);
+  };
+  for(const e of [...list].sort((a, b) => a.id.localeCompare(b.id))){ if(!state.has(e.id)) visit(e.id, []); }
+  return issues;
+}
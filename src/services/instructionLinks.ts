@@ -0,0 +1,126 @@
+import { InstructionEntry, LinkType } from '../models/instruction';
+import { referencesOf, CompositionRelation } from './instructionComposition';
+
+/**
+ * Typed relationships between instructions and the traversals behind graph/neighbors.
+ *
+ * Explicit links live in `entry.links` (`relatedTo`, `conflictsWith`, `requires`, `supersedes`). The legacy
+ * scalar fields are folded in: `supersedes: "<id>"` is a `supersedes` link, and `deprecatedBy: "<id>"` is a
+ * `supersedes` link from the replacement to the deprecated entry. Composition references (`extends`,
+ * `includes`) are relationship edges as well. Only links whose target exists become edges; `relatedTo` and
+ * `conflictsWith` are symmetric and are traversed in both directions whatever the requested direction.
+ */
+
+export const LINK_TYPES: readonly LinkType[] = ['relatedTo', 'conflictsWith', 'requires', 'supersedes'];
+export type RelationType = LinkType | CompositionRelation;
+export const RELATION_TYPES: readonly RelationType[] = [...LINK_TYPES, 'extends', 'includes'];
+const SYMMETRIC = new Set<RelationType>(['relatedTo', 'conflictsWith']);
+
+export interface RelationEdge { from: string; to: string; type: RelationType }
+export type TraversalDirection = 'out' | 'in' | 'both';
+export interface TraversalOptions { types?: readonly RelationType[]; direction?: TraversalDirection }
+export interface NeighborNode { id: string; distance: number; via?: { from: string; type: RelationType; reversed: boolean } }
+export interface NeighborhoodResult { nodes: NeighborNode[]; edges: RelationEdge[]; truncated: boolean }
+export interface PathResult { found: boolean; ids: string[]; edges: RelationEdge[] }
+
+type Linkable = Pick<InstructionEntry, 'id' | 'links' | 'supersedes' | 'deprecatedBy' | 'extends' | 'includes'>;
+
+/** Declared outgoing links of one entry (explicit links first, then the legacy supersedes field). */
+export function linksOf(e: Linkable): { type: LinkType; target: string }[] {
+  const out: { type: LinkType; target: string }[] = [];
+  for(const type of LINK_TYPES){
+    const targets = e.links?.[type];
+    if(Array.isArray(targets)) for(const t of targets){ if(typeof t === 'string' && t) out.push({ type, target: t }); }
+  }
+  if(typeof e.supersedes === 'string' && e.supersedes) out.push({ type: 'supersedes', target: e.supersedes });
+  return out;
+}
+
+/** All resolvable relationship edges in the catalog, deduplicated, in stable (from, type, to) order. */
+export function relationshipEdges(list: Linkable[]): RelationEdge[] {
+  const ids = new Set(list.map(e => e.id));
+  const seen = new Set<string>();
+  const edges: RelationEdge[] = [];
+  const push = (from: string, to: string, type: RelationType) => {
+    if(from === to || !ids.has(from) || !ids.has(to)) return;
+    const key = `${from}\u0000${type}\u0000${to}`;
+    if(seen.has(key)) return;
+    seen.add(key);
+    edges.push({ from, to, type });
+  };
+  for(const e of list){
+    for(const l of linksOf(e)) push(e.id, l.target, l.type);
+    if(typeof e.deprecatedBy === 'string' && e.deprecatedBy) push(e.deprecatedBy, e.id, 'supersedes');
+    for(const r of referencesOf(e)) push(e.id, r.target, r.relation);
+  }
+  return edges.sort((a, b) => a.from.localeCompare(b.from) || RELATION_TYPES.indexOf(a.type) - RELATION_TYPES.indexOf(b.type) || a.to.localeCompare(b.to));
+}
+
+interface Step { to: string; edge: RelationEdge; reversed: boolean }
+
+function adjacency(edges: RelationEdge[], opts: TraversalOptions): Map<string, Step[]> {
+  const allowed = new Set(opts.types && opts.types.length ? opts.types : RELATION_TYPES);
+  const direction = opts.direction || 'both';
+  const adj = new Map<string, Step[]>();
+  const add = (from: string, step: Step) => { const arr = adj.get(from); if(arr) arr.push(step); else adj.set(from, [step]); };
+  for(const edge of edges){
+    if(!allowed.has(edge.type)) continue;
+    const symmetric = SYMMETRIC.has(edge.type);
+    if(direction !== 'in' || symmetric) add(edge.from, { to: edge.to, edge, reversed: false });
+    if(direction !== 'out' || symmetric) add(edge.to, { to: edge.from, edge, reversed: true });
+  }
+  return adj;
+}
+
+/** Breadth-first k-hop neighborhood; returns visited nodes (root first) and the edges among them. */
+export function neighborhood(rootId: string, edges: RelationEdge[], opts: TraversalOptions & { depth: number; limit: number }): NeighborhoodResult {
+  const adj = adjacency(edges, opts);
+  const nodes: NeighborNode[] = [{ id: rootId, distance: 0 }];
+  const visited = new Set([rootId]);
+  let frontier = [rootId];
+  let truncated = false;
+  for(let d = 1; d <= opts.depth && frontier.length && !truncated; d++){
+    const next: string[] = [];
+    for(const id of frontier){
+      for(const step of adj.get(id) || []){
+        if(visited.has(step.to)) continue;
+        if(nodes.length >= opts.limit){ truncated = true; break; }
+        visited.add(step.to);
+        nodes.push({ id: step.to, distance: d, via: { from: id, type: step.edge.type, reversed: step.reversed } });
+        next.push(step.to);
+      }
+      if(truncated) break;
+    }
+    frontier = next;
+  }
+  const seen = new Set<RelationEdge>();
+  for(const steps of adj.values()) for(const s of steps){ if(visited.has(s.edge.from) && visited.has(s.edge.to)) seen.add(s.edge); }
+  return { nodes, edges: edges.filter(e => seen.has(e)), truncated };
+}
+
+/** Unweighted shortest path (fewest hops, at most maxDepth) from one entry to another. */
+export function shortestPath(fromId: string, toId: string, edges: RelationEdge[], opts: TraversalOptions & { maxDepth: number }): PathResult {
+  if(fromId === toId) return { found: true, ids: [fromId], edges: [] };
+  const adj = adjacency(edges, opts);
+  const prev = new Map<string, { id: string; edge: RelationEdge }>();
+  const visited = new Set([fromId]);
+  let frontier = [fromId];
+  for(let d = 1; d <= opts.maxDepth && frontier.length; d++){
+    const next: string[] = [];
+    for(const id of frontier){
+      for(const step of adj.get(id) || []){
+        if(visited.has(step.to)) continue;
+        visited.add(step.to);
+        prev.set(step.to, { id, edge: step.edge });
+        if(step.to === toId){
+          const ids = [toId]; const pathEdges: RelationEdge[] = [];
+          for(let cur = toId; cur !== fromId;){ const p = prev.get(cur)!; pathEdges.unshift(p.edge); ids.unshift(p.id); cur = p.id; }
+          return { found: true, ids, edges: pathEdges };
+        }
+        next.push(step.to);
+      }
+    }
+    frontier = next;
+  }
+  return { found: false, ids: [], edges: [] };
+}
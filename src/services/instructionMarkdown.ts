@@ -0,0 +1,245 @@
+import { InstructionEntry } from '../models/instruction';
+
+/**
+ * Instruction entries as Markdown with YAML frontmatter (catalog bundles, repo-authored `.md` files).
+ *
+ * Writing: the portable fields go into the frontmatter in a fixed order, the body follows unchanged. Strings
+ * that are not safe YAML plain scalars, and nested values (links, changeLog, promptArguments), are written as
+ * JSON, which is also valid YAML flow syntax, so any YAML parser reads the output.
+ *
+ * Reading: a YAML subset that covers hand-written frontmatter: `key: value` mappings nested by indentation,
+ * block sequences (`- item`, including `- key: value` items), flow sequences / mappings, single / double
+ * quoted scalars, `|` / `>` block scalars, booleans, numbers, null and `#` comments. Files without frontmatter
+ * (or without an id / title) fall back to the file name and the first `# heading`.
+ */
+
+/** Frontmatter fields in output order: everything instructions/import consumes except the body. */
+export const PORTABLE_FIELDS = [
+  'id','title','priority','audience','requirement','categories','primaryCategory','rationale','owner','status','priorityTier',
+  'classification','version','lastReviewedAt','nextReviewDue','semanticSummary','deprecatedBy','riskScore','extends','includes',
+  'links','promptArguments','changeLog'
+] as const;
+
+export interface MarkdownEntry {
+  fields: Record<string, unknown>;   // frontmatter values (portable fields only) plus id / title fallbacks
+  body: string;
+  errors: string[];
+}
+
+const FRONTMATTER = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+const PLAIN_SAFE = /^[A-Za-z_][A-Za-z0-9 _./@+-]*$/;
+const RESERVED = /^(true|false|yes|no|on|off|null|~)$/i;
+const NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+export function entryToMarkdown(entry: Partial<InstructionEntry>): string {
+  const lines: string[] = [];
+  for(const field of PORTABLE_FIELDS){
+    const value = (entry as Record<string, unknown>)[field];
+    if(value === undefined || value === null || value === '') continue;
+    if(Array.isArray(value) && !value.length) continue;
+    lines.push(`${field}: ${yamlValue(value)}`);
+  }
+  const body = (entry.body ?? '').replace(/\r\n/g, '\n').replace(/\s+$/, '');
+  return `---\n${lines.join('\n')}\n---\n\n${body}\n`;
+}
+
+export function parseInstructionMarkdown(text: string, fallbackId?: string): MarkdownEntry {
+  const errors: string[] = [];
+  let fields: Record<string, unknown> = {};
+  let body = text.replace(/^\uFEFF/, '');
+  const m = FRONTMATTER.exec(body);
+  if(m){
+    try {
+      const parsed = parseYaml(m[1]);
+      if(parsed && typeof parsed === 'object' && !Array.isArray(parsed)) fields = parsed as Record<string, unknown>;
+      else if(parsed !== null) errors.push('frontmatter is not a mapping');
+    } catch(e){ errors.push(`frontmatter: ${(e as Error).message}`); }
+    body = body.slice(m[0].length);
+  }
+  body = body.replace(/\r\n/g, '\n').replace(/^\s*\n/, '').replace(/\s+$/, '');
+  const portable: Record<string, unknown> = {};
+  for(const field of PORTABLE_FIELDS) if(fields[field] !== undefined && fields[field] !== null) portable[field] = fields[field];
+  if(typeof portable.id === 'number') portable.id = String(portable.id);
+  if(portable.id === undefined && fallbackId) portable.id = fallbackId;
+  if(portable.title === undefined){
+    const heading = /^#\s+(.+?)\s*#*\s*$/m.exec(body);
+    portable.title = heading ? heading[1] : portable.id;
+  }
+  if(typeof portable.categories === 'string') portable.categories = portable.categories.split(',').map(c => c.trim()).filter(Boolean);
+  if(typeof portable.includes === 'string') portable.includes = [portable.includes];
+  for(const field of ['title','version','owner','rationale','semanticSummary','lastReviewedAt','nextReviewDue'] as const){
+    if(portable[field] !== undefined && typeof portable[field] !== 'string') portable[field] = String(portable[field]);
+  }
+  return { fields: portable, body, errors };
+}
+
+// ---- writing ----
+
+function yamlScalar(value: unknown): string {
+  if(typeof value === 'string') return PLAIN_SAFE.test(value) && !RESERVED.test(value) && !/\s$/.test(value) ? value : JSON.stringify(value);
+  return JSON.stringify(value) ?? 'null';
+}
+
+function yamlValue(value: unknown): string {
+  if(Array.isArray(value) && value.every(v => v === null || typeof v !== 'object')) return `[${value.map(yamlScalar).join(', ')}]`;
+  if(value && typeof value === 'object') return JSON.stringify(value);
+  return yamlScalar(value);
+}
+
+// ---- reading (YAML subset) ----
+
+interface Line { indent: number; text: string; no: number }
+
+function parseYaml(source: string): unknown {
+  const lines: Line[] = source.split(/\r?\n/).map((raw, i) => ({ indent: raw.length - raw.trimStart().length, text: raw.trim(), no: i + 1 }));
+  const state = { lines, pos: 0 };
+  skipBlank(state);
+  if(state.pos >= lines.length) return null;
+  const value = parseBlock(state, lines[state.pos].indent);
+  skipBlank(state);
+  if(state.pos < lines.length) throw new Error(`line ${lines[state.pos].no}: unexpected indentation`);
+  return value;
+}
+
+function skipBlank(state: { lines: Line[]; pos: number }): void {
+  while(state.pos < state.lines.length && (!state.lines[state.pos].text || state.lines[state.pos].text.startsWith('#'))) state.pos++;
+}
+
+function parseBlock(state: { lines: Line[]; pos: number }, indent: number): unknown {
+  const first = state.lines[state.pos];
+  return first.text === '-' || first.text.startsWith('- ') ? parseSequence(state, indent) : parseMapping(state, indent);
+}
+
+function parseSequence(state: { lines: Line[]; pos: number }, indent: number): unknown[] {
+  const items: unknown[] = [];
+  for(skipBlank(state); state.pos < state.lines.length; skipBlank(state)){
+    const line = state.lines[state.pos];
+    if(line.indent !== indent || !(line.text === '-' || line.text.startsWith('- '))) break;
+    const rest = line.text.slice(1).trimStart();
+    if(!rest){
+      state.pos++;
+      skipBlank(state);
+      const next = state.lines[state.pos];
+      items.push(next && next.indent > indent ? parseBlock(state, next.indent) : null);
+    } else if(/^[A-Za-z_][\w-]*\s*:(\s|$)/.test(rest) && !/^["'[{]/.test(rest)){
+      // "- key: value" starts a mapping whose keys sit two columns right of the dash
+      const itemIndent = indent + (line.text.length - rest.length);
+      state.lines[state.pos] = { ...line, indent: itemIndent, text: rest };
+      items.push(parseMapping(state, itemIndent));
+    } else {
+      state.pos++;
+      items.push(parseInline(rest, line.no));
+    }
+  }
+  return items;
+}
+
+function parseMapping(state: { lines: Line[]; pos: number }, indent: number): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for(skipBlank(state); state.pos < state.lines.length; skipBlank(state)){
+    const line = state.lines[state.pos];
+    if(line.indent < indent) break;
+    if(line.indent > indent) throw new Error(`line ${line.no}: unexpected indentation`);
+    const m = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s:#][^:#]*?)\s*:(?:\s+(.*))?$/.exec(line.text);
+    if(!m) throw new Error(`line ${line.no}: expected "key: value"`);
+    const key = parseInline(m[1], line.no);
+    const rest = (m[2] ?? '').trim();
+    state.pos++;
+    let value: unknown;
+    if(/^[|>][-+]?$/.test(rest)){
+      value = parseBlockScalar(state, indent, rest[0] === '>');
+    } else if(!rest || rest.startsWith('#')){
+      skipBlank(state);
+      const next = state.lines[state.pos];
+      const nested = next && (next.indent > indent || (next.indent === indent && (next.text === '-' || next.text.startsWith('- '))));
+      value = nested ? parseBlock(state, next.indent) : null;
+    } else {
+      value = parseInline(rest, line.no);
+    }
+    out[String(key)] = value;
+  }
+  return out;
+}
+
+function parseBlockScalar(state: { lines: Line[]; pos: number }, parentIndent: number, folded: boolean): string {
+  const collected: Line[] = [];
+  while(state.pos < state.lines.length){
+    const line = state.lines[state.pos];
+    if(line.text && line.indent <= parentIndent) break;
+    collected.push(line);
+    state.pos++;
+  }
+  const indent = Math.min(...collected.filter(l => l.text).map(l => l.indent));
+  const texts = collected.map(l => l.text ? ' '.repeat(l.indent - indent) + l.text : '');
+  while(texts.length && !texts[texts.length - 1]) texts.pop();
+  if(!folded) return texts.join('\n');
+  return texts.reduce((acc, t, i) => i === 0 ? t : acc + (t === '' ? '\n' : acc.endsWith('\n') ? t : ` ${t}`), '');
+}
+
+function parseInline(text: string, lineNo: number): unknown {
+  const flow = { text, pos: 0, lineNo };
+  const value = parseFlowValue(flow, false);
+  skipSpace(flow);
+  if(flow.pos < text.length && text[flow.pos] !== '#') throw new Error(`line ${lineNo}: unexpected "${text.slice(flow.pos)}"`);
+  return value;
+}
+
+interface FlowState { text: string; pos: number; lineNo: number }
+
+function skipSpace(s: FlowState): void {
+  while(s.pos < s.text.length && /\s/.test(s.text[s.pos])) s.pos++;
+}
+
+function parseFlowValue(s: FlowState, inFlow: boolean): unknown {
+  skipSpace(s);
+  const ch = s.text[s.pos];
+  if(ch === '[' || ch === '{'){
+    const close = ch === '[' ? ']' : '}';
+    const seq: unknown[] = []; const map: Record<string, unknown> = {};
+    s.pos++;
+    for(;;){
+      skipSpace(s);
+      if(s.text[s.pos] === close){ s.pos++; break; }
+      if(s.pos >= s.text.length) throw new Error(`line ${s.lineNo}: unterminated ${ch}`);
+      if(ch === '['){
+        seq.push(parseFlowValue(s, true));
+      } else {
+        const key = parseFlowValue(s, true);
+        skipSpace(s);
+        if(s.text[s.pos] !== ':') throw new Error(`line ${s.lineNo}: expected ":" in flow mapping`);
+        s.pos++;
+        map[String(key)] = parseFlowValue(s, true);
+      }
+      skipSpace(s);
+      if(s.text[s.pos] === ',') s.pos++;
+      else if(s.text[s.pos] !== close) throw new Error(`line ${s.lineNo}: expected "," or "${close}"`);
+    }
+    return ch === '[' ? seq : map;
+  }
+  if(ch === '"'){
+    const m = /^"(?:[^"\\]|\\.)*"/.exec(s.text.slice(s.pos));
+    if(!m) throw new Error(`line ${s.lineNo}: unterminated string`);
+    s.pos += m[0].length;
+    try { return JSON.parse(m[0]); } catch { throw new Error(`line ${s.lineNo}: invalid escape in ${m[0]}`); }
+  }
+  if(ch === "'"){
+    const m = /^'((?:[^']|'')*)'/.exec(s.text.slice(s.pos));
+    if(!m) throw new Error(`line ${s.lineNo}: unterminated string`);
+    s.pos += m[0].length;
+    return m[1].replace(/''/g, "'");
+  }
+  // Plain scalar: runs to a comment, or (inside flow collections) to the next , : ] }
+  const start = s.pos;
+  while(s.pos < s.text.length){
+    const c = s.text[s.pos];
+    if(c === '#' && s.pos > start && /\s/.test(s.text[s.pos - 1])) break;
+    if(inFlow && (c === ',' || c === ']' || c === '}' || (c === ':' && /[\s,\]}]|$/.test(s.text[s.pos + 1] ?? '')))) break;
+    s.pos++;
+  }
+  const raw = s.text.slice(start, s.pos).trim();
+  if(raw === '' || raw === '~' || /^null$/i.test(raw)) return null;
+  if(/^(true|yes|on)$/i.test(raw)) return true;
+  if(/^(false|no|off)$/i.test(raw)) return false;
+  if(NUMBER.test(raw)) return Number(raw);
+  return raw;
+}
@@ -0,0 +1,118 @@
+/**
+ * MCP prompts projection of the instruction catalog.
+ *
+ * An entry is served as a prompt (slash-command in most clients) when it carries the designated prompt
+ * category (server.prompts.category, default `prompts`) or declares `promptArguments`. `{{placeholder}}`
+ * tokens in the body are filled from caller arguments; undeclared placeholders are advertised as
+ * optional arguments. The rendered text is linted with PromptReviewService and the findings returned
+ * alongside the messages (`_meta.review`) so callers can decide whether to use it.
+ */
+import { ensureLoaded } from './catalogContext';
+import { canRead, recordDeniedReads } from './accessControl';
+import { isHeldDraft } from './statusWorkflow';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { InstructionEntry, PromptArgumentSpec } from '../models/instruction';
+import { PromptReviewService, PromptIssue, summarizeIssues } from './promptReviewService';
+
+const INVALID_PARAMS = -32602;
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_-]*)\s*\}\}/g;
+
+export interface McpPromptArgument { name: string; description?: string; required?: boolean }
+export interface McpPrompt { name: string; description?: string; arguments: McpPromptArgument[] }
+export interface RenderedPrompt {
+  description?: string;
+  messages: { role: 'user'; content: { type: 'text'; text: string } }[];
+  _meta: { id: string; version?: string; sourceHash: string; missingPlaceholders: string[]; review: { issues: PromptIssue[]; summary: ReturnType<typeof summarizeIssues> } };
+}
+
+let reviewService: PromptReviewService | null = null;
+function getReviewService(){ if(!reviewService) reviewService = new PromptReviewService(); return reviewService; }
+
+export function isPromptEntry(e: InstructionEntry): boolean {
+  if(e.status === 'deprecated' || e.requirement === 'deprecated') return false;
+  if(Array.isArray(e.promptArguments)) return true;
+  return (e.categories || []).includes(getRuntimeConfig().server.prompts.category);
+}
+
+export function extractPlaceholders(body: string): string[] {
+  const out = new Set<string>();
+  for(const m of body.matchAll(PLACEHOLDER)) out.add(m[1]);
+  return Array.from(out);
+}
+
+/** Declared arguments first (in declared order) followed by any undeclared body placeholders as optional. */
+export function resolvePromptArguments(e: InstructionEntry): PromptArgumentSpec[] {
+  const declared = Array.isArray(e.promptArguments) ? e.promptArguments.filter(a => a && typeof a.name === 'string' && a.name.trim()) : [];
+  const seen = new Set(declared.map(a => a.name));
+  const inferred = extractPlaceholders(e.body).filter(n => !seen.has(n)).map(name => ({ name, required: false }));
+  return [...declared, ...inferred];
+}
+
+function toPrompt(e: InstructionEntry): McpPrompt {
+  const description = (e.semanticSummary && e.semanticSummary.trim()) || e.title || undefined;
+  return {
+    name: e.id,
+    description,
+    arguments: resolvePromptArguments(e).map(a => ({ name: a.name, description: a.description, required: !!a.required && a.default === undefined }))
+  };
+}
+
+export function listInstructionPrompts(): { prompts: McpPrompt[] } {
+  const st = ensureLoaded();
+  // a redacted template is of no use, so prompts above the caller's clearance are left out in both access modes;
+  // agent drafts awaiting approval are not served until approved
+  const prompts = st.list.filter(e => isPromptEntry(e) && canRead(e) && !isHeldDraft(e)).sort((a,b)=> a.id.localeCompare(b.id)).map(toPrompt);
+  return { prompts };
+}
+
+/** Stable signature of the prompt surface; a change means prompts/list_changed should be emitted. */
+export function promptListSignature(): string {
+  return listInstructionPrompts().prompts.map(p => `${p.name}:${p.arguments.map(a => `${a.name}${a.required?'!':''}`).join(',')}`).join('|');
+}
+
+export function renderPromptBody(body: string, values: Record<string, string>): { text: string; missing: string[] } {
+  const missing = new Set<string>();
+  const text = body.replace(PLACEHOLDER, (_m, name: string) => {
+    if(Object.prototype.hasOwnProperty.call(values, name)) return values[name];
+    missing.add(name);
+    return '';
+  });
+  return { text, missing: Array.from(missing) };
+}
+
+export function getInstructionPrompt(name: unknown, args?: Record<string, unknown>): RenderedPrompt {
+  if(typeof name !== 'string' || !name.trim()){
+    throw { code: INVALID_PARAMS, message: 'Missing prompt name', data: { reason: 'missing_name' } };
+  }
+  const entry = ensureLoaded().byId.get(name);
+  if(!entry || !isPromptEntry(entry) || isHeldDraft(entry) || recordDeniedReads('prompts/get', [name]).length){
+    throw { code: INVALID_PARAMS, message: `Unknown prompt: ${name}`, data: { name, reason: 'unknown_prompt' } };
+  }
+  const maxLen = getRuntimeConfig().server.prompts.maxArgumentLength;
+  const values: Record<string, string> = {};
+  const missingRequired: string[] = [];
+  for(const spec of resolvePromptArguments(entry)){
+    const raw = args ? args[spec.name] : undefined;
+    if(raw !== undefined && raw !== null && String(raw).length){
+      const v = String(raw).replace(/\0/g,'');
+      if(v.length > maxLen){
+        throw { code: INVALID_PARAMS, message: `Argument too long: ${spec.name}`, data: { name, argument: spec.name, max: maxLen, reason: 'argument_too_long' } };
+      }
+      values[spec.name] = v;
+    } else if(spec.default !== undefined){
+      values[spec.name] = spec.default;
+    } else if(spec.required){
+      missingRequired.push(spec.name);
+    }
+  }
+  if(missingRequired.length){
+    throw { code: INVALID_PARAMS, message: `Missing required prompt arguments: ${missingRequired.join(', ')}`, data: { name, missing: missingRequired, reason: 'missing_arguments' } };
+  }
+  const { text, missing } = renderPromptBody(entry.body, values);
+  const issues = getReviewService().review(text);
+  return {
+    description: (entry.semanticSummary && entry.semanticSummary.trim()) || entry.title || undefined,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+    _meta: { id: entry.id, version: entry.version, sourceHash: entry.sourceHash, missingPlaceholders: missing, review: { issues, summary: summarizeIssues(issues) } }
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * MCP resources projection of the instruction catalog.
+ *
+ * Every readable InstructionEntry (agent drafts awaiting approval excluded) is published as `instruction://<id>` so clients can
+ * attach instructions as context natively (resources/list + resources/read) instead of spending a
+ * tools/call. Subscription bookkeeping (resources/subscribe) is kept per server instance by
+ * ResourceSubscriptionTracker; change detection compares a cheap per-entry revision
+ * (sourceHash + updatedAt) captured before and after a catalog version change.
+ */
+import { readableCatalog, recordDeniedReads } from './accessControl';
+import { isHeldDraft } from './statusWorkflow';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { InstructionEntry } from '../models/instruction';
+
+export const INSTRUCTION_URI_SCHEME = 'instruction://';
+export const INSTRUCTION_RESOURCE_MIME = 'text/markdown';
+
+// JSON-RPC error codes used by the MCP resources surface (-32002 = resource not found per spec)
+export const RESOURCE_NOT_FOUND = -32002;
+const INVALID_PARAMS = -32602;
+
+export interface InstructionResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface InstructionResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export interface ListResourcesParams { cursor?: string; limit?: number }
+
+export function instructionUri(id: string): string {
+  return INSTRUCTION_URI_SCHEME + encodeURIComponent(id);
+}
+
+/** Returns the instruction id for an `instruction://` URI or null when the URI is not ours. */
+export function parseInstructionUri(uri: unknown): string | null {
+  if(typeof uri !== 'string' || !uri.startsWith(INSTRUCTION_URI_SCHEME)) return null;
+  const raw = uri.slice(INSTRUCTION_URI_SCHEME.length).replace(/\/+$/,'');
+  if(!raw) return null;
+  try { return decodeURIComponent(raw); } catch { return null; }
+}
+
+function toResource(e: InstructionEntry): InstructionResource {
+  const description = (e.semanticSummary && e.semanticSummary.trim()) || e.title || undefined;
+  return { uri: instructionUri(e.id), name: e.title || e.id, description, mimeType: INSTRUCTION_RESOURCE_MIME };
+}
+
+// Cursor is the base64url encoded id of the last entry on the previous page. Keyed on id (not offset)
+// so pages stay stable when entries are added/removed between calls.
+function encodeCursor(id: string){ return Buffer.from(id,'utf8').toString('base64url'); }
+function decodeCursor(cursor: string): string {
+  const id = Buffer.from(cursor,'base64url').toString('utf8');
+  if(!id || encodeCursor(id) !== cursor){
+    throw { code: INVALID_PARAMS, message: 'Invalid cursor', data: { cursor } };
+  }
+  return id;
+}
+
+export function listInstructionResources(params: ListResourcesParams = {}): { resources: InstructionResource[]; nextCursor?: string } {
+  const cfg = getRuntimeConfig().server.resources;
+  const limit = Math.max(1, Math.min(typeof params.limit === 'number' && params.limit > 0 ? Math.floor(params.limit) : cfg.pageSize, cfg.pageSize));
+  const after = typeof params.cursor === 'string' && params.cursor.length ? decodeCursor(params.cursor) : undefined;
+  const st = readableCatalog();
+  const ids = st.list.filter(e => !isHeldDraft(e)).map(e => e.id).sort();
+  const start = after === undefined ? 0 : ids.findIndex(id => id > after);
+  if(start === -1) return { resources: [] };
+  const page = ids.slice(start, start + limit);
+  const resources = page.map(id => toResource(st.byId.get(id)!));
+  const nextCursor = start + limit < ids.length ? encodeCursor(page[page.length-1]) : undefined;
+  return nextCursor ? { resources, nextCursor } : { resources };
+}
+
+export function readInstructionResource(uri: unknown): { contents: InstructionResourceContents[] } {
+  const id = parseInstructionUri(uri);
+  if(!id){
+    throw { code: INVALID_PARAMS, message: `Unsupported resource URI: ${String(uri)}`, data: { uri, expected: `${INSTRUCTION_URI_SCHEME}<id>` } };
+  }
+  recordDeniedReads('resources/read', [id]);
+  const entry = readableCatalog().byId.get(id);
+  if(!entry || isHeldDraft(entry)){
+    throw { code: RESOURCE_NOT_FOUND, message: `Resource not found: ${String(uri)}`, data: { uri, id } };
+  }
+  return { contents: [{ uri: instructionUri(entry.id), mimeType: INSTRUCTION_RESOURCE_MIME, text: entry.body }] };
+}
+
+/** id -> revision marker (sourceHash + updatedAt) for change detection. */
+export type ResourceRevisions = Map<string, string>;
+
+export function snapshotResourceRevisions(): ResourceRevisions {
+  const out: ResourceRevisions = new Map();
+  for(const e of readableCatalog().list){ if(!isHeldDraft(e)) out.set(e.id, `${e.sourceHash}|${e.updatedAt}`); }
+  return out;
+}
+
+export function diffResourceRevisions(prev: ResourceRevisions, next: ResourceRevisions): { updated: string[]; listChanged: boolean } {
+  const updated: string[] = [];
+  let listChanged = prev.size !== next.size;
+  for(const [id, rev] of next){
+    const before = prev.get(id);
+    if(before === undefined){ listChanged = true; updated.push(id); }
+    else if(before !== rev){ updated.push(id); }
+  }
+  for(const id of prev.keys()){ if(!next.has(id)){ listChanged = true; updated.push(id); } }
+  return { updated, listChanged };
+}
+
+export interface ResourceChangeSink {
+  resourceUpdated(uri: string): void;
+  listChanged(): void;
+}
+
+/**
+ * Per-server subscription state. Call onCatalogChanged() after a catalog version change (debounced by
+ * the caller); it re-snapshots revisions and pushes updated/list_changed notifications to the sink.
+ * The baseline snapshot is captured lazily so idle servers never force a catalog load.
+ */
+export class ResourceSubscriptionTracker {
+  private subscriptions = new Set<string>();
+  private revisions: ResourceRevisions | null = null;
+  constructor(private sink: ResourceChangeSink){}
+
+  subscribe(uri: unknown){
+    const id = parseInstructionUri(uri);
+    if(!id){
+      throw { code: INVALID_PARAMS, message: `Unsupported resource URI: ${String(uri)}`, data: { uri, expected: `${INSTRUCTION_URI_SCHEME}<id>` } };
+    }
+    this.ensureBaseline();
+    this.subscriptions.add(instructionUri(id));
+  }
+
+  unsubscribe(uri: unknown){
+    const id = parseInstructionUri(uri);
+    if(id) this.subscriptions.delete(instructionUri(id));
+  }
+
+  subscribed(): string[] { return Array.from(this.subscriptions).sort(); }
+
+  /** Called whenever resources/list is served so list_changed reflects what the client has seen. */
+  ensureBaseline(){ if(!this.revisions){ this.revisions = snapshotResourceRevisions(); } }
+
+  onCatalogChanged(){
+    if(!this.revisions) return; // client never listed/subscribed: nothing to compare against
+    const next = snapshotResourceRevisions();
+    const { updated, listChanged } = diffResourceRevisions(this.revisions, next);
+    this.revisions = next;
+    for(const id of updated){
+      const uri = instructionUri(id);
+      if(this.subscriptions.has(uri)){
+        try { this.sink.resourceUpdated(uri); } catch { /* ignore */ }
+      }
+    }
+    if(listChanged){ try { this.sink.listChanged(); } catch { /* ignore */ } }
+  }
+}
@@ -13,7 +13,7 @@ interface DispatchBase { action: string }
 interface BatchOperation extends DispatchBase { [k: string]: unknown }
 
 const mutationMethods = new Set([
-  'instructions/add','instructions/import','instructions/remove','instructions/reload','instructions/groom','instructions/repair','instructions/enrich','instructions/governanceUpdate','usage/flush'
+  'instructions/add','instructions/import','instructions/remove','instructions/reload','instructions/groom','instructions/repair','instructions/enrich','instructions/governanceUpdate','instructions/approve','instructions/revert','instructions/importBundle','usage/flush'
 ]);
 function isMutationEnabled(){ return process.env.MCP_ENABLE_MUTATION === '1'; }
 
@@ -42,7 +42,7 @@ registerHandler('instructions/dispatch', async (params: DispatchParams) => {
   // Capability listing
   if(action === 'capabilities'){
   try { if(process.env.MCP_LOG_VERBOSE==='1') process.stderr.write('[dispatcher] capabilities invoked\n'); } catch { /* ignore */ }
-  return { version: process.env.npm_package_version || '0.0.0', supportedActions: Object.keys(instructionActions).concat(['add','import','remove','reload','groom','repair','enrich','governanceHash','governanceUpdate','health','inspect','dir','capabilities','batch']), mutationEnabled: isMutationEnabled() };
+  return { version: process.env.npm_package_version || '0.0.0', supportedActions: Object.keys(instructionActions).concat(['add','import','remove','reload','groom','repair','enrich','governanceHash','governanceUpdate','approve','revert','importBundle','health','inspect','dir','capabilities','batch']), mutationEnabled: isMutationEnabled() };
   }
 
   // Batch execution
@@ -75,7 +75,7 @@ registerHandler('instructions/dispatch', async (params: DispatchParams) => {
     if(action === 'get'){
       const id = (params as { id?: unknown }).id;
       if(typeof id === 'string' && id.trim()){
-        const base = fn({ id });
+        const base = fn({ ...(params as object), id });
         if((base as { notFound?: boolean }).notFound){
           try {
             const enhanced = (instructionActions as unknown as { getEnhanced?: (p:{id:string})=>unknown }).getEnhanced?.({ id });
@@ -97,7 +97,7 @@ registerHandler('instructions/dispatch', async (params: DispatchParams) => {
 
   // Map selected action tokens to existing registered methods for mutation / governance
   const methodMap: Record<string,string> = {
-    add: 'instructions/add', import: 'instructions/import', remove: 'instructions/remove', reload: 'instructions/reload', groom: 'instructions/groom', repair: 'instructions/repair', enrich: 'instructions/enrich', governanceHash: 'instructions/governanceHash', governanceUpdate: 'instructions/governanceUpdate', health: 'instructions/health', inspect: 'instructions/inspect', dir: 'instructions/dir'
+    add: 'instructions/add', import: 'instructions/import', remove: 'instructions/remove', reload: 'instructions/reload', groom: 'instructions/groom', repair: 'instructions/repair', enrich: 'instructions/enrich', governanceHash: 'instructions/governanceHash', governanceUpdate: 'instructions/governanceUpdate', approve: 'instructions/approve', revert: 'instructions/revert', importBundle: 'instructions/importBundle', health: 'instructions/health', inspect: 'instructions/inspect', dir: 'instructions/dir'
   };
   const target = methodMap[action];
   if(!target) {
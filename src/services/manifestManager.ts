@@ -5,6 +5,7 @@ import { ensureLoaded } from './catalogContext';
 import { traceEnabled, emitTrace } from './tracing';
 import { incrementCounter } from './features';
 import { logInfo, logWarn } from './logger';
+import { catalogManifestPath, clearLocalCatalogWrites, entryRecordHash, ManifestSignature, manifestSigningPayload, signingEnabled, signPayload } from './catalogSigning';
 
 /**
  * Runtime manifest management.
@@ -13,7 +14,7 @@ import { logInfo, logWarn } from './logger';
  *   version: 1,
  *   generatedAt: ISO string,
  *   count: number,
- *   entries: [ { id, sourceHash, bodyHash } ]
+ *   entries: [ { id, sourceHash, bodyHash, recordHash } ]
  * }
  *
  * Design notes:
@@ -29,14 +30,16 @@ import { logInfo, logWarn } from './logger';
  * - attemptManifestUpdate() is now a thin alias of scheduleManifestUpdate() which performs
  *   immediate write (naming preserved for backward compatibility with existing call sites).
  */
-export interface ManifestEntry { id: string; sourceHash?: string; bodyHash?: string }
+// recordHash: hash of the whole normalized record (catalogSigning.entryRecordHash), checked by signature verification
+export interface ManifestEntry { id: string; sourceHash?: string; bodyHash?: string; recordHash?: string }
 // Include optional $schema so editors / tooling can auto-associate the JSON Schema when opening
 // the generated manifest. The relative path chosen resolves from snapshots/catalog-manifest.json
 // to schemas/manifest.schema.json (one directory up then into schemas/).
-export interface CatalogManifest { $schema?: string; version: 1; generatedAt: string; count: number; entries: ManifestEntry[] }
+// signature: Ed25519 over version, count and entries when MCP_MANIFEST_SIGNING is on (catalogSigning.ts)
+export interface CatalogManifest { $schema?: string; version: 1; generatedAt: string; count: number; entries: ManifestEntry[]; signature?: ManifestSignature }
 
-const MANIFEST_RELATIVE = path.join('snapshots','catalog-manifest.json');
-function getManifestPath(){ return path.join(process.cwd(), MANIFEST_RELATIVE); }
+// Tenants keep their own manifest under snapshots/tenants/<tenant>/
+function getManifestPath(){ return catalogManifestPath(); }
 
 export function loadManifest(): CatalogManifest | null {
   const fp = getManifestPath();
@@ -55,7 +58,8 @@ export function writeManifestFromCatalog(): CatalogManifest | null {
   const entries: ManifestEntry[] = st.list.map(e => ({
     id: e.id,
     sourceHash: e.sourceHash,
-    bodyHash: crypto.createHash('sha256').update(e.body||'','utf8').digest('hex')
+    bodyHash: crypto.createHash('sha256').update(e.body||'','utf8').digest('hex'),
+    recordHash: entryRecordHash(e)
   })).sort((a,b)=> a.id.localeCompare(b.id));
   // We perform a two-phase write to enable generatedAt stability on no-op content:
   // 1. Build a draft manifest with a placeholder timestamp.
@@ -74,6 +78,7 @@ export function writeManifestFromCatalog(): CatalogManifest | null {
     count: entries.length,
     entries
   };
+  if(signingEnabled()) manifest.signature = signPayload(manifestSigningPayload(manifest));
   // If previous manifest exists and structural content (excluding generatedAt) matches, reuse old timestamp.
   if(previousParsed){
     try {
@@ -98,11 +103,13 @@ export function writeManifestFromCatalog(): CatalogManifest | null {
     if(previous && previous === nextJson){
       incrementCounter('manifest:skipNoChange');
       if(traceEnabled(2)) emitTrace('[trace:manifest:skip-nochange]', { count: manifest.count });
+      clearLocalCatalogWrites();
       return manifest; // treat as success (hash stable)
     }
     const tmp = fp + '.tmp';
     fs.writeFileSync(tmp, nextJson);
     fs.renameSync(tmp, fp);
+    clearLocalCatalogWrites();
     incrementCounter('manifest:write');
     logInfo(`[manifest] wrote catalog-manifest.json count=${manifest.count} ms=${Date.now()-started}`);
     if(traceEnabled(1)) emitTrace('[trace:manifest:write]', { count: manifest.count, ms: Date.now()-started, path: fp });
@@ -168,8 +175,10 @@ export function onCatalogMutationManifestUpdate(){ scheduleManifestUpdate(); }
 // attemptManifestUpdate previously always invoked a write regardless of the MCP_MANIFEST_WRITE flag
 // which caused tests expecting stability under MCP_MANIFEST_WRITE=0 to observe a timestamp change.
 // We now explicitly no-op unless write mode is enabled, making "attempt" semantics truly conditional.
+// A signed catalog also keeps its manifest current (unless writes are explicitly disabled) so that
+// mutations stay covered by the signature.
 export function attemptManifestUpdate(){
-  if(process.env.MCP_MANIFEST_WRITE === '1') scheduleManifestUpdate();
+  if(process.env.MCP_MANIFEST_WRITE === '1' || (signingEnabled() && process.env.MCP_MANIFEST_WRITE !== '0')) scheduleManifestUpdate();
 }
 
 export function manifestFastLoadEnabled(){ return process.env.MCP_MANIFEST_FASTLOAD === '1'; }
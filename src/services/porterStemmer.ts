@@ -0,0 +1,123 @@
+/**
+ * Porter (1980) English stemmer used by the full-text search index.
+ *
+ * Straight port of the reference algorithm (steps 1a-5b); input is expected to be a lower-case ASCII
+ * word. Words of length <= 2 are returned unchanged.
+ */
+
+const step2List: [string, string][] = [
+  ['ational','ate'], ['tional','tion'], ['enci','ence'], ['anci','ance'], ['izer','ize'], ['bli','ble'],
+  ['alli','al'], ['entli','ent'], ['eli','e'], ['ousli','ous'], ['ization','ize'], ['ation','ate'],
+  ['ator','ate'], ['alism','al'], ['iveness','ive'], ['fulness','ful'], ['ousness','ous'], ['aliti','al'],
+  ['iviti','ive'], ['biliti','ble'], ['logi','log']
+];
+const step3List: [string, string][] = [
+  ['icate','ic'], ['ative',''], ['alize','al'], ['iciti','ic'], ['ical','ic'], ['ful',''], ['ness','']
+];
+const step4Suffixes = ['al','ance','ence','er','ic','able','ible','ant','ement','ment','ent','ion','ou','ism','ate','iti','ous','ive','ize'];
+
+function isConsonant(w: string, i: number): boolean {
+  const c = w[i];
+  if('aeiou'.includes(c)) return false;
+  if(c === 'y') return i === 0 ? true : !isConsonant(w, i - 1);
+  return true;
+}
+
+/** m() from the paper: number of VC sequences in the stem. */
+function measure(stem: string): number {
+  let n = 0; let i = 0; const len = stem.length;
+  while(i < len && isConsonant(stem, i)) i++;
+  while(i < len){
+    while(i < len && !isConsonant(stem, i)) i++;
+    if(i >= len) break;
+    n++;
+    while(i < len && isConsonant(stem, i)) i++;
+  }
+  return n;
+}
+
+function hasVowel(stem: string): boolean {
+  for(let i=0;i<stem.length;i++){ if(!isConsonant(stem, i)) return true; }
+  return false;
+}
+
+function endsDoubleConsonant(w: string): boolean {
+  const n = w.length;
+  return n >= 2 && w[n-1] === w[n-2] && isConsonant(w, n-1);
+}
+
+/** *o: stem ends cvc where the final c is not w, x or y. */
+function endsCvc(w: string): boolean {
+  const n = w.length;
+  if(n < 3) return false;
+  if(!isConsonant(w, n-3) || isConsonant(w, n-2) || !isConsonant(w, n-1)) return false;
+  return !'wxy'.includes(w[n-1]);
+}
+
+function replaceSuffix(w: string, list: [string, string][], minMeasure: number): string {
+  for(const [suffix, repl] of list){
+    if(w.endsWith(suffix)){
+      const stem = w.slice(0, -suffix.length);
+      return measure(stem) > minMeasure ? stem + repl : w;
+    }
+  }
+  return w;
+}
+
+export function stem(word: string): string {
+  if(word.length <= 2) return word;
+  let w = word;
+
+  // Step 1a
+  if(w.endsWith('sses')) w = w.slice(0,-2);
+  else if(w.endsWith('ies')) w = w.slice(0,-2);
+  else if(w.endsWith('ss')) { /* keep */ }
+  else if(w.endsWith('s')) w = w.slice(0,-1);
+
+  // Step 1b
+  let step1bExtra = false;
+  if(w.endsWith('eed')){
+    if(measure(w.slice(0,-3)) > 0) w = w.slice(0,-1);
+  } else if(w.endsWith('ed') && hasVowel(w.slice(0,-2))){
+    w = w.slice(0,-2); step1bExtra = true;
+  } else if(w.endsWith('ing') && hasVowel(w.slice(0,-3))){
+    w = w.slice(0,-3); step1bExtra = true;
+  }
+  if(step1bExtra){
+    if(w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) w += 'e';
+    else if(endsDoubleConsonant(w) && !'lsz'.includes(w[w.length-1])) w = w.slice(0,-1);
+    else if(measure(w) === 1 && endsCvc(w)) w += 'e';
+  }
+
+  // Step 1c
+  if(w.endsWith('y') && hasVowel(w.slice(0,-1))) w = w.slice(0,-1) + 'i';
+
+  // Steps 2 / 3
+  w = replaceSuffix(w, step2List, 0);
+  w = replaceSuffix(w, step3List, 0);
+
+  // Step 4
+  for(const suffix of step4Suffixes){
+    if(w.endsWith(suffix)){
+      const stemPart = w.slice(0, -suffix.length);
+      if(measure(stemPart) > 1){
+        if(suffix === 'ion'){
+          if(stemPart.endsWith('s') || stemPart.endsWith('t')) w = stemPart;
+        } else {
+          w = stemPart;
+        }
+      }
+      break;
+    }
+  }
+
+  // Step 5a
+  if(w.endsWith('e')){
+    const stemPart = w.slice(0,-1);
+    const m = measure(stemPart);
+    if(m > 1 || (m === 1 && !endsCvc(stemPart))) w = stemPart;
+  }
+  // Step 5b
+  if(measure(w) > 1 && endsDoubleConsonant(w) && w.endsWith('l')) w = w.slice(0,-1);
+  return w;
+}
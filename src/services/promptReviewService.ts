@@ -1,16 +1,46 @@
 import fs from 'fs';
 import path from 'path';
+import { InstructionEntry } from '../models/instruction';
+import { getPromptRule, PromptEdit, PromptFinding, PromptRule } from './promptRules';
 
-export interface PromptRule {
-  id: string; pattern?: string; mustContain?: string; severity: string; description: string;
-}
+export type { PromptRule } from './promptRules';
 export interface PromptCategory { id: string; rules: PromptRule[] }
 export interface PromptCriteria { version: string; categories: PromptCategory[] }
-export interface PromptIssue { ruleId: string; severity: string; description: string; match?: string }
+export interface PromptIssue { ruleId: string; severity: string; description: string; match?: string; category?: string; suggestion?: string }
+export interface PromptReviewOptions { category?: string; catalog?: InstructionEntry[]; tokenBudget?: number }
+export interface PromptRuleResult { id: string; type: string; category: string; score: number; issues: number; suggestions: string[]; rewrittenPrompt?: string }
+export interface PromptReviewReport {
+  issues: PromptIssue[];
+  score: number;                  // 0-100, severity-weighted
+  suggestions: string[];
+  rewrittenPrompt: string;        // all rule edits applied plus appended context scaffolding
+  rules: PromptRuleResult[];
+  category?: string;
+  criteriaFiles: string[];
+}
+
+const SEVERITY_WEIGHT: Record<string, number> = { critical: 40, high: 20, medium: 10, low: 5, info: 1 };
+const DEFAULT_TOKEN_BUDGET = 2000;
+
+export function scoreIssues(issues: { severity: string }[]): number {
+  return Math.max(0, 100 - issues.reduce((sum, i) => sum + (SEVERITY_WEIGHT[i.severity] ?? 1), 0));
+}
+
+/** Apply non-overlapping edits (first one wins) and append each distinct scaffold line once. */
+export function rewritePrompt(prompt: string, edits: PromptEdit[], appends: string[]): string {
+  let out = ''; let cursor = 0;
+  for(const e of [...edits].sort((a, b) => a.start - b.start || b.end - a.end)){
+    if(e.start < cursor) continue;
+    out += prompt.slice(cursor, e.start) + e.replacement; cursor = e.end;
+  }
+  out += prompt.slice(cursor);
+  const extra = [...new Set(appends)];
+  return extra.length ? `${out.trimEnd()}\n\n${extra.join('\n')}` : out;
+}
 
 export class PromptReviewService {
   private criteria: PromptCriteria;
-  constructor(criteriaPath?: string){
+  constructor(criteriaPath?: string, criteriaDir?: string){
     // Resolve criteria path with fallbacks so the server doesn't crash if cwd differs.
     const candidates: string[] = [];
     if(criteriaPath){
@@ -43,28 +73,69 @@ export class PromptReviewService {
       console.error(`[promptReviewService] Loaded criteria from ${usedPath}`); // stderr so it won't pollute stdout
     }
     this.criteria = loaded;
+    // Per-category criteria (<category>.json) live next to PROMPT-CRITERIA.json unless a directory is given
+    this.criteriaDir = criteriaDir ?? (usedPath ? path.join(path.dirname(usedPath), 'prompt-criteria') : undefined);
+    this.criteriaFile = usedPath;
   }
-  review(prompt: string): PromptIssue[] {
-    const issues: PromptIssue[] = [];
-    for(const cat of this.criteria.categories){
-      for(const rule of cat.rules){
-        if(rule.pattern){
-          // Apply global + case-insensitive flags for broader detection
-          const regex = new RegExp(rule.pattern,'gi');
-            const m = prompt.match(regex);
-            if(m){
-              issues.push({ ruleId: rule.id, severity: rule.severity, description: rule.description, match: m[0] });
-            }
-        }
-        if(rule.mustContain){
-          const mc = new RegExp(rule.mustContain,'i');
-          if(!mc.test(prompt)){
-            issues.push({ ruleId: rule.id, severity: rule.severity, description: 'Missing required token(s): ' + rule.description });
-          }
+  private criteriaDir: string | undefined;
+  private criteriaFile: string | undefined;
+  private categoryCache = new Map<string, { mtimeMs: number; categories: PromptCategory[] }>();
+
+  /** Extra rule categories from `<criteriaDir>/<category>.json` ({ categories } or a bare { rules } list). */
+  private categoryCriteria(category: string): { file?: string; categories: PromptCategory[] } {
+    if(!this.criteriaDir || !/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(category)) return { categories: [] };
+    const file = path.join(this.criteriaDir, `${category}.json`);
+    let stat: fs.Stats;
+    try { stat = fs.statSync(file); } catch { return { categories: [] }; }
+    const cached = this.categoryCache.get(file);
+    if(cached && cached.mtimeMs === stat.mtimeMs) return { file, categories: cached.categories };
+    let categories: PromptCategory[] = [];
+    try {
+      const raw = JSON.parse(fs.readFileSync(file, 'utf8')) as Partial<PromptCriteria> & { rules?: PromptRule[] };
+      categories = Array.isArray(raw.categories) ? raw.categories : Array.isArray(raw.rules) ? [{ id: category, rules: raw.rules }] : [];
+    } catch(e){
+      console.error(`[promptReviewService] WARN: ignoring unreadable criteria ${file}: ${(e as Error).message}`);
+    }
+    this.categoryCache.set(file, { mtimeMs: stat.mtimeMs, categories });
+    return { file, categories };
+  }
+
+  review(prompt: string, opts: PromptReviewOptions = {}): PromptIssue[] {
+    return this.analyze(prompt, opts).issues;
+  }
+
+  analyze(prompt: string, opts: PromptReviewOptions = {}): PromptReviewReport {
+    const extra = opts.category ? this.categoryCriteria(opts.category) : { categories: [] };
+    const ctx = { prompt, category: opts.category, catalog: opts.catalog, tokenBudget: opts.tokenBudget ?? DEFAULT_TOKEN_BUDGET };
+    const issues: PromptIssue[] = []; const rules: PromptRuleResult[] = [];
+    const allEdits: PromptEdit[] = []; const allAppends: string[] = [];
+    for(const cat of [...this.criteria.categories, ...extra.categories]){
+      for(const rule of cat.rules || []){
+        const type = rule.type || 'regex';
+        const plugin = getPromptRule(type);
+        let findings: PromptFinding[];
+        if(!plugin) findings = [{ severity: 'info', description: `Unknown rule type "${type}"` }];
+        else {
+          try { findings = plugin(rule, ctx); }
+          catch(e){ findings = [{ severity: 'info', description: `Rule failed: ${(e as Error).message}` }]; }
         }
+        const ruleIssues = findings.map(f => ({ ruleId: rule.id, severity: f.severity || rule.severity, description: f.description || rule.description, ...(f.match !== undefined ? { match: f.match } : {}), category: cat.id, ...(f.suggestion ? { suggestion: f.suggestion } : {}) }));
+        const edits = findings.flatMap(f => f.edits || []); const appends = findings.flatMap(f => f.append ? [f.append] : []);
+        issues.push(...ruleIssues); allEdits.push(...edits); allAppends.push(...appends);
+        rules.push({
+          id: rule.id, type, category: cat.id, score: scoreIssues(ruleIssues), issues: ruleIssues.length,
+          suggestions: [...new Set(ruleIssues.flatMap(i => i.suggestion ? [i.suggestion] : []))],
+          ...(edits.length || appends.length ? { rewrittenPrompt: rewritePrompt(prompt, edits, appends) } : {})
+        });
       }
     }
-    return issues;
+    return {
+      issues, score: scoreIssues(issues),
+      suggestions: [...new Set(issues.flatMap(i => i.suggestion ? [i.suggestion] : []))],
+      rewrittenPrompt: rewritePrompt(prompt, allEdits, allAppends),
+      rules, category: opts.category,
+      criteriaFiles: [this.criteriaFile, extra.file].filter((f): f is string => !!f)
+    };
   }
 }
 
@@ -0,0 +1,177 @@
+import { InstructionEntry } from '../models/instruction';
+import { findSensitive, maskSensitive, redactionFor, SensitiveClass } from './sensitiveContent';
+
+/**
+ * Rule plugins behind prompt/review.
+ *
+ * A criteria rule names its plugin with `type` (rules without one are the original regex `pattern` /
+ * `mustContain` rules); any other fields on the rule are plugin options. A plugin returns findings, each with
+ * an optional suggested fix, in-place edits (offsets into the reviewed prompt) and text to append. The review
+ * service applies the edits and appends to build the rewritten prompt. Extra plugins register with
+ * registerPromptRule().
+ */
+
+export interface PromptRule {
+  id: string;
+  type?: string;
+  pattern?: string;
+  mustContain?: string;
+  severity: string;
+  description: string;
+  [option: string]: unknown;
+}
+export interface PromptEdit { start: number; end: number; replacement: string }
+export interface PromptFinding {
+  severity?: string;          // defaults to the rule severity
+  description?: string;       // defaults to the rule description
+  match?: string;
+  suggestion?: string;
+  edits?: PromptEdit[];
+  append?: string;
+}
+export interface PromptRuleContext {
+  prompt: string;
+  category?: string;
+  catalog?: InstructionEntry[];   // conflict checks are skipped without a catalog
+  tokenBudget: number;
+}
+export type PromptRulePlugin = (rule: PromptRule, ctx: PromptRuleContext) => PromptFinding[];
+
+const plugins = new Map<string, PromptRulePlugin>();
+
+export function registerPromptRule(type: string, plugin: PromptRulePlugin): void { plugins.set(type, plugin); }
+export function getPromptRule(type: string): PromptRulePlugin | undefined { return plugins.get(type); }
+export function listPromptRuleTypes(): string[] { return [...plugins.keys()].sort(); }
+
+/** Rough token estimate (about four characters per token for English text). */
+export function estimateTokens(text: string): number { return Math.ceil(text.length / 4); }
+
+// --- regex (original criteria rules) -------------------------------------------------------------
+
+registerPromptRule('regex', (rule, { prompt }) => {
+  const out: PromptFinding[] = [];
+  if(rule.pattern){
+    // Apply global + case-insensitive flags for broader detection
+    const m = prompt.match(new RegExp(rule.pattern, 'gi'));
+    if(m) out.push({ match: m[0], suggestion: typeof rule.fix === 'string' ? rule.fix : `Rephrase or remove "${m[0]}"` });
+  }
+  if(rule.mustContain && !new RegExp(rule.mustContain, 'i').test(prompt)){
+    out.push({ description: 'Missing required token(s): ' + rule.description, suggestion: typeof rule.fix === 'string' ? rule.fix : rule.description });
+  }
+  return out;
+});
+
+// --- length / token budget -----------------------------------------------------------------------
+
+registerPromptRule('length', (rule, { prompt, tokenBudget }) => {
+  const out: PromptFinding[] = [];
+  const maxTokens = typeof rule.maxTokens === 'number' ? rule.maxTokens : tokenBudget;
+  const minWords = typeof rule.minWords === 'number' ? rule.minWords : 0;
+  // Redundant whitespace and repeated lines are the safe part of a trim: collapse them in the rewrite
+  const seen = new Set<string>(); const edits: PromptEdit[] = [];
+  const lineRe = /[^\n]*\n?/g; let m: RegExpExecArray | null;
+  while((m = lineRe.exec(prompt)) && m[0].length){
+    const key = m[0].trim().toLowerCase();
+    if(key.length > 20 && seen.has(key)) edits.push({ start: m.index, end: m.index + m[0].length, replacement: '' });
+    else if(key) seen.add(key);
+  }
+  for(const ws of prompt.matchAll(/[ \t]{2,}|\n{3,}/g)){
+    const start = ws.index ?? 0;
+    if(!edits.some(e => start < e.end && start + ws[0].length > e.start)) edits.push({ start, end: start + ws[0].length, replacement: ws[0].includes('\n') ? '\n\n' : ' ' });
+  }
+  const tokens = estimateTokens(prompt);
+  if(tokens > maxTokens){
+    out.push({ match: `~${tokens} tokens`, description: `${rule.description} (~${tokens} tokens, budget ${maxTokens})`, suggestion: `Cut about ${tokens - maxTokens} tokens: drop examples and background the task does not need, or reference catalog instructions by id instead of inlining them`, edits });
+  } else if(edits.length){
+    out.push({ severity: 'info', description: 'Repeated lines or redundant whitespace', suggestion: 'Remove duplicated lines and collapse whitespace', edits });
+  }
+  const words = prompt.trim().split(/\s+/).filter(Boolean).length;
+  if(minWords && words < minWords){
+    out.push({ match: `${words} words`, description: `Prompt is very short (${words} words, expected at least ${minWords})`, suggestion: 'State the task, the relevant context and the expected result' });
+  }
+  return out;
+});
+
+// --- secrets / PII -------------------------------------------------------------------------------
+
+registerPromptRule('sensitive', (rule, { prompt }) => {
+  const classes = Array.isArray(rule.classes) ? rule.classes as SensitiveClass[] : ['secret', 'pii'] as SensitiveClass[];
+  return findSensitive(prompt, classes).map(s => ({
+    severity: s.class === 'secret' ? rule.severity : (typeof rule.piiSeverity === 'string' ? rule.piiSeverity : rule.severity),
+    description: `${s.class === 'secret' ? 'Embedded secret' : 'Personal data'} (${s.kind})`,
+    match: maskSensitive(s.value),
+    suggestion: s.class === 'secret' ? 'Remove the credential and reference it through a secret store or environment variable' : 'Replace personal data with a placeholder or synthetic example',
+    edits: [{ start: s.start, end: s.end, replacement: redactionFor(s) }]
+  }));
+});
+
+// --- contradiction with mandatory catalog instructions -------------------------------------------
+
+const STOP = new Set(['the','and','for','with','that','this','from','into','your','you','are','was','were','have','has','had','not','never','always','must','should','shall','will','would','could','only','when','then','than','them','they','their','there','here','what','which','while','every','before','after','also','just','make','sure','please','need','needs','all','any','use','using','don','doesn','without']);
+const NEGATIVE = /\b(never|must not|mustn't|do not|don't|does not|should not|shouldn't|shall not|cannot|can't|avoid|forbidden|prohibited|skip|ignore|disable|bypass|without)\b/i;
+const DIRECTIVE = /\b(must|always|never|shall|required|do not|don't|should)\b/i;
+
+function stem(word: string): string {
+  return word.replace(/(ing|ed|es|s)$/, '').replace(/e$/, '');
+}
+function terms(sentence: string): Set<string> {
+  return new Set((sentence.toLowerCase().match(/[a-z][a-z0-9-]{2,}/g) || []).filter(w => !STOP.has(w)).map(stem).filter(w => w.length >= 3));
+}
+function sentences(text: string): { text: string; start: number }[] {
+  const out: { text: string; start: number }[] = [];
+  for(const m of text.matchAll(/[^.!?\n]+[.!?]*/g)){ if(m[0].trim()) out.push({ text: m[0], start: m.index ?? 0 }); }
+  return out;
+}
+
+registerPromptRule('mandatoryConflict', (rule, { prompt, catalog }) => {
+  if(!catalog) return [];
+  const minOverlap = typeof rule.minOverlap === 'number' ? rule.minOverlap : 2;
+  const requirements = Array.isArray(rule.requirements) ? rule.requirements as string[] : ['mandatory', 'critical'];
+  const directives: { id: string; title: string; text: string; negative: boolean; terms: Set<string> }[] = [];
+  for(const e of catalog){
+    if(!requirements.includes(e.requirement) || e.status === 'deprecated') continue;
+    for(const s of sentences(e.body)){
+      if(DIRECTIVE.test(s.text)) directives.push({ id: e.id, title: e.title, text: s.text.trim(), negative: NEGATIVE.test(s.text), terms: terms(s.text) });
+    }
+  }
+  const out: PromptFinding[] = [];
+  const reported = new Set<string>();
+  for(const s of sentences(prompt)){
+    const negative = NEGATIVE.test(s.text); const words = terms(s.text);
+    for(const d of directives){
+      if(d.negative === negative || reported.has(`${d.id}:${s.start}`)) continue;
+      const shared = [...d.terms].filter(t => words.has(t));
+      if(shared.length < Math.min(minOverlap, d.terms.size)) continue;
+      reported.add(`${d.id}:${s.start}`);
+      out.push({
+        description: `Contradicts ${d.id} (${d.title}): "${d.text}"`,
+        match: s.text.trim(),
+        suggestion: `Drop or rephrase this sentence to comply with ${d.id}`,
+        edits: [{ start: s.start, end: s.start + s.text.length, replacement: '' }],
+        append: `Follow ${d.id}: ${d.text}`
+      });
+    }
+  }
+  return out;
+});
+
+// --- missing context heuristics ------------------------------------------------------------------
+
+interface ContextCheck { id: string; missing: (prompt: string) => boolean; description: string; suggestion: string; scaffold: string }
+const CONTEXT_CHECKS: ContextCheck[] = [
+  { id: 'output-format', missing: p => !/\b(format|json|yaml|markdown|table|list|bullet|return|respond|output|diff|patch|summary)\b/i.test(p),
+    description: 'No expected output or format', suggestion: 'Say what the answer should look like (format, length, structure)', scaffold: 'Output: <expected format and length>' },
+  { id: 'success-criteria', missing: p => !/\b(done when|success|acceptance|criteria|should pass|must pass|verify|test|expected)\b/i.test(p),
+    description: 'No success criteria', suggestion: 'State how the result will be checked', scaffold: 'Done when: <acceptance criteria>' },
+  { id: 'dangling-reference', missing: p => /^\s*(fix|update|change|improve|do|continue|redo)\s+(it|this|that|these|those)\b|\b(as (discussed|mentioned|before)|the above|same as last time)\b/i.test(p),
+    description: 'Refers to context the reader does not have', suggestion: 'Name the file, component or decision instead of "this" / "as discussed"', scaffold: 'Context: <what "this" refers to: files, components, prior decisions>' },
+  { id: 'scope', missing: p => !/\b(file|module|function|class|component|service|repo|repository|endpoint|api|path|directory|table|page)\b|[\w-]+\.[a-z]{1,4}\b|`[^`]+`/i.test(p),
+    description: 'No concrete scope (files, components or systems)', suggestion: 'Point to the files, components or systems involved', scaffold: 'Scope: <files / components involved>' }
+];
+
+registerPromptRule('missingContext', (rule, { prompt }) => {
+  const enabled = Array.isArray(rule.checks) ? rule.checks as string[] : CONTEXT_CHECKS.map(c => c.id);
+  return CONTEXT_CHECKS.filter(c => enabled.includes(c.id) && c.missing(prompt)).map(c => ({
+    description: c.description, match: c.id, suggestion: c.suggestion, append: c.scaffold
+  }));
+});
@@ -0,0 +1,298 @@
+import fs from 'fs';
+import path from 'path';
+import { InstructionEntry } from '../models/instruction';
+
+/**
+ * Declarative quality gates (`<instructionsDir>/gates.json`, `{ "gates": Gate[] }`).
+ *
+ * Gate types:
+ *  - count    – number of entries matching `where` compared with `op` / `value` (the original gate type)
+ *  - every    – every entry matching `where` satisfies `require`; offenders are listed
+ *  - ratio    – share of entries in scope matching `match`, compared with `op` / `value` (0–1)
+ *  - regex    – `field` of every entry in scope matches `pattern` (or, with `forbid`, none does)
+ *  - coverage – each listed category has at least `min` entries in scope
+ *  - unique   – no two entries in scope share the same `field` value
+ *
+ * Predicates are `{ field, ...tests }` leaves combined with `all` / `any` / `not`. `field` is a dot path into
+ * the entry (`owner`, `categories`, `links.requires`). The count gate's legacy `where: { requirement,
+ * priorityGt }` shape is still accepted. A gate definition that does not validate is reported as a failed
+ * result carrying `error` instead of being skipped.
+ */
+
+export const GATE_TYPES = ['count', 'every', 'ratio', 'regex', 'coverage', 'unique'] as const;
+export type GateType = typeof GATE_TYPES[number];
+export type GateSeverity = 'error' | 'warn' | 'info';
+const SEVERITIES: readonly GateSeverity[] = ['error', 'warn', 'info'];
+export type CompareOp = '>=' | '>' | '<=' | '<' | '==' | '!=';
+const OPS: readonly CompareOp[] = ['>=', '>', '<=', '<', '==', '!='];
+
+export interface FieldPredicate {
+  field: string;
+  exists?: boolean;                  // value present (non-empty string / array)
+  eq?: string | number | boolean;
+  ne?: string | number | boolean;
+  in?: (string | number | boolean)[];
+  gt?: number; gte?: number; lt?: number; lte?: number;
+  matches?: string; flags?: string;  // regex against the string value (any element for arrays)
+  contains?: string;                 // array field includes the value
+  minLength?: number; maxLength?: number; // string / array length
+  withinDays?: number;               // ISO date no more than N days from now (past or future)
+}
+export type Predicate = FieldPredicate | { all: Predicate[] } | { any: Predicate[] } | { not: Predicate };
+interface LegacyWhere { requirement?: string; priorityGt?: number }
+
+interface GateBase { id: string; severity?: GateSeverity; description?: string; where?: Predicate | LegacyWhere }
+export type Gate =
+  | GateBase & { type: 'count'; op: CompareOp; value: number }
+  | GateBase & { type: 'every'; require: Predicate }
+  | GateBase & { type: 'ratio'; match: Predicate; op: CompareOp; value: number }
+  | GateBase & { type: 'regex'; field: string; pattern: string; flags?: string; forbid?: boolean }
+  | GateBase & { type: 'coverage'; categories: string[]; min?: number }
+  | GateBase & { type: 'unique'; field: string; caseInsensitive?: boolean };
+
+export interface GateResult {
+  id: string;
+  type: string;
+  passed: boolean;
+  severity: GateSeverity;
+  description?: string;
+  count: number;                     // count: matching entries; other types: entries in scope
+  op?: CompareOp;
+  value?: number;
+  ratio?: number;
+  offendingIds?: string[];
+  missingCategories?: { category: string; count: number }[];
+  duplicates?: { value: string; ids: string[] }[];
+  error?: string;                    // invalid gate definition
+}
+export interface GateSummary { errors: number; warnings: number; total: number }
+
+const FIELD_TESTS = ['exists', 'eq', 'ne', 'in', 'gt', 'gte', 'lt', 'lte', 'matches', 'flags', 'contains', 'minLength', 'maxLength', 'withinDays'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function fieldValue(e: InstructionEntry, field: string): unknown {
+  let cur: unknown = e;
+  for(const part of field.split('.')){
+    if(cur === null || typeof cur !== 'object') return undefined;
+    cur = (cur as Record<string, unknown>)[part];
+  }
+  return cur;
+}
+
+const isPresent = (v: unknown) => v !== undefined && v !== null && !(typeof v === 'string' && !v.trim()) && !(Array.isArray(v) && !v.length);
+
+function testField(p: FieldPredicate, e: InstructionEntry, now: number): boolean {
+  const v = fieldValue(e, p.field);
+  if(p.exists !== undefined && isPresent(v) !== p.exists) return false;
+  if(p.eq !== undefined && v !== p.eq) return false;
+  if(p.ne !== undefined && v === p.ne) return false;
+  if(p.in !== undefined && !p.in.includes(v as string | number | boolean)) return false;
+  if(p.gt !== undefined || p.gte !== undefined || p.lt !== undefined || p.lte !== undefined){
+    if(typeof v !== 'number') return false;
+    if(p.gt !== undefined && !(v > p.gt)) return false;
+    if(p.gte !== undefined && !(v >= p.gte)) return false;
+    if(p.lt !== undefined && !(v < p.lt)) return false;
+    if(p.lte !== undefined && !(v <= p.lte)) return false;
+  }
+  if(p.matches !== undefined){
+    const re = new RegExp(p.matches, p.flags);
+    const values = Array.isArray(v) ? v : [v];
+    if(!values.some(x => typeof x === 'string' && re.test(x))) return false;
+  }
+  if(p.contains !== undefined && !(Array.isArray(v) && v.includes(p.contains))) return false;
+  if(p.minLength !== undefined || p.maxLength !== undefined){
+    const len = typeof v === 'string' || Array.isArray(v) ? v.length : 0;
+    if(p.minLength !== undefined && len < p.minLength) return false;
+    if(p.maxLength !== undefined && len > p.maxLength) return false;
+  }
+  if(p.withinDays !== undefined){
+    const t = typeof v === 'string' ? Date.parse(v) : NaN;
+    if(Number.isNaN(t) || Math.abs(t - now) > p.withinDays * DAY_MS) return false;
+  }
+  return true;
+}
+
+export function matchesPredicate(p: Predicate, e: InstructionEntry, now: number = Date.now()): boolean {
+  if('all' in p) return p.all.every(c => matchesPredicate(c, e, now));
+  if('any' in p) return p.any.some(c => matchesPredicate(c, e, now));
+  if('not' in p) return !matchesPredicate(p.not, e, now);
+  return testField(p, e, now);
+}
+
+/** Returns a problem description, or undefined when the predicate is well formed. */
+function predicateProblem(p: unknown, at: string): string | undefined {
+  if(!p || typeof p !== 'object' || Array.isArray(p)) return `${at}: predicate must be an object`;
+  const o = p as Record<string, unknown>;
+  if('all' in o || 'any' in o){
+    const list = o.all ?? o.any;
+    if(!Array.isArray(list) || !list.length) return `${at}: all / any must be a non-empty array`;
+    for(let i = 0; i < list.length; i++){ const problem = predicateProblem(list[i], `${at}.${'all' in o ? 'all' : 'any'}[${i}]`); if(problem) return problem; }
+    return undefined;
+  }
+  if('not' in o) return predicateProblem(o.not, `${at}.not`);
+  if(typeof o.field !== 'string' || !o.field) return `${at}: field is required`;
+  const unknownKeys = Object.keys(o).filter(k => k !== 'field' && !FIELD_TESTS.includes(k));
+  if(unknownKeys.length) return `${at}: unknown test ${unknownKeys.join(', ')}`;
+  for(const k of ['gt', 'gte', 'lt', 'lte', 'minLength', 'maxLength', 'withinDays']){
+    if(o[k] !== undefined && typeof o[k] !== 'number') return `${at}: ${k} must be a number`;
+  }
+  if(o.in !== undefined && !Array.isArray(o.in)) return `${at}: in must be an array`;
+  if(o.matches !== undefined) return regexProblem(o.matches, o.flags, at);
+  return undefined;
+}
+
+function regexProblem(pattern: unknown, flags: unknown, at: string): string | undefined {
+  if(typeof pattern !== 'string') return `${at}: pattern must be a string`;
+  try { new RegExp(pattern, typeof flags === 'string' ? flags : undefined); } catch(e){ return `${at}: invalid regex (${(e as Error).message})`; }
+  return undefined;
+}
+
+function isLegacyWhere(w: object): w is LegacyWhere {
+  return !('field' in w || 'all' in w || 'any' in w || 'not' in w);
+}
+
+/** Scope predicate for a gate (legacy `{ requirement, priorityGt }` where clauses are translated). */
+function scopeOf(g: GateBase): Predicate | undefined {
+  const w = g.where;
+  if(!w) return undefined;
+  if(!isLegacyWhere(w)) return w;
+  const parts: Predicate[] = [];
+  if(w.requirement !== undefined) parts.push({ field: 'requirement', eq: w.requirement });
+  if(w.priorityGt !== undefined) parts.push({ field: 'priority', gt: w.priorityGt });
+  return parts.length ? { all: parts } : undefined;
+}
+
+export function validateGate(raw: unknown): string | undefined {
+  if(!raw || typeof raw !== 'object') return 'gate must be an object';
+  const g = raw as Record<string, unknown>;
+  if(typeof g.id !== 'string' || !g.id) return 'id is required';
+  if(!(GATE_TYPES as readonly string[]).includes(g.type as string)) return `unknown type ${String(g.type)} (expected ${GATE_TYPES.join(' | ')})`;
+  if(g.severity !== undefined && !SEVERITIES.includes(g.severity as GateSeverity)) return `invalid severity ${String(g.severity)}`;
+  if(g.where !== undefined){
+    if(!g.where || typeof g.where !== 'object') return 'where must be an object';
+    if(!isLegacyWhere(g.where)){ const problem = predicateProblem(g.where, 'where'); if(problem) return problem; }
+  }
+  switch(g.type){
+    case 'count':
+    case 'ratio':
+      if(!OPS.includes(g.op as CompareOp)) return `invalid op ${String(g.op)}`;
+      if(typeof g.value !== 'number') return 'value must be a number';
+      return g.type === 'ratio' ? predicateProblem(g.match, 'match') : undefined;
+    case 'every': return predicateProblem(g.require, 'require');
+    case 'regex':
+      if(typeof g.field !== 'string' || !g.field) return 'field is required';
+      return regexProblem(g.pattern, g.flags, 'pattern');
+    case 'coverage':
+      if(!Array.isArray(g.categories) || !g.categories.length || g.categories.some(c => typeof c !== 'string')) return 'categories must be a non-empty string array';
+      if(g.min !== undefined && (typeof g.min !== 'number' || g.min < 1)) return 'min must be a number >= 1';
+      return undefined;
+    case 'unique':
+      if(typeof g.field !== 'string' || !g.field) return 'field is required';
+      return undefined;
+  }
+  return undefined;
+}
+
+function compare(actual: number, op: CompareOp, value: number): boolean {
+  switch(op){
+    case '>=': return actual >= value;
+    case '>': return actual > value;
+    case '<=': return actual <= value;
+    case '<': return actual < value;
+    case '==': return actual === value;
+    case '!=': return actual !== value;
+  }
+}
+
+export function evaluateGate(gate: Gate, list: InstructionEntry[], now: number = Date.now()): GateResult {
+  const base = { id: gate.id, type: gate.type, severity: gate.severity || 'error', description: gate.description };
+  const problem = validateGate(gate);
+  if(problem) return { ...base, type: String(gate.type), passed: false, count: 0, error: problem };
+  const scope = scopeOf(gate);
+  const inScope = scope ? list.filter(e => matchesPredicate(scope, e, now)) : list;
+  switch(gate.type){
+    case 'count':
+      return { ...base, passed: compare(inScope.length, gate.op, gate.value), count: inScope.length, op: gate.op, value: gate.value };
+    case 'every': {
+      const offendingIds = inScope.filter(e => !matchesPredicate(gate.require, e, now)).map(e => e.id).sort();
+      return { ...base, passed: !offendingIds.length, count: inScope.length, offendingIds };
+    }
+    case 'ratio': {
+      const matched = inScope.filter(e => matchesPredicate(gate.match, e, now));
+      if(!inScope.length) return { ...base, passed: true, count: 0, op: gate.op, value: gate.value };
+      const ratio = Math.round((matched.length / inScope.length) * 10000) / 10000;
+      const passed = compare(ratio, gate.op, gate.value);
+      // raising the ratio means fixing non-matching entries, lowering it means fixing matching ones
+      const offenders = passed ? [] : (gate.op === '>=' || gate.op === '>') ? inScope.filter(e => !matched.includes(e)) : (gate.op === '<=' || gate.op === '<') ? matched : [];
+      return { ...base, passed, count: inScope.length, op: gate.op, value: gate.value, ratio, offendingIds: offenders.map(e => e.id).sort() };
+    }
+    case 'regex': {
+      const re = new RegExp(gate.pattern, gate.flags);
+      const offendingIds = inScope.filter(e => {
+        const v = fieldValue(e, gate.field);
+        const hit = (Array.isArray(v) ? v : [v]).some(x => typeof x === 'string' && re.test(x));
+        return gate.forbid ? hit : !hit;
+      }).map(e => e.id).sort();
+      return { ...base, passed: !offendingIds.length, count: inScope.length, offendingIds };
+    }
+    case 'coverage': {
+      const min = gate.min ?? 1;
+      const missingCategories = gate.categories.map(c => c.toLowerCase())
+        .map(category => ({ category, count: inScope.filter(e => (e.categories || []).includes(category)).length }))
+        .filter(c => c.count < min);
+      return { ...base, passed: !missingCategories.length, count: inScope.length, missingCategories };
+    }
+    case 'unique': {
+      const groups = new Map<string, string[]>();
+      for(const e of inScope){
+        const v = fieldValue(e, gate.field);
+        if(!isPresent(v) || typeof v === 'object') continue;
+        const key = gate.caseInsensitive ? String(v).trim().toLowerCase() : String(v).trim();
+        const ids = groups.get(key); if(ids) ids.push(e.id); else groups.set(key, [e.id]);
+      }
+      const duplicates = [...groups.entries()].filter(([, ids]) => ids.length > 1).map(([value, ids]) => ({ value, ids: ids.sort() }));
+      const offendingIds = duplicates.flatMap(d => d.ids).sort();
+      return { ...base, passed: !duplicates.length, count: inScope.length, offendingIds, duplicates };
+    }
+  }
+}
+
+export function evaluateGates(gates: Gate[], list: InstructionEntry[], now: number = Date.now()): { results: GateResult[]; summary: GateSummary } {
+  const results = gates.map(g => evaluateGate(g, list, now));
+  const summary = { errors: results.filter(r => !r.passed && r.severity === 'error').length, warnings: results.filter(r => !r.passed && r.severity === 'warn').length, total: results.length };
+  return { results, summary };
+}
+
+export function gatesFilePath(dir: string): string { return path.join(dir, 'gates.json'); }
+
+/** Gates from `<dir>/gates.json`; `notConfigured` when the file is absent. */
+export function loadGates(dir: string): { gates: Gate[] } | { notConfigured: true } | { error: string } {
+  const file = gatesFilePath(dir);
+  if(!fs.existsSync(file)) return { notConfigured: true };
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf8')) as { gates?: unknown };
+    return { gates: Array.isArray(data.gates) ? data.gates as Gate[] : [] };
+  } catch { return { error: 'invalid gates file' }; }
+}
+
+export interface GateViolation { id: string; type: string; severity: GateSeverity; description?: string; offendingIds?: string[] }
+
+/**
+ * Pre-mutation check: evaluate gates against the catalog as it would look after `changed` is written and
+ * report the gates the mutation breaks. A gate counts as broken when it fails afterwards and either passed
+ * before or lists one of the changed ids as an offender, so gates that were already failing elsewhere in the
+ * catalog do not block unrelated writes. Invalid gate definitions never block.
+ */
+export function gateViolations(gates: Gate[], before: InstructionEntry[], changed: InstructionEntry[], now: number = Date.now()): GateViolation[] {
+  const changedIds = new Set(changed.map(e => e.id));
+  const after = [...before.filter(e => !changedIds.has(e.id)), ...changed];
+  const violations: GateViolation[] = [];
+  for(const gate of gates){
+    const next = evaluateGate(gate, after, now);
+    if(next.passed || next.error) continue;
+    const touched = (next.offendingIds || []).filter(id => changedIds.has(id));
+    if(!touched.length && evaluateGate(gate, before, now).passed === false) continue;
+    violations.push({ id: next.id, type: next.type, severity: next.severity, description: next.description, offendingIds: touched.length ? touched : next.offendingIds });
+  }
+  return violations;
+}
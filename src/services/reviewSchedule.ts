@@ -0,0 +1,143 @@
+import fs from 'fs';
+import path from 'path';
+import { InstructionEntry } from '../models/instruction';
+import { ClassificationService } from './classificationService';
+import { ensureLoaded, getInstructionsDir, invalidate, touchCatalogVersion } from './catalogContext';
+import { getCatalogStorage } from './catalogRepository';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { logAudit } from './auditLog';
+import { attemptManifestUpdate } from './manifestManager';
+import { logInfo, logWarn } from './logger';
+
+/**
+ * Scheduled review workflow driven by `nextReviewDue`.
+ *
+ * ClassificationService stamps `lastReviewedAt`, `reviewIntervalDays` and `nextReviewDue` on every entry;
+ * this module turns them into a per-owner queue (overdue + due within the horizon), completes reviews
+ * (stamp, recompute the due date, append to changeLog) and renders the daily digest written by
+ * startReviewDigestScheduler. Deprecated entries are left out of the queue unless asked for.
+ */
+
+export interface ReviewItem {
+  id: string;
+  title: string;
+  owner: string;
+  priorityTier?: InstructionEntry['priorityTier'];
+  status?: InstructionEntry['status'];
+  lastReviewedAt?: string;
+  nextReviewDue: string;
+  reviewIntervalDays?: number;
+  daysUntilDue: number;              // negative when overdue
+}
+export interface OwnerReviewQueue { owner: string; overdue: ReviewItem[]; upcoming: ReviewItem[] }
+export interface ReviewQueue {
+  generatedAt: string;
+  horizonDays: number;
+  overdueCount: number;
+  upcomingCount: number;
+  owners: OwnerReviewQueue[];        // most overdue work first
+}
+export interface ReviewQueueOptions { horizonDays: number; owner?: string; includeDeprecated?: boolean; now?: Date }
+
+const DAY_MS = 86400_000;
+const UNOWNED = 'unowned';
+
+export function buildReviewQueue(list: InstructionEntry[], opts: ReviewQueueOptions): ReviewQueue {
+  const now = (opts.now ?? new Date()).getTime();
+  const horizonEnd = now + opts.horizonDays * DAY_MS;
+  const byOwner = new Map<string, OwnerReviewQueue>();
+  let overdueCount = 0, upcomingCount = 0;
+  for(const e of list){
+    if(!opts.includeDeprecated && (e.status === 'deprecated' || e.requirement === 'deprecated')) continue;
+    const owner = e.owner || UNOWNED;
+    if(opts.owner !== undefined && owner !== opts.owner) continue;
+    const due = e.nextReviewDue ? Date.parse(e.nextReviewDue) : NaN;
+    if(Number.isNaN(due) || due > horizonEnd) continue;
+    const item: ReviewItem = { id: e.id, title: e.title, owner, priorityTier: e.priorityTier, status: e.status, lastReviewedAt: e.lastReviewedAt, nextReviewDue: e.nextReviewDue as string, reviewIntervalDays: e.reviewIntervalDays, daysUntilDue: Math.floor((due - now) / DAY_MS) };
+    let q = byOwner.get(owner);
+    if(!q){ q = { owner, overdue: [], upcoming: [] }; byOwner.set(owner, q); }
+    if(due < now){ q.overdue.push(item); overdueCount++; } else { q.upcoming.push(item); upcomingCount++; }
+  }
+  const byDue = (a: ReviewItem, b: ReviewItem) => a.nextReviewDue.localeCompare(b.nextReviewDue) || a.id.localeCompare(b.id);
+  const owners = [...byOwner.values()].map(q => ({ ...q, overdue: q.overdue.sort(byDue), upcoming: q.upcoming.sort(byDue) }))
+    .sort((a, b) => b.overdue.length - a.overdue.length || b.upcoming.length - a.upcoming.length || a.owner.localeCompare(b.owner));
+  return { generatedAt: new Date(now).toISOString(), horizonDays: opts.horizonDays, overdueCount, upcomingCount, owners };
+}
+
+/** Record a completed review: stamp lastReviewedAt, schedule the next one and append a changeLog entry. */
+export function completeReview(entry: InstructionEntry, opts: { reviewer?: string; notes?: string; now?: Date } = {}): InstructionEntry {
+  const now = opts.now ?? new Date();
+  const stamp = now.toISOString();
+  const interval = entry.reviewIntervalDays ?? new ClassificationService().computeReviewIntervalDays(entry.priorityTier || 'P4', entry.requirement);
+  const summary = `review completed${opts.reviewer ? ` by ${opts.reviewer}` : ''}${opts.notes ? `: ${opts.notes}` : ''}`;
+  return {
+    ...entry,
+    lastReviewedAt: stamp,
+    reviewIntervalDays: interval,
+    nextReviewDue: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    changeLog: [...(entry.changeLog || []), { version: entry.version || '1.0.0', changedAt: stamp, summary }],
+    updatedAt: stamp
+  };
+}
+
+/** Persist a completed review for a catalog entry (shared by review/complete and the dashboard). */
+export function recordReviewCompletion(id: string, opts: { reviewer?: string; notes?: string } = {}): { record: InstructionEntry } | { notFound: true } | { error: string } {
+  const storage = getCatalogStorage(getInstructionsDir()); const file = `${id}.json`;
+  if(!storage.exists(id)) return { notFound: true };
+  let current: InstructionEntry;
+  try { current = JSON.parse(storage.readText(file)) as InstructionEntry; } catch { return { error: 'read-failed' }; }
+  const record = completeReview(current, opts);
+  try { storage.writeText(file, JSON.stringify(record, null, 2)); } catch { return { error: 'write-failed' }; }
+  touchCatalogVersion(); invalidate();
+  logAudit('reviewComplete', id, { reviewer: opts.reviewer, nextReviewDue: record.nextReviewDue });
+  attemptManifestUpdate();
+  return { record };
+}
+
+export function renderReviewDigest(q: ReviewQueue): string {
+  const lines = [`# Instruction review digest ${q.generatedAt.slice(0, 10)}`, '', `Overdue: ${q.overdueCount} · Due within ${q.horizonDays} days: ${q.upcomingCount}`, ''];
+  if(!q.owners.length) lines.push('Nothing is due for review.', '');
+  const row = (i: ReviewItem) => `- \`${i.id}\` ${i.title} (${i.priorityTier || '-'}) — due ${i.nextReviewDue.slice(0, 10)}${i.daysUntilDue < 0 ? `, ${-i.daysUntilDue} days overdue` : ''}`;
+  for(const o of q.owners){
+    lines.push(`## ${o.owner}`, '');
+    if(o.overdue.length) lines.push('Overdue:', ...o.overdue.map(row), '');
+    if(o.upcoming.length) lines.push('Upcoming:', ...o.upcoming.map(row), '');
+  }
+  return lines.join('\n');
+}
+
+export function digestFileName(now: Date): string { return `review-digest-${now.toISOString().slice(0, 10)}.md`; }
+
+/** Write today's digest (UTC date) unless it already exists; returns the file path and whether it was written. */
+export function writeReviewDigest(opts: { now?: Date; force?: boolean } = {}): { file: string; written: boolean } {
+  const cfg = getRuntimeConfig().review;
+  const now = opts.now ?? new Date();
+  const file = path.join(cfg.digest.dir, digestFileName(now));
+  if(!opts.force && fs.existsSync(file)) return { file, written: false };
+  const queue = buildReviewQueue(ensureLoaded().list, { horizonDays: cfg.horizonDays, now });
+  fs.mkdirSync(cfg.digest.dir, { recursive: true });
+  fs.writeFileSync(file, renderReviewDigest(queue), 'utf8');
+  logInfo('[review] digest written', { file, overdue: queue.overdueCount, upcoming: queue.upcomingCount });
+  return { file, written: true };
+}
+
+let digestTimer: NodeJS.Timeout | null = null;
+
+/** Hourly check that writes the day's digest once the configured UTC hour has passed (MCP_REVIEW_DIGEST=1). */
+export function startReviewDigestScheduler(): () => void {
+  if(digestTimer) return stopReviewDigestScheduler;
+  const tick = () => {
+    try {
+      const now = new Date();
+      if(now.getUTCHours() >= getRuntimeConfig().review.digest.hourUtc) writeReviewDigest({ now });
+    } catch(e){ logWarn(`[review] digest failed: ${(e as Error).message}`); }
+  };
+  tick();
+  digestTimer = setInterval(tick, 60 * 60 * 1000);
+  digestTimer.unref();
+  return stopReviewDigestScheduler;
+}
+
+export function stopReviewDigestScheduler(): void {
+  if(digestTimer){ clearInterval(digestTimer); digestTimer = null; }
+}
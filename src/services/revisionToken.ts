@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { InstructionEntry } from '../models/instruction';
+import { ensureLoaded } from './catalogContext';
+import { semanticError, PRECONDITION_FAILED } from './errors';
+
+/**
+ * Per-entry revision tokens for optimistic concurrency (ETag / If-Match semantics).
+ *
+ * A token is a short digest of sourceHash + updatedAt, so it changes whenever the body or any
+ * metadata write stamps the record. Reads expose the token; mutations accept `ifMatch` and reject a
+ * stale token with PRECONDITION_FAILED instead of silently overwriting the other writer. `*` matches
+ * any existing record. HTTP-style quoting and weak prefixes (`W/"..."`) are accepted and ignored.
+ */
+
+export type RevisionSource = Pick<InstructionEntry, 'sourceHash' | 'updatedAt'>;
+export interface RevisionConflict { id: string; ifMatch: string; currentRevision: string | null }
+
+export function computeRevisionToken(e: RevisionSource): string {
+  return crypto.createHash('sha256').update(`${e.sourceHash || ''}|${e.updatedAt || ''}`, 'utf8').digest('hex').slice(0, 16);
+}
+
+/** Strip ETag decoration; undefined when the caller did not send a precondition. */
+export function normalizeIfMatch(raw: unknown): string | undefined {
+  if(typeof raw !== 'string') return undefined;
+  const v = raw.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1').trim();
+  return v.length ? v : undefined;
+}
+
+export function revisionMatches(ifMatch: string, current: RevisionSource | undefined): boolean {
+  if(!current) return false;
+  return ifMatch === '*' || ifMatch === computeRevisionToken(current);
+}
+
+/** Token map for a list of entries (attached to list / export style reads). */
+export function revisionsFor(items: (RevisionSource & { id: string })[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for(const e of items) out[e.id] = computeRevisionToken(e);
+  return out;
+}
+
+/**
+ * Verify every supplied precondition against the loaded catalog; throws a single PRECONDITION_FAILED
+ * semantic error listing all stale ids so a multi-entry write is rejected before anything is written.
+ */
+export function assertRevisions(checks: { id: string; ifMatch: unknown }[]): void {
+  const conflicts: RevisionConflict[] = [];
+  let st: ReturnType<typeof ensureLoaded> | undefined;
+  for(const c of checks){
+    const ifMatch = normalizeIfMatch(c.ifMatch);
+    if(!ifMatch) continue;
+    st = st || ensureLoaded();
+    const current = st.byId.get(c.id);
+    if(!revisionMatches(ifMatch, current)) conflicts.push({ id: c.id, ifMatch, currentRevision: current ? computeRevisionToken(current) : null });
+  }
+  if(!conflicts.length) return;
+  const first = conflicts[0];
+  const reason = first.currentRevision === null ? 'record_missing' : 'stale_revision';
+  const message = conflicts.length === 1 ? `Revision mismatch for ${first.id}` : `Revision mismatch for ${conflicts.length} entries`;
+  semanticError(PRECONDITION_FAILED, message, { reason, id: first.id, currentRevision: first.currentRevision, conflicts });
+}
+
+export function assertRevision(id: string, ifMatch: unknown): void { assertRevisions([{ id, ifMatch }]); }
@@ -0,0 +1,332 @@
+/**
+ * BM25 full-text index over the instruction catalog (title / body / categories).
+ *
+ * The index is created lazily on the first full-text query and then kept in step with the catalog:
+ *  - catalogContext calls noteCatalogLoaded() after every (re)load; an existing index diffs entries by a
+ *    cheap signature (sourceHash, body length, title, categories, owner) and re-tokenizes only changes.
+ *  - writeEntry()/removeEntry() forward single-entry upserts / removals.
+ *  - As a safety net getFullTextIndex() re-syncs whenever it is handed a different catalog list (or one
+ *    whose length no longer matches), covering late-materialization paths that push into st.list.
+ *
+ * Query syntax (parseFullTextQuery): bare terms (OR, ranked), "quoted phrases" (required), -term /
+ * -"phrase" exclusions, and field qualifiers title:term, category:name, owner:name (required filters).
+ * Terms are lower-cased and Porter-stemmed on both sides.
+ */
+import { InstructionEntry } from '../models/instruction';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { stem } from './porterStemmer';
+
+export type FullTextField = 'title' | 'body' | 'categories';
+const FIELDS: FullTextField[] = ['title','body','categories'];
+const TITLE = 0, BODY = 1, CATEGORIES = 2;
+const ALL = new Set([TITLE, BODY, CATEGORIES]);
+const METADATA = new Set([TITLE, CATEGORIES]);
+
+// Dropped from bare (unquoted) query terms only; documents index every token so phrases still match.
+const QUERY_STOPWORDS = new Set(['a','an','and','are','as','at','be','by','for','from','how','in','is','it','of','on','or','that','the','this','to','was','what','when','with']);
+
+export interface Token { term: string; start: number; end: number }
+
+const TOKEN_RE = /[\p{L}\p{N}]+/gu;
+
+export function normalizeTerm(raw: string): string {
+  const lower = raw.toLowerCase();
+  return /^[a-z]+$/.test(lower) ? stem(lower) : lower;
+}
+
+export function tokenize(text: string): Token[] {
+  const out: Token[] = [];
+  for(const m of (text || '').matchAll(TOKEN_RE)){
+    const start = m.index ?? 0;
+    out.push({ term: normalizeTerm(m[0]), start, end: start + m[0].length });
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Query parsing
+// ---------------------------------------------------------------------------
+export type QueryQualifier = 'title' | 'category' | 'owner';
+export interface QueryClause {
+  raw: string;
+  negate: boolean;
+  field?: QueryQualifier;
+  /** Stemmed terms (text clauses) – empty for category / owner filters. */
+  terms: string[];
+  /** Required contiguous match (quoted, or an unquoted token that splits into several terms). */
+  phrase: boolean;
+  /** Lower-cased literal for category / owner filters. */
+  value?: string;
+}
+export interface ParsedQuery { clauses: QueryClause[] }
+
+const CLAUSE_RE = /(-)?(?:(title|category|owner):)?(?:"([^"]*)"?|(\S+))/gi;
+
+export function parseFullTextQuery(q: string): ParsedQuery {
+  const clauses: QueryClause[] = [];
+  for(const m of (q || '').matchAll(CLAUSE_RE)){
+    const negate = !!m[1];
+    const field = m[2] ? m[2].toLowerCase() as QueryQualifier : undefined;
+    const quoted = m[3] !== undefined;
+    const raw = (quoted ? m[3] : m[4] || '').trim();
+    if(!raw) continue;
+    if(field === 'category' || field === 'owner'){
+      clauses.push({ raw, negate, field, terms: [], phrase: false, value: raw.toLowerCase() });
+      continue;
+    }
+    const terms = tokenize(raw).map(t => t.term);
+    if(!terms.length) continue;
+    if(!quoted && !negate && !field && terms.length === 1 && QUERY_STOPWORDS.has(raw.toLowerCase())) continue;
+    clauses.push({ raw, negate, field, terms, phrase: quoted || terms.length > 1 });
+  }
+  return { clauses };
+}
+
+// ---------------------------------------------------------------------------
+// Index
+// ---------------------------------------------------------------------------
+interface IndexedDoc {
+  id: string;
+  signature: string;
+  tokens: [string[], string[], string[]];
+  categories: string[];
+  owner: string;
+}
+
+export interface FullTextHit {
+  id: string;
+  score: number;
+  matchedFields: FullTextField[];
+  /** Positive terms that matched (used for snippet highlighting). */
+  terms: string[];
+}
+
+export interface FullTextSearchOptions {
+  /** Fields contributing to the score for bare / phrase clauses (default all). */
+  fields?: FullTextField[];
+  limit?: number;
+  /** Per-document visibility for the caller: 'none' skips it, 'metadata' matches title / categories / owner only (default 'full'). */
+  visibility?: (id: string) => 'full' | 'metadata' | 'none';
+}
+
+export interface FullTextSyncSummary { added: number; updated: number; removed: number }
+
+function signature(e: InstructionEntry){
+  return `${e.sourceHash}|${(e.body||'').length}|${e.title}|${(e.categories||[]).join(',')}|${e.owner||''}`;
+}
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  outer: for(let i=0;i+phrase.length<=tokens.length;i++){
+    for(let k=0;k<phrase.length;k++){ if(tokens[i+k] !== phrase[k]) continue outer; }
+    return true;
+  }
+  return false;
+}
+
+export class FullTextIndex {
+  private docs = new Map<string, IndexedDoc>();
+  private postings = new Map<string, Map<string, [number, number, number]>>();
+  private lengthSums: [number, number, number] = [0, 0, 0];
+
+  get size(){ return this.docs.size; }
+  get termCount(){ return this.postings.size; }
+
+  upsert(e: InstructionEntry){
+    const sig = signature(e);
+    const existing = this.docs.get(e.id);
+    if(existing && existing.signature === sig) return false;
+    if(existing) this.remove(e.id);
+    const categories = (e.categories || []).map(c => String(c).toLowerCase());
+    const doc: IndexedDoc = {
+      id: e.id,
+      signature: sig,
+      tokens: [tokenize(e.title || '').map(t => t.term), tokenize(e.body || '').map(t => t.term), tokenize(categories.join(' ')).map(t => t.term)],
+      categories,
+      owner: (e.owner || '').toLowerCase()
+    };
+    this.docs.set(e.id, doc);
+    doc.tokens.forEach((tokens, f) => {
+      this.lengthSums[f] += tokens.length;
+      for(const term of tokens){
+        let byDoc = this.postings.get(term);
+        if(!byDoc){ byDoc = new Map(); this.postings.set(term, byDoc); }
+        let tf = byDoc.get(e.id);
+        if(!tf){ tf = [0, 0, 0]; byDoc.set(e.id, tf); }
+        tf[f]++;
+      }
+    });
+    return true;
+  }
+
+  remove(id: string){
+    const doc = this.docs.get(id);
+    if(!doc) return false;
+    doc.tokens.forEach((tokens, f) => {
+      this.lengthSums[f] -= tokens.length;
+      for(const term of new Set(tokens)){
+        const byDoc = this.postings.get(term);
+        if(!byDoc) continue;
+        byDoc.delete(id);
+        if(!byDoc.size) this.postings.delete(term);
+      }
+    });
+    this.docs.delete(id);
+    return true;
+  }
+
+  /** Bring the index in line with a catalog snapshot, touching only added / changed / removed entries. */
+  sync(list: InstructionEntry[]): FullTextSyncSummary {
+    const summary: FullTextSyncSummary = { added: 0, updated: 0, removed: 0 };
+    const seen = new Set<string>();
+    for(const e of list){
+      seen.add(e.id);
+      const had = this.docs.has(e.id);
+      if(this.upsert(e)){ if(had) summary.updated++; else summary.added++; }
+    }
+    for(const id of Array.from(this.docs.keys())){
+      if(!seen.has(id)){ this.remove(id); summary.removed++; }
+    }
+    return summary;
+  }
+
+  search(query: ParsedQuery, opts: FullTextSearchOptions = {}): FullTextHit[] {
+    const cfg = getRuntimeConfig().search.fulltext;
+    const scored = new Set<number>((opts.fields || FIELDS).map(f => FIELDS.indexOf(f)));
+    const scoredMetadata = new Set(Array.from(scored).filter(f => f !== BODY));
+    const boosts = [cfg.titleBoost, 1, cfg.categoryBoost];
+    const n = this.docs.size || 1;
+    const avg = this.lengthSums.map(s => Math.max(1, s / n));
+
+    const text = query.clauses.filter(c => !c.negate && c.terms.length);
+    const filters = query.clauses.filter(c => !c.negate && c.value !== undefined);
+    const negatives = query.clauses.filter(c => c.negate);
+
+    let candidates: Iterable<string>;
+    if(text.length){
+      const ids = new Set<string>();
+      for(const c of text){ for(const t of c.terms){ const byDoc = this.postings.get(t); if(byDoc) for(const id of byDoc.keys()) ids.add(id); } }
+      candidates = ids;
+    } else if(filters.length){
+      candidates = this.docs.keys();
+    } else {
+      return [];
+    }
+
+    const hits: FullTextHit[] = [];
+    for(const id of candidates){
+      const doc = this.docs.get(id)!;
+      const visibility = opts.visibility ? opts.visibility(id) : 'full';
+      if(visibility === 'none') continue;
+      const docScored = visibility === 'metadata' ? scoredMetadata : scored;
+      if(!filters.every(c => c.field === 'category' ? doc.categories.includes(c.value!) : doc.owner === c.value)) continue;
+      if(negatives.some(c => this.clauseMatches(doc, c, visibility === 'metadata' ? METADATA : ALL))) continue;
+      if(!text.filter(c => c.phrase || c.field === 'title').every(c => this.clauseMatches(doc, c, docScored))) continue;
+
+      let score = 0;
+      const matched = new Set<FullTextField>();
+      const matchedTerms = new Set<string>();
+      for(const c of text){
+        const fields = c.field === 'title' ? [TITLE] : Array.from(docScored);
+        for(const term of c.terms){
+          const byDoc = this.postings.get(term);
+          const tf = byDoc?.get(id);
+          if(!tf) continue;
+          const idf = Math.log(1 + (n - byDoc!.size + 0.5) / (byDoc!.size + 0.5));
+          for(const f of fields){
+            if(!tf[f]) continue;
+            const norm = tf[f] + cfg.k1 * (1 - cfg.b + cfg.b * doc.tokens[f].length / avg[f]);
+            score += boosts[f] * idf * (tf[f] * (cfg.k1 + 1)) / norm;
+            matched.add(FIELDS[f]);
+            matchedTerms.add(term);
+          }
+        }
+      }
+      if(text.length && score <= 0) continue;
+      hits.push({ id, score, matchedFields: FIELDS.filter(f => matched.has(f)), terms: Array.from(matchedTerms) });
+    }
+    hits.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+    return opts.limit !== undefined ? hits.slice(0, opts.limit) : hits;
+  }
+
+  private clauseMatches(doc: IndexedDoc, c: QueryClause, searchable: Set<number>): boolean {
+    if(c.field === 'category') return doc.categories.includes(c.value!);
+    if(c.field === 'owner') return doc.owner === c.value;
+    const fields = c.field === 'title' ? [TITLE] : Array.from(searchable);
+    return fields.some(f => c.phrase ? containsPhrase(doc.tokens[f], c.terms) : c.terms.every(t => doc.tokens[f].includes(t)));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Snippets
+// ---------------------------------------------------------------------------
+export interface SearchSnippet {
+  field: 'title' | 'body';
+  text: string;
+  /** [start, end) character ranges within `text` to highlight. */
+  highlights: [number, number][];
+}
+
+/** Best window of the body (falling back to the title) containing the most matched terms. */
+export function buildSnippet(entry: InstructionEntry, terms: string[], maxChars = getRuntimeConfig().search.fulltext.snippetChars): SearchSnippet {
+  const want = new Set(terms);
+  const bodyTokens = tokenize(entry.body || '').filter(t => want.has(t.term));
+  const field: SearchSnippet['field'] = bodyTokens.length || !want.size ? 'body' : 'title';
+  const source = (field === 'body' ? entry.body : entry.title) || '';
+  const matches = field === 'body' ? bodyTokens : tokenize(source).filter(t => want.has(t.term));
+  let start = 0;
+  if(matches.length){
+    let best = 0; let bestCount = -1;
+    for(let k=0;k<matches.length;k++){
+      let count = 0;
+      for(let j=k;j<matches.length && matches[j].end - matches[k].start <= maxChars;j++) count++;
+      if(count > bestCount){ best = k; bestCount = count; }
+    }
+    start = Math.max(0, matches[best].start - Math.floor(maxChars / 8));
+    if(start > 0){ const ws = source.lastIndexOf(' ', matches[best].start); if(ws >= start) start = ws + 1; }
+  }
+  const end = Math.min(source.length, start + maxChars);
+  const prefix = start > 0 ? '…' : '';
+  const text = prefix + source.slice(start, end).replace(/\s/g, ' ') + (end < source.length ? '…' : '');
+  const highlights: [number, number][] = matches
+    .filter(t => t.start >= start && t.end <= end)
+    .map(t => [t.start - start + prefix.length, t.end - start + prefix.length]);
+  return { field, text, highlights };
+}
+
+// ---------------------------------------------------------------------------
+// Catalog-bound singleton
+// ---------------------------------------------------------------------------
+let index: FullTextIndex | null = null;
+let syncedList: InstructionEntry[] | null = null;
+let lastSync: FullTextSyncSummary | null = null;
+
+/** Hook: catalog (re)loaded. Only maintains an index that already exists (first query builds it). */
+export function noteCatalogLoaded(list: InstructionEntry[]){
+  if(!index) return;
+  lastSync = index.sync(list);
+  syncedList = list;
+}
+// Writes to a catalog other than the indexed one (another tenant) are picked up by the next sync instead.
+export function noteEntryWritten(entry: InstructionEntry, list?: InstructionEntry[]){ if(index && (!list || list === syncedList)) index.upsert(entry); }
+export function noteEntryRemoved(id: string, list?: InstructionEntry[]){ if(index && (!list || list === syncedList)) index.remove(id); }
+
+export function getFullTextIndex(list: InstructionEntry[]): FullTextIndex {
+  if(!index) index = new FullTextIndex();
+  if(list !== syncedList || list.length !== index.size){
+    lastSync = index.sync(list);
+    syncedList = list;
+  }
+  return index;
+}
+
+export function getFullTextIndexStats(){
+  return { docs: index?.size ?? 0, terms: index?.termCount ?? 0, lastSync };
+}
+
+/** Convenience: parse + search against the given catalog list. */
+export function searchFullText(list: InstructionEntry[], q: string, opts: FullTextSearchOptions = {}): FullTextHit[] {
+  return getFullTextIndex(list).search(parseFullTextQuery(q), opts);
+}
+
+/** Test helper: discard the in-memory index. */
+export function __resetFullTextIndex(){ index = null; syncedList = null; lastSync = null; }
@@ -0,0 +1,167 @@
+/**
+ * Persistent vector store backing semantic / hybrid instructions/search.
+ *
+ * Vectors live next to the catalog in `<instructionsDir>/.search/vectors.<provider>.json` (a dot
+ * directory, so the catalog loader never treats it as an instruction file). Each stored vector is keyed
+ * by instruction id and carries the entry's sourceHash plus a short hash of the title/categories it was
+ * computed from; syncVectors() re-embeds only entries whose sourceHash (or title/categories) changed and
+ * drops ids no longer in the catalog. A provider id/version/dimension change discards the whole file.
+ */
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { ensureLoaded, getInstructionsDir } from './catalogContext';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { InstructionEntry } from '../models/instruction';
+import { EmbeddingProvider, SparseVector, getEmbeddingProvider } from './embeddingProviders';
+import { logWarn } from './logger';
+
+interface StoredVector extends SparseVector { sourceHash: string; metaHash: string }
+interface VectorFile {
+  version: 1;
+  provider: string;
+  providerVersion: string;
+  dimensions: number;
+  updatedAt: string;
+  entries: Record<string, StoredVector>;
+}
+
+interface IndexState {
+  file: string;
+  data: VectorFile;
+  // Derived lazily per generation (recomputed after any re-embed)
+  idf: Map<number, number> | null;
+  norms: Map<string, number> | null;
+}
+
+let state: IndexState | null = null;
+let syncing: Promise<SyncSummary> | null = null;
+
+export interface SyncSummary { embedded: number; removed: number; total: number; persisted: boolean }
+
+function vectorFilePath(provider: EmbeddingProvider){
+  return path.join(getInstructionsDir(), '.search', `vectors.${provider.id}.json`);
+}
+
+function metaHash(e: InstructionEntry){
+  return crypto.createHash('sha1').update(`${e.title}\u0000${(e.categories||[]).join(',')}`,'utf8').digest('hex').slice(0,12);
+}
+
+/** Text representation fed to the provider (title repeated to weight it above body prose). */
+export function embeddingText(e: InstructionEntry){
+  return `${e.title}\n${e.title}\n${(e.categories||[]).join(' ')}\n${e.body}`;
+}
+
+function emptyFile(provider: EmbeddingProvider): VectorFile {
+  return { version: 1, provider: provider.id, providerVersion: provider.version, dimensions: provider.dimensions, updatedAt: new Date().toISOString(), entries: {} };
+}
+
+function loadFile(file: string, provider: EmbeddingProvider): VectorFile {
+  try {
+    if(fs.existsSync(file)){
+      const raw = JSON.parse(fs.readFileSync(file,'utf8')) as VectorFile;
+      if(raw && raw.version === 1 && raw.provider === provider.id && raw.providerVersion === provider.version && raw.dimensions === provider.dimensions && raw.entries && typeof raw.entries === 'object'){
+        return raw;
+      }
+    }
+  } catch(err){ logWarn('[search] vector store unreadable, rebuilding', { file, error: (err as Error).message }); }
+  return emptyFile(provider);
+}
+
+function persist(s: IndexState){
+  // Compact JSON (vectors can be large); temp file + rename keeps readers from seeing partial writes.
+  const dir = path.dirname(s.file);
+  if(!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  const tmp = `${s.file}.${process.pid}.${Date.now()}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(s.data));
+  fs.renameSync(tmp, s.file);
+}
+
+/** Bring stored vectors in line with the current catalog (embedding only stale / missing entries). */
+export function syncVectors(): Promise<SyncSummary> {
+  if(syncing) return syncing;
+  syncing = (async () => {
+    const provider = getEmbeddingProvider();
+    const file = vectorFilePath(provider);
+    if(!state || state.file !== file || state.data.provider !== provider.id || state.data.dimensions !== provider.dimensions){
+      state = { file, data: loadFile(file, provider), idf: null, norms: null };
+    }
+    const s = state;
+    const catalog = ensureLoaded();
+    const stale: InstructionEntry[] = [];
+    for(const e of catalog.list){
+      const cur = s.data.entries[e.id];
+      if(!cur || cur.sourceHash !== e.sourceHash || cur.metaHash !== metaHash(e)) stale.push(e);
+    }
+    let removed = 0;
+    for(const id of Object.keys(s.data.entries)){
+      if(!catalog.byId.has(id)){ delete s.data.entries[id]; removed++; }
+    }
+    if(stale.length){
+      const vectors = await Promise.resolve(provider.embed(stale.map(embeddingText)));
+      stale.forEach((e, k) => { s.data.entries[e.id] = { sourceHash: e.sourceHash, metaHash: metaHash(e), i: vectors[k].i, v: vectors[k].v }; });
+    }
+    let persisted = false;
+    if(stale.length || removed){
+      s.idf = null; s.norms = null;
+      s.data.updatedAt = new Date().toISOString();
+      if(getRuntimeConfig().search.semantic.persistVectors){
+        try { persist(s); persisted = true; } catch(err){ logWarn('[search] vector store persist failed', { file: s.file, error: (err as Error).message }); }
+      }
+    }
+    return { embedded: stale.length, removed, total: Object.keys(s.data.entries).length, persisted };
+  })();
+  return syncing.finally(() => { syncing = null; });
+}
+
+function ensureWeights(s: IndexState, provider: EmbeddingProvider){
+  if(s.idf && s.norms) return;
+  const idf = new Map<number, number>();
+  const ids = Object.keys(s.data.entries);
+  if(provider.idfWeighting){
+    const df = new Map<number, number>();
+    for(const id of ids){ for(const i of s.data.entries[id].i) df.set(i, (df.get(i)||0)+1); }
+    const n = ids.length;
+    for(const [i, d] of df) idf.set(i, Math.log((n + 1) / (d + 1)) + 1);
+  }
+  const weight = (i: number) => provider.idfWeighting ? (idf.get(i) ?? 1) : 1;
+  const norms = new Map<string, number>();
+  for(const id of ids){
+    const vec = s.data.entries[id];
+    let sum = 0;
+    for(let k=0;k<vec.i.length;k++){ const w = vec.v[k]*weight(vec.i[k]); sum += w*w; }
+    norms.set(id, Math.sqrt(sum) || 1);
+  }
+  s.idf = idf; s.norms = norms;
+}
+
+/**
+ * Cosine similarity (IDF-weighted for bag-of-features providers) between the query text and every
+ * catalog entry. Returns id -> similarity in [-1, 1]; callers apply their own threshold.
+ */
+export async function semanticSimilarities(query: string): Promise<Map<string, number>> {
+  await syncVectors();
+  const provider = getEmbeddingProvider();
+  const s = state!;
+  ensureWeights(s, provider);
+  const [q] = await Promise.resolve(provider.embed([query]));
+  const idf = s.idf!;
+  const weight = (i: number) => provider.idfWeighting ? (idf.get(i) ?? 1) : 1;
+  const qWeighted = new Map<number, number>();
+  let qNorm = 0;
+  for(let k=0;k<q.i.length;k++){ const w = q.v[k]*weight(q.i[k]); qWeighted.set(q.i[k], w); qNorm += w*w; }
+  qNorm = Math.sqrt(qNorm) || 1;
+  const out = new Map<string, number>();
+  for(const [id, vec] of Object.entries(s.data.entries)){
+    let dot = 0;
+    for(let k=0;k<vec.i.length;k++){
+      const qw = qWeighted.get(vec.i[k]);
+      if(qw !== undefined) dot += qw * vec.v[k] * weight(vec.i[k]);
+    }
+    if(dot !== 0) out.set(id, dot / (qNorm * (s.norms!.get(id) || 1)));
+  }
+  return out;
+}
+
+/** Test helper: drop in-memory vectors so the next call reloads from disk. */
+export function __resetSemanticIndex(){ state = null; syncing = null; }
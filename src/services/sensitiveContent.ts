@@ -0,0 +1,108 @@
+/**
+ * Detectors for secrets, personal data and internal infrastructure names in free text (prompt/review rules,
+ * ingest scanning, integrity/scan).
+ *
+ * Each detector is a global regex plus an optional validator for candidates that need a second look
+ * (Luhn for card numbers, Shannon entropy for unlabelled key material, placeholder domains and secret-store
+ * references). Matches carry offsets so callers can redact in place.
+ */
+
+export type SensitiveClass = 'secret' | 'pii' | 'internal';
+export interface SensitiveMatch { kind: string; class: SensitiveClass; start: number; end: number; value: string }
+export interface SensitiveOptions {
+  internalDomains?: string[];   // hostname suffixes treated as internal (default internal, corp, lan, intranet)
+  minEntropy?: number;          // bits per character for the high-entropy detector (default 4)
+}
+interface Detector { kind: string; class: SensitiveClass; pattern: RegExp; validate?: (value: string, opts: SensitiveOptions) => boolean }
+
+export const DEFAULT_INTERNAL_DOMAINS = ['internal', 'corp', 'lan', 'intranet'];
+
+function luhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if(digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for(let i = 0; i < digits.length; i++){
+    let d = Number(digits[digits.length - 1 - i]);
+    if(i % 2 === 1){ d *= 2; if(d > 9) d -= 9; }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for(const ch of value) counts.set(ch, (counts.get(ch) || 0) + 1);
+  let bits = 0;
+  for(const n of counts.values()){ const p = n / value.length; bits -= p * Math.log2(p); }
+  return bits;
+}
+
+// Unlabelled key material: long mixed-case alphanumeric runs with digits. Requiring both cases keeps hex digests
+// and commit ids out; camelCase identifiers switch between upper / lower / digit far less often than random text.
+function highEntropy(value: string, opts: SensitiveOptions): boolean {
+  if(!/[a-z]/.test(value) || !/[A-Z]/.test(value) || (value.match(/\d/g) || []).length < 2) return false;
+  const runs = value.match(/[a-z]+|[A-Z]+|\d+|[^a-zA-Z\d]+/g) || [];
+  if(value.length / runs.length >= 3 || runs.some(r => r.length >= 6 && /^[a-z]/.test(r))) return false;
+  return shannonEntropy(value) >= (opts.minEntropy ?? 4);
+}
+
+// Assignments that point at a secret store or variable instead of holding the value
+function literalCredential(value: string): boolean {
+  const assigned = value.replace(/^[^:=]*[:=]\s*["']?/, '');
+  return !/^(?:\$|<|\{|%|process\.env|os\.environ|env\.|Get-)/i.test(assigned);
+}
+
+// RFC 2606 / 6761 reserved names are documentation placeholders, not personal data
+function realEmail(value: string): boolean {
+  return !/@(?:(?:[\w-]+\.)*example\.(?:com|org|net)|(?:[\w-]+\.)+(?:example|test|invalid|localhost))$/i.test(value);
+}
+
+const DETECTORS: Detector[] = [
+  { kind: 'private-key', class: 'secret', pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z]+ )?PRIVATE KEY-----|$)/g },
+  { kind: 'aws-access-key', class: 'secret', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'github-token', class: 'secret', pattern: /\b(?:ghp|gho|ghu|ghs|ghr)_[0-9A-Za-z]{36}\b|\bgithub_pat_[0-9A-Za-z_]{22,}\b/g },
+  { kind: 'slack-token', class: 'secret', pattern: /\bxox[abposr]-[0-9A-Za-z-]{10,}\b/g },
+  { kind: 'api-key', class: 'secret', pattern: /\bsk-(?:proj-|live-)?[0-9A-Za-z_-]{20,}\b|\b[sr]k_live_[0-9A-Za-z]{20,}\b|\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'jwt', class: 'secret', pattern: /\beyJ[0-9A-Za-z_-]{8,}\.eyJ[0-9A-Za-z_-]{8,}\.[0-9A-Za-z_-]{8,}\b/g },
+  { kind: 'credential-assignment', class: 'secret', pattern: /\b(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?token|client[_-]?secret)\b\s*[:=]\s*["']?[^\s"']{6,}/gi, validate: literalCredential },
+  { kind: 'email', class: 'pii', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, validate: realEmail },
+  { kind: 'us-ssn', class: 'pii', pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+  { kind: 'credit-card', class: 'pii', pattern: /\b(?:\d[ -]?){12,18}\d\b/g, validate: luhn },
+  { kind: 'phone', class: 'pii', pattern: /(?<![\w+])\+?\d{1,3}[ .-]?\(?\d{3}\)?[ .-]\d{3}[ .-]\d{4}\b/g },
+  { kind: 'private-ip', class: 'internal', pattern: /\b(?:10(?:\.\d{1,3}){3}|192\.168(?:\.\d{1,3}){2}|172\.(?:1[6-9]|2\d|3[01])(?:\.\d{1,3}){2})\b/g }
+];
+// checked last so named detectors claim known formats first
+const HIGH_ENTROPY: Detector = { kind: 'high-entropy', class: 'secret', pattern: /(?<![\w+/=-])[A-Za-z0-9+_-]{24,}={0,2}(?![\w+/=-])/g, validate: highEntropy };
+
+function internalHostDetector(domains: string[]): Detector | undefined {
+  const suffixes = domains.map(d => d.trim().replace(/^\.+/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).filter(Boolean);
+  if(!suffixes.length) return undefined;
+  return { kind: 'internal-host', class: 'internal', pattern: new RegExp(`\\b(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\\.)+(?:${suffixes.join('|')})\\b(?![.-]?\\w)`, 'gi') };
+}
+
+/** Every sensitive match in text, ordered by position; overlapping matches keep the earliest detector hit. */
+export function findSensitive(text: string, classes: SensitiveClass[] = ['secret', 'pii'], opts: SensitiveOptions = {}): SensitiveMatch[] {
+  const found: SensitiveMatch[] = [];
+  const internalHost = internalHostDetector(opts.internalDomains ?? DEFAULT_INTERNAL_DOMAINS);
+  const detectors = [...DETECTORS, ...(internalHost ? [internalHost] : []), HIGH_ENTROPY];
+  for(const d of detectors){
+    if(!classes.includes(d.class)) continue;
+    d.pattern.lastIndex = 0;
+    for(const m of text.matchAll(d.pattern)){
+      const value = m[0]; const start = m.index ?? 0;
+      if(d.validate && !d.validate(value, opts)) continue;
+      if(found.some(f => start < f.end && start + value.length > f.start)) continue;
+      found.push({ kind: d.kind, class: d.class, start, end: start + value.length, value });
+    }
+  }
+  return found.sort((a, b) => a.start - b.start);
+}
+
+/** Short preview safe to return or log: long values keep only the first four and last two characters. */
+export function maskSensitive(value: string): string {
+  return value.length > 12 ? `${value.slice(0, 4)}…${value.slice(-2)}` : value;
+}
+
+export function redactionFor(match: Pick<SensitiveMatch, 'kind'>): string {
+  return `[REDACTED:${match.kind}]`;
+}
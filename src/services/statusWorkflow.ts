@@ -0,0 +1,103 @@
+import { ApprovalRecord, InstructionEntry } from '../models/instruction';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+
+/**
+ * Lifecycle state machine for `InstructionEntry.status` (draft -> review -> approved, deprecated from anywhere).
+ *
+ * Approvals are collected on the entry while it is in review; entering review starts a new round. The number
+ * required comes from the entry's priorityTier (MCP_APPROVALS_REQUIRED) and, when MCP_APPROVERS is set, only
+ * listed ids may approve. Authors (createdByAgent) never approve their own entries. With MCP_STATUS_WORKFLOW=0
+ * status changes are free-form again and approvals are only recorded.
+ */
+
+export type InstructionStatus = NonNullable<InstructionEntry['status']>;
+
+export const STATUS_TRANSITIONS: Record<InstructionStatus, InstructionStatus[]> = {
+  draft: ['review', 'deprecated'],
+  review: ['approved', 'draft', 'deprecated'],
+  approved: ['review', 'deprecated'],
+  deprecated: ['draft']
+};
+
+export type WorkflowError = 'invalid_transition' | 'approvals_required' | 'not_in_review' | 'approver_required' | 'not_an_approver' | 'self_approval' | 'already_approved';
+export interface WorkflowRejection { error: WorkflowError; from?: InstructionStatus; to?: InstructionStatus; allowed?: InstructionStatus[]; required?: number; approvals?: number }
+
+export function currentStatus(entry: InstructionEntry): InstructionStatus {
+  return entry.status || 'approved';
+}
+
+export function requiredApprovals(entry: InstructionEntry): number {
+  return getRuntimeConfig().instructions.workflow.approvalsByTier[entry.priorityTier || 'P4'];
+}
+
+/** Check a status change; returns undefined when allowed. */
+export function checkTransition(entry: InstructionEntry, to: InstructionStatus): WorkflowRejection | undefined {
+  if(!getRuntimeConfig().instructions.workflow.enforce) return undefined;
+  const from = currentStatus(entry);
+  if(from === to) return undefined;
+  if(!STATUS_TRANSITIONS[from].includes(to)) return { error: 'invalid_transition', from, to, allowed: STATUS_TRANSITIONS[from] };
+  if(to === 'approved'){
+    const required = requiredApprovals(entry); const approvals = (entry.approvals || []).length;
+    if(approvals < required) return { error: 'approvals_required', from, to, required, approvals };
+  }
+  return undefined;
+}
+
+/** Move an entry to a new status: entering review clears the previous approval round; the change is logged. */
+export function applyTransition(entry: InstructionEntry, to: InstructionStatus, now: string): InstructionEntry {
+  const from = currentStatus(entry);
+  if(from === to) return entry;
+  return {
+    ...entry,
+    status: to,
+    approvals: to === 'review' ? [] : entry.approvals,
+    changeLog: [...(entry.changeLog || []), { version: entry.version || '1.0.0', changedAt: now, summary: `status ${from} -> ${to}` }],
+    updatedAt: now
+  };
+}
+
+/**
+ * Status requested through a content write (add / import / bundle import). A change on an existing entry goes
+ * through the state machine from the stored record (its approvals, not the caller's); a new entry is treated as
+ * a draft, so asking for approved without enough approvals leaves it in draft.
+ */
+export function statusForWrite(record: InstructionEntry, prior: InstructionEntry | undefined, requested: InstructionStatus | undefined, now: string): InstructionEntry | WorkflowRejection {
+  if(!requested || !getRuntimeConfig().instructions.workflow.enforce) return record;
+  if(!prior) return checkTransition({ ...record, status: 'draft', approvals: [] }, requested) ? { ...record, status: 'draft', approvals: undefined } : record;
+  const rejected = checkTransition(prior, requested);
+  if(rejected) return rejected;
+  return applyTransition({ ...record, status: currentStatus(prior), approvals: prior.approvals }, requested, now);
+}
+
+/**
+ * Record one approval on an entry in review. Once the tier's required count is reached the entry moves to
+ * approved (the caller persists the returned record).
+ */
+export function recordApproval(entry: InstructionEntry, approver: string | undefined, opts: { comment?: string; now: string }): { record: InstructionEntry; approved: boolean; required: number } | WorkflowRejection {
+  const cfg = getRuntimeConfig().instructions.workflow;
+  if(currentStatus(entry) !== 'review') return { error: 'not_in_review', from: currentStatus(entry) };
+  if(!approver) return { error: 'approver_required' };
+  if(cfg.approvers.length && !cfg.approvers.includes(approver)) return { error: 'not_an_approver' };
+  if(entry.createdByAgent && entry.createdByAgent === approver) return { error: 'self_approval' };
+  if((entry.approvals || []).some(a => a.approver === approver)) return { error: 'already_approved' };
+  const approval: ApprovalRecord = { approver, approvedAt: opts.now, version: entry.version, ...(opts.comment ? { comment: opts.comment } : {}) };
+  let record: InstructionEntry = { ...entry, approvals: [...(entry.approvals || []), approval], updatedAt: opts.now };
+  const required = requiredApprovals(entry);
+  const approved = record.approvals!.length >= required;
+  if(approved) record = applyTransition(record, 'approved', opts.now);
+  return { record, approved, required };
+}
+
+/** Agent-created entries awaiting approval are left out of default list / search results. */
+export function isHeldDraft(entry: InstructionEntry): boolean {
+  return !!entry.createdByAgent && (entry.status === 'draft' || entry.status === 'review') && getRuntimeConfig().instructions.workflow.holdAgentDrafts;
+}
+
+/** Status for a write made as an agent (MCP_AGENT_ID): new entries start in draft and the write cannot approve. */
+export function holdAgentDraft(record: InstructionEntry, priorStatus: InstructionEntry['status'] | undefined): InstructionEntry {
+  const { agentId, workflow } = getRuntimeConfig().instructions;
+  if(!workflow.holdAgentDrafts || !agentId || record.status === 'deprecated') return record;
+  if(priorStatus === undefined) return { ...record, status: 'draft' };
+  if(record.status === 'approved' && priorStatus !== 'approved') return { ...record, status: priorStatus };
+  return record;
+}
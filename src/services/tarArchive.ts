@@ -0,0 +1,46 @@
+/**
+ * Minimal ustar writer / reader shared by catalog backups (catalogBackup.ts) and instruction bundles
+ * (catalogBundle.ts). Regular files only, names up to 100 bytes (no prefix / long-name extensions);
+ * callers gzip the result.
+ */
+
+export function tarPack(files: { name: string; data: Buffer }[], mtime: Date): Buffer {
+  const blocks: Buffer[] = [];
+  const octal = (n: number, len: number) => n.toString(8).padStart(len - 1, '0') + '\0';
+  for(const f of files){
+    if(Buffer.byteLength(f.name, 'utf8') > 100) throw new Error(`tar entry name too long: ${f.name}`);
+    const header = Buffer.alloc(512);
+    header.write(f.name, 0, 100, 'utf8');
+    header.write(octal(0o644, 8), 100);
+    header.write(octal(0, 8), 108);
+    header.write(octal(0, 8), 116);
+    header.write(octal(f.data.length, 12), 124);
+    header.write(octal(Math.floor(mtime.getTime() / 1000), 12), 136);
+    header.fill(' ', 148, 156);
+    header.write('0', 156);
+    header.write('ustar\0', 257);
+    header.write('00', 263);
+    let sum = 0; for(const b of header) sum += b;
+    header.write(`${sum.toString(8).padStart(6, '0')}\0 `, 148);
+    blocks.push(header, f.data, Buffer.alloc((512 - f.data.length % 512) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+export function tarUnpack(buf: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  const field = (h: Buffer, start: number, end: number) => h.toString('utf8', start, end).split('\0')[0].trim();
+  let off = 0;
+  while(off + 512 <= buf.length){
+    const header = buf.subarray(off, off + 512);
+    if(header.every(b => b === 0)) break;
+    let sum = 0; for(let i = 0; i < 512; i++) sum += i >= 148 && i < 156 ? 32 : header[i];
+    if(parseInt(field(header, 148, 156), 8) !== sum) throw new Error(`corrupt tar header at offset ${off}`);
+    const size = parseInt(field(header, 124, 136) || '0', 8);
+    if(off + 512 + size > buf.length) throw new Error(`truncated tar entry ${field(header, 0, 100)}`);
+    files.set(field(header, 0, 100), buf.subarray(off + 512, off + 512 + size));
+    off += 512 + Math.ceil(size / 512) * 512;
+  }
+  return files;
+}
@@ -0,0 +1,77 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs';
+import path from 'path';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+
+/**
+ * Tenant selection for multi-tenant catalogs (MCP_MULTI_TENANT).
+ *
+ * Each tenant has its own catalog directory (`<MCP_TENANTS_DIR>/<tenant>`) and its own manifest, audit log and
+ * usage files; the instructions directory itself is the shared global layer tenants inherit from
+ * (MCP_TENANT_INHERIT_GLOBAL). The tenant comes from the stdio MCP session (initialize `_meta.tenant` or the
+ * client name mapped through MCP_CLIENT_TENANTS), from the HTTP session's bearer token (`@tenant`), from the
+ * dashboard request's credential (its tenant binding, or `X-Tenant` / `tenant` for unbound credentials) via
+ * runInTenant(), or from MCP_TENANT. Only configured tenants are accepted. catalogContext resolves
+ * getInstructionsDir() and the catalog state through currentTenant(), so handlers stay tenant-agnostic.
+ */
+
+const TENANT_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+// null = explicitly the global catalog (e.g. while loading the layer a tenant inherits)
+const tenantScope = new AsyncLocalStorage<{ tenant: string | null }>();
+// stdio serves one client per process, so the tenant chosen at initialize applies to every later call (HTTP
+// sessions keep their own and wrap each request in runInTenant)
+let sessionTenant: string | undefined;
+
+export function isValidTenantId(id: unknown): id is string { return typeof id === 'string' && TENANT_ID.test(id); }
+
+/**
+ * Tenants the operator configured: MCP_TENANTS plus the tenants named by MCP_TENANT, MCP_CLIENT_TENANTS and
+ * MCP_ACCESS_TOKENS bindings. Only these can be selected, so requests cannot create catalog directories.
+ */
+export function configuredTenants(): string[] {
+  const cfg = getRuntimeConfig();
+  const tenants = new Set([...cfg.tenants.allowed, ...Object.values(cfg.tenants.clients), ...Object.values(cfg.access.tokens).map(t => t.tenant)]);
+  if(cfg.tenants.defaultTenant) tenants.add(cfg.tenants.defaultTenant);
+  return [...tenants].filter(isValidTenantId).sort();
+}
+
+/** Validate a requested tenant against the configured tenants; returns an error code for unusable values. */
+export function resolveTenant(raw: unknown): { tenant: string } | { error: 'invalid_tenant' | 'unknown_tenant' } {
+  if(!isValidTenantId(raw)) return { error: 'invalid_tenant' };
+  if(!configuredTenants().includes(raw)) return { error: 'unknown_tenant' };
+  return { tenant: raw };
+}
+
+export function tenantForClient(name: string | undefined): string | undefined {
+  return name ? getRuntimeConfig().tenants.clients[name] : undefined;
+}
+
+export function setSessionTenant(tenant: string | undefined): void { sessionTenant = tenant; }
+
+/** Run fn for a tenant (null = the global catalog); async work started inside keeps it. */
+export function runInTenant<T>(tenant: string | null, fn: () => T): T { return tenantScope.run({ tenant }, fn); }
+
+/** Active tenant, or undefined for the global catalog (always undefined when multi-tenancy is off). */
+export function currentTenant(): string | undefined {
+  const cfg = getRuntimeConfig().tenants;
+  if(!cfg.enabled) return undefined;
+  const scoped = tenantScope.getStore();
+  if(scoped) return scoped.tenant ?? undefined;
+  return sessionTenant ?? cfg.defaultTenant;
+}
+
+export function tenantInstructionsDir(tenant: string): string {
+  return path.join(getRuntimeConfig().tenants.root, tenant);
+}
+
+/** Per-tenant location for a process-wide file: `<dir>/tenants/<tenant>/<name>` (the file itself for the global catalog). */
+export function tenantScopedPath(file: string, tenant: string | undefined = currentTenant()): string {
+  return tenant ? path.join(path.dirname(file), 'tenants', tenant, path.basename(file)) : file;
+}
+
+/** Configured tenants that already have a catalog directory. */
+export function listTenants(): string[] {
+  const root = getRuntimeConfig().tenants.root;
+  return configuredTenants().filter(t => fs.existsSync(path.join(root, t)));
+}
@@ -11,6 +11,7 @@ import './handlers.integrity';
 import './handlers.prompt';
 import './handlers.usage';
 import './handlers.gates';
+import './handlers.review';
 import './handlers.testPrimitive'; // test helper primitive handler registration
 
 // Rich meta/tools implementation (stable vs dynamic)
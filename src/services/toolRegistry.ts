@@ -19,13 +19,11 @@ export interface ToolRegistryEntry {
 }
 
 // Input schema helpers (keep intentionally permissive if params optional)
-const stringReq = (name: string) => ({ type: 'object', additionalProperties: false, required: [name], properties: { [name]: { type: 'string' } } });
-
 // Explicit param schemas derived from handlers in toolHandlers.ts
 const INPUT_SCHEMAS: Record<string, object> = {
   // graph export (Phase 1 + Phase 2 enrichment). All params optional.
   'graph/export': { type: 'object', additionalProperties: false, properties: {
-    includeEdgeTypes: { type: 'array', items: { type: 'string', enum: ['primary','category','belongs'] }, maxItems: 3 },
+    includeEdgeTypes: { type: 'array', items: { type: 'string', enum: ['primary','category','belongs','extends','includes','relatedTo','conflictsWith','requires','supersedes'] }, maxItems: 9 },
     maxEdges: { type: 'number', minimum: 0 },
     // Added 'mermaid' format for dashboard visualization / documentation embedding
     format: { type: 'string', enum: ['json','dot','mermaid'] },
@@ -33,6 +31,16 @@ const INPUT_SCHEMAS: Record<string, object> = {
     includeCategoryNodes: { type: 'boolean' },
     includeUsage: { type: 'boolean' }
   } },
+  // k-hop neighborhood / shortest path over relationship edges (composition + typed links)
+  'graph/neighbors': { type: 'object', additionalProperties: false, required: ['id'], properties: {
+    id: { type: 'string' },
+    depth: { type: 'number', minimum: 1 },
+    edgeTypes: { type: 'array', items: { type: 'string', enum: ['extends','includes','relatedTo','conflictsWith','requires','supersedes'] } },
+    direction: { type: 'string', enum: ['out','in','both'] },
+    to: { type: 'string' },
+    limit: { type: 'number', minimum: 1 },
+    includeBody: { type: 'boolean' }
+  } },
   'health/check': { type: 'object', additionalProperties: true }, // no params
   'instructions/dispatch': { type: 'object', additionalProperties: true, required: ['action'], properties: { action: { type: 'string' } } },
   'instructions/governanceHash': { type: 'object', additionalProperties: true },
@@ -40,48 +48,104 @@ const INPUT_SCHEMAS: Record<string, object> = {
   'instructions/governanceUpdate': { type: 'object', additionalProperties: false, required: ['id'], properties: {
     id: { type: 'string' },
     owner: { type: 'string' },
-    status: { type: 'string', enum: ['approved','draft','deprecated'] },
+    status: { type: 'string', enum: ['approved','review','draft','deprecated'], description: 'Follows the status workflow: draft -> review -> approved (needs the tier\'s approvals), deprecated from any state' },
     lastReviewedAt: { type: 'string' },
     nextReviewDue: { type: 'string' },
-    bump: { type: 'string', enum: ['patch','minor','major','none'] }
+    bump: { type: 'string', enum: ['patch','minor','major','none'] },
+    ifMatch: { type: 'string' }
+  } },
+  'instructions/approve': { type: 'object', additionalProperties: false, required: ['id'], properties: {
+    id: { type: 'string' },
+    comment: { type: 'string' },
+    ifMatch: { type: 'string', description: 'etag precondition' }
   } },
   // NOTE: instructions/query & instructions/categories removed as standalone tools.
   // They are now exclusively accessed via instructions/dispatch with actions 'query' and 'categories'.
   // legacy read-only instruction method schemas removed in favor of dispatcher
   'instructions/import': { type: 'object', additionalProperties: false, required: ['entries'], properties: {
     entries: { type: 'array', minItems: 1, items: { type: 'object', required: ['id','title','body','priority','audience','requirement'], additionalProperties: true, properties: {
-      id: { type: 'string' }, title: { type: 'string' }, body: { type: 'string' }, rationale: { type: 'string' }, priority: { type: 'number' }, audience: { type: 'string' }, requirement: { type: 'string' }, categories: { type: 'array', items: { type: 'string' } }, mode: { type: 'string' }
+      id: { type: 'string' }, title: { type: 'string' }, body: { type: 'string' }, rationale: { type: 'string' }, priority: { type: 'number' }, audience: { type: 'string' }, requirement: { type: 'string' }, categories: { type: 'array', items: { type: 'string' } }, mode: { type: 'string' }, ifMatch: { type: 'string' }, extends: { type: 'string' }, includes: { type: 'array', items: { type: 'string' } }, links: { type: 'object', additionalProperties: false, properties: { relatedTo: { type: 'array', items: { type: 'string' } }, conflictsWith: { type: 'array', items: { type: 'string' } }, requires: { type: 'array', items: { type: 'string' } }, supersedes: { type: 'array', items: { type: 'string' } } } }
     } } },
     mode: { enum: ['skip','overwrite'] }
   } },
   'instructions/add': { type: 'object', additionalProperties: false, required: ['entry'], properties: {
     entry: { type: 'object', required: ['id','body'], additionalProperties: true, properties: {
-      id: { type: 'string' }, title: { type: 'string' }, body: { type: 'string' }, rationale: { type: 'string' }, priority: { type: 'number' }, audience: { type: 'string' }, requirement: { type: 'string' }, categories: { type: 'array', items: { type: 'string' } }, deprecatedBy: { type: 'string' }, riskScore: { type: 'number' }
+      id: { type: 'string' }, title: { type: 'string' }, body: { type: 'string' }, rationale: { type: 'string' }, priority: { type: 'number' }, audience: { type: 'string' }, requirement: { type: 'string' }, categories: { type: 'array', items: { type: 'string' } }, deprecatedBy: { type: 'string' }, riskScore: { type: 'number' }, extends: { type: 'string' }, includes: { type: 'array', items: { type: 'string' } }, links: { type: 'object', additionalProperties: false, properties: { relatedTo: { type: 'array', items: { type: 'string' } }, conflictsWith: { type: 'array', items: { type: 'string' } }, requires: { type: 'array', items: { type: 'string' } }, supersedes: { type: 'array', items: { type: 'string' } } } },
+      promptArguments: { type: 'array', items: { type: 'object', required: ['name'], additionalProperties: false, properties: { name: { type: 'string' }, description: { type: 'string' }, required: { type: 'boolean' }, default: { type: 'string' } } } }
     } },
     overwrite: { type: 'boolean' },
-    lax: { type: 'boolean' }
+    lax: { type: 'boolean' },
+    expectedSourceHash: { type: 'string' },
+    ifMatch: { type: 'string' }
   } },
   'instructions/repair': { type: 'object', additionalProperties: true },
+  'instructions/importBundle': { type: 'object', additionalProperties: false, properties: {
+    bundle: { type: 'string', description: 'Base64 .tar.gz bundle (as returned by dispatcher exportBundle)' },
+    path: { type: 'string', description: 'Bundle archive or directory of .md files, relative to MCP_BUNDLES_DIR' },
+    dryRun: { type: 'boolean', description: 'Return the conflict preview without writing' },
+    ids: { type: 'array', items: { type: 'string' }, description: 'Only these bundle entries' },
+    remap: { type: 'object', additionalProperties: { type: 'string' }, description: 'Bundle id -> catalog id' },
+    idPrefix: { type: 'string', description: 'Prefix for ids not in remap' },
+    mode: { type: 'string', enum: ['skip','overwrite'], description: 'Conflicting entries: keep the catalog version (skip, default) or take the bundle version' },
+    requireSignature: { type: 'boolean', description: 'Override MCP_BUNDLE_REQUIRE_SIGNATURE' }
+  } },
+  'instructions/revert': { type: 'object', additionalProperties: false, required: ['id','revision'], properties: { id: { type: 'string' }, revision: { type: 'string' }, ifMatch: { type: 'string' } } },
   'instructions/reload': { type: 'object', additionalProperties: true },
-  'instructions/remove': { type: 'object', additionalProperties: false, required: ['ids'], properties: { ids: { type: 'array', minItems: 1, items: { type: 'string' } }, missingOk: { type: 'boolean' } } },
+  'instructions/remove': { type: 'object', additionalProperties: false, required: ['ids'], properties: { ids: { type: 'array', minItems: 1, items: { type: 'string' } }, missingOk: { type: 'boolean' }, ifMatch: { oneOf: [ { type: 'string' }, { type: 'object', additionalProperties: { type: 'string' } } ] } } },
   'instructions/groom': { type: 'object', additionalProperties: false, properties: { mode: { type: 'object', additionalProperties: false, properties: { dryRun: { type: 'boolean' }, removeDeprecated: { type: 'boolean' }, mergeDuplicates: { type: 'boolean' }, purgeLegacyScopes: { type: 'boolean' } } } } },
   // enrichment tool (no params required)
   'instructions/enrich': { type: 'object', additionalProperties: true },
-  'prompt/review': stringReq('prompt'),
+  'prompt/review': { type: 'object', additionalProperties: false, required: ['prompt'], properties: {
+    prompt: { type: 'string' },
+    category: { type: 'string', description: 'Also apply rules from <criteria dir>/<category>.json' },
+    checkCatalog: { type: 'boolean', default: true, description: 'Check for contradictions with mandatory / critical catalog instructions' }
+  } },
   'integrity/verify': { type: 'object', additionalProperties: true },
+  'integrity/scan': { type: 'object', additionalProperties: false, properties: {
+    ids: { type: 'array', items: { type: 'string' }, description: 'Limit the sweep to these ids' },
+    classes: { type: 'array', items: { type: 'string', enum: ['secret','pii','internal'] }, description: 'Detector classes (default MCP_INGEST_SCAN_CLASSES)' }
+  } },
+  'audit/verify': { type: 'object', additionalProperties: false, properties: {} },
   'feature/status': { type: 'object', additionalProperties: false, properties: {} },
   'instructions/health': { type: 'object', additionalProperties: true },
-  'usage/track': stringReq('id'),
-  'usage/hotset': { type: 'object', additionalProperties: false, properties: { limit: { type: 'number', minimum: 1, maximum: 100 } } },
+  'usage/track': { type: 'object', additionalProperties: false, required: ['id'], properties: {
+    id: { type: 'string' },
+    clientName: { type: 'string' },
+    sessionId: { type: 'string' },
+    workspaceId: { type: 'string' },
+    taskTag: { type: 'string' },
+    outcome: { type: 'string', enum: ['helpful','not-relevant','wrong'] }
+  } },
+  'usage/report': { type: 'object', additionalProperties: false, properties: {
+    id: { type: 'string' },
+    clientName: { type: 'string' },
+    workspaceId: { type: 'string' },
+    taskTag: { type: 'string' },
+    since: { type: 'string' },
+    limit: { type: 'number', minimum: 1, maximum: 500 }
+  } },
+  'usage/hotset': { type: 'object', additionalProperties: false, properties: { limit: { type: 'number', minimum: 1, maximum: 100 }, strategy: { type: 'string', enum: ['count','hot'], description: "count (default): lifetime usageCount. hot: recency-weighted HotScoreService score over usage/track events in the usage buckets window, with breakdown." } } },
   'usage/flush': { type: 'object', additionalProperties: true },
+  // scheduled review workflow (nextReviewDue)
+  'review/queue': { type: 'object', additionalProperties: false, properties: {
+    owner: { type: 'string', description: 'Only entries owned by this owner (use "unowned" for entries without one)' },
+    horizonDays: { type: 'number', minimum: 1, maximum: 365, description: 'Entries due within this many days are upcoming (default MCP_REVIEW_HORIZON_DAYS)' },
+    includeDeprecated: { type: 'boolean', default: false }
+  } },
+  'review/complete': { type: 'object', additionalProperties: false, required: ['id'], properties: {
+    id: { type: 'string' },
+    reviewer: { type: 'string' },
+    notes: { type: 'string', description: 'Appended to the changeLog summary' },
+    ifMatch: { type: 'string', description: 'etag precondition' }
+  } },
   'metrics/snapshot': { type: 'object', additionalProperties: true },
-  'gates/evaluate': { type: 'object', additionalProperties: true },
+  'gates/evaluate': { type: 'object', additionalProperties: true, properties: { gates: { type: 'array', items: { type: 'object', required: ['id','type'], additionalProperties: true, properties: { id: { type: 'string' }, type: { type: 'string', enum: ['count','every','ratio','regex','coverage','unique'] }, severity: { type: 'string', enum: ['error','warn','info'] } } }, description: 'Inline gate definitions evaluated instead of gates.json (authoring / dry run).' } } },
   'meta/tools': { type: 'object', additionalProperties: true },
   // onboarding / help tool (no params for v1, future may allow sections[] filtering)
   'help/overview': { type: 'object', additionalProperties: true },
   // manifest tools (catalog manifest management)
   'manifest/status': { type: 'object', additionalProperties: true },
-  'manifest/refresh': { type: 'object', additionalProperties: true },
+  'manifest/refresh': { type: 'object', additionalProperties: true, properties: { acceptUnverified: { type: 'boolean', description: 'Re-sign entries a signed catalog reports or refuses as unsigned / altered (MCP_MANIFEST_SIGNING).' } } },
   'manifest/repair': { type: 'object', additionalProperties: true },
   // feedback system tools
   'feedback/submit': { type: 'object', additionalProperties: false, required: ['type', 'severity', 'title', 'description'], properties: {
@@ -132,7 +196,10 @@ const INPUT_SCHEMAS: Record<string, object> = {
     },
     limit: { type: 'number', minimum: 1, maximum: 100, default: 50, description: 'Maximum number of instruction IDs to return' },
     includeCategories: { type: 'boolean', default: false, description: 'Include categories in search scope' },
-    caseSensitive: { type: 'boolean', default: false, description: 'Perform case-sensitive matching' }
+    caseSensitive: { type: 'boolean', default: false, description: 'Perform case-sensitive matching' },
+    mode: { type: 'string', enum: ['keyword','semantic','hybrid','fulltext'], default: 'keyword', description: 'keyword = substring scoring (default); semantic = local embedding similarity; hybrid = blend of both; fulltext = BM25 with stemming, "phrases", -exclusions and title:/category:/owner: qualifiers' },
+    boostByHotScore: { type: 'boolean', default: false, description: 'Re-rank results by recent usage (hot score from usage/track events); relevance is multiplied by 1 + MCP_SEARCH_HOT_BOOST x normalized hot score' },
+    includeDrafts: { type: 'boolean', default: false, description: 'Include agent-created entries still awaiting approval (draft / review)' }
   } },
   // bootstrap confirmation gating tools
   'bootstrap/request': { type: 'object', additionalProperties: false, properties: { rationale: { type: 'string' } } },
@@ -151,8 +218,8 @@ const INPUT_SCHEMAS: Record<string, object> = {
 (INPUT_SCHEMAS as Record<string, object>)['instructions/normalize'] = { type: 'object', additionalProperties: false, properties: { dryRun: { type: 'boolean' }, forceCanonical: { type: 'boolean' } } };
 
 // Stable & mutation classification lists (mirrors usage in toolHandlers; exported to remove duplication there).
-export const STABLE = new Set(['health/check','graph/export','instructions/dispatch','instructions/search','instructions/governanceHash','prompt/review','integrity/verify','usage/track','usage/hotset','metrics/snapshot','gates/evaluate','meta/tools','help/overview','feedback/list','feedback/get','feedback/stats','feedback/health','manifest/status','instructions/diagnostics']);
-const MUTATION = new Set(['instructions/add','instructions/import','instructions/repair','instructions/reload','instructions/remove','instructions/groom','instructions/enrich','instructions/governanceUpdate','instructions/normalize','usage/flush','feedback/submit','feedback/update','manifest/refresh','manifest/repair']);
+export const STABLE = new Set(['health/check','graph/export','instructions/dispatch','instructions/search','instructions/governanceHash','prompt/review','integrity/verify','integrity/scan','audit/verify','usage/track','usage/hotset','metrics/snapshot','gates/evaluate','meta/tools','help/overview','feedback/list','feedback/get','feedback/stats','feedback/health','manifest/status','instructions/diagnostics']);
+const MUTATION = new Set(['instructions/add','instructions/import','instructions/repair','instructions/reload','instructions/remove','instructions/groom','instructions/enrich','instructions/governanceUpdate','instructions/approve','instructions/revert','instructions/importBundle','instructions/normalize','usage/flush','review/complete','feedback/submit','feedback/update','manifest/refresh','manifest/repair']);
 
 export function getToolRegistry(): ToolRegistryEntry[] {
   const entries: ToolRegistryEntry[] = [];
@@ -178,6 +245,7 @@ function describeTool(name: string): string {
   switch(name){
     case 'health/check': return 'Returns server health status & version.';
   case 'graph/export': return 'Export instruction relationship graph (schema v1 minimal or v2 enriched).';
+  case 'graph/neighbors': return 'Related instructions: k-hop neighborhood or shortest path over typed links and composition edges.';
   case 'instructions/dispatch': return 'Unified dispatcher for instruction catalog actions (list,get,search,diff,export,query,categories,dir & mutations).';
   case 'instructions/search': return '🔍 PRIMARY: Search instructions by keywords - returns instruction IDs for targeted retrieval. Use this FIRST to discover relevant instructions, then use instructions/dispatch get for details. Essential discovery tool for MCP clients.';
   case 'instructions/governanceHash': return 'Return governance projection & deterministic governance hash.';
@@ -190,16 +258,24 @@ function describeTool(name: string): string {
   case 'instructions/remove': return 'Delete one or more instruction entries by id.';
   case 'instructions/groom': return 'Groom catalog: normalize, repair hashes, merge duplicates, remove deprecated.';
   case 'instructions/enrich': return 'Persist normalization of placeholder governance fields to disk.';
+  case 'instructions/importBundle': return 'Import a portable instruction bundle (Markdown entries, hashed and optionally signed manifest) with conflict preview, id remapping and selective apply.';
+  case 'instructions/revert': return 'Restore an instruction from a prior catalog git revision (requires MCP_CATALOG_GIT=1).';
   case 'instructions/governanceUpdate': return 'Patch limited governance fields (owner/status/review dates + optional version bump).';
-    case 'prompt/review': return 'Static analysis of a prompt returning issues & summary.';
+  case 'instructions/approve': return 'Approve an instruction in review; the priority tier\'s required approvals move it to approved.';
+    case 'prompt/review': return 'Static analysis of a prompt with rule plugins: issues, suggested fixes, a 0-100 score and a rewritten prompt.';
   case 'integrity/verify': return 'Verify each instruction body hash against stored sourceHash.';
+  case 'integrity/scan': return 'Scan stored instructions for secrets, personal data and internal hostnames (masked previews, counts by kind).';
+  case 'audit/verify': return 'Verify the audit log hash chain: edited, inserted, deleted or truncated lines.';
   case 'feature/status': return 'Report active index feature flags and counters.';
-    case 'usage/track': return 'Increment usage counters & timestamps for an instruction id.';
-    case 'usage/hotset': return 'Return the most-used instruction entries (hot set).';
+    case 'usage/track': return 'Increment usage counters & timestamps for an instruction id (optional client/session/workspace/task context and outcome).';
+    case 'usage/report': return 'Per-instruction effectiveness from tracked usage: helpfulness ratio, outcomes and per-client adoption.';
+    case 'usage/hotset': return 'Return the most-used instruction entries (hot set) by lifetime count or by recency-weighted hot score (strategy:"hot").';
     case 'usage/flush': return 'Flush usage snapshot to persistent storage.';
+    case 'review/queue': return 'Overdue and upcoming instruction reviews (nextReviewDue) grouped by owner.';
+    case 'review/complete': return 'Mark an instruction reviewed: stamp lastReviewedAt, schedule nextReviewDue and append to changeLog.';
     case 'metrics/snapshot': return 'Performance metrics summary for handled methods.';
   case 'instructions/health': return 'Compare live catalog to canonical snapshot for drift.';
-    case 'gates/evaluate': return 'Evaluate configured gating criteria over current catalog.';
+    case 'gates/evaluate': return 'Evaluate quality gates (gates.json or inline gates) over the current catalog: count, per-entry predicates, ratios, regex, category coverage and uniqueness, with offending ids.';
     case 'meta/tools': return 'Enumerate available tools & their metadata.';
   // feedback system descriptions
   case 'feedback/submit': return 'Submit feedback entry (issue, status report, security alert, feature request, etc.).';
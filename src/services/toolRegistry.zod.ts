@@ -19,12 +19,39 @@ const zDispatch = z.object({ action: z.string().min(1) }).passthrough();
 const zGovernanceUpdate = z.object({
   id: z.string().min(1),
   owner: z.string().min(1).optional(),
-  status: z.enum(['approved','draft','deprecated']).optional(),
+  status: z.enum(['approved','review','draft','deprecated']).optional(),
   lastReviewedAt: z.string().optional(),
   nextReviewDue: z.string().optional(),
-  bump: z.enum(['patch','minor','major','none']).optional()
+  bump: z.enum(['patch','minor','major','none']).optional(),
+  ifMatch: z.string().min(1).optional()
 }).strict();
 
+// Approval for an entry in review (status workflow)
+const zApprove = z.object({
+  id: z.string().min(1),
+  comment: z.string().optional(),
+  ifMatch: z.string().min(1).optional()
+}).strict();
+
+// Revert to a prior catalog git revision
+const zRevert = z.object({
+  id: z.string().min(1),
+  revision: z.string().min(4),
+  ifMatch: z.string().min(1).optional()
+}).strict();
+
+// Import a portable instruction bundle (base64 archive or path under MCP_BUNDLES_DIR)
+const zImportBundle = z.object({
+  bundle: z.string().min(1).optional(),
+  path: z.string().min(1).optional(),
+  dryRun: z.boolean().optional(),
+  ids: z.array(z.string().min(1)).optional(),
+  remap: z.record(z.string().min(1)).optional(),
+  idPrefix: z.string().optional(),
+  mode: z.enum(['skip','overwrite']).optional(),
+  requireSignature: z.boolean().optional()
+}).strict().refine(v => !!v.bundle !== !!v.path, { message: 'exactly one of bundle or path is required' });
+
 // Instructions add
 const zInstructionEntry = z.object({
   id: z.string().min(1),
@@ -36,13 +63,23 @@ const zInstructionEntry = z.object({
   requirement: z.string().optional(),
   categories: z.array(z.string()).max(50).optional(),
   deprecatedBy: z.string().optional(),
-  riskScore: z.number().optional()
+  riskScore: z.number().optional(),
+  extends: z.string().optional(),
+  includes: z.array(z.string()).max(50).optional(),
+  links: z.object({
+    relatedTo: z.array(z.string()).optional(),
+    conflictsWith: z.array(z.string()).optional(),
+    requires: z.array(z.string()).optional(),
+    supersedes: z.array(z.string()).optional()
+  }).strict().optional()
 }).strict();
 
 const zAdd = z.object({
   entry: zInstructionEntry,
   overwrite: z.boolean().optional(),
-  lax: z.boolean().optional()
+  lax: z.boolean().optional(),
+  expectedSourceHash: z.string().optional(),
+  ifMatch: z.string().min(1).optional()
 }).strict();
 
 // Feedback submit
@@ -74,12 +111,38 @@ const zFeedbackUpdate = z.object({
 }).strict();
 
 // Usage
-const zUsageTrack = zStringId;
-const zHotset = z.object({ limit: z.number().int().min(1).max(100).optional() }).strict();
+const zUsageTrack = z.object({
+  id: z.string().min(1),
+  clientName: z.string().optional(),
+  sessionId: z.string().optional(),
+  workspaceId: z.string().optional(),
+  taskTag: z.string().optional(),
+  outcome: z.enum(['helpful','not-relevant','wrong']).optional()
+}).strict();
+const zUsageReport = z.object({
+  id: z.string().optional(),
+  clientName: z.string().optional(),
+  workspaceId: z.string().optional(),
+  taskTag: z.string().optional(),
+  since: z.string().optional(),
+  limit: z.number().int().min(1).max(500).optional()
+}).strict();
+const zReviewQueue = z.object({
+  owner: z.string().optional(),
+  horizonDays: z.number().min(1).max(365).optional(),
+  includeDeprecated: z.boolean().optional()
+}).strict();
+const zReviewComplete = z.object({
+  id: z.string().min(1),
+  reviewer: z.string().optional(),
+  notes: z.string().optional(),
+  ifMatch: z.string().optional()
+}).strict();
+const zHotset = z.object({ limit: z.number().int().min(1).max(100).optional(), strategy: z.enum(['count','hot']).optional() }).strict();
 
 // Graph export (all optional params)
 const zGraphExport = z.object({
-  includeEdgeTypes: z.array(z.enum(['primary','category','belongs'])).max(3).optional(),
+  includeEdgeTypes: z.array(z.enum(['primary','category','belongs','extends','includes','relatedTo','conflictsWith','requires','supersedes'])).max(9).optional(),
   maxEdges: z.number().int().min(0).optional(),
   // Added 'mermaid' to supported export formats (json is implicit when omitted)
   format: z.enum(['json','dot','mermaid']).optional(),
@@ -88,16 +151,33 @@ const zGraphExport = z.object({
   includeUsage: z.boolean().optional()
 }).strict();
 
+const zGraphNeighbors = z.object({
+  id: z.string().min(1),
+  depth: z.number().int().min(1).optional(),
+  edgeTypes: z.array(z.enum(['extends','includes','relatedTo','conflictsWith','requires','supersedes'])).optional(),
+  direction: z.enum(['out','in','both']).optional(),
+  to: z.string().min(1).optional(),
+  limit: z.number().int().min(1).optional(),
+  includeBody: z.boolean().optional()
+}).strict();
+
 // Map tool name to zod schema
 const zodMap: Record<string, z.ZodTypeAny> = {
   'health/check': zEmpty,
   'graph/export': zGraphExport,
+  'graph/neighbors': zGraphNeighbors,
   'instructions/dispatch': zDispatch,
   'instructions/governanceHash': zEmpty,
   'instructions/governanceUpdate': zGovernanceUpdate,
+  'instructions/approve': zApprove,
+  'instructions/revert': zRevert,
+  'instructions/importBundle': zImportBundle,
   'instructions/add': zAdd,
   'usage/track': zUsageTrack,
   'usage/hotset': zHotset,
+  'usage/report': zUsageReport,
+  'review/queue': zReviewQueue,
+  'review/complete': zReviewComplete,
   'feedback/submit': zFeedbackSubmit,
   'feedback/list': zFeedbackList,
   'feedback/get': zFeedbackGet,
@@ -9,6 +9,9 @@ import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
 import { logInfo, logError } from './logger';
+import { getInstructionsDir } from './catalogContext';
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { currentTenant } from './tenantContext';
 
 /**
  * Time bucket configuration
@@ -22,17 +25,28 @@ export interface BucketConfig {
   maxEntriesPerBucket: number;
 }
 
+/**
+ * Agent-reported outcome of applying an instruction (usage/track)
+ */
+export const USAGE_OUTCOMES = ['helpful', 'not-relevant', 'wrong'] as const;
+export type UsageOutcome = typeof USAGE_OUTCOMES[number];
+
 /**
  * Usage entry within a time bucket
  */
 export interface UsageEntry {
   timestamp: string; // ISO 8601 UTC
-  operation: string; // 'list', 'get', 'add', 'update', 'remove', etc.
+  operation: string; // 'list', 'get', 'add', 'update', 'remove', 'track', etc.
   instructionId?: string;
-  clientInfo?: string;
+  clientInfo?: string; // client name (usage/track clientName)
   durationMs?: number;
   success: boolean;
   errorCode?: string;
+  // usage/track context (optional)
+  sessionId?: string;
+  workspaceId?: string;
+  taskTag?: string;
+  outcome?: UsageOutcome;
 }
 
 /**
@@ -126,6 +140,15 @@ export class UsageBucketsService {
     }
   }
 
+  /**
+   * Load or create the container unless already initialized
+   */
+  async ensureInitialized(): Promise<void> {
+    if (!this.container) {
+      await this.initialize();
+    }
+  }
+
   /**
    * Record a usage entry
    */
@@ -455,13 +478,16 @@ export class UsageBucketsService {
 
 // Singleton instance for server use
 let usageBucketsInstance: UsageBucketsService | null = null;
+let usageBucketsDir: string | null = null;
+const tenantUsageBuckets = new Map<string, UsageBucketsService>();
 
 /**
- * Get or create the global usage buckets service instance
+ * Get or create the global usage buckets service instance (recreated when the instructions directory changes)
  */
 export function getUsageBucketsService(instructionsDir?: string, config: Partial<BucketConfig> = {}): UsageBucketsService {
-  if (!usageBucketsInstance && instructionsDir) {
+  if (instructionsDir && (!usageBucketsInstance || usageBucketsDir !== instructionsDir)) {
     usageBucketsInstance = new UsageBucketsService(instructionsDir, config);
+    usageBucketsDir = instructionsDir;
   }
   
   if (!usageBucketsInstance) {
@@ -471,6 +497,22 @@ export function getUsageBucketsService(instructionsDir?: string, config: Partial
   return usageBucketsInstance;
 }
 
+/**
+ * Catalog usage event log: <instructionsDir>/.usage (like .search) so bucket writes never touch the catalog
+ * file set; sized by MCP_USAGE_BUCKET_MINUTES / MCP_USAGE_BUCKET_COUNT
+ */
+export function getCatalogUsageBuckets(): UsageBucketsService {
+  const cfg = getRuntimeConfig().catalog.usageBuckets;
+  const dir = path.join(getInstructionsDir(), '.usage');
+  // Tenant catalogs (tenantContext.ts) each keep their own event log; the global one stays the shared singleton.
+  if(currentTenant()){
+    let svc = tenantUsageBuckets.get(dir);
+    if(!svc){ svc = new UsageBucketsService(dir, { bucketSizeMinutes: cfg.sizeMinutes, bucketCount: cfg.count }); tenantUsageBuckets.set(dir, svc); }
+    return svc;
+  }
+  return getUsageBucketsService(dir, { bucketSizeMinutes: cfg.sizeMinutes, bucketCount: cfg.count });
+}
+
 /**
  * Record usage for the global instance
  */
@@ -0,0 +1,45 @@
+import { getRuntimeConfig } from '../config/runtimeConfig';
+import { createHotScoreService, HotScoreResult, HotScoreService, UsagePoint } from './hotScore';
+import { getCatalogUsageBuckets, UsageEntry } from './usageBuckets';
+
+/**
+ * Hot scores for catalog entries, fed from the usage/track events held in the usage buckets window.
+ *
+ * Every track event is one UsagePoint (count 1) at its event time, so HotScoreService sees the real temporal
+ * spread of usage rather than the lifetime usageCount. Only the last MCP_HOTSCORE_LOOKBACK_HOURS are read;
+ * events older than the buckets window (MCP_USAGE_BUCKET_MINUTES x MCP_USAGE_BUCKET_COUNT) have already rotated
+ * out. Entries without events in range have no score.
+ */
+
+let cached: { key: string; service: HotScoreService } | null = null;
+
+function hotScoreService(): HotScoreService {
+  const cfg = getRuntimeConfig().catalog.usageHotScore;
+  const key = `${cfg.temporalDecay}|${cfg.maxLookbackHours}`;
+  if(!cached || cached.key !== key){
+    cached = { key, service: createHotScoreService({ temporalDecay: cfg.temporalDecay, maxLookbackHours: cfg.maxLookbackHours }) };
+  }
+  return cached.service;
+}
+
+/** Group track events into per-instruction usage points (one point per event). */
+export function usagePointsByInstruction(entries: UsageEntry[]): Map<string, UsagePoint[]> {
+  const out = new Map<string, UsagePoint[]>();
+  for(const e of entries){
+    if(e.operation !== 'track' || !e.instructionId) continue;
+    const timestamp = Date.parse(e.timestamp);
+    if(Number.isNaN(timestamp)) continue;
+    const points = out.get(e.instructionId);
+    if(points) points.push({ timestamp, count: 1 }); else out.set(e.instructionId, [{ timestamp, count: 1 }]);
+  }
+  return out;
+}
+
+/** Hot score per instruction id with recent usage (scores below the service threshold are omitted). */
+export async function computeHotScores(now: number = Date.now()): Promise<Map<string, HotScoreResult>> {
+  const buckets = getCatalogUsageBuckets();
+  await buckets.ensureInitialized();
+  const lookbackMs = getRuntimeConfig().catalog.usageHotScore.maxLookbackHours * 60 * 60 * 1000;
+  const entries = buckets.getEntriesInRange(new Date(now - lookbackMs).toISOString(), new Date(now).toISOString());
+  return hotScoreService().calculateBatchHotScores(usagePointsByInstruction(entries), now);
+}
@@ -0,0 +1,85 @@
+import { UsageEntry, UsageOutcome, USAGE_OUTCOMES } from './usageBuckets';
+
+/**
+ * Effectiveness report over usage/track events held in the usage buckets window.
+ *
+ * helpfulness = helpful / rated, where rated counts events that carried an outcome; it is null until an
+ * instruction has at least one rated event. Events without a client name are grouped under "unknown".
+ */
+
+export interface UsageReportFilter { id?: string; clientName?: string; workspaceId?: string; taskTag?: string }
+export interface ClientAdoption { clientName: string; events: number; share: number; helpful: number; rated: number }
+export interface InstructionEffectiveness {
+  id: string;
+  events: number;
+  sessions: number;                         // distinct sessionIds
+  outcomes: Record<UsageOutcome, number>;
+  rated: number;
+  helpfulness: number | null;
+  clients: ClientAdoption[];
+  lastUsedAt: string;
+}
+export interface ClientSummary { clientName: string; events: number; instructions: number; rated: number; helpfulness: number | null }
+export interface UsageReport {
+  from?: string;                            // oldest event considered
+  to?: string;                              // newest event considered
+  totalEvents: number;
+  ratedEvents: number;
+  instructions: InstructionEffectiveness[]; // most events first
+  clients: ClientSummary[];
+}
+
+const UNKNOWN_CLIENT = 'unknown';
+const ratio = (n: number, d: number) => d ? Math.round((n / d) * 10000) / 10000 : null;
+const emptyOutcomes = () => Object.fromEntries(USAGE_OUTCOMES.map(o => [o, 0])) as Record<UsageOutcome, number>;
+
+export function buildUsageReport(entries: UsageEntry[], filter: UsageReportFilter = {}, limit = 50): UsageReport {
+  const events = entries.filter(e => e.operation === 'track' && e.instructionId
+    && (!filter.id || e.instructionId === filter.id)
+    && (!filter.clientName || (e.clientInfo || UNKNOWN_CLIENT) === filter.clientName)
+    && (!filter.workspaceId || e.workspaceId === filter.workspaceId)
+    && (!filter.taskTag || e.taskTag === filter.taskTag));
+
+  const perId = new Map<string, { stats: InstructionEffectiveness; sessions: Set<string>; clients: Map<string, ClientAdoption> }>();
+  const perClient = new Map<string, { events: number; rated: number; helpful: number; ids: Set<string> }>();
+  let ratedEvents = 0;
+  for(const e of events){
+    const id = e.instructionId as string;
+    const clientName = e.clientInfo || UNKNOWN_CLIENT;
+    let rec = perId.get(id);
+    if(!rec){
+      rec = { stats: { id, events: 0, sessions: 0, outcomes: emptyOutcomes(), rated: 0, helpfulness: null, clients: [], lastUsedAt: e.timestamp }, sessions: new Set(), clients: new Map() };
+      perId.set(id, rec);
+    }
+    let client = rec.clients.get(clientName);
+    if(!client){ client = { clientName, events: 0, share: 0, helpful: 0, rated: 0 }; rec.clients.set(clientName, client); }
+    let summary = perClient.get(clientName);
+    if(!summary){ summary = { events: 0, rated: 0, helpful: 0, ids: new Set() }; perClient.set(clientName, summary); }
+
+    rec.stats.events++; client.events++; summary.events++; summary.ids.add(id);
+    if(e.sessionId) rec.sessions.add(e.sessionId);
+    if(e.timestamp > rec.stats.lastUsedAt) rec.stats.lastUsedAt = e.timestamp;
+    if(e.outcome && (USAGE_OUTCOMES as readonly string[]).includes(e.outcome)){
+      ratedEvents++;
+      rec.stats.outcomes[e.outcome]++; rec.stats.rated++; client.rated++; summary.rated++;
+      if(e.outcome === 'helpful'){ client.helpful++; summary.helpful++; }
+    }
+  }
+
+  const instructions = [...perId.values()].map(({ stats, sessions, clients }) => ({
+    ...stats,
+    sessions: sessions.size,
+    helpfulness: ratio(stats.outcomes.helpful, stats.rated),
+    clients: [...clients.values()]
+      .map(c => ({ ...c, share: ratio(c.events, stats.events) ?? 0 }))
+      .sort((a, b) => b.events - a.events || a.clientName.localeCompare(b.clientName))
+  })).sort((a, b) => b.events - a.events || a.id.localeCompare(b.id));
+
+  const clients = [...perClient.entries()]
+    .map(([clientName, c]) => ({ clientName, events: c.events, instructions: c.ids.size, rated: c.rated, helpfulness: ratio(c.helpful, c.rated) }))
+    .sort((a, b) => b.events - a.events || a.clientName.localeCompare(b.clientName));
+
+  const report: UsageReport = { totalEvents: events.length, ratedEvents, instructions: instructions.slice(0, Math.max(1, limit)), clients };
+  if(events.length){ report.from = events[0].timestamp; report.to = events[events.length - 1].timestamp; }
+  return report;
+}
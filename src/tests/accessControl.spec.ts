@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { readAuditEntries } from '../services/auditLog';
+import { setSessionClient } from '../services/accessControl';
+import { callTool } from './testUtils';
+
+// Classification-aware reads (accessControl.ts): filter / redact of entries above the caller's clearance on the
+// dispatcher, search, graph and dashboard read paths, with clearance from the MCP client name or a dashboard token.
+
+interface Item { id: string; body: string; rationale?: string }
+interface ListResponse { count: number; items: Item[] }
+
+describe('classification access control on reads', () => {
+  let dir: string;
+  const keys = ['MCP_MUTATION', 'MCP_ACCESS_CONTROL', 'MCP_ACCESS_MODE', 'MCP_CLIENT_CLEARANCE', 'MCP_ACCESS_TOKENS', 'MCP_DEFAULT_CLEARANCE'] as const;
+  const prev = Object.fromEntries(keys.map(k => [k, process.env[k]]));
+  const setAccess = (mode?: string) => {
+    process.env.MCP_ACCESS_CONTROL = '1';
+    if(mode) process.env.MCP_ACCESS_MODE = mode; else delete process.env.MCP_ACCESS_MODE;
+    reloadRuntimeConfig();
+  };
+  const since = new Date().toISOString();
+  const deniedAudit = () => readAuditEntries().filter(a => a.action === 'accessDenied' && a.ts >= since);
+  const ids = (r: { items: Item[] }) => r.items.map(i => i.id).filter(id => id.startsWith('ac-')).sort();
+
+  beforeAll(async () => {
+    dir = path.join(process.cwd(),'tmp', `access-control-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_MUTATION = '1';
+    delete process.env.MCP_ACCESS_CONTROL;
+    delete process.env.MCP_DEFAULT_CLEARANCE;
+    process.env.MCP_CLIENT_CLEARANCE = 'ops-bot:restricted,kiosk:public';
+    process.env.MCP_ACCESS_TOKENS = 'tok-admin=admin:restricted,tok-guest=guest:public';
+    reloadRuntimeConfig();
+    (await import('../services/catalogContext.js')).invalidate();
+    await import('../services/handlers.instructions.js');
+    await import('../services/instructions.dispatcher.js');
+    await import('../services/handlers.search.js');
+    await import('../services/handlers.graph.js');
+    const add = (id: string, classification?: string) =>
+      callTool('instructions/add', { entry:{ id, title:`Rotation ${id}`, body:`Rotation runbook for ${id}.`, rationale:'why', priority:50, audience:'all', requirement:'recommended', categories:['ops'], ...(classification ? { classification } : {}) }, lax:true });
+    await add('ac-public', 'public');
+    await add('ac-internal');
+    await add('ac-secret', 'restricted');
+  });
+
+  afterAll(() => {
+    setSessionClient(undefined);
+    for(const k of keys){ if(prev[k] === undefined) delete process.env[k]; else process.env[k] = prev[k]; }
+    reloadRuntimeConfig();
+  });
+
+  it('filters restricted entries from list, get, search, export and graph for the default clearance', async () => {
+    expect(ids(await callTool<ListResponse>('instructions/dispatch', { action:'list' }))).toEqual(['ac-internal','ac-public','ac-secret']);
+    setAccess();
+    expect(ids(await callTool<ListResponse>('instructions/dispatch', { action:'list' }))).toEqual(['ac-internal','ac-public']);
+    expect(await callTool('instructions/dispatch', { action:'get', id:'ac-secret' })).toMatchObject({ notFound:true });
+    expect(ids(await callTool<ListResponse>('instructions/dispatch', { action:'search', q:'rotation' }))).toEqual(['ac-internal','ac-public']);
+    expect(ids(await callTool<ListResponse>('instructions/dispatch', { action:'export', ids:['ac-secret','ac-public'] }))).toEqual(['ac-public']);
+    const kw = await callTool<{ results: { instructionId: string }[] }>('instructions/search', { keywords:['rotation'] });
+    expect(kw.results.map(r => r.instructionId).filter(id => id.startsWith('ac-')).sort()).toEqual(['ac-internal','ac-public']);
+    const graph = await callTool<{ nodes: { id: string }[] }>('graph/export', {});
+    expect(graph.nodes.map(n => n.id)).not.toContain('ac-secret');
+
+    const denied = deniedAudit();
+    expect(denied.map(a => a.meta?.op)).toEqual(['get', 'export']);
+    expect(denied[0].meta).toMatchObject({ caller:'anonymous', clearance:'internal' });
+  });
+
+  it('maps the MCP client name to its clearance', async () => {
+    setAccess();
+    setSessionClient('ops-bot');
+    expect(ids(await callTool<ListResponse>('instructions/dispatch', { action:'list' }))).toEqual(['ac-internal','ac-public','ac-secret']);
+    expect(await callTool('instructions/dispatch', { action:'get', id:'ac-secret' })).toMatchObject({ item:{ id:'ac-secret' } });
+    setSessionClient('kiosk');
+    expect(ids(await callTool<ListResponse>('instructions/dispatch', { action:'list' }))).toEqual(['ac-public']);
+    expect((await callTool<{ nodes: { id: string }[] }>('graph/export', {})).nodes.map(n => n.id).filter(id => id.startsWith('ac-'))).toEqual(['ac-public']);
+    setSessionClient(undefined);
+  });
+
+  it('redact mode returns stubs without content', async () => {
+    setAccess('redact');
+    const list = await callTool<ListResponse>('instructions/dispatch', { action:'list' });
+    const secret = list.items.find(i => i.id === 'ac-secret');
+    expect(secret).toMatchObject({ body:'[REDACTED:restricted]', title:'Rotation ac-secret' });
+    expect(secret?.rationale).toBeUndefined();
+    expect(await callTool('instructions/dispatch', { action:'get', id:'ac-secret' })).toMatchObject({ item:{ body:'[REDACTED:restricted]' } });
+    const kw = await callTool<{ results: { instructionId: string }[] }>('instructions/search', { keywords:['rotation'] });
+    expect(kw.results.map(r => r.instructionId)).not.toContain('ac-secret');
+  });
+
+  it('serves every clearance from one full-text index', async () => {
+    const { getFullTextIndexStats } = await import('../services/searchIndex.js');
+    const fulltext = async (q: string, client?: string, args: Record<string, unknown> = { action:'search', q, mode:'fulltext' }) => {
+      setSessionClient(client);
+      try { return ids(await callTool<ListResponse>('instructions/dispatch', args)); } finally { setSessionClient(undefined); }
+    };
+    setAccess();
+    expect(await fulltext('runbook', 'ops-bot')).toEqual(['ac-internal','ac-public','ac-secret']);
+    const sync = getFullTextIndexStats().lastSync;
+    expect(await fulltext('runbook', 'kiosk')).toEqual(['ac-public']);
+    expect(await fulltext('runbook')).toEqual(['ac-internal','ac-public']);
+    expect(await fulltext('runbook', 'kiosk', { action:'query', text:'runbook', textMode:'fulltext' })).toEqual(['ac-public']);
+    expect(await fulltext('runbook', 'ops-bot')).toEqual(['ac-internal','ac-public','ac-secret']);
+    expect(getFullTextIndexStats().lastSync).toBe(sync);
+
+    // redact mode: stand-ins still match on their title, never on the withheld body
+    setAccess('redact');
+    expect(await fulltext('runbook', 'kiosk')).toEqual(['ac-public']);
+    expect(await fulltext('"rotation ac"', 'kiosk')).toEqual(['ac-internal','ac-public','ac-secret']);
+    setSessionClient('kiosk');
+    const redacted = await callTool<ListResponse>('instructions/dispatch', { action:'search', q:'rotation', mode:'fulltext' });
+    setSessionClient(undefined);
+    expect(redacted.items.find(i => i.id === 'ac-secret')?.body).toBe('[REDACTED:restricted]');
+    expect(getFullTextIndexStats().lastSync).toBe(sync);
+  });
+
+  it('applies dashboard token clearance to the REST read routes', async () => {
+    setAccess();
+    const express = (await import('express')).default;
+    const { createApiRoutes } = await import('../dashboard/server/ApiRoutes.js');
+    const app = express();
+    app.use('/api', createApiRoutes());
+    const server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    const names = async (token?: string) => {
+      const res = await fetch(`${base}/instructions`, { headers: token ? { Authorization:`Bearer ${token}` } : {} });
+      return ((await res.json()) as { instructions: { name: string }[] }).instructions.map(i => i.name).filter(n => n.startsWith('ac-')).sort();
+    };
+    try {
+      expect(await names()).toEqual(['ac-internal','ac-public']);
+      expect(await names('tok-guest')).toEqual(['ac-public']);
+      expect(await names('tok-admin')).toEqual(['ac-internal','ac-public','ac-secret']);
+      expect((await fetch(`${base}/instructions/ac-secret`, { headers:{ 'X-Access-Token':'tok-guest' } })).status).toBe(404);
+      expect((await fetch(`${base}/instructions/ac-secret`, { headers:{ 'X-Access-Token':'tok-admin' } })).status).toBe(200);
+      const search = await (await fetch(`${base}/instructions/search?q=rotation`)).json() as { results: { name: string }[] };
+      expect(search.results.map(r => r.name).filter(n => n.startsWith('ac-')).sort()).toEqual(['ac-internal','ac-public']);
+      const denied = deniedAudit().filter(a => a.meta?.op === 'dashboard/get');
+      expect(denied.at(-1)?.meta).toMatchObject({ caller:'guest', source:'dashboard', clearance:'public' });
+    } finally {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+});
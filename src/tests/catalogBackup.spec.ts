@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import crypto from 'crypto';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { createBackup, listBackups, verifyBackup, restoreBackup, pruneBackups, backupStoreStats, startBackupScheduler, stopBackupScheduler } from '../services/catalogBackup';
+import { tarPack, tarUnpack } from '../services/tarArchive';
+
+// Catalog backups (catalogBackup.ts): content-addressed incremental archives, verification, restore dry run /
+// selective restore, retention with object garbage collection, legacy directory backups and the scheduler.
+
+describe('incremental catalog backups', () => {
+  let dir: string; let backups: string;
+  const keys = ['MCP_BACKUPS_DIR', 'MCP_BACKUP_INTERVAL_MS', 'MCP_BACKUP_RETAIN'] as const;
+  const prev = Object.fromEntries(keys.map(k => [k, process.env[k]]));
+  const write = (id: string, fields: Record<string, unknown> = {}) => fs.writeFileSync(path.join(dir, `${id}.json`), JSON.stringify({
+    id, title: `Title ${id}`, body: `Body of ${id}\nsecond line`, priority: 50, audience: 'all', requirement: 'recommended', categories: ['ops'], ...fields
+  }, null, 2));
+  const read = (id: string) => JSON.parse(fs.readFileSync(path.join(dir, `${id}.json`), 'utf8'));
+  const created = (r: ReturnType<typeof createBackup>) => { if('skipped' in r) throw new Error('unexpected skip'); return r; };
+
+  beforeAll(async () => {
+    const root = path.join(process.cwd(), 'tmp', `catalog-backup-${Date.now()}`);
+    dir = path.join(root, 'instructions');
+    backups = path.join(root, 'backups');
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_BACKUPS_DIR = backups;
+    delete process.env.MCP_BACKUP_INTERVAL_MS;
+    reloadRuntimeConfig();
+    (await import('../services/catalogContext.js')).invalidate();
+    for(const id of ['bk-one', 'bk-two', 'bk-three']) write(id);
+  });
+
+  afterAll(() => {
+    stopBackupScheduler();
+    for(const k of keys){ if(prev[k] === undefined) delete process.env[k]; else process.env[k] = prev[k]; }
+    reloadRuntimeConfig();
+  });
+
+  it('stores each body once and only adds changed bodies to later backups', () => {
+    const first = created(createBackup());
+    expect(first).toMatchObject({ format: 'archive', files: 3, newObjects: 3 });
+    expect(fs.existsSync(path.join(backups, `${first.id}.tar.gz`))).toBe(true);
+    expect(created(createBackup()).newObjects).toBe(0);
+    expect(createBackup({ skipIfUnchanged: true })).toMatchObject({ skipped: true });
+    write('bk-two', { body: 'Changed body of bk-two' });
+    expect(created(createBackup()).newObjects).toBe(1);
+    expect(backupStoreStats().objects).toBe(4);
+    expect(listBackups()).toHaveLength(3);
+  });
+
+  it('verifies archives and refuses to restore a damaged one', () => {
+    const backup = created(createBackup());
+    expect(verifyBackup(backup.id)).toMatchObject({ ok: true, checksummed: true, entries: 3, issues: [] });
+    const archive = path.join(backups, `${backup.id}.tar.gz`);
+    const original = fs.readFileSync(archive);
+    fs.writeFileSync(archive, original.subarray(0, original.length - 40));
+    try {
+      expect(verifyBackup(backup.id)).toMatchObject({ ok: false, issues: [{ problem: 'archive-unreadable' }] });
+      expect(restoreBackup(backup.id)).toMatchObject({ success: false, verification: { ok: false } });
+    } finally { fs.writeFileSync(archive, original); }
+
+    const hash = crypto.createHash('sha256').update(read('bk-one').body, 'utf8').digest('hex');
+    const objectFile = path.join(backups, 'objects', hash.slice(0, 2), `${hash}.gz`);
+    const body = fs.readFileSync(objectFile);
+    fs.writeFileSync(objectFile, zlib.gzipSync('tampered body'));
+    try {
+      expect(verifyBackup(backup.id)?.issues.map(i => i.problem)).toContain('object-hash-mismatch');
+    } finally { fs.writeFileSync(objectFile, body); }
+    expect(verifyBackup('backup_missing')).toBeNull();
+  });
+
+  it('rejects archives whose manifest points outside the catalog or the object store', () => {
+    const backup = created(createBackup());
+    const files = tarUnpack(zlib.gunzipSync(fs.readFileSync(path.join(backups, `${backup.id}.tar.gz`))));
+    const manifest = JSON.parse(files.get('manifest.json')!.toString('utf8'));
+    // the checksum is unkeyed, so an edited manifest can carry a valid one
+    const forge = (id: string, edit: (entries: { file: string; bodyHash: string }[]) => void) => {
+      const copy = JSON.parse(JSON.stringify(manifest));
+      edit(copy.entries);
+      copy.backupId = id;
+      copy.checksum = crypto.createHash('sha256').update(JSON.stringify({ ...copy, checksum: undefined })).digest('hex');
+      const entries = [...files].map(([name, data]) => ({ name, data: name === 'manifest.json' ? Buffer.from(JSON.stringify(copy)) : data }));
+      fs.writeFileSync(path.join(backups, `${id}.tar.gz`), zlib.gzipSync(tarPack(entries, new Date())));
+      return id;
+    };
+    const escape = forge('backup_forged_file', entries => { entries[0].file = '../escaped.json'; });
+    expect(verifyBackup(escape)).toMatchObject({ ok: false, issues: [{ file: '../escaped.json', problem: 'invalid-file-name' }] });
+    expect(restoreBackup(escape)).toMatchObject({ success: false });
+    expect(fs.existsSync(path.join(dir, '..', 'escaped.json'))).toBe(false);
+
+    const traversal = forge('backup_forged_hash', entries => { entries[0].bodyHash = `${entries[0].bodyHash.slice(0, 2)}/../../x`; });
+    expect(verifyBackup(traversal)?.issues.map(i => i.problem)).toEqual(['invalid-object-hash']);
+    expect(restoreBackup(traversal, { dryRun: true })).toMatchObject({ success: false });
+    for(const id of [escape, traversal]) fs.unlinkSync(path.join(backups, `${id}.tar.gz`));
+  });
+
+  it('shows the diff against the live catalog on a dry run and restores selected ids only', () => {
+    const backup = created(createBackup());
+    write('bk-one', { title: 'Retitled', body: 'Body of bk-one\nedited line' });
+    fs.unlinkSync(path.join(dir, 'bk-three.json'));
+    write('bk-live-only');
+
+    const dry = restoreBackup(backup.id, { dryRun: true });
+    expect(dry).toMatchObject({ success: true, dryRun: true });
+    expect(dry.plan).toMatchObject({ added: ['bk-three'], unchanged: ['bk-two'], liveOnly: ['bk-live-only'] });
+    expect(dry.plan?.changed).toHaveLength(1);
+    expect(dry.plan?.changed[0].fields.map(f => f.field)).toEqual(['title']);
+    expect(dry.plan?.changed[0].bodyDiff).toContain('+second line');
+    expect(read('bk-one').title).toBe('Retitled');
+    expect(fs.existsSync(path.join(dir, 'bk-three.json'))).toBe(false);
+
+    expect(restoreBackup(backup.id, { ids: ['bk-nope'] })).toMatchObject({ success: false, plan: { missing: ['bk-nope'] } });
+    const selective = restoreBackup(backup.id, { ids: ['bk-one'] });
+    expect(selective).toMatchObject({ success: true, restored: 1 });
+    expect(selective.safetyBackupId).toMatch(/^pre_restore_/);
+    expect(read('bk-one')).toMatchObject({ title: 'Title bk-one', body: 'Body of bk-one\nsecond line' });
+    expect(fs.existsSync(path.join(dir, 'bk-three.json'))).toBe(false);
+
+    expect(restoreBackup(backup.id)).toMatchObject({ success: true, restored: 1, plan: { added: ['bk-three'], changed: [] } });
+    expect(fs.existsSync(path.join(dir, 'bk-live-only.json'))).toBe(true);
+  });
+
+  it('keeps legacy directory backups restorable', () => {
+    const legacy = path.join(backups, 'backup_20240101T000000_000');
+    fs.mkdirSync(legacy);
+    fs.writeFileSync(path.join(legacy, 'bk-legacy.json'), JSON.stringify({ id: 'bk-legacy', title: 'Legacy', body: 'Old format' }, null, 2));
+    fs.writeFileSync(path.join(legacy, 'manifest.json'), JSON.stringify({ createdAt: '2024-01-01T00:00:00.000Z', instructionCount: 1 }));
+    expect(listBackups().find(b => b.id === 'backup_20240101T000000_000')).toMatchObject({ format: 'directory', instructionCount: 1 });
+    expect(verifyBackup('backup_20240101T000000_000')).toMatchObject({ ok: true, checksummed: false });
+    expect(restoreBackup('backup_20240101T000000_000')).toMatchObject({ success: true, restored: 1 });
+    expect(read('bk-legacy').title).toBe('Legacy');
+  });
+
+  it('prunes to the retention limit and drops objects nothing references', () => {
+    write('bk-two', { body: 'Final body of bk-two' });
+    const latest = created(createBackup());
+    const pruned = pruneBackups(1);
+    expect(pruned).toBeGreaterThan(0);
+    expect(listBackups().map(b => b.id)).toEqual([latest.id]);
+    expect(backupStoreStats().objects).toBe(latest.instructionCount);
+    expect(verifyBackup(latest.id)?.ok).toBe(true);
+  });
+
+  it('runs scheduled backups only when the catalog changed and applies retention', async () => {
+    process.env.MCP_BACKUP_INTERVAL_MS = '40';
+    process.env.MCP_BACKUP_RETAIN = '2';
+    reloadRuntimeConfig();
+    const waitFor = async (cond: () => boolean) => { for(let i = 0; i < 100 && !cond(); i++) await new Promise(resolve => setTimeout(resolve, 30)); return cond(); };
+    const scheduled = () => listBackups().filter(b => b.kind === 'scheduled').length;
+    try {
+      startBackupScheduler();
+      await new Promise(resolve => setTimeout(resolve, 150));
+      expect(listBackups()).toHaveLength(1);
+      write('bk-one', { body: 'Scheduled change one' });
+      expect(await waitFor(() => scheduled() === 1)).toBe(true);
+      write('bk-one', { body: 'Scheduled change two' });
+      expect(await waitFor(() => scheduled() === 2)).toBe(true);
+    } finally {
+      stopBackupScheduler();
+    }
+    const list = listBackups();
+    expect(list).toHaveLength(2);
+    expect(list.every(b => b.kind === 'scheduled')).toBe(true);
+  });
+});
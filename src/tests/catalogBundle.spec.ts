@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { tarPack, tarUnpack } from '../services/tarArchive';
+import { callTool } from './testUtils';
+
+// Portable bundles (catalogBundle.ts, instructionMarkdown.ts): dispatcher exportBundle writes Markdown entries with
+// a hashed, signed manifest; instructions/importBundle checks integrity / signature, previews conflicts, remaps ids
+// and applies selectively, and reads hand-written .md directories.
+
+interface Entry { id: string; title: string; body: string; extends?: string; categories: string[]; priority: number }
+interface ExportResponse { count: number; bundle?: string; path?: string; keyId?: string; sha256: string }
+interface PlanEntry { id: string; targetId: string; status: string; action: string; fields?: { field: string }[]; bodyDiff?: string }
+interface ImportResponse {
+  error?: string; reason?: string; issues?: { problem: string; file?: string }[];
+  signature: { status: string; trusted: boolean; keyId?: string };
+  entries: PlanEntry[]; counts: Record<string, number>; missing: string[]; dryRun?: boolean;
+  result?: { imported: number; overwritten: number; errors: unknown[] };
+}
+
+describe('portable instruction bundles', () => {
+  let dir: string; let bundlesDir: string;
+  const keys = ['MCP_MUTATION', 'MCP_BUNDLES_DIR', 'MCP_BUNDLE_REQUIRE_SIGNATURE', 'MCP_BUNDLE_TRUSTED_KEYS', 'MCP_SIGNING_KEY_FILE'] as const;
+  const prev = Object.fromEntries(keys.map(k => [k, process.env[k]]));
+  const reload = async () => { reloadRuntimeConfig(); (await import('../services/catalogContext.js')).invalidate(); };
+  const exportBundle = (params: Record<string, unknown> = {}) => callTool<ExportResponse>('instructions/dispatch', { action:'exportBundle', ids:['bb-base','bb-child'], ...params });
+  const importBundle = (params: Record<string, unknown>) => callTool<ImportResponse>('instructions/importBundle', params);
+  const get = async (id: string) => (await callTool<{ item?: Entry }>('instructions/dispatch', { action:'get', id })).item;
+  const add = (id: string, body: string, extra: Record<string, unknown> = {}) => callTool('instructions/add', {
+    entry:{ id, title:`Bundle ${id}`, body, priority:40, audience:'all', requirement:'recommended', categories:['Release','build'], ...extra }, overwrite:true, lax:true
+  });
+  /** Rebuild a bundle archive after changing its files */
+  const rewrite = (bundle: string, edit: (files: Map<string, Buffer>) => void) => {
+    const files = tarUnpack(zlib.gunzipSync(Buffer.from(bundle, 'base64')));
+    edit(files);
+    return zlib.gzipSync(tarPack(Array.from(files, ([name, data]) => ({ name, data })), new Date())).toString('base64');
+  };
+
+  beforeAll(async () => {
+    dir = path.join(process.cwd(), 'tmp', `catalog-bundle-${Date.now()}`);
+    bundlesDir = path.join(dir, '..', `catalog-bundle-out-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_MUTATION = '1';
+    process.env.MCP_BUNDLES_DIR = bundlesDir;
+    process.env.MCP_SIGNING_KEY_FILE = path.join(dir, '..', `catalog-bundle-key-${Date.now()}.pem`);
+    delete process.env.MCP_BUNDLE_REQUIRE_SIGNATURE;
+    delete process.env.MCP_BUNDLE_TRUSTED_KEYS;
+    await reload();
+    await import('../services/handlers.instructions.js');
+    await import('../services/instructions.dispatcher.js');
+    await add('bb-base', 'Tag releases from main.\n\nUse "vX.Y.Z": no other formats.', { rationale:'Consistent: release tags', links:{ relatedTo:['bb-child'] } });
+    await add('bb-child', 'Sign release tags after tagging.', { extends:'bb-base' });
+  });
+
+  afterAll(() => {
+    for(const k of keys){ if(prev[k] === undefined) delete process.env[k]; else process.env[k] = prev[k]; }
+    reloadRuntimeConfig();
+  });
+
+  it('exports Markdown entries with a hashed, signed manifest that re-imports as unchanged', async () => {
+    const out = await exportBundle({ sign:true });
+    expect(out).toMatchObject({ count:2, keyId: expect.stringMatching(/^[0-9a-f]{16}$/) });
+    const files = tarUnpack(zlib.gunzipSync(Buffer.from(out.bundle!, 'base64')));
+    const manifest = JSON.parse(files.get('manifest.json')!.toString('utf8'));
+    expect(manifest).toMatchObject({ format:'mcp-instruction-bundle', formatVersion:1, count:2 });
+    for(const e of manifest.entries) expect(crypto.createHash('sha256').update(files.get(e.file)!).digest('hex')).toBe(e.sha256);
+    const md = files.get('entries/bb-child.md')!.toString('utf8');
+    expect(md).toMatch(/^---\nid: bb-child\ntitle: Bundle bb-child\npriority: 40\n/);
+    expect(md).toContain('categories: [build, release]');
+    expect(md).toContain('extends: bb-base');
+    expect(md.endsWith('---\n\nSign release tags after tagging.\n')).toBe(true);
+    expect(files.get('entries/bb-base.md')!.toString('utf8')).toContain('rationale: "Consistent: release tags"');
+
+    const plan = await importBundle({ bundle: out.bundle, dryRun:true, requireSignature:true });
+    expect(plan.signature).toEqual({ status:'valid', keyId: out.keyId, trusted:true });
+    expect(plan.counts).toEqual({ new:0, unchanged:2, conflict:0 });
+
+    const written = await exportBundle({ path:'release/tags' });
+    expect(written.path).toBe(path.join(bundlesDir, 'release', 'tags.tar.gz'));
+    expect((await importBundle({ path:'release/tags.tar.gz', dryRun:true })).counts.unchanged).toBe(2);
+    expect(await exportBundle({ path:'../outside' })).toMatchObject({ error:'invalid_path' });
+  });
+
+  it('previews conflicts with field changes and a body diff, and applies only with mode overwrite', async () => {
+    const { bundle } = await exportBundle();
+    await add('bb-base', 'Tag releases from the release branch.', { priority:30, rationale:'Consistent: release tags', links:{ relatedTo:['bb-child'] } });
+
+    const preview = await importBundle({ bundle, dryRun:true });
+    expect(preview.counts).toEqual({ new:0, unchanged:1, conflict:1 });
+    const conflict = preview.entries.find(e => e.id === 'bb-base')!;
+    expect(conflict).toMatchObject({ status:'conflict', action:'skip' });
+    expect(conflict.fields!.map(f => f.field)).toEqual(expect.arrayContaining(['priority','version']));
+    expect(conflict.fields!.map(f => f.field)).not.toContain('title');
+    expect(conflict.bodyDiff).toContain('-Tag releases from the release branch.');
+    expect(conflict.bodyDiff).toContain('+Tag releases from main.');
+
+    const skipped = await importBundle({ bundle });
+    expect(skipped.result).toBeUndefined();
+    expect((await get('bb-base'))!.priority).toBe(30);
+
+    const applied = await importBundle({ bundle, mode:'overwrite' });
+    expect(applied.result).toMatchObject({ overwritten:1, errors:[] });
+    expect(await get('bb-base')).toMatchObject({ priority:40, body:'Tag releases from main.\n\nUse "vX.Y.Z": no other formats.' });
+  });
+
+  it('remaps ids, rewrites references between imported entries and applies a selection', async () => {
+    const { bundle } = await exportBundle();
+    const copied = await importBundle({ bundle, idPrefix:'copy-' });
+    expect(copied.entries.map(e => [e.targetId, e.status])).toEqual([['copy-bb-base','new'], ['copy-bb-child','new']]);
+    expect(copied.result).toMatchObject({ imported:2 });
+    expect((await get('copy-bb-child'))!.extends).toBe('copy-bb-base');
+    expect(await get('copy-bb-base')).toMatchObject({ links:{ relatedTo:['copy-bb-child'] } });
+
+    const picked = await importBundle({ bundle, ids:['bb-child','bb-gone'], remap:{ 'bb-child':'bb-signing' } });
+    expect(picked.entries).toEqual([expect.objectContaining({ id:'bb-child', targetId:'bb-signing', status:'new' })]);
+    expect(picked.missing).toEqual(['bb-gone']);
+    expect((await get('bb-signing'))!.extends).toBe('bb-base'); // bb-base was not part of the selection
+    expect(await importBundle({ bundle, remap:{ 'bb-base':'../escape' } })).toMatchObject({ error:'invalid_remap' });
+  });
+
+  it('rejects tampered bundles and enforces trusted signatures', async () => {
+    const { bundle } = await exportBundle({ sign:true });
+    const tampered = rewrite(bundle!, files => files.set('entries/bb-child.md', Buffer.from(files.get('entries/bb-child.md')!.toString('utf8').replace('Sign', 'Skip'))));
+    expect(await importBundle({ bundle: tampered, dryRun:true })).toMatchObject({ error:'bundle_rejected', reason:'integrity', issues:[{ problem:'hash-mismatch', file:'entries/bb-child.md' }] });
+
+    const unsigned = (await exportBundle({ sign:false })).bundle;
+    expect(await importBundle({ bundle: unsigned, dryRun:true, requireSignature:true })).toMatchObject({ error:'bundle_rejected', reason:'signature_required' });
+
+    // A bundle re-signed by another environment's key: valid, but only trusted once its key id is configured
+    const foreign = crypto.generateKeyPairSync('ed25519');
+    const der = foreign.publicKey.export({ type:'spki', format:'der' });
+    const keyId = crypto.createHash('sha256').update(der).digest('hex').slice(0, 16);
+    const resigned = rewrite(bundle!, files => files.set('manifest.sig.json', Buffer.from(JSON.stringify({
+      alg:'ed25519', keyId, publicKey: der.toString('base64'), value: crypto.sign(null, files.get('manifest.json')!, foreign.privateKey).toString('base64')
+    }))));
+    expect(await importBundle({ bundle: resigned, dryRun:true, requireSignature:true })).toMatchObject({ reason:'untrusted_signer', signature:{ status:'valid', keyId, trusted:false } });
+    process.env.MCP_BUNDLE_TRUSTED_KEYS = keyId.toUpperCase();
+    process.env.MCP_BUNDLE_REQUIRE_SIGNATURE = '1';
+    reloadRuntimeConfig();
+    try {
+      expect((await importBundle({ bundle: resigned, dryRun:true })).signature).toEqual({ status:'valid', keyId, trusted:true });
+      const forged = rewrite(resigned, files => files.set('manifest.json', Buffer.from(files.get('manifest.json')!.toString('utf8').replace('"count": 2', '"count": 3'))));
+      expect(await importBundle({ bundle: forged, dryRun:true })).toMatchObject({ error:'bundle_rejected', reason:'invalid_signature' });
+    } finally {
+      delete process.env.MCP_BUNDLE_TRUSTED_KEYS; delete process.env.MCP_BUNDLE_REQUIRE_SIGNATURE;
+      reloadRuntimeConfig();
+    }
+  });
+
+  it('imports a directory of hand-written Markdown instructions', async () => {
+    const repo = path.join(bundlesDir, 'team-repo');
+    fs.mkdirSync(path.join(repo, 'security'), { recursive: true });
+    fs.writeFileSync(path.join(repo, 'README.md'), '# Team instructions\n');
+    fs.writeFileSync(path.join(repo, 'security', 'md-secrets.md'), [
+      '---',
+      '# owned by the platform team',
+      'title: Never commit secrets',
+      'priority: 10',
+      'requirement: mandatory',
+      'owner: platform-team',
+      'categories:',
+      '  - Security',
+      '  - git',
+      'rationale: >',
+      '  Leaked credentials must be',
+      '  rotated immediately.',
+      'links:',
+      '  requires: [md-precommit]',
+      'promptArguments:',
+      '  - name: repo',
+      '    required: true',
+      '---',
+      '',
+      'Run the secret scanner before every push.',
+      ''
+    ].join('\n'));
+    fs.writeFileSync(path.join(repo, 'md-precommit.md'), '# Install the pre-commit hooks\n\nRun `make hooks` once per clone.\n');
+
+    const plan = await importBundle({ path:'team-repo', dryRun:true });
+    expect(plan).toMatchObject({ signature:{ status:'absent', trusted:false }, counts:{ new:2, unchanged:0, conflict:0 }, dryRun:true });
+    expect(plan.entries.map(e => e.id)).toEqual(['md-precommit', 'md-secrets']);
+    expect(await importBundle({ path:'team-repo', requireSignature:true, dryRun:true })).toMatchObject({ reason:'signature_required' });
+
+    expect((await importBundle({ path:'team-repo' })).result).toMatchObject({ imported:2, errors:[] });
+    expect(await get('md-secrets')).toMatchObject({
+      title:'Never commit secrets', priority:10, requirement:'mandatory', owner:'platform-team', categories:['git','security'],
+      rationale:'Leaked credentials must be rotated immediately.', links:{ requires:['md-precommit'] },
+      promptArguments:[{ name:'repo', required:true }], body:'Run the secret scanner before every push.'
+    });
+    expect(await get('md-precommit')).toMatchObject({ title:'Install the pre-commit hooks', priority:50, audience:'all' });
+
+    fs.writeFileSync(path.join(repo, 'md-broken.md'), '---\ntitle: [unclosed\n---\nbody\n');
+    expect(await importBundle({ path:'team-repo', dryRun:true })).toMatchObject({ reason:'integrity', issues:[{ problem:'parse-error', file:'md-broken.md' }] });
+    expect(await importBundle({ path:'../', dryRun:true })).toMatchObject({ error:'bundle_unreadable' });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { callTool } from './testUtils';
+
+// Signed catalogs (catalogSigning.ts): Ed25519-signed manifest, unsigned / altered entries reported or refused on
+// load, manifest/refresh acceptUnverified, and the hash-chained audit log checked by audit/verify.
+
+interface Item { id: string; body: string }
+interface ListResponse { count: number; items: Item[] }
+interface SignatureReport { mode: string; manifest: string; issues: { id: string; reason: string }[]; refused: number }
+
+describe('signed catalogs and audit chain', () => {
+  let dir: string; let auditFile: string;
+  const keys = ['MCP_MUTATION', 'MCP_MANIFEST_SIGNING', 'MCP_SIGNING_KEY_FILE', 'INSTRUCTIONS_AUDIT_LOG', 'MCP_AUDIT_CHAIN'] as const;
+  const prev = Object.fromEntries(keys.map(k => [k, process.env[k]]));
+  const manifestFile = path.join(process.cwd(), 'snapshots', 'catalog-manifest.json');
+  const ids = (r: { items: Item[] }) => r.items.map(i => i.id).filter(id => id.startsWith('sg-')).sort();
+  const list = () => callTool<ListResponse>('instructions/dispatch', { action:'list' });
+  const reload = async () => { reloadRuntimeConfig(); (await import('../services/catalogContext.js')).invalidate(); };
+  const writeExternal = (id: string, body: string) => {
+    const record = { ...JSON.parse(fs.readFileSync(path.join(dir, 'sg-one.json'), 'utf8')), id, body, sourceHash: crypto.createHash('sha256').update(body, 'utf8').digest('hex') };
+    fs.writeFileSync(path.join(dir, `${id}.json`), JSON.stringify(record, null, 2));
+  };
+
+  beforeAll(async () => {
+    dir = path.join(process.cwd(), 'tmp', `catalog-signing-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    auditFile = path.join(dir, '..', `catalog-signing-audit-${Date.now()}.jsonl`);
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_MUTATION = '1';
+    process.env.MCP_MANIFEST_SIGNING = 'refuse';
+    process.env.MCP_SIGNING_KEY_FILE = path.join(dir, '..', `catalog-signing-key-${Date.now()}.pem`);
+    process.env.INSTRUCTIONS_AUDIT_LOG = auditFile;
+    delete process.env.MCP_AUDIT_CHAIN;
+    await reload();
+    await import('../services/handlers.instructions.js');
+    await import('../services/instructions.dispatcher.js');
+    await import('../services/handlers.integrity.js');
+    await import('../services/handlers.manifest.js');
+    for(const id of ['sg-one', 'sg-two']){
+      await callTool('instructions/add', { entry:{ id, title:`Signed ${id}`, body:`Release signing procedure for ${id}.`, priority:50, audience:'all', requirement:'recommended', categories:['release'] }, lax:true });
+    }
+  });
+
+  afterAll(() => {
+    for(const k of keys){ if(prev[k] === undefined) delete process.env[k]; else process.env[k] = prev[k]; }
+    reloadRuntimeConfig();
+  });
+
+  it('signs the manifest and keeps entries written by the server', async () => {
+    const manifest = JSON.parse(fs.readFileSync(manifestFile, 'utf8'));
+    expect(manifest.signature).toMatchObject({ alg:'ed25519' });
+    expect(manifest.entries.map((e: { id: string }) => e.id)).toEqual(expect.arrayContaining(['sg-one','sg-two']));
+    await reload();
+    expect(ids(await list())).toEqual(['sg-one','sg-two']);
+    expect((await callTool<{ signature: SignatureReport }>('manifest/status', {})).signature).toMatchObject({ mode:'refuse', manifest:'valid', refused:0 });
+  });
+
+  it('refuses altered and unsigned entries, reports them in sign mode, and re-signs on request', async () => {
+    writeExternal('sg-one', 'Skip the signing step for sg-one.');
+    writeExternal('sg-rogue', 'Unsigned instruction dropped into the directory.');
+    await reload();
+    expect(ids(await list())).toEqual(['sg-two']);
+    const verify = await callTool<{ signature: SignatureReport }>('integrity/verify', {});
+    expect(verify.signature.issues.filter(i => i.id.startsWith('sg-')).sort((a, b) => a.id.localeCompare(b.id))).toEqual([{ id:'sg-one', reason:'altered' }, { id:'sg-rogue', reason:'unsigned' }]);
+
+    process.env.MCP_MANIFEST_SIGNING = 'sign';
+    await reload();
+    expect(ids(await list())).toEqual(['sg-one','sg-rogue','sg-two']);
+    expect((await callTool<{ signature: SignatureReport }>('manifest/status', {})).signature).toMatchObject({ mode:'sign', refused:0 });
+
+    process.env.MCP_MANIFEST_SIGNING = 'refuse';
+    await reload();
+    const refreshed = await callTool<{ signed: boolean; accepted: string[] }>('manifest/refresh', { acceptUnverified:true });
+    expect(refreshed.signed).toBe(true);
+    expect(refreshed.accepted).toEqual(expect.arrayContaining(['sg-one','sg-rogue']));
+    await reload();
+    expect(ids(await list())).toEqual(['sg-one','sg-rogue','sg-two']);
+  });
+
+  it('refuses entries whose governance fields were edited outside the server', async () => {
+    const file = path.join(dir, 'sg-two.json');
+    const original = fs.readFileSync(file, 'utf8');
+    fs.writeFileSync(file, JSON.stringify({ ...JSON.parse(original), classification:'public', status:'approved', owner:'someone-else' }, null, 2));
+    try {
+      await reload();
+      expect(ids(await list())).toEqual(['sg-one','sg-rogue']);
+      expect((await callTool<{ signature: SignatureReport }>('integrity/verify', {})).signature.issues.filter(i => i.id.startsWith('sg-'))).toEqual([{ id:'sg-two', reason:'altered' }]);
+    } finally {
+      fs.writeFileSync(file, original);
+      await reload();
+    }
+    expect(ids(await list())).toEqual(['sg-one','sg-rogue','sg-two']);
+  });
+
+  it('treats a manifest with a broken signature as unsigned', async () => {
+    const original = fs.readFileSync(manifestFile, 'utf8');
+    const manifest = JSON.parse(original);
+    manifest.entries.push({ id:'sg-forged', bodyHash:'0'.repeat(64) });
+    manifest.count++;
+    fs.writeFileSync(manifestFile, JSON.stringify(manifest, null, 2));
+    try {
+      await reload();
+      expect(ids(await list())).toEqual([]);
+      expect((await callTool<{ signature: SignatureReport }>('manifest/status', {})).signature.manifest).toBe('invalid');
+    } finally {
+      fs.writeFileSync(manifestFile, original);
+      await reload();
+    }
+  });
+
+  it('detects edited, deleted and truncated audit log lines', async () => {
+    expect(await callTool('audit/verify', {})).toMatchObject({ ok:true, head:'match', issues:[] });
+    const lines = fs.readFileSync(auditFile, 'utf8').split('\n').filter(Boolean);
+    expect(lines.length).toBeGreaterThanOrEqual(2);
+    expect(JSON.parse(lines[1]).prev).toBe(JSON.parse(lines[0]).hash);
+
+    const edited = [...lines]; edited[0] = edited[0].replace('"add"', '"remove"');
+    fs.writeFileSync(auditFile, edited.join('\n') + '\n');
+    expect(await callTool('audit/verify', {})).toMatchObject({ ok:false, issues:[{ line:1, problem:'hash-mismatch' }] });
+
+    fs.writeFileSync(auditFile, lines.slice(1).join('\n') + '\n');
+    expect(await callTool('audit/verify', {})).toMatchObject({ ok:false, issues:[{ line:1, problem:'broken-link' }] });
+
+    fs.writeFileSync(auditFile, lines.slice(0, -1).join('\n') + '\n');
+    expect(await callTool('audit/verify', {})).toMatchObject({ ok:false, issues:[], head:'mismatch' });
+
+    fs.writeFileSync(auditFile, lines.join('\n') + '\n');
+    expect(await callTool('audit/verify', {})).toMatchObject({ ok:true });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { unifiedDiff, mergeText, diffFields } from '../services/contentDiff';
+import { callTool } from './testUtils';
+
+// Content diffs + optimistic concurrency (contentDiff.ts / catalogRevisions.ts):
+//  - unified body diff, structured field diff, diff3-style text merge
+//  - dispatcher diff mode=content between catalog hashes and between entry versions
+//  - instructions/add expectedSourceHash: three-way merge of concurrent edits, conflicts rejected
+
+interface AddResponse { error?: string; overwritten?: boolean; merge?: { keptCurrent: string[]; bodyMerged: boolean }; conflict?: { reason: string; fields?: { field: string }[]; body?: string } }
+interface Entry { id: string; body: string; owner: string; sourceHash: string; version: string; priority: number }
+
+const BODY = ['# Deploy checklist', 'Run unit tests.', 'Tag the release.', 'Update the changelog.', 'Notify the team.'].join('\n');
+
+describe('content diff and three-way merge', () => {
+  let cat: typeof import('../services/catalogContext');
+  const prevMutation = process.env.MCP_MUTATION;
+
+  beforeAll(async () => {
+    const dir = path.join(process.cwd(),'tmp', `content-diff-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_MUTATION = '1';
+    reloadRuntimeConfig();
+    (await import('../services/catalogRevisions.js')).__resetCatalogRevisions();
+    cat = await import('../services/catalogContext.js');
+    cat.invalidate();
+    await import('../services/handlers.instructions.js');
+    await import('../services/instructions.dispatcher.js');
+    await callTool('instructions/add', { entry:{ id:'deploy', title:'Deploy', body: BODY, owner:'alice', categories:['release'] }, lax:true });
+  });
+
+  afterAll(() => {
+    if(prevMutation === undefined) delete process.env.MCP_MUTATION; else process.env.MCP_MUTATION = prevMutation;
+    reloadRuntimeConfig();
+  });
+
+  it('renders unified diffs, field diffs and diff3 merges', () => {
+    expect(unifiedDiff('a\nb\nc', 'a\nB\nc', { fromLabel:'old', toLabel:'new' })).toBe('--- old\n+++ new\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n');
+    expect(unifiedDiff('same', 'same')).toBe('');
+    expect(diffFields({ owner:'a', categories:['x','y'] }, { owner:'b', categories:['Y','x'] })).toEqual([{ field:'owner', from:'a', to:'b' }]);
+    expect(mergeText('1\n2\n3\n4', 'one\n2\n3\n4', '1\n2\n3\nfour')).toEqual({ clean:true, text:'one\n2\n3\nfour', conflicts:0 });
+    const clash = mergeText('1\n2\n3', '1\ntwo\n3', '1\nTWO\n3');
+    expect(clash.clean).toBe(false);
+    expect(clash.text).toBe('1\n<<<<<<< current\ntwo\n=======\nTWO\n>>>>>>> incoming\n3');
+  });
+
+  it('diffs content between catalog hashes and entry versions', async () => {
+    const before = cat.ensureLoaded().hash;
+    await callTool('instructions/add', { entry:{ id:'deploy', body: BODY.replace('Tag the release.', 'Tag and sign the release.'), owner:'bob' }, overwrite:true, lax:true });
+    const res = await callTool<{ changed: { id: string; bodyDiff: string; fields: { field: string; from: unknown; to: unknown }[] }[]; added: string[] }>('instructions/dispatch', { action:'diff', mode:'content', fromHash: before });
+    expect(res.added).toEqual([]);
+    expect(res.changed.map(c => c.id)).toEqual(['deploy']);
+    expect(res.changed[0].bodyDiff).toContain('-Tag the release.\n+Tag and sign the release.');
+    expect(res.changed[0].fields).toEqual(expect.arrayContaining([{ field:'owner', from:'alice', to:'bob' }, { field:'version', from:'1.0.0', to:'1.0.1' }]));
+
+    const byVersion = await callTool<{ bodyDiff: string }>('instructions/dispatch', { action:'diff', mode:'content', id:'deploy', fromVersion:'1.0.0', toVersion:'1.0.1' });
+    expect(byVersion.bodyDiff).toContain('+Tag and sign the release.');
+    const unknown = await callTool<{ error: string }>('instructions/dispatch', { action:'diff', mode:'content', fromHash:'f'.repeat(64) });
+    expect(unknown.error).toBe('unknown_hash');
+  });
+
+  it('merges a stale overwrite with a concurrent edit instead of clobbering it', async () => {
+    const seen = cat.ensureLoaded().byId.get('deploy') as Entry;
+    // Another agent edits the first line and the owner...
+    await callTool('instructions/add', { entry:{ id:'deploy', body: seen.body.replace('# Deploy checklist', '# Production deploy checklist'), owner:'carol' }, overwrite:true, lax:true });
+    // ...while this agent, still holding the old revision, edits the last line.
+    const stale = await callTool<AddResponse>('instructions/add', { entry:{ id:'deploy', body: seen.body.replace('Notify the team.', 'Notify the team in #releases.') }, overwrite:true, lax:true, expectedSourceHash: seen.sourceHash });
+    expect(stale.error).toBeUndefined();
+    expect(stale.overwritten).toBe(true);
+    expect(stale.merge).toMatchObject({ bodyMerged:true });
+    const merged = cat.ensureLoaded().byId.get('deploy') as Entry;
+    expect(merged.body.split('\n')[0]).toBe('# Production deploy checklist');
+    expect(merged.body).toContain('Notify the team in #releases.');
+    expect(merged.owner).toBe('carol');
+
+    const clash = await callTool<AddResponse>('instructions/add', { entry:{ id:'deploy', body: seen.body.replace('# Deploy checklist', '# Staging deploy checklist') }, overwrite:true, lax:true, expectedSourceHash: seen.sourceHash });
+    expect(clash.error).toBe('source_hash_conflict');
+    expect(clash.conflict?.reason).toBe('merge_conflict');
+    expect(clash.conflict?.fields?.map(f => f.field)).toEqual(['body']);
+    expect(clash.conflict?.body).toContain('<<<<<<< current\n# Production deploy checklist\n=======\n# Staging deploy checklist\n>>>>>>> incoming');
+    expect((cat.ensureLoaded().byId.get('deploy') as Entry).sourceHash).toBe(merged.sourceHash);
+  });
+});
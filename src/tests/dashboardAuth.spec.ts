@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { createApiKey, dashboardAuthMonitor, ensureDashboardKeys } from '../dashboard/server/DashboardAuth';
+
+// Dashboard API auth (DashboardAuth.ts): API keys and HMAC bearer tokens, per-route viewer / editor / admin roles,
+// the viewer check on /tools.json and the /ws upgrade, credential failures reported to SecurityMonitor with lockout,
+// and admin sessions bound to the authenticated key.
+
+describe('dashboard authentication and roles', () => {
+  let dir: string; let server: http.Server; let base: string;
+  const keys = ['MCP_MUTATION', 'MCP_DASHBOARD_AUTH', 'MCP_DASHBOARD_KEYS_FILE', 'MCP_DASHBOARD_TOKEN_SECRET'] as const;
+  const prev = Object.fromEntries(keys.map(k => [k, process.env[k]]));
+  const key: Record<'viewer' | 'editor' | 'admin', string> = { viewer:'', editor:'', admin:'' };
+  const call = (method: string, route: string, credential?: string, body?: unknown) => fetch(`${base}${route}`, {
+    method,
+    headers: { ...(credential ? { Authorization:`Bearer ${credential}` } : {}), ...(body ? { 'Content-Type':'application/json' } : {}) },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const authRule = () => dashboardAuthMonitor().getSecurityRules().find(r => r.id === 'authentication_anomaly')!;
+
+  beforeAll(async () => {
+    dir = path.join(process.cwd(), 'tmp', `dashboard-auth-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_MUTATION = '1';
+    process.env.MCP_DASHBOARD_AUTH = '1';
+    process.env.MCP_DASHBOARD_KEYS_FILE = path.join(dir, 'keys.json');
+    process.env.MCP_DASHBOARD_TOKEN_SECRET = 'dashboard-auth-test-secret';
+    reloadRuntimeConfig();
+    (await import('../services/catalogContext.js')).invalidate();
+    dashboardAuthMonitor().updateSecurityRule('authentication_anomaly', { config:{ ...authRule().config, maxFailedAttempts: 1000 } });
+    for(const role of ['viewer', 'editor', 'admin'] as const){
+      const created = createApiKey(`${role}-user`, role);
+      if('error' in created) throw new Error(created.error);
+      key[role] = created.key;
+    }
+    const express = (await import('express')).default;
+    const { createApiRoutes } = await import('../dashboard/server/ApiRoutes.js');
+    const app = express();
+    app.use('/api', createApiRoutes());
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    for(const k of keys){ if(prev[k] === undefined) delete process.env[k]; else process.env[k] = prev[k]; }
+    reloadRuntimeConfig();
+  });
+
+  it('bootstraps a hashed admin key and rejects requests without valid credentials', async () => {
+    expect(ensureDashboardKeys()).toBe(4);
+    const stored = fs.readFileSync(process.env.MCP_DASHBOARD_KEYS_FILE!, 'utf8');
+    expect(JSON.parse(stored).keys.map((k: { id: string }) => k.id)).toEqual(['admin', 'viewer-user', 'editor-user', 'admin-user']);
+    expect(stored).not.toContain(key.admin);
+
+    expect((await call('GET', '/status')).status).toBe(200);
+    const missing = await call('GET', '/instructions');
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toMatch(/^Bearer/);
+    expect(await (await call('GET', '/instructions', 'mcpk_not-a-key')).json()).toMatchObject({ code:'invalid_key' });
+    expect((await fetch(`${base}/instructions`, { headers:{ 'X-API-Key': key.viewer } })).status).toBe(200);
+  });
+
+  it('enforces viewer / editor / admin per route', async () => {
+    const entry = { name:'auth-entry', content:{ id:'auth-entry', title:'Auth entry', body:'Rotate dashboard keys quarterly.', priority:50, audience:'all', requirement:'recommended', categories:['security'] } };
+    expect((await call('GET', '/instructions', key.viewer)).status).toBe(200);
+    expect(await (await call('POST', '/instructions', key.viewer, entry)).json()).toMatchObject({ code:'insufficient_role' });
+    expect((await call('POST', '/instructions', key.editor, entry)).status).toBeLessThan(300);
+    expect((await call('GET', '/admin/sessions', key.editor)).status).toBe(403);
+    expect((await call('POST', '/admin/restart', key.editor)).status).toBe(403);
+    expect((await call('POST', '/admin/maintenance/restore', key.viewer, { backupId:'x' })).status).toBe(403);
+    expect((await call('DELETE', '/instructions/auth-entry', key.editor)).status).toBe(200);
+    expect((await call('GET', '/admin/auth/keys', key.admin)).status).toBe(200);
+  });
+
+  it('issues narrowed HMAC tokens that stop working when their key is revoked', async () => {
+    const issued = await (await call('POST', '/auth/token', key.editor, { role:'viewer', ttlSec:120 })).json() as { token: string; role: string };
+    expect(issued.role).toBe('viewer');
+    expect(await (await call('GET', '/auth/whoami', issued.token)).json()).toMatchObject({ identity:{ id:'editor-user', role:'viewer', method:'token' } });
+    expect((await call('POST', '/instructions', issued.token, { name:'t', content:{} })).status).toBe(403);
+    expect((await call('POST', '/auth/token', key.viewer, { role:'admin' })).status).toBe(403);
+    const tampered = `${issued.token.slice(0, -8)}${issued.token.endsWith('AAAAAAAA') ? 'BBBBBBBB' : 'AAAAAAAA'}`;
+    expect(await (await call('GET', '/instructions', tampered)).json()).toMatchObject({ code:'invalid_token' });
+
+    const created = await (await call('POST', '/admin/auth/keys', key.admin, { id:'temp-editor', role:'editor' })).json() as { key: string };
+    const temp = await (await call('POST', '/auth/token', created.key, {})).json() as { token: string };
+    expect((await call('GET', '/instructions', temp.token)).status).toBe(200);
+    expect((await call('DELETE', '/admin/auth/keys/temp-editor', key.admin)).status).toBe(200);
+    expect((await call('GET', '/instructions', temp.token)).status).toBe(401);
+  });
+
+  it('ties admin sessions to the authenticated key', async () => {
+    const res = await (await call('POST', '/admin/sessions', key.admin, { userId:'someone-else' })).json() as { session: { userId: string; permissions: string[] } };
+    expect(res.session).toMatchObject({ userId:'admin-user', permissions:['read','write','admin'] });
+  });
+
+  it('takes credentials from headers only and guards /tools.json and the /ws upgrade', async () => {
+    expect((await fetch(`${base}/instructions?access_token=${encodeURIComponent(key.viewer)}`)).status).toBe(401);
+
+    const WebSocket = (await import('ws')).default;
+    const { createDashboardServer } = await import('../dashboard/server/DashboardServer.js');
+    const dashboard = createDashboardServer({ host:'127.0.0.1', port: 0, maxPortTries: 3, enableWebSockets: true });
+    const started = await dashboard.start();
+    const origin = started.url.replace(/\/$/, '');
+    // resolves with the HTTP status the upgrade was refused with, or 101 once the socket opens
+    const upgrade = (query = '', headers: Record<string, string> = {}) => new Promise<number>((resolve, reject) => {
+      const ws = new WebSocket(`${origin.replace(/^http/, 'ws')}/ws${query}`, { headers });
+      ws.on('open', () => { ws.close(); resolve(101); });
+      ws.on('unexpected-response', (_req, res) => { resolve(res.statusCode ?? 0); res.resume(); });
+      ws.on('error', reject);
+    });
+    try {
+      expect((await fetch(`${origin}/tools.json`)).status).toBe(401);
+      expect((await fetch(`${origin}/tools.json`, { headers:{ Authorization:`Bearer ${key.viewer}` } })).status).toBe(200);
+      expect(await upgrade()).toBe(401);
+      expect(await upgrade('?access_token=mcpk_not-a-key')).toBe(401);
+      expect(await upgrade('', { 'X-API-Key': key.viewer })).toBe(101);
+      expect(await upgrade(`?access_token=${encodeURIComponent(key.viewer)}`)).toBe(101);
+      // the failure reaches SecurityMonitor without the query string
+      const paths = dashboardAuthMonitor().getSystemHealth().alerts.filter(a => a.type === 'authentication_failure').map(a => a.details.path);
+      expect(paths).toContain('/ws');
+      expect(paths.some(p => String(p).includes('access_token'))).toBe(false);
+    } finally {
+      await started.close();
+    }
+  });
+
+  it('reports invalid credentials to SecurityMonitor and locks out repeated offenders', async () => {
+    const reasons = () => new Set(dashboardAuthMonitor().getSystemHealth().alerts.filter(a => a.type === 'authentication_failure').map(a => a.details.reason));
+    expect([...reasons()].sort()).toEqual(['invalid_key', 'invalid_token']);
+    dashboardAuthMonitor().updateSecurityRule('authentication_anomaly', { config:{ ...authRule().config, maxFailedAttempts: 1, lockoutDuration: 300 } });
+    try {
+      // A viewer polling admin routes, or a page loaded before the key is entered, never locks the source out
+      expect((await call('GET', '/admin/stats', key.viewer)).status).toBe(403);
+      expect((await call('GET', '/instructions')).status).toBe(401);
+      expect((await call('GET', '/instructions', key.admin)).status).toBe(200);
+      expect([...reasons()].sort()).toEqual(['invalid_key', 'invalid_token']);
+      expect((await call('GET', '/instructions', 'mcpk_wrong')).status).toBe(401);
+      expect((await call('GET', '/instructions', key.admin)).status).toBe(429);
+      expect(dashboardAuthMonitor().getSystemHealth().alerts.some(a => a.severity === 'high' && /locked out/.test(a.actionTaken ?? ''))).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 350));
+      expect((await call('GET', '/instructions', key.admin)).status).toBe(200);
+    } finally {
+      dashboardAuthMonitor().updateSecurityRule('authentication_anomaly', { config:{ ...authRule().config, maxFailedAttempts: 5, lockoutDuration: 900000 } });
+    }
+  });
+});
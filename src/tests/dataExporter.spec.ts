@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { DataExporter } from '../dashboard/export/DataExporter';
+import { crc32 } from '../dashboard/export/XlsxWorkbook';
+
+// Data exports (DataExporter.ts, XlsxWorkbook.ts, PdfDocument.ts): genuine .xlsx workbooks with typed columns and
+// multiple sheets, and paginated PDFs rendered from report templates (tables, metrics, charts), all produced offline.
+
+type NewConfig = Parameters<DataExporter['createExportConfig']>[0];
+
+/** Read every entry of a zip through its central directory, checking CRC-32 and sizes */
+function unzip(buf: Buffer): Map<string, string> {
+  const end = buf.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  expect(end).toBeGreaterThan(0);
+  const count = buf.readUInt16LE(end + 10);
+  let offset = buf.readUInt32LE(end + 16);
+  const entries = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    expect(buf.readUInt32LE(offset)).toBe(0x02014b50);
+    const method = buf.readUInt16LE(offset + 10);
+    const crc = buf.readUInt32LE(offset + 16);
+    const size = buf.readUInt32LE(offset + 20);
+    const nameLength = buf.readUInt16LE(offset + 28);
+    const local = buf.readUInt32LE(offset + 42);
+    const name = buf.toString('utf8', offset + 46, offset + 46 + nameLength);
+    expect(buf.readUInt32LE(local)).toBe(0x04034b50);
+    const start = local + 30 + buf.readUInt16LE(local + 26) + buf.readUInt16LE(local + 28);
+    const raw = buf.subarray(start, start + size);
+    const data = method === 8 ? zlib.inflateRawSync(raw) : raw;
+    expect(crc32(data)).toBe(crc);
+    entries.set(name, data.toString('utf8'));
+    offset += 46 + nameLength + buf.readUInt16LE(offset + 30) + buf.readUInt16LE(offset + 32);
+  }
+  return entries;
+}
+
+/** Check the xref table points at every object and return the inflated content stream of each page */
+function readPdf(buf: Buffer): { pages: string[]; catalogCount: number; raw: string } {
+  const raw = buf.toString('latin1');
+  expect(raw.startsWith('%PDF-1.4\n')).toBe(true);
+  expect(raw.trimEnd().endsWith('%%EOF')).toBe(true);
+  const startxref = Number(/startxref\n(\d+)\n%%EOF/.exec(raw)![1]);
+  expect(raw.slice(startxref, startxref + 4)).toBe('xref');
+  const [, first, size] = /xref\n(\d+) (\d+)\n/.exec(raw.slice(startxref))!;
+  expect(Number(first)).toBe(0);
+  const table = raw.slice(startxref).split('\n').slice(3, 2 + Number(size));
+  table.forEach((entry, i) => expect(raw.slice(Number(entry.slice(0, 10)), Number(entry.slice(0, 10)) + 12)).toMatch(new RegExp(`^${i + 1} 0 obj\\n`)));
+
+  const pages: string[] = [];
+  const pageRe = /\/Type \/Page \/Parent 2 0 R[^\n]*\/Contents (\d+) 0 R/g;
+  for (let m = pageRe.exec(raw); m; m = pageRe.exec(raw)) {
+    const objectStart = raw.indexOf(`\n${m[1]} 0 obj\n`) + 1;
+    const length = Number(/\/Length (\d+)/.exec(raw.slice(objectStart))![1]);
+    const streamStart = raw.indexOf('stream\n', objectStart) + 7;
+    pages.push(zlib.inflateSync(buf.subarray(streamStart, streamStart + length)).toString('latin1'));
+  }
+  return { pages, catalogCount: Number(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/.exec(raw)![1]), raw };
+}
+
+describe('DataExporter xlsx and pdf output', () => {
+  let dir: string;
+  const exporter = new DataExporter();
+  const run = async (config: Partial<NewConfig>) => {
+    const configId = exporter.createExportConfig({
+      name: 'export', format: 'json', dataSource: 'metrics', filters: [], columns: [], compression: false, encryption: false,
+      destination: { type: 'local', config: { path: dir } }, ...config
+    });
+    const job = exporter.getExportJob(await exporter.executeExport(configId))!;
+    expect(job).toMatchObject({ status: 'completed' });
+    await new Promise(resolve => setTimeout(resolve, 2)); // config ids are millisecond based
+    return job.outputPath!;
+  };
+
+  beforeAll(() => {
+    dir = path.join(process.cwd(), 'tmp', `data-exporter-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+  });
+
+  it('writes a typed multi-sheet xlsx workbook instead of a renamed csv', async () => {
+    // standard CRC-32 check value, so unzip() below verifies against a known-good checksum
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    const before = Date.now();
+    const output = await run({
+      name: 'metrics-workbook',
+      format: 'excel',
+      columns: [
+        { field: 'timestamp', header: 'Timestamp', type: 'date', format: 'ISO', aggregation: 'max' },
+        { field: 'metric_type', header: 'Metric Type', type: 'string', aggregation: 'group' },
+        { field: 'value', header: 'Value', type: 'number', format: '0.00', aggregation: 'avg' },
+        { field: 'unit', header: 'Unit', type: 'string' }
+      ]
+    });
+    expect(output.endsWith('.xlsx')).toBe(true);
+    expect(fs.readdirSync(dir).filter(f => /\.(csv|excel)$/.test(f))).toEqual([]);
+
+    const parts = unzip(fs.readFileSync(output));
+    expect(Array.from(parts.keys())).toEqual(expect.arrayContaining([
+      '[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/styles.xml',
+      'xl/worksheets/sheet1.xml', 'xl/worksheets/sheet2.xml', 'xl/worksheets/sheet3.xml'
+    ]));
+    expect(Array.from(parts.get('xl/workbook.xml')!.matchAll(/<sheet name="([^"]+)"/g), m => m[1])).toEqual(['Data', 'Summary', 'By Metric Type']);
+    expect(parts.get('[Content_Types].xml')).toContain('/xl/worksheets/sheet3.xml');
+    expect(parts.get('xl/styles.xml')).toContain('formatCode="yyyy-mm-dd&quot;T&quot;hh:mm:ss"');
+    expect(parts.get('xl/styles.xml')).toContain('formatCode="0.00"');
+
+    const data = parts.get('xl/worksheets/sheet1.xml')!;
+    expect(data).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Timestamp</t></is></c>');
+    expect(data.match(/<row r="/g)).toHaveLength(101);
+    const serial = Number(/<c r="A2" s="\d+"><v>([\d.]+)<\/v><\/c>/.exec(data)![1]);
+    expect(Math.abs(serial - (before / 86400000 + 25569))).toBeLessThan(1);
+    expect(data).toMatch(/<c r="C2" s="\d+"><v>[\d.]+<\/v><\/c>/);
+    expect(data).toContain('<c r="B2" t="inlineStr"><is><t xml:space="preserve">cpu</t></is></c>');
+
+    const summary = parts.get('xl/worksheets/sheet2.xml')!;
+    expect(summary).toContain('Value (avg)');
+    expect(summary).toMatch(/Records<\/t><\/is><\/c><c r="B5"><v>100<\/v>/);
+    expect(parts.get('xl/worksheets/sheet3.xml')!.match(/<c r="B\d+"><v>25<\/v><\/c>/g)).toHaveLength(4);
+  });
+
+  it('renders a report template into a paginated pdf with header, footer, metrics and chart', async () => {
+    const output = await run({
+      name: 'security-report',
+      format: 'pdf',
+      dataSource: 'security',
+      template: 'security_analysis',
+      columns: [
+        { field: 'id', header: 'Threat ID', type: 'string' },
+        { field: 'severity', header: 'Severity', type: 'string', aggregation: 'group' },
+        { field: 'timestamp', header: 'Detected', type: 'date', format: 'readable' }
+      ]
+    });
+    expect(output.endsWith('.pdf')).toBe(true);
+    expect(fs.readdirSync(dir).filter(f => f.endsWith('.html'))).toEqual([]);
+
+    const pdf = readPdf(fs.readFileSync(output));
+    expect(pdf.catalogCount).toBe(pdf.pages.length);
+    expect(pdf.raw).toContain('/BaseFont /Times-Roman');
+    expect(pdf.raw).toContain('/Title (Security Analysis Report)');
+    pdf.pages.forEach((page, i) => {
+      expect(page).toContain(`(Confidential | Page ${i + 1} of ${pdf.pages.length}) Tj`);
+      expect(page).toContain('(Security Analysis Report - Last 7 days) Tj');
+    });
+    const content = pdf.pages.join('\n');
+    expect(content).toContain('(Total Records) Tj');
+    expect(content).toMatch(/\(By Severity\) Tj[\s\S]*\(critical: 5, high: 5, low: 5, medium: 5\) Tj/);
+    expect(content).toContain('(authentication_failure) Tj'); // timeline legend, one line per threat type
+    expect((content.match(/ l S/g) ?? []).length).toBeGreaterThan(3);
+    expect(content).toContain('(This is a security_analysis section with 20 records.) Tj');
+  });
+
+  it('plots requested metrics and skips those without data', async () => {
+    const pdf = readPdf(fs.readFileSync(await run({ name: 'daily', format: 'pdf', template: 'daily_summary' })));
+    const content = pdf.pages.join('\n');
+    expect(pdf.raw).toContain('/BaseFont /Helvetica-Bold');
+    expect(content).toContain('(cpu) Tj');
+    expect(content).toContain('(memory) Tj');
+    expect(content).not.toContain('(api_latency) Tj');
+  });
+
+  it('breaks long tables across pages and repeats the header row', async () => {
+    const pdf = readPdf(fs.readFileSync(await run({
+      name: 'metrics-table',
+      format: 'pdf',
+      columns: [
+        { field: 'id', header: 'Metric ID', type: 'string' },
+        { field: 'metric_type', header: 'Metric Type', type: 'string' },
+        { field: 'value', header: 'Value', type: 'number' }
+      ]
+    })));
+    expect(pdf.pages.length).toBeGreaterThan(1);
+    expect(pdf.catalogCount).toBe(pdf.pages.length);
+    pdf.pages.forEach((page, i) => {
+      expect(page).toContain('(Metric Type) Tj');
+      expect(page).toContain(`(metrics-table | Page ${i + 1} of ${pdf.pages.length}) Tj`);
+    });
+    expect(pdf.pages.join('\n')).toContain('(metric_99) Tj');
+  });
+});
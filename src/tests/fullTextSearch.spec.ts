@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { callTool } from './testUtils';
+
+// BM25 full-text index (searchIndex.ts):
+//  - Porter stemming + query syntax (phrases, -exclusions, title:/category:/owner: qualifiers)
+//  - BM25 ranking with title boost and highlighted snippets via instructions/search mode=fulltext
+//  - incremental maintenance on writeEntry / removeEntry / reload
+//  - dispatcher search (mode=fulltext) and query (textMode=fulltext)
+
+function writeInstruction(dir: string, id: string, title: string, body: string, categories: string[], owner = 'owner'){
+  const now = new Date().toISOString();
+  const rec = {
+    id, title, body, rationale:'', priority:50, audience:'all', requirement:'optional',
+    categories, primaryCategory: categories[0], sourceHash:'0'.repeat(64), schemaVersion:'3',
+    createdAt: now, updatedAt: now, version:'1.0.0', status:'approved', owner, priorityTier:'P3',
+    classification:'public', lastReviewedAt: now, nextReviewDue: now,
+    changeLog:[{ version:'1.0.0', changedAt: now, summary:'initial import' }], semanticSummary:''
+  };
+  fs.writeFileSync(path.join(dir, id+'.json'), JSON.stringify(rec,null,2));
+}
+
+interface Snippet { field: string; text: string; highlights: [number, number][] }
+interface SearchResponse { results: { instructionId: string; relevanceScore: number; matchedFields: string[]; snippet?: Snippet }[]; totalMatches: number }
+
+describe('full-text search index', () => {
+  let dir: string;
+  let cat: typeof import('../services/catalogContext');
+  let idx: typeof import('../services/searchIndex');
+
+  beforeAll(async () => {
+    dir = path.join(process.cwd(),'tmp', `fulltext-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    reloadRuntimeConfig();
+    writeInstruction(dir, 'cache-invalidation', 'Cache invalidation rules', 'Invalidate cached responses when the underlying record changes. Prefer event driven invalidation over TTL expiry.', ['caching','performance'], 'platform-team');
+    writeInstruction(dir, 'http-caching', 'HTTP caching headers', 'Set Cache-Control headers on static assets; avoid caching authenticated responses.', ['caching','web'], 'web-team');
+    writeInstruction(dir, 'retry-policy', 'Retry policy', 'Retry idempotent requests with exponential backoff. Never retry non-idempotent writes.', ['networking'], 'platform-team');
+    writeInstruction(dir, 'deprecated-cache', 'Legacy caching notes', 'Old guidance about memcached clusters, deprecated.', ['caching','legacy'], 'web-team');
+    cat = await import('../services/catalogContext.js');
+    cat.invalidate();
+    idx = await import('../services/searchIndex.js');
+    idx.__resetFullTextIndex();
+    await import('../services/handlers.search.js');
+    await import('../services/handlers.instructions.js');
+    await import('../services/instructions.dispatcher.js');
+  });
+
+  it('stems terms and parses query syntax', async () => {
+    const { stem } = await import('../services/porterStemmer.js');
+    expect(['caresses','ponies','relational','running','hopping','generalization'].map(stem)).toEqual(['caress','poni','relat','run','hop','gener']);
+    const q = idx.parseFullTextQuery('caching "event driven" -legacy title:retry category:Web owner:web-team the');
+    expect(q.clauses.map(c => ({ f: c.field, n: c.negate, p: c.phrase, t: c.terms, v: c.value }))).toEqual([
+      { f: undefined, n: false, p: false, t: ['cach'], v: undefined },
+      { f: undefined, n: false, p: true, t: ['event','driven'], v: undefined },
+      { f: undefined, n: true, p: false, t: ['legaci'], v: undefined },
+      { f: 'title', n: false, p: false, t: ['retri'], v: undefined },
+      { f: 'category', n: false, p: false, t: [], v: 'web' },
+      { f: 'owner', n: false, p: false, t: [], v: 'web-team' }
+    ]);
+  });
+
+  it('ranks with BM25 and returns highlighted snippets', async () => {
+    const res = await callTool<SearchResponse>('instructions/search', { keywords:['invalidating','cache'], mode:'fulltext' });
+    expect(res.results[0].instructionId).toBe('cache-invalidation');
+    expect(res.results[0].matchedFields).toEqual(['title','body']);
+    const snip = res.results[0].snippet!;
+    expect(snip.field).toBe('body');
+    expect(snip.highlights.length).toBeGreaterThan(0);
+    expect(snip.highlights.map(([s,e]) => snip.text.slice(s,e).toLowerCase())).toContain('invalidate');
+
+    const phrase = await callTool<SearchResponse>('instructions/search', { keywords:['"event driven"'], mode:'fulltext' });
+    expect(phrase.results.map(r => r.instructionId)).toEqual(['cache-invalidation']);
+    const excluded = await callTool<SearchResponse>('instructions/search', { keywords:['caching','-deprecated'], mode:'fulltext' });
+    expect(excluded.results.map(r => r.instructionId)).not.toContain('deprecated-cache');
+    const qualified = await callTool<SearchResponse>('instructions/search', { keywords:['caching','owner:web-team','-category:legacy'], mode:'fulltext' });
+    expect(qualified.results.map(r => r.instructionId)).toEqual(['http-caching']);
+    const titleOnly = await callTool<SearchResponse>('instructions/search', { keywords:['title:retry'], mode:'fulltext' });
+    expect(titleOnly.results.map(r => r.instructionId)).toEqual(['retry-policy']);
+  });
+
+  it('updates incrementally on write / remove / reload', () => {
+    const st = cat.ensureLoaded();
+    idx.getFullTextIndex(st.list);
+    const entry = { ...st.byId.get('retry-policy')!, body: 'Use circuit breakers around flaky dependencies.', sourceHash: '1'.repeat(64) };
+    cat.writeEntry(entry);
+    expect(idx.searchFullText(cat.ensureLoaded().list, 'breaker').map(h => h.id)).toEqual(['retry-policy']);
+    expect(idx.searchFullText(cat.ensureLoaded().list, 'backoff')).toEqual([]);
+
+    cat.removeEntry('deprecated-cache');
+    expect(idx.getFullTextIndexStats().docs).toBe(3);
+    const reloaded = cat.ensureLoaded();
+    expect(reloaded.list.length).toBe(3);
+    // reload diffed against the live index: nothing left to (re)tokenize
+    expect(idx.getFullTextIndexStats().lastSync).toEqual({ added: 0, updated: 0, removed: 0 });
+    expect(idx.searchFullText(reloaded.list, 'memcached')).toEqual([]);
+  });
+
+  it('backs dispatcher search / query fulltext modes', async () => {
+    const s = await callTool<{ items: { id: string }[]; highlights?: { id: string; snippet: Snippet }[] }>('instructions/dispatch', { action:'search', q:'caching headers', mode:'fulltext', highlight:true });
+    expect(s.items[0].id).toBe('http-caching');
+    expect(s.highlights?.[0].snippet.highlights.length).toBeGreaterThan(0);
+    const q = await callTool<{ items: { id: string }[]; applied: { textMode?: string } }>('instructions/dispatch', { action:'query', text:'cache -headers', textMode:'fulltext', categoriesAny:['caching'] });
+    expect(q.items.map(i => i.id)).toEqual(['cache-invalidation']);
+    expect(q.applied.textMode).toBe('fulltext');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { relationshipEdges } from '../services/instructionLinks';
+import { callTool } from './testUtils';
+
+// Typed links (instructionLinks.ts):
+//  - links.relatedTo / conflictsWith / requires / supersedes plus legacy supersedes / deprecatedBy become graph edges
+//  - graph/neighbors: k-hop traversal (direction, edge type filter, symmetric links) and shortest path
+
+interface NeighborsResponse {
+  nodes: { id: string; distance: number; via?: { from: string; type: string; reversed: boolean }; title: string; body?: string }[];
+  edges: { from: string; to: string; type: string }[];
+  path?: { found: boolean; length?: number; ids: string[] };
+  truncated?: boolean;
+}
+
+describe('typed links and graph/neighbors', () => {
+  const prevMutation = process.env.MCP_MUTATION;
+
+  beforeAll(async () => {
+    const dir = path.join(process.cwd(),'tmp', `graph-neighbors-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_MUTATION = '1';
+    reloadRuntimeConfig();
+    const cat = await import('../services/catalogContext.js');
+    cat.invalidate();
+    await import('../services/handlers.instructions.js');
+    await import('../services/handlers.graph.js');
+    await import('../services/instructions.dispatcher.js');
+    const add = (id: string, extra: Record<string, unknown> = {}) =>
+      callTool('instructions/add', { entry:{ id, title:`Title ${id}`, body:`Body of ${id}.`, categories:['links'], ...extra }, lax:true });
+    await add('ln-logging');
+    await add('ln-tracing', { links:{ relatedTo:['ln-logging'] } });
+    await add('ln-secrets');
+    await add('ln-deploy', { links:{ requires:['ln-secrets','ln-tracing'], conflictsWith:['ln-manual'] } });
+    await add('ln-manual');
+    await add('ln-deploy-v1', { deprecatedBy:'ln-deploy' });
+  });
+
+  afterAll(() => {
+    if(prevMutation === undefined) delete process.env.MCP_MUTATION; else process.env.MCP_MUTATION = prevMutation;
+    reloadRuntimeConfig();
+  });
+
+  it('turns typed links and legacy supersedes / deprecatedBy into edges', async () => {
+    expect(relationshipEdges([
+      { id:'a', links:{ relatedTo:['b','missing'], supersedes:['c'] }, supersedes:'c' },
+      { id:'b', deprecatedBy:'a' },
+      { id:'c', extends:'b' }
+    ])).toEqual([
+      { from:'a', to:'b', type:'relatedTo' },
+      { from:'a', to:'b', type:'supersedes' },
+      { from:'a', to:'c', type:'supersedes' },
+      { from:'c', to:'b', type:'extends' }
+    ]);
+    const graph = await callTool<{ edges: { from: string; to: string; type: string }[] }>('graph/export', { includeEdgeTypes:['relatedTo','conflictsWith','requires','supersedes'] });
+    expect(graph.edges).toEqual([
+      { from:'ln-deploy', to:'ln-manual', type:'conflictsWith' },
+      { from:'ln-deploy', to:'ln-secrets', type:'requires' },
+      { from:'ln-deploy', to:'ln-tracing', type:'requires' },
+      { from:'ln-deploy', to:'ln-deploy-v1', type:'supersedes' },
+      { from:'ln-tracing', to:'ln-logging', type:'relatedTo' }
+    ]);
+    const bad = await callTool<{ error?: string; invalid?: string[] }>('instructions/add', { entry:{ id:'ln-bad', title:'bad', body:'x', links:{ dependsOn:['ln-logging'], requires:['ln-bad'] } }, lax:true });
+    expect(bad.error).toBe('invalid_reference');
+    expect(bad.invalid).toEqual(['links.dependsOn:unknown-type', 'links.requires:ln-bad']);
+  });
+
+  it('returns k-hop neighborhoods honoring direction and edge types', async () => {
+    const one = await callTool<NeighborsResponse>('graph/neighbors', { id:'ln-deploy' });
+    expect(one.nodes.map(n => [n.id, n.distance])).toEqual([['ln-deploy',0],['ln-manual',1],['ln-secrets',1],['ln-tracing',1],['ln-deploy-v1',1]]);
+    expect(one.nodes[0].title).toBe('Title ln-deploy');
+
+    const two = await callTool<NeighborsResponse>('graph/neighbors', { id:'ln-deploy', depth:2, edgeTypes:['requires','relatedTo'], direction:'out', includeBody:true });
+    expect(two.nodes.map(n => n.id)).toEqual(['ln-deploy','ln-secrets','ln-tracing','ln-logging']);
+    expect(two.nodes[3]).toMatchObject({ distance:2, via:{ from:'ln-tracing', type:'relatedTo', reversed:false }, body:'Body of ln-logging.' });
+    expect(two.edges).toHaveLength(3);
+
+    // requires is directional: nothing points out of ln-secrets, but relatedTo is symmetric
+    expect((await callTool<NeighborsResponse>('graph/neighbors', { id:'ln-secrets', direction:'out' })).nodes).toHaveLength(1);
+    const back = await callTool<NeighborsResponse>('graph/neighbors', { id:'ln-logging', direction:'out' });
+    expect(back.nodes.map(n => n.id)).toEqual(['ln-logging','ln-tracing']);
+    expect((await callTool<NeighborsResponse>('graph/neighbors', { id:'ln-deploy', limit:2 })).truncated).toBe(true);
+    expect(await callTool('graph/neighbors', { id:'ln-nope' })).toEqual({ notFound:true, id:'ln-nope' });
+  });
+
+  it('finds shortest paths', async () => {
+    const res = await callTool<NeighborsResponse>('graph/neighbors', { id:'ln-secrets', to:'ln-logging' });
+    expect(res.path).toEqual({ found:true, length:3, ids:['ln-secrets','ln-deploy','ln-tracing','ln-logging'] });
+    expect(res.edges.map(e => e.type)).toEqual(['requires','requires','relatedTo']);
+    const none = await callTool<NeighborsResponse>('graph/neighbors', { id:'ln-secrets', to:'ln-logging', direction:'out' });
+    expect(none.path).toEqual({ found:false, ids:[] });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { usagePointsByInstruction } from '../services/usageHotness';
+import { callTool } from './testUtils';
+
+// HotScoreService wired to the usage buckets (usageHotness.ts): usage/hotset strategy:'hot' and
+// instructions/search boostByHotScore rank by recent usage/track events, not the lifetime usageCount.
+
+interface HotsetResponse {
+  strategy: string;
+  items: { id: string; usageCount: number; hotScore?: number; breakdown?: Record<string, number>; metadata?: { totalUsageEvents: number } }[];
+}
+interface SearchResponse {
+  results: { instructionId: string; relevanceScore: number; hotScore?: number }[];
+  query: { limit: number; boostByHotScore?: boolean };
+}
+
+describe('hot score ranking', () => {
+  // usage counters persist in a process-wide snapshot (data/usage-snapshot.json); unique ids keep runs independent
+  const run = Date.now().toString(36);
+  const LEGACY = `hs-legacy-${run}`; const FRESH = `hs-fresh-${run}`;
+  const prevMutation = process.env.MCP_MUTATION;
+
+  beforeAll(async () => {
+    const dir = path.join(process.cwd(),'tmp', `hot-score-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_MUTATION = '1';
+    reloadRuntimeConfig();
+    (await import('../services/features.js')).enableFeature('usage');
+    const cat = await import('../services/catalogContext.js');
+    cat.invalidate();
+    await import('../services/handlers.instructions.js');
+    await import('../services/handlers.usage.js');
+    await import('../services/handlers.search.js');
+    await callTool('instructions/add', { entry:{ id:LEGACY, title:`Rollout rollout checklist ${run}`, body:'Rollout steps for legacy services.', categories:['hot'] }, lax:true });
+    await callTool('instructions/add', { entry:{ id:FRESH, title:`Rollout guide ${run}`, body:'Current deployment guide.', categories:['hot'] }, lax:true });
+    // lifetime counter only (no bucket events): popular long ago, nothing recent
+    for(let i = 0; i < 5; i++) cat.incrementUsage(LEGACY);
+    await callTool('usage/track', { id:FRESH, clientName:'vscode' });
+    await callTool('usage/track', { id:FRESH, clientName:'cli' });
+  });
+
+  afterAll(() => {
+    if(prevMutation === undefined) delete process.env.MCP_MUTATION; else process.env.MCP_MUTATION = prevMutation;
+    reloadRuntimeConfig();
+  });
+
+  it('groups track events into usage points', () => {
+    const points = usagePointsByInstruction([
+      { timestamp:'2026-01-01T10:00:00.000Z', operation:'track', instructionId:'a', success:true },
+      { timestamp:'2026-01-01T11:00:00.000Z', operation:'track', instructionId:'a', success:true },
+      { timestamp:'2026-01-01T11:00:00.000Z', operation:'search', instructionId:'b', success:true }
+    ]);
+    expect([...points.keys()]).toEqual(['a']);
+    expect(points.get('a')).toEqual([{ timestamp:Date.parse('2026-01-01T10:00:00.000Z'), count:1 }, { timestamp:Date.parse('2026-01-01T11:00:00.000Z'), count:1 }]);
+  });
+
+  it('usage/hotset strategy hot ranks by recent events with a breakdown', async () => {
+    const byCount = await callTool<HotsetResponse>('usage/hotset', { limit:100 });
+    expect(byCount.strategy).toBe('count');
+    const ids = byCount.items.map(i => i.id);
+    expect(ids.indexOf(LEGACY)).toBeLessThan(ids.indexOf(FRESH));
+    expect(byCount.items.find(i => i.id === FRESH)?.hotScore).toBeUndefined();
+
+    const hot = await callTool<HotsetResponse>('usage/hotset', { strategy:'hot', limit:100 });
+    expect(hot.strategy).toBe('hot');
+    const fresh = hot.items.find(i => i.id === FRESH);
+    expect(fresh?.hotScore).toBeGreaterThan(0);
+    expect(fresh?.breakdown).toMatchObject({ recentUsage: expect.any(Number), bonuses: expect.any(Number) });
+    expect(fresh?.metadata?.totalUsageEvents).toBe(2);
+    expect(hot.items.some(i => i.id === LEGACY)).toBe(false);
+    expect(await callTool('usage/hotset', { strategy:'trending' })).toMatchObject({ error: expect.stringMatching(/invalid strategy/) });
+  });
+
+  it('instructions/search boostByHotScore re-ranks by recent usage', async () => {
+    const plain = await callTool<SearchResponse>('instructions/search', { keywords:['rollout', run] });
+    expect(plain.results.map(r => r.instructionId)).toEqual([LEGACY, FRESH]);
+    expect(plain.query.boostByHotScore).toBeUndefined();
+
+    const boosted = await callTool<SearchResponse>('instructions/search', { keywords:['rollout', run], boostByHotScore:true, limit:1 });
+    expect(boosted.results.map(r => r.instructionId)).toEqual([FRESH]);
+    expect(boosted.results[0].hotScore).toBeGreaterThan(0);
+    expect(boosted.query).toMatchObject({ limit:1, boostByHotScore:true });
+  });
+});
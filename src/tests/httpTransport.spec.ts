@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+
+// Streamable HTTP transport (httpTransport.ts): session lifecycle, SSE / JSON responses, server/ready after the
+// initialize result on the session stream, one shared catalog across sessions, bearer-token authentication and the
+// clearance each session's token grants.
+
+interface RpcMessage { jsonrpc: '2.0'; id?: number; method?: string; result?: any; error?: { code: number; message: string } } // eslint-disable-line @typescript-eslint/no-explicit-any
+
+const parseEvents = (text: string): RpcMessage[] => text.split('\n\n').map(block => block.split('\n').filter(l => l.startsWith('data: ')).map(l => l.slice(6)).join('')).filter(Boolean).map(d => JSON.parse(d));
+
+describe('streamable HTTP transport', () => {
+  type Handle = { url: string; sessionCount: () => number; close: () => Promise<void> };
+  let handle: Handle;
+  let start: (opts?: { port?: number }) => Promise<Handle>;
+  let nextId = 1;
+  const keys = ['INSTRUCTIONS_DIR', 'MCP_MUTATION', 'MCP_ACCESS_CONTROL', 'MCP_ACCESS_TOKENS', 'MCP_CLIENT_CLEARANCE', 'MCP_HTTP_JSON_RESPONSE', 'MCP_HTTP_REQUIRE_AUTH'] as const;
+  const prev = Object.fromEntries(keys.map(k => [k, process.env[k]]));
+
+  const post = (body: unknown, headers: Record<string, string> = {}) => fetch(handle.url, {
+    method:'POST', body: JSON.stringify(body),
+    headers:{ 'Content-Type':'application/json', Accept:'application/json, text/event-stream', ...headers }
+  });
+  // Each session is opened with the token `tok-<client>` and remembers it for later requests
+  const tokens = new Map<string, string>();
+  const bearer = (token: string | undefined): Record<string, string> => token ? { Authorization: `Bearer ${token}` } : {};
+  const rpc = async (session: string, method: string, params: unknown = {}) => {
+    const res = await post({ jsonrpc:'2.0', id: nextId++, method, params }, { 'Mcp-Session-Id': session, ...bearer(tokens.get(session)) });
+    expect(res.status).toBe(200);
+    const [msg] = res.headers.get('content-type')?.includes('text/event-stream') ? parseEvents(await res.text()) : [await res.json() as RpcMessage];
+    return msg;
+  };
+  const tool = async <T,>(session: string, name: string, args: Record<string, unknown>) => JSON.parse((await rpc(session, 'tools/call', { name, arguments: args })).result.content[0].text) as T;
+  const initializeRequest = (client: string) => ({ jsonrpc:'2.0', id: nextId++, method:'initialize', params:{ protocolVersion:'2025-06-18', capabilities:{}, clientInfo:{ name: client, version:'1.0.0' } } });
+  const initialize = async (client: string, token: string | undefined = `tok-${client}`) => {
+    const res = await post(initializeRequest(client), bearer(token));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('text/event-stream');
+    const session = res.headers.get('mcp-session-id') as string;
+    const [msg] = parseEvents(await res.text());
+    expect(msg.result.protocolVersion).toBe('2025-06-18');
+    if(token) tokens.set(session, token);
+    await post({ jsonrpc:'2.0', method:'notifications/initialized' }, { 'Mcp-Session-Id': session, ...bearer(token) });
+    return session;
+  };
+  const listIds = async (session: string) => (await tool<{ items: { id: string }[] }>(session, 'instructions/dispatch', { action:'list' })).items.map(i => i.id).filter(id => id.startsWith('ht-')).sort();
+
+  beforeAll(async () => {
+    const dir = path.join(process.cwd(), 'tmp', `http-transport-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_MUTATION = '1';
+    process.env.MCP_ACCESS_TOKENS = ['first-client','writer','reader','json-client','short-lived'].map(c => `tok-${c}=${c}:internal`).concat('tok-ops-bot=ops-bot:restricted', 'tok-kiosk=kiosk:public').join(',');
+    // clientInfo.name must not grant clearance over HTTP
+    process.env.MCP_CLIENT_CLEARANCE = 'kiosk-claims-ops:restricted';
+    delete process.env.MCP_ACCESS_CONTROL;
+    delete process.env.MCP_HTTP_JSON_RESPONSE;
+    delete process.env.MCP_HTTP_REQUIRE_AUTH;
+    reloadRuntimeConfig();
+    (await import('../services/catalogContext.js')).invalidate();
+    const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+    const { startSdkHttpServer } = await import('../server/sdkServer.js');
+    start = opts => startSdkHttpServer({ host:'127.0.0.1', port:0, ServerClass: Server, ...opts });
+    handle = await start();
+  });
+
+  afterAll(async () => {
+    await handle?.close();
+    for(const k of keys){ if(prev[k] === undefined) delete process.env[k]; else process.env[k] = prev[k]; }
+    reloadRuntimeConfig();
+  });
+
+  it('delivers server/ready on the session stream after the initialize result', async () => {
+    const session = await initialize('first-client');
+    const abort = new AbortController();
+    const res = await fetch(handle.url, { headers:{ Accept:'text/event-stream', 'Mcp-Session-Id': session, ...bearer('tok-first-client') }, signal: abort.signal });
+    expect(res.status).toBe(200);
+    const reader = res.body!.getReader();
+    let text = '';
+    while(!text.includes('\n\n')) text += new TextDecoder().decode((await reader.read()).value);
+    abort.abort();
+    expect(parseEvents(text)[0]).toMatchObject({ method:'server/ready' });
+  });
+
+  it('shares one catalog across sessions and answers in JSON when configured', async () => {
+    const writer = await initialize('writer');
+    const reader = await initialize('reader');
+    expect(writer).not.toBe(reader);
+    await tool(writer, 'instructions/add', { entry:{ id:'ht-shared', title:'Shared', body:'Written through one HTTP session.', priority:50, audience:'all', requirement:'recommended', categories:['ops'] }, lax:true });
+    expect(await listIds(reader)).toEqual(['ht-shared']);
+    process.env.MCP_HTTP_JSON_RESPONSE = '1';
+    reloadRuntimeConfig();
+    try {
+      const json = await start();
+      const res = await fetch(json.url, { method:'POST', headers:{ 'Content-Type':'application/json', Accept:'application/json, text/event-stream', ...bearer('tok-json-client') }, body: JSON.stringify({ jsonrpc:'2.0', id:1, method:'initialize', params:{ protocolVersion:'2025-06-18', capabilities:{}, clientInfo:{ name:'json-client', version:'1' } } }) });
+      expect(res.headers.get('content-type')).toContain('application/json');
+      expect(await res.json()).toMatchObject({ id:1, result:{ serverInfo:{ name:'mcp-index-server' } } });
+      await json.close();
+    } finally {
+      delete process.env.MCP_HTTP_JSON_RESPONSE;
+      reloadRuntimeConfig();
+    }
+  });
+
+  it('applies each session the clearance of its token, not of its client name', async () => {
+    process.env.MCP_ACCESS_CONTROL = '1';
+    reloadRuntimeConfig();
+    const ops = await initialize('ops-bot');
+    const kiosk = await initialize('kiosk-claims-ops', 'tok-kiosk');
+    await tool(ops, 'instructions/add', { entry:{ id:'ht-secret', title:'Secret', body:'Restricted rotation runbook.', priority:50, audience:'all', requirement:'recommended', categories:['ops'], classification:'restricted' }, lax:true });
+    expect(await listIds(kiosk)).toEqual([]);
+    expect(await listIds(ops)).toEqual(['ht-secret','ht-shared']);
+  });
+
+  it('requires a known bearer token and binds sessions to it', async () => {
+    const missing = await post(initializeRequest('no-token'));
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toContain('Bearer');
+    expect((await post(initializeRequest('forged'), bearer('tok-forged'))).status).toBe(401);
+    expect((await post(initializeRequest('inherited'), bearer('constructor'))).status).toBe(401);
+    const ops = await initialize('ops-bot');
+    const hijack = await post({ jsonrpc:'2.0', id: nextId++, method:'tools/list' }, { 'Mcp-Session-Id': ops, ...bearer('tok-kiosk') });
+    expect(hijack.status).toBe(403);
+    expect((await post({ jsonrpc:'2.0', id: nextId++, method:'tools/list' }, { 'Mcp-Session-Id': ops })).status).toBe(401);
+  });
+
+  it('runs sessions without a token at the default clearance when auth is optional', async () => {
+    process.env.MCP_HTTP_REQUIRE_AUTH = '0';
+    reloadRuntimeConfig();
+    try {
+      const optional = await start();
+      const res = await fetch(optional.url, { method:'POST', headers:{ 'Content-Type':'application/json', Accept:'application/json, text/event-stream' }, body: JSON.stringify(initializeRequest('kiosk-claims-ops')) });
+      expect(res.status).toBe(200);
+      const session = res.headers.get('mcp-session-id') as string;
+      await res.text();
+      const list = await fetch(optional.url, { method:'POST', headers:{ 'Content-Type':'application/json', Accept:'application/json, text/event-stream', 'Mcp-Session-Id': session }, body: JSON.stringify({ jsonrpc:'2.0', id: nextId++, method:'tools/call', params:{ name:'instructions/dispatch', arguments:{ action:'list' } } }) });
+      const [msg] = parseEvents(await list.text());
+      const ids = (JSON.parse(msg.result.content[0].text) as { items: { id: string }[] }).items.map(i => i.id).filter(id => id.startsWith('ht-')).sort();
+      expect(ids).toEqual(['ht-shared']);
+      await optional.close();
+    } finally {
+      delete process.env.MCP_HTTP_REQUIRE_AUTH;
+      reloadRuntimeConfig();
+    }
+  });
+
+  it('rejects requests without a valid session and ends sessions on DELETE', async () => {
+    expect((await post({ jsonrpc:'2.0', id: nextId++, method:'tools/list' }, bearer('tok-short-lived'))).status).toBe(400);
+    expect((await post({ jsonrpc:'2.0', id: nextId++, method:'tools/list' }, { 'Mcp-Session-Id':'missing', ...bearer('tok-short-lived') })).status).toBe(404);
+    expect((await post({ jsonrpc:'2.0', id: nextId++, method:'tools/list' }, { Origin:'http://evil.example' })).status).toBe(403);
+    const session = await initialize('short-lived');
+    expect((await rpc(session, 'tools/list')).result.tools.length).toBeGreaterThan(0);
+    const before = handle.sessionCount();
+    expect((await fetch(handle.url, { method:'DELETE', headers:{ 'Mcp-Session-Id': session, ...bearer('tok-short-lived') } })).status).toBe(200);
+    expect(handle.sessionCount()).toBe(before - 1);
+    expect((await post({ jsonrpc:'2.0', id: nextId++, method:'tools/list' }, { 'Mcp-Session-Id': session, ...bearer('tok-short-lived') })).status).toBe(404);
+  });
+
+  it('drops the session when connecting the server fails', async () => {
+    const { startHttpTransport } = await import('../server/httpTransport.js');
+    const failing = await startHttpTransport({ host:'127.0.0.1', port:0, protocolVersions:['2025-06-18'], connect: async () => { throw new Error('connect failed'); } });
+    try {
+      const res = await fetch(failing.url, { method:'POST', body: JSON.stringify(initializeRequest('short-lived')), headers:{ 'Content-Type':'application/json', Accept:'application/json, text/event-stream', ...bearer('tok-short-lived') } });
+      expect(res.status).toBe(500);
+      expect(failing.sessionCount()).toBe(0);
+    } finally {
+      await failing.close();
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { resolveComposition, findReferenceIssues } from '../services/instructionComposition';
+import { callTool } from './testUtils';
+
+// Instruction composition (instructionComposition.ts):
+//  - get resolve:true composes extends / includes with provenance markers, dedupes diamonds
+//  - cycles and over-deep chains fail; malformed / self references are rejected on add
+//  - graph/export emits extends / includes edges; integrity/verify reports dangling references
+
+interface Resolved { body: string; depth: number; provenance: { id: string; relation: string; via?: string }[]; unresolved: { target: string }[]; duplicates: string[] }
+interface GetResponse { resolved?: Resolved; error?: string; cycle?: string[]; path?: string[] }
+
+const entry = (id: string, body: string, extra: Record<string, unknown> = {}) => ({ id, body, version: '1.0.0', sourceHash: id, ...extra });
+
+describe('instruction composition (extends / includes)', () => {
+  const prevMutation = process.env.MCP_MUTATION;
+  const prevDepth = process.env.MCP_COMPOSITION_MAX_DEPTH;
+
+  beforeAll(async () => {
+    const dir = path.join(process.cwd(),'tmp', `composition-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_MUTATION = '1';
+    process.env.MCP_COMPOSITION_MAX_DEPTH = '3';
+    reloadRuntimeConfig();
+    const cat = await import('../services/catalogContext.js');
+    cat.invalidate();
+    await import('../services/handlers.instructions.js');
+    await import('../services/handlers.graph.js');
+    await import('../services/handlers.integrity.js');
+    await import('../services/instructions.dispatcher.js');
+    const add = (id: string, body: string, refs: Record<string, unknown> = {}) =>
+      callTool('instructions/add', { entry:{ id, title:id, body, categories:['composition'], ...refs }, lax:true });
+    await add('comp-base', 'Base rules.');
+    await add('comp-shared', 'Shared fragment.');
+    await add('comp-lint', 'Lint fragment.', { includes:['comp-shared'] });
+    await add('comp-child', 'Child rules.', { extends:'comp-base', includes:['comp-lint','comp-shared','comp-ghost'] });
+  });
+
+  afterAll(() => {
+    if(prevMutation === undefined) delete process.env.MCP_MUTATION; else process.env.MCP_MUTATION = prevMutation;
+    if(prevDepth === undefined) delete process.env.MCP_COMPOSITION_MAX_DEPTH; else process.env.MCP_COMPOSITION_MAX_DEPTH = prevDepth;
+    reloadRuntimeConfig();
+  });
+
+  it('resolves parent, own body and includes with provenance markers', async () => {
+    const res = await callTool<GetResponse>('instructions/dispatch', { action:'get', id:'comp-child', resolve:true });
+    expect(res.resolved?.body).toBe([
+      '<!-- begin extends:comp-base@1.0.0 -->\nBase rules.\n<!-- end extends:comp-base -->',
+      'Child rules.',
+      '<!-- begin includes:comp-lint@1.0.0 -->\nLint fragment.\n\n<!-- begin includes:comp-shared@1.0.0 -->\nShared fragment.\n<!-- end includes:comp-shared -->\n<!-- end includes:comp-lint -->'
+    ].join('\n\n'));
+    expect(res.resolved?.depth).toBe(2);
+    expect(res.resolved?.provenance.map(p => `${p.relation}:${p.id}`)).toEqual(['self:comp-child','extends:comp-base','includes:comp-lint','includes:comp-shared']);
+    expect(res.resolved?.duplicates).toEqual(['comp-shared']);
+    expect(res.resolved?.unresolved).toEqual([{ from:'comp-child', relation:'includes', target:'comp-ghost' }]);
+
+    const plain = await callTool<GetResponse>('instructions/dispatch', { action:'get', id:'comp-lint', resolve:true, markers:false });
+    expect(plain.resolved?.body).toBe('Lint fragment.\n\nShared fragment.');
+  });
+
+  it('fails on cycles and over-deep chains, rejects malformed references', () => {
+    const byId = new Map([
+      ['a', entry('a', 'A', { includes:['b'] })],
+      ['b', entry('b', 'B', { extends:'a' })]
+    ]);
+    expect(resolveComposition('a', byId, { maxDepth: 8 })).toEqual({ id:'a', error:'composition_cycle', cycle:['a','b','a'] });
+    const chain = new Map(['c0','c1','c2','c3'].map((id, i, all) => [id, entry(id, id, i < all.length - 1 ? { extends: all[i + 1] } : {})]));
+    expect(resolveComposition('c0', chain, { maxDepth: 2 })).toMatchObject({ error:'composition_depth_exceeded', maxDepth:2, path:['c0','c1','c2','c3'] });
+    expect(findReferenceIssues([...byId.values()])).toEqual([{ id:'b', relation:'extends', target:'a', problem:'cycle', cycle:['a','b','a'] }]);
+  });
+
+  it('rejects self / malformed references and reports them through graph and integrity', async () => {
+    const self = await callTool<{ error?: string }>('instructions/add', { entry:{ id:'comp-loop', title:'loop', body:'x', extends:'comp-loop' }, lax:true });
+    expect(self.error).toBe('invalid_reference');
+    const bad = await callTool<{ error?: string }>('instructions/add', { entry:{ id:'comp-bad', title:'bad', body:'x', includes:['Not An Id!'] }, lax:true });
+    expect(bad.error).toBe('invalid_reference');
+
+    const graph = await callTool<{ edges: { from: string; to: string; type: string }[] }>('graph/export', { includeEdgeTypes:['extends','includes'] });
+    expect(graph.edges).toEqual(expect.arrayContaining([
+      { from:'comp-child', to:'comp-base', type:'extends' },
+      { from:'comp-child', to:'comp-lint', type:'includes' },
+      { from:'comp-lint', to:'comp-shared', type:'includes' }
+    ]));
+    expect(graph.edges.some(e => e.to === 'comp-ghost')).toBe(false);
+
+    const verify = await callTool<{ referenceIssues: unknown[]; referenceIssueCount: number }>('integrity/verify', {});
+    expect(verify.referenceIssues).toEqual([{ id:'comp-child', relation:'includes', target:'comp-ghost', problem:'dangling' }]);
+    expect(verify.referenceIssueCount).toBe(1);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+
+// MCP prompts surface built from the catalog:
+//  - eligibility via designated category or promptArguments
+//  - {{placeholder}} templating with defaults / required checks
+//  - PromptReviewService findings attached to rendered output
+//  - promptArguments persisted through instructions/add (schema accepts the new field)
+
+function writeInstruction(dir: string, id: string, body: string, categories: string[], extra: Record<string, unknown> = {}){
+  const now = new Date().toISOString();
+  const rec = {
+    id, title: `Title ${id}`, body, rationale:'', priority:50, audience:'all', requirement:'optional',
+    categories, primaryCategory: categories[0], sourceHash:'0'.repeat(64), schemaVersion:'3',
+    createdAt: now, updatedAt: now, version:'1.0.0', status:'approved', owner:'owner', priorityTier:'P3',
+    classification:'public', lastReviewedAt: now, nextReviewDue: now,
+    changeLog:[{ version:'1.0.0', changedAt: now, summary:'initial import' }], semanticSummary:'', ...extra
+  };
+  fs.writeFileSync(path.join(dir, id+'.json'), JSON.stringify(rec,null,2));
+}
+
+describe('instruction prompts', () => {
+  let prompts: typeof import('../services/instructionPrompts');
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = path.join(process.cwd(),'tmp', `prompts-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    reloadRuntimeConfig();
+    writeInstruction(dir, 'review-pr', 'Review pull request {{pr}} focusing on {{focus}}.', ['prompts','review']);
+    writeInstruction(dir, 'release-notes', 'Write release notes for {{ version }} in a {{tone}} tone.', ['release'], {
+      promptArguments: [ { name:'version', description:'Release version', required:true }, { name:'tone', default:'neutral' } ]
+    });
+    writeInstruction(dir, 'plain-guidance', 'Not a prompt.', ['guidance']);
+    const cat = await import('../services/catalogContext.js');
+    cat.invalidate();
+    prompts = await import('../services/instructionPrompts.js');
+  });
+
+  it('lists category and promptArguments entries only', () => {
+    const { prompts: list } = prompts.listInstructionPrompts();
+    expect(list.map(p => p.name)).toEqual(['release-notes','review-pr']);
+    const rn = list.find(p => p.name === 'release-notes')!;
+    expect(rn.arguments).toEqual([
+      { name:'version', description:'Release version', required:true },
+      { name:'tone', description: undefined, required:false }
+    ]);
+    const pr = list.find(p => p.name === 'review-pr')!;
+    expect(pr.arguments.map(a => a.name)).toEqual(['pr','focus']);
+  });
+
+  it('renders placeholders with defaults and attaches review findings', () => {
+    const out = prompts.getInstructionPrompt('release-notes', { version: '2.0.0' });
+    expect(out.messages[0].content.text).toBe('Write release notes for 2.0.0 in a neutral tone.');
+    expect(out._meta.review.summary).toHaveProperty('highestSeverity');
+    const partial = prompts.getInstructionPrompt('review-pr', { pr: '#42' });
+    expect(partial.messages[0].content.text).toBe('Review pull request #42 focusing on .');
+    expect(partial._meta.missingPlaceholders).toEqual(['focus']);
+  });
+
+  it('rejects missing required args and non-prompt entries', () => {
+    type PromptError = { code?: number; data?: { missing?: string[]; reason?: string } };
+    const capture = (fn: () => unknown): PromptError | undefined => { try { fn(); } catch(e){ return e as PromptError; } return undefined; };
+    const missing = capture(() => prompts.getInstructionPrompt('release-notes', {}));
+    expect(missing?.code).toBe(-32602);
+    expect(missing?.data?.missing).toEqual(['version']);
+    const unknown = capture(() => prompts.getInstructionPrompt('plain-guidance', {}));
+    expect(unknown?.code).toBe(-32602);
+    expect(unknown?.data?.reason).toBe('unknown_prompt');
+  });
+
+  it('persists promptArguments via instructions/add', async () => {
+    await import('../services/handlers.instructions.js');
+    await import('../services/instructions.dispatcher.js');
+    const { callTool } = await import('./testUtils.js');
+    const res = await callTool<{ created?: boolean; error?: string }>('instructions/dispatch', { action:'add', lax:true, entry:{ id:'greet-user', body:'Hello {{who}}', categories:['misc'], promptArguments:[{ name:'who', required:true }] } });
+    expect(res.error).toBeUndefined();
+    const names = prompts.listInstructionPrompts().prompts.map(p => p.name);
+    expect(names).toContain('greet-user');
+    expect(prompts.getInstructionPrompt('greet-user', { who:'team' }).messages[0].content.text).toBe('Hello team');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+
+// Covers the MCP resources projection of the catalog (instruction://<id>):
+//  - resources/list paging via opaque cursor
+//  - resources/read body + not-found / bad-uri error codes
+//  - subscription tracker emitting updated + list_changed after catalog version changes
+//  - sdkServer advertising the resources capability and registering handlers
+
+function writeInstruction(dir: string, id: string, body: string){
+  const now = new Date().toISOString();
+  const rec = {
+    id, title: `Title ${id}`, body, rationale:'', priority:50, audience:'all', requirement:'optional',
+    categories:['resources'], primaryCategory:'resources', sourceHash:'0'.repeat(64), schemaVersion:'3',
+    createdAt: now, updatedAt: now, version:'1.0.0', status:'approved', owner:'owner', priorityTier:'P3',
+    classification:'public', lastReviewedAt: now, nextReviewDue: now,
+    changeLog:[{ version:'1.0.0', changedAt: now, summary:'initial import' }], semanticSummary:''
+  };
+  fs.writeFileSync(path.join(dir, id+'.json'), JSON.stringify(rec,null,2));
+}
+
+describe('instruction resources', () => {
+  let dir: string;
+  let res: typeof import('../services/instructionResources');
+  let cat: typeof import('../services/catalogContext');
+
+  beforeAll(async () => {
+    dir = path.join(process.cwd(),'tmp', `resources-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_RESOURCES_PAGE_SIZE = '2';
+    reloadRuntimeConfig();
+    for(const id of ['res-a','res-b','res-c']) writeInstruction(dir, id, `Body of ${id}`);
+    cat = await import('../services/catalogContext.js');
+    res = await import('../services/instructionResources.js');
+    cat.invalidate();
+  });
+
+  it('pages resources/list with a cursor', () => {
+    const first = res.listInstructionResources();
+    expect(first.resources.map(r => r.uri)).toEqual(['instruction://res-a','instruction://res-b']);
+    expect(first.resources[0].mimeType).toBe('text/markdown');
+    expect(first.nextCursor).toBeTruthy();
+    const second = res.listInstructionResources({ cursor: first.nextCursor });
+    expect(second.resources.map(r => r.uri)).toEqual(['instruction://res-c']);
+    expect(second.nextCursor).toBeUndefined();
+    expect(() => res.listInstructionResources({ cursor: '!!' })).toThrow();
+  });
+
+  it('reads resource bodies and reports missing / foreign URIs', () => {
+    const out = res.readInstructionResource('instruction://res-b');
+    expect(out.contents[0].text).toBe('Body of res-b');
+    let err: { code?: number } | undefined;
+    try { res.readInstructionResource('instruction://nope'); } catch(e){ err = e as { code?: number }; }
+    expect(err?.code).toBe(res.RESOURCE_NOT_FOUND);
+    try { res.readInstructionResource('file:///etc/passwd'); } catch(e){ err = e as { code?: number }; }
+    expect(err?.code).toBe(-32602);
+  });
+
+  it('notifies subscribers on update and list changes', () => {
+    const updated: string[] = []; let listChanged = 0;
+    const tracker = new res.ResourceSubscriptionTracker({ resourceUpdated: u => updated.push(u), listChanged: () => { listChanged++; } });
+    const versions: string[] = [];
+    const stop = cat.onCatalogVersionChange(token => versions.push(token));
+    try {
+      tracker.subscribe('instruction://res-a');
+      const entry = { ...cat.ensureLoaded().byId.get('res-a')!, body: 'Changed body', updatedAt: new Date(Date.now()+1000).toISOString() };
+      cat.writeEntry(entry);
+      expect(versions.length).toBe(1);
+      tracker.onCatalogChanged();
+      expect(updated).toEqual(['instruction://res-a']);
+      expect(listChanged).toBe(0);
+
+      writeInstruction(dir, 'res-d', 'Body of res-d');
+      cat.touchCatalogVersion(); cat.invalidate();
+      tracker.onCatalogChanged();
+      expect(listChanged).toBe(1);
+      expect(updated).toEqual(['instruction://res-a']); // res-d not subscribed
+    } finally { stop(); }
+  });
+
+  it('sdk server advertises resources capability and handlers', async () => {
+    const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+    const { createSdkServer } = await import('../server/sdkServer.js');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const server: any = createSdkServer(Server);
+    expect(server._capabilities?.resources).toEqual({ subscribe: true, listChanged: true });
+    for(const m of ['resources/list','resources/read','resources/subscribe','resources/unsubscribe']){
+      expect(server._requestHandlers.has(m)).toBe(true);
+    }
+    const read = await server._requestHandlers.get('resources/read')({ jsonrpc:'2.0', id:1, method:'resources/read', params:{ uri:'instruction://res-c' } });
+    expect(read.contents[0].text).toBe('Body of res-c');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { readAuditEntries } from '../services/auditLog';
+import { runInTenant, setSessionTenant } from '../services/tenantContext';
+import { callTool } from './testUtils';
+
+// Multi-tenant catalogs (tenantContext.ts): per-tenant directories, state, audit log and manifest, the inherited
+// global layer, and tenant selection from the MCP session and the dashboard credential / X-Tenant header.
+
+interface Item { id: string; body: string }
+interface ListResponse { count: number; items: Item[] }
+
+describe('multi-tenant catalogs', () => {
+  let dir: string;
+  const cwd = process.cwd();
+  const keys = ['INSTRUCTIONS_DIR', 'MCP_MUTATION', 'MCP_MULTI_TENANT', 'MCP_TENANTS_DIR', 'MCP_TENANTS', 'MCP_TENANT', 'MCP_TENANT_INHERIT_GLOBAL', 'MCP_ACCESS_TOKENS'] as const;
+  const prev = Object.fromEntries(keys.map(k => [k, process.env[k]]));
+  const since = new Date().toISOString();
+  const ids = (r: { items: Item[] }) => r.items.map(i => i.id).filter(id => id.startsWith('mt-')).sort();
+  const list = () => callTool<ListResponse>('instructions/dispatch', { action:'list' });
+  const add = (id: string, body = `Deployment checklist for ${id}.`) =>
+    callTool('instructions/add', { entry:{ id, title:`Checklist ${id}`, body, priority:50, audience:'all', requirement:'recommended', categories:['ops'] }, lax:true, overwrite:true });
+
+  beforeAll(async () => {
+    dir = path.join(cwd,'tmp', `multi-tenant-${Date.now()}`);
+    fs.mkdirSync(path.join(dir, 'global'), { recursive: true });
+    // Catalog manifests live under <cwd>/snapshots (per tenant under snapshots/tenants/): keep them out of the repo
+    process.chdir(dir);
+    process.env.INSTRUCTIONS_DIR = path.join(dir, 'global');
+    process.env.MCP_MUTATION = '1';
+    process.env.MCP_MULTI_TENANT = '1';
+    process.env.MCP_TENANTS_DIR = path.join(dir, 'tenants');
+    process.env.MCP_TENANTS = 'team-a,team-b';
+    process.env.MCP_ACCESS_TOKENS = 'ops-token=ops:internal,a-token=team-a-bot:internal@team-a';
+    delete process.env.MCP_TENANT;
+    delete process.env.MCP_TENANT_INHERIT_GLOBAL;
+    reloadRuntimeConfig();
+    (await import('../services/catalogContext.js')).invalidate();
+    await import('../services/handlers.instructions.js');
+    await import('../services/instructions.dispatcher.js');
+    await add('mt-shared', 'Global deployment checklist.');
+    await runInTenant('team-a', () => add('mt-a-only'));
+  });
+
+  afterAll(() => {
+    setSessionTenant(undefined);
+    process.chdir(cwd);
+    for(const k of keys){ if(prev[k] === undefined) delete process.env[k]; else process.env[k] = prev[k]; }
+    reloadRuntimeConfig();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps tenant entries out of other tenants and the global catalog', async () => {
+    expect(fs.existsSync(path.join(dir, 'tenants', 'team-a', 'mt-a-only.json'))).toBe(true);
+    expect(ids(await runInTenant('team-a', list))).toEqual(['mt-a-only','mt-shared']);
+    expect(ids(await runInTenant('team-b', list))).toEqual(['mt-shared']);
+    expect(ids(await list())).toEqual(['mt-shared']);
+    setSessionTenant('team-a');
+    try {
+      expect(ids(await list())).toEqual(['mt-a-only','mt-shared']);
+    } finally {
+      setSessionTenant(undefined);
+    }
+  });
+
+  it('lets a tenant override an inherited global entry and picks up later global changes', async () => {
+    await runInTenant('team-b', () => add('mt-shared', 'Team B deployment checklist.'));
+    const get = () => callTool<{ item: Item }>('instructions/dispatch', { action:'get', id:'mt-shared' });
+    expect((await runInTenant('team-b', get)).item.body).toBe('Team B deployment checklist.');
+    expect((await runInTenant('team-a', get)).item.body).toBe('Global deployment checklist.');
+    expect((await get()).item.body).toBe('Global deployment checklist.');
+    await add('mt-global-late');
+    expect(ids(await runInTenant('team-a', list))).toEqual(['mt-a-only','mt-global-late','mt-shared']);
+  });
+
+  it('writes a separate audit log and manifest per tenant', async () => {
+    const added = (entries: ReturnType<typeof readAuditEntries>) => entries.filter(a => a.ts >= since && a.action === 'add').flatMap(a => a.ids ?? []);
+    expect(runInTenant('team-a', () => added(readAuditEntries()))).toEqual(['mt-a-only']);
+    expect(added(readAuditEntries())).not.toContain('mt-a-only');
+    const manifest = path.join(dir, 'snapshots', 'tenants', 'team-a', 'catalog-manifest.json');
+    expect(fs.existsSync(manifest)).toBe(true);
+    expect(JSON.parse(fs.readFileSync(manifest, 'utf8')).entries.map((e: { id: string }) => e.id)).toContain('mt-a-only');
+  });
+
+  it('scopes dashboard requests by credential and X-Tenant and rejects unknown tenants', async () => {
+    const express = (await import('express')).default;
+    const { createApiRoutes } = await import('../dashboard/server/ApiRoutes.js');
+    const app = express();
+    app.use('/api', createApiRoutes());
+    const server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    const names = async (headers: Record<string, string> = {}) => {
+      const res = await fetch(`${base}/instructions`, { headers });
+      return ((await res.json()) as { instructions: { name: string }[] }).instructions.map(i => i.name).filter(n => n.startsWith('mt-')).sort();
+    };
+    const ops = { 'X-Access-Token':'ops-token' };
+    try {
+      expect(await names({ ...ops, 'X-Tenant':'team-a' })).toEqual(['mt-a-only']);
+      expect(await names()).toEqual(['mt-global-late','mt-shared']);
+      expect((await fetch(`${base}/instructions/mt-a-only?tenant=team-a`, { headers: ops })).status).toBe(200);
+      const rejected = await fetch(`${base}/instructions`, { headers:{ ...ops, 'X-Tenant':'team-z' } });
+      expect(rejected.status).toBe(400);
+      expect(await rejected.json()).toMatchObject({ code:'unknown_tenant' });
+      expect((await fetch(`${base}/instructions`, { headers:{ ...ops, 'X-Tenant':'../global' } })).status).toBe(400);
+
+      // Unauthenticated requests cannot pick a tenant; a bound token always runs in (and only in) its tenant
+      const anonymous = await fetch(`${base}/instructions`, { headers:{ 'X-Tenant':'team-a' } });
+      expect(anonymous.status).toBe(403);
+      expect(await anonymous.json()).toMatchObject({ code:'tenant_forbidden' });
+      expect(await names({ Authorization:'Bearer a-token' })).toEqual(['mt-a-only']);
+      expect((await fetch(`${base}/instructions`, { headers:{ Authorization:'Bearer a-token', 'X-Tenant':'team-b' } })).status).toBe(403);
+
+      // Without MCP_TENANTS only tenants named elsewhere in the configuration are accepted
+      delete process.env.MCP_TENANTS;
+      reloadRuntimeConfig();
+      expect((await fetch(`${base}/instructions`, { headers:{ ...ops, 'X-Tenant':'team-b' } })).status).toBe(400);
+      expect(await names({ ...ops, 'X-Tenant':'team-a' })).toEqual(['mt-a-only']);
+      expect((await fetch(`${base}/instructions`, { headers:{ ...ops, 'X-Tenant':'team-c' } })).status).toBe(400);
+      expect(fs.existsSync(path.join(dir, 'tenants', 'team-c'))).toBe(false);
+    } finally {
+      process.env.MCP_TENANTS = 'team-a,team-b';
+      reloadRuntimeConfig();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+});
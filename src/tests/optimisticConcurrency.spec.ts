@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { PRECONDITION_FAILED } from '../services/errors';
+import { callTool } from './testUtils';
+
+// Optimistic concurrency (revisionToken.ts):
+//  - reads expose per-entry etags (get, list, export)
+//  - add / import / remove / governanceUpdate reject a stale ifMatch with PRECONDITION_FAILED before writing
+//  - dashboard REST GET returns an ETag; PUT / DELETE answer 412 on a stale If-Match
+
+interface GetResponse { item: { id: string; owner: string; body: string }; etag: string }
+
+describe('optimistic concurrency (etag / ifMatch)', () => {
+  let dir: string;
+  const prevMutation = process.env.MCP_MUTATION;
+
+  beforeAll(async () => {
+    dir = path.join(process.cwd(),'tmp', `optimistic-concurrency-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_MUTATION = '1';
+    reloadRuntimeConfig();
+    const cat = await import('../services/catalogContext.js');
+    cat.invalidate();
+    await import('../services/handlers.instructions.js');
+    await import('../services/instructions.dispatcher.js');
+    for(const id of ['occ-a','occ-b']){
+      await callTool('instructions/add', { entry:{ id, title:id, body:`Body of ${id}.`, owner:'alice', categories:['occ'] }, lax:true });
+    }
+  });
+
+  afterAll(() => {
+    if(prevMutation === undefined) delete process.env.MCP_MUTATION; else process.env.MCP_MUTATION = prevMutation;
+    reloadRuntimeConfig();
+  });
+
+  it('exposes etags on reads and rejects stale add / governanceUpdate writes', async () => {
+    const first = await callTool<GetResponse>('instructions/dispatch', { action:'get', id:'occ-a' });
+    expect(first.etag).toMatch(/^[0-9a-f]{16}$/);
+    const listed = await callTool<{ etags: Record<string,string> }>('instructions/dispatch', { action:'list', category:'occ' });
+    expect(listed.etags['occ-a']).toBe(first.etag);
+
+    const ok = await callTool<{ overwritten: boolean; etag: string }>('instructions/dispatch', { action:'add', entry:{ id:'occ-a', body:'Body of occ-a, revised.' }, overwrite:true, lax:true, ifMatch: first.etag });
+    expect(ok.overwritten).toBe(true);
+    expect(ok.etag).not.toBe(first.etag);
+
+    await expect(callTool('instructions/dispatch', { action:'add', entry:{ id:'occ-a', body:'Clobbering edit.' }, overwrite:true, lax:true, ifMatch: first.etag }))
+      .rejects.toMatchObject({ code: PRECONDITION_FAILED, data: { reason:'stale_revision', id:'occ-a', currentRevision: ok.etag } });
+    await expect(callTool('instructions/dispatch', { action:'governanceUpdate', id:'occ-a', owner:'mallory', ifMatch: `W/"${first.etag}"` }))
+      .rejects.toMatchObject({ code: PRECONDITION_FAILED });
+    const after = await callTool<GetResponse>('instructions/dispatch', { action:'get', id:'occ-a' });
+    expect(after.item.body).toBe('Body of occ-a, revised.');
+    expect(after.item.owner).toBe('alice');
+
+    const gov = await callTool<{ changed: boolean; etag: string }>('instructions/dispatch', { action:'governanceUpdate', id:'occ-a', owner:'bob', ifMatch: after.etag });
+    expect(gov.changed).toBe(true);
+    expect(gov.etag).not.toBe(after.etag);
+    await expect(callTool('instructions/dispatch', { action:'add', entry:{ id:'occ-missing', body:'x' }, overwrite:true, lax:true, ifMatch:'*' }))
+      .rejects.toMatchObject({ code: PRECONDITION_FAILED, data: { reason:'record_missing' } });
+  });
+
+  it('checks every import / remove precondition before writing anything', async () => {
+    const b = await callTool<GetResponse>('instructions/dispatch', { action:'get', id:'occ-b' });
+    const a = await callTool<GetResponse>('instructions/dispatch', { action:'get', id:'occ-a' });
+    const entry = (id: string, ifMatch: string) => ({ id, title:id, body:`Imported ${id}.`, priority:50, audience:'all', requirement:'optional', categories:['occ'], ifMatch });
+    await expect(callTool('instructions/import', { entries:[ entry('occ-b', b.etag), entry('occ-a', 'deadbeefdeadbeef') ], mode:'overwrite' }))
+      .rejects.toMatchObject({ code: PRECONDITION_FAILED, data: { conflicts: [{ id:'occ-a', ifMatch:'deadbeefdeadbeef', currentRevision: a.etag }] } });
+    expect((await callTool<GetResponse>('instructions/dispatch', { action:'get', id:'occ-b' })).item.body).toBe('Body of occ-b.');
+
+    await expect(callTool('instructions/dispatch', { action:'remove', id:'occ-b', ifMatch:'deadbeefdeadbeef' })).rejects.toMatchObject({ code: PRECONDITION_FAILED });
+    const removed = await callTool<{ removedIds: string[] }>('instructions/dispatch', { action:'remove', ids:['occ-b'], ifMatch:{ 'occ-b': b.etag } });
+    expect(removed.removedIds).toEqual(['occ-b']);
+  });
+
+  it('answers 412 on stale dashboard PUT / DELETE', async () => {
+    const express = (await import('express')).default;
+    const { createApiRoutes } = await import('../dashboard/server/ApiRoutes.js');
+    const app = express();
+    app.use('/api', createApiRoutes());
+    const server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/instructions/occ-a`;
+    try {
+      const got = await fetch(base);
+      const etag = got.headers.get('etag');
+      const { content } = await got.json() as { content: Record<string, unknown> };
+      expect(etag).toMatch(/^"[0-9a-f]{16}"$/);
+
+      const put = await fetch(base, { method:'PUT', headers:{ 'Content-Type':'application/json', 'If-Match': etag! }, body: JSON.stringify({ content: { ...content, owner:'dashboard' } }) });
+      expect(put.status).toBe(200);
+      const stale = await fetch(base, { method:'PUT', headers:{ 'Content-Type':'application/json', 'If-Match': etag! }, body: JSON.stringify({ content: { ...content, owner:'stale' } }) });
+      expect(stale.status).toBe(412);
+      expect(await stale.json()).toMatchObject({ error:'precondition_failed', code: PRECONDITION_FAILED });
+      expect((await callTool<GetResponse>('instructions/dispatch', { action:'get', id:'occ-a' })).item.owner).toBe('dashboard');
+
+      expect((await fetch(base, { method:'DELETE', headers:{ 'If-Match': etag! } })).status).toBe(412);
+      expect((await fetch(base, { method:'DELETE', headers:{ 'If-Match': put.headers.get('etag')! } })).status).toBe(200);
+      expect(fs.existsSync(path.join(dir, 'occ-a.json'))).toBe(false);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
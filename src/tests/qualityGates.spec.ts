@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { callTool } from './testUtils';
+
+// Gate DSL (qualityGates.ts) through gates/evaluate, and gates.json as a pre-mutation hook (MCP_GATES_ENFORCE).
+
+interface GateResult { id: string; type: string; passed: boolean; count: number; ratio?: number; offendingIds?: string[]; missingCategories?: { category: string; count: number }[]; duplicates?: { value: string; ids: string[] }[]; error?: string }
+interface EvaluateResponse { results: GateResult[]; summary: { errors: number; warnings: number; total: number } }
+
+describe('quality gate DSL and pre-mutation enforcement', () => {
+  let dir: string;
+  const prev = { mutation: process.env.MCP_MUTATION, enforce: process.env.MCP_GATES_ENFORCE };
+  const soon = new Date(Date.now() + 10 * 86400000).toISOString();
+  const later = new Date(Date.now() + 90 * 86400000).toISOString();
+
+  beforeAll(async () => {
+    dir = path.join(process.cwd(),'tmp', `quality-gates-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_MUTATION = '1';
+    delete process.env.MCP_GATES_ENFORCE;
+    reloadRuntimeConfig();
+    const cat = await import('../services/catalogContext.js');
+    cat.invalidate();
+    await import('../services/handlers.instructions.js');
+    await import('../services/handlers.gates.js');
+    const add = (id: string, extra: Record<string, unknown>) =>
+      callTool('instructions/add', { entry:{ id, title:`Title ${id}`, body:`Body of ${id}.`, priority:50, audience:'all', requirement:'recommended', categories:['testing'], ...extra }, lax:true });
+    await add('qg-p1-ok', { priorityTier:'P1', owner:'team-a', nextReviewDue:soon, categories:['security'] });
+    await add('qg-p1-late', { priorityTier:'P1', owner:'team-b', nextReviewDue:later, categories:['security'] });
+    await add('qg-todo', { body:'TODO: write this', title:'Shared title' });
+    await add('qg-dup', { title:'shared TITLE' });
+  });
+
+  afterAll(() => {
+    if(prev.mutation === undefined) delete process.env.MCP_MUTATION; else process.env.MCP_MUTATION = prev.mutation;
+    if(prev.enforce === undefined) delete process.env.MCP_GATES_ENFORCE; else process.env.MCP_GATES_ENFORCE = prev.enforce;
+    reloadRuntimeConfig();
+  });
+
+  it('evaluates predicates, ratios, regex, coverage and uniqueness with offending ids', async () => {
+    const res = await callTool<EvaluateResponse>('gates/evaluate', { gates: [
+      { id:'p1-reviewed', type:'every', severity:'error', where:{ field:'priorityTier', eq:'P1' }, require:{ all:[ { field:'owner', exists:true }, { field:'nextReviewDue', withinDays:30 } ] } },
+      { id:'owned-ratio', type:'ratio', severity:'warn', match:{ field:'categories', contains:'security' }, op:'>=', value:0.75 },
+      { id:'no-todo', type:'regex', severity:'error', field:'body', pattern:'\\bTODO\\b', forbid:true },
+      { id:'coverage', type:'coverage', severity:'warn', categories:['security','testing','performance'] },
+      { id:'unique-title', type:'unique', severity:'error', field:'title', caseInsensitive:true },
+      { id:'legacy', type:'count', severity:'error', op:'>=', value:2, where:{ priorityGt:10 } },
+      { id:'broken', type:'every', severity:'error', require:{ field:'body', matches:'(' } }
+    ] });
+    const byId = Object.fromEntries(res.results.map(r => [r.id, r]));
+    expect(byId['p1-reviewed']).toMatchObject({ passed:false, count:2, offendingIds:['qg-p1-late'] });
+    expect(byId['owned-ratio']).toMatchObject({ passed:false, ratio:0.5, offendingIds:['qg-dup','qg-todo'] });
+    expect(byId['no-todo']).toMatchObject({ passed:false, offendingIds:['qg-todo'] });
+    expect(byId['coverage']).toMatchObject({ passed:false, missingCategories:[{ category:'performance', count:0 }] });
+    expect(byId['unique-title']).toMatchObject({ passed:false, duplicates:[{ value:'shared title', ids:['qg-dup','qg-todo'] }] });
+    expect(byId['legacy']).toMatchObject({ passed:true, count:4, op:'>=', value:2 });
+    expect(byId['broken'].passed).toBe(false);
+    expect(byId['broken'].error).toMatch(/invalid regex/);
+    expect(res.summary).toEqual({ errors:4, warnings:2, total:7 });
+  });
+
+  it('blocks add and import that break error gates from gates.json', async () => {
+    fs.writeFileSync(path.join(dir, 'gates.json'), JSON.stringify({ gates: [
+      // the classifier stamps 'unowned' on entries added without an owner
+      { id:'has-owner', type:'every', severity:'error', where:{ field:'categories', contains:'security' }, require:{ field:'owner', ne:'unowned' } },
+      { id:'short-body', type:'every', severity:'warn', require:{ field:'body', maxLength:200 } },
+      { id:'no-todo', type:'regex', severity:'error', field:'body', pattern:'TODO', forbid:true }
+    ] }));
+    expect((await callTool<EvaluateResponse>('gates/evaluate', {})).results.map(r => r.passed)).toEqual([true, true, false]);
+
+    // off (default): gates do not interfere with writes
+    expect(await callTool('instructions/add', { entry:{ id:'qg-off', title:'off', body:'x'.repeat(300), categories:['security'], owner:'' }, lax:true })).toMatchObject({ created:true });
+
+    process.env.MCP_GATES_ENFORCE = 'block';
+    reloadRuntimeConfig();
+    const blocked = await callTool<{ error?: string; gates?: { id: string; offendingIds?: string[] }[] }>('instructions/add', { entry:{ id:'qg-unowned', title:'unowned', body:'Rotate keys.', categories:['security'] }, lax:true });
+    expect(blocked.error).toBe('gate_failed');
+    expect(blocked.gates).toEqual([{ id:'has-owner', type:'every', severity:'error', offendingIds:['qg-unowned'] }]);
+    expect(fs.existsSync(path.join(dir, 'qg-unowned.json'))).toBe(false);
+
+    // no-todo already fails on qg-todo; an unrelated write is not blocked by it, warn gates come back as warnings
+    const warned = await callTool<{ created?: boolean; gateWarnings?: { id: string }[] }>('instructions/add', { entry:{ id:'qg-long', title:'long', body:'y'.repeat(300), categories:['testing'] }, lax:true });
+    expect(warned.created).toBe(true);
+    expect(warned.gateWarnings?.map(g => g.id)).toEqual(['short-body']);
+
+    const imp = await callTool<{ error?: string; gates?: { id: string; offendingIds?: string[] }[] }>('instructions/import', { entries:[
+      { id:'qg-imp-ok', title:'ok', body:'fine', priority:50, audience:'all', requirement:'optional', categories:['testing'] },
+      { id:'qg-imp-todo', title:'todo', body:'TODO later', priority:50, audience:'all', requirement:'optional', categories:['testing'] }
+    ] });
+    expect(imp).toMatchObject({ error:'gate_failed', gates:[{ id:'no-todo', offendingIds:['qg-imp-todo'] }] });
+    expect(fs.existsSync(path.join(dir, 'qg-imp-ok.json'))).toBe(false);
+
+    process.env.MCP_GATES_ENFORCE = 'warn';
+    reloadRuntimeConfig();
+    const allowed = await callTool<{ created?: boolean; gateWarnings?: { id: string; severity: string }[] }>('instructions/add', { entry:{ id:'qg-unowned', title:'unowned', body:'Rotate keys.', categories:['security'] }, lax:true });
+    expect(allowed.created).toBe(true);
+    expect(allowed.gateWarnings).toMatchObject([{ id:'has-owner', severity:'error' }]);
+  });
+});
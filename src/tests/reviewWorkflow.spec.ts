@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { PRECONDITION_FAILED } from '../services/errors';
+import { callTool } from './testUtils';
+
+// Scheduled review workflow (reviewSchedule.ts): review/queue per owner, review/complete and the daily digest file.
+
+interface ReviewItem { id: string; owner: string; nextReviewDue: string; daysUntilDue: number }
+interface QueueResponse { horizonDays: number; overdueCount: number; upcomingCount: number; owners: { owner: string; overdue: ReviewItem[]; upcoming: ReviewItem[] }[] }
+interface CompleteResponse { id: string; lastReviewedAt: string; nextReviewDue: string; reviewIntervalDays: number; changeLogEntry: { summary: string }; etag: string }
+
+const DAY = 86400000;
+
+describe('review queue, completion and digest', () => {
+  let dir: string;
+  const prev = { mutation: process.env.MCP_MUTATION, digestDir: process.env.MCP_REVIEW_DIGEST_DIR };
+  const due = (days: number) => new Date(Date.now() + days * DAY).toISOString();
+
+  beforeAll(async () => {
+    dir = path.join(process.cwd(),'tmp', `review-workflow-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_MUTATION = '1';
+    process.env.MCP_REVIEW_DIGEST_DIR = path.join(dir, 'digests');
+    reloadRuntimeConfig();
+    const cat = await import('../services/catalogContext.js');
+    cat.invalidate();
+    await import('../services/handlers.instructions.js');
+    await import('../services/handlers.review.js');
+    const add = (id: string, extra: Record<string, unknown>) =>
+      callTool('instructions/add', { entry:{ id, title:`Title ${id}`, body:`Body of ${id}.`, priority:50, audience:'all', requirement:'recommended', categories:['review'], ...extra }, lax:true });
+    await add('rv-late-a', { owner:'team-a', priorityTier:'P1', nextReviewDue:due(-5), reviewIntervalDays:30 });
+    await add('rv-soon-a', { owner:'team-a', nextReviewDue:due(3) });
+    await add('rv-late-b', { owner:'team-b', nextReviewDue:due(-1) });
+    await add('rv-far-b', { owner:'team-b', nextReviewDue:due(200) });
+    await add('rv-old', { owner:'team-b', nextReviewDue:due(-30), status:'deprecated' });
+  });
+
+  afterAll(() => {
+    if(prev.mutation === undefined) delete process.env.MCP_MUTATION; else process.env.MCP_MUTATION = prev.mutation;
+    if(prev.digestDir === undefined) delete process.env.MCP_REVIEW_DIGEST_DIR; else process.env.MCP_REVIEW_DIGEST_DIR = prev.digestDir;
+    reloadRuntimeConfig();
+  });
+
+  it('groups overdue and upcoming entries per owner within the horizon', async () => {
+    const q = await callTool<QueueResponse>('review/queue', {});
+    expect(q).toMatchObject({ horizonDays:14, overdueCount:2, upcomingCount:1 });
+    expect(q.owners.map(o => [o.owner, o.overdue.map(i => i.id), o.upcoming.map(i => i.id)])).toEqual([
+      ['team-a', ['rv-late-a'], ['rv-soon-a']],
+      ['team-b', ['rv-late-b'], []]
+    ]);
+    expect(q.owners[0].overdue[0].daysUntilDue).toBeLessThan(0);
+
+    const wide = await callTool<QueueResponse>('review/queue', { owner:'team-b', horizonDays:365, includeDeprecated:true });
+    expect(wide.owners).toHaveLength(1);
+    expect(wide.owners[0].overdue.map(i => i.id)).toEqual(['rv-old', 'rv-late-b']);
+    expect(wide.owners[0].upcoming.map(i => i.id)).toEqual(['rv-far-b']);
+    expect(await callTool('review/queue', { horizonDays:0 })).toMatchObject({ error: expect.stringMatching(/horizonDays/) });
+  });
+
+  it('review/complete stamps the review, reschedules it and appends to changeLog', async () => {
+    const before = Date.now();
+    const res = await callTool<CompleteResponse>('review/complete', { id:'rv-late-a', reviewer:'alice', notes:'still accurate' });
+    expect(res.reviewIntervalDays).toBe(30);
+    expect(Date.parse(res.lastReviewedAt)).toBeGreaterThanOrEqual(before);
+    expect(Date.parse(res.nextReviewDue) - Date.parse(res.lastReviewedAt)).toBe(30 * DAY);
+    expect(res.changeLogEntry.summary).toBe('review completed by alice: still accurate');
+    expect(res.etag).toEqual(expect.any(String));
+    const stored = JSON.parse(fs.readFileSync(path.join(dir, 'rv-late-a.json'), 'utf8'));
+    expect(stored).toMatchObject({ lastReviewedAt: res.lastReviewedAt, nextReviewDue: res.nextReviewDue });
+    expect(stored.changeLog.at(-1).summary).toBe('review completed by alice: still accurate');
+
+    const q = await callTool<QueueResponse>('review/queue', { owner:'team-a' });
+    expect(q.owners[0].overdue).toEqual([]);
+    expect(await callTool('review/complete', { id:'rv-missing' })).toMatchObject({ notFound:true });
+    await expect(callTool('review/complete', { id:'rv-soon-a', ifMatch:'deadbeefdeadbeef' })).rejects.toMatchObject({ code: PRECONDITION_FAILED, data: { reason:'stale_revision' } });
+  });
+
+  it('writes the daily digest once per UTC day', async () => {
+    const { writeReviewDigest } = await import('../services/reviewSchedule.js');
+    const now = new Date();
+    const first = writeReviewDigest({ now });
+    expect(first.written).toBe(true);
+    expect(path.basename(first.file)).toBe(`review-digest-${now.toISOString().slice(0, 10)}.md`);
+    const text = fs.readFileSync(first.file, 'utf8');
+    expect(text).toContain('Overdue: 1');
+    expect(text).toContain('## team-b');
+    expect(text).toMatch(/`rv-late-b` .* days? overdue/);
+    expect(writeReviewDigest({ now }).written).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { callTool } from './testUtils';
+
+// Semantic / hybrid modes for instructions/search:
+//  - semantic mode ranks paraphrase matches that share no exact keyword substring
+//  - hybrid mode merges keyword + semantic scores (both exposed per result)
+//  - vectors persisted under <instructionsDir>/.search and re-embedded only when sourceHash changes
+
+function writeInstruction(dir: string, id: string, title: string, body: string, categories: string[], sourceHash = '0'.repeat(64)){
+  const now = new Date().toISOString();
+  const rec = {
+    id, title, body, rationale:'', priority:50, audience:'all', requirement:'optional',
+    categories, primaryCategory: categories[0], sourceHash, schemaVersion:'3',
+    createdAt: now, updatedAt: now, version:'1.0.0', status:'approved', owner:'owner', priorityTier:'P3',
+    classification:'public', lastReviewedAt: now, nextReviewDue: now,
+    changeLog:[{ version:'1.0.0', changedAt: now, summary:'initial import' }], semanticSummary:''
+  };
+  fs.writeFileSync(path.join(dir, id+'.json'), JSON.stringify(rec,null,2));
+}
+
+interface SearchResult { instructionId: string; relevanceScore: number; matchedFields: string[]; keywordScore?: number; semanticScore?: number }
+interface SearchResponse { results: SearchResult[]; totalMatches: number; query: { mode?: string } }
+
+describe('instructions/search semantic + hybrid modes', () => {
+  let dir: string;
+  let cat: typeof import('../services/catalogContext');
+
+  beforeAll(async () => {
+    dir = path.join(process.cwd(),'tmp', `semantic-search-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    reloadRuntimeConfig();
+    writeInstruction(dir, 'retry-backoff', 'Retrying failed network requests', 'Use exponential backoff with jitter when retrying failed HTTP requests to remote services.', ['networking']);
+    writeInstruction(dir, 'logging-levels', 'Choosing log levels', 'Reserve error level for actionable failures; use debug for verbose diagnostics.', ['observability']);
+    writeInstruction(dir, 'unit-test-naming', 'Naming unit tests', 'Test names describe behavior under test and the expected outcome.', ['testing']);
+    cat = await import('../services/catalogContext.js');
+    cat.invalidate();
+    await import('../services/handlers.search.js');
+    const idx = await import('../services/semanticIndex.js');
+    idx.__resetSemanticIndex();
+  });
+
+  it('ranks paraphrases in semantic mode and persists vectors', async () => {
+    const res = await callTool<SearchResponse>('instructions/search', { keywords:['retries','requests','backoff'], mode:'semantic' });
+    expect(res.query.mode).toBe('semantic');
+    expect(res.results[0].instructionId).toBe('retry-backoff');
+    expect(res.results[0].matchedFields).toEqual(['semantic']);
+    const file = path.join(dir, '.search', 'vectors.hashing.json');
+    const stored = JSON.parse(fs.readFileSync(file,'utf8'));
+    expect(Object.keys(stored.entries).sort()).toEqual(['logging-levels','retry-backoff','unit-test-naming']);
+    // keyword mode output is unchanged (no mode echo, no score breakdown)
+    const kw = await callTool<SearchResponse>('instructions/search', { keywords:['backoff'] });
+    expect(kw.query.mode).toBeUndefined();
+    expect(kw.results[0]).not.toHaveProperty('semanticScore');
+  });
+
+  it('merges keyword and semantic scores in hybrid mode', async () => {
+    const res = await callTool<SearchResponse>('instructions/search', { keywords:['diagnostics','logging'], mode:'hybrid' });
+    const top = res.results[0];
+    expect(top.instructionId).toBe('logging-levels');
+    expect(top.keywordScore).toBeGreaterThan(0);
+    expect(top.semanticScore).toBeGreaterThan(0);
+    expect(top.matchedFields).toContain('semantic');
+    await expect(callTool('instructions/search', { keywords:['x'], mode:'fuzzy' })).rejects.toThrow(/mode must be one of/);
+  });
+
+  it('re-embeds only entries whose sourceHash changed', async () => {
+    const idx = await import('../services/semanticIndex.js');
+    writeInstruction(dir, 'unit-test-naming', 'Naming unit tests', 'Describe caching strategy and cache invalidation rules.', ['testing'], '1'.repeat(64));
+    cat.invalidate();
+    const summary = await idx.syncVectors();
+    expect(summary.embedded).toBe(1);
+    const res = await callTool<SearchResponse>('instructions/search', { keywords:['cache','invalidation'], mode:'semantic' });
+    expect(res.results[0].instructionId).toBe('unit-test-naming');
+    expect((await idx.syncVectors()).embedded).toBe(0);
+  });
+});
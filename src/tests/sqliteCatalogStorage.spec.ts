@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { isSqliteAvailable } from '../services/catalogRepository.sqlite';
+import { callTool } from './testUtils';
+
+// SQLite catalog storage (MCP_CATALOG_STORAGE=sqlite, optional better-sqlite3 driver):
+//  - repository contract: verbatim text round-trip, stat, remove, transactional rollback
+//  - add / get / remove served end-to-end from the database (no <id>.json files written)
+//  - JSON directory -> sqlite migration with loader-level parity verification
+
+function writeInstruction(dir: string, id: string, body: string){
+  const now = new Date().toISOString();
+  const rec = {
+    id, title: id, body, rationale:'', priority:50, audience:'all', requirement:'optional',
+    categories:['storage'], primaryCategory:'storage', sourceHash:'0'.repeat(64), schemaVersion:'3',
+    createdAt: now, updatedAt: now, version:'1.0.0', status:'approved', owner:'owner', priorityTier:'P3',
+    classification:'public', lastReviewedAt: now, nextReviewDue: now,
+    changeLog:[{ version:'1.0.0', changedAt: now, summary:'initial import' }], semanticSummary:''
+  };
+  fs.writeFileSync(path.join(dir, id+'.json'), JSON.stringify(rec,null,2));
+}
+
+describe.skipIf(!isSqliteAvailable())('sqlite catalog storage', () => {
+  let root: string;
+  const prevEnv = { storage: process.env.MCP_CATALOG_STORAGE, mutation: process.env.MCP_MUTATION };
+
+  beforeAll(() => {
+    root = path.join(process.cwd(),'tmp', `sqlite-storage-${Date.now()}`);
+    fs.mkdirSync(root, { recursive: true });
+  });
+
+  afterAll(async () => {
+    const repo = await import('../services/catalogRepository.js');
+    repo.closeCatalogStorage();
+    if(prevEnv.storage === undefined) delete process.env.MCP_CATALOG_STORAGE; else process.env.MCP_CATALOG_STORAGE = prevEnv.storage;
+    if(prevEnv.mutation === undefined) delete process.env.MCP_MUTATION; else process.env.MCP_MUTATION = prevEnv.mutation;
+    reloadRuntimeConfig();
+  });
+
+  it('round-trips record text and rolls back failed transactions', async () => {
+    const { SqliteCatalogRepository } = await import('../services/catalogRepository.sqlite.js');
+    const repo = new SqliteCatalogRepository(path.join(root, 'contract.sqlite'));
+    const text = JSON.stringify({ id:'alpha', body:'x', sourceHash:'a'.repeat(64) }, null, 2);
+    repo.writeText('alpha.json', text);
+    expect(repo.readText('alpha.json')).toBe(text);
+    expect(repo.listFiles()).toEqual(['alpha.json']);
+    const first = repo.stat('alpha.json')!;
+    expect(first.size).toBe(text.length);
+    repo.writeText('alpha.json', text);
+    expect(repo.stat('alpha.json')!.mtimeMs).toBeGreaterThan(first.mtimeMs);
+    expect(() => repo.transaction(() => { repo.writeText('beta.json', '{}'); throw new Error('abort'); })).toThrow('abort');
+    expect(repo.exists('beta')).toBe(false);
+    expect(repo.remove('alpha')).toBe(true);
+    expect(repo.remove('alpha')).toBe(false);
+    expect(() => repo.readText('alpha.json')).toThrow(/ENOENT/);
+    repo.close();
+  });
+
+  it('serves add / get / remove from the database', async () => {
+    const dir = path.join(root, 'served');
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_CATALOG_STORAGE = 'sqlite';
+    process.env.MCP_MUTATION = '1';
+    reloadRuntimeConfig();
+    const cat = await import('../services/catalogContext.js');
+    cat.invalidate();
+    await import('../services/handlers.instructions.js');
+    await import('../services/instructions.dispatcher.js');
+
+    const entry = { id:'sqlite-served', title:'Served from sqlite', body:'Stored as a database row.', audience:'all', requirement:'optional', categories:['storage'], owner:'owner' };
+    const added = await callTool<{ created?: boolean; verified?: boolean; error?: string }>('instructions/add', { entry, lax:true });
+    expect(added.error).toBeUndefined();
+    expect(added.created).toBe(true);
+    expect(fs.existsSync(path.join(dir, 'catalog.sqlite'))).toBe(true);
+    expect(fs.existsSync(path.join(dir, 'sqlite-served.json'))).toBe(false);
+
+    const got = await callTool<{ item?: { id: string; body: string } }>('instructions/dispatch', { action:'get', id:'sqlite-served' });
+    expect(got.item?.body).toBe('Stored as a database row.');
+
+    const removed = await callTool<{ removed: number }>('instructions/remove', { ids:['sqlite-served'] });
+    expect(removed.removed).toBe(1);
+    expect(cat.ensureLoaded().byId.has('sqlite-served')).toBe(false);
+  });
+
+  it('migrates a JSON directory and verifies parity', async () => {
+    const src = path.join(root, 'json');
+    fs.mkdirSync(src, { recursive: true });
+    writeInstruction(src, 'mig-one', 'First migrated record.');
+    writeInstruction(src, 'mig-two', 'Second migrated record.');
+    fs.writeFileSync(path.join(src, '_skipped.json'), '[]');
+    const { migrateJsonCatalogToSqlite } = await import('../services/catalogMigration.js');
+    const target = path.join(root, 'migrated.sqlite');
+    const res = migrateJsonCatalogToSqlite(src, target);
+    expect(res.copied).toBe(2);
+    expect(res.skipped).toEqual(['_skipped.json']);
+    expect(res.verified).toBe(true);
+    expect(res.sqlite.count).toBe(2);
+    expect(res.sqlite.hash).toBe(res.file.hash);
+    expect(() => migrateJsonCatalogToSqlite(src, target)).toThrow(/already holds 2 records/);
+    expect(migrateJsonCatalogToSqlite(src, target, { replace: true }).verified).toBe(true);
+  });
+});
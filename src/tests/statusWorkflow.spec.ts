@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { setSessionClient } from '../services/accessControl';
+import { callTool } from './testUtils';
+
+// Status state machine and approvals (statusWorkflow.ts) through governanceUpdate / instructions/approve,
+// plus agent-created drafts held out of default list and search results.
+
+interface ApproveResponse { id: string; status?: string; approved?: boolean; required?: number; approvals?: { approver: string }[]; error?: string }
+interface ListResponse { items: { id: string; status?: string }[] }
+interface SearchResponse { results: { instructionId: string }[] }
+
+const ENV_KEYS = ['MCP_MUTATION','MCP_APPROVERS','MCP_APPROVALS_REQUIRED','MCP_AGENT_ID'] as const;
+
+describe('status workflow and approvals', () => {
+  const prev = Object.fromEntries(ENV_KEYS.map(k => [k, process.env[k]]));
+  const run = Date.now().toString(36);
+  const gov = (id: string, status: string) => callTool<ApproveResponse & { changed?: boolean; allowed?: string[]; approvals?: unknown }>('instructions/governanceUpdate', { id, status });
+  // approvals are recorded for the authenticated caller (here the stdio client name from initialize)
+  const approve = async (id: string, approver?: string) => {
+    setSessionClient(approver);
+    try { return await callTool<ApproveResponse>('instructions/approve', { id }); } finally { setSessionClient(undefined); }
+  };
+
+  beforeAll(async () => {
+    const dir = path.join(process.cwd(),'tmp', `status-workflow-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_MUTATION = '1';
+    process.env.MCP_APPROVERS = 'alice,bob,agent-x';
+    process.env.MCP_APPROVALS_REQUIRED = 'P1:2,P4:1';
+    delete process.env.MCP_AGENT_ID;
+    reloadRuntimeConfig();
+    const cat = await import('../services/catalogContext.js');
+    cat.invalidate();
+    await import('../services/handlers.instructions.js');
+    await import('../services/handlers.search.js');
+    await import('../services/instructions.dispatcher.js');
+    await callTool('instructions/add', { entry:{ id:'sw-p1', title:'Key rotation', body:'Rotate signing keys.', priority:5, audience:'all', requirement:'recommended', categories:['security'], priorityTier:'P1', owner:'team-sec' }, lax:true });
+  });
+
+  afterAll(() => {
+    for(const k of ENV_KEYS){ if(prev[k] === undefined) delete process.env[k]; else process.env[k] = prev[k]; }
+    reloadRuntimeConfig();
+  });
+
+  it('enforces transitions and the tier approval count', async () => {
+    expect(await gov('sw-p1', 'draft')).toMatchObject({ error:'invalid_transition', from:'approved', to:'draft', allowed:['review','deprecated'] });
+    expect(await gov('sw-p1', 'review')).toMatchObject({ changed:true, status:'review' });
+    expect(await gov('sw-p1', 'approved')).toMatchObject({ error:'approvals_required', required:2, approvals:0 });
+
+    expect(await approve('sw-p1', 'mallory')).toMatchObject({ error:'not_an_approver' });
+    expect(await approve('sw-p1')).toMatchObject({ error:'approver_required' });
+    // the approver cannot be claimed through a parameter
+    expect(await callTool('instructions/approve', { id:'sw-p1', approver:'alice' })).toMatchObject({ error: expect.stringMatching(/approver/) });
+    expect(await approve('sw-p1', 'alice')).toMatchObject({ approved:false, status:'review', required:2 });
+    expect(await approve('sw-p1', 'alice')).toMatchObject({ error:'already_approved' });
+    const done = await approve('sw-p1', 'bob');
+    expect(done).toMatchObject({ approved:true, status:'approved' });
+    expect(done.approvals?.map(a => a.approver)).toEqual(['alice','bob']);
+    expect(await approve('sw-p1', 'bob')).toMatchObject({ error:'not_in_review', from:'approved' });
+
+    // a new review round starts without the previous approvals
+    await gov('sw-p1', 'review');
+    expect(await gov('sw-p1', 'approved')).toMatchObject({ error:'approvals_required', approvals:0 });
+    const stored = (await callTool<{ item: { changeLog: { summary: string }[] } }>('instructions/dispatch', { action:'get', id:'sw-p1' })).item;
+    expect(stored.changeLog.map(c => c.summary)).toEqual(expect.arrayContaining(['status approved -> review', 'status review -> approved']));
+  });
+
+  it('holds agent-created entries in draft and out of default list / search until approved', async () => {
+    process.env.MCP_AGENT_ID = 'agent-x';
+    reloadRuntimeConfig();
+    const id = `sw-agent-${run}`;
+    await callTool('instructions/add', { entry:{ id, title:`Agent note ${run}`, body:'Drafted by an agent.', categories:['notes'], status:'approved' }, lax:true });
+    await callTool('instructions/add', { entry:{ id:`${id}-prompt`, title:'Agent prompt draft', body:'Summarize {{topic}}.', categories:['prompts'] }, lax:true });
+    delete process.env.MCP_AGENT_ID;
+    reloadRuntimeConfig();
+
+    const listed = await callTool<ListResponse>('instructions/dispatch', { action:'list' });
+    expect(listed.items.some(i => i.id === id)).toBe(false);
+    const withDrafts = await callTool<ListResponse>('instructions/dispatch', { action:'list', includeDrafts:true });
+    expect(withDrafts.items.find(i => i.id === id)?.status).toBe('draft');
+    expect((await callTool<SearchResponse>('instructions/search', { keywords:[run] })).results).toEqual([]);
+    expect((await callTool<SearchResponse>('instructions/search', { keywords:[run], includeDrafts:true })).results.map(r => r.instructionId)).toEqual([id]);
+    // dispatcher read actions hide the draft the same way
+    const dispatched = (args: Record<string, unknown>) => callTool<ListResponse>('instructions/dispatch', args).then(r => r.items.map(i => i.id));
+    for(const args of [{ action:'search', q:run }, { action:'search', q:run, mode:'fulltext' }, { action:'query', text:run }, { action:'query', text:run, textMode:'fulltext' }, { action:'export', ids:[id] }]){
+      expect(await dispatched(args)).toEqual([]);
+      expect(await dispatched({ ...args, includeDrafts:true })).toEqual([id]);
+    }
+    // ... and so do MCP resources and prompts
+    const { listInstructionResources, readInstructionResource } = await import('../services/instructionResources.js');
+    const { listInstructionPrompts, getInstructionPrompt } = await import('../services/instructionPrompts.js');
+    const resourceIds = () => listInstructionResources({ limit: 1000 }).resources.map(r => r.uri);
+    expect(resourceIds()).not.toContain(`instruction://${id}`);
+    expect(() => readInstructionResource(`instruction://${id}`)).toThrow(/Resource not found/);
+    expect(listInstructionPrompts().prompts.map(p => p.name)).not.toContain(`${id}-prompt`);
+    expect(() => getInstructionPrompt(`${id}-prompt`, { topic:'x' })).toThrow();
+
+    expect(await gov(id, 'approved')).toMatchObject({ error:'invalid_transition', from:'draft' });
+    await gov(id, 'review');
+    expect(await approve(id, 'agent-x')).toMatchObject({ error:'self_approval' });
+    expect(await approve(id, 'alice')).toMatchObject({ approved:true, status:'approved' });
+    expect((await callTool<ListResponse>('instructions/dispatch', { action:'list' })).items.some(i => i.id === id)).toBe(true);
+    expect(resourceIds()).toContain(`instruction://${id}`);
+    expect(readInstructionResource(`instruction://${id}`).contents[0].text).toBe('Drafted by an agent.');
+    expect((await callTool<SearchResponse>('instructions/search', { keywords:[run] })).results.map(r => r.instructionId)).toEqual([id]);
+  });
+
+  it('runs statuses written through add and import through the state machine', async () => {
+    const stored = async (id: string) => (await callTool<{ item: { status?: string; approvals?: unknown[] } }>('instructions/dispatch', { action:'get', id })).item;
+    const entry = (id: string, title: string, status: string) => ({ id, title, body:`Body of ${id}.`, priority:50, audience:'all', requirement:'optional', categories:['notes'], status });
+
+    // a new entry asking for approved starts in draft; a later overwrite cannot skip review
+    await callTool('instructions/add', { entry: entry('sw-add', 'Added', 'approved'), lax:true });
+    expect((await stored('sw-add')).status).toBe('draft');
+    expect(await callTool('instructions/add', { entry: entry('sw-add', 'Added again', 'approved'), overwrite:true, lax:true })).toMatchObject({ error:'invalid_transition', from:'draft', to:'approved' });
+    expect(await stored('sw-add')).toMatchObject({ status:'draft' });
+    await callTool('instructions/add', { entry: entry('sw-add', 'Added for review', 'review'), overwrite:true, lax:true });
+    expect(await stored('sw-add')).toMatchObject({ status:'review', approvals:[] });
+
+    const imported = await callTool<{ imported: number; errors: { id: string; error: string }[] }>('instructions/import', { entries:[entry('sw-import', 'Imported', 'approved'), entry('sw-add', 'Imported over', 'approved')], mode:'overwrite' });
+    expect(imported.imported).toBe(1);
+    expect(imported.errors).toEqual([{ id:'sw-add', error:'approvals_required' }]);
+    expect((await stored('sw-import')).status).toBe('draft');
+    expect((await stored('sw-add')).status).toBe('review');
+  });
+});
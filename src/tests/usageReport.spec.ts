@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { reloadRuntimeConfig } from '../config/runtimeConfig';
+import { callTool } from './testUtils';
+
+// usage/track context + outcome signals recorded through UsageBucketsService, aggregated by usage/report
+// (usageReport.ts): helpfulness ratio, outcome counts, per-client adoption, filters.
+
+interface Report {
+  totalEvents: number;
+  ratedEvents: number;
+  instructions: { id: string; events: number; sessions: number; outcomes: Record<string, number>; rated: number; helpfulness: number | null; clients: { clientName: string; events: number; share: number }[] }[];
+  clients: { clientName: string; events: number; instructions: number; helpfulness: number | null }[];
+}
+
+describe('usage/track context and usage/report', () => {
+  let dir: string;
+  // usage counters persist in a process-wide snapshot (data/usage-snapshot.json); unique ids keep runs independent
+  const run = Date.now().toString(36);
+  const TESTING = `ur-testing-${run}`; const STYLE = `ur-style-${run}`;
+  const prevMutation = process.env.MCP_MUTATION;
+
+  beforeAll(async () => {
+    dir = path.join(process.cwd(),'tmp', `usage-report-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    process.env.INSTRUCTIONS_DIR = dir;
+    process.env.MCP_MUTATION = '1';
+    reloadRuntimeConfig();
+    (await import('../services/features.js')).enableFeature('usage');
+    const cat = await import('../services/catalogContext.js');
+    cat.invalidate();
+    await import('../services/handlers.instructions.js');
+    await import('../services/handlers.usage.js');
+    for(const id of [TESTING, STYLE]){
+      await callTool('instructions/add', { entry:{ id, title:id, body:`Body of ${id}.`, categories:['usage'] }, lax:true });
+    }
+  });
+
+  afterAll(() => {
+    if(prevMutation === undefined) delete process.env.MCP_MUTATION; else process.env.MCP_MUTATION = prevMutation;
+    reloadRuntimeConfig();
+  });
+
+  it('records context and outcomes and reports effectiveness per instruction and client', async () => {
+    const track = (id: string, extra: Record<string, unknown>) => callTool<{ id?: string; usageCount?: number; error?: string }>('usage/track', { id, ...extra });
+    const first = await track(TESTING, { clientName:'vscode', sessionId:'s1', workspaceId:'ws-a', taskTag:'refactor', outcome:'helpful' });
+    expect(first.usageCount).toBe(1);
+    await track(TESTING, { clientName:'vscode', sessionId:'s2', outcome:'wrong' });
+    await track(TESTING, { clientName:'cli', sessionId:'s3', workspaceId:'ws-b', outcome:'helpful' });
+    await track(TESTING, { clientName:'cli', sessionId:'s3' });
+    await track(STYLE, { outcome:'not-relevant' });
+    expect((await track(STYLE, { outcome:'meh' })).error).toMatch(/invalid outcome/);
+    expect(fs.existsSync(path.join(dir, '.usage', 'usage-buckets.json'))).toBe(true);
+
+    const report = await callTool<Report>('usage/report', {});
+    expect(report.totalEvents).toBe(5);
+    expect(report.ratedEvents).toBe(4);
+    const testing = report.instructions[0];
+    expect(testing).toMatchObject({ id:TESTING, events:4, sessions:3, rated:3, helpfulness:0.6667, outcomes:{ helpful:2, 'not-relevant':0, wrong:1 } });
+    expect(testing.clients).toEqual([
+      { clientName:'cli', events:2, share:0.5, helpful:1, rated:1 },
+      { clientName:'vscode', events:2, share:0.5, helpful:1, rated:2 }
+    ]);
+    expect(report.instructions[1]).toMatchObject({ id:STYLE, helpfulness:0, clients:[{ clientName:'unknown', events:1, share:1 }] });
+    expect(report.clients.map(c => [c.clientName, c.events, c.instructions])).toEqual([['cli',2,1],['vscode',2,1],['unknown',1,1]]);
+  });
+
+  it('filters by client, workspace, task and time', async () => {
+    const byClient = await callTool<Report>('usage/report', { clientName:'vscode' });
+    expect(byClient.totalEvents).toBe(2);
+    expect(byClient.instructions[0].helpfulness).toBe(0.5);
+    expect((await callTool<Report>('usage/report', { workspaceId:'ws-b' })).totalEvents).toBe(1);
+    expect((await callTool<Report>('usage/report', { taskTag:'refactor', id:TESTING })).totalEvents).toBe(1);
+    expect((await callTool<Report>('usage/report', { since: new Date(Date.now() + 60_000).toISOString() })).totalEvents).toBe(0);
+    expect(await callTool('usage/report', { since:'yesterday-ish' })).toMatchObject({ error: expect.stringMatching(/invalid since/) });
+  });
+});